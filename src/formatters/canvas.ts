@@ -0,0 +1,183 @@
+/**
+ * Canvas operation formatters
+ */
+
+import {
+  header,
+  property,
+  divider,
+  tip,
+  summaryFooter,
+  joinLines,
+  truncate
+} from './utils';
+
+/**
+ * One node or edge as canvas.read returns it (a JSON Canvas node or edge)
+ */
+export interface CanvasNodeItem {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  url?: string;
+  label?: string;
+}
+
+export interface CanvasEdgeItem {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  fromSide?: string;
+  toSide?: string;
+  label?: string;
+}
+
+/**
+ * Format canvas.list response
+ */
+export interface CanvasListResponse {
+  folder: string;
+  canvases: Array<{ path: string; nodes?: number; edges?: number; error?: string }>;
+}
+
+/**
+ * Format canvas.read / canvas.validate response
+ */
+export interface CanvasReadResponse {
+  path: string;
+  nodes?: CanvasNodeItem[];
+  edges?: CanvasEdgeItem[];
+  valid?: boolean;
+  issues: string[];
+}
+
+/**
+ * Format canvas.create / add_node / add_edge / move / remove / layout response
+ */
+export interface CanvasEditResponse {
+  path: string;
+  created?: boolean;
+  node?: CanvasNodeItem;
+  edge?: CanvasEdgeItem;
+  moved?: string[];
+  removedNodes?: string[];
+  removedEdges?: string[];
+  added?: Array<{ id: string; file: string }>;
+  alreadyOnCanvas?: string[];
+  edgesAdded?: number;
+}
+
+/** What a card shows: its text, file, url or group label. */
+function nodeContent(node: CanvasNodeItem): string {
+  switch (node.type) {
+    case 'text':
+      return truncate((node.text ?? '').replace(/\s+/g, ' '), 80);
+    case 'file':
+      return `${node.file ?? ''}${node.subpath ?? ''}`;
+    case 'link':
+      return node.url ?? '';
+    case 'group':
+      return node.label ?? '(unlabelled)';
+    default:
+      return '';
+  }
+}
+
+function nodeLine(node: CanvasNodeItem): string {
+  return `\`${node.id}\` ${node.type}: ${nodeContent(node)} — at ${node.x},${node.y}, ${node.width}×${node.height}`;
+}
+
+export function formatCanvasList(response: CanvasListResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Canvases in ${response.folder}: ${response.canvases.length}`));
+  lines.push('');
+
+  if (response.canvases.length === 0) {
+    lines.push('No .canvas files.');
+  }
+  for (const canvas of response.canvases) {
+    lines.push(canvas.error !== undefined
+      ? `- ${canvas.path} ⚠️ ${canvas.error}`
+      : `- ${canvas.path} (${canvas.nodes} nodes, ${canvas.edges} edges)`);
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+export function formatCanvasRead(response: CanvasReadResponse): string {
+  const lines: string[] = [];
+  const nodes = response.nodes ?? [];
+  const edges = response.edges ?? [];
+
+  if (response.nodes === undefined) {
+    lines.push(header(1, `${response.path}: ${response.issues.length === 0 ? 'valid' : `${response.issues.length} problems`}`));
+  } else {
+    lines.push(header(1, `Canvas: ${response.path}`));
+    lines.push(property('Nodes', nodes.length, 0));
+    lines.push(property('Edges', edges.length, 0));
+    lines.push('');
+
+    if (nodes.length > 0) {
+      lines.push(header(2, 'Nodes'));
+      for (const node of nodes) lines.push(`- ${nodeLine(node)}`);
+    }
+    if (edges.length > 0) {
+      lines.push('');
+      lines.push(header(2, 'Edges'));
+      for (const edge of edges) {
+        const label = edge.label ? ` "${edge.label}"` : '';
+        lines.push(`- \`${edge.id}\` ${edge.fromNode} → ${edge.toNode}${label}`);
+      }
+    }
+  }
+
+  if (response.issues.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Not valid JSON Canvas'));
+    for (const issue of response.issues) lines.push(`- ${issue}`);
+  }
+
+  lines.push(divider());
+  lines.push(tip('Use the node ids with add_edge, move and remove'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+export function formatCanvasEdit(response: CanvasEditResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Canvas ${response.created ? 'created' : 'updated'}: ${response.path}`));
+
+  if (response.node) lines.push(property('Node', nodeLine(response.node), 0));
+  if (response.edge) lines.push(property('Edge', `\`${response.edge.id}\` ${response.edge.fromNode} → ${response.edge.toNode}`, 0));
+  if (response.moved) lines.push(property('Moved', response.moved.join(', '), 0));
+  if (response.removedNodes) lines.push(property('Removed nodes', response.removedNodes.join(', ') || 'none', 0));
+  if (response.removedEdges) lines.push(property('Removed edges', response.removedEdges.join(', ') || 'none', 0));
+
+  if (response.added) {
+    lines.push(property('Notes placed', response.added.length, 0));
+    lines.push(property('Edges added', response.edgesAdded ?? 0, 0));
+    if (response.alreadyOnCanvas && response.alreadyOnCanvas.length > 0) {
+      lines.push(property('Already on the canvas', response.alreadyOnCanvas.join(', '), 0));
+    }
+    if (response.added.length > 0) {
+      lines.push('');
+      for (const added of response.added) lines.push(`- \`${added.id}\` ${added.file}`);
+    }
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
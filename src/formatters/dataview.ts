@@ -17,13 +17,23 @@ import {
  */
 export interface DataviewQueryResponse {
   query: string;
-  type: 'list' | 'table' | 'task' | 'calendar';
+  type: 'list' | 'table' | 'task' | 'calendar' | 'js';
   values?: DataviewValue[];
   headers?: string[];
+  /** DataviewJS: what the script rendered, in order. */
+  outputs?: DataviewJsOutputItem[];
+  logs?: string[];
+  truncated?: boolean;
   successful: boolean;
   error?: string;
 }
 
+type DataviewJsOutputItem =
+  | { type: 'table'; headers: string[]; values: DataviewValue[] }
+  | { type: 'list' | 'task'; values: DataviewValue[] }
+  | { type: 'header'; level: number; text: string }
+  | { type: 'paragraph'; text: string };
+
 type DataviewValue = Record<string, unknown> | unknown[] | string | number | boolean | null;
 
 export function formatDataviewQuery(response: DataviewQueryResponse): string {
@@ -42,6 +52,14 @@ export function formatDataviewQuery(response: DataviewQueryResponse): string {
     return joinLines(lines);
   }
 
+  if (response.type === 'js') {
+    lines.push(formatDataviewJsOutputs(response));
+    lines.push(divider());
+    lines.push(tip('Use `vault.read(path)` to examine any result'));
+    lines.push(summaryFooter());
+    return joinLines(lines);
+  }
+
   if (!response.values || response.values.length === 0) {
     lines.push('No results found.');
     lines.push(summaryFooter());
@@ -67,6 +85,46 @@ export function formatDataviewQuery(response: DataviewQueryResponse): string {
   return joinLines(lines);
 }
 
+function formatDataviewJsOutputs(response: DataviewQueryResponse): string {
+  const outputs = response.outputs ?? [];
+  const lines: string[] = [];
+  if (outputs.length === 0 && !response.logs?.length) {
+    lines.push('The script rendered nothing.');
+  }
+
+  for (const output of outputs) {
+    switch (output.type) {
+      case 'header':
+        lines.push(header(Math.min(6, Math.max(2, output.level + 1)), output.text));
+        break;
+      case 'paragraph':
+        lines.push(output.text);
+        break;
+      case 'table':
+        lines.push(output.values.length > 0 ? formatDataviewTable(output.headers, output.values) : '(empty table)');
+        break;
+      case 'list':
+        lines.push(output.values.length > 0 ? formatDataviewList(output.values) : '(empty list)');
+        break;
+      case 'task':
+        lines.push(output.values.length > 0 ? formatDataviewTasks(output.values) : '(no tasks)');
+        break;
+    }
+    lines.push('');
+  }
+
+  if (response.logs?.length) {
+    lines.push(header(2, 'Console'));
+    lines.push('```');
+    lines.push(...response.logs.slice(0, 50));
+    lines.push('```');
+  }
+  if (response.truncated) {
+    lines.push('⚠️ Output was cut off at the size limit.');
+  }
+  return lines.join('\n').trimEnd();
+}
+
 /**
  * Render a single table cell value. Dataview hands back rich objects — `Link`
  * (`{ path, display }`) and Luxon `DateTime` (`toISO()`) — not primitives.
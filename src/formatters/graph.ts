@@ -91,7 +91,10 @@ export interface GraphNeighborsEdge {
   source: string;
   target: string;
   type: string;
+  /** The property a typed link is written in. */
+  relation?: string;
   count: number;
+  weight?: number;
 }
 
 export interface GraphNeighborsResponse {
@@ -146,6 +149,21 @@ export function formatGraphNeighbors(response: GraphNeighborsResponse): string {
     lines.push(property('Incoming', incoming.length.toString(), 0));
   }
 
+  const typed = response.edges.filter(e => e.relation);
+  if (typed.length > 0) {
+    lines.push('');
+    lines.push(header(2, `Relations (${typed.length})`));
+    typed.slice(0, 20).forEach(edge => {
+      const weight = edge.weight !== undefined ? ` (weight ${edge.weight})` : '';
+      lines.push(edge.source === response.sourcePath
+        ? `- ${edge.relation} → ${edge.target}${weight}`
+        : `- ${edge.relation} ← ${edge.source}${weight}`);
+    });
+    if (typed.length > 20) {
+      lines.push(`... and ${typed.length - 20} more`);
+    }
+  }
+
   lines.push(divider());
   lines.push(tip('Use `graph.traverse(path)` to explore deeper connections'));
   lines.push(summaryFooter());
@@ -557,3 +575,479 @@ export function formatSearchTraverse(response: SearchTraverseResponse): string {
 
   return joinLines(lines);
 }
+
+/**
+ * One broken link as graph.broken_links / repair_links return it
+ */
+export interface BrokenLinkItem {
+  path: string;
+  line: number;
+  link: string;
+  problem: string;
+  resolved?: string;
+  suggestions: Array<{ link: string; target: string; reason: string; score: number }>;
+}
+
+/**
+ * Format graph.broken_links response
+ */
+export interface BrokenLinksResponse {
+  scope: string;
+  notesChecked: number;
+  total: number;
+  byProblem: Record<string, number>;
+  truncated?: boolean;
+  broken: BrokenLinkItem[];
+}
+
+/**
+ * Format graph.repair_links response
+ */
+export interface RepairLinksResponse {
+  scope: string;
+  threshold: number;
+  files: string[];
+  repaired: Array<BrokenLinkItem & { repair: { link: string; reason: string; score: number } }>;
+  skipped: Array<BrokenLinkItem & { reason: string }>;
+  failed: Array<{ path: string; reason: string }>;
+}
+
+const PROBLEM_LABELS: Record<string, string> = {
+  missing_note: 'missing note',
+  missing_heading: 'missing heading',
+  missing_block: 'missing block',
+  case_mismatch: 'case mismatch',
+};
+
+function brokenLinkLine(link: BrokenLinkItem): string {
+  const problem = PROBLEM_LABELS[link.problem] ?? link.problem;
+  return `${link.path}:${link.line} \`${link.link}\` — ${problem}`;
+}
+
+export function formatBrokenLinks(response: BrokenLinksResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Broken links in ${response.scope}: ${response.total}`));
+  lines.push(property('Notes checked', response.notesChecked, 0));
+  const counts = Object.entries(response.byProblem).map(([problem, count]) => `${PROBLEM_LABELS[problem] ?? problem} ${count}`);
+  if (counts.length > 0) lines.push(property('By problem', counts.join(', '), 0));
+  lines.push('');
+
+  if (response.total === 0) {
+    lines.push('No broken links.');
+  }
+  for (const link of response.broken) {
+    lines.push(`- ${brokenLinkLine(link)}`);
+    for (const suggestion of link.suggestions) {
+      lines.push(`  - ${suggestion.reason} (${suggestion.score.toFixed(2)}): \`${suggestion.link}\``);
+    }
+  }
+  if (response.truncated) {
+    lines.push('');
+    lines.push(`${response.total - response.broken.length} more not shown; raise limit or narrow path.`);
+  }
+
+  if (response.total > 0) {
+    lines.push(divider());
+    lines.push(tip('`graph.repair_links` with dryRun=true previews applying the best suggestions'));
+  }
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+export function formatRepairLinks(response: RepairLinksResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Repaired ${response.repaired.length} links in ${response.files.length} files`));
+  lines.push(property('Scope', response.scope, 0));
+  lines.push(property('Threshold', response.threshold, 0));
+
+  if (response.repaired.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Repaired'));
+    for (const link of response.repaired) {
+      lines.push(`- ${brokenLinkLine(link)} → \`${link.repair.link}\` (${link.repair.reason})`);
+    }
+  }
+  if (response.skipped.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Left for review'));
+    for (const link of response.skipped) {
+      lines.push(`- ${brokenLinkLine(link)}: ${link.reason}`);
+    }
+  }
+  if (response.failed.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Not written'));
+    for (const failed of response.failed) lines.push(`- ${failed.path} ⚠️ ${failed.reason}`);
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * One note in graph.analyze rankings
+ */
+export interface GraphAnalysisNode {
+  path: string;
+  title: string;
+  pageRank: number;
+  betweenness: number;
+  community?: number;
+}
+
+/**
+ * Format graph.analyze response
+ * Actual response: { operation, sourcePath?, analysis: {...}, message, workflow }
+ */
+export interface GraphAnalysisResponse {
+  sourcePath?: string;
+  analysis: {
+    scope: string;
+    notes: number;
+    links: number;
+    cached: boolean;
+    approximate: boolean;
+    modularity: number;
+    topPageRank: GraphAnalysisNode[];
+    topBetweenness: GraphAnalysisNode[];
+    communities: Array<{
+      id: number;
+      size: number;
+      members: GraphAnalysisNode[];
+      externalLinks: number;
+      linkedCommunities: number[];
+      isolated: boolean;
+    }>;
+    totalCommunities: number;
+    unlinked: number;
+    node?: GraphAnalysisNode & { pageRankRank: number; betweennessRank: number };
+  };
+}
+
+function rankedLine(node: GraphAnalysisNode, index: number, score: number): string {
+  const community = node.community !== undefined ? `, community ${node.community}` : '';
+  return `${index + 1}. ${node.title} — ${node.path} (${score.toFixed(4)}${community})`;
+}
+
+export function formatGraphAnalysis(response: GraphAnalysisResponse): string {
+  const { analysis } = response;
+  const lines: string[] = [];
+
+  lines.push(header(1, `Graph analysis: ${analysis.scope}`));
+  lines.push('');
+  lines.push(property('Notes', analysis.notes.toString(), 0));
+  lines.push(property('Links', analysis.links.toString(), 0));
+  lines.push(property('Communities', analysis.totalCommunities.toString(), 0));
+  lines.push(property('Unlinked notes', analysis.unlinked.toString(), 0));
+  lines.push(property('Modularity', analysis.modularity.toFixed(2), 0));
+  if (analysis.cached) {
+    lines.push('   (cached — no links changed since the last analysis)');
+  }
+
+  if (analysis.node) {
+    const node = analysis.node;
+    lines.push('');
+    lines.push(header(2, `Note: ${node.title}`));
+    lines.push(property('PageRank', `${node.pageRank.toFixed(4)} (#${node.pageRankRank} of ${analysis.notes})`, 0));
+    lines.push(property('Betweenness', `${node.betweenness.toFixed(4)} (#${node.betweennessRank} of ${analysis.notes})`, 0));
+    lines.push(property('Community', node.community !== undefined ? node.community.toString() : 'none (no links)', 0));
+  } else {
+    lines.push('');
+    lines.push(header(2, 'Hubs (PageRank)'));
+    analysis.topPageRank.forEach((node, i) => lines.push(rankedLine(node, i, node.pageRank)));
+    lines.push('');
+    lines.push(header(2, `Bridges (betweenness${analysis.approximate ? ', estimated' : ''})`));
+    analysis.topBetweenness.forEach((node, i) => lines.push(rankedLine(node, i, node.betweenness)));
+  }
+
+  lines.push('');
+  lines.push(header(2, response.sourcePath ? 'Community' : 'Communities'));
+  if (analysis.communities.length === 0) {
+    lines.push('No communities.');
+  }
+  for (const community of analysis.communities) {
+    const links = community.isolated
+      ? 'isolated — no links to other communities'
+      : `${community.externalLinks} links to communities ${community.linkedCommunities.join(', ')}`;
+    lines.push(`### ${community.id}: ${community.size} notes, ${links}`);
+    for (const member of community.members) {
+      lines.push(`- ${member.title} — ${member.path}`);
+    }
+    if (community.size > community.members.length) {
+      lines.push(`- ... and ${community.size - community.members.length} more`);
+    }
+  }
+  if (!response.sourcePath && analysis.totalCommunities > analysis.communities.length) {
+    lines.push('');
+    lines.push(`${analysis.totalCommunities - analysis.communities.length} smaller communities not shown; raise limit.`);
+  }
+
+  lines.push(divider());
+  lines.push(tip('Use `graph.neighbors(path)` on a hub, or `graph.analyze(sourcePath)` for the community of one note'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * Format graph.export response
+ * Actual response: { format, scope, nodes, edges, outputPath?, bytes, created? }
+ * or, returned in pages: { ..., content, page, totalPages, hasMore, nextPage }
+ */
+export interface GraphExportResponse {
+  format: string;
+  scope: string;
+  nodes: number;
+  edges: number;
+  bytes: number;
+  outputPath?: string;
+  created?: boolean;
+  content?: string;
+  page?: number;
+  totalPages?: number;
+  hasMore?: boolean;
+  nextPage?: string | null;
+}
+
+export function formatGraphExport(response: GraphExportResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Graph export: ${response.scope}`));
+  lines.push('');
+  lines.push(property('Format', response.format, 0));
+  lines.push(property('Nodes', response.nodes.toString(), 0));
+  lines.push(property('Edges', response.edges.toString(), 0));
+  lines.push(property('Size', `${response.bytes} bytes`, 0));
+
+  if (response.outputPath) {
+    lines.push(property(response.created ? 'Written to' : 'Replaced', response.outputPath, 0));
+  } else if (response.content !== undefined) {
+    // Verbatim, so the pages concatenate back into a file the tools can open
+    lines.push('');
+    lines.push(header(2, 'Content'));
+    lines.push('');
+    lines.push(response.content);
+    if (response.totalPages !== undefined && response.totalPages > 1) {
+      lines.push('');
+      lines.push(header(2, 'Pagination'));
+      lines.push(property('Page', `${response.page} of ${response.totalPages}`, 0));
+      if (response.hasMore && response.nextPage) {
+        lines.push(property('Next', response.nextPage, 0));
+      }
+      lines.push('   outputPath writes the whole export to the vault in one call');
+    }
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * One unlinked mention as graph.suggest_links / link_mentions return it
+ */
+export interface MentionItem {
+  id: string;
+  direction: 'outgoing' | 'incoming';
+  path: string;
+  line: number;
+  column: number;
+  text: string;
+  target: string;
+  context: string;
+  link: string;
+}
+
+/**
+ * Format graph.suggest_links response
+ * Actual response: { sourcePath, outgoing, incoming, totals, related, workflow }
+ */
+export interface SuggestLinksResponse {
+  sourcePath: string;
+  outgoing: MentionItem[];
+  incoming: MentionItem[];
+  totals: { outgoing: number; incoming: number };
+  related: Array<{
+    path: string;
+    title: string;
+    score: number;
+    sharedTags: string[];
+    coCitations: number;
+    linksHere: boolean;
+    mentions: number;
+  }>;
+}
+
+function mentionLine(mention: MentionItem): string {
+  return `- \`${mention.id}\` "${mention.text}" → \`${mention.link}\``;
+}
+
+function mentionSection(lines: string[], title: string, mentions: MentionItem[], total: number): void {
+  lines.push('');
+  lines.push(header(2, `${title} (${total})`));
+  if (total === 0) {
+    lines.push('None.');
+  }
+  for (const mention of mentions) {
+    lines.push(mentionLine(mention));
+    lines.push(`  ${mention.context.trim()}`);
+  }
+  if (total > mentions.length) {
+    lines.push(`${total - mentions.length} more not shown.`);
+  }
+}
+
+export function formatSuggestLinks(response: SuggestLinksResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Link suggestions: ${response.sourcePath}`));
+  mentionSection(lines, 'Unlinked mentions in this note', response.outgoing, response.totals.outgoing);
+  mentionSection(lines, 'Unlinked mentions of this note', response.incoming, response.totals.incoming);
+
+  lines.push('');
+  lines.push(header(2, 'Related notes'));
+  if (response.related.length === 0) {
+    lines.push('None.');
+  }
+  response.related.forEach((note, i) => {
+    const reasons = [
+      note.sharedTags.length > 0 ? `tags ${note.sharedTags.join(', ')}` : undefined,
+      note.coCitations > 0 ? `co-cited by ${note.coCitations}` : undefined,
+      note.linksHere ? 'links here' : undefined,
+      note.mentions > 0 ? `mentioned ${note.mentions}×` : undefined,
+    ].filter(Boolean);
+    lines.push(`${i + 1}. ${note.title} — ${note.path} (${note.score.toFixed(2)}: ${reasons.join('; ')})`);
+  });
+
+  lines.push(divider());
+  lines.push(tip('Each mention and related note carries a ready `edit` call; `graph.link_mentions` links several at once'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * Format graph.link_mentions response
+ * Actual response: { sourcePath, files, linked, missing, failed, workflow }
+ */
+export interface LinkMentionsResponse {
+  sourcePath: string;
+  files: string[];
+  linked: Array<MentionItem & { after: string }>;
+  missing: string[];
+  failed: Array<{ path: string; reason: string }>;
+}
+
+export function formatLinkMentions(response: LinkMentionsResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Linked ${response.linked.length} mentions in ${response.files.length} files`));
+  for (const mention of response.linked) {
+    lines.push(`- ${mention.path}:${mention.line} "${mention.text}" → \`${mention.link}\``);
+  }
+  if (response.missing.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'No longer found'));
+    for (const id of response.missing) lines.push(`- \`${id}\``);
+  }
+  if (response.failed.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Not written'));
+    for (const failed of response.failed) lines.push(`- ${failed.path} ⚠️ ${failed.reason}`);
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * graph.hygiene: one page of findings, or a report written to the vault
+ */
+export interface HygieneFindingItem {
+  category: string;
+  path: string;
+  backlinks?: number;
+  modified?: string;
+  chars?: number;
+  title?: string;
+  paths?: string[];
+  size?: number;
+}
+
+export interface GraphHygieneResponse {
+  scope: string;
+  checked: { notes: number; attachments: number };
+  counts: Record<string, number>;
+  totalFindings: number;
+  findings?: HygieneFindingItem[];
+  page?: number;
+  totalPages?: number;
+  hasMore?: boolean;
+  nextPage?: string | null;
+  outputPath?: string;
+  created?: boolean;
+}
+
+function hygieneDetail(finding: HygieneFindingItem): string {
+  switch (finding.category) {
+    case 'dead_end':
+      return `${finding.backlinks} backlinks`;
+    case 'stale':
+      return `${finding.backlinks} backlinks, last modified ${finding.modified}`;
+    case 'stub':
+      return `${finding.chars} characters`;
+    case 'duplicate_title':
+      return (finding.paths ?? []).join(', ');
+    case 'unreferenced_attachment':
+      return `${finding.size} bytes`;
+    default:
+      return '';
+  }
+}
+
+export function formatGraphHygiene(response: GraphHygieneResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Vault hygiene: ${response.scope}`));
+  lines.push('');
+  lines.push(property('Checked', `${response.checked.notes} notes, ${response.checked.attachments} attachments`, 0));
+  const counts = Object.entries(response.counts).filter(([, count]) => count > 0);
+  lines.push(property('Findings', counts.length > 0
+    ? `${response.totalFindings} (${counts.map(([category, count]) => `${category.replace(/_/g, ' ')} ${count}`).join(', ')})`
+    : 'none', 0));
+
+  if (response.outputPath) {
+    lines.push(property(response.created ? 'Written to' : 'Replaced', response.outputPath, 0));
+  } else if (response.findings && response.findings.length > 0) {
+    let category = '';
+    for (const finding of response.findings) {
+      if (finding.category !== category) {
+        category = finding.category;
+        lines.push('');
+        lines.push(header(2, category.replace(/_/g, ' ')));
+      }
+      const detail = hygieneDetail(finding);
+      const name = finding.category === 'duplicate_title' ? finding.title : finding.path;
+      lines.push(`- ${name}${detail ? ` (${detail})` : ''}`);
+    }
+    if (response.totalPages !== undefined && response.totalPages > 1) {
+      lines.push('');
+      lines.push(header(2, 'Pagination'));
+      lines.push(property('Page', `${response.page} of ${response.totalPages}`, 0));
+      if (response.hasMore && response.nextPage) {
+        lines.push(property('Next', response.nextPage, 0));
+      }
+    }
+    lines.push(divider());
+    lines.push(tip('outputPath writes the whole report to the vault as a note'));
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
@@ -22,6 +22,8 @@ import {
   formatFileMove,
   formatFileSplit,
   formatFileCombine,
+  formatJournalHistory,
+  formatUndo,
   FileListItem,
   FileListResponse,
   FileReadResponse,
@@ -29,7 +31,9 @@ import {
   FileDeleteResponse,
   FileMoveResponse,
   FileSplitResponse,
-  FileCombineResponse
+  FileCombineResponse,
+  JournalHistoryResponse,
+  UndoResponse
 } from './vault';
 
 import {
@@ -51,6 +55,13 @@ import {
   formatTagAnalysis,
   formatSharedTags,
   formatSearchTraverse,
+  formatBrokenLinks,
+  formatRepairLinks,
+  formatGraphAnalysis,
+  formatGraphExport,
+  formatSuggestLinks,
+  formatLinkMentions,
+  formatGraphHygiene,
   GraphNode,
   GraphTraverseResponse,
   GraphNeighborsNode,
@@ -61,7 +72,18 @@ import {
   GraphStatsResponse,
   TagAnalysisResponse,
   SharedTagsResponse,
-  SearchTraverseResponse
+  SearchTraverseResponse,
+  BrokenLinkItem,
+  BrokenLinksResponse,
+  RepairLinksResponse,
+  GraphAnalysisNode,
+  GraphAnalysisResponse,
+  GraphExportResponse,
+  MentionItem,
+  SuggestLinksResponse,
+  LinkMentionsResponse,
+  HygieneFindingItem,
+  GraphHygieneResponse
 } from './graph';
 
 import {
@@ -90,16 +112,52 @@ import {
   formatSystemCommands,
   formatWorkflowSuggest,
   formatEditResult,
+  formatEditBatch,
+  formatDryRun,
+  isDryRunResponse,
   formatWebFetch,
+  formatAuditLog,
   SystemInfoResponse,
   CommandInfo,
   SystemCommandsResponse,
   WorkflowSuggestion,
   WorkflowSuggestResponse,
   EditResponse,
-  WebFetchResponse
+  EditBatchResponse,
+  DryRunResponse,
+  WebFetchResponse,
+  AuditLogResponse
 } from './system';
 
+import {
+  formatTaskList,
+  formatTaskChange,
+  TaskItem,
+  TaskListResponse,
+  TaskChangeResponse
+} from './tasks';
+
+import {
+  formatPropertyList,
+  formatPropertyEdit,
+  PropertyStat,
+  PropertyListResponse,
+  PropertyEditResponse
+} from './properties';
+
+import {
+  formatCanvasList,
+  formatCanvasRead,
+  formatCanvasEdit,
+  CanvasNodeItem,
+  CanvasEdgeItem,
+  CanvasListResponse,
+  CanvasReadResponse,
+  CanvasEditResponse
+} from './canvas';
+
+import { LinkUpdateSummary, EmbedSummary } from './utils';
+
 // Re-export utility functions
 export {
   truncate,
@@ -112,7 +170,9 @@ export {
   tip,
   summaryFooter,
   joinLines,
-  formatTree
+  formatTree,
+  linkUpdateLines,
+  embedLines
 } from './utils';
 
 // Re-export all formatters and types
@@ -131,6 +191,8 @@ export {
   formatFileMove,
   formatFileSplit,
   formatFileCombine,
+  formatJournalHistory,
+  formatUndo,
   FileListItem,
   FileListResponse,
   FileReadResponse,
@@ -139,6 +201,8 @@ export {
   FileMoveResponse,
   FileSplitResponse,
   FileCombineResponse,
+  JournalHistoryResponse,
+  UndoResponse,
   // View
   formatViewFile,
   formatViewWindow,
@@ -156,6 +220,13 @@ export {
   formatTagAnalysis,
   formatSharedTags,
   formatSearchTraverse,
+  formatBrokenLinks,
+  formatRepairLinks,
+  formatGraphAnalysis,
+  formatGraphExport,
+  formatSuggestLinks,
+  formatLinkMentions,
+  formatGraphHygiene,
   GraphNode,
   GraphTraverseResponse,
   GraphNeighborsNode,
@@ -167,6 +238,17 @@ export {
   TagAnalysisResponse,
   SharedTagsResponse,
   SearchTraverseResponse,
+  BrokenLinkItem,
+  BrokenLinksResponse,
+  RepairLinksResponse,
+  GraphAnalysisNode,
+  GraphAnalysisResponse,
+  GraphExportResponse,
+  MentionItem,
+  SuggestLinksResponse,
+  LinkMentionsResponse,
+  HygieneFindingItem,
+  GraphHygieneResponse,
   // Dataview
   formatDataviewQuery,
   formatDataviewStatus,
@@ -191,14 +273,46 @@ export {
   formatSystemCommands,
   formatWorkflowSuggest,
   formatEditResult,
+  formatEditBatch,
+  formatDryRun,
+  isDryRunResponse,
   formatWebFetch,
+  formatAuditLog,
   SystemInfoResponse,
   CommandInfo,
   SystemCommandsResponse,
   WorkflowSuggestion,
   WorkflowSuggestResponse,
   EditResponse,
-  WebFetchResponse
+  EditBatchResponse,
+  DryRunResponse,
+  WebFetchResponse,
+  AuditLogResponse,
+  // Tasks
+  formatTaskList,
+  formatTaskChange,
+  TaskItem,
+  TaskListResponse,
+  TaskChangeResponse,
+  // Properties
+  formatPropertyList,
+  formatPropertyEdit,
+  PropertyStat,
+  PropertyListResponse,
+  PropertyEditResponse,
+  // Canvas
+  formatCanvasList,
+  formatCanvasRead,
+  formatCanvasEdit,
+  CanvasNodeItem,
+  CanvasEdgeItem,
+  CanvasListResponse,
+  CanvasReadResponse,
+  CanvasEditResponse,
+  // Link updates
+  LinkUpdateSummary,
+  // Embeds
+  EmbedSummary
 };
 
 /** Shape for a raw fragment from the router */
@@ -219,6 +333,7 @@ interface MoveRenameResponse {
   sourcePath?: string;
   destination?: string;
   success?: boolean;
+  links?: LinkUpdateSummary;
 }
 
 /** Shape for router copy responses */
@@ -270,7 +385,8 @@ function normalizeResponse(key: string, response: unknown): NormalizedResponse {
           source: moveResp.oldPath ?? moveResp.sourcePath,
           destination: moveResp.newPath ?? moveResp.destination,
           success: moveResp.success ?? true,
-          operation: key === 'vault.move' ? 'move' : 'rename'
+          operation: key === 'vault.move' ? 'move' : 'rename',
+          links: moveResp.links
         };
       }
       return resp;
@@ -312,9 +428,10 @@ function normalizeResponse(key: string, response: unknown): NormalizedResponse {
       return resp;
     }
 
-    // vault.fragments: router returns {result: [...fragments across files]}
+    // vault.fragments / vault.semantic_search: router returns {result: [...fragments across files]}
     // Transform to grouped format for formatter
-    case 'vault.fragments': {
+    case 'vault.fragments':
+    case 'vault.semantic_search': {
       const fragResp = resp as FragmentsResponse;
       if (fragResp.result && Array.isArray(fragResp.result)) {
         // Group fragments by file path
@@ -357,7 +474,7 @@ function normalizeResponse(key: string, response: unknown): NormalizedResponse {
         query?: string;
         error?: string;
         type?: string;
-        result?: { type?: string; values?: unknown; headers?: unknown };
+        result?: { type?: string; values?: unknown; headers?: unknown; outputs?: unknown; logs?: unknown; truncated?: unknown };
       };
       const inner = dvResp.result;
       return {
@@ -366,6 +483,10 @@ function normalizeResponse(key: string, response: unknown): NormalizedResponse {
         type: inner?.type ?? dvResp.type ?? 'list',
         values: inner?.values,
         headers: inner?.headers,
+        // DataviewJS: the script's rendered outputs
+        outputs: inner?.outputs,
+        logs: inner?.logs,
+        truncated: inner?.truncated,
         error: dvResp.error
       };
     }
@@ -558,6 +679,11 @@ export function formatResponse(
     return JSON.stringify(response, null, 2);
   }
 
+  // dryRun previews share one shape whatever the action
+  if (isDryRunResponse(response)) {
+    return formatDryRun(response);
+  }
+
   // Route to appropriate formatter
   const key = `${tool}.${action}`;
 
@@ -586,12 +712,17 @@ export function formatResponse(
       case 'vault.search':
         return formatSearchResults(normalized as SearchResponse);
       case 'vault.fragments':
+      case 'vault.semantic_search':
         return formatFragmentResults(normalized as FragmentResult);
       case 'vault.split':
         return formatFileSplit(normalized as FileSplitResponse);
       case 'vault.combine':
       case 'vault.concatenate':
         return formatFileCombine(normalized as FileCombineResponse);
+      case 'vault.history':
+        return formatJournalHistory(normalized as JournalHistoryResponse);
+      case 'vault.undo':
+        return formatUndo(normalized as UndoResponse);
 
       // View operations
       case 'view.file':
@@ -623,6 +754,20 @@ export function formatResponse(
         return formatTagAnalysis(normalized as TagAnalysisResponse);
       case 'graph.shared-tags':
         return formatSharedTags(normalized as SharedTagsResponse);
+      case 'graph.broken_links':
+        return formatBrokenLinks(normalized as BrokenLinksResponse);
+      case 'graph.repair_links':
+        return formatRepairLinks(normalized as RepairLinksResponse);
+      case 'graph.analyze':
+        return formatGraphAnalysis(normalized as GraphAnalysisResponse);
+      case 'graph.export':
+        return formatGraphExport(normalized as GraphExportResponse);
+      case 'graph.suggest_links':
+        return formatSuggestLinks(normalized as SuggestLinksResponse);
+      case 'graph.link_mentions':
+        return formatLinkMentions(normalized as LinkMentionsResponse);
+      case 'graph.hygiene':
+        return formatGraphHygiene(normalized as GraphHygieneResponse);
 
       // Dataview operations
       case 'dataview.query':
@@ -647,6 +792,39 @@ export function formatResponse(
       case 'bases.export':
         return formatBasesExport(normalized as BasesExportResponse);
 
+      // Tasks operations
+      case 'tasks.list':
+      case 'tasks.query':
+        return formatTaskList(normalized as TaskListResponse);
+      case 'tasks.toggle':
+      case 'tasks.create':
+      case 'tasks.update':
+      case 'tasks.reschedule':
+        return formatTaskChange(normalized as TaskChangeResponse);
+
+      // Properties operations
+      case 'properties.list':
+        return formatPropertyList(normalized as PropertyListResponse);
+      case 'properties.set':
+      case 'properties.remove':
+      case 'properties.rename':
+      case 'properties.retype':
+        return formatPropertyEdit(normalized as PropertyEditResponse);
+
+      // Canvas operations
+      case 'canvas.list':
+        return formatCanvasList(normalized as CanvasListResponse);
+      case 'canvas.read':
+      case 'canvas.validate':
+        return formatCanvasRead(normalized as CanvasReadResponse);
+      case 'canvas.create':
+      case 'canvas.add_node':
+      case 'canvas.add_edge':
+      case 'canvas.move':
+      case 'canvas.remove':
+      case 'canvas.layout':
+        return formatCanvasEdit(normalized as CanvasEditResponse);
+
       // System operations
       case 'system.info':
         return formatSystemInfo(normalized as SystemInfoResponse);
@@ -654,6 +832,8 @@ export function formatResponse(
         return formatSystemCommands(normalized as SystemCommandsResponse);
       case 'system.fetch_web':
         return formatWebFetch(normalized as WebFetchResponse);
+      case 'system.audit':
+        return formatAuditLog(normalized as AuditLogResponse);
 
       // Workflow operations
       case 'workflow.suggest':
@@ -666,6 +846,8 @@ export function formatResponse(
       case 'edit.patch':
       case 'edit.at_line':
         return formatEditResult(normalized as EditResponse);
+      case 'edit.batch':
+        return formatEditBatch(normalized as EditBatchResponse);
 
       // Default: return formatted JSON with hint
       default:
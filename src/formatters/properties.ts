@@ -0,0 +1,101 @@
+/**
+ * Properties operation formatters
+ */
+
+import {
+  header,
+  property,
+  divider,
+  tip,
+  summaryFooter,
+  joinLines,
+  truncate
+} from './utils';
+
+/**
+ * Format properties.list response
+ */
+export interface PropertyStat {
+  key: string;
+  count: number;
+  types: Record<string, number>;
+  mixed: boolean;
+  examples: unknown[];
+}
+
+export interface PropertyListResponse {
+  source: string;
+  notes: number;
+  withFrontmatter: number;
+  properties: PropertyStat[];
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/**
+ * Format properties.set / remove / rename / retype response
+ */
+export interface PropertyEditResponse {
+  action: string;
+  source: string;
+  matched: number;
+  changed: string[];
+  unchanged: number;
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+/** How many changed or skipped paths to name before summarizing the rest. */
+const MAX_LISTED = 20;
+
+export function formatPropertyList(response: PropertyListResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Properties: ${response.properties.length} keys in ${response.withFrontmatter} of ${response.notes} notes`));
+  lines.push(property('Notes', response.source, 0));
+  lines.push('');
+
+  for (const stat of response.properties) {
+    const types = Object.entries(stat.types).map(([type, n]) => `${type} ${n}`).join(', ');
+    lines.push(`- **${stat.key}** (${stat.count}): ${types}${stat.mixed ? ' ⚠️ mixed' : ''}`);
+    if (stat.examples.length > 0) {
+      lines.push(property('e.g.', stat.examples.map(e => truncate(JSON.stringify(e), 60)).join(' · ')));
+    }
+  }
+
+  if (response.skipped.length > 0) {
+    lines.push('');
+    lines.push(header(2, `Not read (${response.skipped.length})`));
+    for (const s of response.skipped.slice(0, MAX_LISTED)) lines.push(`- ${s.path}: ${s.reason}`);
+  }
+
+  lines.push(divider());
+  lines.push(tip('Keys marked mixed hold values of more than one type; `retype` converts them to one'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+export function formatPropertyEdit(response: PropertyEditResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `${response.action}: ${response.changed.length} of ${response.matched} notes changed`));
+  lines.push(property('Notes', response.source, 0));
+  lines.push(property('Unchanged', response.unchanged, 0));
+  lines.push('');
+
+  if (response.changed.length > 0) {
+    lines.push(header(2, 'Changed'));
+    for (const path of response.changed.slice(0, MAX_LISTED)) lines.push(`- ${path}`);
+    if (response.changed.length > MAX_LISTED) lines.push(`- … and ${response.changed.length - MAX_LISTED} more`);
+  }
+
+  if (response.skipped.length > 0) {
+    lines.push('');
+    lines.push(header(2, `Skipped (${response.skipped.length})`));
+    for (const s of response.skipped.slice(0, MAX_LISTED)) lines.push(`- ${s.path}: ${s.reason}`);
+    if (response.skipped.length > MAX_LISTED) lines.push(`- … and ${response.skipped.length - MAX_LISTED} more`);
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
@@ -8,7 +8,9 @@ import {
   divider,
   tip,
   summaryFooter,
-  joinLines
+  joinLines,
+  linkUpdateLines,
+  LinkUpdateSummary
 } from './utils';
 
 /**
@@ -244,6 +246,7 @@ export interface EditResponse {
   operation?: 'window' | 'append' | 'patch' | 'at_line';
   linesChanged?: number;
   message?: string;
+  links?: LinkUpdateSummary;
 }
 
 export function formatEditResult(response: EditResponse): string {
@@ -271,6 +274,7 @@ export function formatEditResult(response: EditResponse): string {
     if (response.linesChanged !== undefined) {
       lines.push(property('Lines Changed', response.linesChanged.toString(), 0));
     }
+    if (response.links) lines.push(...linkUpdateLines(response.links));
   } else {
     lines.push(`Edit failed${response.message ? `: ${response.message}` : ''}`);
   }
@@ -282,6 +286,37 @@ export function formatEditResult(response: EditResponse): string {
   return joinLines(lines);
 }
 
+/**
+ * Format edit.batch response
+ */
+export interface EditBatchResponse {
+  success?: boolean;
+  stepsApplied?: number;
+  paths?: string[];
+  results?: Array<{ step: number; operation: string; action: string; path: string }>;
+}
+
+export function formatEditBatch(response: EditBatchResponse): string {
+  const lines: string[] = [];
+  const steps = response.results ?? [];
+  const paths = response.paths ?? [];
+
+  lines.push(header(1, `✓ Batch applied: ${response.stepsApplied ?? steps.length} operations`));
+  lines.push('');
+  lines.push(property('Files', paths.length.toString(), 0));
+  lines.push('');
+
+  for (const step of steps) {
+    lines.push(`${step.step}. ${step.operation}.${step.action} — ${step.path}`);
+  }
+
+  lines.push(divider());
+  lines.push(tip('All steps committed together; a failure would have rolled every step back'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
 /**
  * Format system.fetch_web response
  */
@@ -354,3 +389,91 @@ export function formatWebFetch(response: WebFetchResponse): string {
 
   return joinLines(lines);
 }
+
+/**
+ * Format system.audit response
+ */
+export interface AuditLogEntry {
+  timestamp: string;
+  event: 'tool_call' | 'security';
+  sessionId?: string;
+  keyName?: string;
+  operation: string;
+  path?: string;
+  targetPath?: string;
+  outcome: string;
+  reason?: string;
+}
+
+export interface AuditLogResponse {
+  total: number;
+  entries: AuditLogEntry[];
+}
+
+export function formatAuditLog(response: AuditLogResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Audit log: ${response.entries.length} of ${response.total}`));
+  lines.push('');
+
+  if (response.entries.length === 0) {
+    lines.push('No matching audit entries.');
+  }
+
+  for (const entry of response.entries) {
+    const kind = entry.event === 'tool_call' ? 'call' : 'security';
+    const path = entry.path ? ` ${entry.path}${entry.targetPath ? ` → ${entry.targetPath}` : ''}` : '';
+    const reason = entry.reason ? ` _(${entry.reason})_` : '';
+    lines.push(`- **${entry.outcome}** ${kind} \`${entry.operation}\`${path}${reason}`);
+    lines.push(property('When', entry.timestamp));
+    if (entry.sessionId) lines.push(property('Session', entry.sessionId));
+    lines.push(property('Key', entry.keyName ?? 'main'));
+  }
+
+  lines.push(divider());
+  lines.push(tip('Filter with `path`, `sessionId` or `outcome` (e.g. outcome=blocked)'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * Format a dryRun preview (any edit.* or previewable vault.* action)
+ */
+export interface DryRunResponse {
+  dryRun: true;
+  operation: string;
+  files: Array<{ path: string; change: string; from?: string }>;
+  diff: string;
+}
+
+export function isDryRunResponse(response: unknown): response is DryRunResponse {
+  return typeof response === 'object' && response !== null && (response as { dryRun?: unknown }).dryRun === true;
+}
+
+export function formatDryRun(response: DryRunResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Dry run: ${response.operation}`));
+  lines.push('');
+
+  if (response.files.length === 0) {
+    lines.push('No file would change.');
+  } else {
+    lines.push(header(2, `Affected files (${response.files.length})`));
+    for (const file of response.files) {
+      lines.push(`- ${file.change}: ${file.from ? `${file.from} → ` : ''}${file.path}`);
+    }
+    lines.push('');
+    lines.push(header(2, 'Diff'));
+    lines.push('```diff');
+    lines.push(response.diff);
+    lines.push('```');
+  }
+
+  lines.push(divider());
+  lines.push(tip('Nothing was written. Repeat the call without `dryRun` to apply it'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
@@ -0,0 +1,123 @@
+/**
+ * Task operation formatters
+ */
+
+import {
+  header,
+  property,
+  divider,
+  tip,
+  summaryFooter,
+  joinLines
+} from './utils';
+
+/**
+ * One task as list/query and the write actions return it
+ */
+export interface TaskItem {
+  path: string;
+  line: number;
+  status: string;
+  statusSymbol: string;
+  description: string;
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  done?: string;
+  cancelled?: string;
+  recurrence?: string;
+  priority?: string;
+  blockId?: string;
+}
+
+/**
+ * Format tasks.list / tasks.query response
+ */
+export interface TaskListResponse {
+  scope: string;
+  total: number;
+  truncated: boolean;
+  tasks: TaskItem[];
+  today?: string;
+}
+
+/**
+ * Format tasks.toggle / tasks.update / tasks.reschedule / tasks.create response
+ */
+export interface TaskChangeResponse {
+  path: string;
+  task: TaskItem;
+  next?: TaskItem;
+  created?: boolean;
+  warning?: string;
+}
+
+/** `[x] Pay rent · due 2026-11-01 · 🔁 every month · high · ^rent (line 12)` */
+function taskLine(task: TaskItem): string {
+  const details: string[] = [];
+  if (task.due) details.push(`due ${task.due}`);
+  if (task.scheduled) details.push(`scheduled ${task.scheduled}`);
+  if (task.start) details.push(`starts ${task.start}`);
+  if (task.done) details.push(`done ${task.done}`);
+  if (task.cancelled) details.push(`cancelled ${task.cancelled}`);
+  if (task.recurrence) details.push(`🔁 ${task.recurrence}`);
+  if (task.priority) details.push(task.priority);
+  if (task.blockId) details.push(`^${task.blockId}`);
+  const suffix = details.length > 0 ? ` · ${details.join(' · ')}` : '';
+  return `[${task.statusSymbol}] ${task.description}${suffix} (line ${task.line})`;
+}
+
+export function formatTaskList(response: TaskListResponse): string {
+  const lines: string[] = [];
+  const shown = response.tasks.length;
+
+  lines.push(header(1, `Tasks in ${response.scope}: ${shown === response.total ? shown : `${shown} of ${response.total}`}`));
+  if (response.today) lines.push(property('Today', response.today, 0));
+  lines.push('');
+
+  if (shown === 0) {
+    lines.push('No matching tasks.');
+  }
+
+  let currentPath: string | undefined;
+  for (const task of response.tasks) {
+    if (task.path !== currentPath) {
+      if (currentPath !== undefined) lines.push('');
+      lines.push(header(2, task.path));
+      currentPath = task.path;
+    }
+    lines.push(`- ${taskLine(task)}`);
+  }
+
+  if (response.truncated) {
+    lines.push('');
+    lines.push(`_${response.total - shown} more not shown — narrow the query or raise \`limit\`._`);
+  }
+
+  lines.push(divider());
+  lines.push(tip('Change a task with `toggle`, `update` or `reschedule`, addressed by `path` + `line` or by `blockId`'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+export function formatTaskChange(response: TaskChangeResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, response.created ? `Created ${response.path}` : `Task updated: ${response.path}`));
+  lines.push('');
+  lines.push(`- ${taskLine(response.task)}`);
+  if (response.next) {
+    lines.push('');
+    lines.push(header(2, 'Next occurrence'));
+    lines.push(`- ${taskLine(response.next)}`);
+  }
+  if (response.warning) {
+    lines.push('');
+    lines.push(`⚠️ ${response.warning}`);
+  }
+
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
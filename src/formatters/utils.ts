@@ -17,11 +17,11 @@ export function truncate(text: string, maxLen: number = 120): string {
 /**
  * Render a search score.
  *
- * Deliberately carries NO quality adjective. The score is TF-IDF — how often the query's
- * words occur, weighted by how rare they are — and it has no absolute scale: it means
- * different things for different queries and corpora. The old bands ("Good" ≥1.0, "Low"
- * >0) asserted a relevance judgement the number cannot support, and the failure was not
- * cosmetic. On a corpus where most notes mention the query term, every score compresses
+ * Deliberately carries NO quality adjective. The score is BM25F — how often the query's
+ * words occur in each field of a note, weighted by field and by how rare they are — and it
+ * has no absolute scale: it means different things for different queries and corpora. The
+ * old bands ("Good" ≥1.0, "Low" >0) asserted a relevance judgement the number cannot
+ * support, and the failure was not cosmetic. On a corpus where most notes mention the query term, every score compresses
  * into a narrow band: measured on a real vault, the single best-answering note scored
  * 1.42 while five other load-bearing notes scored 0.36-0.45 and were all labelled "Low".
  * An agent pruning at "Low" would have discarded the entire answer except the anchor.
@@ -128,6 +128,84 @@ export function tip(text: string): string {
   return `Tip: ${text}`;
 }
 
+/**
+ * Links rewritten by vault.move/rename or a heading rename (edit.patch)
+ */
+export interface LinkUpdateSummary {
+  files: Array<{ path: string; lines: Array<{ line: number; before: string; after: string }> }>;
+  failed: Array<{ path: string; reason: string }>;
+  error?: string;
+}
+
+/**
+ * Format a link update report: every rewritten line, per file
+ */
+export function linkUpdateLines(links: LinkUpdateSummary): string[] {
+  const lines: string[] = ['', header(2, 'Links updated')];
+
+  if (links.error) {
+    lines.push(`⚠️ ${links.error}`);
+    return lines;
+  }
+  if (links.files.length === 0 && links.failed.length === 0) {
+    lines.push('No links needed updating.');
+  }
+  for (const file of links.files) {
+    lines.push(`- ${file.path}`);
+    for (const change of file.lines) {
+      lines.push(`  - line ${change.line}: ${truncate(change.after.trim(), 100)}`);
+    }
+  }
+  for (const failed of links.failed) {
+    lines.push(`- ${failed.path} ⚠️ not updated: ${failed.reason}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Embeds met by vault.read or view.file with expandEmbeds
+ */
+export interface EmbedSummary {
+  link: string;
+  from: string;
+  line: number;
+  target?: string;
+  depth: number;
+  status: 'inlined' | 'missing' | 'not_text' | 'unreadable' | 'cycle' | 'depth_limit' | 'budget';
+  chars?: number;
+}
+
+const EMBED_STATUS: Record<EmbedSummary['status'], string> = {
+  inlined: 'inlined',
+  missing: 'not found',
+  not_text: 'not a note',
+  unreadable: 'could not be read',
+  cycle: 'cycle',
+  depth_limit: 'beyond embedDepth',
+  budget: 'over the read budget',
+};
+
+/**
+ * Format the embeds of an expanded read, nested ones indented under theirs
+ */
+export function embedLines(embeds: EmbedSummary[], path: string): string[] {
+  const lines: string[] = ['', header(2, 'Embeds')];
+  if (embeds.length === 0) {
+    lines.push('No embeds.');
+    return lines;
+  }
+  lines.push('Inlined text sits between `<!-- embed: … -->` markers. It is not part of the file: the hash and line numbers refer to the file alone.');
+  for (const embed of embeds) {
+    const where = embed.from === path ? `line ${embed.line}` : `${embed.from}:${embed.line}`;
+    const outcome = embed.status === 'inlined'
+      ? `inlined ${embed.target} (${embed.chars} chars)`
+      : `${EMBED_STATUS[embed.status]}, left as a link`;
+    lines.push(`${'  '.repeat(embed.depth - 1)}- ${where} \`${embed.link}\` → ${outcome}`);
+  }
+  return lines;
+}
+
 /**
  * Escape markdown special characters in user content
  */
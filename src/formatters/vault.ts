@@ -11,7 +11,11 @@ import {
   divider,
   tip,
   summaryFooter,
-  joinLines
+  joinLines,
+  linkUpdateLines,
+  LinkUpdateSummary,
+  embedLines,
+  EmbedSummary
 } from './utils';
 
 /**
@@ -168,7 +172,9 @@ export interface FileReadResponse {
   };
   frontmatter?: Record<string, unknown>;
   tags?: string[];
+  hash?: string;
   originalContentLength?: number;
+  embeds?: EmbedSummary[];
   fragmentMetadata?: {
     totalFragments: number;
     strategy: string;
@@ -209,6 +215,9 @@ export function formatFileRead(response: FileReadResponse): string {
   if (metadata && typeof metadata.totalLines === 'number') {
     lines.push(property('Lines', String(metadata.totalLines), 0));
   }
+  if (response.hash) {
+    lines.push(property('Hash', response.hash, 0));
+  }
 
   // Tags
   if (tags && tags.length > 0) {
@@ -309,6 +318,10 @@ export function formatFileRead(response: FileReadResponse): string {
     lines.push('   returnFullFile=true for the whole file · query/strategy/maxFragments for fragments · line numbers are absolute (edit.at_line works)');
   }
 
+  if (response.embeds) {
+    lines.push(...embedLines(response.embeds, safePath));
+  }
+
   if (response.warning) {
     lines.push('');
     lines.push(`> ${response.warning}`);
@@ -392,6 +405,7 @@ export interface FileMoveResponse {
   destination: string;
   success: boolean;
   operation: 'move' | 'rename' | 'copy';
+  links?: LinkUpdateSummary;
 }
 
 export function formatFileMove(response: FileMoveResponse): string {
@@ -408,6 +422,7 @@ export function formatFileMove(response: FileMoveResponse): string {
     lines.push(property('To', response.destination, 0));
     lines.push('');
     lines.push(`Successfully ${response.operation}d.`);
+    if (response.links) lines.push(...linkUpdateLines(response.links));
   } else {
     lines.push(`Failed to ${response.operation} file.`);
   }
@@ -528,3 +543,88 @@ export function formatFileCombine(response: FileCombineResponse): string {
 
   return joinLines(lines);
 }
+
+/**
+ * Format vault.history response
+ */
+export interface JournalHistoryEntry {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+  call?: string;
+  type: string;
+  path: string;
+  targetPath?: string;
+  undone?: boolean;
+  undoes?: string;
+}
+
+export interface JournalHistoryResponse {
+  total: number;
+  entries: JournalHistoryEntry[];
+}
+
+export function formatJournalHistory(response: JournalHistoryResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `Operation history: ${response.entries.length} of ${response.total}`));
+  lines.push('');
+
+  if (response.entries.length === 0) {
+    lines.push('No journaled operations.');
+  }
+
+  for (const entry of response.entries) {
+    const target = entry.targetPath ? ` → ${entry.targetPath}` : '';
+    const flags = [
+      entry.undone ? 'undone' : '',
+      entry.undoes ? `undo of ${entry.undoes}` : '',
+    ].filter(Boolean).join(', ');
+    lines.push(`- **${entry.type}** ${entry.path}${target}${flags ? ` _(${flags})_` : ''}`);
+    lines.push(property('id', entry.id));
+    lines.push(property('When', entry.timestamp));
+    if (entry.call) lines.push(property('Call', entry.call));
+    if (entry.sessionId) lines.push(property('Session', entry.sessionId));
+  }
+
+  lines.push(divider());
+  lines.push(tip("Use `vault.undo(id=...)` to revert one entry, or `vault.undo(sessionId=...)` for a whole session"));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
+
+/**
+ * Format vault.undo response
+ */
+export interface UndoResponse {
+  success: boolean;
+  reverted: Array<{ id: string; type: string; path: string; targetPath?: string }>;
+  forced?: Array<{ id: string; path: string; reason: string }>;
+}
+
+export function formatUndo(response: UndoResponse): string {
+  const lines: string[] = [];
+
+  lines.push(header(1, `✓ Undone: ${response.reverted.length} operation(s)`));
+  lines.push('');
+
+  for (const entry of response.reverted) {
+    const target = entry.targetPath ? ` → ${entry.targetPath}` : '';
+    lines.push(`- ${entry.type} ${entry.path}${target}`);
+  }
+
+  if (response.forced && response.forced.length > 0) {
+    lines.push('');
+    lines.push(header(2, 'Overwritten despite later changes'));
+    for (const conflict of response.forced) {
+      lines.push(`- ${conflict.path}: ${conflict.reason}`);
+    }
+  }
+
+  lines.push(divider());
+  lines.push(tip('The undo is journaled too — undo its entry to re-apply the change'));
+  lines.push(summaryFooter());
+
+  return joinLines(lines);
+}
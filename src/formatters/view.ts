@@ -8,19 +8,23 @@ import {
   divider,
   tip,
   summaryFooter,
-  joinLines
+  joinLines,
+  embedLines,
+  EmbedSummary
 } from './utils';
 
 /**
  * Format view.file response (full document view)
- * Actual response: { path, content, tags, frontmatter }
+ * Actual response: { path, content, tags, frontmatter, hash }
  */
 export interface ViewFileResponse {
   path: string;
   content: string;
+  hash?: string;
   lineCount?: number;
   tags?: string[];
   frontmatter?: Record<string, unknown>;
+  embeds?: EmbedSummary[];
 }
 
 export function formatViewFile(response: ViewFileResponse): string {
@@ -33,6 +37,9 @@ export function formatViewFile(response: ViewFileResponse): string {
   lines.push('');
   lines.push(property('Path', response.path, 0));
   lines.push(property('Lines', lineCount.toString(), 0));
+  if (response.hash) {
+    lines.push(property('Hash', response.hash, 0));
+  }
 
   // Show tags if present
   if (response.tags && response.tags.length > 0) {
@@ -49,6 +56,10 @@ export function formatViewFile(response: ViewFileResponse): string {
   lines.push(response.content);
   lines.push('```');
 
+  if (response.embeds) {
+    lines.push(...embedLines(response.embeds, response.path));
+  }
+
   lines.push(divider());
   lines.push(tip('Use `edit.window(path, oldText, newText)` to make changes'));
   lines.push(summaryFooter());
@@ -1,10 +1,24 @@
 import {
   Document,
+  DocumentMatch,
   Fragment,
   LocalFragment,
   ScoredFragment,
   TermStatistics
 } from '../types/fragment';
+import {
+  CorpusStats,
+  DEFAULT_FIELD_BOOSTS,
+  FieldBoosts,
+  RANK_FIELDS,
+  RankField,
+  fieldSourcesFromMarkdown,
+  fieldTokens,
+  parseRankQuery,
+  rankTermTokens,
+  scoreBm25f,
+  tokenizeTerms
+} from './bm25f';
 
 /**
  * Adaptive text index with dynamic term frequency scoring
@@ -15,8 +29,15 @@ export class AdaptiveTextIndex {
   private invertedIndex = new Map<string, Set<string>>();
   private termStats = new Map<string, TermStatistics>();
   private filePathMap = new Map<string, string>(); // docId -> filePath mapping
+  // Filename tokens are not in the content, so document ranking keeps its own postings for them
+  private filenameIndex = new Map<string, Set<string>>();
+  private fieldLengths = new Map<string, Record<RankField, number>>();
+  private fieldLengthTotals = emptyFieldLengths();
 
   indexDocument(docId: string, filePath: string, content: string, metadata?: Record<string, unknown>) {
+    // Re-indexing replaces the previous version rather than layering on top of it
+    this.removeDocument(docId);
+
     const lines = content.split('\n');
     const tokens = this.tokenize(content);
     const uniqueTerms = new Set(tokens);
@@ -43,9 +64,140 @@ export class AdaptiveTextIndex {
       // Track term statistics
       this.updateTermStats(term, tokens);
     });
+
+    const fields = fieldTokens(fieldSourcesFromMarkdown(filePath, content));
+    const lengths = emptyFieldLengths();
+    RANK_FIELDS.forEach(field => {
+      lengths[field] = fields[field].length;
+      this.fieldLengthTotals[field] += lengths[field];
+    });
+    this.fieldLengths.set(docId, lengths);
+    new Set(fields.filename).forEach(term => {
+      if (!this.filenameIndex.has(term)) {
+        this.filenameIndex.set(term, new Set());
+      }
+      this.filenameIndex.get(term)!.add(docId);
+    });
   }
   
-  search(query: string, maxFragments: number = 5): Fragment[] {
+  /**
+   * Drop a document and its postings so a modified or deleted file stops
+   * matching on content it no longer has.
+   */
+  removeDocument(docId: string): boolean {
+    const doc = this.documents.get(docId);
+    if (!doc) return false;
+
+    const tokens = this.tokenize(doc.content);
+    const counts = new Map<string, number>();
+    tokens.forEach(t => counts.set(t, (counts.get(t) || 0) + 1));
+
+    counts.forEach((count, term) => {
+      const docs = this.invertedIndex.get(term);
+      if (docs) {
+        docs.delete(docId);
+        if (docs.size === 0) this.invertedIndex.delete(term);
+      }
+
+      const stats = this.termStats.get(term);
+      if (stats) {
+        stats.documentFrequency--;
+        stats.totalFrequency -= count;
+        if (stats.documentFrequency <= 0) this.termStats.delete(term);
+      }
+    });
+
+    const lengths = this.fieldLengths.get(docId);
+    if (lengths) {
+      RANK_FIELDS.forEach(field => { this.fieldLengthTotals[field] -= lengths[field]; });
+      this.fieldLengths.delete(docId);
+    }
+    this.filenameIndex.forEach((docs, term) => {
+      if (docs.delete(docId) && docs.size === 0) this.filenameIndex.delete(term);
+    });
+
+    this.documents.delete(docId);
+    this.filePathMap.delete(docId);
+    return true;
+  }
+
+  /**
+   * Corpus statistics for BM25F, from the term statistics and postings this
+   * index keeps current anyway. Aliases, headings and tags are part of the
+   * content, so only a term found in nothing but a filename needs the
+   * filename postings on top.
+   */
+  getCorpusStats(): CorpusStats {
+    return {
+      documentCount: this.documents.size,
+      documentFrequency: (token, prefix) => {
+        if (prefix) return this.documentsWith(token, true).size;
+        const inContent = this.invertedIndex.get(token);
+        let frequency = this.termStats.get(token)?.documentFrequency ?? 0;
+        this.filenameIndex.get(token)?.forEach(id => {
+          if (!inContent?.has(id)) frequency++;
+        });
+        return frequency;
+      },
+      averageFieldLength: field =>
+        this.documents.size > 0 ? this.fieldLengthTotals[field] / this.documents.size : 0,
+    };
+  }
+
+  /**
+   * Rank whole documents for a query with BM25F, each with its best passage.
+   * Document-level counterpart of `search`, for callers that list files
+   * rather than fragments. Supports `"phrases"` and `prefix*` words.
+   */
+  rankDocuments(query: string, maxResults: number = 50, boosts: FieldBoosts = DEFAULT_FIELD_BOOSTS): DocumentMatch[] {
+    if (!query || query.trim().length === 0) {
+      return [];
+    }
+
+    const terms = parseRankQuery(query);
+    const queryTokens = rankTermTokens(terms);
+    const candidates = new Set<string>();
+    terms.forEach(term => {
+      const token = term.kind === 'word' ? term.token : term.tokens[0];
+      this.documentsWith(token, term.kind === 'word' && term.prefix).forEach(docId => candidates.add(docId));
+    });
+
+    const stats = this.getCorpusStats();
+    const ranked: Array<{ docId: string; score: number }> = [];
+    candidates.forEach(docId => {
+      const fields = fieldTokens(fieldSourcesFromMarkdown(this.filePathMap.get(docId)!, this.documents.get(docId)!.content));
+      const score = scoreBm25f(fields, terms, stats, boosts);
+      if (score > 0) ranked.push({ docId, score });
+    });
+
+    return ranked
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults)
+      .map(({ docId, score }) => {
+        const doc = this.documents.get(docId)!;
+        const docPath = this.filePathMap.get(docId)!;
+        const best = this.findBestPassages(doc.content, queryTokens, 400)
+          .sort((a, b) => b.localScore - a.localScore)[0];
+        return {
+          docId,
+          docPath,
+          score,
+          fragment: best ? {
+            id: `${docId}:frag0`,
+            docId,
+            docPath,
+            content: best.text,
+            score: score * best.localScore,
+            lineStart: this.getLineNumber(doc.content, best.start),
+            lineEnd: this.getLineNumber(doc.content, best.end),
+            metadata: doc.metadata
+          } : undefined
+        };
+      });
+  }
+
+  /** `accept`, when given, limits the search to the documents it accepts. */
+  search(query: string, maxFragments: number = 5, accept?: (docPath: string) => boolean): Fragment[] {
     // Handle undefined or empty query
     if (!query || query.trim().length === 0) {
       return [];
@@ -62,6 +214,7 @@ export class AdaptiveTextIndex {
     // Score documents
     const docScores = new Map<string, number>();
     candidateDocs.forEach(docId => {
+      if (accept && !accept(this.filePathMap.get(docId)!)) return;
       const score = this.scoreDocument(docId, queryTokens);
       if (score > 0) docScores.set(docId, score);
     });
@@ -158,11 +311,22 @@ export class AdaptiveTextIndex {
   }
   
   private tokenize(text: string): string[] {
-    // Simple but effective tokenization
-    return text.toLowerCase()
-      .replace(/[^\w\s-]/g, ' ')
-      .split(/\s+/)
-      .filter(t => t.length > 2);
+    return tokenizeTerms(text);
+  }
+
+  /** Documents whose content or filename contains the token (or a token it prefixes). */
+  private documentsWith(token: string, prefix: boolean): Set<string> {
+    const docs = new Set<string>();
+    for (const postings of [this.invertedIndex, this.filenameIndex]) {
+      if (prefix) {
+        postings.forEach((ids, term) => {
+          if (term.startsWith(token)) ids.forEach(id => docs.add(id));
+        });
+      } else {
+        postings.get(token)?.forEach(id => docs.add(id));
+      }
+    }
+    return docs;
   }
   
   private getCandidateDocuments(queryTokens: string[]): Set<string> {
@@ -314,4 +478,8 @@ export class AdaptiveTextIndex {
     const lines = content.substring(0, position).split('\n');
     return lines.length;
   }
-}
\ No newline at end of file
+}
+
+function emptyFieldLengths(): Record<RankField, number> {
+  return { filename: 0, aliases: 0, headings: 0, tags: 0, body: 0 };
+}
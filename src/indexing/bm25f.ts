@@ -0,0 +1,255 @@
+import type { CachedMetadata } from 'obsidian';
+import { parseYaml } from '../utils/yaml-bridge';
+
+/**
+ * BM25F relevance ranking over the fields of a note.
+ *
+ * A note is scored as five fields — filename, aliases, headings, tags and
+ * body — each with its own boost and length normalization. Per query term the
+ * boosted field frequencies are summed first and saturated once (BM25F, not a
+ * sum of per-field BM25 scores), so a word that appears in both the title and
+ * the text is strong evidence without being counted as two independent hits.
+ *
+ * Query terms are words, `"quoted phrases"` (consecutive tokens within one
+ * field) and `prefix*` words. Corpus statistics come from whoever holds the
+ * corpus: `AdaptiveTextIndex` keeps them incrementally for the shared vault
+ * index, and `collectCorpusStats` builds them for a one-off scan.
+ */
+
+export type RankField = 'filename' | 'aliases' | 'headings' | 'tags' | 'body';
+
+export const RANK_FIELDS: readonly RankField[] = ['filename', 'aliases', 'headings', 'tags', 'body'];
+
+/** Weight of a match in each field relative to body text; 0 ignores the field. */
+export type FieldBoosts = Record<RankField, number>;
+
+export const DEFAULT_FIELD_BOOSTS: FieldBoosts = {
+  filename: 3,
+  aliases: 3,
+  headings: 2,
+  tags: 2,
+  body: 1,
+};
+
+/** Term-frequency saturation: how quickly repeated matches stop adding score. */
+const K1 = 1.2;
+
+/**
+ * Length normalization per field. Short fields are barely normalized: a
+ * two-word title is not "shorter" than a three-word one in any useful sense.
+ */
+const FIELD_B: Record<RankField, number> = {
+  filename: 0.3,
+  aliases: 0.3,
+  headings: 0.5,
+  tags: 0.3,
+  body: 0.75,
+};
+
+/** Boosts from settings, falling back to the default for anything missing or not a non-negative number. */
+export function normalizeFieldBoosts(raw: unknown): FieldBoosts {
+  const source = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const boosts = { ...DEFAULT_FIELD_BOOSTS };
+  for (const field of RANK_FIELDS) {
+    const value = source[field];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      boosts[field] = value;
+    }
+  }
+  return boosts;
+}
+
+/**
+ * Lower-cased words of three or more characters; hyphenated words stay whole.
+ * `AdaptiveTextIndex` tokenizes with this too, so its statistics apply here.
+ */
+export function tokenizeTerms(text: string): string[] {
+  return text.toLowerCase()
+    .replace(/[^\w\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 2);
+}
+
+/** Text of each field before tokenizing. */
+export interface FieldSources {
+  filename: string;
+  aliases?: string[];
+  headings?: string[];
+  tags?: string[];
+  body?: string;
+}
+
+export type FieldTokens = Record<RankField, string[]>;
+
+export function fieldTokens(sources: FieldSources): FieldTokens {
+  return {
+    filename: tokenizeTerms(sources.filename),
+    aliases: (sources.aliases ?? []).flatMap(tokenizeTerms),
+    headings: (sources.headings ?? []).flatMap(tokenizeTerms),
+    tags: (sources.tags ?? []).flatMap(tokenizeTerms),
+    body: tokenizeTerms(sources.body ?? ''),
+  };
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const HEADING = /^#{1,6}[ \t]+(.+?)[ \t#]*$/gm;
+const INLINE_TAG = /(?:^|\s)#([\w/-]*[A-Za-z_][\w/-]*)/g;
+
+function basename(path: string): string {
+  return (path.split('/').pop() ?? path).replace(/\.[^.]+$/, '');
+}
+
+function stringList(value: unknown): string[] {
+  if (typeof value === 'string') return value.split(',').map(s => s.trim()).filter(Boolean);
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return [];
+}
+
+/**
+ * Fields of a note read from its source text, for callers without the
+ * metadata cache (the persisted vault index). The body is the whole text,
+ * frontmatter included, so properties stay searchable as words.
+ */
+export function fieldSourcesFromMarkdown(path: string, content: string): FieldSources {
+  let frontmatter: Record<string, unknown> = {};
+  const match = content.match(FRONTMATTER);
+  if (match) {
+    try {
+      const parsed = parseYaml(match[1]);
+      if (typeof parsed === 'object' && parsed !== null) frontmatter = parsed as Record<string, unknown>;
+    } catch {
+      // Malformed frontmatter still ranks as body text
+    }
+  }
+  const text = match ? content.slice(match[0].length) : content;
+  return {
+    filename: basename(path),
+    aliases: stringList(frontmatter.aliases ?? frontmatter.alias),
+    headings: Array.from(text.matchAll(HEADING), m => m[1]),
+    tags: [...stringList(frontmatter.tags ?? frontmatter.tag), ...Array.from(text.matchAll(INLINE_TAG), m => m[1])],
+    body: content,
+  };
+}
+
+/** Fields of a note from Obsidian's metadata cache, falling back to its source when there is no cache entry. */
+export function fieldSourcesFromCache(path: string, cache: CachedMetadata | null | undefined, content: string): FieldSources {
+  if (!cache) return fieldSourcesFromMarkdown(path, content);
+  const frontmatter = (cache.frontmatter ?? {}) as Record<string, unknown>;
+  return {
+    filename: basename(path),
+    aliases: stringList(frontmatter.aliases ?? frontmatter.alias),
+    headings: (cache.headings ?? []).map(h => h.heading),
+    tags: [...stringList(frontmatter.tags ?? frontmatter.tag), ...(cache.tags ?? []).map(t => t.tag)],
+    body: content,
+  };
+}
+
+export type RankTerm =
+  | { kind: 'word'; token: string; prefix: boolean }
+  | { kind: 'phrase'; tokens: string[] };
+
+/**
+ * Split a query into ranking terms: `"..."` is a phrase, a trailing `*`
+ * makes the word a prefix. Words too short to be indexed are dropped.
+ */
+export function parseRankQuery(query: string): RankTerm[] {
+  const terms: RankTerm[] = [];
+  for (const match of query.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      const tokens = tokenizeTerms(match[1]);
+      if (tokens.length > 1) terms.push({ kind: 'phrase', tokens });
+      else if (tokens.length === 1) terms.push({ kind: 'word', token: tokens[0], prefix: false });
+      continue;
+    }
+    const prefix = match[2].endsWith('*');
+    const tokens = tokenizeTerms(prefix ? match[2].slice(0, -1) : match[2]);
+    tokens.forEach((token, i) => terms.push({ kind: 'word', token, prefix: prefix && i === tokens.length - 1 }));
+  }
+  return terms;
+}
+
+/** Every token a query names, for passage scoring and candidate lookup. */
+export function rankTermTokens(terms: RankTerm[]): string[] {
+  return terms.flatMap(term => term.kind === 'word' ? [term.token] : term.tokens);
+}
+
+/** Occurrences of a term in one field's tokens. */
+export function termFrequency(tokens: string[], term: RankTerm): number {
+  if (term.kind === 'word') {
+    return tokens.filter(t => term.prefix ? t.startsWith(term.token) : t === term.token).length;
+  }
+  let count = 0;
+  for (let i = 0; i + term.tokens.length <= tokens.length; i++) {
+    if (term.tokens.every((token, j) => tokens[i + j] === token)) count++;
+  }
+  return count;
+}
+
+export interface CorpusStats {
+  documentCount: number;
+  /** Documents containing the token, or any token it prefixes when `prefix`. */
+  documentFrequency(token: string, prefix: boolean): number;
+  /** Mean token count of a field across the corpus. */
+  averageFieldLength(field: RankField): number;
+}
+
+function inverseDocumentFrequency(term: RankTerm, stats: CorpusStats): number {
+  // A phrase occurs in no more documents than its rarest word
+  const df = term.kind === 'word'
+    ? stats.documentFrequency(term.token, term.prefix)
+    : Math.min(...term.tokens.map(t => stats.documentFrequency(t, false)));
+  const n = Math.max(stats.documentCount, df);
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+export function scoreBm25f(
+  doc: FieldTokens,
+  terms: RankTerm[],
+  stats: CorpusStats,
+  boosts: FieldBoosts = DEFAULT_FIELD_BOOSTS
+): number {
+  let score = 0;
+  for (const term of terms) {
+    let weighted = 0;
+    for (const field of RANK_FIELDS) {
+      const tokens = doc[field];
+      if (boosts[field] === 0 || tokens.length === 0) continue;
+      const tf = termFrequency(tokens, term);
+      if (tf === 0) continue;
+      const average = stats.averageFieldLength(field) || tokens.length;
+      const b = FIELD_B[field];
+      weighted += boosts[field] * tf / (1 - b + b * tokens.length / average);
+    }
+    if (weighted > 0) {
+      score += inverseDocumentFrequency(term, stats) * weighted / (K1 + weighted);
+    }
+  }
+  return score;
+}
+
+/** Statistics of a corpus held in full, for searches that scan every file anyway. */
+export function collectCorpusStats(docs: FieldTokens[]): CorpusStats {
+  const frequencies = new Map<string, number>();
+  const vocabularies = docs.map(doc => new Set(RANK_FIELDS.flatMap(field => doc[field])));
+  for (const vocabulary of vocabularies) {
+    vocabulary.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+  }
+  const totals = Object.fromEntries(
+    RANK_FIELDS.map(field => [field, docs.reduce((sum, doc) => sum + doc[field].length, 0)])
+  ) as Record<RankField, number>;
+  const prefixFrequencies = new Map<string, number>();
+
+  return {
+    documentCount: docs.length,
+    documentFrequency: (token, prefix) => {
+      if (!prefix) return frequencies.get(token) ?? 0;
+      let count = prefixFrequencies.get(token);
+      if (count === undefined) {
+        count = vocabularies.filter(vocabulary => Array.from(vocabulary).some(t => t.startsWith(token))).length;
+        prefixFrequencies.set(token, count);
+      }
+      return count;
+    },
+    averageFieldLength: field => (docs.length > 0 ? totals[field] / docs.length : 0),
+  };
+}
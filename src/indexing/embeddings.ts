@@ -0,0 +1,217 @@
+import * as http from 'http';
+import * as https from 'https';
+
+/**
+ * Text embedding providers behind `vault.semantic_search`.
+ *
+ * A provider turns text into vectors; everything else (chunking, storage,
+ * nearest-neighbour search) is the vault embedding index's business, so a new
+ * kind of provider only has to implement `EmbeddingProvider`. Two ship here:
+ *
+ *   hashed   built in, no setup: hashed word, word-pair and character
+ *            trigram counts. Lexical, not semantic — see HashedNgramEmbeddings.
+ *   openai   any OpenAI-compatible `/embeddings` endpoint — Ollama, LM Studio,
+ *            llama.cpp's server, LocalAI — which is how a real model is run.
+ *
+ * The endpoint comes from the plugin settings, never from a tool call, so it
+ * is not subject to fetch_web's outbound URL rules: pointing it at localhost
+ * is the expected setup.
+ */
+
+export interface EmbeddingProvider {
+  /**
+   * Identifies the model behind the vectors. Vectors stored under another id
+   * are discarded, since vectors from different models are not comparable.
+   */
+  readonly id: string;
+  /** One vector per input text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderKind = 'hashed' | 'openai';
+
+export interface EmbeddingSettings {
+  enabled: boolean;
+  provider: EmbeddingProviderKind;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  endpoint: string;
+  model: string;
+  /** Sent as a bearer token when set; local servers usually need none. */
+  apiKey: string;
+}
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  enabled: false,
+  provider: 'hashed',
+  endpoint: 'http://localhost:11434/v1',
+  model: 'nomic-embed-text',
+  apiKey: '',
+};
+
+export function normalizeEmbeddingSettings(raw: unknown): EmbeddingSettings {
+  const source = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const str = (key: keyof EmbeddingSettings): string =>
+    typeof source[key] === 'string' ? source[key] : DEFAULT_EMBEDDING_SETTINGS[key] as string;
+  // Settings saved before there was a choice were all endpoint settings
+  const provider: EmbeddingProviderKind = source.provider === 'hashed' || source.provider === 'openai'
+    ? source.provider
+    : source.enabled === true ? 'openai' : DEFAULT_EMBEDDING_SETTINGS.provider;
+  return {
+    enabled: source.enabled === true,
+    provider,
+    endpoint: str('endpoint'),
+    model: str('model'),
+    apiKey: str('apiKey'),
+  };
+}
+
+export class EmbeddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+/** POST a JSON body and resolve with the response status and text. */
+export type JsonTransport = (
+  url: string,
+  body: string,
+  headers: Record<string, string>
+) => Promise<{ status: number; body: string }>;
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+const postJson: JsonTransport = (url, body, headers) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const transport = target.protocol === 'https:' ? https : http;
+  const req = transport.request(target, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body), ...headers },
+    timeout: REQUEST_TIMEOUT_MS,
+  }, (res) => {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+    res.on('error', reject);
+  });
+  req.on('timeout', () => req.destroy(new EmbeddingError(`Embedding request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+  req.on('error', reject);
+  req.end(body);
+});
+
+/** Inputs per request; large enough to amortize the round trip, small enough for CPU servers. */
+const BATCH_SIZE = 32;
+
+export class OpenAICompatibleEmbeddings implements EmbeddingProvider {
+  readonly id: string;
+  private url: string;
+
+  constructor(
+    endpoint: string,
+    private model: string,
+    private apiKey: string = '',
+    private transport: JsonTransport = postJson
+  ) {
+    this.url = `${endpoint.replace(/\/+$/, '')}/embeddings`;
+    this.id = `openai:${model}@${this.url}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      vectors.push(...await this.embedBatch(texts.slice(i, i + BATCH_SIZE)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    const response = await this.transport(this.url, JSON.stringify({ model: this.model, input }), headers);
+    if (response.status < 200 || response.status >= 300) {
+      throw new EmbeddingError(`Embedding endpoint ${this.url} returned HTTP ${response.status}: ${response.body.slice(0, 200)}`);
+    }
+
+    let data: unknown;
+    try {
+      data = (JSON.parse(response.body) as { data?: unknown }).data;
+    } catch {
+      throw new EmbeddingError(`Embedding endpoint ${this.url} returned a body that is not JSON`);
+    }
+    if (!Array.isArray(data) || data.length !== input.length) {
+      throw new EmbeddingError(`Embedding endpoint ${this.url} returned ${Array.isArray(data) ? data.length : 'no'} embeddings for ${input.length} inputs`);
+    }
+
+    // Entries carry their input index; servers are not required to keep order
+    const items = data as Array<{ index?: number; embedding?: unknown }>;
+    return items
+      .map((item, position) => ({ index: item.index ?? position, embedding: item.embedding }))
+      .sort((a, b) => a.index - b.index)
+      .map(({ embedding }) => {
+        if (!Array.isArray(embedding) || embedding.some(v => typeof v !== 'number')) {
+          throw new EmbeddingError(`Embedding endpoint ${this.url} returned a malformed embedding`);
+        }
+        return embedding as number[];
+      });
+  }
+}
+
+/** Dimensions of a hashed vector: enough that distinct features rarely collide in a passage. */
+const HASHED_DIMENSIONS = 512;
+
+/** FNV-1a, 32-bit. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * The built-in provider: needs no model, server or download, and sends
+ * nothing anywhere. Each text becomes a bag of features — its words, its
+ * adjacent word pairs and the character trigrams of each word — hashed into
+ * a fixed number of dimensions with a hash-chosen sign, and L2-normalized.
+ *
+ * This is lexical similarity, not meaning. Passages rank by the words and
+ * word pieces they share with the query, so inflections and compounds match
+ * ("index" / "indexing") where plain keyword search would not, but synonyms do
+ * not ("car" / "automobile"). For that, point the index at an embedding model.
+ */
+export class HashedNgramEmbeddings implements EmbeddingProvider {
+  readonly id = `hashed-ngrams:v1:${HASHED_DIMENSIONS}`;
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map(text => this.vector(text)));
+  }
+
+  private vector(text: string): number[] {
+    const vector = new Array<number>(HASHED_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      vector[hash % HASHED_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    words.forEach((word, i) => {
+      add(`w:${word}`, 1);
+      if (i > 0) add(`p:${words[i - 1]} ${word}`, 0.5);
+      // A word's trigrams together weigh as much as the word, however long it is
+      const padded = `^${word}$`;
+      const weight = 1 / Math.sqrt(Math.max(padded.length - 2, 1));
+      for (let j = 0; j + 3 <= padded.length; j++) add(`t:${padded.slice(j, j + 3)}`, weight);
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+/** The provider the settings describe, or undefined while embeddings are off or unconfigured. */
+export function createEmbeddingProvider(settings: EmbeddingSettings): EmbeddingProvider | undefined {
+  if (!settings.enabled) return undefined;
+  if (settings.provider === 'hashed') return new HashedNgramEmbeddings();
+  if (!settings.endpoint.trim() || !settings.model.trim()) return undefined;
+  return new OpenAICompatibleEmbeddings(settings.endpoint.trim(), settings.model.trim(), settings.apiKey);
+}
@@ -1,7 +1,8 @@
 import { AdaptiveTextIndex } from './adaptive-index';
+import { CorpusStats, FieldBoosts } from './bm25f';
 import { ProximityFragmentIndex } from './proximity-index';
 import { SemanticChunkIndex } from './semantic-chunk-index';
-import { Fragment, RetrievalOptions } from '../types/fragment';
+import { Chunk, DocumentMatch, Fragment, RetrievalOptions } from '../types/fragment';
 import { SemanticResponse } from '../types/semantic';
 
 /**
@@ -25,6 +26,37 @@ export class UniversalFragmentRetriever {
     this.indexedDocs.add(docId);
   }
   
+  /**
+   * Remove a document from every strategy's index
+   */
+  removeDocument(docId: string): boolean {
+    this.adaptiveIndex.removeDocument(docId);
+    this.proximityIndex.removeDocument(docId);
+    this.semanticIndex.removeDocument(docId);
+    return this.indexedDocs.delete(docId);
+  }
+
+  hasDocument(docId: string): boolean {
+    return this.indexedDocs.has(docId);
+  }
+
+  /** A document's structural chunks (see `SemanticChunkIndex`). */
+  getDocumentChunks(docId: string): Chunk[] {
+    return this.semanticIndex.getDocumentChunks(docId);
+  }
+
+  /** BM25F corpus statistics of the indexed documents. */
+  getCorpusStats(): CorpusStats {
+    return this.adaptiveIndex.getCorpusStats();
+  }
+
+  /**
+   * Rank whole documents (not fragments) for a query
+   */
+  rankDocuments(query: string, maxResults: number = 50, boosts?: FieldBoosts): DocumentMatch[] {
+    return this.adaptiveIndex.rankDocuments(query, maxResults, boosts);
+  }
+
   /**
    * Retrieve fragments based on query with semantic hints
    */
@@ -32,7 +64,7 @@ export class UniversalFragmentRetriever {
     query: string,
     options: RetrievalOptions = {}
   ): SemanticResponse<Fragment[]> {
-    const { strategy = 'auto', maxFragments = 5, scopePath } = options;
+    const { strategy = 'auto', maxFragments = 5, scopePath, exclude } = options;
 
     let fragments: Fragment[] = [];
     let selectedStrategy: string = strategy;
@@ -42,34 +74,33 @@ export class UniversalFragmentRetriever {
       selectedStrategy = this.selectOptimalStrategy(query);
     }
 
-    // When scoping to one document, over-fetch: the strategies rank across every indexed
-    // document, so the top `maxFragments` may contain nothing from the requested file.
-    const candidateCount = scopePath ? Math.max(maxFragments * 10, 50) : maxFragments;
+    // Scope and exclusions filter inside each index, before it ranks: filtering its top
+    // `maxFragments` afterwards could leave nothing from the requested file, or nothing
+    // readable when the best matches are all excluded.
+    const accept = scopePath || exclude
+      ? (docPath: string) => (!scopePath || docPath === scopePath) && !exclude?.(docPath)
+      : undefined;
 
     // Execute the selected strategy (all search methods are synchronous)
     switch (selectedStrategy) {
       case 'adaptive':
-        fragments = this.adaptiveIndex.search(query, candidateCount);
+        fragments = this.adaptiveIndex.search(query, maxFragments, accept);
         break;
 
       case 'proximity':
-        fragments = this.proximityIndex.searchWithProximity(query);
+        fragments = this.proximityIndex.searchWithProximity(query, undefined, accept);
         break;
 
       case 'semantic':
-        fragments = this.semanticIndex.searchWithContext(query, { maxFragments: candidateCount });
+        fragments = this.semanticIndex.searchWithContext(query, { maxFragments, accept });
         break;
 
       default:
         // Hybrid approach - combine results from multiple strategies
-        fragments = this.hybridSearch(query, candidateCount);
+        fragments = this.hybridSearch(query, maxFragments, accept);
         selectedStrategy = 'hybrid';
     }
 
-    if (scopePath) {
-      fragments = fragments.filter(fragment => fragment.docPath === scopePath);
-    }
-
     // Limit to requested number of fragments
     fragments = fragments.slice(0, maxFragments);
     
@@ -115,11 +146,11 @@ export class UniversalFragmentRetriever {
     }
   }
   
-  private hybridSearch(query: string, maxFragments: number): Fragment[] {
+  private hybridSearch(query: string, maxFragments: number, accept?: (docPath: string) => boolean): Fragment[] {
     // Get results from all strategies (all search methods are synchronous)
-    const adaptiveResults = this.adaptiveIndex.search(query, maxFragments * 2);
-    const proximityResults = this.proximityIndex.searchWithProximity(query);
-    const semanticResults = this.semanticIndex.searchWithContext(query, { maxFragments: maxFragments * 2 });
+    const adaptiveResults = this.adaptiveIndex.search(query, maxFragments * 2, accept);
+    const proximityResults = this.proximityIndex.searchWithProximity(query, undefined, accept);
+    const semanticResults = this.semanticIndex.searchWithContext(query, { maxFragments: maxFragments * 2, accept });
     
     // Merge and deduplicate results
     const fragmentMap = new Map<string, Fragment>();
@@ -16,6 +16,9 @@ export class ProximityFragmentIndex {
   private filePathMap = new Map<string, string>();
   
   indexDocument(docId: string, filePath: string, content: string) {
+    // Re-indexing replaces the previous version rather than layering on top of it
+    this.removeDocument(docId);
+
     const tokens = this.tokenizeWithPositions(content);
     
     // Store processed document
@@ -42,7 +45,31 @@ export class ProximityFragmentIndex {
     });
   }
   
-  searchWithProximity(query: string, maxDistance: number = 50): Fragment[] {
+  /**
+   * Drop a document and every position entry that points into it.
+   */
+  removeDocument(docId: string): boolean {
+    const doc = this.documents.get(docId);
+    if (!doc) return false;
+
+    new Set(doc.tokens).forEach(token => {
+      const positions = this.positionIndex.get(token);
+      if (!positions) return;
+      const remaining = positions.filter(p => p.docId !== docId);
+      if (remaining.length > 0) {
+        this.positionIndex.set(token, remaining);
+      } else {
+        this.positionIndex.delete(token);
+      }
+    });
+
+    this.documents.delete(docId);
+    this.filePathMap.delete(docId);
+    return true;
+  }
+
+  /** `accept`, when given, limits the search to the documents it accepts. */
+  searchWithProximity(query: string, maxDistance: number = 50, accept?: (docPath: string) => boolean): Fragment[] {
     // Handle undefined or empty query
     if (!query || query.trim().length === 0) {
       return [];
@@ -57,6 +84,7 @@ export class ProximityFragmentIndex {
     for (const docId of docCandidates) {
       const doc = this.documents.get(docId)!;
       const filePath = this.filePathMap.get(docId)!;
+      if (accept && !accept(filePath)) continue;
       const termPositions = this.getTermPositionsInDoc(queryTokens, docId);
       
       // Find clusters where terms appear close together
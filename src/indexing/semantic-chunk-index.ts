@@ -15,9 +15,14 @@ export class SemanticChunkIndex {
   private chunkGraph = new Map<string, Set<string>>(); // chunk relationships
   private termChunkIndex = new Map<string, Set<string>>();
   private filePathMap = new Map<string, string>();
+  private docChunkIds = new Map<string, string[]>(); // docId -> its chunk ids
   
   indexDocument(docId: string, filePath: string, content: string) {
+    // Re-indexing replaces the previous version rather than layering on top of it
+    this.removeDocument(docId);
+
     const semanticChunks = this.createSemanticChunks(content);
+    this.docChunkIds.set(docId, semanticChunks.map((_, idx) => `${docId}:${idx}`));
     
     semanticChunks.forEach((chunk, idx) => {
       const chunkId = `${docId}:${idx}`;
@@ -61,11 +66,51 @@ export class SemanticChunkIndex {
     this.filePathMap.set(docId, filePath);
   }
   
+  /**
+   * Drop a document's chunks, their term postings and their graph edges.
+   */
+  removeDocument(docId: string): boolean {
+    const chunkIds = this.docChunkIds.get(docId);
+    if (!chunkIds) return false;
+
+    for (const chunkId of chunkIds) {
+      const chunk = this.chunks.get(chunkId);
+      if (chunk) {
+        new Set(this.extractTerms(chunk.content)).forEach(term => {
+          const ids = this.termChunkIndex.get(term);
+          if (!ids) return;
+          ids.delete(chunkId);
+          if (ids.size === 0) this.termChunkIndex.delete(term);
+        });
+      }
+      this.chunkGraph.get(chunkId)?.forEach(neighbor => {
+        this.chunkGraph.get(neighbor)?.delete(chunkId);
+      });
+      this.chunkGraph.delete(chunkId);
+      this.chunks.delete(chunkId);
+    }
+
+    this.docChunkIds.delete(docId);
+    this.filePathMap.delete(docId);
+    return true;
+  }
+
+  /**
+   * A document's chunks in order, each with its character range in the
+   * source. The unit `vault.semantic_search` embeds.
+   */
+  getDocumentChunks(docId: string): Chunk[] {
+    return (this.docChunkIds.get(docId) ?? [])
+      .map(chunkId => this.chunks.get(chunkId))
+      .filter((chunk): chunk is Chunk => chunk !== undefined);
+  }
+
   searchWithContext(query: string, options: SearchOptions = {}): ContextualFragment[] {
     const { 
       maxFragments = 5, 
       includeContext = true,
-      expandNeighbors = true 
+      expandNeighbors = true,
+      accept
     } = options;
     
     // Handle undefined or empty query
@@ -93,6 +138,7 @@ export class SemanticChunkIndex {
     
     // Select top chunks with context
     const topChunks = Array.from(chunkScores.entries())
+      .filter(([chunkId]) => !accept || accept(this.filePathMap.get(this.chunks.get(chunkId)!.docId)!))
       .sort((a, b) => b[1] - a[1])
       .slice(0, maxFragments);
     
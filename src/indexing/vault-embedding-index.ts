@@ -0,0 +1,303 @@
+import { EmbeddingProvider } from './embeddings';
+import { LshVectorStore, SerializedVectors, VectorHit, VectorRecord, VectorStore } from './vector-store';
+import { IndexStore } from './vault-fragment-index';
+import { Debug } from '../utils/debug';
+
+/**
+ * Vault-wide chunk embeddings behind `vault.semantic_search` and the hybrid
+ * fragment strategy.
+ *
+ * Follows the shared fragment index rather than the vault: the chunks it
+ * embeds are `SemanticChunkIndex`'s (headings, paragraphs, lists), read from
+ * `VaultFragmentIndex`, and `sync` reconciles against that index's documents
+ * and mtimes. The plugin schedules a sync after the fragment index changes;
+ * embedding runs in batches in the background, so a large vault is searchable
+ * in part before it is covered in full (`getCoverage` says how far along).
+ *
+ * Notes the `isExcluded` check given at attach rejects (.mcpignore) are
+ * never sent to the provider, which may be a remote API; when the rules change,
+ * `exclusionsChanged` drops the vectors of newly ignored notes.
+ *
+ * Vectors persist under the plugin directory with the id of the provider that
+ * made them. A snapshot from another model is discarded at attach: vectors of
+ * different models do not share a space.
+ *
+ * Process-wide singleton like `VaultFragmentIndex`; attached only while
+ * embeddings are enabled in the settings.
+ */
+
+/** What sync reads from the fragment index — `VaultFragmentIndex` satisfies it. */
+export interface EmbeddingSource {
+  getPaths(): string[];
+  getDocumentInfo(path: string): { mtime: number } | undefined;
+  getChunks(path: string): Array<{ content: string; lineStart: number; lineEnd: number }>;
+}
+
+interface PersistedEmbeddings {
+  version: number;
+  provider: string;
+  documents: Array<{ path: string; mtime: number }>;
+  vectors?: SerializedVectors;
+}
+
+/** Bump when the persisted shape changes; older snapshots are discarded. */
+const EMBEDDING_FORMAT_VERSION = 1;
+
+/** Coalesce bursts of vault events into one sync / one write. */
+const SYNC_DEBOUNCE_MS = 2000;
+const SAVE_DEBOUNCE_MS = 5000;
+
+/** Documents embedded per provider round, so progress is saved as it goes. */
+const DOCUMENTS_PER_BATCH = 8;
+
+/** Longer chunks are cut before embedding; small local models have short context windows. */
+const MAX_CHUNK_CHARS = 2000;
+
+export class VaultEmbeddingIndex {
+  private static instance: VaultEmbeddingIndex;
+
+  private provider?: EmbeddingProvider;
+  /** Id the vectors were made under; outlives `provider` through detach's final flush. */
+  private providerId?: string;
+  private vectors?: VectorStore;
+  /** mtime of the version of each document whose chunks are embedded. */
+  private documents = new Map<string, number>();
+  private store?: IndexStore;
+  private storePath?: string;
+  private isExcluded?: (path: string) => boolean;
+  private dirty = false;
+  private saveTimer?: number;
+  private syncTimer?: number;
+  private syncing: Promise<void> = Promise.resolve();
+  private lastError?: string;
+
+  private constructor() {}
+
+  static getInstance(): VaultEmbeddingIndex {
+    if (!VaultEmbeddingIndex.instance) {
+      VaultEmbeddingIndex.instance = new VaultEmbeddingIndex();
+    }
+    return VaultEmbeddingIndex.instance;
+  }
+
+  /**
+   * Bind the index to a provider and its storage, loading the previous
+   * snapshot when it was made by the same provider. Notes `isExcluded`
+   * rejects are left out of the snapshot and never embedded.
+   */
+  async attach(store: IndexStore, storePath: string, provider: EmbeddingProvider, isExcluded?: (path: string) => boolean): Promise<void> {
+    // Same model: keep the vectors, take the new provider (its credentials may differ)
+    if (this.provider?.id === provider.id && this.storePath === storePath) {
+      this.provider = provider;
+      this.isExcluded = isExcluded;
+      return;
+    }
+    await this.detach();
+    this.store = store;
+    this.storePath = storePath;
+    this.provider = provider;
+    this.providerId = provider.id;
+    this.isExcluded = isExcluded;
+
+    try {
+      if (!(await store.exists(storePath))) return;
+      const persisted = JSON.parse(await store.read(storePath)) as Partial<PersistedEmbeddings>;
+      if (persisted.version !== EMBEDDING_FORMAT_VERSION || !Array.isArray(persisted.documents)) {
+        Debug.log('Embedding snapshot has an old format, rebuilding');
+        return;
+      }
+      if (persisted.provider !== provider.id) {
+        Debug.log(`Embedding snapshot was made by ${persisted.provider}, not ${provider.id}; rebuilding`);
+        return;
+      }
+      if (persisted.vectors) {
+        this.vectors = LshVectorStore.deserialize(persisted.vectors);
+      }
+      persisted.documents.forEach(doc => this.documents.set(doc.path, doc.mtime));
+      // Ignored since the snapshot was written
+      for (const path of Array.from(this.documents.keys())) {
+        if (isExcluded?.(path)) this.forget(path);
+      }
+      Debug.log(`Embedding index loaded ${this.documents.size} documents from snapshot`);
+    } catch (error) {
+      Debug.warn('Embedding snapshot unreadable, rebuilding:', error);
+      this.vectors = undefined;
+      this.documents.clear();
+    }
+  }
+
+  /** Stop syncing, write pending changes and forget all state. */
+  async detach(): Promise<void> {
+    if (this.syncTimer !== undefined) {
+      window.clearTimeout(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+    this.provider = undefined;
+    await this.syncing;
+    await this.flush();
+    this.store = undefined;
+    this.storePath = undefined;
+    this.isExcluded = undefined;
+    this.providerId = undefined;
+    this.dirty = false;
+    this.vectors = undefined;
+    this.documents.clear();
+    this.lastError = undefined;
+  }
+
+  isAttached(): boolean {
+    return this.provider !== undefined;
+  }
+
+  /** Id of the provider behind the vectors, e.g. to tell a caller how results were ranked. */
+  getProviderId(): string | undefined {
+    return this.providerId;
+  }
+
+  /** How many of the source's (not ignored) documents are embedded at their current version. */
+  getCoverage(source: EmbeddingSource): { embedded: number; total: number; lastError?: string } {
+    const paths = this.embeddable(source);
+    const embedded = paths.filter(path => this.documents.get(path) === source.getDocumentInfo(path)?.mtime).length;
+    return { embedded, total: paths.length, lastError: this.lastError };
+  }
+
+  /** Run `sync` once things settle; repeated calls within the window coalesce. */
+  scheduleSync(source: EmbeddingSource): void {
+    if (!this.provider) return;
+    if (this.syncTimer !== undefined) window.clearTimeout(this.syncTimer);
+    this.syncTimer = window.setTimeout(() => {
+      this.syncTimer = undefined;
+      void this.sync(source);
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  /**
+   * The ignore rules changed: drop the vectors of notes now ignored at once,
+   * and embed the ones no longer ignored.
+   */
+  exclusionsChanged(source: EmbeddingSource): void {
+    for (const path of Array.from(this.documents.keys())) {
+      if (this.isExcluded?.(path)) this.forget(path);
+    }
+    this.scheduleSync(source);
+  }
+
+  /**
+   * Embed documents that are new or changed in the source and drop those it
+   * no longer has or that are ignored. Runs one at a time; a failing provider stops the run and
+   * is reported through `getCoverage` until a later run succeeds.
+   */
+  sync(source: EmbeddingSource): Promise<void> {
+    this.syncing = this.syncing.then(() => this.runSync(source));
+    return this.syncing;
+  }
+
+  /** Embed a query with the index's provider. */
+  async embedQuery(query: string): Promise<number[]> {
+    if (!this.provider) throw new Error('Embedding index is not attached');
+    const [vector] = await this.provider.embed([query]);
+    return vector;
+  }
+
+  /** The `k` chunks closest to an embedded query. */
+  search(vector: number[], k: number, exclude?: (path: string) => boolean): VectorHit[] {
+    return this.vectors?.search(vector, k, exclude) ?? [];
+  }
+
+  /** Embedded chunks of one document. */
+  getDocumentVectors(path: string): VectorRecord[] {
+    return this.vectors?.getDocument(path) ?? [];
+  }
+
+  /** Write the snapshot now if anything changed since the last write. */
+  async flush(): Promise<void> {
+    if (this.saveTimer !== undefined) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (!this.dirty || !this.store || !this.storePath || !this.providerId) return;
+
+    this.dirty = false;
+    const snapshot: PersistedEmbeddings = {
+      version: EMBEDDING_FORMAT_VERSION,
+      provider: this.providerId,
+      documents: Array.from(this.documents.entries()).map(([path, mtime]) => ({ path, mtime })),
+      vectors: this.vectors?.serialize(),
+    };
+    try {
+      await this.store.write(this.storePath, JSON.stringify(snapshot));
+    } catch (error) {
+      this.dirty = true;
+      Debug.warn('Failed to persist embedding index:', error);
+    }
+  }
+
+  private async runSync(source: EmbeddingSource): Promise<void> {
+    const provider = this.provider;
+    if (!provider) return;
+
+    const present = new Set(this.embeddable(source));
+    for (const path of Array.from(this.documents.keys())) {
+      if (!present.has(path)) this.forget(path);
+    }
+
+    const stale = Array.from(present).filter(path => this.documents.get(path) !== source.getDocumentInfo(path)?.mtime);
+    for (let i = 0; i < stale.length; i += DOCUMENTS_PER_BATCH) {
+      // Rules can change while earlier batches are out
+      const batch = stale.slice(i, i + DOCUMENTS_PER_BATCH).filter(path => !this.isExcluded?.(path)).map(path => ({
+        path,
+        mtime: source.getDocumentInfo(path)?.mtime ?? 0,
+        chunks: source.getChunks(path).filter(chunk => chunk.content.trim().length > 0),
+      }));
+
+      let vectors: number[][];
+      try {
+        vectors = await provider.embed(batch.flatMap(doc => doc.chunks.map(chunk => chunk.content.slice(0, MAX_CHUNK_CHARS))));
+      } catch (error) {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        Debug.warn('Embedding sync stopped:', error);
+        return;
+      }
+      // Detached or switched provider while the request was out
+      if (this.provider !== provider) return;
+
+      let next = 0;
+      for (const doc of batch) {
+        const records = doc.chunks.map(chunk => ({ path: doc.path, ...chunk, vector: vectors[next++] }));
+        if (records.length > 0) {
+          this.vectors ??= new LshVectorStore(records[0].vector.length);
+          this.vectors.setDocument(doc.path, records);
+        } else {
+          this.vectors?.removeDocument(doc.path);
+        }
+        this.documents.set(doc.path, doc.mtime);
+      }
+      this.lastError = undefined;
+      this.markDirty();
+    }
+
+    if (stale.length > 0) {
+      Debug.log(`Embedding index synced: ${stale.length} documents embedded`);
+    }
+  }
+
+  private embeddable(source: EmbeddingSource): string[] {
+    const isExcluded = this.isExcluded;
+    return isExcluded ? source.getPaths().filter(path => !isExcluded(path)) : source.getPaths();
+  }
+
+  private forget(path: string): void {
+    this.vectors?.removeDocument(path);
+    this.documents.delete(path);
+    this.markDirty();
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    if (!this.store || this.saveTimer !== undefined) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+}
@@ -0,0 +1,384 @@
+import { UniversalFragmentRetriever } from './fragment-retriever';
+import { DocumentMatch, Fragment, RetrievalOptions } from '../types/fragment';
+import { SemanticResponse } from '../types/semantic';
+import { Debug } from '../utils/debug';
+import { CorpusStats, FieldBoosts } from './bm25f';
+
+/**
+ * Vault-wide fragment index shared by every request.
+ *
+ * `SemanticRouter` is constructed per request, so its own
+ * `UniversalFragmentRetriever` starts empty each time and `vault.fragments`
+ * used to re-read and re-tokenize the same files on every call. This is a
+ * process-wide singleton (same pattern as `FileLockManager`) that the plugin
+ * attaches at load, keeps current from vault create/modify/rename/delete
+ * events, and persists under the plugin directory so a restart does not
+ * start from nothing.
+ *
+ * What is persisted is each document's source text and mtime, not the
+ * derived postings: those are several times larger than the text and are
+ * rebuilt in memory at load, in batches with yields like `sync`, which costs
+ * tokenizing but no vault reads. Documents whose mtime changed while the
+ * plugin was not running are re-read during `sync`; everything else comes
+ * straight from the snapshot.
+ *
+ * The snapshot is split into shards by path hash, listed in a small manifest
+ * at the store path, so saving after an edit rewrites one shard rather than
+ * the whole vault's text. Notes excluded by .mcpignore stay searchable in
+ * memory (queries filter them) but are never written to disk; they are
+ * re-read by `sync` after a restart instead.
+ */
+
+/** Minimal storage surface — Obsidian's `DataAdapter` satisfies it. */
+export interface IndexStore {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  write(path: string, data: string): Promise<void>;
+}
+
+interface IndexedDocument {
+  path: string;
+  mtime: number;
+  content: string;
+}
+
+interface PersistedManifest {
+  version: number;
+  shards: number;
+}
+
+interface PersistedShard {
+  version: number;
+  documents: IndexedDocument[];
+}
+
+/** Bump when the persisted shape changes; older snapshots are discarded. */
+const INDEX_FORMAT_VERSION = 2;
+
+/** Snapshot shards; a save rewrites only the shards holding changed documents. */
+const SHARD_COUNT = 16;
+
+/** Coalesce bursts of vault events into one write. */
+const SAVE_DEBOUNCE_MS = 5000;
+
+/** Files indexed between yields during a full sync, to keep the UI responsive. */
+const SYNC_BATCH_SIZE = 50;
+
+export class VaultFragmentIndex {
+  private static instance: VaultFragmentIndex;
+
+  private retriever = new UniversalFragmentRetriever();
+  private documents = new Map<string, IndexedDocument>();
+  private store?: IndexStore;
+  private storePath?: string;
+  private isExcluded: (path: string) => boolean = () => false;
+  private ready = false;
+  private dirtyShards = new Set<number>();
+  private manifestStale = false;
+  private saveTimer?: number;
+  /** Bumped on reset, so a load still in progress stops when the index is detached. */
+  private generation = 0;
+
+  private constructor() {}
+
+  static getInstance(): VaultFragmentIndex {
+    if (!VaultFragmentIndex.instance) {
+      VaultFragmentIndex.instance = new VaultFragmentIndex();
+    }
+    return VaultFragmentIndex.instance;
+  }
+
+  /** Document id used in the underlying retriever (matches per-request indexing). */
+  static docId(path: string): string {
+    return `file:${path}`;
+  }
+
+  /** Shard a path is persisted in (FNV-1a of the path). */
+  static shardOf(path: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < path.length; i++) {
+      hash ^= path.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % SHARD_COUNT;
+  }
+
+  /**
+   * Bind the index to its storage and load the previous snapshot, if any.
+   * A missing, unreadable or outdated snapshot just means starting empty.
+   * `isExcluded` names the paths that must not be written to disk.
+   */
+  async attach(store: IndexStore, storePath: string, isExcluded?: (path: string) => boolean): Promise<void> {
+    this.reset();
+    this.store = store;
+    this.storePath = storePath;
+    this.isExcluded = isExcluded ?? (() => false);
+    const generation = this.generation;
+
+    try {
+      if (!(await store.exists(storePath))) {
+        this.manifestStale = true;
+        return;
+      }
+      const manifest = JSON.parse(await store.read(storePath)) as Partial<PersistedManifest>;
+      if (manifest.version !== INDEX_FORMAT_VERSION || manifest.shards !== SHARD_COUNT) {
+        Debug.log('Fragment index snapshot has an old format, rebuilding');
+        this.manifestStale = true;
+        return;
+      }
+
+      const documents: IndexedDocument[] = [];
+      for (let shard = 0; shard < SHARD_COUNT; shard++) {
+        const shardPath = this.shardPath(shard);
+        if (!(await store.exists(shardPath))) continue;
+        const persisted = JSON.parse(await store.read(shardPath)) as Partial<PersistedShard>;
+        if (persisted.version !== INDEX_FORMAT_VERSION || !Array.isArray(persisted.documents)) continue;
+        documents.push(...persisted.documents);
+      }
+
+      for (let i = 0; i < documents.length; i++) {
+        if (this.generation !== generation) return;
+        const doc = documents[i];
+        if (this.isExcluded(doc.path)) {
+          // Written before the path was ignored: drop it from disk on the next save
+          this.markDirty(doc.path);
+          continue;
+        }
+        const existing = this.documents.get(doc.path);
+        if (!existing || existing.mtime < doc.mtime) this.indexRecord(doc);
+        if ((i + 1) % SYNC_BATCH_SIZE === 0) {
+          await new Promise(resolve => window.setTimeout(resolve, 0));
+        }
+      }
+      Debug.log(`Fragment index loaded ${this.documents.size} documents from snapshot`);
+    } catch (error) {
+      if (this.generation !== generation) return;
+      Debug.warn('Fragment index snapshot unreadable, rebuilding:', error);
+      this.retriever.clearIndexes();
+      this.documents.clear();
+      this.manifestStale = true;
+    }
+  }
+
+  /**
+   * Re-check every document against `isExcluded` on the next save, after the
+   * ignore rules changed: newly ignored notes leave the snapshot and notes
+   * no longer ignored join it.
+   */
+  exclusionsChanged(): void {
+    for (let shard = 0; shard < SHARD_COUNT; shard++) {
+      this.dirtyShards.add(shard);
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Flush pending changes and forget all state. Called on plugin unload.
+   */
+  async detach(): Promise<void> {
+    await this.flush();
+    this.reset();
+    this.store = undefined;
+    this.storePath = undefined;
+  }
+
+  isAttached(): boolean {
+    return this.store !== undefined;
+  }
+
+  /** True once a full `sync` has completed: the index covers the whole vault. */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  getDocumentCount(): number {
+    return this.documents.size;
+  }
+
+  has(path: string): boolean {
+    return this.documents.has(path);
+  }
+
+  /**
+   * Reconcile the index with the vault's current markdown files: drop
+   * documents that no longer exist and (re-)read those that are new or whose
+   * mtime moved on. Reads are batched with yields so a large vault does not
+   * stall the UI thread.
+   */
+  async sync(
+    files: Array<{ path: string; mtime: number }>,
+    read: (path: string) => Promise<string>
+  ): Promise<void> {
+    const present = new Set(files.map(f => f.path));
+    for (const path of Array.from(this.documents.keys())) {
+      if (!present.has(path)) this.remove(path);
+    }
+
+    const stale = files.filter(f => this.documents.get(f.path)?.mtime !== f.mtime);
+    for (let i = 0; i < stale.length; i++) {
+      const file = stale[i];
+      try {
+        this.upsert(file.path, file.mtime, await read(file.path));
+      } catch (error) {
+        Debug.log(`Skipping ${file.path} during fragment index sync:`, error);
+      }
+      if ((i + 1) % SYNC_BATCH_SIZE === 0) {
+        await new Promise(resolve => window.setTimeout(resolve, 0));
+      }
+    }
+
+    this.ready = true;
+    Debug.log(`Fragment index synced: ${this.documents.size} documents (${stale.length} re-read)`);
+  }
+
+  /**
+   * Index (or re-index) one document. An older mtime than the one already
+   * indexed is ignored, so a slow read cannot overwrite a newer event.
+   */
+  upsert(path: string, mtime: number, content: string): void {
+    const existing = this.documents.get(path);
+    if (existing && existing.mtime > mtime) return;
+    this.indexRecord({ path, mtime, content });
+    this.markDirty(path);
+  }
+
+  remove(path: string): void {
+    if (!this.documents.delete(path)) return;
+    this.retriever.removeDocument(VaultFragmentIndex.docId(path));
+    this.markDirty(path);
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const doc = this.documents.get(oldPath);
+    if (!doc) return;
+    this.remove(oldPath);
+    this.upsert(newPath, doc.mtime, doc.content);
+  }
+
+  retrieveFragments(query: string, options: RetrievalOptions = {}): SemanticResponse<Fragment[]> {
+    return this.retriever.retrieveFragments(query, options);
+  }
+
+  /**
+   * Rank indexed documents for a query (BM25F, see `bm25f.ts`). `exclude` is
+   * applied before the limit so filtered paths never take a slot.
+   */
+  rankDocuments(
+    query: string,
+    maxResults: number,
+    exclude?: (path: string) => boolean,
+    boosts?: FieldBoosts
+  ): DocumentMatch[] {
+    const ranked = this.retriever.rankDocuments(query, exclude ? this.documents.size : maxResults, boosts);
+    return (exclude ? ranked.filter(m => !exclude(m.docPath)) : ranked).slice(0, maxResults);
+  }
+
+  /**
+   * A document's structural chunks with their line ranges, for embedding.
+   * Empty when the path is not indexed.
+   */
+  getChunks(path: string): Array<{ content: string; lineStart: number; lineEnd: number }> {
+    const doc = this.documents.get(path);
+    if (!doc) return [];
+    const lineAt = (offset: number) => doc.content.slice(0, offset).split('\n').length;
+    return this.retriever.getDocumentChunks(VaultFragmentIndex.docId(path)).map(chunk => ({
+      content: chunk.content,
+      lineStart: lineAt(chunk.metadata.start),
+      lineEnd: lineAt(chunk.metadata.end),
+    }));
+  }
+
+  /** BM25F corpus statistics of the whole index. */
+  getCorpusStats(): CorpusStats {
+    return this.retriever.getCorpusStats();
+  }
+
+  /** Indexed mtime and length for a path, for result metadata. */
+  getDocumentInfo(path: string): { mtime: number; size: number } | undefined {
+    const doc = this.documents.get(path);
+    return doc ? { mtime: doc.mtime, size: doc.content.length } : undefined;
+  }
+
+  /** All indexed paths, for callers that match on names rather than content. */
+  getPaths(): string[] {
+    return Array.from(this.documents.keys());
+  }
+
+  /**
+   * Write the shards that changed since the last write, if any.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer !== undefined) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    const store = this.store;
+    const storePath = this.storePath;
+    if (!store || !storePath) return;
+
+    const shards = Array.from(this.dirtyShards);
+    this.dirtyShards.clear();
+    if (shards.length > 0) {
+      const documents = new Map<number, IndexedDocument[]>(shards.map(shard => [shard, []]));
+      for (const doc of this.documents.values()) {
+        if (this.isExcluded(doc.path)) continue;
+        documents.get(VaultFragmentIndex.shardOf(doc.path))?.push(doc);
+      }
+      for (const shard of shards) {
+        const persisted: PersistedShard = { version: INDEX_FORMAT_VERSION, documents: documents.get(shard)! };
+        try {
+          await store.write(this.shardPath(shard), JSON.stringify(persisted));
+        } catch (error) {
+          this.dirtyShards.add(shard);
+          Debug.warn(`Failed to persist fragment index shard ${shard}:`, error);
+        }
+      }
+    }
+
+    if (this.manifestStale) {
+      // Also overwrites a snapshot in the old single-file format
+      const manifest: PersistedManifest = { version: INDEX_FORMAT_VERSION, shards: SHARD_COUNT };
+      try {
+        await store.write(storePath, JSON.stringify(manifest));
+        this.manifestStale = false;
+      } catch (error) {
+        Debug.warn('Failed to persist fragment index manifest:', error);
+      }
+    }
+  }
+
+  private shardPath(shard: number): string {
+    return `${this.storePath!.replace(/\.json$/, '')}.${shard}.json`;
+  }
+
+  private indexRecord(doc: IndexedDocument): void {
+    this.documents.set(doc.path, doc);
+    this.retriever.indexDocument(VaultFragmentIndex.docId(doc.path), doc.path, doc.content);
+  }
+
+  private markDirty(path: string): void {
+    this.dirtyShards.add(VaultFragmentIndex.shardOf(path));
+    this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (!this.store || this.saveTimer !== undefined) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.flush();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private reset(): void {
+    if (this.saveTimer !== undefined) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    this.retriever.clearIndexes();
+    this.documents.clear();
+    this.ready = false;
+    this.dirtyShards.clear();
+    this.manifestStale = false;
+    this.generation++;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Vector storage and approximate nearest-neighbour search for chunk embeddings.
+ *
+ * `VectorStore` is the seam: the vault embedding index only adds, drops and
+ * queries records through it, and persists whatever `serialize` returns, so a
+ * different index structure can replace the one here without touching the
+ * callers.
+ *
+ * `LshVectorStore` hashes each vector with random hyperplanes (sign of the dot
+ * product, one bit per plane) into several independent tables. Vectors at a
+ * small angle share a bucket in at least one table with high probability, so
+ * a query only scores the vectors in its own buckets, then ranks those exactly
+ * by cosine similarity. When the buckets hold fewer candidates than asked for,
+ * it scans everything — on a small vault that is cheap and always exact.
+ * The hyperplanes come from a fixed seed, so they are rebuilt rather than
+ * stored and a snapshot only carries the vectors.
+ */
+
+export interface VectorRecord {
+  /** The note the chunk belongs to. */
+  path: string;
+  content: string;
+  lineStart: number;
+  lineEnd: number;
+  vector: number[];
+}
+
+export interface VectorHit {
+  record: VectorRecord;
+  /** Cosine similarity to the query, -1..1. */
+  score: number;
+}
+
+export interface VectorStore {
+  readonly dimensions: number;
+  /** Replace every record of a note. */
+  setDocument(path: string, records: VectorRecord[]): void;
+  removeDocument(path: string): void;
+  getDocument(path: string): VectorRecord[];
+  size(): number;
+  /** The `k` records most similar to `vector`, skipping those `exclude` rejects. */
+  search(vector: number[], k: number, exclude?: (path: string) => boolean): VectorHit[];
+  serialize(): SerializedVectors;
+}
+
+export interface SerializedVectors {
+  dimensions: number;
+  records: Array<Omit<VectorRecord, 'vector'> & { vector: string }>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/** Float32 little-endian, base64: a quarter of the size of the same vector as JSON numbers. */
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 4)));
+}
+
+/** Deterministic PRNG (mulberry32), so every load draws the same hyperplanes. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const TABLES = 8;
+const BITS_PER_TABLE = 10;
+const HYPERPLANE_SEED = 0x5eed;
+
+export class LshVectorStore implements VectorStore {
+  private documents = new Map<string, VectorRecord[]>();
+  private hyperplanes: number[][][];
+  private tables: Array<Map<number, Set<VectorRecord>>>;
+
+  constructor(readonly dimensions: number) {
+    const random = seededRandom(HYPERPLANE_SEED);
+    this.hyperplanes = Array.from({ length: TABLES }, () =>
+      Array.from({ length: BITS_PER_TABLE }, () => Array.from({ length: dimensions }, () => random() * 2 - 1))
+    );
+    this.tables = Array.from({ length: TABLES }, () => new Map<number, Set<VectorRecord>>());
+  }
+
+  static deserialize(data: SerializedVectors): LshVectorStore {
+    const store = new LshVectorStore(data.dimensions);
+    const byPath = new Map<string, VectorRecord[]>();
+    for (const record of data.records) {
+      const decoded = { ...record, vector: decodeVector(record.vector) };
+      if (!byPath.has(decoded.path)) byPath.set(decoded.path, []);
+      byPath.get(decoded.path)!.push(decoded);
+    }
+    byPath.forEach((records, path) => store.setDocument(path, records));
+    return store;
+  }
+
+  setDocument(path: string, records: VectorRecord[]): void {
+    this.removeDocument(path);
+    const accepted = records.filter(r => r.vector.length === this.dimensions);
+    if (accepted.length === 0) return;
+    this.documents.set(path, accepted);
+    for (const record of accepted) {
+      this.tables.forEach((table, t) => {
+        const key = this.hash(record.vector, t);
+        if (!table.has(key)) table.set(key, new Set());
+        table.get(key)!.add(record);
+      });
+    }
+  }
+
+  removeDocument(path: string): void {
+    const records = this.documents.get(path);
+    if (!records) return;
+    for (const record of records) {
+      this.tables.forEach((table, t) => {
+        const key = this.hash(record.vector, t);
+        const bucket = table.get(key);
+        bucket?.delete(record);
+        if (bucket?.size === 0) table.delete(key);
+      });
+    }
+    this.documents.delete(path);
+  }
+
+  getDocument(path: string): VectorRecord[] {
+    return this.documents.get(path) ?? [];
+  }
+
+  size(): number {
+    let count = 0;
+    this.documents.forEach(records => { count += records.length; });
+    return count;
+  }
+
+  search(vector: number[], k: number, exclude?: (path: string) => boolean): VectorHit[] {
+    if (vector.length !== this.dimensions || k <= 0) return [];
+
+    let candidates = new Set<VectorRecord>();
+    this.tables.forEach((table, t) => {
+      table.get(this.hash(vector, t))?.forEach(record => candidates.add(record));
+    });
+    if (exclude) {
+      candidates = new Set(Array.from(candidates).filter(record => !exclude(record.path)));
+    }
+    if (candidates.size < k) {
+      candidates = new Set(Array.from(this.documents.values()).flat().filter(record => !exclude?.(record.path)));
+    }
+
+    return Array.from(candidates)
+      .map(record => ({ record, score: cosineSimilarity(vector, record.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  serialize(): SerializedVectors {
+    return {
+      dimensions: this.dimensions,
+      records: Array.from(this.documents.values()).flat().map(record => ({ ...record, vector: encodeVector(record.vector) })),
+    };
+  }
+
+  private hash(vector: number[], table: number): number {
+    let key = 0;
+    this.hyperplanes[table].forEach((plane, bit) => {
+      let dot = 0;
+      for (let i = 0; i < vector.length; i++) dot += plane[i] * vector[i];
+      if (dot >= 0) key |= 1 << bit;
+    });
+    return key;
+  }
+}
@@ -1,4 +1,4 @@
-import { App, Plugin, PluginSettingTab, Setting, Notice, TFolder, setIcon, Modal, TextComponent, ButtonComponent, FileSystemAdapter } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, Notice, TFile, TFolder, setIcon, Modal, TextComponent, ButtonComponent, FileSystemAdapter, debounce } from 'obsidian';
 import { MCPHttpServer } from './mcp-server';
 import { getVersion } from './version';
 import { Debug } from './utils/debug';
@@ -9,6 +9,15 @@ import { CertificateConfig } from './utils/certificate-manager';
 import { ValidationConfig } from './validation/input-validator';
 import { ALL_OPERATIONS, getActionsForOperation, getOperationDescription } from './tools/semantic-tools';
 import { BindMode, classifyFromSettings, normalizeBindInput } from './utils/network-classifier';
+import { VaultFragmentIndex } from './indexing/vault-fragment-index';
+import { DEFAULT_FIELD_BOOSTS, FieldBoosts, RankField, normalizeFieldBoosts } from './indexing/bm25f';
+import { VaultEmbeddingIndex } from './indexing/vault-embedding-index';
+import { DEFAULT_EMBEDDING_SETTINGS, EmbeddingSettings, createEmbeddingProvider, normalizeEmbeddingSettings } from './indexing/embeddings';
+import { OperationJournal } from './utils/operation-journal';
+import { AuditLog, customAuditLogPath } from './security/audit-log';
+import { ApiKeyScope, normalizeScopedKeys } from './security/http-auth';
+import { DEFAULT_RATE_LIMITS, RateLimits, normalizeRateLimits } from './security/rate-limiter';
+import type { SecuritySettings } from './security/vault-security-manager';
 
 interface MCPPluginSettings {
 	httpEnabled: boolean;
@@ -24,13 +33,26 @@ interface MCPPluginSettings {
 	showConnectionStatus: boolean;
 	autoDetectPortConflicts: boolean;
 	apiKey: string;
+	scopedApiKeys: ApiKeyScope[];
 	dangerouslyDisableAuth: boolean;
 	readOnlyMode: boolean;
 	enableWebFetch: boolean;
+	enableDataviewJs: boolean;
 	pathExclusionsEnabled: boolean;
 	enableIgnoreContextMenu: boolean;
 	validation?: Partial<ValidationConfig>;
 	toolVisibility: Record<string, boolean>;
+	promptsFolder: string;
+	// BM25F field weights for vault.search, read on every search
+	searchBoosts: FieldBoosts;
+	// Chunk embeddings behind vault.semantic_search and hybrid fragments
+	embeddings: EmbeddingSettings;
+	// Read live by MCPServerPool; the vault ruleset itself stays the baseline (ADR-108)
+	security: Pick<SecuritySettings, 'rateLimitEnabled' | 'logSecurityEvents'> & {
+		rateLimits: RateLimits;
+		/** Vault-relative audit log file; empty means the plugin directory. */
+		auditLogPath: string;
+	};
 }
 
 interface MCPServerInfo {
@@ -76,9 +98,11 @@ const DEFAULT_SETTINGS: MCPPluginSettings = {
 	showConnectionStatus: true,
 	autoDetectPortConflicts: true,
 	apiKey: '', // Will be generated on first load
+	scopedApiKeys: [], // Named keys with their own path/permission scope
 	dangerouslyDisableAuth: false, // Auth enabled by default
 	readOnlyMode: false, // Read-only mode disabled by default
 	enableWebFetch: false, // ADR-109: outbound web fetch off by default, for everyone
+	enableDataviewJs: false, // Script execution is opt-in, like web fetch
 	pathExclusionsEnabled: false, // Path exclusions disabled by default
 	enableIgnoreContextMenu: false, // Context menu disabled by default
 	validation: {
@@ -88,7 +112,16 @@ const DEFAULT_SETTINGS: MCPPluginSettings = {
 		maxRegexComplexity: 100,
 		strictMode: false
 	},
-	toolVisibility: {} // Empty = all tools enabled (missing keys default to true)
+	toolVisibility: {}, // Empty = all tools enabled (missing keys default to true)
+	promptsFolder: 'MCP Prompts', // Notes served as MCP prompts; empty disables
+	searchBoosts: DEFAULT_FIELD_BOOSTS,
+	embeddings: DEFAULT_EMBEDDING_SETTINGS, // Off until an embedding endpoint is configured
+	security: {
+		rateLimitEnabled: false, // Tool-call quotas off by default
+		rateLimits: DEFAULT_RATE_LIMITS,
+		logSecurityEvents: false, // Persistent audit log off by default
+		auditLogPath: ''
+	}
 };
 
 export default class ObsidianMCPPlugin extends Plugin {
@@ -172,6 +205,23 @@ export default class ObsidianMCPPlugin extends Plugin {
 
 			// Setup vault monitoring
 			this.setupVaultMonitoring();
+			this.setupResourceNotifications();
+
+			// Shared fragment index: load the snapshot now, reconcile with the vault
+			// once the layout is ready so startup is not blocked on reading files
+			await this.initializeFragmentIndex();
+
+			// Chunk embeddings behind vault.semantic_search, when enabled
+			await this.applyEmbeddingSettings();
+
+			// Operation journal behind vault.history / vault.undo
+			await OperationJournal.getInstance().attach(
+				this.app.vault.adapter,
+				`${this.getPluginDir()}/journal.jsonl`
+			);
+
+			// Audit log behind system.audit, when enabled
+			await this.applyAuditLogSettings();
 
 			// Register context menu for path exclusions
 			if (this.settings.pathExclusionsEnabled && this.settings.enableIgnoreContextMenu) {
@@ -212,6 +262,10 @@ export default class ObsidianMCPPlugin extends Plugin {
 			window.clearInterval(this.statsUpdateInterval);
 		}
 
+		void VaultFragmentIndex.getInstance().detach();
+		void VaultEmbeddingIndex.getInstance().detach();
+		void OperationJournal.getInstance().detach();
+		void AuditLog.getInstance().detach();
 		void this.stopMCPServer();
 	}
 
@@ -331,6 +385,18 @@ export default class ObsidianMCPPlugin extends Plugin {
 		this.settings.readOnlyMode = this.settings.readOnlyMode === true;
 		this.settings.dangerouslyDisableAuth = this.settings.dangerouslyDisableAuth === true;
 		this.settings.enableWebFetch = this.settings.enableWebFetch === true;
+		this.settings.enableDataviewJs = this.settings.enableDataviewJs === true;
+		this.settings.scopedApiKeys = normalizeScopedKeys(this.settings.scopedApiKeys);
+		this.settings.searchBoosts = normalizeFieldBoosts(this.settings.searchBoosts);
+		this.settings.embeddings = normalizeEmbeddingSettings(this.settings.embeddings);
+		// A fresh object: the shallow assign above would otherwise share
+		// DEFAULT_SETTINGS.security, and the settings tab edits it in place.
+		this.settings.security = {
+			rateLimitEnabled: this.settings.security?.rateLimitEnabled === true,
+			rateLimits: normalizeRateLimits(this.settings.security?.rateLimits),
+			logSecurityEvents: this.settings.security?.logSecurityEvents === true,
+			auditLogPath: typeof this.settings.security?.auditLogPath === 'string' ? this.settings.security.auditLogPath : ''
+		};
 
 		// ADR-109: fetch_web moved from the visibility tree to the dedicated
 		// enableWebFetch setting. A leftover visibility key would be a second
@@ -538,6 +604,157 @@ export default class ObsidianMCPPlugin extends Plugin {
 		);
 	}
 
+	/**
+	 * Forward vault changes to MCP sessions: subscribers of obsidian://note/{path}
+	 * get resources/updated, everyone gets resources/list_changed when files
+	 * appear, disappear or move, and prompts/list_changed when a file in the
+	 * prompts folder changes. Registered once the layout is ready so the create
+	 * events Obsidian fires while loading the vault are not forwarded.
+	 */
+	private setupResourceNotifications(): void {
+		const listChanged = debounce(() => this.mcpServer?.notifyResourceListChanged(), 500, true);
+		const promptsChanged = debounce(() => this.mcpServer?.notifyPromptListChanged(), 500, true);
+		const checkPrompts = (...paths: string[]) => {
+			const folder = this.settings.promptsFolder.trim().replace(/^\/+|\/+$/g, '');
+			if (folder && paths.some(p => p.startsWith(`${folder}/`))) promptsChanged();
+		};
+
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(this.app.vault.on('modify', (file) => {
+				this.mcpServer?.notifyResourceUpdated(file.path);
+				checkPrompts(file.path);
+			}));
+			this.registerEvent(this.app.vault.on('create', (file) => {
+				if (!(file instanceof TFile)) return;
+				listChanged();
+				checkPrompts(file.path);
+			}));
+			this.registerEvent(this.app.vault.on('delete', (file) => {
+				if (!(file instanceof TFile)) return;
+				this.mcpServer?.notifyResourceUpdated(file.path);
+				listChanged();
+				checkPrompts(file.path);
+			}));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				if (!(file instanceof TFile)) return;
+				this.mcpServer?.notifyResourceUpdated(oldPath);
+				listChanged();
+				checkPrompts(oldPath, file.path);
+			}));
+		});
+	}
+
+	private getPluginDir(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
+	/** Where the audit log is written: the custom path when usable (see `customAuditLogPath`). */
+	getAuditLogPath(): string {
+		const raw = this.settings.security.auditLogPath;
+		const custom = customAuditLogPath(raw);
+		if (custom) return custom;
+		if (raw.trim()) {
+			Debug.warn(`Audit log path "${raw.trim()}" is not a plain path inside a hidden folder; using the plugin directory`);
+		}
+		return `${this.getPluginDir()}/audit.jsonl`;
+	}
+
+	/** Attach or detach the audit log to match the current settings. */
+	async applyAuditLogSettings(): Promise<void> {
+		const log = AuditLog.getInstance();
+		if (this.settings.security.logSecurityEvents) {
+			await log.attach(this.app.vault.adapter, this.getAuditLogPath());
+		} else {
+			await log.detach();
+		}
+	}
+
+	/** Attach or detach the embedding index to match the current settings. */
+	async applyEmbeddingSettings(): Promise<void> {
+		const embeddings = VaultEmbeddingIndex.getInstance();
+		const provider = createEmbeddingProvider(this.settings.embeddings);
+		if (!provider) {
+			await embeddings.detach();
+			return;
+		}
+		// Ignored notes are never embedded: the provider may be a remote API
+		const ignoreManager = this.ignoreManager;
+		await embeddings.attach(
+			this.app.vault.adapter,
+			`${this.getPluginDir()}/vector-index.json`,
+			provider,
+			ignoreManager ? (path) => ignoreManager.isExcluded(path) : undefined
+		);
+		const fragmentIndex = VaultFragmentIndex.getInstance();
+		if (fragmentIndex.isReady()) embeddings.scheduleSync(fragmentIndex);
+	}
+
+	private async initializeFragmentIndex(): Promise<void> {
+		const index = VaultFragmentIndex.getInstance();
+		// Ignored notes are searchable in memory (queries filter them) but never written to disk
+		const ignoreManager = this.ignoreManager;
+		await index.attach(
+			this.app.vault.adapter,
+			`${this.getPluginDir()}/fragment-index.json`,
+			ignoreManager ? (path) => ignoreManager.isExcluded(path) : undefined
+		);
+		if (ignoreManager) {
+			this.register(ignoreManager.onChange(() => {
+				index.exclusionsChanged();
+				VaultEmbeddingIndex.getInstance().exclusionsChanged(index);
+			}));
+		}
+
+		// Embeddings follow the fragment index; a no-op while they are off
+		const embed = () => VaultEmbeddingIndex.getInstance().scheduleSync(index);
+		const isMarkdown = (file: unknown): file is TFile => file instanceof TFile && file.extension === 'md';
+		const reindex = async (file: TFile): Promise<void> => {
+			try {
+				index.upsert(file.path, file.stat.mtime, await this.app.vault.cachedRead(file));
+				embed();
+			} catch (error) {
+				Debug.log(`Fragment index could not read ${file.path}:`, error);
+			}
+		};
+
+		this.registerEvent(this.app.vault.on('create', (file) => {
+			if (isMarkdown(file)) void reindex(file);
+		}));
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (isMarkdown(file)) void reindex(file);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			if (isMarkdown(file)) {
+				index.remove(file.path);
+				embed();
+			}
+		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (!isMarkdown(file)) {
+				index.remove(oldPath);
+			} else if (index.has(oldPath)) {
+				index.rename(oldPath, file.path);
+				embed();
+			} else {
+				void reindex(file);
+			}
+		}));
+
+		this.app.workspace.onLayoutReady(() => {
+			const files = this.app.vault.getMarkdownFiles();
+			void index.sync(
+				files.map(f => ({ path: f.path, mtime: f.stat.mtime })),
+				async (path) => {
+					const file = this.app.vault.getAbstractFileByPath(path);
+					return file instanceof TFile ? this.app.vault.cachedRead(file) : '';
+				}
+			).then(() => {
+				embed();
+				return index.flush();
+			});
+		});
+	}
+
 	private checkVaultContext(): void {
 		const newVaultName = this.app.vault.getName();
 		const newVaultPath = this.getVaultPath();
@@ -641,12 +858,24 @@ class MCPSettingTab extends PluginSettingTab {
 		// Authentication Section
 		this.createAuthenticationSection(containerEl);
 
+		// Scoped API Keys Section
+		this.createScopedKeysSection(containerEl);
+
 		// Security Section
 		this.createSecuritySection(containerEl);
 
 		// Tool Visibility Section
 		this.createToolVisibilitySection(containerEl);
 
+		// Prompt Templates Section
+		this.createPromptsSection(containerEl);
+
+		// Search Ranking Section
+		this.createSearchRankingSection(containerEl);
+
+		// Semantic Search Section
+		this.createSemanticSearchSection(containerEl);
+
 		// UI Options Section
 		this.createUIOptionsSection(containerEl);
 	}
@@ -1106,6 +1335,120 @@ class MCPSettingTab extends PluginSettingTab {
 				}));
 	}
 
+	private createScopedKeysSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Scoped API keys").setHeading();
+
+		containerEl.createEl('p', {
+			text: 'Extra keys for individual clients, each limited to its own paths, operations and tools. A scoped key can only narrow what the settings on this page allow. Paths are patterns where * matches anything, so a folder and its contents are the folder name plus the folder name followed by /*. Changes apply to connected clients immediately; deleting a key cuts off its sessions.',
+			cls: 'setting-item-description'
+		});
+
+		const keys = this.plugin.settings.scopedApiKeys;
+		const save = async () => { await this.plugin.saveSettings(); };
+		const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+		for (const scope of keys) {
+			new Setting(containerEl)
+				.setName(scope.name)
+				.setDesc('Key for this client')
+				.addText(text => {
+					text.setValue(scope.key).setDisabled(true);
+					text.inputEl.classList.add('mcp-api-key-input', 'mcp-monospace-input');
+				})
+				.addButton(button => button
+					.setButtonText('Copy')
+					.onClick(async () => {
+						await navigator.clipboard.writeText(scope.key);
+						new Notice(`Key "${scope.name}" copied to clipboard`);
+					}))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setClass('mod-warning')
+					.onClick(() => {
+						new ConfirmationModal(
+							this.app,
+							`Delete the key "${scope.name}"? Clients using it lose access immediately.`,
+							async () => {
+								this.plugin.settings.scopedApiKeys = keys.filter(k => k !== scope);
+								await save();
+								this.render();
+							}
+						).open();
+					}));
+
+			new Setting(containerEl)
+				.setName('Read-only')
+				.setDesc(`Only reads for "${scope.name}", whatever the operations below allow`)
+				.addToggle(toggle => toggle
+					.setValue(scope.readOnly === true)
+					.onChange(async (value) => { scope.readOnly = value; await save(); }));
+
+			const operations = new Setting(containerEl)
+				.setName('Operations')
+				.setDesc('Read, create, update, delete, move, rename, run commands');
+			for (const permission of Object.keys(scope.permissions) as Array<keyof ApiKeyScope['permissions']>) {
+				operations.addToggle(toggle => toggle
+					.setTooltip(permission)
+					.setValue(scope.permissions[permission])
+					.onChange(async (value) => { scope.permissions[permission] = value; await save(); }));
+			}
+
+			new Setting(containerEl)
+				.setName('Allowed paths')
+				.setDesc('Comma-separated; empty allows every path')
+				.addText(text => text
+					.setPlaceholder('Folder, folder/*')
+					.setValue((scope.allowedPaths ?? []).join(', '))
+					.onChange(async (value) => { scope.allowedPaths = splitList(value); await save(); }));
+
+			new Setting(containerEl)
+				.setName('Blocked paths')
+				.setDesc('Comma-separated')
+				.addText(text => text
+					.setPlaceholder('Private/*')
+					.setValue((scope.blockedPaths ?? []).join(', '))
+					.onChange(async (value) => { scope.blockedPaths = splitList(value); await save(); }));
+
+			new Setting(containerEl)
+				.setName('Hidden tools')
+				.setDesc('Comma-separated operations or actions to hide from this key, for example vault.delete')
+				.addText(text => text
+					.setValue(Object.keys(scope.toolVisibility ?? {}).join(', '))
+					.onChange(async (value) => {
+						scope.toolVisibility = Object.fromEntries(splitList(value).map(name => [name, false]));
+						await save();
+						this.plugin.mcpServer?.notifyToolListChanged();
+					}));
+		}
+
+		let newName = '';
+		new Setting(containerEl)
+			.setName('Add a scoped key')
+			.setDesc('New keys start read-only with every path allowed')
+			.addText(text => text
+				.setPlaceholder('Key name')
+				.onChange((value) => { newName = value.trim(); }))
+			.addButton(button => button
+				.setButtonText('Add')
+				.onClick(async () => {
+					if (!newName || keys.some(k => k.name === newName)) {
+						new Notice(newName ? `A key named "${newName}" already exists` : 'Enter a name for the key');
+						return;
+					}
+					keys.push({
+						name: newName,
+						key: this.plugin.generateApiKey(),
+						permissions: { read: true, create: false, update: false, delete: false, move: false, rename: false, execute: false },
+						readOnly: true,
+						allowedPaths: [],
+						blockedPaths: [],
+						toolVisibility: {}
+					});
+					await save();
+					this.render();
+				}));
+	}
+
 	private createSecuritySection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName("Security").setHeading();
 		
@@ -1156,6 +1499,90 @@ class MCPSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		// Same shape as web fetch: a capability gate, not a visibility row. The
+		// dataview handler re-reads it per call; `format: 'js'` is only
+		// advertised while it is on.
+		new Setting(containerEl)
+			.setName('Allow DataviewJS queries')
+			.setDesc('Lets connected agents run DataviewJS scripts (dataview.query with format js). Scripts run in a sandbox: they can read indexed notes and their metadata, cannot modify the vault or load modules, and are stopped at a time limit with their output capped. Takes effect immediately; agents see the option on their next connection.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableDataviewJs)
+				.onChange(async (value) => {
+					this.plugin.settings.enableDataviewJs = value;
+					await this.plugin.saveSettings();
+					this.plugin.mcpServer?.notifyToolListChanged();
+				}));
+
+		// Quotas are read live per tool call, like read-only
+		new Setting(containerEl)
+			.setName('Rate limiting')
+			.setDesc('Limits how fast each session and each API key may call tools, write content and delete files. A client over its limit is refused and told when to retry. Takes effect immediately.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.security.rateLimitEnabled === true)
+				.onChange(async (value) => {
+					this.plugin.settings.security.rateLimitEnabled = value;
+					await this.plugin.saveSettings();
+					this.render();
+				}));
+
+		if (this.plugin.settings.security.rateLimitEnabled) {
+			const limitFields: Array<{ key: keyof RateLimits; name: string; desc: string }> = [
+				{ key: 'callsPerMinute', name: 'Tool calls per minute', desc: 'Per session and per API key. 0 for no limit.' },
+				{ key: 'bytesWrittenPerHour', name: 'Bytes written per hour', desc: 'Content written to the vault by any tool, copies included. 0 for no limit.' },
+				{ key: 'deletesPerHour', name: 'Deletes per hour', desc: 'Files deleted, including inside a batch. 0 for no limit.' }
+			];
+			for (const field of limitFields) {
+				new Setting(containerEl)
+					.setName(field.name)
+					.setDesc(field.desc)
+					.addText(text => text
+						.setPlaceholder(String(DEFAULT_RATE_LIMITS[field.key]))
+						.setValue(String(this.plugin.settings.security.rateLimits[field.key]))
+						.onChange(async (value) => {
+							const limit = parseInt(value);
+							if (!isNaN(limit) && limit >= 0) {
+								this.plugin.settings.security.rateLimits[field.key] = limit;
+								await this.plugin.saveSettings();
+							}
+						}));
+			}
+		}
+
+		// Persistent audit log (security/audit-log.ts)
+		new Setting(containerEl)
+			.setName('Audit log')
+			.setDesc('Records every tool call and every allow/block decision of the security layer, with session, API key, path and outcome, to a rotating log file. The main API key can query it with system.audit.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.security.logSecurityEvents === true)
+				.onChange(async (value) => {
+					this.plugin.settings.security.logSecurityEvents = value;
+					await this.plugin.saveSettings();
+					await this.plugin.applyAuditLogSettings();
+					this.render();
+				}));
+
+		if (this.plugin.settings.security.logSecurityEvents) {
+			new Setting(containerEl)
+				.setName('Audit log file')
+				.setDesc(`Vault-relative path inside a hidden folder, so Obsidian does not index it. Leave empty for the plugin folder. Currently: ${this.plugin.getAuditLogPath()}`)
+				.addText(text => text
+					.setPlaceholder('.audit/mcp-audit.jsonl')
+					.setValue(this.plugin.settings.security.auditLogPath)
+					.onChange((value) => {
+						this.plugin.settings.security.auditLogPath = value;
+					})
+					// Applied when the field is left, not per keystroke: each apply
+					// re-attaches the log and creates its folder, and every prefix
+					// of the path being typed would get one
+					.inputEl.addEventListener('blur', () => {
+						void (async () => {
+							await this.plugin.saveSettings();
+							await this.plugin.applyAuditLogSettings();
+							this.render();
+						})();
+					}));
+		}
+
 		// Path Exclusions Setting
 		new Setting(containerEl)
 			.setName('Path exclusions')
@@ -1524,6 +1951,136 @@ class MCPSettingTab extends PluginSettingTab {
 		}
 	}
 
+	private createPromptsSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Prompts").setHeading();
+
+		new Setting(containerEl)
+			.setName('Prompt templates folder')
+			.setDesc('Notes in this folder are offered to clients as MCP prompts. Frontmatter declares the description and arguments, {{argument}} placeholders are filled in, and ![[embeds]] pull in other notes. Leave empty to offer no prompts.')
+			.addText(text => text
+				.setPlaceholder('Folder path')
+				.setValue(this.plugin.settings.promptsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.promptsFolder = value;
+					await this.plugin.saveSettings();
+					this.plugin.mcpServer?.notifyPromptListChanged();
+				}));
+	}
+
+	private createSearchRankingSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Search ranking").setHeading();
+
+		containerEl.createEl('p', {
+			text: 'How much a match in each part of a note counts towards its search score, relative to body text. Set a part to 0 to ignore it.',
+			cls: 'setting-item-description'
+		});
+
+		const boostFields: Array<{ key: RankField; name: string }> = [
+			{ key: 'filename', name: 'File name' },
+			{ key: 'aliases', name: 'Aliases' },
+			{ key: 'headings', name: 'Headings' },
+			{ key: 'tags', name: 'Tags' },
+			{ key: 'body', name: 'Body text' }
+		];
+		for (const field of boostFields) {
+			new Setting(containerEl)
+				.setName(field.name)
+				.addText(text => text
+					.setPlaceholder(String(DEFAULT_FIELD_BOOSTS[field.key]))
+					.setValue(String(this.plugin.settings.searchBoosts[field.key]))
+					.onChange(async (value) => {
+						const boost = parseFloat(value);
+						if (!isNaN(boost) && boost >= 0) {
+							this.plugin.settings.searchBoosts[field.key] = boost;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+	}
+
+	private createSemanticSearchSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName("Embedding search").setHeading();
+
+		containerEl.createEl('p', {
+			text: 'Finds passages by embedding similarity rather than exact keywords: every note is split into sections and each section is turned into an embedding. Whether that is semantic depends on the provider. No embedding model ships with the plugin: the built-in provider is lexical, comparing words and word pieces, so "indexing" finds "index" but "car" does not find "automobile". To find passages by meaning (synonyms, paraphrases), use an embedding model you run locally. Embeddings are computed in the background and stored in the plugin folder; changing the provider or model recomputes them. Notes excluded by .mcpignore are never embedded.',
+			cls: 'setting-item-description'
+		});
+
+		const embeddings = this.plugin.settings.embeddings;
+		const apply = async () => {
+			await this.plugin.saveSettings();
+			await this.plugin.applyEmbeddingSettings();
+		};
+		// Text fields apply when left, not per keystroke: a changed endpoint or
+		// model is a new provider, and each half-typed one would drop the stored
+		// embeddings and start recomputing them
+		const applyOnBlur = (input: HTMLInputElement) => input.addEventListener('blur', () => { void apply(); });
+
+		new Setting(containerEl)
+			.setName('Enable embedding search')
+			.setDesc('Offers vault.semantic_search and the hybrid fragment strategy to clients.')
+			.addToggle(toggle => toggle
+				.setValue(embeddings.enabled)
+				.onChange(async (value) => {
+					embeddings.enabled = value;
+					await apply();
+				}));
+
+		new Setting(containerEl)
+			.setName('Embedding provider')
+			.setDesc('Built-in runs inside the plugin and sends nothing anywhere, but only matches words. An embedding model understands meaning, but needs a model server to talk to.')
+			.addDropdown(dropdown => dropdown
+				.addOption('hashed', 'Built-in, lexical (words and word pieces)')
+				.addOption('openai', 'Embedding model (OpenAI-compatible endpoint)')
+				.setValue(embeddings.provider)
+				.onChange(async (value) => {
+					embeddings.provider = value === 'openai' ? 'openai' : 'hashed';
+					await apply();
+					this.render();
+				}));
+
+		if (embeddings.provider !== 'openai') return;
+
+		new Setting(containerEl)
+			.setName('Embedding endpoint')
+			.setDesc('Base address of an OpenAI-compatible API that serves /embeddings.')
+			.addText(text => {
+				text
+					.setPlaceholder(DEFAULT_EMBEDDING_SETTINGS.endpoint)
+					.setValue(embeddings.endpoint)
+					.onChange((value) => {
+						embeddings.endpoint = value;
+					});
+				applyOnBlur(text.inputEl);
+			});
+
+		new Setting(containerEl)
+			.setName('Embedding model')
+			.setDesc('Model name as the endpoint knows it.')
+			.addText(text => {
+				text
+					.setPlaceholder(DEFAULT_EMBEDDING_SETTINGS.model)
+					.setValue(embeddings.model)
+					.onChange((value) => {
+						embeddings.model = value;
+					});
+				applyOnBlur(text.inputEl);
+			});
+
+		new Setting(containerEl)
+			.setName('Endpoint key')
+			.setDesc('Sent as a bearer token. Local servers usually need none.')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setValue(embeddings.apiKey)
+					.onChange((value) => {
+						embeddings.apiKey = value;
+					});
+				applyOnBlur(text.inputEl);
+			});
+	}
+
 	private createUIOptionsSection(containerEl: HTMLElement): void {
 		new Setting(containerEl).setName("Interface").setHeading();
 
@@ -1577,6 +2134,9 @@ class MCPSettingTab extends PluginSettingTab {
 			{ name: 'graph', emoji: '🕸️', desc: 'Graph traversal and link analysis', available: true },
 			{ name: 'system', emoji: '⚙️', desc: 'System operations and web fetch', available: true },
 			{ name: 'bases', emoji: '🗃️', desc: 'Bases query and management', available: true },
+			{ name: 'tasks', emoji: '☑️', desc: 'Checklist tasks across the vault', available: true },
+			{ name: 'properties', emoji: '🏷️', desc: 'Frontmatter properties across many notes', available: true },
+			{ name: 'canvas', emoji: '🧩', desc: 'Canvas files: nodes, edges and layout', available: true },
 			{ name: 'dataview', emoji: '📊', desc: 'Query vault data with DQL', available: isDataviewAvailable },
 		];
 
@@ -12,7 +12,7 @@ import { randomUUID } from 'crypto';
 import { getVersion } from './version';
 import { ObsidianAPI } from './utils/obsidian-api';
 import { SecureObsidianAPI } from './security';
-import { authorizeRequest } from './security/http-auth';
+import { authorizeRequest, ApiKeyScope } from './security/http-auth';
 import { Debug } from './utils/debug';
 import { ConnectionPool } from './utils/connection-pool';
 import { SessionManager } from './utils/session-manager';
@@ -40,6 +40,7 @@ interface MCPPluginRef {
     customBindHost?: string;
     readOnlyMode?: boolean;
     apiKey?: string;
+    scopedApiKeys?: ApiKeyScope[];
     dangerouslyDisableAuth?: boolean;
     // From SecurePluginRef (for SecureObsidianAPI)
     security?: Partial<import('./security/vault-security-manager').SecuritySettings>;
@@ -119,6 +120,9 @@ export class MCPHttpServer {
   private server?: Server | HttpsServer;
   private mcpServerPool!: MCPServerPool;
   private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+  // Scoped API key each live transport was opened with (undefined = main key).
+  // Kept beside `transports` and removed with it.
+  private sessionKeys: Map<string, string | undefined> = new Map();
   private obsidianApp: App;
   // Deliberately the narrow type, not ObsidianAPI. Every session's API is built
   // from this one, and MCPServerPool now refuses to create a session when it is
@@ -194,6 +198,7 @@ export class MCPHttpServer {
       if (transport) {
         void transport.close();
         this.transports.delete(data.session.sessionId);
+        this.sessionKeys.delete(data.session.sessionId);
         this.connectionCount = Math.max(0, this.connectionCount - 1);
         Debug.log(`🔚 Evicted session ${data.session.sessionId} (${data.reason}). Connections: ${this.connectionCount}`);
       }
@@ -266,11 +271,16 @@ export class MCPHttpServer {
         method: req.method,
         authHeader: req.headers.authorization,
         apiKey: this.plugin?.settings?.apiKey,
+        scopedKeys: this.plugin?.settings?.scopedApiKeys,
         authDisabled: this.plugin?.settings?.dangerouslyDisableAuth
       });
 
       if (decision.allow) {
-        if (decision.reason === 'auth-disabled') {
+        if (decision.reason === 'scoped-key') {
+          // Read by handleMCPRequest to bind the session to this key.
+          res.locals.apiKeyName = decision.scope.name;
+          Debug.log(`✅ Auth successful (API key "${decision.scope.name}")`);
+        } else if (decision.reason === 'auth-disabled') {
           Debug.log('⚠️ Authentication is DISABLED - allowing access without credentials');
         } else if (decision.reason === 'no-key-configured') {
           Debug.log('🔓 No API key configured, allowing access');
@@ -340,10 +350,13 @@ export class MCPHttpServer {
     this.app.delete('/mcp', (req, res) => {
       const sessionId = req.headers['mcp-session-id'] as string;
 
-      if (sessionId && this.transports.has(sessionId)) {
+      if (sessionId && this.transports.has(sessionId) && this.sessionKeys.get(sessionId) !== res.locals.apiKeyName) {
+        res.status(403).json({ error: 'This session was opened with a different API key' });
+      } else if (sessionId && this.transports.has(sessionId)) {
         const transport = this.transports.get(sessionId)!;
         void transport.close();
         this.transports.delete(sessionId);
+        this.sessionKeys.delete(sessionId);
         this.connectionCount = Math.max(0, this.connectionCount - 1);
         Debug.log(`🔚 Closed MCP session: ${sessionId} (Remaining: ${this.connectionCount})`);
         res.status(200).json({ message: 'Session closed' });
@@ -410,6 +423,10 @@ export class MCPHttpServer {
 
       // Get or create session ID
       const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      // Set by the auth middleware when a scoped API key authenticated.
+      // `locals` is read defensively: this is also driven directly, without
+      // express, by the session-lifecycle tests.
+      const keyName = (res.locals as Record<string, unknown> | undefined)?.apiKeyName as string | undefined;
       Debug.log(`📨 MCP Request: ${request?.method ?? 'unknown'}${sessionId ? ` [Session: ${sessionId}]` : ''}`, request?.params);
 
       // `GET /mcp` opens the standalone SSE notification stream — long-lived and
@@ -464,11 +481,23 @@ export class MCPHttpServer {
 
       // Determine which server to use from the pool
       if (sessionId && this.transports.has(sessionId)) {
+          // A session stays bound to the key that opened it: its transport is
+          // connected to a server whose API carries that key's scope.
+          if (this.sessionKeys.get(sessionId) !== keyName) {
+            Debug.log(`🚫 Session ${sessionId} used with a different API key → 403`);
+            res.status(403).json({
+              jsonrpc: '2.0',
+              error: { code: -32600, message: 'This session was opened with a different API key.' },
+              id: request?.id ?? null
+            });
+            return;
+          }
+
           // Use existing transport for this session
           transport = this.transports.get(sessionId)!;
           
           // Get the server for this session (it should already exist)
-          mcpServer = this.mcpServerPool.getOrCreateServer(sessionId);
+          mcpServer = this.mcpServerPool.getOrCreateServer(sessionId, keyName);
           
           // Update session activity
           if (this.sessionManager) {
@@ -479,13 +508,14 @@ export class MCPHttpServer {
           // Only allow re-create on initialize; otherwise signal explicit session expiration
           if (isInitializeRequest(request)) {
             const session = this.sessionManager.getOrCreateSession(sessionId);
-            mcpServer = this.mcpServerPool.getOrCreateServer(sessionId);
+            mcpServer = this.mcpServerPool.getOrCreateServer(sessionId, keyName);
             effectiveSessionId = sessionId;
             transport = new StreamableHTTPServerTransport({
               sessionIdGenerator: () => effectiveSessionId
             });
             await mcpServer.connect(transport);
             this.transports.set(effectiveSessionId, transport);
+            this.sessionKeys.set(effectiveSessionId, keyName);
             this.connectionCount++;
             Debug.log(`♻️ Recreated transport for session ${sessionId} (requests: ${session.requestCount})`);
           } else {
@@ -507,7 +537,7 @@ export class MCPHttpServer {
           effectiveSessionId = randomUUID();
           
           // Get or create server for this session
-          mcpServer = this.mcpServerPool.getOrCreateServer(effectiveSessionId);
+          mcpServer = this.mcpServerPool.getOrCreateServer(effectiveSessionId, keyName);
           
           transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => effectiveSessionId
@@ -518,6 +548,7 @@ export class MCPHttpServer {
           
           // Store the transport for future requests
           this.transports.set(effectiveSessionId, transport);
+          this.sessionKeys.set(effectiveSessionId, keyName);
           this.connectionCount++;
           
           // Register session with manager if enabled
@@ -690,6 +721,7 @@ export class MCPHttpServer {
       Debug.log(`🔚 Closed MCP session on shutdown: ${sessionId}`);
     }
     this.transports.clear();
+    this.sessionKeys.clear();
     this.connectionCount = 0; // Reset connection count on server stop
 
     // Shutdown session manager if it exists
@@ -739,6 +771,29 @@ export class MCPHttpServer {
     this.mcpServerPool?.notifyToolListChanged();
   }
 
+  /**
+   * Tell sessions subscribed to `obsidian://note/{path}` that the note changed.
+   * Called from vault events; a no-op before the pool exists.
+   */
+  notifyResourceUpdated(path: string): void {
+    this.mcpServerPool?.notifyResourceUpdated(path);
+  }
+
+  /**
+   * Tell live sessions the set of vault resources changed (file created,
+   * deleted or renamed).
+   */
+  notifyResourceListChanged(): void {
+    this.mcpServerPool?.notifyResourceListChanged();
+  }
+
+  /**
+   * Tell live sessions the prompt templates changed.
+   */
+  notifyPromptListChanged(): void {
+    this.mcpServerPool?.notifyPromptListChanged();
+  }
+
   /**
    * Get connection pool statistics
    */
@@ -0,0 +1,216 @@
+/**
+ * Append-only audit log of MCP tool calls and security decisions.
+ *
+ * `VaultSecurityManager` records every allow/block decision and the server
+ * pool records every tool call with its outcome. Each entry names the session
+ * and the API key behind it, taken from the call context the pool opens
+ * around a tool call (`OperationJournal.runInContext`), so a decision made
+ * deep inside `SecureObsidianAPI` is still attributed.
+ *
+ * Entries are written as JSONL to a file the plugin chooses (by default in
+ * the plugin directory, never somewhere Obsidian indexes). The file rotates
+ * at MAX_AUDIT_FILE_BYTES: `audit.jsonl` → `audit.1.jsonl` → … and the
+ * oldest of MAX_AUDIT_FILES is dropped, so the log never grows unbounded.
+ * The most recent entries are also kept in memory for `system.audit`.
+ *
+ * Process-wide singleton like `OperationJournal`: until the plugin attaches
+ * it to a file, `record` is a no-op, which is how the log is switched off.
+ */
+import { OperationJournal } from '../utils/operation-journal';
+import { Debug } from '../utils/debug';
+
+export type AuditOutcome = 'success' | 'error' | 'rate_limited' | 'allowed' | 'blocked';
+
+export interface AuditEntry {
+  timestamp: number;
+  /** A tool call as a whole, or one decision of the security layer within it. */
+  event: 'tool_call' | 'security';
+  sessionId?: string;
+  /** Scoped API key the session authenticated with; absent for the main key. */
+  keyName?: string;
+  /** `tool.action` for a tool call; the operation type for a security decision. */
+  operation: string;
+  path?: string;
+  targetPath?: string;
+  outcome: AuditOutcome;
+  /** Error code or the limit hit, when the outcome is not a plain success. */
+  reason?: string;
+}
+
+export interface AuditQuery {
+  /** A file path, or a folder to match everything below it. */
+  path?: string;
+  sessionId?: string;
+  outcome?: AuditOutcome;
+  limit?: number;
+}
+
+/** Minimal storage surface — Obsidian's `DataAdapter` satisfies it. */
+export interface AuditStore {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  append(path: string, data: string): Promise<void>;
+  rename(path: string, newPath: string): Promise<void>;
+  remove(path: string): Promise<void>;
+  stat(path: string): Promise<{ size: number } | null>;
+  mkdir(path: string): Promise<void>;
+}
+
+/** The live file rotates once it would grow past this. */
+export const MAX_AUDIT_FILE_BYTES = 5 * 1024 * 1024;
+/** Files kept, counting the live one. */
+export const MAX_AUDIT_FILES = 5;
+/** Entries kept in memory for queries. */
+export const MAX_AUDIT_MEMORY_ENTRIES = 1000;
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+/** `logs/audit.jsonl` → `logs/audit.2.jsonl` */
+export function rotatedAuditPath(path: string, generation: number): string {
+  const slash = path.lastIndexOf('/');
+  const dot = path.lastIndexOf('.');
+  return dot > slash + 1
+    ? `${path.slice(0, dot)}.${generation}${path.slice(dot)}`
+    : `${path}.${generation}`;
+}
+
+/**
+ * A custom audit log path from settings, or undefined when it may not be
+ * used. It must sit inside a hidden folder (`.obsidian/…`, `.audit/…`):
+ * anywhere else Obsidian would index the log, and MCP clients could read and
+ * search it as a note. `.` and `..` segments are refused outright, since
+ * `.audit/../Notes/log.md` has a dot folder but lands in a visible one.
+ */
+export function customAuditLogPath(raw: string): string | undefined {
+  const segments = raw.trim().split(/[\\/]+/).filter(segment => segment !== '');
+  if (segments.some(segment => segment === '.' || segment === '..')) return undefined;
+  return segments.slice(0, -1).some(segment => segment.startsWith('.')) ? segments.join('/') : undefined;
+}
+
+export class AuditLog {
+  private static instance: AuditLog;
+
+  private entries: AuditEntry[] = [];
+  private store?: AuditStore;
+  private storePath?: string;
+  private maxFileBytes = MAX_AUDIT_FILE_BYTES;
+  /** Size of the live file as of the last queued write. */
+  private fileBytes = 0;
+  /** Serializes appends and rotations so lines never interleave. */
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  /**
+   * Bind the log to its file and load the newest entries from it.
+   * Unparseable lines (a torn write at shutdown) are skipped, not fatal.
+   */
+  async attach(store: AuditStore, storePath: string, maxFileBytes = MAX_AUDIT_FILE_BYTES): Promise<void> {
+    await this.writeChain;
+    this.store = store;
+    this.storePath = storePath;
+    this.maxFileBytes = maxFileBytes;
+    this.entries = [];
+    this.fileBytes = 0;
+    try {
+      const folder = storePath.slice(0, storePath.lastIndexOf('/'));
+      if (folder && !(await store.exists(folder))) {
+        await store.mkdir(folder);
+      }
+      if (!(await store.exists(storePath))) return;
+      this.fileBytes = (await store.stat(storePath))?.size ?? 0;
+      for (const line of (await store.read(storePath)).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.entries.push(JSON.parse(line) as AuditEntry);
+        } catch {
+          Debug.warn('Skipping unreadable audit log line');
+        }
+      }
+      this.entries = this.entries.slice(-MAX_AUDIT_MEMORY_ENTRIES);
+      Debug.log(`Audit log loaded ${this.entries.length} entries from ${storePath}`);
+    } catch (error) {
+      Debug.warn('Audit log unreadable, starting empty:', error);
+    }
+  }
+
+  async detach(): Promise<void> {
+    await this.writeChain;
+    this.store = undefined;
+    this.storePath = undefined;
+    this.entries = [];
+  }
+
+  isAttached(): boolean {
+    return this.store !== undefined;
+  }
+
+  /**
+   * Append an entry. The session and key default to the current call
+   * context; persisting is queued, the in-memory entry is visible at once.
+   */
+  record(entry: Omit<AuditEntry, 'timestamp'>): void {
+    if (!this.store || !this.storePath) return;
+
+    const context = OperationJournal.currentContext();
+    const full: AuditEntry = {
+      timestamp: Date.now(),
+      sessionId: context?.sessionId,
+      keyName: context?.keyName,
+      ...entry
+    };
+    this.entries.push(full);
+    if (this.entries.length > MAX_AUDIT_MEMORY_ENTRIES) {
+      this.entries.shift();
+    }
+
+    const store = this.store;
+    const storePath = this.storePath;
+    const line = JSON.stringify(full) + '\n';
+    const lineBytes = new TextEncoder().encode(line).length;
+    const rotate = this.fileBytes > 0 && this.fileBytes + lineBytes > this.maxFileBytes;
+    this.fileBytes = (rotate ? 0 : this.fileBytes) + lineBytes;
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        if (rotate) await this.rotate(store, storePath);
+        await store.append(storePath, line);
+      })
+      .catch(error => Debug.warn('Failed to persist audit log entry:', error));
+  }
+
+  /** Wait for queued writes to land (tests, unload). */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  /** Matching entries newest-first, with how many matched in total. */
+  query(filter: AuditQuery = {}): { total: number; entries: AuditEntry[] } {
+    const folder = filter.path?.replace(/\/+$/, '');
+    const matching = this.entries.filter(e =>
+      (folder === undefined || [e.path, e.targetPath].some(p => p !== undefined && (p === folder || p.startsWith(`${folder}/`)))) &&
+      (filter.sessionId === undefined || e.sessionId === filter.sessionId) &&
+      (filter.outcome === undefined || e.outcome === filter.outcome)
+    );
+    const limit = Math.max(1, filter.limit ?? DEFAULT_QUERY_LIMIT);
+    return { total: matching.length, entries: matching.slice(-limit).reverse() };
+  }
+
+  /** Shift every generation up by one, dropping the oldest. */
+  private async rotate(store: AuditStore, storePath: string): Promise<void> {
+    const oldest = rotatedAuditPath(storePath, MAX_AUDIT_FILES - 1);
+    if (await store.exists(oldest)) await store.remove(oldest);
+    for (let generation = MAX_AUDIT_FILES - 2; generation >= 1; generation--) {
+      const from = rotatedAuditPath(storePath, generation);
+      if (await store.exists(from)) await store.rename(from, rotatedAuditPath(storePath, generation + 1));
+    }
+    if (await store.exists(storePath)) await store.rename(storePath, rotatedAuditPath(storePath, 1));
+  }
+}
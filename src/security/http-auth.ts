@@ -1,4 +1,5 @@
 import { createHash, timingSafeEqual } from 'crypto';
+import type { SecurityScope } from './vault-security-manager';
 
 /**
  * The HTTP auth decision, extracted from the express middleware so it can be
@@ -13,8 +14,22 @@ import { createHash, timingSafeEqual } from 'crypto';
  * object.
  */
 
+/**
+ * A named API key with its own reach. Sessions opened with it are bound to it,
+ * and its scope is enforced by VaultSecurityManager on top of the global
+ * settings — so it can narrow what the main key may do, never widen it.
+ */
+export interface ApiKeyScope extends SecurityScope {
+  /** Unique; identifies the key in logs, session info and session binding. */
+  name: string;
+  key: string;
+  /** Same shape as the global tool visibility; only `false` entries apply. */
+  toolVisibility?: Record<string, boolean>;
+}
+
 export type AuthDecision =
   | { allow: true; reason: 'preflight' | 'auth-disabled' | 'no-key-configured' | 'authenticated' }
+  | { allow: true; reason: 'scoped-key'; scope: ApiKeyScope }
   | { allow: false; status: 401; error: string; reason: 'missing-header' | 'bad-format' | 'bad-key' };
 
 export interface AuthInput {
@@ -22,6 +37,8 @@ export interface AuthInput {
   authHeader?: string;
   /** The configured key. Empty/undefined means no key is configured. */
   apiKey?: string;
+  /** Named keys with their own scope (settings.scopedApiKeys). */
+  scopedKeys?: ApiKeyScope[];
   /** settings.dangerouslyDisableAuth */
   authDisabled?: boolean;
 }
@@ -57,7 +74,9 @@ export function authorizeRequest(input: AuthInput): AuthDecision {
   }
 
   const apiKey = input.apiKey;
-  if (!apiKey) {
+  // A scoped key with an empty secret would match an empty credential.
+  const scopedKeys = (input.scopedKeys ?? []).filter(scope => scope.key);
+  if (!apiKey && scopedKeys.length === 0) {
     // Deliberate fail-open, retained for backward compatibility: a vault with no
     // configured key accepts unauthenticated requests. Contained by loopback
     // binding in the default configuration, and NOT contained if binding is
@@ -70,15 +89,29 @@ export function authorizeRequest(input: AuthInput): AuthDecision {
     return { allow: false, status: 401, error: 'Authentication required', reason: 'missing-header' };
   }
 
-  if (input.authHeader.startsWith('Bearer ')) {
-    const token = input.authHeader.slice(7);
-    return secretsMatch(token, apiKey)
-      ? { allow: true, reason: 'authenticated' }
-      : { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-key' };
+  const credential = extractCredential(input.authHeader);
+  if (credential === null) {
+    return { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-format' };
+  }
+
+  if (apiKey && secretsMatch(credential, apiKey)) {
+    return { allow: true, reason: 'authenticated' };
+  }
+  const scope = scopedKeys.find(candidate => secretsMatch(credential, candidate.key));
+  if (scope) {
+    return { allow: true, reason: 'scoped-key', scope };
+  }
+  return { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-key' };
+}
+
+/** The key carried by a Bearer or Basic header, or null for any other shape. */
+function extractCredential(authHeader: string): string | null {
+  if (authHeader.startsWith('Bearer ')) {
+    return authHeader.slice(7);
   }
 
-  if (input.authHeader.startsWith('Basic ')) {
-    const decoded = Buffer.from(input.authHeader.slice(6), 'base64').toString('utf8');
+  if (authHeader.startsWith('Basic ')) {
+    const decoded = Buffer.from(authHeader.slice(6), 'base64').toString('utf8');
     const sep = decoded.indexOf(':');
     // RFC 7617 requires the colon. Rejecting a credential without one also keeps
     // parity with the previous implementation, whose destructuring yielded
@@ -86,16 +119,56 @@ export function authorizeRequest(input: AuthInput): AuthDecision {
     // would treat the ENTIRE decoded string as the password, widening the
     // accepted credential encodings for no reason.
     if (sep === -1) {
-      return { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-format' };
+      return null;
     }
     // Only the password carries the key; the username is ignored, which is what
     // lets `curl -u anything:KEY` work. Slicing after the FIRST colon (rather
     // than splitting on every one) keeps a key that itself contains a colon.
-    const password = decoded.slice(sep + 1);
-    return secretsMatch(password, apiKey)
-      ? { allow: true, reason: 'authenticated' }
-      : { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-key' };
+    return decoded.slice(sep + 1);
   }
 
-  return { allow: false, status: 401, error: 'Invalid API key', reason: 'bad-format' };
+  return null;
+}
+
+const PERMISSION_NAMES = ['read', 'create', 'update', 'delete', 'move', 'rename', 'execute'] as const;
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Normalise `scopedApiKeys` as loaded from data.json, which is hand-editable.
+ *
+ * Fails closed: a permission is granted only by a literal `true`, and only
+ * `false` tool-visibility entries are kept (a key can hide tools, not show
+ * them). Entries without a name or key are dropped, as is any entry whose
+ * name repeats an earlier one — sessions are bound to a key by name.
+ */
+export function normalizeScopedKeys(raw: unknown): ApiKeyScope[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const keys: ApiKeyScope[] = [];
+  for (const item of raw) {
+    if (typeof item !== 'object' || item === null) continue;
+    const entry = item as Record<string, unknown>;
+    if (typeof entry.name !== 'string' || !entry.name.trim() || typeof entry.key !== 'string' || !entry.key) continue;
+    if (seen.has(entry.name)) continue;
+    seen.add(entry.name);
+
+    const permissions = (entry.permissions ?? {}) as Record<string, unknown>;
+    const toolVisibility = typeof entry.toolVisibility === 'object' && entry.toolVisibility !== null
+      ? Object.fromEntries(Object.entries(entry.toolVisibility).filter(([, v]) => v === false)) as Record<string, boolean>
+      : {};
+    keys.push({
+      name: entry.name,
+      key: entry.key,
+      permissions: Object.fromEntries(
+        PERMISSION_NAMES.map(name => [name, permissions[name] === true])
+      ) as ApiKeyScope['permissions'],
+      readOnly: entry.readOnly === true,
+      allowedPaths: stringList(entry.allowedPaths),
+      blockedPaths: stringList(entry.blockedPaths),
+      toolVisibility
+    });
+  }
+  return keys;
 }
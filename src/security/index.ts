@@ -10,6 +10,7 @@ export {
 	OperationType,
 	DEFAULT_SECURITY_SETTINGS,
 	type SecuritySettings,
+	type SecurityScope,
 	type VaultOperation,
 	type ValidatedOperation
 } from './vault-security-manager';
@@ -18,6 +19,14 @@ export {
 	SecureObsidianAPI
 } from './secure-obsidian-api';
 
+export {
+	RateLimiter,
+	DEFAULT_RATE_LIMITS,
+	normalizeRateLimits,
+	type RateLimits,
+	type RateLimitUsage
+} from './rate-limiter';
+
 export {
 	validateOutboundUrl,
 	isBlockedAddress,
@@ -25,6 +25,7 @@ export class MCPIgnoreManager {
   private rules: IgnoreRule[] = [];
   private isEnabled: boolean = false;
   private lastModified: number = 0;
+  private listeners: Array<() => void> = [];
 
   constructor(app: App) {
     this.app = app;
@@ -38,9 +39,22 @@ export class MCPIgnoreManager {
     this.isEnabled = enabled;
     if (enabled) {
       void this.loadIgnoreFile();
+    } else {
+      this.notifyChange();
     }
   }
 
+  /**
+   * Register a callback for whenever the effective exclusions may have changed
+   * (rules reloaded, exclusions switched on or off). Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
   /**
    * Check if path exclusions are enabled
    */
@@ -75,6 +89,17 @@ export class MCPIgnoreManager {
       this.lastModified = 0;
       Debug.log('MCPIgnore: No .mcpignore file found, no exclusions active');
     }
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        Debug.warn('MCPIgnore: change listener failed:', error);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,182 @@
+/**
+ * Quotas on MCP tool calls, enforced when `SecuritySettings.rateLimitEnabled`
+ * is on.
+ *
+ * Usage is counted per subject — one subject per session and one per API key,
+ * so a client cannot reset its budget by opening a new session. Each budget is
+ * a sliding window over the events charged to a subject:
+ *
+ *   callsPerMinute       every tool call
+ *   bytesWrittenPerHour  content written to the vault
+ *   deletesPerHour       files deleted
+ *
+ * A tool call is charged when it arrives; its writes and deletes are charged
+ * one by one as SecureObsidianAPI performs them, so a refusal lands on the
+ * write that would cross the budget. Each charge is checked against every
+ * subject before anything is counted, and a refused charge counts nothing,
+ * so a client that waits out `retryAfterMs` gets through.
+ *
+ * Pure bookkeeping: no plugin, no I/O. The limits are passed on each call so
+ * an edit in settings applies to the next call (ADR-108).
+ */
+
+import { SecurityError } from './path-validator';
+
+export interface RateLimits {
+  /** 0 disables the budget. */
+  callsPerMinute: number;
+  bytesWrittenPerHour: number;
+  deletesPerHour: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  callsPerMinute: 120,
+  bytesWrittenPerHour: 10 * 1024 * 1024,
+  deletesPerHour: 100
+};
+
+/** What one charge adds to its subjects' usage. */
+export interface RateLimitCost {
+  /** Tool calls; default 1. A write charged inside a call passes 0. */
+  calls?: number;
+  bytesWritten: number;
+  deletes: number;
+}
+
+export interface RateLimitUsage {
+  callsLastMinute: number;
+  bytesWrittenLastHour: number;
+  deletesLastHour: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | {
+    allowed: false;
+    subject: string;
+    limit: keyof RateLimits;
+    max: number;
+    /** Until enough of the window has expired for this call to fit. */
+    retryAfterMs: number;
+  };
+
+/**
+ * A write refused because it would exceed a budget, thrown from inside the
+ * tool call so the write never happens. Surfaces as RATE_LIMITED, like a
+ * call refused on arrival.
+ */
+export class RateLimitError extends SecurityError {
+  constructor(
+    message: string,
+    public details: { scope: 'session' | 'apiKey'; limit: keyof RateLimits; max: number; retryAfter: number }
+  ) {
+    super(message, 'RATE_LIMITED');
+    this.name = 'RateLimitError';
+  }
+}
+
+interface UsageEvent {
+  at: number;
+  amount: number;
+}
+
+type Counter = 'calls' | 'bytes' | 'deletes';
+
+const BUDGETS: ReadonlyArray<{ limit: keyof RateLimits; counter: Counter; windowMs: number }> = [
+  { limit: 'callsPerMinute', counter: 'calls', windowMs: 60_000 },
+  { limit: 'bytesWrittenPerHour', counter: 'bytes', windowMs: 3_600_000 },
+  { limit: 'deletesPerHour', counter: 'deletes', windowMs: 3_600_000 }
+];
+
+/**
+ * Coerce limits loaded from data.json. Anything that is not a non-negative
+ * number falls back to the default rather than to 0, which would switch the
+ * budget off.
+ */
+export function normalizeRateLimits(raw: unknown): RateLimits {
+  const source = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const key of Object.keys(DEFAULT_RATE_LIMITS) as Array<keyof RateLimits>) {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      limits[key] = Math.floor(value);
+    }
+  }
+  return limits;
+}
+
+export class RateLimiter {
+  private usage: Map<string, Record<Counter, UsageEvent[]>> = new Map();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Charge `cost` to every subject, or refuse it on the first budget any
+   * subject would exceed.
+   */
+  consume(subjects: string[], cost: RateLimitCost, limits: RateLimits): RateLimitDecision {
+    const now = this.now();
+    const amounts: Record<Counter, number> = { calls: cost.calls ?? 1, bytes: cost.bytesWritten, deletes: cost.deletes };
+
+    for (const subject of subjects) {
+      const events = this.prune(subject, now);
+      for (const { limit, counter, windowMs } of BUDGETS) {
+        const max = limits[limit];
+        const amount = amounts[counter];
+        if (max <= 0 || amount <= 0) continue;
+
+        let used = events[counter].reduce((sum, e) => sum + e.amount, 0);
+        if (used + amount <= max) continue;
+
+        // Walk the window oldest-first until enough has expired. A call larger
+        // than the whole budget never fits; it is told to wait a full window.
+        let retryAfterMs = windowMs;
+        for (const event of events[counter]) {
+          used -= event.amount;
+          if (used + amount <= max) {
+            retryAfterMs = event.at + windowMs - now;
+            break;
+          }
+        }
+        return { allowed: false, subject, limit, max, retryAfterMs: Math.max(retryAfterMs, 1) };
+      }
+    }
+
+    for (const subject of subjects) {
+      const events = this.prune(subject, now);
+      for (const counter of Object.keys(amounts) as Counter[]) {
+        if (amounts[counter] > 0) events[counter].push({ at: now, amount: amounts[counter] });
+      }
+    }
+    return { allowed: true };
+  }
+
+  getUsage(subject: string): RateLimitUsage {
+    const events = this.prune(subject, this.now());
+    const total = (counter: Counter) => events[counter].reduce((sum, e) => sum + e.amount, 0);
+    return {
+      callsLastMinute: total('calls'),
+      bytesWrittenLastHour: total('bytes'),
+      deletesLastHour: total('deletes')
+    };
+  }
+
+  /** Drop a subject's history, e.g. when its session ends. */
+  forget(subject: string): void {
+    this.usage.delete(subject);
+  }
+
+  private prune(subject: string, now: number): Record<Counter, UsageEvent[]> {
+    let events = this.usage.get(subject);
+    if (!events) {
+      events = { calls: [], bytes: [], deletes: [] };
+      this.usage.set(subject, events);
+    }
+    for (const { counter, windowMs } of BUDGETS) {
+      const cutoff = now - windowMs;
+      const firstLive = events[counter].findIndex(e => e.at > cutoff);
+      events[counter] = firstLive === -1 ? [] : events[counter].slice(firstLive);
+    }
+    return events;
+  }
+}
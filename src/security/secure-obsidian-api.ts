@@ -1,15 +1,19 @@
-import { App } from 'obsidian';
-import { ObsidianAPI, PatchParams } from '../utils/obsidian-api';
+import { App, TFile, TFolder } from 'obsidian';
+import { ObsidianAPI, PatchParams, WriteKind } from '../utils/obsidian-api';
 import {
 	VaultSecurityManager,
 	OperationType,
 	SecuritySettings,
-	SecurityLogEntry
+	SecurityScope,
+	SecurityLogEntry,
+	VaultOperation
 } from './vault-security-manager';
 import { MCPIgnoreManager } from './mcp-ignore-manager';
 import { ObsidianConfig, ObsidianFile, ObsidianFileResponse } from '../types/obsidian';
 import { BaseYAML } from '../types/bases-yaml';
 import { Debug } from '../utils/debug';
+import { OperationJournal, JournalOperationType, isJournaledText } from '../utils/operation-journal';
+import type { RateLimitCost } from './rate-limiter';
 
 /** Minimal plugin interface for security-relevant properties.
  * Includes ObsidianAPIPluginRef fields so the same object can be passed to the base class. */
@@ -25,14 +29,33 @@ interface SecurePluginRef {
 	manifest?: { dir?: string };
 }
 
+const WRITE_OPERATIONS: Record<WriteKind, OperationType> = {
+	create: OperationType.CREATE,
+	update: OperationType.UPDATE,
+	delete: OperationType.DELETE,
+	move: OperationType.MOVE,
+	rename: OperationType.RENAME,
+};
+
 /**
  * Secure wrapper for ObsidianAPI that enforces path validation and operation permissions
  * This class intercepts all file operations and validates them through the security manager
  */
 export class SecureObsidianAPI extends ObsidianAPI {
 	private security: VaultSecurityManager;
+	private writeMeter?: (cost: RateLimitCost) => void;
 
-	constructor(app: App, config?: ObsidianConfig, plugin?: SecurePluginRef, securitySettings?: Partial<SecuritySettings>) {
+	/**
+	 * @param scope - Live scope of a session opened with a scoped API key;
+	 *   omitted for the main key.
+	 */
+	constructor(
+		app: App,
+		config?: ObsidianConfig,
+		plugin?: SecurePluginRef,
+		securitySettings?: Partial<SecuritySettings>,
+		scope?: () => SecurityScope
+	) {
 		super(app, config, plugin);
 
 		// Initialize security manager with provided or default settings
@@ -59,7 +82,7 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			);
 		}
 
-		this.security = new VaultSecurityManager(app, settings, ignoreManager, isReadOnly);
+		this.security = new VaultSecurityManager(app, settings, ignoreManager, isReadOnly, scope);
 		
 		Debug.log('🔐 SecureObsidianAPI initialized with security settings:', this.security.getSettings());
 		Debug.log('🔐 SecureObsidianAPI has ignoreManager:', !!ignoreManager);
@@ -77,28 +100,29 @@ export class SecureObsidianAPI extends ObsidianAPI {
 		return super.getFile(validated.path!);
 	}
 
+	// A listed directory is validated like any other path, so an ignored or
+	// out-of-scope folder is refused (and audited) rather than listed as empty.
+	// The vault root is no path a key's scope names, so it is checked for the
+	// permission only. Either way the base API drops each path isReadable
+	// refuses, so a key scoped to `Daily/*` listing the root sees just its own notes.
 	async listFiles(directory?: string): Promise<string[]> {
-		const validated = await this.security.validateOperation({
-			type: OperationType.READ,
-			path: directory || '.',
-			context: { method: 'listFiles' }
-		});
-
-		// Use validated path if directory was provided, undefined for vault root
-		const listPath = !validated.path || validated.path === '.' ? undefined : validated.path;
-		return super.listFiles(listPath);
+		return super.listFiles(await this.validateListing(directory, { method: 'listFiles' }));
 	}
 
 	async listFilesPaginated(directory?: string, page: number = 1, pageSize: number = 20, recursive: boolean = false): ReturnType<ObsidianAPI['listFilesPaginated']> {
+		const listPath = await this.validateListing(directory, { method: 'listFilesPaginated', page, pageSize, recursive });
+		return super.listFilesPaginated(listPath, page, pageSize, recursive);
+	}
+
+	/** The validated directory to list, or undefined for the vault root. */
+	private async validateListing(directory: string | undefined, context: VaultOperation['context']): Promise<string | undefined> {
+		const root = !directory || directory === '.';
 		const validated = await this.security.validateOperation({
 			type: OperationType.READ,
-			path: directory || '.',
-			context: { method: 'listFilesPaginated', page, pageSize, recursive }
+			...(root ? {} : { path: directory }),
+			context
 		});
-
-		// Use validated path if directory was provided, undefined for vault root
-		const listPath = !validated.path || validated.path === '.' ? undefined : validated.path;
-		return super.listFilesPaginated(listPath, page, pageSize, recursive);
+		return root ? undefined : validated.path;
 	}
 
 	async getActiveFile(): Promise<ObsidianFile> {
@@ -122,8 +146,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			path: path,
 			context: { method: 'createFile', contentSize: content.length }
 		});
-		
-		return super.createFile(validated.path!, content);
+		this.chargeWrite(content);
+
+		return this.journaled('create', validated.path!, () => super.createFile(validated.path!, content));
 	}
 
 	// Note: createFolder doesn't exist in base ObsidianAPI
@@ -137,8 +162,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			path: path,
 			context: { method: 'updateFile', contentSize: content.length }
 		});
-		
-		return super.updateFile(validated.path!, content);
+		this.chargeWrite(content);
+
+		return this.journaled('update', validated.path!, () => super.updateFile(validated.path!, content));
 	}
 
 	async appendToFile(path: string, content: string): ReturnType<ObsidianAPI['appendToFile']> {
@@ -147,8 +173,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			path: path,
 			context: { method: 'appendToFile', contentSize: content.length }
 		});
-		
-		return super.appendToFile(validated.path!, content);
+		this.chargeWrite(content);
+
+		return this.journaled('append', validated.path!, () => super.appendToFile(validated.path!, content));
 	}
 
 	async patchVaultFile(path: string, params: PatchParams): ReturnType<ObsidianAPI['patchVaultFile']> {
@@ -157,8 +184,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			path: path,
 			context: { method: 'patchVaultFile', params }
 		});
-		
-		return super.patchVaultFile(validated.path!, params);
+		this.chargeWrite([params.content, params.new_text, params.text].filter(text => text !== undefined).join(''));
+
+		return this.journaled('patch', validated.path!, () => super.patchVaultFile(validated.path!, params));
 	}
 
 	// File Operations - DELETE
@@ -169,8 +197,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			path: path,
 			context: { method: 'deleteFile' }
 		});
-		
-		return super.deleteFile(validated.path!);
+		this.chargeDelete();
+
+		return this.journaled('delete', validated.path!, () => super.deleteFile(validated.path!));
 	}
 
 	// File Operations - MOVE / RENAME
@@ -195,7 +224,7 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			context: { method: 'renameFile' }
 		});
 
-		return super.renameFile(validated.path!, validated.targetPath!);
+		return this.journaled('rename', validated.path!, () => super.renameFile(validated.path!, validated.targetPath!), validated.targetPath);
 	}
 
 	async moveFile(path: string, newPath: string): ReturnType<ObsidianAPI['moveFile']> {
@@ -206,7 +235,48 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			context: { method: 'moveFile' }
 		});
 
-		return super.moveFile(validated.path!, validated.targetPath!);
+		return this.journaled('move', validated.path!, () => super.moveFile(validated.path!, validated.targetPath!), validated.targetPath);
+	}
+
+	/**
+	 * Meter the writes and deletes this API performs, e.g. against the
+	 * session's rate limits. The meter throws to refuse one; it is called after
+	 * validation and before the vault is touched, so a refused write changes
+	 * nothing. A dry run never reaches it, nor do writes made in an `unmetered`
+	 * call context.
+	 */
+	setWriteMeter(meter: ((cost: RateLimitCost) => void) | undefined): void {
+		this.writeMeter = meter;
+	}
+
+	private chargeWrite(content: string): void {
+		if (OperationJournal.currentContext()?.unmetered) return;
+		this.writeMeter?.({ calls: 0, bytesWritten: new TextEncoder().encode(content).length, deletes: 0 });
+	}
+
+	private chargeDelete(): void {
+		if (OperationJournal.currentContext()?.unmetered) return;
+		this.writeMeter?.({ calls: 0, bytesWritten: 0, deletes: 1 });
+	}
+
+	/** Whether getFile(path) would pass validation (see VaultSecurityManager.isReadable). */
+	isReadable(path: string): boolean {
+		return this.security.isReadable(path);
+	}
+
+	/**
+	 * The same validation the write methods above run, for a write that is
+	 * only previewed (`dryRun`), so a preview fails wherever the real call
+	 * would: read-only key, missing permission, blocked, out-of-scope or
+	 * ignored path.
+	 */
+	async checkWrite(type: WriteKind, path: string, targetPath?: string): Promise<void> {
+		await this.security.validateOperation({
+			type: WRITE_OPERATIONS[type],
+			path,
+			targetPath,
+			context: { method: 'checkWrite' }
+		});
 	}
 
 	/**
@@ -249,7 +319,7 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			context: { method: 'createBase' }
 		});
 
-		return super.createBase(validated.path!, config);
+		return this.journaled('create', validated.path!, () => super.createBase(validated.path!, config));
 	}
 
 	// Active-file writes
@@ -264,8 +334,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			type: OperationType.UPDATE,
 			context: { method: 'updateActiveFile', contentSize: content.length }
 		});
+		this.chargeWrite(content);
 
-		return super.updateActiveFile(content);
+		return this.journaledActive('update', () => super.updateActiveFile(content));
 	}
 
 	async appendToActiveFile(content: string): ReturnType<ObsidianAPI['appendToActiveFile']> {
@@ -273,8 +344,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			type: OperationType.UPDATE,
 			context: { method: 'appendToActiveFile', contentSize: content.length }
 		});
+		this.chargeWrite(content);
 
-		return super.appendToActiveFile(content);
+		return this.journaledActive('append', () => super.appendToActiveFile(content));
 	}
 
 	async deleteActiveFile(): ReturnType<ObsidianAPI['deleteActiveFile']> {
@@ -282,8 +354,9 @@ export class SecureObsidianAPI extends ObsidianAPI {
 			type: OperationType.DELETE,
 			context: { method: 'deleteActiveFile' }
 		});
+		this.chargeDelete();
 
-		return super.deleteActiveFile();
+		return this.journaledActive('delete', () => super.deleteActiveFile());
 	}
 
 	// File Operations - OPEN
@@ -317,6 +390,48 @@ export class SecureObsidianAPI extends ObsidianAPI {
 	// - combineMergeFiles(), splitFile()
 	// They would need to be implemented in the base class first
 
+	// Operation journal
+	//
+	// Every write above runs through journaled() after validation passes, so a
+	// denied write is never journaled and the journal holds exactly the changes
+	// that reached the vault. Content is read straight off the vault rather than
+	// through getFile(), which would re-enter validation and shape images.
+	// Folders and binary files are journaled without content.
+
+	private async journalContent(path: string): Promise<string | null> {
+		if (!isJournaledText(path)) return null;
+		const vault = this.getApp().vault;
+		const file = vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? vault.read(file) : null;
+	}
+
+	private async journaled<T>(
+		type: JournalOperationType,
+		path: string,
+		run: () => Promise<T>,
+		targetPath?: string
+	): Promise<T> {
+		const journal = OperationJournal.getInstance();
+		if (!journal.isAttached()) return run();
+
+		const folder = this.getApp().vault.getAbstractFileByPath(path) instanceof TFolder;
+		const before = await this.journalContent(path);
+		const result = await run();
+		// A move/rename can land somewhere other than the requested path (the
+		// base class reports it as newPath), and its content is read there.
+		const movedTo = targetPath !== undefined
+			? (result as { newPath?: string } | undefined)?.newPath ?? targetPath
+			: undefined;
+		const after = await this.journalContent(movedTo ?? path);
+		journal.record({ type, path, targetPath: movedTo, folder: folder || undefined, before, after });
+		return result;
+	}
+
+	private async journaledActive<T>(type: JournalOperationType, run: () => Promise<T>): Promise<T> {
+		const active = this.getApp().workspace.getActiveFile();
+		return active ? this.journaled(type, active.path, run) : run();
+	}
+
 	// Security Management Methods
 
 	/**
@@ -2,6 +2,8 @@ import { App } from 'obsidian';
 import { SecurePathValidator, SecurityError, ValidatedPath } from './path-validator';
 import { Debug } from '../utils/debug';
 import { MCPIgnoreManager } from './mcp-ignore-manager';
+import type { RateLimits } from './rate-limiter';
+import { AuditLog } from './audit-log';
 
 /**
  * Operation types matching CRUD + special operations
@@ -47,9 +49,25 @@ export interface SecuritySettings {
 	logSecurityEvents: boolean;
 	notifyOnBlocked: boolean;
 	rateLimitEnabled?: boolean;
+	/** Quotas on tool calls while rateLimitEnabled; enforced by MCPServerPool. */
+	rateLimits?: Partial<RateLimits>;
 	sandboxMode?: string; // Restrict to specific folder
 }
 
+/**
+ * Restrictions layered on top of the settings for one caller — a scoped API
+ * key (see http-auth.ts). A scope can only narrow: it never grants what the
+ * settings or read-only mode deny.
+ */
+export interface SecurityScope {
+	permissions: SecuritySettings['permissions'];
+	/** Deny every operation but READ, like read-only mode. */
+	readOnly?: boolean;
+	/** If non-empty, every path must match one of these patterns. */
+	allowedPaths?: string[];
+	blockedPaths?: string[];
+}
+
 /**
  * Default security settings - secure by default
  */
@@ -113,6 +131,7 @@ export class VaultSecurityManager {
 	private readonly maxLogEntries = 1000;
 	private ignoreManager?: MCPIgnoreManager;
 	private isReadOnly?: () => boolean;
+	private scope?: () => SecurityScope;
 
 	/**
 	 * @param isReadOnly - Live read-only predicate, consulted per call (ADR-108).
@@ -123,17 +142,22 @@ export class VaultSecurityManager {
 	 *   Session-scoped API instances are closure-captured with no registry to
 	 *   push updates to, so pulling from one live source is the only design that
 	 *   cannot miss an instance.
+	 * @param scope - Live scope of the caller (a scoped API key), consulted per
+	 *   call for the same reason as isReadOnly: editing or revoking a key must
+	 *   reach sessions that already exist.
 	 */
 	constructor(
 		app: App,
 		settings: Partial<SecuritySettings> = {},
 		ignoreManager?: MCPIgnoreManager,
-		isReadOnly?: () => boolean
+		isReadOnly?: () => boolean,
+		scope?: () => SecurityScope
 	) {
 		this.validator = new SecurePathValidator(app);
 		this.settings = { ...DEFAULT_SECURITY_SETTINGS, ...settings };
 		this.ignoreManager = ignoreManager;
 		this.isReadOnly = isReadOnly;
+		this.scope = scope;
 		Debug.log(`VaultSecurityManager initialized with ignoreManager: ${!!ignoreManager}`);
 	}
 
@@ -261,6 +285,18 @@ export class VaultSecurityManager {
 		}
 	}
 
+	/**
+	 * Whether a READ of `path` would pass validateOperation, without throwing or
+	 * logging: for listings and vault-wide results, which must not show the
+	 * caller a note it could not open.
+	 */
+	isReadable(path: string): boolean {
+		if (!this.isOperationAllowed(OperationType.READ)) return false;
+		if (this.settings.pathValidation === 'disabled') return true;
+		if (this.isPathBlocked(path) || !this.isPathAllowed(path)) return false;
+		return !this.settings.sandboxMode || path.startsWith(this.settings.sandboxMode);
+	}
+
 	/**
 	 * Checks if an operation type is allowed
 	 */
@@ -274,8 +310,19 @@ export class VaultSecurityManager {
 			return false;
 		}
 
-		const perms = this.settings.permissions;
+		// Scoped API key: narrows, never widens, the settings below.
+		const scope = this.scope?.();
+		if (scope && ((scope.readOnly && type !== OperationType.READ) || !this.permits(scope.permissions, type))) {
+			return false;
+		}
 
+		return this.permits(this.settings.permissions, type);
+	}
+
+	/**
+	 * Whether a permission set allows an operation type
+	 */
+	private permits(perms: SecuritySettings['permissions'], type: OperationType): boolean {
 		switch (type) {
 			case OperationType.READ:
 				return perms.read;
@@ -321,6 +368,11 @@ export class VaultSecurityManager {
 			}
 		}
 
+		if (this.scope?.().blockedPaths?.some(pattern => this.matchesPattern(path, pattern))) {
+			Debug.log(`Path blocked by API key scope: ${path}`);
+			return true;
+		}
+
 		// Then check blockedPaths setting
 		Debug.log(`🔍 blockedPaths check - array: ${JSON.stringify(this.settings.blockedPaths)}`);
 		if (!this.settings.blockedPaths || this.settings.blockedPaths.length === 0) {
@@ -340,6 +392,11 @@ export class VaultSecurityManager {
 	 * Checks if a path is in the allowed list (if specified)
 	 */
 	private isPathAllowed(path: string): boolean {
+		const scoped = this.scope?.().allowedPaths;
+		if (scoped && scoped.length > 0 && !scoped.some(pattern => this.matchesPattern(path, pattern))) {
+			return false;
+		}
+
 		// If no allowed paths specified, all paths are allowed
 		if (!this.settings.allowedPaths || this.settings.allowedPaths.length === 0) {
 			return true;
@@ -393,6 +450,17 @@ export class VaultSecurityManager {
 		reason?: string,
 		error?: string
 	): void {
+		// The persistent audit log is switched by attaching it, not by this
+		// instance's settings (the session ruleset is the permissive baseline).
+		AuditLog.getInstance().record({
+			event: 'security',
+			operation: operation.type,
+			path: operation.path,
+			targetPath: operation.targetPath,
+			outcome: result,
+			reason
+		});
+
 		if (!this.settings.logSecurityEvents) return;
 
 		const entry: SecurityLogEntry = {
@@ -0,0 +1,48 @@
+/**
+ * system.audit — query the security audit log (`security/audit-log.ts`).
+ *
+ * The log names every session and key and what each was refused, so it is
+ * for whoever administers the vault: only a session on the main API key may
+ * read it. A scoped key is refused even when its scope permits reads, since
+ * what a scope narrows is vault paths, not this.
+ */
+import { AuditLog, AuditOutcome } from '../../security/audit-log';
+import { OperationJournal } from '../../utils/operation-journal';
+import { Params, OperationError, paramStr, paramNum } from './shared';
+
+const OUTCOMES: readonly AuditOutcome[] = ['success', 'error', 'rate_limited', 'allowed', 'blocked'];
+
+export function executeAudit(params: Params): unknown {
+  const keyName = OperationJournal.currentContext()?.keyName;
+  if (keyName !== undefined) {
+    throw new OperationError(
+      `system.audit is only available to the main API key (this session uses key "${keyName}").`,
+      'ADMIN_ONLY'
+    );
+  }
+
+  const log = AuditLog.getInstance();
+  if (!log.isAttached()) {
+    throw new OperationError(
+      'system.audit is unavailable: the audit log is not enabled in the security settings.',
+      'AUDIT_UNAVAILABLE'
+    );
+  }
+
+  const outcome = paramStr(params, 'outcome');
+  if (outcome !== undefined && !OUTCOMES.includes(outcome as AuditOutcome)) {
+    throw new Error(`system.audit: unknown outcome '${outcome}'. Use one of: ${OUTCOMES.join(', ')}.`);
+  }
+
+  const { total, entries } = log.query({
+    path: paramStr(params, 'path'),
+    sessionId: paramStr(params, 'sessionId'),
+    outcome: outcome as AuditOutcome | undefined,
+    limit: paramNum(params, 'limit'),
+  });
+
+  return {
+    total,
+    entries: entries.map(e => ({ ...e, timestamp: new Date(e.timestamp).toISOString() })),
+  };
+}
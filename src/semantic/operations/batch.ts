@@ -0,0 +1,259 @@
+/**
+ * edit.batch — an ordered list of edit/vault steps applied all-or-nothing.
+ *
+ * Each step on its own commits immediately, so a multi-note refactor that
+ * fails on note 9 of 15 used to leave the vault half-migrated. A batch takes
+ * the file lock (#139) for every path any step touches before the first step
+ * runs, snapshots each path just before the step that changes it, and on the
+ * first failure undoes the completed steps newest-first: moves and renames
+ * are moved back (so Obsidian rewrites links back as well), then every
+ * snapshot is restored. The caller gets one combined result either way.
+ */
+import { isImageFile } from '../../types/obsidian';
+import { FileLockManager } from '../../utils/file-lock';
+import { Debug } from '../../utils/debug';
+import { OperationJournal } from '../../utils/operation-journal';
+import { RouterContext } from './router-context';
+import { applyEditAction } from './edit';
+import { executeVaultOperation, resolveRenamePath } from './vault';
+import { Params, OperationError, paramStr } from './shared';
+
+/** Actions a batch may contain; everything here is undoable from a snapshot. */
+const BATCHABLE_ACTIONS: Record<string, readonly string[]> = {
+  edit: ['window', 'append', 'patch', 'at_line'],
+  vault: ['create', 'update', 'delete', 'move', 'rename'],
+};
+
+interface BatchStep {
+  operation: 'edit' | 'vault';
+  action: string;
+  params: Params;
+  /** Every path the step reads or writes; the first is the step's own `path`. */
+  paths: string[];
+}
+
+/** A path's content before a step ran; `null` means it did not exist. */
+interface Snapshot {
+  path: string;
+  content: string | null;
+}
+
+interface CompletedStep {
+  step: BatchStep;
+  snapshots: Snapshot[];
+  /** Set for move/rename: where the file went, so undo can move it back. */
+  relocation?: { from: string; to: string };
+}
+
+function describe(step: BatchStep, index: number): string {
+  return `step ${index + 1} (${step.operation}.${step.action} on ${step.paths[0]})`;
+}
+
+/**
+ * Validate the `operations` param into steps, resolving every path each
+ * step will touch so all locks can be taken before anything runs.
+ */
+function parseSteps(ctx: RouterContext, params: Params): BatchStep[] {
+  const raw = params.operations;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(
+      "edit.batch requires 'operations' (non-empty array of {operation, action, params})."
+    );
+  }
+  const maxSteps = ctx.validator.getConfig().maxBatchSize;
+  if (raw.length > maxSteps) {
+    throw new Error(`edit.batch has ${raw.length} operations; the maximum is ${maxSteps}.`);
+  }
+
+  return raw.map((entry: unknown, i: number): BatchStep => {
+    const item = (typeof entry === 'object' && entry !== null ? entry : {}) as Params;
+    const operation = paramStr(item, 'operation');
+    const action = paramStr(item, 'action');
+    if (!operation || !action || !BATCHABLE_ACTIONS[operation]?.includes(action)) {
+      const allowed = Object.entries(BATCHABLE_ACTIONS)
+        .flatMap(([op, actions]) => actions.map(a => `${op}.${a}`))
+        .join(', ');
+      throw new Error(
+        `edit.batch operation ${i + 1} is ${operation ?? '?'}.${action ?? '?'}; batchable actions are: ${allowed}.`
+      );
+    }
+
+    const stepParams = (typeof item.params === 'object' && item.params !== null ? item.params : {}) as Params;
+    const path = paramStr(stepParams, 'path');
+    if (!path) {
+      throw new Error(`edit.batch operation ${i + 1} (${operation}.${action}) requires params.path.`);
+    }
+
+    const paths = [path];
+    if (action === 'move') {
+      const destination = paramStr(stepParams, 'destination');
+      if (!destination) {
+        throw new Error(`edit.batch operation ${i + 1} (vault.move) requires params.destination.`);
+      }
+      paths.push(destination);
+    } else if (action === 'rename') {
+      const newName = paramStr(stepParams, 'newName');
+      if (!newName) {
+        throw new Error(`edit.batch operation ${i + 1} (vault.rename) requires params.newName.`);
+      }
+      paths.push(resolveRenamePath(path, newName));
+    }
+
+    return { operation: operation as BatchStep['operation'], action, params: stepParams, paths };
+  });
+}
+
+/**
+ * A path's content, or `null` when nothing is there. Folders are refused: a
+ * snapshot holds one file's text, so deleting or moving a folder could not
+ * be undone and the batch would report a rollback that did not happen.
+ */
+async function takeSnapshot(ctx: RouterContext, path: string): Promise<Snapshot> {
+  let file;
+  try {
+    file = await ctx.api.getFile(path);
+  } catch {
+    if (await isFolder(ctx, path)) {
+      throw new Error(`${path} is a folder; edit.batch can only snapshot files. Run folder moves and deletes on their own.`);
+    }
+    return { path, content: null };
+  }
+  if (isImageFile(file)) {
+    throw new Error(`${path} is a binary file; edit.batch can only snapshot text files.`);
+  }
+  return { path, content: typeof file === 'string' ? file : file.content };
+}
+
+/** Listing succeeds only for a folder — the same probe vault.copy uses. */
+async function isFolder(ctx: RouterContext, path: string): Promise<boolean> {
+  try {
+    await ctx.api.listFiles(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Put `path` back to its snapshot, writing only when it actually differs. */
+async function restoreSnapshot(ctx: RouterContext, snapshot: Snapshot): Promise<void> {
+  const current = await takeSnapshot(ctx, snapshot.path);
+  if (snapshot.content === null) {
+    if (current.content !== null) await ctx.api.deleteFile(snapshot.path);
+  } else if (current.content === null) {
+    await ctx.api.createFile(snapshot.path, snapshot.content);
+  } else if (current.content !== snapshot.content) {
+    await ctx.api.updateFile(snapshot.path, snapshot.content);
+  }
+}
+
+/** Undo completed steps newest-first; returns the paths that could not be restored. */
+async function rollback(ctx: RouterContext, completed: CompletedStep[]): Promise<string[]> {
+  const failures: string[] = [];
+  for (const done of [...completed].reverse()) {
+    if (done.relocation) {
+      try {
+        await ctx.api.moveFile(done.relocation.to, done.relocation.from);
+      } catch (error) {
+        Debug.error(`edit.batch rollback could not move ${done.relocation.to} back:`, error);
+        failures.push(done.relocation.to);
+        continue;
+      }
+    }
+    for (const snapshot of done.snapshots) {
+      try {
+        await restoreSnapshot(ctx, snapshot);
+      } catch (error) {
+        Debug.error(`edit.batch rollback could not restore ${snapshot.path}:`, error);
+        failures.push(snapshot.path);
+      }
+    }
+  }
+  return failures;
+}
+
+/**
+ * Steps run without link updates (`updateLinks: false` on moves, renames and
+ * heading renames): those write files outside the batch's locked and
+ * snapshotted paths, which a rollback could not restore. Links in a batch are
+ * left to Obsidian's own link updating, which moving a file back on rollback
+ * also reverses.
+ */
+async function runStep(ctx: RouterContext, step: BatchStep): Promise<unknown> {
+  return step.operation === 'edit'
+    ? applyEditAction(ctx, step.action, step.paths[0], { ...step.params, updateLinks: false })
+    : executeVaultOperation(ctx, step.action, { ...step.params, updateLinks: false });
+}
+
+export async function executeEditBatch(ctx: RouterContext, params: Params): Promise<unknown> {
+  const steps = parseSteps(ctx, params);
+  const allPaths = Array.from(new Set(steps.flatMap(s => s.paths)));
+
+  return FileLockManager.getInstance().withLocks(allPaths, async () => {
+    const completed: CompletedStep[] = [];
+    const results: Array<{ step: number; operation: string; action: string; path: string; result: unknown }> = [];
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const snapshots: Snapshot[] = [];
+      try {
+        for (const path of step.paths) {
+          snapshots.push(await takeSnapshot(ctx, path));
+        }
+        const result = await runStep(ctx, step);
+        const relocation = step.action === 'move' || step.action === 'rename'
+          ? { from: step.paths[0], to: (result as { newPath?: string })?.newPath ?? step.paths[1] }
+          : undefined;
+        completed.push({ step, snapshots, relocation });
+        results.push({ step: i + 1, operation: step.operation, action: step.action, path: step.paths[0], result });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const reasonCode = error && typeof error === 'object' && 'code' in error
+          ? String((error as Record<string, unknown>).code)
+          : undefined;
+        // The failing step may have written part of its change (e.g. a move's
+        // create-then-delete fallback), so its own snapshots are restored too.
+        // Restores are unmetered: the step may have failed on a rate limit.
+        const failedPaths = await OperationJournal.runInContext({ unmetered: true }, () =>
+          rollback(ctx, [...completed, { step, snapshots }])
+        );
+        const details = {
+          failedStep: i + 1,
+          failedOperation: `${step.operation}.${step.action}`,
+          reason,
+          reasonCode,
+          rolledBackSteps: completed.length,
+          notRestored: failedPaths,
+        };
+        if (failedPaths.length > 0) {
+          throw new OperationError(
+            `edit.batch ${describe(step, i)} failed: ${reason}. Rollback could not restore: ${failedPaths.join(', ')}.`,
+            'BATCH_ROLLBACK_FAILED',
+            details
+          );
+        }
+        throw new OperationError(
+          `edit.batch ${describe(step, i)} failed: ${reason}. ` +
+            `Rolled back ${completed.length} completed step(s); no changes were kept.`,
+          'BATCH_ROLLED_BACK',
+          details
+        );
+      }
+    }
+
+    return {
+      success: true,
+      stepsApplied: steps.length,
+      paths: allPaths,
+      results,
+      workflow: {
+        message: `Applied ${steps.length} operation(s) across ${allPaths.length} file(s) as one batch`,
+        suggested_next: [
+          {
+            description: 'Review one of the changed files',
+            command: `view(action='file', path='${steps[steps.length - 1].paths[0]}')`
+          }
+        ]
+      }
+    };
+  });
+}
@@ -0,0 +1,453 @@
+/**
+ * graph.broken_links and graph.repair_links — links that reach nothing.
+ *
+ * Notes are scanned with the link parser and resolver that link-aware moves
+ * use (`utils/link-rewriter.ts`). A link is broken when no file matches it
+ * (`missing_note`), when the `#heading` or `#^block` it names is not in the
+ * note it reaches (`missing_heading`, `missing_block`), or when it matches a
+ * file only by ignoring case (`case_mismatch`): Obsidian follows those, but
+ * case-sensitive file systems and Markdown tools do not.
+ *
+ * Each broken link comes with suggestions, best first:
+ *   moved  the journal recorded the file's move or rename, a file of the same
+ *          name lives in another folder, or another note carries the `^block`
+ *   case   the same file, written with its own case
+ *   fuzzy  a file name, heading or block id close to the one written
+ * `repair_links` applies the best suggestion to every broken link that has a
+ * clear one (at least `threshold`, and ahead of the runner-up), each note
+ * under its file lock; `dryRun: true` previews the whole repair as a diff.
+ */
+import { isImageFile } from '../../types/obsidian';
+import { SecurityError } from '../../security';
+import { FileLockManager } from '../../utils/file-lock';
+import { OperationJournal } from '../../utils/operation-journal';
+import { calculateSimilarity } from '../../utils/fuzzy-match';
+import {
+  LinkResolver,
+  NoteLink,
+  createLinkResolver,
+  findLinks,
+  headingKey,
+  noteAnchors,
+  replaceSubpath,
+  retargetLink,
+  rewriteLinks,
+} from '../../utils/link-rewriter';
+import { RouterContext } from './router-context';
+import { Params, paramStr, paramNum } from './shared';
+
+export type LinkProblem = 'missing_note' | 'missing_heading' | 'missing_block' | 'case_mismatch';
+
+const PROBLEMS: readonly LinkProblem[] = ['missing_note', 'missing_heading', 'missing_block', 'case_mismatch'];
+
+export interface LinkSuggestion {
+  /** The link rewritten to reach `target`. */
+  link: string;
+  /** Path (and subpath) the rewritten link reaches. */
+  target: string;
+  reason: 'moved' | 'case' | 'fuzzy';
+  /** 0-1; 1 for a journaled move or a case fix. */
+  score: number;
+}
+
+export interface BrokenLink {
+  path: string;
+  line: number;
+  link: string;
+  kind: NoteLink['kind'];
+  embed: boolean;
+  problem: LinkProblem;
+  /** For a missing heading or block: the note the link does reach. */
+  resolved?: string;
+  suggestions: LinkSuggestion[];
+}
+
+const DEFAULT_SUGGEST_THRESHOLD = 0.6;
+const DEFAULT_REPAIR_THRESHOLD = 0.8;
+const DEFAULT_LIMIT = 200;
+const MAX_SUGGESTIONS = 3;
+/** Score of a same-name file in another folder, or a block found in another note. */
+const SAME_NAME_SCORE = 0.9;
+
+const isNote = (path: string) => path.toLowerCase().endsWith('.md');
+const fileName = (path: string) => path.split('/').pop() ?? path;
+const withoutMd = (path: string) => path.replace(/\.md$/i, '');
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+export async function executeBrokenLinksOperation(ctx: RouterContext, action: string, params: Params): Promise<unknown> {
+  switch (action) {
+    case 'broken_links':
+      return listBrokenLinks(ctx, params);
+    case 'repair_links':
+      return repairLinks(ctx, params);
+    default:
+      throw new Error(`Unknown graph action: ${action}`);
+  }
+}
+
+// ---- The vault as the checks see it ------------------------------------------
+
+interface LinkIndex {
+  paths: string[];
+  /** Obsidian's resolution, ignoring case. */
+  resolve: LinkResolver;
+  /** Resolution by exact case. */
+  strict: LinkResolver;
+  /** Note content, read once; undefined when it cannot be read. */
+  read(path: string): Promise<string | undefined>;
+  /** Where the journal says the file a link names was moved, if it still exists. */
+  movedTo(link: NoteLink, source: string): string | undefined;
+  /** Whether Obsidian resolves the link to a file this session cannot list (`.mcpignore`, key scope). */
+  hidden(link: NoteLink, source: string): boolean;
+}
+
+async function buildIndex(ctx: RouterContext): Promise<LinkIndex> {
+  const paths = await ctx.api.listFiles();
+  const listed = new Set(paths);
+  const contents = new Map<string, Promise<string | undefined>>();
+
+  // Journaled moves and renames that were not undone, oldest first, so a
+  // later move of the same path wins
+  const journal = OperationJournal.getInstance();
+  const undone = journal.getUndoneIds();
+  const moves = new Map<string, string>();
+  for (const entry of journal.getEntries()) {
+    if ((entry.type === 'move' || entry.type === 'rename') && entry.targetPath && !undone.has(entry.id) && !entry.undoes) {
+      moves.set(entry.path, entry.targetPath);
+    }
+  }
+  const resolveMoved = createLinkResolver([...moves.keys()]);
+
+  return {
+    paths,
+    resolve: createLinkResolver(paths),
+    strict: createLinkResolver(paths, { caseSensitive: true }),
+    read(path) {
+      let content = contents.get(path);
+      if (!content) {
+        content = ctx.api.getFile(path).then(
+          file => (isImageFile(file) ? undefined : typeof file === 'string' ? file : file.content),
+          () => undefined
+        );
+        contents.set(path, content);
+      }
+      return content;
+    },
+    movedTo(link, source) {
+      let path = resolveMoved(link, source);
+      for (let hops = 0; path !== undefined && moves.has(path) && hops < moves.size; hops++) {
+        path = moves.get(path);
+      }
+      return path !== undefined && listed.has(path) ? path : undefined;
+    },
+    hidden(link, source) {
+      const file = ctx.app?.metadataCache.getFirstLinkpathDest(link.target, source);
+      return Boolean(file && !listed.has(file.path));
+    },
+  };
+}
+
+/** Notes under `scope` (a note or a folder), or every note. */
+function scopeNotes(index: LinkIndex, scope: string | undefined): string[] {
+  const folder = scope?.replace(/\/+$/, '');
+  if (!folder || folder === '/') return index.paths.filter(isNote);
+  if (isNote(folder)) return index.paths.includes(folder) ? [folder] : [];
+  return index.paths.filter(path => isNote(path) && path.startsWith(`${folder}/`));
+}
+
+// ---- Diagnosis ---------------------------------------------------------------
+
+/** Why `link` in `source` is broken, with suggestions; undefined when it works. */
+async function diagnose(
+  index: LinkIndex,
+  source: string,
+  link: NoteLink,
+  threshold: number
+): Promise<Omit<BrokenLink, 'path' | 'line'> | undefined> {
+  const broken = (problem: LinkProblem, suggestions: LinkSuggestion[], resolved?: string) => ({
+    link: link.raw,
+    kind: link.kind,
+    embed: link.embed,
+    problem,
+    ...(resolved !== undefined ? { resolved } : {}),
+    suggestions: rank(suggestions),
+  });
+
+  const resolved = index.resolve(link, source);
+  if (resolved === undefined) {
+    if (index.hidden(link, source)) return undefined;
+    return broken('missing_note', noteSuggestions(index, source, link, threshold));
+  }
+
+  if (link.subpath !== '' && isNote(resolved)) {
+    const content = await index.read(resolved);
+    if (content !== undefined) {
+      const anchors = noteAnchors(content);
+      if (link.subpath.startsWith('#^')) {
+        const id = link.subpath.slice(2);
+        if (!anchors.blocks.includes(id)) {
+          return broken('missing_block', await blockSuggestions(index, source, link, id, anchors.blocks, threshold), resolved);
+        }
+      } else {
+        const parts = link.subpath.slice(1).split('#');
+        const heading = link.kind === 'markdown' ? decode(parts[parts.length - 1]) : parts[parts.length - 1];
+        if (heading.trim() !== '' && !anchors.headings.some(h => headingKey(h) === headingKey(heading))) {
+          return broken('missing_heading', headingSuggestions(resolved, link, heading, anchors.headings, threshold), resolved);
+        }
+      }
+    }
+  }
+
+  if (index.strict(link, source) === undefined) {
+    return broken('case_mismatch', [{
+      link: retargetLink(link, resolved, source, index.resolve),
+      target: resolved + link.subpath,
+      reason: 'case',
+      score: 1,
+    }]);
+  }
+  return undefined;
+}
+
+/** Best first, one per rewritten link, at most MAX_SUGGESTIONS. */
+function rank(suggestions: LinkSuggestion[]): LinkSuggestion[] {
+  const best = new Map<string, LinkSuggestion>();
+  for (const suggestion of suggestions) {
+    const seen = best.get(suggestion.link);
+    if (!seen || suggestion.score > seen.score) best.set(suggestion.link, suggestion);
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.target.localeCompare(b.target))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+function noteSuggestions(index: LinkIndex, source: string, link: NoteLink, threshold: number): LinkSuggestion[] {
+  const suggest = (path: string, reason: LinkSuggestion['reason'], score: number): LinkSuggestion => ({
+    link: retargetLink(link, path, source, index.resolve),
+    target: path + link.subpath,
+    reason,
+    score,
+  });
+  const suggestions: LinkSuggestion[] = [];
+
+  const journaled = index.movedTo(link, source);
+  if (journaled) suggestions.push(suggest(journaled, 'moved', 1));
+
+  // A link with a folder in it: a file of the same name in another folder
+  const name = withoutMd(fileName(link.target)).toLowerCase();
+  if (link.target.includes('/')) {
+    for (const path of index.paths) {
+      if (withoutMd(fileName(path)).toLowerCase() === name) suggestions.push(suggest(path, 'moved', SAME_NAME_SCORE));
+    }
+  }
+
+  // Close names among files of the same kind: notes for a bare or .md target, else the same extension
+  const extension = /\.([^./]+)$/.exec(fileName(link.target))?.[1]?.toLowerCase();
+  const sameKind = extension && extension !== 'md'
+    ? (path: string) => path.toLowerCase().endsWith(`.${extension}`)
+    : isNote;
+  const moved = new Set(suggestions.map(suggestion => suggestion.target));
+  for (const path of index.paths) {
+    if (!sameKind(path) || moved.has(path + link.subpath)) continue;
+    const score = calculateSimilarity(name, withoutMd(fileName(path)).toLowerCase());
+    if (score >= threshold) suggestions.push(suggest(path, 'fuzzy', score));
+  }
+
+  return suggestions;
+}
+
+function headingSuggestions(
+  resolved: string,
+  link: NoteLink,
+  heading: string,
+  headings: string[],
+  threshold: number
+): LinkSuggestion[] {
+  const parts = link.subpath.slice(1).split('#');
+  return headings.flatMap(candidate => {
+    const score = calculateSimilarity(headingKey(heading), headingKey(candidate));
+    if (score < threshold) return [];
+    parts[parts.length - 1] = link.kind === 'markdown' ? candidate.replace(/ /g, '%20') : candidate;
+    const subpath = `#${parts.join('#')}`;
+    return [{ link: replaceSubpath(link, subpath), target: resolved + subpath, reason: 'fuzzy' as const, score }];
+  });
+}
+
+async function blockSuggestions(
+  index: LinkIndex,
+  source: string,
+  link: NoteLink,
+  id: string,
+  blocks: string[],
+  threshold: number
+): Promise<LinkSuggestion[]> {
+  const resolved = index.resolve(link, source)!;
+  const suggestions: LinkSuggestion[] = [];
+
+  // The block moved to another note
+  for (const path of index.paths) {
+    if (path === resolved || !isNote(path)) continue;
+    const content = await index.read(path);
+    if (content !== undefined && noteAnchors(content).blocks.includes(id)) {
+      suggestions.push({
+        link: retargetLink(link, path, source, index.resolve),
+        target: path + link.subpath,
+        reason: 'moved',
+        score: SAME_NAME_SCORE,
+      });
+    }
+  }
+
+  for (const candidate of blocks) {
+    const score = calculateSimilarity(id, candidate);
+    if (score >= threshold) {
+      suggestions.push({
+        link: replaceSubpath(link, `#^${candidate}`),
+        target: `${resolved}#^${candidate}`,
+        reason: 'fuzzy',
+        score,
+      });
+    }
+  }
+
+  return suggestions;
+}
+
+/** Every broken link in `content`, in order. */
+async function scanNote(
+  index: LinkIndex,
+  source: string,
+  content: string,
+  threshold: number,
+  problems: readonly LinkProblem[]
+): Promise<BrokenLink[]> {
+  const found: BrokenLink[] = [];
+  for (const link of findLinks(content)) {
+    const broken = await diagnose(index, source, link, threshold);
+    if (broken && problems.includes(broken.problem)) found.push({ path: source, line: link.line, ...broken });
+  }
+  return found;
+}
+
+function problemFilter(params: Params, action: string): readonly LinkProblem[] {
+  const requested = params.problems;
+  if (requested === undefined) return PROBLEMS;
+  const list = Array.isArray(requested) ? requested : [requested];
+  const unknown = list.filter(p => !PROBLEMS.includes(p as LinkProblem));
+  if (unknown.length > 0) {
+    throw new Error(`${action}: unknown problem ${unknown.map(String).join(', ')}. Use any of: ${PROBLEMS.join(', ')}.`);
+  }
+  return list as LinkProblem[];
+}
+
+function thresholdParam(params: Params, fallback: number): number {
+  const threshold = paramNum(params, 'threshold') ?? fallback;
+  if (!(threshold >= 0 && threshold <= 1)) throw new Error(`threshold must be between 0 and 1, got ${threshold}`);
+  return threshold;
+}
+
+// ---- Actions -----------------------------------------------------------------
+
+async function listBrokenLinks(ctx: RouterContext, params: Params): Promise<unknown> {
+  const scope = paramStr(params, 'path');
+  const threshold = thresholdParam(params, DEFAULT_SUGGEST_THRESHOLD);
+  const problems = problemFilter(params, 'graph.broken_links');
+  const limit = Math.max(1, paramNum(params, 'limit') ?? DEFAULT_LIMIT);
+  const index = await buildIndex(ctx);
+  const notes = scopeNotes(index, scope);
+
+  const broken: BrokenLink[] = [];
+  for (const path of notes) {
+    const content = await index.read(path);
+    if (content !== undefined) broken.push(...await scanNote(index, path, content, threshold, problems));
+  }
+
+  const byProblem: Partial<Record<LinkProblem, number>> = {};
+  for (const link of broken) byProblem[link.problem] = (byProblem[link.problem] ?? 0) + 1;
+
+  return {
+    scope: scope ?? '/',
+    notesChecked: notes.length,
+    total: broken.length,
+    byProblem,
+    truncated: broken.length > limit,
+    broken: broken.slice(0, limit),
+  };
+}
+
+/** The suggestion `repair_links` applies, or why there is none. */
+function chooseRepair(link: BrokenLink, threshold: number): LinkSuggestion | string {
+  const [best, next] = link.suggestions;
+  if (!best) return 'no suggestion';
+  if (best.score < threshold) return `best suggestion scores ${best.score.toFixed(2)}, below the threshold`;
+  if (next && next.score === best.score) return `ambiguous: ${best.target} or ${next.target}`;
+  return best;
+}
+
+async function repairLinks(ctx: RouterContext, params: Params): Promise<unknown> {
+  const scope = paramStr(params, 'path');
+  const threshold = thresholdParam(params, DEFAULT_REPAIR_THRESHOLD);
+  const problems = problemFilter(params, 'graph.repair_links');
+  const index = await buildIndex(ctx);
+  // Suggest down to the listing default so a skipped link still says what came closest
+  const suggestFrom = Math.min(threshold, DEFAULT_SUGGEST_THRESHOLD);
+
+  const repaired: Array<BrokenLink & { repair: LinkSuggestion; before: string; after: string }> = [];
+  const skipped: Array<BrokenLink & { reason: string }> = [];
+  const failed: Array<{ path: string; reason: string }> = [];
+  const files: string[] = [];
+
+  for (const path of scopeNotes(index, scope)) {
+    try {
+      await FileLockManager.getInstance().withLock(path, async () => {
+        const file = await ctx.api.getFile(path);
+        if (isImageFile(file)) return;
+        const content = typeof file === 'string' ? file : file.content;
+
+        const repairs = new Map<string, BrokenLink & { repair: LinkSuggestion }>();
+        for (const link of await scanNote(index, path, content, suggestFrom, problems)) {
+          const choice = chooseRepair(link, threshold);
+          if (typeof choice === 'string') skipped.push({ ...link, reason: choice });
+          else repairs.set(`${link.line}:${link.link}`, { ...link, repair: choice });
+        }
+        if (repairs.size === 0) return;
+
+        const result = rewriteLinks(content, link => repairs.get(`${link.line}:${link.raw}`)?.repair.link);
+        for (const change of result.changes) {
+          for (const link of repairs.values()) {
+            if (link.line === change.line) repaired.push({ ...link, before: change.before, after: change.after });
+          }
+        }
+        await ctx.api.updateFile(path, result.content);
+        files.push(path);
+      });
+    } catch (error) {
+      if (error instanceof SecurityError) throw error;
+      failed.push({ path, reason: errorMessage(error) });
+    }
+  }
+
+  return {
+    scope: scope ?? '/',
+    threshold,
+    files,
+    repaired,
+    skipped,
+    failed,
+    workflow: {
+      message: `Repaired ${repaired.length} link(s) in ${files.length} file(s); ${skipped.length} left for review.`,
+      suggested_next: skipped.length > 0
+        ? [{ description: 'Fix the rest by hand', command: 'graph.broken_links to see their suggestions, then edit.window on each' }]
+        : [],
+    },
+  };
+}
+
@@ -0,0 +1,414 @@
+/**
+ * canvas — Obsidian `.canvas` files as nodes and edges (`utils/json-canvas.ts`).
+ *
+ * `list` finds canvases, `read` returns one's nodes and edges, `validate`
+ * checks it against the JSON Canvas spec. The write actions (`create`,
+ * `add_node`, `add_edge`, `move`, `remove`, `layout`) read, change and write
+ * the canvas under its file lock and honour `expectedHash` and `dryRun`. A
+ * write that would leave the canvas invalid is refused; problems the file
+ * already had do not block unrelated edits.
+ */
+import { Minimatch } from 'minimatch';
+import { FileLockManager } from '../../utils/file-lock';
+import { isImageFile } from '../../types/obsidian';
+import {
+  CanvasData,
+  CanvasEdge,
+  CanvasEnd,
+  CanvasNode,
+  CanvasNodeType,
+  CanvasSide,
+  DEFAULT_NODE_SIZE,
+  ENDS,
+  NODE_TYPES,
+  SIDES,
+  autoLayout,
+  boundingBox,
+  isInside,
+  linkTargets,
+  newCanvasId,
+  parseCanvas,
+  serializeCanvas,
+  validateCanvas,
+} from '../../utils/json-canvas';
+import { assertExpectedHash } from './concurrency';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramNum, paramBool, requireParamStr } from './shared';
+
+/** Size of a new text card, as Obsidian makes it. */
+const TEXT_NODE_SIZE = { width: 250, height: 60 };
+/** Space kept between a group's edge and the cards it was drawn around. */
+const GROUP_PADDING = 40;
+
+export async function executeCanvasOperation(ctx: RouterContext, action: string, params: Params): Promise<unknown> {
+  switch (action) {
+    case 'list':
+      return listCanvases(ctx, params);
+    case 'read': {
+      const path = canvasPath(params, 'canvas.read');
+      const canvas = await readCanvas(ctx, path);
+      return { path, nodes: canvas.nodes, edges: canvas.edges, issues: validateCanvas(canvas) };
+    }
+    case 'validate': {
+      const path = canvasPath(params, 'canvas.validate');
+      const issues = validateCanvas(await readCanvas(ctx, path));
+      return { path, valid: issues.length === 0, issues };
+    }
+    case 'create':
+      return createCanvas(ctx, params);
+    case 'add_node':
+      return editCanvas(ctx, 'canvas.add_node', params, canvas => ({ node: addNode(canvas, params) }));
+    case 'add_edge':
+      return editCanvas(ctx, 'canvas.add_edge', params, canvas => ({ edge: addEdge(canvas, params) }));
+    case 'move':
+      return editCanvas(ctx, 'canvas.move', params, canvas => moveNode(canvas, params));
+    case 'remove':
+      return editCanvas(ctx, 'canvas.remove', params, canvas => removeItems(canvas, params));
+    case 'layout':
+      return layoutNotes(ctx, params);
+    default:
+      throw new Error(`Unknown canvas action: ${action}`);
+  }
+}
+
+// ---- Reading and writing ------------------------------------------------------
+
+function canvasPath(params: Params, action: string): string {
+  const path = requireParamStr(params, 'path', action);
+  if (!path.toLowerCase().endsWith('.canvas')) {
+    throw new Error(`${action}: '${path}' is not a canvas; the path must end in .canvas.`);
+  }
+  return path;
+}
+
+const isMissing = (error: unknown) => error instanceof Error && error.message.startsWith('File not found');
+
+async function readCanvas(ctx: RouterContext, path: string): Promise<CanvasData> {
+  const file = await ctx.api.getFile(path);
+  if (isImageFile(file)) throw new Error(`${path} is not a canvas`);
+  try {
+    return parseCanvas(typeof file === 'string' ? file : file.content);
+  } catch (error) {
+    throw new OperationError(`${path} is not a readable canvas: ${(error as Error).message}`, 'INVALID_CANVAS');
+  }
+}
+
+/** Refuse a canvas that an edit made invalid, naming only the problems the edit introduced. */
+function assertStillValid(action: string, path: string, before: string[], canvas: CanvasData): void {
+  const introduced = validateCanvas(canvas).filter(issue => !before.includes(issue));
+  if (introduced.length > 0) {
+    throw new OperationError(
+      `${action}: the change would make ${path} an invalid canvas: ${introduced.join('; ')}`,
+      'INVALID_CANVAS',
+      { issues: introduced }
+    );
+  }
+}
+
+/** Apply `edit` to the canvas at `params.path` under its file lock and write it back. */
+async function editCanvas<T extends object>(
+  ctx: RouterContext,
+  action: string,
+  params: Params,
+  edit: (canvas: CanvasData) => T
+): Promise<T & { path: string }> {
+  const path = canvasPath(params, action);
+  return FileLockManager.getInstance().withLock(path, async () => {
+    await assertExpectedHash(ctx, path, params);
+    const canvas = await readCanvas(ctx, path);
+    const before = validateCanvas(canvas);
+    const result = edit(canvas);
+    assertStillValid(action, path, before, canvas);
+    await ctx.api.updateFile(path, serializeCanvas(canvas));
+    return { path, ...result };
+  });
+}
+
+async function listCanvases(ctx: RouterContext, params: Params): Promise<unknown> {
+  const folder = paramStr(params, 'path');
+  const paths = (await ctx.api.listFiles(folder)).filter(p => p.toLowerCase().endsWith('.canvas'));
+  const canvases = [];
+  for (const path of paths) {
+    try {
+      const canvas = await readCanvas(ctx, path);
+      canvases.push({ path, nodes: canvas.nodes.length, edges: canvas.edges.length });
+    } catch (error) {
+      canvases.push({ path, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { folder: folder ?? '/', canvases };
+}
+
+async function createCanvas(ctx: RouterContext, params: Params): Promise<unknown> {
+  const path = canvasPath(params, 'canvas.create');
+  const canvas: CanvasData = {
+    nodes: (params.nodes ?? []) as CanvasNode[],
+    edges: (params.edges ?? []) as CanvasEdge[],
+  };
+  if (!Array.isArray(canvas.nodes) || !Array.isArray(canvas.edges)) {
+    throw new Error("canvas.create: 'nodes' and 'edges' must be arrays of JSON Canvas nodes and edges.");
+  }
+  assertStillValid('canvas.create', path, [], canvas);
+
+  return FileLockManager.getInstance().withLock(path, async () => {
+    const exists = await ctx.api.getFile(path).then(() => true, (error: unknown) => {
+      if (!isMissing(error)) throw error;
+      return false;
+    });
+    if (exists) {
+      throw new OperationError(`canvas.create: ${path} already exists; edit it with add_node and add_edge.`, 'ALREADY_EXISTS');
+    }
+    await ctx.api.createFile(path, serializeCanvas(canvas));
+    return { path, created: true, nodes: canvas.nodes.length, edges: canvas.edges.length };
+  });
+}
+
+// ---- Nodes and edges ----------------------------------------------------------------
+
+function findNode(canvas: CanvasData, id: string): CanvasNode {
+  const node = canvas.nodes.find(n => n.id === id);
+  if (!node) throw new OperationError(`No node "${id}" on this canvas.`, 'NODE_NOT_FOUND');
+  return node;
+}
+
+function oneOf<T extends string>(params: Params, key: string, allowed: readonly T[], action: string): T | undefined {
+  const value = paramStr(params, key);
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new Error(`${action}: '${key}' must be one of ${allowed.join(', ')}.`);
+  }
+  return value as T | undefined;
+}
+
+/**
+ * Build a node from params and add it. Without `x`/`y` it is placed below
+ * the existing cards. A group given `around` (node ids) is sized to enclose
+ * them; groups go to the bottom of the z-order so they never hide cards.
+ */
+function addNode(canvas: CanvasData, params: Params): CanvasNode {
+  const action = 'canvas.add_node';
+  const type = oneOf<CanvasNodeType>(params, 'type', NODE_TYPES, action);
+  if (type === undefined) throw new Error(`${action} requires 'type': one of ${NODE_TYPES.join(', ')}.`);
+  const required = { text: 'text', file: 'file', link: 'url', group: undefined }[type];
+  if (required) requireParamStr(params, required, action);
+
+  const size = type === 'text' ? TEXT_NODE_SIZE : DEFAULT_NODE_SIZE;
+  const node: CanvasNode = {
+    id: paramStr(params, 'id') ?? newCanvasId(canvas),
+    type,
+    x: 0,
+    y: 0,
+    width: paramNum(params, 'width') ?? size.width,
+    height: paramNum(params, 'height') ?? size.height,
+  };
+  for (const key of ['text', 'file', 'subpath', 'url', 'label', 'background', 'backgroundStyle', 'color'] as const) {
+    const value = paramStr(params, key);
+    if (value !== undefined) node[key] = value;
+  }
+
+  const around = params.around;
+  if (type === 'group' && Array.isArray(around) && around.length > 0) {
+    const box = boundingBox(around.map(id => findNode(canvas, String(id))))!;
+    Object.assign(node, {
+      x: box.x - GROUP_PADDING,
+      y: box.y - GROUP_PADDING,
+      width: box.width + GROUP_PADDING * 2,
+      height: box.height + GROUP_PADDING * 2,
+    });
+  } else {
+    const x = paramNum(params, 'x');
+    const y = paramNum(params, 'y');
+    const slot = autoLayout(canvas.nodes, 1, { width: node.width, height: node.height })[0];
+    node.x = x ?? slot.x;
+    node.y = y ?? slot.y;
+  }
+
+  if (type === 'group') canvas.nodes.unshift(node);
+  else canvas.nodes.push(node);
+  return node;
+}
+
+function addEdge(canvas: CanvasData, params: Params): CanvasEdge {
+  const action = 'canvas.add_edge';
+  const fromNode = findNode(canvas, requireParamStr(params, 'fromNode', action)).id;
+  const toNode = findNode(canvas, requireParamStr(params, 'toNode', action)).id;
+  const edge: CanvasEdge = { id: paramStr(params, 'id') ?? newCanvasId(canvas), fromNode, toNode };
+
+  const fromSide = oneOf<CanvasSide>(params, 'fromSide', SIDES, action);
+  const toSide = oneOf<CanvasSide>(params, 'toSide', SIDES, action);
+  const fromEnd = oneOf<CanvasEnd>(params, 'fromEnd', ENDS, action);
+  const toEnd = oneOf<CanvasEnd>(params, 'toEnd', ENDS, action);
+  if (fromSide) edge.fromSide = fromSide;
+  if (fromEnd) edge.fromEnd = fromEnd;
+  if (toSide) edge.toSide = toSide;
+  if (toEnd) edge.toEnd = toEnd;
+  const color = paramStr(params, 'color');
+  const label = paramStr(params, 'label');
+  if (color !== undefined) edge.color = color;
+  if (label !== undefined) edge.label = label;
+
+  canvas.edges.push(edge);
+  return edge;
+}
+
+/**
+ * Move a node to `x`/`y` or by `dx`/`dy`, and optionally resize it. Moving a
+ * group moves the cards inside it too, as dragging it in Obsidian does.
+ */
+function moveNode(canvas: CanvasData, params: Params): { node: CanvasNode; moved: string[] } {
+  const action = 'canvas.move';
+  const node = findNode(canvas, requireParamStr(params, 'id', action));
+  const x = paramNum(params, 'x');
+  const y = paramNum(params, 'y');
+  const dx = x !== undefined ? x - node.x : paramNum(params, 'dx') ?? 0;
+  const dy = y !== undefined ? y - node.y : paramNum(params, 'dy') ?? 0;
+  const width = paramNum(params, 'width');
+  const height = paramNum(params, 'height');
+  if (dx === 0 && dy === 0 && width === undefined && height === undefined) {
+    throw new Error(`${action} requires a new position (x, y, dx or dy) or size (width, height).`);
+  }
+
+  const contents = node.type === 'group' ? canvas.nodes.filter(n => isInside(n, node)) : [];
+  for (const moving of [node, ...contents]) {
+    moving.x += dx;
+    moving.y += dy;
+  }
+  if (width !== undefined) node.width = width;
+  if (height !== undefined) node.height = height;
+  return { node, moved: [node.id, ...contents.map(n => n.id)] };
+}
+
+/** Remove nodes and edges by id; a removed node takes its edges with it. */
+function removeItems(canvas: CanvasData, params: Params): { removedNodes: string[]; removedEdges: string[] } {
+  const ids = Array.isArray(params.ids) ? params.ids.map(String) : [requireParamStr(params, 'id', 'canvas.remove')];
+  const known = new Set([...canvas.nodes.map(n => n.id), ...canvas.edges.map(e => e.id)]);
+  const unknown = ids.filter(id => !known.has(id));
+  if (unknown.length > 0) {
+    throw new OperationError(`No node or edge ${unknown.map(id => `"${id}"`).join(', ')} on this canvas.`, 'NODE_NOT_FOUND');
+  }
+
+  const removing = new Set(ids);
+  const removedNodes = canvas.nodes.filter(n => removing.has(n.id)).map(n => n.id);
+  canvas.nodes = canvas.nodes.filter(n => !removing.has(n.id));
+  const removedEdges = canvas.edges
+    .filter(e => removing.has(e.id) || removing.has(e.fromNode) || removing.has(e.toNode))
+    .map(e => e.id);
+  canvas.edges = canvas.edges.filter(e => !removedEdges.includes(e.id));
+  return { removedNodes, removedEdges };
+}
+
+// ---- Layout -------------------------------------------------------------------
+
+/**
+ * Lay notes out on a canvas as file cards in a grid, creating the canvas if
+ * needed. Notes already on it are left where they are. With `connect` (the
+ * default) each link between two of the notes becomes an edge.
+ */
+async function layoutNotes(ctx: RouterContext, params: Params): Promise<unknown> {
+  const action = 'canvas.layout';
+  const path = canvasPath(params, action);
+  const notes = await layoutTargets(ctx, params, action);
+  const connect = paramBool(params, 'connect') !== false;
+
+  // Links between the notes, read before taking the canvas lock
+  const links = new Map<string, Set<string>>();
+  if (connect) {
+    const resolve = noteResolver(notes);
+    for (const note of notes) {
+      let content: string;
+      try {
+        const file = await ctx.api.getFile(note);
+        if (isImageFile(file)) continue;
+        content = typeof file === 'string' ? file : file.content;
+      } catch {
+        continue;
+      }
+      const targets = linkTargets(content).map(resolve).filter((t): t is string => t !== undefined && t !== note);
+      links.set(note, new Set(targets));
+    }
+  }
+
+  return FileLockManager.getInstance().withLock(path, async () => {
+    let canvas: CanvasData;
+    let created = false;
+    try {
+      await assertExpectedHash(ctx, path, params);
+      canvas = await readCanvas(ctx, path);
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+      canvas = { nodes: [], edges: [] };
+      created = true;
+    }
+    const before = validateCanvas(canvas);
+
+    const onCanvas = new Map<string, string>();
+    for (const node of canvas.nodes) {
+      if (node.type === 'file' && typeof node.file === 'string' && !onCanvas.has(node.file)) onCanvas.set(node.file, node.id);
+    }
+    const adding = notes.filter(note => !onCanvas.has(note));
+    const slots = autoLayout(canvas.nodes, adding.length, { columns: paramNum(params, 'columns') });
+    const added = adding.map((file, i) => {
+      const node: CanvasNode = { id: newCanvasId(canvas), type: 'file', file, ...slots[i], ...DEFAULT_NODE_SIZE };
+      canvas.nodes.push(node);
+      onCanvas.set(file, node.id);
+      return { id: node.id, file };
+    });
+
+    let edgesAdded = 0;
+    const joined = new Set(canvas.edges.map(e => `${e.fromNode}\u0000${e.toNode}`));
+    for (const [source, targets] of links) {
+      for (const target of targets) {
+        const fromNode = onCanvas.get(source)!;
+        const toNode = onCanvas.get(target)!;
+        const key = `${fromNode}\u0000${toNode}`;
+        if (joined.has(key)) continue;
+        joined.add(key);
+        canvas.edges.push({ id: newCanvasId(canvas), fromNode, toNode });
+        edgesAdded++;
+      }
+    }
+
+    assertStillValid(action, path, before, canvas);
+    const content = serializeCanvas(canvas);
+    if (created) await ctx.api.createFile(path, content);
+    else await ctx.api.updateFile(path, content);
+
+    return {
+      path,
+      created,
+      added,
+      alreadyOnCanvas: notes.filter(note => !adding.includes(note)),
+      edgesAdded,
+    };
+  });
+}
+
+/** The notes to lay out: `paths`, or the notes matching `glob`. */
+async function layoutTargets(ctx: RouterContext, params: Params, action: string): Promise<string[]> {
+  if (params.paths !== undefined) {
+    const paths = params.paths;
+    if (!Array.isArray(paths) || !paths.every(p => typeof p === 'string')) {
+      throw new Error(`${action}: 'paths' must be an array of note paths.`);
+    }
+    return [...new Set(paths)];
+  }
+  const glob = paramStr(params, 'glob');
+  if (glob === undefined) throw new Error(`${action} requires the notes to place: 'paths' or 'glob'.`);
+  const matcher = new Minimatch(glob, { dot: true });
+  return (await ctx.api.listFiles()).filter(p => p.toLowerCase().endsWith('.md') && matcher.match(p));
+}
+
+/**
+ * Resolve a link target to one of `notes`: by exact path or file name,
+ * with or without `.md` — enough for links between the notes being laid out.
+ */
+function noteResolver(notes: string[]): (target: string) => string | undefined {
+  const byKey = new Map<string, string>();
+  for (const note of notes) {
+    const withoutExt = note.replace(/\.md$/i, '');
+    for (const key of [note, withoutExt, note.split('/').pop()!, withoutExt.split('/').pop()!]) {
+      const lower = key.toLowerCase();
+      if (!byKey.has(lower)) byKey.set(lower, note);
+    }
+  }
+  return target => byKey.get(target.replace(/^\.?\//, '').toLowerCase());
+}
@@ -0,0 +1,54 @@
+/**
+ * `expectedHash` checks for writes (optimistic concurrency).
+ *
+ * A caller that read a note with `vault.read`/`view.file` got its content
+ * hash; passing that hash back on `vault.update` or `edit.window`/`patch`/
+ * `at_line` makes the write conditional on the note being unchanged. For the
+ * edit actions (and inside `edit.batch`) the check runs under the same file
+ * lock as the write; `vault.update` checks immediately before writing.
+ */
+import { isImageFile } from '../../types/obsidian';
+import { ContentVersionStore } from '../../utils/content-version';
+import { unifiedDiff } from '../../utils/diff';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr } from './shared';
+
+/**
+ * Throw a `CONFLICT` if `params.expectedHash` is set and `path` no longer has
+ * that content. The error details carry both hashes and, when the caller's
+ * version is still remembered, a unified diff from it to the current content.
+ * No-op without `expectedHash`.
+ */
+export async function assertExpectedHash(ctx: RouterContext, path: string, params: Params): Promise<void> {
+  const expectedHash = paramStr(params, 'expectedHash');
+  if (expectedHash === undefined) return;
+
+  const file = await ctx.api.getFile(path);
+  if (isImageFile(file)) {
+    throw new Error(`expectedHash is only supported for text files; ${path} is binary.`);
+  }
+  const current = typeof file === 'string' ? file : file.content;
+  const currentHash = ContentVersionStore.hash(current);
+  if (currentHash === expectedHash) return;
+
+  const readVersion = ContentVersionStore.getInstance().recall(expectedHash);
+  const diff = readVersion !== undefined
+    ? unifiedDiff(readVersion, current, { oldLabel: `${path} (expectedHash)`, newLabel: `${path} (current)` })
+    : undefined;
+
+  throw new OperationError(
+    `${path} has changed since it was read (expectedHash ${expectedHash.slice(0, 12)}…, ` +
+      `now ${currentHash.slice(0, 12)}…). The write was not applied. ` +
+      'Re-read the file and reapply the change against the current content.',
+    'CONFLICT',
+    {
+      path,
+      expectedHash,
+      currentHash,
+      diff: diff ?? null,
+      diffUnavailable: diff === undefined
+        ? 'The content for expectedHash is no longer remembered, so no diff can be shown.'
+        : undefined,
+    }
+  );
+}
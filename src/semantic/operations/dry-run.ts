@@ -0,0 +1,289 @@
+/**
+ * `dryRun: true` — preview an edit or vault write as a unified diff.
+ *
+ * The action runs through its normal handler (`performWindowEdit`, the
+ * patch/at_line code, combine/split/move, ...) against a `DryRunAPI`: reads
+ * pass through to the real API (so permission checks and `.mcpignore` still
+ * apply), writes are vetted by the real API's `checkWrite` and then land in an
+ * in-memory overlay that later reads in the same action see. Nothing reaches
+ * the vault. The overlay is then diffed against what was there before and
+ * returned with the list of affected files, so an agent can show the change
+ * and get sign-off before applying it for real.
+ */
+import { ObsidianAPI, PatchParams } from '../../utils/obsidian-api';
+import { ObsidianFileResponse, isImageFile } from '../../types/obsidian';
+import { SecurityError } from '../../security';
+import { unifiedDiff } from '../../utils/diff';
+import { RouterContext } from './router-context';
+import { executeEditOperation } from './edit';
+import { executeEditBatch } from './batch';
+import { executeVaultOperation } from './vault';
+import { executeTasksOperation } from './tasks';
+import { executePropertiesOperation } from './properties';
+import { executeCanvasOperation } from './canvas';
+import { executeBrokenLinksOperation } from './broken-links';
+import { executeLinkSuggestionsOperation } from './link-suggestions';
+import { Params } from './shared';
+
+/** Actions that honour `dryRun`; every other action rejects it rather than writing. */
+export const DRY_RUN_ACTIONS: Record<string, readonly string[]> = {
+  edit: ['window', 'append', 'patch', 'at_line', 'from_buffer', 'batch'],
+  vault: ['update', 'combine', 'split', 'move'],
+  tasks: ['toggle', 'create', 'update', 'reschedule'],
+  properties: ['set', 'remove', 'rename', 'retype'],
+  canvas: ['create', 'add_node', 'add_edge', 'move', 'remove', 'layout'],
+  graph: ['repair_links', 'link_mentions'],
+};
+
+/** A path's state in the overlay: text content, or absent (`null`). */
+interface FileState {
+  content: string | null;
+  /** Binary file: where its bytes really are (its own path, or a move source). */
+  binaryFrom?: string;
+}
+
+export interface DryRunFileChange {
+  path: string;
+  change: 'created' | 'modified' | 'deleted' | 'moved';
+  /** For `moved`: the original path. */
+  from?: string;
+}
+
+const exists = (state: FileState) => state.content !== null || state.binaryFrom !== undefined;
+
+/**
+ * An ObsidianAPI whose writes go to an overlay instead of the vault. Only the
+ * file read/write surface the edit and vault handlers use is overridden;
+ * everything else is inherited against the same App.
+ */
+export class DryRunAPI extends ObsidianAPI {
+  private overlay = new Map<string, FileState>();
+  /** State of every touched path before the first write, in first-touch order. */
+  private originals = new Map<string, FileState>();
+  private moves: Array<{ from: string; to: string }> = [];
+
+  constructor(private base: ObsidianAPI) {
+    super(base.getApp());
+  }
+
+  getIgnoreManager(): ReturnType<ObsidianAPI['getIgnoreManager']> {
+    return this.base.getIgnoreManager();
+  }
+
+  isReadable(path: string): boolean {
+    return this.base.isReadable(path);
+  }
+
+  listFiles(directory?: string): Promise<string[]> {
+    return this.base.listFiles(directory);
+  }
+
+  listFilesPaginated(...args: Parameters<ObsidianAPI['listFilesPaginated']>): ReturnType<ObsidianAPI['listFilesPaginated']> {
+    return this.base.listFilesPaginated(...args);
+  }
+
+  searchPaginated(...args: Parameters<ObsidianAPI['searchPaginated']>): ReturnType<ObsidianAPI['searchPaginated']> {
+    return this.base.searchPaginated(...args);
+  }
+
+  queryBase(...args: Parameters<ObsidianAPI['queryBase']>): ReturnType<ObsidianAPI['queryBase']> {
+    return this.base.queryBase(...args);
+  }
+
+  private async baseState(path: string): Promise<FileState> {
+    try {
+      const file = await this.base.getFile(path);
+      if (isImageFile(file)) return { content: null, binaryFrom: path };
+      return { content: typeof file === 'string' ? file : file.content };
+    } catch (error) {
+      // A denied read must not look like "file does not exist" and preview a
+      // write the real call would refuse.
+      if (error instanceof SecurityError) throw error;
+      return { content: null };
+    }
+  }
+
+  private async state(path: string): Promise<FileState> {
+    return this.overlay.get(path) ?? this.baseState(path);
+  }
+
+  private async write(path: string, state: FileState): Promise<void> {
+    if (!this.originals.has(path)) {
+      this.originals.set(path, await this.baseState(path));
+    }
+    this.overlay.set(path, state);
+  }
+
+  private async requireText(path: string): Promise<string> {
+    const state = await this.state(path);
+    if (state.binaryFrom !== undefined) {
+      throw new Error(`dryRun cannot preview a content change to binary file ${path}`);
+    }
+    if (state.content === null) throw new Error(`File not found: ${path}`);
+    return state.content;
+  }
+
+  async getFile(path: string): Promise<ObsidianFileResponse> {
+    const state = this.overlay.get(path);
+    if (!state) return this.base.getFile(path);
+    if (state.binaryFrom !== undefined) return this.base.getFile(state.binaryFrom);
+    if (state.content === null) throw new Error(`File not found: ${path}`);
+    return { path, content: state.content, tags: [], frontmatter: {} };
+  }
+
+  async createFile(path: string, content: string): ReturnType<ObsidianAPI['createFile']> {
+    await this.base.checkWrite('create', path);
+    if (exists(await this.state(path))) throw new Error(`File already exists: ${path}`);
+    await this.write(path, { content });
+    return { success: true, path, name: path.split('/').pop() ?? path };
+  }
+
+  async updateFile(path: string, content: string): ReturnType<ObsidianAPI['updateFile']> {
+    await this.base.checkWrite('update', path);
+    await this.requireText(path);
+    await this.write(path, { content });
+    return { success: true, path };
+  }
+
+  async appendToFile(path: string, content: string): ReturnType<ObsidianAPI['appendToFile']> {
+    await this.base.checkWrite('update', path);
+    const current = await this.requireText(path);
+    await this.write(path, { content: current + content });
+    return { success: true };
+  }
+
+  async patchVaultFile(path: string, params: PatchParams): ReturnType<ObsidianAPI['patchVaultFile']> {
+    await this.base.checkWrite('update', path);
+    const content = this.base.applyPatch(await this.requireText(path), params);
+    await this.write(path, { content });
+    return { success: true, updated_content: content };
+  }
+
+  async deleteFile(path: string): ReturnType<ObsidianAPI['deleteFile']> {
+    await this.base.checkWrite('delete', path);
+    if (!exists(await this.state(path))) throw new Error(`File not found: ${path}`);
+    await this.write(path, { content: null });
+    return { success: true, path };
+  }
+
+  async moveFile(path: string, newPath: string): ReturnType<ObsidianAPI['moveFile']> {
+    await this.base.checkWrite('move', path, newPath);
+    return this.relocate(path, newPath);
+  }
+
+  async renameFile(path: string, newPath: string): ReturnType<ObsidianAPI['renameFile']> {
+    await this.base.checkWrite('rename', path, newPath);
+    return this.relocate(path, newPath);
+  }
+
+  private async relocate(path: string, newPath: string): ReturnType<ObsidianAPI['moveFile']> {
+    const state = await this.state(path);
+    if (!exists(state)) throw new Error(`File not found: ${path}`);
+    await this.write(newPath, state);
+    await this.write(path, { content: null });
+    this.moves.push({ from: path, to: newPath });
+    return { success: true, oldPath: path, newPath };
+  }
+
+  /** Every path whose final state differs from its original, with a combined diff. */
+  summarize(): { files: DryRunFileChange[]; diff: string } {
+    const files: DryRunFileChange[] = [];
+    const diffs: string[] = [];
+    const movedTo = new Map(this.moves.map(m => [m.to, m.from]));
+    const movedAway = new Set<string>();
+
+    for (const [to, from] of movedTo) {
+      const before = this.originals.get(from);
+      const after = this.overlay.get(to);
+      if (!before || !after || !exists(before) || !exists(after) || exists(this.overlay.get(from)!)) continue;
+      movedAway.add(from).add(to);
+      files.push({ path: to, change: 'moved', from });
+      const body = before.content !== null && after.content !== null
+        ? unifiedDiff(before.content, after.content, { oldLabel: `a/${from}`, newLabel: `b/${to}` })
+        : '';
+      diffs.push(body || `rename from ${from}\nrename to ${to}`);
+    }
+
+    for (const [path, before] of this.originals) {
+      if (movedAway.has(path)) continue;
+      const after = this.overlay.get(path)!;
+      if (!exists(before) && !exists(after)) continue;
+      if (!exists(before)) {
+        files.push({ path, change: 'created' });
+        diffs.push(after.content !== null
+          ? unifiedDiff('', after.content, { oldLabel: '/dev/null', newLabel: `b/${path}` })
+          : `Binary file ${path} created`);
+      } else if (!exists(after)) {
+        files.push({ path, change: 'deleted' });
+        diffs.push(before.content !== null
+          ? unifiedDiff(before.content, '', { oldLabel: `a/${path}`, newLabel: '/dev/null' })
+          : `Binary file ${path} deleted`);
+      } else if (before.content !== after.content || before.binaryFrom !== after.binaryFrom) {
+        files.push({ path, change: 'modified' });
+        diffs.push(before.content !== null && after.content !== null
+          ? unifiedDiff(before.content, after.content, { oldLabel: `a/${path}`, newLabel: `b/${path}` })
+          : `Binary file ${path} changed`);
+      }
+    }
+
+    return { files, diff: diffs.join('\n') };
+  }
+}
+
+/**
+ * Run `operation.action` against a `DryRunAPI` and return the preview.
+ * Throws for actions that do not support `dryRun`, so a preview request can
+ * never fall through to a real write.
+ */
+export async function executeDryRun(ctx: RouterContext, operation: string, action: string, params: Params): Promise<unknown> {
+  if (!DRY_RUN_ACTIONS[operation]?.includes(action)) {
+    const supported = Object.entries(DRY_RUN_ACTIONS)
+      .flatMap(([op, actions]) => actions.map(a => `${op}.${a}`))
+      .join(', ');
+    throw new Error(`dryRun is not supported for ${operation}.${action}; it is supported for: ${supported}.`);
+  }
+
+  const preview = new DryRunAPI(ctx.api);
+  const previewCtx: RouterContext = {
+    api: preview,
+    app: ctx.app,
+    fragmentRetriever: ctx.fragmentRetriever,
+    validator: ctx.validator,
+  };
+
+  let result: unknown;
+  if (operation === 'edit') {
+    result = action === 'batch'
+      ? await executeEditBatch(previewCtx, params)
+      : await executeEditOperation(previewCtx, action, params);
+  } else if (operation === 'tasks') {
+    result = await executeTasksOperation(previewCtx, action, params);
+  } else if (operation === 'properties') {
+    result = await executePropertiesOperation(previewCtx, action, params);
+  } else if (operation === 'canvas') {
+    result = await executeCanvasOperation(previewCtx, action, params);
+  } else if (operation === 'graph') {
+    result = action === 'link_mentions'
+      ? await executeLinkSuggestionsOperation(previewCtx, action, params)
+      : await executeBrokenLinksOperation(previewCtx, action, params);
+  } else {
+    result = await executeVaultOperation(previewCtx, action, params);
+  }
+
+  const { files, diff } = preview.summarize();
+  return {
+    dryRun: true,
+    operation: `${operation}.${action}`,
+    files,
+    diff,
+    result,
+    workflow: {
+      message: files.length > 0
+        ? `Dry run: ${files.length} file(s) would change. Nothing was written.`
+        : 'Dry run: no file would change. Nothing was written.',
+      suggested_next: files.length > 0
+        ? [{ description: 'Apply the change', command: `Repeat ${operation}.${action} with the same params and without dryRun` }]
+        : []
+    }
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * graph.export — the vault graph as a file Gephi, networkx or Graphviz can
+ * open (`utils/graph-formats.ts`).
+ *
+ * The graph is every note and canvas (within `folderFilter`), or with
+ * `sourcePath` the subgraph a breadth-first traversal reaches from that note.
+ * Edges are typed: `embed` for `![[…]]`, the property name for a link written
+ * in a frontmatter property or inline field (`parent`, `author`), `link` for
+ * every other link, `canvas` for a canvas card, and `tag` from a note to a
+ * `#tag` node unless `includeTags: false`. Frontmatter becomes node attributes. With
+ * `outputPath` the export is written to the vault; otherwise it is returned in
+ * pages of whole lines.
+ */
+import { TFile, getAllTags } from 'obsidian';
+import { FileLockManager } from '../../utils/file-lock';
+import { buildPage } from '../../utils/file-reader';
+import { GraphTraversal } from '../../utils/graph-traversal';
+import {
+  AttributeValue,
+  ExportEdge,
+  ExportGraph,
+  ExportNode,
+  GRAPH_EXPORT_FORMATS,
+  GraphExportFormat,
+  formatForPath,
+  serializeGraph,
+} from '../../utils/graph-formats';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramNum, paramBool } from './shared';
+
+/** Node attributes set from the file itself; frontmatter keys that collide are prefixed. */
+const BUILT_IN = ['id', 'label', 'kind', 'folder'];
+
+/** A subgraph export stops here unless `maxNodes` says otherwise. */
+const DEFAULT_MAX_NODES = 500;
+
+const isMissing = (error: unknown) => error instanceof Error && error.message.startsWith('File not found');
+
+export async function executeGraphExportOperation(ctx: RouterContext, params: Params): Promise<unknown> {
+  if (!ctx.app) {
+    throw new Error('Graph operations require Obsidian app context');
+  }
+  const outputPath = paramStr(params, 'outputPath');
+  const format = exportFormat(params, outputPath);
+
+  const traversal = new GraphTraversal(ctx.app, ctx.api.getReadExclusions());
+  await traversal.refreshCanvasLinks();
+  await traversal.refreshFieldLinks();
+  const { files, scope } = exportedFiles(ctx, traversal, params);
+  const graph = buildExportGraph(ctx, traversal, files, paramBool(params, 'includeTags') ?? true);
+  const content = serializeGraph(graph, format);
+  const summary = { format, scope, nodes: graph.nodes.length, edges: graph.edges.length };
+
+  if (outputPath) {
+    const overwrite = paramBool(params, 'overwrite') ?? false;
+    return FileLockManager.getInstance().withLock(outputPath, async () => {
+      const exists = await ctx.api.getFile(outputPath).then(() => true, (error: unknown) => {
+        if (!isMissing(error)) throw error;
+        return false;
+      });
+      if (exists && !overwrite) {
+        throw new Error(`File already exists: ${outputPath}. Set overwrite=true to replace.`);
+      }
+      if (exists) {
+        await ctx.api.updateFile(outputPath, content);
+      } else {
+        await ctx.api.createFile(outputPath, content);
+      }
+      return { ...summary, outputPath, bytes: content.length, created: !exists };
+    });
+  }
+
+  return { ...summary, ...exportPage(content, paramNum(params, 'page'), params) };
+}
+
+function exportFormat(params: Params, outputPath: string | undefined): GraphExportFormat {
+  const format = paramStr(params, 'format');
+  if (format === undefined) {
+    return (outputPath && formatForPath(outputPath)) || 'graphml';
+  }
+  const known = GRAPH_EXPORT_FORMATS.find(f => f === format.toLowerCase());
+  if (!known) {
+    throw new Error(`graph.export: format must be one of ${GRAPH_EXPORT_FORMATS.join(', ')}; got '${format}'.`);
+  }
+  return known;
+}
+
+/** The notes and canvases to export, and a name for that scope. */
+function exportedFiles(
+  ctx: RouterContext,
+  traversal: GraphTraversal,
+  params: Params
+): { files: TFile[]; scope: string } {
+  const sourcePath = paramStr(params, 'sourcePath');
+  if (sourcePath) {
+    if (traversal.isExcluded(sourcePath) || !(ctx.app!.vault.getAbstractFileByPath(sourcePath) instanceof TFile)) {
+      throw new OperationError(`File not found: ${sourcePath}`, 'FILE_NOT_FOUND');
+    }
+    const maxDepth = paramNum(params, 'maxDepth') ?? 3;
+    const result = traversal.breadthFirstTraversal(sourcePath, {
+      maxDepth,
+      maxNodes: paramNum(params, 'maxNodes') ?? DEFAULT_MAX_NODES,
+      followBacklinks: paramBool(params, 'followBacklinks') ?? true,
+      followForwardLinks: paramBool(params, 'followForwardLinks') ?? true,
+    });
+    const files = [...result.nodes.values()].flatMap(node => (node.file ? [node.file] : []));
+    return { files, scope: `${sourcePath} (depth ${maxDepth})` };
+  }
+
+  const folder = paramStr(params, 'folderFilter')?.replace(/^\/+|\/+$/g, '');
+  const prefix = folder ? `${folder}/` : '';
+  const files = ctx.app!.vault.getFiles()
+    .filter(f => (f.extension === 'md' || f.extension === 'canvas') && f.path.startsWith(prefix) && !traversal.isExcluded(f.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return { files, scope: folder || 'vault' };
+}
+
+function buildExportGraph(ctx: RouterContext, traversal: GraphTraversal, files: TFile[], includeTags: boolean): ExportGraph {
+  const { metadataCache } = ctx.app!;
+  const inGraph = new Set(files.map(f => f.path));
+  const nodes: ExportNode[] = [];
+  const edges: ExportEdge[] = [];
+  const tags = new Map<string, ExportNode>();
+  const tagEdges: ExportEdge[] = [];
+
+  for (const file of files) {
+    const cache = metadataCache.getFileCache(file);
+    nodes.push({
+      id: file.path,
+      label: traversal.getNodeTitle(file),
+      kind: file.extension === 'md' ? 'note' : file.extension === 'canvas' ? 'canvas' : 'file',
+      attributes: nodeAttributes(file, cache?.frontmatter),
+    });
+
+    // resolvedLinks counts embeds and links together; the cache tells them apart
+    const embeds = new Map<string, number>();
+    for (const embed of cache?.embeds ?? []) {
+      const target = metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], file.path);
+      if (target) embeds.set(target.path, (embeds.get(target.path) ?? 0) + 1);
+    }
+    for (const edge of traversal.getForwardLinks(file.path)) {
+      if (edge.target === file.path || !inGraph.has(edge.target)) continue;
+      const count = edge.count ?? 1;
+      if (edge.type === 'canvas' || edge.relation) {
+        edges.push({ source: file.path, target: edge.target, type: edge.relation ?? edge.type, weight: count });
+        continue;
+      }
+      const embedded = Math.min(embeds.get(edge.target) ?? 0, count);
+      if (embedded > 0) edges.push({ source: file.path, target: edge.target, type: 'embed', weight: embedded });
+      if (count > embedded) edges.push({ source: file.path, target: edge.target, type: 'link', weight: count - embedded });
+    }
+
+    if (includeTags && cache) {
+      const counts = new Map<string, number>();
+      for (const tag of getAllTags(cache) ?? []) {
+        const id = tag.startsWith('#') ? tag : `#${tag}`;
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+      for (const [id, weight] of counts) {
+        if (!tags.has(id)) tags.set(id, { id, label: id, kind: 'tag', attributes: {} });
+        tagEdges.push({ source: file.path, target: id, type: 'tag', weight });
+      }
+    }
+  }
+
+  const tagNodes = [...tags.values()].sort((a, b) => a.id.localeCompare(b.id));
+  return { nodes: [...nodes, ...tagNodes], edges: [...edges, ...tagEdges] };
+}
+
+/** The folder, then each frontmatter value as a string, number or boolean. */
+function nodeAttributes(file: TFile, frontmatter: Record<string, unknown> | undefined): Record<string, AttributeValue> {
+  const attributes: Record<string, AttributeValue> = { folder: file.parent?.path ?? file.path.split('/').slice(0, -1).join('/') };
+  for (const [key, value] of Object.entries(frontmatter ?? {})) {
+    if (key === 'position' || value === null || value === undefined) continue;
+    const name = BUILT_IN.includes(key) ? `frontmatter.${key}` : key;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes[name] = value;
+    } else if (Array.isArray(value)) {
+      attributes[name] = value.map(item => (typeof item === 'object' ? JSON.stringify(item) : String(item))).join(', ');
+    } else {
+      attributes[name] = JSON.stringify(value);
+    }
+  }
+  return attributes;
+}
+
+function exportPage(content: string, page: number | undefined, params: Params): Record<string, unknown> {
+  const lines = content.split('\n');
+  const requested = page !== undefined && page >= 1 ? Math.floor(page) : 1;
+  let built = buildPage(lines, 0);
+  let current = 1;
+  while (current < requested && built.nextIdx < lines.length) {
+    built = buildPage(lines, built.nextIdx);
+    current++;
+  }
+  if (current < requested) {
+    throw new Error(`graph.export: page ${requested} is past the end; the export has ${current} page(s).`);
+  }
+
+  let totalPages = current;
+  for (let next = built; next.nextIdx < lines.length; totalPages++) {
+    next = buildPage(lines, next.nextIdx);
+  }
+  const hasMore = current < totalPages;
+  const call = Object.entries({ ...params, page: current + 1 })
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(', ');
+  return {
+    content: built.text,
+    page: current,
+    totalPages,
+    bytes: content.length,
+    hasMore,
+    nextPage: hasMore ? `graph.export(${call})` : null,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * graph.hygiene — a maintenance report on the vault's notes and attachments.
+ *
+ * Findings, by category:
+ *   orphan                   a note with no links in or out
+ *   dead_end                 a note others link to that links nowhere
+ *   stale                    a note not modified in `staleMonths` that at
+ *                            least `minBacklinks` notes still link to
+ *   empty / stub             a note whose body (frontmatter aside) is blank,
+ *                            or under `stubSize` characters
+ *   duplicate_title          one file name used by notes in several folders
+ *   unreferenced_attachment  a file no note or canvas links to or embeds
+ * Notes are Markdown files and canvases; only links between notes count
+ * toward orphans and dead ends. Backlinks are counted in one pass over
+ * GraphTraversal.getForwardLinks — the edges getBacklinks returns, without
+ * its scan of every source per note. Links from notes the ignore file
+ * excludes are not counted.
+ *
+ * The findings are returned in pages (`paginateItems`), or with `outputPath`
+ * written whole as a Markdown report note. The report names files in code
+ * spans rather than links, so writing it does not link the orphans it lists,
+ * and a report already at `outputPath` is left out of the analysis.
+ */
+import { TFile } from 'obsidian';
+import { FileLockManager } from '../../utils/file-lock';
+import { GraphTraversal } from '../../utils/graph-traversal';
+import { stripFrontmatter } from '../../utils/frontmatter';
+import { DEFAULT_LIMITER_CONFIG, paginateItems } from '../../utils/response-limiter';
+import { RouterContext } from './router-context';
+import { Params, paramStr, paramNum, paramBool } from './shared';
+
+export type HygieneCategory =
+  | 'orphan'
+  | 'dead_end'
+  | 'stale'
+  | 'empty'
+  | 'stub'
+  | 'duplicate_title'
+  | 'unreferenced_attachment';
+
+export interface HygieneFinding {
+  category: HygieneCategory;
+  /** The file; for a duplicate title, the first of `paths`. */
+  path: string;
+  backlinks?: number;
+  /** ISO date of the last modification, for stale notes. */
+  modified?: string;
+  /** Characters in the body, for empty and stub notes. */
+  chars?: number;
+  /** Every note with the title, for a duplicate title. */
+  title?: string;
+  paths?: string[];
+  /** Bytes, for attachments. */
+  size?: number;
+}
+
+export interface HygieneThresholds {
+  staleMonths: number;
+  minBacklinks: number;
+  stubSize: number;
+}
+
+const CATEGORIES: readonly HygieneCategory[] = [
+  'orphan', 'dead_end', 'stale', 'empty', 'stub', 'duplicate_title', 'unreferenced_attachment',
+];
+
+const DEFAULTS: HygieneThresholds = { staleMonths: 6, minBacklinks: 3, stubSize: 100 };
+const DEFAULT_PAGE_SIZE = 50;
+/** Leave room in the response for the counts and pagination around a page. */
+const PAGE_LIMITS = { ...DEFAULT_LIMITER_CONFIG, maxTokens: DEFAULT_LIMITER_CONFIG.maxTokens * 0.75 };
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+
+const isNote = (file: TFile) => file.extension === 'md' || file.extension === 'canvas';
+const isAttachment = (file: TFile) => !isNote(file) && file.extension !== 'base';
+const isMissing = (error: unknown) => error instanceof Error && error.message.startsWith('File not found');
+
+export async function executeGraphHygieneOperation(ctx: RouterContext, params: Params): Promise<unknown> {
+  if (!ctx.app) {
+    throw new Error('Graph operations require Obsidian app context');
+  }
+  const thresholds: HygieneThresholds = {
+    staleMonths: positive(params, 'staleMonths', DEFAULTS.staleMonths),
+    minBacklinks: positive(params, 'minBacklinks', DEFAULTS.minBacklinks),
+    stubSize: positive(params, 'stubSize', DEFAULTS.stubSize),
+  };
+  const folder = paramStr(params, 'folderFilter')?.replace(/^\/+|\/+$/g, '');
+  const scope = folder || 'vault';
+  const outputPath = paramStr(params, 'outputPath');
+
+  const traversal = new GraphTraversal(ctx.app, ctx.api.getReadExclusions());
+  await traversal.refreshCanvasLinks();
+  const { findings, checked } = await findProblems(ctx, traversal, thresholds, folder, outputPath);
+  const counts = Object.fromEntries(CATEGORIES.map(category => [category, findings.filter(f => f.category === category).length]));
+  const summary = { scope, checked, thresholds, counts, totalFindings: findings.length };
+
+  if (outputPath) {
+    const report = hygieneReport(scope, checked, thresholds, findings, new Date());
+    const overwrite = paramBool(params, 'overwrite') ?? false;
+    return FileLockManager.getInstance().withLock(outputPath, async () => {
+      const exists = await ctx.api.getFile(outputPath).then(() => true, (error: unknown) => {
+        if (!isMissing(error)) throw error;
+        return false;
+      });
+      if (exists && !overwrite) {
+        throw new Error(`File already exists: ${outputPath}. Set overwrite=true to replace.`);
+      }
+      if (exists) {
+        await ctx.api.updateFile(outputPath, report);
+      } else {
+        await ctx.api.createFile(outputPath, report);
+      }
+      return { ...summary, outputPath, created: !exists };
+    });
+  }
+
+  const page = Math.max(1, Math.floor(paramNum(params, 'page') ?? 1));
+  const pageSize = positive(params, 'pageSize', DEFAULT_PAGE_SIZE);
+  const paged = paginateItems(findings, page, pageSize, PAGE_LIMITS);
+  if (page > Math.max(1, paged.totalPages)) {
+    throw new Error(`graph.hygiene: page ${page} is past the end; the report has ${paged.totalPages} page(s).`);
+  }
+  const call = Object.entries({ ...params, page: page + 1 })
+    .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+    .join(', ');
+  return {
+    ...summary,
+    findings: paged.items,
+    page: paged.page,
+    totalPages: Math.max(1, paged.totalPages),
+    hasMore: paged.hasMore,
+    nextPage: paged.hasMore ? `graph.hygiene(${call})` : null,
+  };
+}
+
+function positive(params: Params, key: string, fallback: number): number {
+  const value = paramNum(params, key) ?? fallback;
+  if (!(value > 0)) throw new Error(`graph.hygiene: ${key} must be a positive number, got ${value}`);
+  return value;
+}
+
+async function findProblems(
+  ctx: RouterContext,
+  traversal: GraphTraversal,
+  thresholds: HygieneThresholds,
+  folder: string | undefined,
+  reportPath: string | undefined
+): Promise<{ findings: HygieneFinding[]; checked: { notes: number; attachments: number } }> {
+  const nodes = traversal.getAllNodes().filter(node => node.file && node.path !== reportPath);
+  const files = new Map(nodes.map(node => [node.path, node.file!]));
+  const inScope = (path: string) => !folder || path.startsWith(`${folder}/`);
+
+  // Notes linking in (to anything) and notes linked to, over the whole vault;
+  // one note can have several edges to another, one per relation
+  const linkedFrom = new Map<string, Set<string>>();
+  const outgoing = new Set<string>();
+  for (const [path, file] of files) {
+    if (!isNote(file)) continue;
+    for (const edge of traversal.getForwardLinks(path)) {
+      const target = files.get(edge.target);
+      if (edge.target === path || !target) continue;
+      linkedFrom.set(edge.target, (linkedFrom.get(edge.target) ?? new Set<string>()).add(path));
+      if (isNote(target)) outgoing.add(path);
+    }
+  }
+  const backlinks = new Map([...linkedFrom].map(([path, sources]) => [path, sources.size]));
+
+  const notes = [...files.values()].filter(f => isNote(f) && inScope(f.path)).sort((a, b) => a.path.localeCompare(b.path));
+  const attachments = [...files.values()].filter(f => isAttachment(f) && inScope(f.path)).sort((a, b) => a.path.localeCompare(b.path));
+
+  const findings: HygieneFinding[] = [];
+  for (const file of notes) {
+    const linksIn = backlinks.get(file.path) ?? 0;
+    if (linksIn === 0 && !outgoing.has(file.path)) {
+      findings.push({ category: 'orphan', path: file.path });
+    } else if (linksIn > 0 && !outgoing.has(file.path)) {
+      findings.push({ category: 'dead_end', path: file.path, backlinks: linksIn });
+    }
+  }
+
+  const staleBefore = Date.now() - thresholds.staleMonths * MONTH_MS;
+  findings.push(...notes
+    .filter(file => file.stat.mtime < staleBefore && (backlinks.get(file.path) ?? 0) >= thresholds.minBacklinks)
+    .sort((a, b) => (backlinks.get(b.path) ?? 0) - (backlinks.get(a.path) ?? 0) || a.path.localeCompare(b.path))
+    .map((file): HygieneFinding => ({
+      category: 'stale',
+      path: file.path,
+      backlinks: backlinks.get(file.path) ?? 0,
+      modified: new Date(file.stat.mtime).toISOString().slice(0, 10),
+    })));
+
+  // A UTF-8 body takes at most three bytes per character, so only notes
+  // whose size leaves room for a stub are read
+  for (const file of notes) {
+    if (file.extension !== 'md') continue;
+    const frontmatterEnd = ctx.app!.metadataCache.getFileCache(file)?.frontmatterPosition?.end.offset ?? 0;
+    if (file.stat.size - frontmatterEnd >= thresholds.stubSize * 3) continue;
+    const content = await ctx.api.getFile(file.path).then(
+      read => (typeof read === 'string' ? read : 'content' in read ? read.content : undefined),
+      () => undefined
+    );
+    if (content === undefined) continue;
+    const chars = stripFrontmatter(content).trim().length;
+    if (chars === 0) findings.push({ category: 'empty', path: file.path, chars });
+    else if (chars < thresholds.stubSize) findings.push({ category: 'stub', path: file.path, chars });
+  }
+
+  const byTitle = new Map<string, string[]>();
+  for (const file of notes) {
+    if (file.extension !== 'md') continue;
+    const key = file.basename.toLowerCase();
+    byTitle.set(key, [...(byTitle.get(key) ?? []), file.path]);
+  }
+  for (const paths of byTitle.values()) {
+    if (paths.length < 2) continue;
+    findings.push({ category: 'duplicate_title', path: paths[0], title: files.get(paths[0])!.basename, paths });
+  }
+
+  for (const file of attachments) {
+    if (!backlinks.has(file.path)) {
+      findings.push({ category: 'unreferenced_attachment', path: file.path, size: file.stat.size });
+    }
+  }
+
+  findings.sort((a, b) => CATEGORIES.indexOf(a.category) - CATEGORIES.indexOf(b.category));
+  return { findings, checked: { notes: notes.length, attachments: attachments.length } };
+}
+
+const SECTIONS: Array<{ categories: HygieneCategory[]; title: string; explain: (t: HygieneThresholds) => string }> = [
+  { categories: ['orphan'], title: 'Orphans', explain: () => 'No links in or out.' },
+  { categories: ['dead_end'], title: 'Dead ends', explain: () => 'Linked to, but link to no other note.' },
+  {
+    categories: ['stale'],
+    title: 'Stale but linked',
+    explain: t => `Not modified in ${t.staleMonths} months, with at least ${t.minBacklinks} backlinks.`,
+  },
+  {
+    categories: ['empty', 'stub'],
+    title: 'Empty and stub notes',
+    explain: t => `Under ${t.stubSize} characters, frontmatter aside.`,
+  },
+  { categories: ['duplicate_title'], title: 'Duplicate titles', explain: () => 'The same file name in more than one folder.' },
+  { categories: ['unreferenced_attachment'], title: 'Unreferenced attachments', explain: () => 'No note or canvas links to or embeds them.' },
+];
+
+function findingLine(finding: HygieneFinding): string {
+  const path = `\`${finding.path}\``;
+  switch (finding.category) {
+    case 'dead_end':
+      return `- ${path} — ${finding.backlinks} backlinks`;
+    case 'stale':
+      return `- ${path} — ${finding.backlinks} backlinks, last modified ${finding.modified}`;
+    case 'empty':
+      return `- ${path} — empty`;
+    case 'stub':
+      return `- ${path} — ${finding.chars} characters`;
+    case 'duplicate_title':
+      return `- ${finding.title}: ${(finding.paths ?? []).map(p => `\`${p}\``).join(', ')}`;
+    case 'unreferenced_attachment':
+      return `- ${path} — ${finding.size} bytes`;
+    default:
+      return `- ${path}`;
+  }
+}
+
+/** The whole report as a Markdown note. */
+export function hygieneReport(
+  scope: string,
+  checked: { notes: number; attachments: number },
+  thresholds: HygieneThresholds,
+  findings: HygieneFinding[],
+  generated: Date
+): string {
+  const lines = [
+    '---',
+    `generated: ${generated.toISOString()}`,
+    `scope: ${scope}`,
+    '---',
+    '# Vault hygiene report',
+    '',
+    `${checked.notes} notes and ${checked.attachments} attachments checked in ${scope}; ${findings.length} findings.`,
+  ];
+  for (const section of SECTIONS) {
+    const found = findings.filter(f => section.categories.includes(f.category));
+    lines.push('', `## ${section.title} (${found.length})`, '', section.explain(thresholds), '');
+    lines.push(...(found.length > 0 ? found.map(findingLine) : ['None.']));
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,272 @@
+/**
+ * vault.history / vault.undo — read and revert the operation journal.
+ *
+ * The journal (`utils/operation-journal.ts`) holds the before/after content of
+ * every write that went through `SecureObsidianAPI`. `undo` reverts one entry
+ * by id, or every not-yet-undone entry of one MCP session, newest-first.
+ *
+ * Before anything is written, every target path is checked against the
+ * content the journal expects it to have (replaying the reverts in order, so
+ * a session that edited one note three times checks once). A note edited
+ * since — by hand or by another session — is a CONFLICT, not silently
+ * overwritten; `force: true` reverts anyway.
+ *
+ * The reverts go through `ctx.api`, so they are permission-checked and
+ * journaled themselves (tagged `undoes`), which is what marks the original
+ * as undone and makes an undo undoable.
+ *
+ * Both actions only see entries whose paths the session may read, so a scoped
+ * key or `.mcpignore` hides journaled notes here as everywhere else. A session
+ * opened with a scoped key may only undo its own session's operations; the
+ * main key may undo any.
+ */
+import { isImageFile as isImageResponse } from '../../types/obsidian';
+import { FileLockManager } from '../../utils/file-lock';
+import { OperationJournal, JournalEntry, isJournaledText } from '../../utils/operation-journal';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramNum, paramBool } from './shared';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+interface Conflict {
+  id: string;
+  path: string;
+  reason: string;
+}
+
+function requireJournal(action: string): OperationJournal {
+  const journal = OperationJournal.getInstance();
+  if (!journal.isAttached()) {
+    throw new OperationError(
+      `vault.${action} is unavailable: the operation journal is not enabled.`,
+      'JOURNAL_UNAVAILABLE'
+    );
+  }
+  return journal;
+}
+
+function isVisible(ctx: RouterContext, entry: JournalEntry): boolean {
+  return ctx.api.isReadable(entry.path) && (!entry.targetPath || ctx.api.isReadable(entry.targetPath));
+}
+
+export function executeHistory(ctx: RouterContext, params: Params): unknown {
+  const journal = requireJournal('history');
+  const limit = Math.max(1, paramNum(params, 'limit') ?? DEFAULT_HISTORY_LIMIT);
+  const undone = journal.getUndoneIds();
+  const matching = journal.getEntries({
+    sessionId: paramStr(params, 'sessionId'),
+    path: paramStr(params, 'path'),
+  }).filter(e => isVisible(ctx, e));
+
+  return {
+    total: matching.length,
+    entries: matching.slice(-limit).reverse().map(e => ({
+      id: e.id,
+      timestamp: new Date(e.timestamp).toISOString(),
+      sessionId: e.sessionId,
+      call: e.tool ? `${e.tool}.${e.action ?? '?'}` : undefined,
+      type: e.type,
+      path: e.path,
+      targetPath: e.targetPath,
+      folder: e.folder,
+      beforeChars: e.before?.length ?? null,
+      afterChars: e.after?.length ?? null,
+      undone: undone.has(e.id),
+      undoes: e.undoes,
+    })),
+  };
+}
+
+/** Entries to revert, newest-first. */
+function selectEntries(ctx: RouterContext, journal: OperationJournal, params: Params): JournalEntry[] {
+  const id = paramStr(params, 'id');
+  const sessionId = paramStr(params, 'sessionId');
+  if (!id === !sessionId) {
+    throw new Error("vault.undo requires exactly one of 'id' (one entry) or 'sessionId' (a whole session).");
+  }
+
+  const caller = OperationJournal.currentContext();
+  const mayUndo = (entry: JournalEntry) =>
+    isVisible(ctx, entry) && (caller?.keyName === undefined || entry.sessionId === caller.sessionId);
+
+  const undone = journal.getUndoneIds();
+  if (id) {
+    const entry = journal.getEntry(id);
+    if (!entry || !mayUndo(entry)) {
+      throw new OperationError(`No journal entry with id ${id}. Use vault.history to list entries.`, 'NOT_FOUND');
+    }
+    if (undone.has(id)) {
+      throw new OperationError(`Journal entry ${id} has already been undone.`, 'ALREADY_UNDONE');
+    }
+    return [entry];
+  }
+
+  // Undo entries are the session's own bookkeeping, not operations to revert.
+  const entries = journal.getEntries({ sessionId })
+    .filter(e => !undone.has(e.id) && !e.undoes && mayUndo(e))
+    .reverse();
+  if (entries.length === 0) {
+    throw new OperationError(`Session ${sessionId} has no journaled operations left to undo.`, 'NOT_FOUND');
+  }
+  return entries;
+}
+
+async function readCurrent(ctx: RouterContext, path: string): Promise<string | null> {
+  try {
+    const file = await ctx.api.getFile(path);
+    if (isImageResponse(file)) return null;
+    return typeof file === 'string' ? file : file.content;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check every entry against the content its revert expects to find, replaying
+ * earlier reverts into `simulated` so later checks see the state they will
+ * actually meet.
+ */
+async function findConflicts(ctx: RouterContext, entries: JournalEntry[]): Promise<Conflict[]> {
+  const simulated = new Map<string, string | null>();
+  const current = async (path: string) =>
+    simulated.has(path) ? simulated.get(path)! : readCurrent(ctx, path);
+  const conflicts: Conflict[] = [];
+
+  for (const entry of entries) {
+    if (entry.type === 'move' || entry.type === 'rename') {
+      const to = entry.targetPath!;
+      if ((await current(to)) === null) {
+        conflicts.push({ id: entry.id, path: to, reason: 'file no longer exists at its new path' });
+      } else if ((await current(entry.path)) !== null) {
+        conflicts.push({ id: entry.id, path: entry.path, reason: 'original path is occupied again' });
+      }
+      simulated.set(entry.path, await current(to));
+      simulated.set(to, null);
+      continue;
+    }
+
+    const found = await current(entry.path);
+    if (found !== entry.after) {
+      conflicts.push({
+        id: entry.id,
+        path: entry.path,
+        reason: entry.after === null
+          ? 'file was recreated after it was deleted'
+          : found === null
+            ? 'file no longer exists'
+            : 'file changed since this operation',
+      });
+    }
+    simulated.set(entry.path, entry.before);
+  }
+  return conflicts;
+}
+
+async function revert(ctx: RouterContext, entry: JournalEntry): Promise<void> {
+  // Charged like any other write: an undo deletes what a create made and
+  // replays earlier content, so leaving it unmetered would let a session
+  // delete or rewrite past its limits
+  await OperationJournal.runInContext({ undoes: entry.id }, async () => {
+    const existing = await readCurrent(ctx, entry.path);
+    switch (entry.type) {
+      case 'create':
+        if (existing !== null) await ctx.api.deleteFile(entry.path);
+        return;
+      case 'delete':
+        if (existing === null) {
+          await ctx.api.createFile(entry.path, entry.before ?? '');
+        } else {
+          await ctx.api.updateFile(entry.path, entry.before ?? '');
+        }
+        return;
+      case 'move':
+        await ctx.api.moveFile(entry.targetPath!, entry.path);
+        return;
+      case 'rename':
+        await ctx.api.renameFile(entry.targetPath!, entry.path);
+        return;
+      default:
+        if (entry.before === null) {
+          if (existing !== null) await ctx.api.deleteFile(entry.path);
+        } else if (existing === null) {
+          await ctx.api.createFile(entry.path, entry.before);
+        } else {
+          await ctx.api.updateFile(entry.path, entry.before);
+        }
+    }
+  });
+}
+
+export async function executeUndo(ctx: RouterContext, params: Params): Promise<unknown> {
+  const journal = requireJournal('undo');
+  const entries = selectEntries(ctx, journal, params);
+  const force = paramBool(params, 'force') ?? false;
+
+  // Folder contents and binary content are never journaled, so there is
+  // nothing to restore them from; not even `force` may turn that into a
+  // delete or an empty file.
+  const folder = entries.find(e => e.type === 'delete' && e.folder);
+  if (folder) {
+    throw new OperationError(
+      `vault.undo cannot revert delete of folder ${folder.path}: folder contents are not journaled. ` +
+        'Restore it from the trash.',
+      'UNDO_UNSUPPORTED',
+      { id: folder.id }
+    );
+  }
+  const binary = entries.find(e => e.type !== 'move' && e.type !== 'rename' && !e.folder && !isJournaledText(e.path));
+  if (binary) {
+    throw new OperationError(
+      `vault.undo cannot revert ${binary.type} of ${binary.path}: binary file content is not journaled.`,
+      'UNDO_UNSUPPORTED',
+      { id: binary.id }
+    );
+  }
+  const paths = Array.from(new Set(entries.flatMap(e => (e.targetPath ? [e.path, e.targetPath] : [e.path]))));
+
+  return FileLockManager.getInstance().withLocks(paths, async () => {
+    const conflicts = await findConflicts(ctx, entries);
+    if (conflicts.length > 0 && !force) {
+      throw new OperationError(
+        `vault.undo refused: ${conflicts.length} file(s) changed since the journaled operation ` +
+          `(${conflicts.map(c => c.path).join(', ')}). Nothing was reverted. Pass force: true to revert anyway.`,
+        'CONFLICT',
+        { conflicts }
+      );
+    }
+
+    const reverted: string[] = [];
+    for (const entry of entries) {
+      try {
+        await revert(ctx, entry);
+        reverted.push(entry.id);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const reasonCode = error && typeof error === 'object' && 'code' in error
+          ? String((error as Record<string, unknown>).code)
+          : undefined;
+        throw new OperationError(
+          `vault.undo failed on ${entry.type} of ${entry.path}: ${reason}. ` +
+            `${reverted.length} of ${entries.length} operation(s) were reverted before the failure.`,
+          'UNDO_FAILED',
+          { failedId: entry.id, reason, reasonCode, reverted }
+        );
+      }
+    }
+
+    return {
+      success: true,
+      reverted: entries.map(e => ({ id: e.id, type: e.type, path: e.path, targetPath: e.targetPath })),
+      forced: force && conflicts.length > 0 ? conflicts : undefined,
+      workflow: {
+        message: `Reverted ${entries.length} operation(s) across ${paths.length} file(s)`,
+        suggested_next: [
+          {
+            description: 'Review the journal, including this undo',
+            command: "vault(action='history')"
+          }
+        ]
+      }
+    };
+  });
+}
@@ -0,0 +1,403 @@
+/**
+ * graph.suggest_links and graph.link_mentions — links a note is missing.
+ *
+ * `suggest_links` reports, for one note:
+ *   outgoing  unlinked mentions in the note of other notes' names and aliases
+ *   incoming  unlinked mentions of the note in other notes (Obsidian's
+ *             "Unlinked mentions" pane)
+ *   related   notes it does not link to yet, ranked by the tags they share
+ *             (rarer tags count for more), how many notes link to both
+ *             (co-citation), whether they already link to it, and whether it
+ *             mentions them
+ * Each mention carries its line and an `edit.at_line` call that links it,
+ * guarded by `expectedHash`. `link_mentions` links chosen mentions (by id)
+ * or all of them in one go, each note under its file lock; `dryRun: true`
+ * previews the change as a diff.
+ */
+import { App, TFile } from 'obsidian';
+import { isImageFile } from '../../types/obsidian';
+import { SecurityError } from '../../security';
+import { FileLockManager } from '../../utils/file-lock';
+import { ContentVersionStore } from '../../utils/content-version';
+import { GraphTraversal } from '../../utils/graph-traversal';
+import { LinkResolver, createLinkResolver } from '../../utils/link-rewriter';
+import { NoteName, UnlinkedMention, findUnlinkedMentions, linkMentionsInLine } from '../../utils/unlinked-mentions';
+import { GraphTagTool, TagAnalysisResult } from '../../tools/graph-tag-tool';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramNum, requireParamStr } from './shared';
+
+export type MentionDirection = 'outgoing' | 'incoming';
+
+export interface MentionSuggestion {
+  /** `path:line:column`, for `link_mentions`. */
+  id: string;
+  direction: MentionDirection;
+  /** The note the mention is written in. */
+  path: string;
+  line: number;
+  /** 1-based column of the mention. */
+  column: number;
+  text: string;
+  /** The note it names. */
+  target: string;
+  /** The line as it is now. */
+  context: string;
+  /** The link that would replace the mention. */
+  link: string;
+  edit: { operation: 'edit'; action: 'at_line'; params: Record<string, unknown> };
+}
+
+export interface RelatedNote {
+  path: string;
+  title: string;
+  score: number;
+  sharedTags: string[];
+  /** Notes that link to both. */
+  coCitations: number;
+  linksHere: boolean;
+  /** Unlinked mentions of it in the note. */
+  mentions: number;
+  edit: { operation: 'edit'; action: 'at_line' | 'append'; params: Record<string, unknown> };
+}
+
+const DEFAULT_LIMIT = 10;
+/** Mentions listed per direction; the totals are always reported. */
+const MAX_MENTIONS = 100;
+const DIRECTIONS: readonly MentionDirection[] = ['outgoing', 'incoming'];
+
+const isNote = (path: string) => path.toLowerCase().endsWith('.md');
+const withoutMd = (path: string) => path.replace(/\.md$/i, '');
+const fileName = (path: string) => withoutMd(path.split('/').pop() ?? path);
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export async function executeLinkSuggestionsOperation(ctx: RouterContext, action: string, params: Params): Promise<unknown> {
+  switch (action) {
+    case 'suggest_links':
+      return suggestLinks(ctx, params);
+    case 'link_mentions':
+      return linkMentions(ctx, params);
+    default:
+      throw new Error(`Unknown graph action: ${action}`);
+  }
+}
+
+// ---- The vault as the suggestions see it ------------------------------------------
+
+interface NoteIndex {
+  app: App;
+  notes: string[];
+  listed: Set<string>;
+  resolve: LinkResolver;
+  /** File names and aliases of every note. */
+  names: NoteName[];
+  read(path: string): Promise<string | undefined>;
+}
+
+/** `aliases` (or `alias`) from frontmatter: a list, or a comma-separated string. */
+function aliasesOf(frontmatter: Record<string, unknown> | undefined): string[] {
+  const value = frontmatter?.aliases ?? frontmatter?.alias;
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list.filter((alias): alias is string => typeof alias === 'string' && alias.trim() !== '').map(alias => alias.trim());
+}
+
+async function buildIndex(ctx: RouterContext): Promise<NoteIndex> {
+  if (!ctx.app) {
+    throw new Error('Graph operations require Obsidian app context');
+  }
+  const app = ctx.app;
+  const paths = await ctx.api.listFiles();
+  const notes = paths.filter(isNote);
+  const contents = new Map<string, Promise<string | undefined>>();
+
+  // File names before aliases, so an alias never takes over another note's name
+  const names: NoteName[] = notes.map(path => ({ name: fileName(path), target: path }));
+  for (const path of notes) {
+    const file = app.vault.getAbstractFileByPath(path);
+    const frontmatter = file instanceof TFile ? app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+    for (const alias of aliasesOf(frontmatter)) names.push({ name: alias, target: path });
+  }
+
+  return {
+    app,
+    notes,
+    listed: new Set(paths),
+    resolve: createLinkResolver(paths),
+    names,
+    read(path) {
+      let content = contents.get(path);
+      if (!content) {
+        content = ctx.api.getFile(path).then(
+          file => (isImageFile(file) ? undefined : typeof file === 'string' ? file : file.content),
+          () => undefined
+        );
+        contents.set(path, content);
+      }
+      return content;
+    },
+  };
+}
+
+/** Names as seen from `source`: a file name counts only for the note a bare link of it reaches there. */
+function namesFrom(index: NoteIndex, source: string): NoteName[] {
+  return index.names.filter(({ name, target }) =>
+    name !== fileName(target) || index.resolve({ kind: 'wikilink', target: name }, source) === target
+  );
+}
+
+/** The wikilink that replaces a mention: `[[Note]]`, or `[[Note|as written]]`. */
+function mentionLink(index: NoteIndex, source: string, mention: UnlinkedMention): string {
+  const name = fileName(mention.target);
+  const target = index.resolve({ kind: 'wikilink', target: name }, source) === mention.target
+    ? name
+    : withoutMd(mention.target);
+  return mention.text === target ? `[[${target}]]` : `[[${target}|${mention.text}]]`;
+}
+
+function suggestion(
+  index: NoteIndex,
+  direction: MentionDirection,
+  path: string,
+  content: string,
+  mention: UnlinkedMention
+): MentionSuggestion {
+  const line = content.split('\n')[mention.line - 1];
+  const link = mentionLink(index, path, mention);
+  return {
+    id: `${path}:${mention.line}:${mention.start + 1}`,
+    direction,
+    path,
+    line: mention.line,
+    column: mention.start + 1,
+    text: mention.text,
+    target: mention.target,
+    context: line,
+    link,
+    edit: {
+      operation: 'edit',
+      action: 'at_line',
+      params: {
+        path,
+        lineNumber: mention.line,
+        mode: 'replace',
+        content: linkMentionsInLine(line, [{ ...mention, link }]),
+        expectedHash: ContentVersionStore.hash(content),
+      },
+    },
+  };
+}
+
+/** Unlinked mentions in the note of other notes, and of the note in other notes. */
+async function findMentions(index: NoteIndex, path: string, directions: readonly MentionDirection[]): Promise<MentionSuggestion[]> {
+  const found: MentionSuggestion[] = [];
+
+  if (directions.includes('outgoing')) {
+    const content = await index.read(path);
+    if (content !== undefined) {
+      for (const mention of findUnlinkedMentions(content, namesFrom(index, path), path)) {
+        found.push(suggestion(index, 'outgoing', path, content, mention));
+      }
+    }
+  }
+
+  if (directions.includes('incoming')) {
+    const own = index.names.filter(name => name.target === path);
+    for (const source of index.notes) {
+      if (source === path) continue;
+      const content = await index.read(source);
+      if (content === undefined) continue;
+      const names = own.filter(({ name }) => name !== fileName(path) || index.resolve({ kind: 'wikilink', target: name }, source) === path);
+      for (const mention of findUnlinkedMentions(content, names, source)) {
+        found.push(suggestion(index, 'incoming', source, content, mention));
+      }
+    }
+  }
+
+  return found;
+}
+
+function notePath(index: NoteIndex, params: Params, action: string): string {
+  const path = requireParamStr(params, 'sourcePath', action);
+  if (!index.listed.has(path) || !isNote(path)) {
+    throw new OperationError(`File not found: ${path}`, 'FILE_NOT_FOUND');
+  }
+  return path;
+}
+
+// ---- Related notes -----------------------------------------------------------
+
+async function relatedNotes(
+  ctx: RouterContext,
+  index: NoteIndex,
+  path: string,
+  outgoing: MentionSuggestion[],
+  limit: number
+): Promise<RelatedNote[]> {
+  const traversal = new GraphTraversal(index.app, ctx.api.getReadExclusions());
+  await traversal.refreshCanvasLinks();
+  const linked = new Set(traversal.getForwardLinks(path).map(edge => edge.target));
+  const backlinks = new Set(traversal.getBacklinks(path).map(edge => edge.source));
+  const candidate = (other: string) => other !== path && index.listed.has(other) && isNote(other) && !linked.has(other);
+
+  const related = new Map<string, { tags: number; sharedTags: string[]; coCitations: number; linksHere: boolean; mentions: MentionSuggestion[] }>();
+  const entry = (other: string) => {
+    let found = related.get(other);
+    if (!found) {
+      found = { tags: 0, sharedTags: [], coCitations: 0, linksHere: false, mentions: [] };
+      related.set(other, found);
+    }
+    return found;
+  };
+
+  // A tag on few notes says more than one on many
+  const tags = await new GraphTagTool(index.app, ctx.api).execute({ action: 'tag-analysis', startPath: path }) as TagAnalysisResult;
+  for (const [tag, others] of Object.entries(tags.tagConnections)) {
+    const visible = others.filter(candidate);
+    const weight = 1 / Math.log2(2 + visible.length);
+    for (const other of visible) {
+      const found = entry(other);
+      found.tags += weight;
+      found.sharedTags.push(tag);
+    }
+  }
+
+  for (const citing of backlinks) {
+    if (citing === path) continue;
+    if (candidate(citing)) entry(citing).linksHere = true;
+    for (const target of new Set(traversal.getForwardLinks(citing).map(edge => edge.target))) {
+      if (candidate(target)) entry(target).coCitations++;
+    }
+  }
+
+  for (const mention of outgoing) {
+    if (candidate(mention.target)) entry(mention.target).mentions.push(mention);
+  }
+
+  const content = await index.read(path);
+  return [...related.entries()]
+    .map(([other, found]): RelatedNote => {
+      const score = found.tags + found.coCitations + Number(found.linksHere) + Number(found.mentions.length > 0);
+      const [first] = found.mentions;
+      return {
+        path: other,
+        title: traversal.getNodeTitleForPath(other),
+        score: Math.round(score * 1000) / 1000,
+        sharedTags: found.sharedTags,
+        coCitations: found.coCitations,
+        linksHere: found.linksHere,
+        mentions: found.mentions.length,
+        edit: first
+          ? first.edit
+          : {
+            operation: 'edit',
+            action: 'append',
+            params: {
+              path,
+              content: `- ${mentionLink(index, path, { line: 0, start: 0, end: 0, text: fileName(other), target: other })}`,
+              ...(content !== undefined ? { expectedHash: ContentVersionStore.hash(content) } : {}),
+            },
+          },
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
+
+// ---- Actions -----------------------------------------------------------------
+
+async function suggestLinks(ctx: RouterContext, params: Params): Promise<unknown> {
+  const index = await buildIndex(ctx);
+  const path = notePath(index, params, 'graph.suggest_links');
+  const limit = Math.max(1, paramNum(params, 'limit') ?? DEFAULT_LIMIT);
+
+  const mentions = await findMentions(index, path, DIRECTIONS);
+  const outgoing = mentions.filter(m => m.direction === 'outgoing');
+  const incoming = mentions.filter(m => m.direction === 'incoming');
+  const related = await relatedNotes(ctx, index, path, outgoing, limit);
+
+  return {
+    sourcePath: path,
+    outgoing: outgoing.slice(0, MAX_MENTIONS),
+    incoming: incoming.slice(0, MAX_MENTIONS),
+    totals: { outgoing: outgoing.length, incoming: incoming.length },
+    related,
+    workflow: {
+      message: `${outgoing.length} unlinked mention(s) in ${path}, ${incoming.length} of it elsewhere, ${related.length} related note(s).`,
+      suggested_next: mentions.length > 0
+        ? [{ description: 'Link mentions in bulk', command: `graph.link_mentions(sourcePath='${path}', mentions=[ids]) — dryRun=true to preview` }]
+        : [],
+    },
+  };
+}
+
+function directionParam(params: Params): readonly MentionDirection[] {
+  const direction = paramStr(params, 'direction');
+  if (direction === undefined || direction === 'both') return DIRECTIONS;
+  if (!DIRECTIONS.includes(direction as MentionDirection)) {
+    throw new Error(`graph.link_mentions: direction must be outgoing, incoming or both; got '${direction}'.`);
+  }
+  return [direction as MentionDirection];
+}
+
+async function linkMentions(ctx: RouterContext, params: Params): Promise<unknown> {
+  const index = await buildIndex(ctx);
+  const path = notePath(index, params, 'graph.link_mentions');
+  const directions = directionParam(params);
+  const requested = params.mentions;
+  if (requested !== undefined && (!Array.isArray(requested) || requested.some(id => typeof id !== 'string'))) {
+    throw new Error('graph.link_mentions: mentions must be a list of mention ids from graph.suggest_links.');
+  }
+  const chosen = requested as string[] | undefined;
+
+  const found = await findMentions(index, path, directions);
+  const selected = chosen ? found.filter(m => chosen.includes(m.id)) : found;
+  const missing = chosen ? chosen.filter(id => !found.some(m => m.id === id)) : [];
+
+  const byFile = new Map<string, MentionSuggestion[]>();
+  for (const mention of selected) byFile.set(mention.path, [...(byFile.get(mention.path) ?? []), mention]);
+
+  const linked: Array<MentionSuggestion & { after: string }> = [];
+  const failed: Array<{ path: string; reason: string }> = [];
+  const files: string[] = [];
+
+  for (const [file, mentions] of byFile) {
+    try {
+      await FileLockManager.getInstance().withLock(file, async () => {
+        const current = await ctx.api.getFile(file);
+        if (isImageFile(current)) return;
+        const content = typeof current === 'string' ? current : current.content;
+        // Only what was found is linked: a note changed since is skipped, not guessed at
+        const lines = content.split('\n');
+        const stale = mentions.filter(m => lines[m.line - 1] !== m.context);
+        if (stale.length > 0) {
+          throw new Error(`${file} changed since it was scanned; run graph.suggest_links again.`);
+        }
+        const byLine = new Map<number, MentionSuggestion[]>();
+        for (const mention of mentions) byLine.set(mention.line, [...(byLine.get(mention.line) ?? []), mention]);
+        for (const [line, onLine] of byLine) {
+          const spans = onLine.map(m => ({ line, start: m.column - 1, end: m.column - 1 + m.text.length, text: m.text, target: m.target, link: m.link }));
+          lines[line - 1] = linkMentionsInLine(lines[line - 1], spans);
+          for (const mention of onLine) linked.push({ ...mention, after: lines[line - 1] });
+        }
+        await ctx.api.updateFile(file, lines.join('\n'));
+        files.push(file);
+      });
+    } catch (error) {
+      if (error instanceof SecurityError) throw error;
+      failed.push({ path: file, reason: errorMessage(error) });
+    }
+  }
+
+  return {
+    sourcePath: path,
+    files,
+    linked,
+    missing,
+    failed,
+    workflow: {
+      message: `Linked ${linked.length} mention(s) in ${files.length} file(s).`,
+      suggested_next: missing.length > 0
+        ? [{ description: 'Some ids no longer match a mention', command: `graph.suggest_links(sourcePath='${path}') for current ids` }]
+        : [],
+    },
+  };
+}
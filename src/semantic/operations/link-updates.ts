@@ -0,0 +1,231 @@
+/**
+ * Link updates for `vault.move`/`vault.rename` and heading renames
+ * (`edit.patch` with `targetType: heading, operation: rename`).
+ *
+ * Obsidian rewrites links on a rename only when "Automatically update
+ * internal links" is on, so these do it themselves (`utils/link-rewriter.ts`).
+ * A move is two steps: `prepareMove` reads the notes (and canvases) that
+ * link to the file before it moves, then `applyMove` rewrites them once it
+ * has. Only files Obsidian's link index lists as linking to the file are read
+ * (`linkCandidates`), not the whole vault. A link is rewritten only if it
+ * reached the old path before the move and no longer reaches the file after
+ * it, so links Obsidian already updated are left alone — but still reported,
+ * since the report compares each file with how it was before the move.
+ *
+ * Each file is rewritten under its own lock; `held` names locks the caller
+ * already holds. Files that cannot be rewritten are reported, not thrown:
+ * the move itself has already happened.
+ */
+import { isImageFile } from '../../types/obsidian';
+import { SecurityError } from '../../security';
+import { FileLockManager } from '../../utils/file-lock';
+import {
+  LineChange,
+  changedLines,
+  createLinkResolver,
+  findLinks,
+  renameHeadingInSubpath,
+  replaceSubpath,
+  retargetLink,
+  rewriteLinks,
+} from '../../utils/link-rewriter';
+import { RouterContext } from './router-context';
+import { Params, paramBool } from './shared';
+
+export interface LinkUpdateReport {
+  /** Every file whose links now differ, with the lines that changed. */
+  files: Array<{ path: string; lines: LineChange[] }>;
+  /** Files with links to update that could not be rewritten. */
+  failed: Array<{ path: string; reason: string }>;
+  /** Set when no links were updated at all, and why. */
+  error?: string;
+}
+
+export interface PendingMove {
+  oldPath: string;
+  /** The vault's files before the move. */
+  paths: string[];
+  /** Files with links to `oldPath` (and the moved note itself), as they were. */
+  referrers: Array<{ path: string; content: string }>;
+  /** Why the vault could not be scanned; the move goes ahead without link updates. */
+  error?: string;
+}
+
+const isNote = (path: string) => path.toLowerCase().endsWith('.md');
+const isCanvas = (path: string) => path.toLowerCase().endsWith('.canvas');
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+async function readText(ctx: RouterContext, path: string): Promise<string> {
+  const file = await ctx.api.getFile(path);
+  if (isImageFile(file)) throw new Error(`${path} is not a text file`);
+  return typeof file === 'string' ? file : file.content;
+}
+
+/**
+ * The files among `paths` that may link to `target`: the target itself, the
+ * files `metadataCache.resolvedLinks` says link to it, and files the index
+ * has no entry for yet (new ones, or canvases if it does not cover them).
+ * Without the app, every note and canvas.
+ */
+function linkCandidates(ctx: RouterContext, paths: string[], target: string): string[] {
+  const files = paths.filter(path => isNote(path) || isCanvas(path));
+  const resolvedLinks = ctx.app?.metadataCache?.resolvedLinks;
+  if (!resolvedLinks) return files;
+  return files.filter(path => {
+    const links = resolvedLinks[path];
+    return path === target || !links || links[target] !== undefined;
+  });
+}
+
+/** `"file": "<path>"` in a canvas's JSON — a file card showing `path`. */
+function canvasFilePattern(path: string): RegExp {
+  const quoted = JSON.stringify(path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`("file"\\s*:\\s*)${quoted}`, 'g');
+}
+
+/**
+ * Read `path` under its lock (unless `held`), apply `rewrite` and write the
+ * result if it differs. Returns the content before and after.
+ */
+async function rewriteFile(
+  ctx: RouterContext,
+  path: string,
+  held: string[],
+  rewrite: (content: string) => string
+): Promise<{ before: string; after: string }> {
+  const run = async () => {
+    const before = await readText(ctx, path);
+    const after = rewrite(before);
+    if (after !== before) await ctx.api.updateFile(path, after);
+    return { before, after };
+  };
+  return held.includes(path) ? run() : FileLockManager.getInstance().withLock(path, run);
+}
+
+/** Find what links to `oldPath` before it moves; undefined with `updateLinks: false`. */
+export async function prepareMove(ctx: RouterContext, oldPath: string, params: Params): Promise<PendingMove | undefined> {
+  if (paramBool(params, 'updateLinks') === false) return undefined;
+  let paths: string[];
+  try {
+    paths = await ctx.api.listFiles();
+  } catch (error) {
+    if (error instanceof SecurityError) throw error;
+    return { oldPath, paths: [], referrers: [], error: `links were not updated: the vault could not be listed (${errorMessage(error)})` };
+  }
+  const resolve = createLinkResolver(paths);
+  const canvasPattern = canvasFilePattern(oldPath);
+  const referrers: PendingMove['referrers'] = [];
+
+  for (const path of linkCandidates(ctx, paths, oldPath)) {
+    let content: string;
+    try {
+      content = await readText(ctx, path);
+    } catch {
+      continue;
+    }
+    const links = isCanvas(path)
+      ? new RegExp(canvasPattern).test(content)
+      // The moved note's own relative links change with its folder
+      : path === oldPath || findLinks(content).some(link => resolve(link, path) === oldPath);
+    if (links) referrers.push({ path, content });
+  }
+
+  return { oldPath, paths, referrers };
+}
+
+/** Rewrite the links `prepareMove` found now that the file is at `newPath`. */
+export async function applyMove(
+  ctx: RouterContext,
+  pending: PendingMove | undefined,
+  newPath: string,
+  held: string[] = []
+): Promise<LinkUpdateReport | undefined> {
+  if (!pending) return undefined;
+  if (pending.error) return { files: [], failed: [], error: pending.error };
+  const { oldPath } = pending;
+  const resolveBefore = createLinkResolver(pending.paths);
+  const resolveAfter = createLinkResolver([...pending.paths.filter(p => p !== oldPath), newPath]);
+  const report: LinkUpdateReport = { files: [], failed: [] };
+
+  for (const referrer of pending.referrers) {
+    const path = referrer.path === oldPath ? newPath : referrer.path;
+    let ours: LineChange[] = [];
+    try {
+      const { after } = await rewriteFile(ctx, path, held, content => {
+        if (isCanvas(path)) {
+          return content.replace(canvasFilePattern(oldPath), (_, key: string) => `${key}${JSON.stringify(newPath)}`);
+        }
+        const result = rewriteLinks(content, link => {
+          const was = resolveBefore(link, referrer.path);
+          if (was === undefined) return undefined;
+          const target = was === oldPath ? newPath : was;
+          // A Markdown path that moved with either end is rewritten even when
+          // it still resolves by name, so it stays a true relative path
+          const pathMoved = link.kind === 'markdown' && (was === oldPath || referrer.path === oldPath);
+          if (!pathMoved && resolveAfter(link, path) === target) return undefined;
+          return retargetLink(link, target, path, resolveAfter);
+        });
+        ours = result.changes;
+        return result.content;
+      });
+      const lines = changedLines(referrer.content, after);
+      const reported = lines.length > 0 ? lines : ours;
+      if (reported.length > 0) report.files.push({ path, lines: reported });
+    } catch (error) {
+      report.failed.push({ path, reason: errorMessage(error) });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Point every `#oldHeading` link to the note at `path` — from other notes
+ * and from within the note — at `newHeading`. Block links are untouched.
+ */
+export async function renameHeadingLinks(
+  ctx: RouterContext,
+  path: string,
+  oldHeading: string,
+  newHeading: string,
+  held: string[] = []
+): Promise<LinkUpdateReport> {
+  const paths = await ctx.api.listFiles();
+  const resolve = createLinkResolver(paths);
+  const report: LinkUpdateReport = { files: [], failed: [] };
+
+  const rewrite = (source: string, content: string) => rewriteLinks(content, link => {
+    if (resolve(link, source) !== path) return undefined;
+    const subpath = renameHeadingInSubpath(link.subpath, oldHeading, newHeading, link.kind);
+    return subpath === undefined ? undefined : replaceSubpath(link, subpath);
+  });
+
+  for (const source of linkCandidates(ctx, paths, path).filter(isNote)) {
+    try {
+      // Scan without the lock; only files with a link to rename are locked and rewritten
+      if (rewrite(source, await readText(ctx, source)).changes.length === 0) continue;
+      let lines: LineChange[] = [];
+      await rewriteFile(ctx, source, held, content => {
+        const result = rewrite(source, content);
+        lines = result.changes;
+        return result.content;
+      });
+      if (lines.length > 0) report.files.push({ path: source, lines });
+    } catch (error) {
+      report.failed.push({ path: source, reason: errorMessage(error) });
+    }
+  }
+
+  return report;
+}
+
+/** `' and updated links in 3 files'` for a workflow message; empty without updates. */
+export function describeLinkUpdate(report: LinkUpdateReport | undefined): string {
+  if (!report) return '';
+  if (report.error) return ` (${report.error})`;
+  const lines = report.files.reduce((n, f) => n + f.lines.length, 0);
+  const failed = report.failed.length > 0 ? `; ${report.failed.length} file(s) could not be updated` : '';
+  return report.files.length > 0 || failed
+    ? `, updating ${lines} line(s) of links in ${report.files.length} file(s)${failed}`
+    : '';
+}
@@ -0,0 +1,268 @@
+/**
+ * properties — frontmatter across many notes at once (`utils/frontmatter.ts`).
+ *
+ * Every action works on a set of notes chosen by exactly one of:
+ *   paths   explicit note paths
+ *   glob    a path glob, `Projects/**` or `**\/*.md`
+ *   query   the notes a `vault.search` query returns
+ *   dql     the notes a Dataview query returns (the first column of a TABLE)
+ *   base    the notes a `.base` file (optionally `viewName`) returns
+ * `list` defaults to the whole vault; the write actions require a target so
+ * a missing param cannot rewrite every note. Each note is rewritten under its
+ * own file lock; a note an edit does not apply to is not written at all.
+ */
+import { Minimatch } from 'minimatch';
+import { FileLockManager } from '../../utils/file-lock';
+import { isImageFile } from '../../types/obsidian';
+import { SecurityError } from '../../security';
+import { DataviewTool } from '../../tools/dataview-tool';
+import {
+  NoteFrontmatter,
+  PropertyEdit,
+  PropertyType,
+  RETYPE_TARGETS,
+  readFrontmatter,
+  writeFrontmatter,
+  propertiesOf,
+  propertyType,
+  setProperty,
+  removeProperty,
+  renameProperty,
+  retypeProperty,
+} from '../../utils/frontmatter';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramBool, requireParamStr } from './shared';
+
+/** How many search result pages `query` walks before giving up. */
+const MAX_SEARCH_PAGES = 50;
+const SEARCH_PAGE_SIZE = 100;
+
+const TARGET_PARAMS = ['paths', 'glob', 'query', 'dql', 'base'] as const;
+
+interface TargetSet {
+  /** Which param chose the notes, e.g. `glob "Projects/**"`. */
+  source: string;
+  paths: string[];
+}
+
+export async function executePropertiesOperation(ctx: RouterContext, action: string, params: Params): Promise<unknown> {
+  switch (action) {
+    case 'list':
+      return listProperties(ctx, params);
+    case 'set': {
+      const key = requireParamStr(params, 'key', 'properties.set');
+      if (!('value' in params)) {
+        throw new Error("properties.set requires 'value' (any JSON value; null leaves the property empty).");
+      }
+      const onlyMissing = paramBool(params, 'onlyMissing') === true;
+      return editNotes(ctx, 'properties.set', params, note => setProperty(note, key, params.value, onlyMissing));
+    }
+    case 'remove': {
+      const key = requireParamStr(params, 'key', 'properties.remove');
+      return editNotes(ctx, 'properties.remove', params, note => removeProperty(note, key));
+    }
+    case 'rename': {
+      const key = requireParamStr(params, 'key', 'properties.rename');
+      const newKey = requireParamStr(params, 'newKey', 'properties.rename');
+      const overwrite = paramBool(params, 'overwrite') === true;
+      return editNotes(ctx, 'properties.rename', params, note => renameProperty(note, key, newKey, overwrite));
+    }
+    case 'retype': {
+      const key = requireParamStr(params, 'key', 'properties.retype');
+      const type = requireParamStr(params, 'type', 'properties.retype') as PropertyType;
+      if (!RETYPE_TARGETS.includes(type)) {
+        throw new Error(`properties.retype: unknown type '${type}'. Use one of: ${RETYPE_TARGETS.join(', ')}.`);
+      }
+      return editNotes(ctx, 'properties.retype', params, note => retypeProperty(note, key, type));
+    }
+    default:
+      throw new Error(`Unknown properties action: ${action}`);
+  }
+}
+
+// ---- Targets ----------------------------------------------------------------
+
+const isNote = (path: string) => path.toLowerCase().endsWith('.md');
+
+async function resolveTargets(ctx: RouterContext, action: string, params: Params, required: boolean): Promise<TargetSet> {
+  const given = TARGET_PARAMS.filter(key => params[key] !== undefined);
+  if (given.length > 1) {
+    throw new Error(`${action}: pass only one of ${TARGET_PARAMS.join(', ')} (got ${given.join(' and ')}).`);
+  }
+  if (given.length === 0) {
+    if (required) {
+      throw new Error(
+        `${action} requires the notes to change: one of paths, glob, query, dql or base. ` +
+          "Use glob '**' for every note in the vault."
+      );
+    }
+    return { source: 'vault', paths: (await ctx.api.listFiles()).filter(isNote) };
+  }
+
+  const unique = (paths: string[]) => [...new Set(paths.filter(isNote))];
+  switch (given[0]) {
+    case 'paths': {
+      const paths = params.paths;
+      if (!Array.isArray(paths) || !paths.every(p => typeof p === 'string')) {
+        throw new Error(`${action}: 'paths' must be an array of note paths.`);
+      }
+      return { source: `${paths.length} path(s)`, paths: unique(paths) };
+    }
+    case 'glob': {
+      const glob = requireParamStr(params, 'glob', action);
+      const matcher = new Minimatch(glob, { dot: true });
+      return { source: `glob "${glob}"`, paths: (await ctx.api.listFiles()).filter(p => isNote(p) && matcher.match(p)) };
+    }
+    case 'query': {
+      const query = requireParamStr(params, 'query', action);
+      const paths: string[] = [];
+      for (let page = 1; page <= MAX_SEARCH_PAGES; page++) {
+        const results = await ctx.api.searchPaginated(query, page, SEARCH_PAGE_SIZE, 'combined', false);
+        paths.push(...results.results.map(r => r.path));
+        if (page >= results.totalPages) break;
+      }
+      return { source: `query "${query}"`, paths: unique(paths) };
+    }
+    case 'dql':
+      return { source: 'dql', paths: unique(await dataviewPaths(ctx, action, requireParamStr(params, 'dql', action))) };
+    case 'base': {
+      const base = requireParamStr(params, 'base', action);
+      const result = await ctx.api.queryBase(base, paramStr(params, 'viewName'));
+      return { source: `base ${base}`, paths: unique(result.notes.map(n => n.path)) };
+    }
+  }
+}
+
+/** The note each row of a Dataview LIST, TABLE or TASK result stands for. */
+async function dataviewPaths(ctx: RouterContext, action: string, dql: string): Promise<string[]> {
+  const tool = new DataviewTool(ctx.api);
+  if (!tool.isAvailable()) {
+    throw new OperationError(`${action}: 'dql' needs the Dataview plugin, which is not enabled.`, 'DATAVIEW_UNAVAILABLE');
+  }
+  const response = await tool.executeQuery(dql) as {
+    success: boolean;
+    error?: string;
+    result?: { type: string; values?: unknown[] } | null;
+  };
+  if (!response.success) {
+    throw new OperationError(`${action}: the Dataview query failed: ${response.error ?? 'unknown error'}`, 'INVALID_QUERY');
+  }
+
+  const paths: string[] = [];
+  const visit = (row: unknown, type: string): void => {
+    if (typeof row !== 'object' || row === null) return;
+    const group = row as { rows?: unknown[] };
+    if (Array.isArray(group.rows)) {
+      group.rows.forEach(r => visit(r, type));
+      return;
+    }
+    const primary = type === 'table' && Array.isArray(row) ? row[0] as unknown : row;
+    const path = (primary as { path?: unknown } | null)?.path;
+    if (typeof path === 'string') paths.push(path);
+  };
+  const result = response.result;
+  for (const row of result?.values ?? []) visit(row, result!.type);
+  return paths;
+}
+
+// ---- Actions ----------------------------------------------------------------
+
+async function readNote(ctx: RouterContext, path: string): Promise<string> {
+  const file = await ctx.api.getFile(path);
+  if (isImageFile(file)) throw new Error(`${path} is not a note`);
+  return typeof file === 'string' ? file : file.content;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+async function listProperties(ctx: RouterContext, params: Params): Promise<unknown> {
+  const targets = await resolveTargets(ctx, 'properties.list', params, false);
+  const stats = new Map<string, { count: number; types: Record<string, number>; examples: unknown[] }>();
+  const skipped: Array<{ path: string; reason: string }> = [];
+  let withFrontmatter = 0;
+
+  for (const path of targets.paths) {
+    let note: NoteFrontmatter;
+    try {
+      note = readFrontmatter(await readNote(ctx, path));
+    } catch (error) {
+      skipped.push({ path, reason: errorMessage(error) });
+      continue;
+    }
+    if (note.doc) withFrontmatter++;
+    for (const [key, value] of Object.entries(propertiesOf(note))) {
+      const entry = stats.get(key) ?? { count: 0, types: {}, examples: [] };
+      const type = propertyType(value);
+      entry.count++;
+      entry.types[type] = (entry.types[type] ?? 0) + 1;
+      if (entry.examples.length < 3 && value !== null && !entry.examples.some(e => JSON.stringify(e) === JSON.stringify(value))) {
+        entry.examples.push(value);
+      }
+      stats.set(key, entry);
+    }
+  }
+
+  const properties = [...stats.entries()]
+    .map(([key, entry]) => ({
+      key,
+      count: entry.count,
+      types: entry.types,
+      // More than one type for a key is what retype is for
+      mixed: Object.keys(entry.types).filter(t => t !== 'empty').length > 1,
+      examples: entry.examples,
+    }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+
+  return { source: targets.source, notes: targets.paths.length, withFrontmatter, properties, skipped };
+}
+
+/**
+ * Apply `edit` to every target note. Notes that cannot be read, have
+ * frontmatter that is not valid YAML, or that the edit refuses are reported
+ * under `skipped`; a failure on one note does not stop the rest. A refused
+ * write does: the session may not write here, so neither will the next note.
+ */
+async function editNotes(
+  ctx: RouterContext,
+  action: string,
+  params: Params,
+  edit: (note: NoteFrontmatter) => PropertyEdit
+): Promise<unknown> {
+  const targets = await resolveTargets(ctx, action, params, true);
+  const changed: string[] = [];
+  const skipped: Array<{ path: string; reason: string }> = [];
+  let unchanged = 0;
+
+  for (const path of targets.paths) {
+    try {
+      const outcome = await FileLockManager.getInstance().withLock(path, async (): Promise<PropertyEdit> => {
+        let note: NoteFrontmatter;
+        try {
+          note = readFrontmatter(await readNote(ctx, path));
+        } catch (error) {
+          return { skipped: errorMessage(error) };
+        }
+        const result = edit(note);
+        if ('changed' in result && result.changed) {
+          await ctx.api.updateFile(path, writeFrontmatter(note));
+        }
+        return result;
+      });
+      if ('skipped' in outcome) skipped.push({ path, reason: outcome.skipped });
+      else if (outcome.changed) changed.push(path);
+      else unchanged++;
+    } catch (error) {
+      if (error instanceof SecurityError) throw error;
+      skipped.push({ path, reason: errorMessage(error) });
+    }
+  }
+
+  return {
+    action,
+    source: targets.source,
+    matched: targets.paths.length,
+    changed,
+    unchanged,
+    skipped,
+  };
+}
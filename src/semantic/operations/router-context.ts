@@ -13,11 +13,14 @@
 import { App } from 'obsidian';
 import { ObsidianAPI } from '../../utils/obsidian-api';
 import { UniversalFragmentRetriever } from '../../indexing/fragment-retriever';
+import { VaultFragmentIndex } from '../../indexing/vault-fragment-index';
 import { InputValidator } from '../../validation/input-validator';
 
 export interface RouterContext {
   readonly api: ObsidianAPI;
   readonly app?: App;
   readonly fragmentRetriever: UniversalFragmentRetriever;
+  /** Shared vault-wide index, present once the plugin has attached it. */
+  readonly fragmentIndex?: VaultFragmentIndex;
   readonly validator: InputValidator;
 }
@@ -0,0 +1,155 @@
+/**
+ * vault.semantic_search and the `hybrid` strategy of vault.fragments —
+ * retrieval over the chunk embeddings in `VaultEmbeddingIndex`: by meaning
+ * with an embedding model, by shared words and word pieces with the built-in
+ * hashed provider. `embedding_provider` in the context says which.
+ *
+ * `semantic_search` ranks chunks by cosine similarity to the embedded query
+ * alone, so it finds passages that share no words with it. `hybrid` blends
+ * that with BM25 keyword relevance: candidates are the nearest chunks plus
+ * every embedded chunk of the best keyword-ranked notes, and each scores
+ * `hybridWeight · keyword + (1 − hybridWeight) · cosine`, the keyword score
+ * scaled so the best candidate has 1.
+ *
+ * Both answer in the vault.fragments shape, and both fail with
+ * SEMANTIC_SEARCH_UNAVAILABLE rather than degrade silently when embeddings
+ * are off: a caller that asked for semantic results should know it did not
+ * get them.
+ */
+import { VaultEmbeddingIndex } from '../../indexing/vault-embedding-index';
+import { VectorRecord, cosineSimilarity } from '../../indexing/vector-store';
+import { VaultFragmentIndex } from '../../indexing/vault-fragment-index';
+import { fieldTokens, parseRankQuery, scoreBm25f } from '../../indexing/bm25f';
+import { Fragment } from '../../types/fragment';
+import { RouterContext } from './router-context';
+import { Params, OperationError, paramStr, paramNum, requireParamStr } from './shared';
+
+const DEFAULT_MAX_FRAGMENTS = 5;
+const DEFAULT_HYBRID_WEIGHT = 0.5;
+
+/** Nearest chunks fetched per requested fragment before blending, so keyword evidence can reorder them. */
+const CANDIDATES_PER_RESULT = 4;
+
+function requireEmbeddings(action: string): VaultEmbeddingIndex {
+  const index = VaultEmbeddingIndex.getInstance();
+  if (!index.isAttached()) {
+    throw new OperationError(
+      `${action} is unavailable: embedding search is not enabled. Turn it on under Embedding search in the plugin settings.`,
+      'SEMANTIC_SEARCH_UNAVAILABLE'
+    );
+  }
+  return index;
+}
+
+/** Paths the session may not read, plus everything outside `scope` (one note, or a folder) when given. */
+function excludeFilter(ctx: RouterContext, scope: string | undefined): (path: string) => boolean {
+  const folder = scope ? `${scope.replace(/\/+$/, '')}/` : undefined;
+  return (path: string) =>
+    !ctx.api.isReadable(path) ||
+    (scope !== undefined && path !== scope && !path.startsWith(folder!));
+}
+
+async function embedQuery(index: VaultEmbeddingIndex, query: string): Promise<number[]> {
+  try {
+    return await index.embedQuery(query);
+  } catch (error) {
+    throw new OperationError(
+      `Could not embed the query: ${error instanceof Error ? error.message : String(error)}`,
+      'EMBEDDING_FAILED'
+    );
+  }
+}
+
+function toFragment(record: VectorRecord, score: number, metadata: Record<string, unknown>): Fragment {
+  return {
+    id: `${record.path}:${record.lineStart}`,
+    docId: `file:${record.path}`,
+    docPath: record.path,
+    content: record.content,
+    score,
+    lineStart: record.lineStart,
+    lineEnd: record.lineEnd,
+    metadata,
+  };
+}
+
+function respond(action: string, query: string, fragments: Fragment[], fragmentIndex: VaultFragmentIndex | undefined, index: VaultEmbeddingIndex) {
+  const coverage = fragmentIndex ? index.getCoverage(fragmentIndex) : undefined;
+  return {
+    result: fragments,
+    query,
+    context: {
+      operation: 'vault',
+      action,
+      search_results: fragments.length,
+      linked_files: [...new Set(fragments.map(f => f.docPath))],
+      embedding_provider: index.getProviderId(),
+      // Embedding runs in the background; results only cover what is embedded so far
+      ...(coverage && {
+        embedded_notes: coverage.embedded,
+        total_notes: coverage.total,
+        ...(coverage.lastError && { embedding_error: coverage.lastError }),
+      }),
+    },
+  };
+}
+
+export async function executeSemanticSearch(ctx: RouterContext, params: Params): Promise<unknown> {
+  const index = requireEmbeddings('vault.semantic_search');
+  const query = requireParamStr(params, 'query', 'vault.semantic_search');
+  const maxFragments = paramNum(params, 'maxFragments') || DEFAULT_MAX_FRAGMENTS;
+
+  const vector = await embedQuery(index, query);
+  const fragments = index
+    .search(vector, maxFragments, excludeFilter(ctx, paramStr(params, 'path')))
+    .map(hit => toFragment(hit.record, hit.score, { similarity: hit.score }));
+
+  return respond('semantic_search', query, fragments, ctx.fragmentIndex, index);
+}
+
+export async function executeHybridFragments(ctx: RouterContext, params: Params): Promise<unknown> {
+  const index = requireEmbeddings('vault.fragments with strategy "hybrid"');
+  const fragmentIndex = ctx.fragmentIndex;
+  if (!fragmentIndex) {
+    throw new OperationError(
+      'vault.fragments with strategy "hybrid" is unavailable: the vault index is not attached.',
+      'SEMANTIC_SEARCH_UNAVAILABLE'
+    );
+  }
+  const query = requireParamStr(params, 'query', 'vault.fragments');
+  const maxFragments = paramNum(params, 'maxFragments') || DEFAULT_MAX_FRAGMENTS;
+  const rawWeight = paramNum(params, 'hybridWeight');
+  const weight = rawWeight === undefined ? DEFAULT_HYBRID_WEIGHT : Math.min(1, Math.max(0, rawWeight));
+  const exclude = excludeFilter(ctx, paramStr(params, 'path'));
+
+  const vector = await embedQuery(index, query);
+  const candidates = new Map<VectorRecord, number>();
+  for (const hit of index.search(vector, maxFragments * CANDIDATES_PER_RESULT, exclude)) {
+    candidates.set(hit.record, hit.score);
+  }
+  for (const match of fragmentIndex.rankDocuments(query, maxFragments, exclude)) {
+    for (const record of index.getDocumentVectors(match.docPath)) {
+      if (!candidates.has(record)) candidates.set(record, cosineSimilarity(vector, record.vector));
+    }
+  }
+
+  const terms = parseRankQuery(query);
+  const stats = fragmentIndex.getCorpusStats();
+  const scored = Array.from(candidates.entries()).map(([record, similarity]) => ({
+    record,
+    similarity,
+    keyword: scoreBm25f(fieldTokens({ filename: '', body: record.content }), terms, stats),
+  }));
+  const maxKeyword = Math.max(0, ...scored.map(s => s.keyword));
+
+  const fragments = scored
+    .map(({ record, similarity, keyword }) => {
+      const keywordScore = maxKeyword > 0 ? keyword / maxKeyword : 0;
+      const score = weight * keywordScore + (1 - weight) * Math.max(0, similarity);
+      return toFragment(record, score, { similarity, keyword: keywordScore });
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxFragments);
+
+  return respond('fragments', query, fragments, fragmentIndex, index);
+}
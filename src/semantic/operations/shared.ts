@@ -6,6 +6,18 @@
 /** Type alias for operation parameters passed through the semantic router */
 export type Params = Record<string, unknown>;
 
+/**
+ * An operation failure with a machine-readable code and optional structured
+ * details. The router copies both into the error envelope, so callers can
+ * branch on `code` instead of parsing the message.
+ */
+export class OperationError extends Error {
+  constructor(message: string, public code: string, public details?: unknown) {
+    super(message);
+    this.name = 'OperationError';
+  }
+}
+
 /** Search result item from vault search */
 export interface SearchResultItem {
   path: string;
@@ -0,0 +1,485 @@
+/**
+ * tasks — checklist items across the vault (`utils/task-syntax.ts`).
+ *
+ * list and query read every note in scope (a note, a folder, or the whole
+ * vault). toggle, update and reschedule rewrite a single task line under the
+ * note's file lock; the task is addressed by `path` + `line`, or by `blockId`
+ * (`^id` at the end of the line), which survives edits above it. create adds
+ * a line. Completing a recurring task writes its next occurrence on the line
+ * above, the way the Tasks plugin does.
+ */
+import { FileLockManager } from '../../utils/file-lock';
+import { isImageFile } from '../../types/obsidian';
+import {
+  Task,
+  TaskField,
+  TaskPriority,
+  TaskStatus,
+  TaskSyntax,
+  TASK_PRIORITIES,
+  parseTask,
+  parseTasks,
+  parseRecurrence,
+  nextOccurrence,
+  composeTask,
+  setTaskField,
+  setTaskStatusSymbol,
+  setTaskDescription,
+  isTaskDate,
+  addDays,
+  localToday,
+} from '../../utils/task-syntax';
+import { RouterContext } from './router-context';
+import { assertExpectedHash } from './concurrency';
+import { Params, OperationError, paramStr, paramNum, paramBool, requireParamStr } from './shared';
+
+export interface LocatedTask extends Task {
+  path: string;
+}
+
+/** Result of toggle, update and reschedule. */
+export interface TaskChange {
+  path: string;
+  task: LocatedTask;
+  /** The next occurrence written above a completed recurring task. */
+  next?: LocatedTask;
+  warning?: string;
+}
+
+const STATUSES: readonly string[] = ['todo', 'in_progress', 'done', 'cancelled'];
+const STATUS_FILTERS: readonly string[] = [...STATUSES, 'open', 'any'];
+const SORT_KEYS: readonly string[] = ['path', 'due', 'priority'];
+const SCHEDULE_FIELDS: readonly string[] = ['due', 'scheduled', 'start'];
+const DEFAULT_LIMIT = 100;
+
+export async function executeTasksOperation(ctx: RouterContext, action: string, params: Params): Promise<unknown> {
+  switch (action) {
+    case 'list':
+      return listTasks(ctx, params);
+    case 'query':
+      return queryTasks(ctx, params);
+    case 'toggle':
+      return rewriteTask(ctx, 'tasks.toggle', params, (task, today) =>
+        task.status === 'done' || task.status === 'cancelled' ? { text: reopen(task.text) } : complete(task, today));
+    case 'create':
+      return createTask(ctx, params);
+    case 'update':
+      return updateTask(ctx, params);
+    case 'reschedule':
+      return rescheduleTask(ctx, params);
+    default:
+      throw new Error(`Unknown tasks action: ${action}`);
+  }
+}
+
+// ---- Reading ----------------------------------------------------------------
+
+async function readNote(ctx: RouterContext, path: string): Promise<string> {
+  const file = await ctx.api.getFile(path);
+  if (isImageFile(file)) {
+    throw new Error(`${path} is not a note.`);
+  }
+  return typeof file === 'string' ? file : file.content;
+}
+
+/**
+ * Every task under `scope`: one note, a folder, or the vault when unset.
+ * A note named directly must be readable; in a folder, notes the session
+ * cannot read (excluded, outside a key's scope) are skipped.
+ */
+async function collectTasks(ctx: RouterContext, scope: string | undefined): Promise<LocatedTask[]> {
+  const folder = scope?.replace(/\/+$/, '');
+  if (folder && folder.endsWith('.md')) {
+    return parseTasks(await readNote(ctx, folder)).map(task => ({ path: folder, ...task }));
+  }
+
+  const tasks: LocatedTask[] = [];
+  const paths = (await ctx.api.listFiles(folder || undefined)).filter(p => p.endsWith('.md'));
+  for (const path of paths) {
+    let content: string;
+    try {
+      content = await readNote(ctx, path);
+    } catch {
+      continue;
+    }
+    for (const task of parseTasks(content)) tasks.push({ path, ...task });
+  }
+  return tasks;
+}
+
+function matchesStatus(task: Task, status: string): boolean {
+  if (status === 'any') return true;
+  if (status === 'open') return task.status === 'todo' || task.status === 'in_progress';
+  return task.status === status;
+}
+
+function statusFilter(params: Params, action: string): string | undefined {
+  const status = paramStr(params, 'status');
+  if (status !== undefined && !STATUS_FILTERS.includes(status)) {
+    throw new Error(`${action}: unknown status '${status}'. Use one of: ${STATUS_FILTERS.join(', ')}.`);
+  }
+  return status;
+}
+
+function page(tasks: LocatedTask[], params: Params, scope: string | undefined) {
+  const limit = Math.max(1, paramNum(params, 'limit') ?? DEFAULT_LIMIT);
+  return {
+    scope: scope ?? '/',
+    total: tasks.length,
+    truncated: tasks.length > limit,
+    tasks: tasks.slice(0, limit),
+  };
+}
+
+async function listTasks(ctx: RouterContext, params: Params): Promise<unknown> {
+  const scope = paramStr(params, 'path');
+  const status = statusFilter(params, 'tasks.list');
+  const tasks = await collectTasks(ctx, scope);
+  return page(status ? tasks.filter(t => matchesStatus(t, status)) : tasks, params, scope);
+}
+
+/**
+ * A date param: `YYYY-MM-DD`, `today`, `tomorrow` or `yesterday`. Undefined
+ * when unset; `''` and `null` are left to the caller (they mean "remove").
+ */
+function dateParam(params: Params, key: string, action: string, today: string): string | undefined {
+  const value = params[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'string') {
+    const relative: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+    const word = value.trim().toLowerCase();
+    if (word in relative) return addDays(today, relative[word]);
+    if (isTaskDate(value.trim())) return value.trim();
+  }
+  throw new OperationError(
+    `${action}: '${key}' must be a date (YYYY-MM-DD, today, tomorrow or yesterday), got ${JSON.stringify(value)}.`,
+    'INVALID_DATE',
+    { param: key, value }
+  );
+}
+
+async function queryTasks(ctx: RouterContext, params: Params): Promise<unknown> {
+  const action = 'tasks.query';
+  const today = localToday();
+  const scope = paramStr(params, 'path');
+  const status = statusFilter(params, action) ?? 'open';
+  const due = dateParam(params, 'due', action, today);
+  const dueBefore = dateParam(params, 'dueBefore', action, today);
+  const dueAfter = dateParam(params, 'dueAfter', action, today);
+  const scheduledBefore = dateParam(params, 'scheduledBefore', action, today);
+  const scheduledAfter = dateParam(params, 'scheduledAfter', action, today);
+  const overdue = paramBool(params, 'overdue');
+  const recurring = paramBool(params, 'recurring');
+  const priority = paramStr(params, 'priority');
+  const tag = paramStr(params, 'tag')?.replace(/^#/, '').toLowerCase();
+  const text = paramStr(params, 'text')?.toLowerCase();
+  const sortBy = paramStr(params, 'sortBy') ?? 'path';
+
+  if (priority !== undefined && priority !== 'none' && !TASK_PRIORITIES.includes(priority as TaskPriority)) {
+    throw new Error(`${action}: unknown priority '${priority}'. Use one of: ${TASK_PRIORITIES.join(', ')}, none.`);
+  }
+  if (!SORT_KEYS.includes(sortBy)) {
+    throw new Error(`${action}: unknown sortBy '${sortBy}'. Use one of: ${SORT_KEYS.join(', ')}.`);
+  }
+
+  // Date bounds are exclusive, as in the Tasks plugin's "due before"
+  const tasks = (await collectTasks(ctx, scope)).filter(task =>
+    matchesStatus(task, status) &&
+    (due === undefined || task.due === due) &&
+    (dueBefore === undefined || (task.due !== undefined && task.due < dueBefore)) &&
+    (dueAfter === undefined || (task.due !== undefined && task.due > dueAfter)) &&
+    (scheduledBefore === undefined || (task.scheduled !== undefined && task.scheduled < scheduledBefore)) &&
+    (scheduledAfter === undefined || (task.scheduled !== undefined && task.scheduled > scheduledAfter)) &&
+    (overdue === undefined || overdue === (task.due !== undefined && task.due < today && matchesStatus(task, 'open'))) &&
+    (recurring === undefined || recurring === (task.recurrence !== undefined)) &&
+    (priority === undefined || (task.priority ?? 'none') === priority) &&
+    (tag === undefined || task.tags.some(t => {
+      const name = t.slice(1).toLowerCase();
+      return name === tag || name.startsWith(`${tag}/`);
+    })) &&
+    (text === undefined || task.description.toLowerCase().includes(text))
+  );
+
+  if (sortBy === 'due') {
+    // Undated tasks last; ties keep vault order
+    tasks.sort((a, b) => (a.due ?? '9999') < (b.due ?? '9999') ? -1 : (a.due ?? '9999') > (b.due ?? '9999') ? 1 : 0);
+  } else if (sortBy === 'priority') {
+    // No priority ranks between medium and low, as in the Tasks plugin
+    const rank = (t: Task) => t.priority === undefined ? 2.5 : TASK_PRIORITIES.indexOf(t.priority);
+    tasks.sort((a, b) => rank(a) - rank(b));
+  }
+
+  return { ...page(tasks, params, scope), today };
+}
+
+// ---- Writing ----------------------------------------------------------------
+
+interface LineEdit {
+  text: string;
+  next?: string;
+  warning?: string;
+}
+
+/** Check a task off with today's done date; a recurring task also gets its next occurrence. */
+function complete(task: Task, today: string): LineEdit {
+  const text = setTaskField(setTaskStatusSymbol(task.text, 'x'), 'done', today);
+  if (!task.recurrence) return { text };
+  const next = nextOccurrence(task.text, today);
+  return next !== undefined
+    ? { text, next }
+    : { text, warning: `The recurrence rule "${task.recurrence}" is not understood, so no next occurrence was created.` };
+}
+
+/** Uncheck, dropping the done and cancelled dates. */
+function reopen(text: string): string {
+  return setTaskField(setTaskField(setTaskStatusSymbol(text, ' '), 'done', undefined), 'cancelled', undefined);
+}
+
+function located(path: string, text: string, line: number): LocatedTask {
+  return { path, ...parseTask(text, line)! };
+}
+
+/**
+ * Find the addressed task in freshly read `lines`. With `blockId` and no
+ * `path` the vault is searched first to find the note.
+ */
+async function resolveAddress(ctx: RouterContext, action: string, params: Params): Promise<{ path: string; line?: number; blockId?: string }> {
+  const blockId = paramStr(params, 'blockId')?.replace(/^\^/, '');
+  if (blockId) {
+    const path = paramStr(params, 'path');
+    const found = (await collectTasks(ctx, path)).find(t => t.blockId === blockId);
+    if (!found) {
+      throw new OperationError(
+        `${action}: no task has block ID ^${blockId}${path ? ` in ${path}` : ''}.`,
+        'TASK_NOT_FOUND',
+        { blockId, path }
+      );
+    }
+    return { path: found.path, blockId };
+  }
+
+  const path = requireParamStr(params, 'path', action, "Address the task by 'path' and 'line', or by 'blockId'.");
+  const line = paramNum(params, 'line');
+  if (line === undefined) {
+    throw new Error(`${action} requires 'line' (number) with 'path', or 'blockId'.`);
+  }
+  return { path, line };
+}
+
+/**
+ * Read-modify-write one task line under the note's lock. `edit` gets the
+ * parsed task and returns its new text, plus an optional line to insert
+ * above it.
+ */
+async function rewriteTask(
+  ctx: RouterContext,
+  action: string,
+  params: Params,
+  edit: (task: Task, today: string) => LineEdit
+): Promise<TaskChange> {
+  const address = await resolveAddress(ctx, action, params);
+  const path = address.path;
+
+  return FileLockManager.getInstance().withLock(path, async () => {
+    await assertExpectedHash(ctx, path, params);
+    const lines = (await readNote(ctx, path)).split('\n');
+
+    // A block ID is looked up again under the lock, in case lines moved
+    const task = address.blockId !== undefined
+      ? parseTasks(lines.join('\n')).find(t => t.blockId === address.blockId)
+      : parseTask(lines[(address.line ?? 0) - 1] ?? '', address.line ?? 0);
+    if (!task) {
+      throw new OperationError(
+        address.blockId !== undefined
+          ? `${action}: no task has block ID ^${address.blockId} in ${path}.`
+          : `${action}: line ${address.line} of ${path} is not a task.`,
+        'TASK_NOT_FOUND',
+        { path, line: address.line, blockId: address.blockId }
+      );
+    }
+
+    const change = edit(task, localToday());
+    const index = task.line - 1;
+    lines[index] = change.text;
+    let line = task.line;
+    if (change.next !== undefined) {
+      lines.splice(index, 0, change.next);
+      line++;
+    }
+    await ctx.api.updateFile(path, lines.join('\n'));
+
+    return {
+      path,
+      task: located(path, change.text, line),
+      next: change.next !== undefined ? located(path, change.next, task.line) : undefined,
+      warning: change.warning,
+    };
+  });
+}
+
+/** Date, priority and recurrence params present on the call; `''`/`null` mean remove. */
+function fieldParams(params: Params, action: string, today: string): Partial<Record<TaskField, string | undefined>> {
+  const fields: Partial<Record<TaskField, string | undefined>> = {};
+  const removes = (key: string) => params[key] === '' || params[key] === null;
+
+  for (const key of SCHEDULE_FIELDS) {
+    if (key in params) fields[key as TaskField] = removes(key) ? undefined : dateParam(params, key, action, today);
+  }
+
+  if ('priority' in params) {
+    const priority = params.priority;
+    if (removes('priority') || priority === 'none') {
+      fields.priority = undefined;
+    } else if (typeof priority === 'string' && TASK_PRIORITIES.includes(priority as TaskPriority)) {
+      fields.priority = priority;
+    } else {
+      throw new Error(`${action}: unknown priority ${JSON.stringify(priority)}. Use one of: ${TASK_PRIORITIES.join(', ')}, none.`);
+    }
+  }
+
+  if ('recurrence' in params) {
+    const rule = params.recurrence;
+    if (removes('recurrence')) {
+      fields.recurrence = undefined;
+    } else if (typeof rule === 'string' && parseRecurrence(rule)) {
+      fields.recurrence = rule.trim();
+    } else {
+      throw new OperationError(
+        `${action}: recurrence ${JSON.stringify(rule)} is not a rule the Tasks plugin understands ` +
+          '(every day, every 3 days, every weekday, every week on Monday, every month on the 15th, every year, ... optionally "when done").',
+        'INVALID_RECURRENCE',
+        { recurrence: rule }
+      );
+    }
+  }
+  return fields;
+}
+
+async function updateTask(ctx: RouterContext, params: Params): Promise<TaskChange> {
+  const action = 'tasks.update';
+  const today = localToday();
+  const fields = fieldParams(params, action, today);
+  const description = paramStr(params, 'description');
+  const status = paramStr(params, 'status');
+  if (status !== undefined && !STATUSES.includes(status)) {
+    throw new Error(`${action}: unknown status '${status}'. Use one of: ${STATUSES.join(', ')}.`);
+  }
+  if (description === undefined && status === undefined && Object.keys(fields).length === 0) {
+    throw new Error(`${action} needs at least one of: description, status, due, scheduled, start, priority, recurrence.`);
+  }
+
+  return rewriteTask(ctx, action, params, (task, now) => {
+    let text = task.text;
+    if (description !== undefined) text = setTaskDescription(text, description);
+    for (const [field, value] of Object.entries(fields)) {
+      text = setTaskField(text, field as TaskField, value);
+    }
+
+    if (status === undefined || status === task.status) return { text };
+    const updated = parseTask(text, task.line)!;
+    switch (status as TaskStatus) {
+      case 'done':
+        return complete(updated, now);
+      case 'cancelled':
+        return { text: setTaskField(setTaskField(setTaskStatusSymbol(text, '-'), 'done', undefined), 'cancelled', now) };
+      case 'in_progress':
+        return { text: setTaskStatusSymbol(reopen(text), '/') };
+      default:
+        return { text: reopen(text) };
+    }
+  });
+}
+
+async function rescheduleTask(ctx: RouterContext, params: Params): Promise<TaskChange> {
+  const action = 'tasks.reschedule';
+  const today = localToday();
+  const field = paramStr(params, 'field') ?? 'due';
+  if (!SCHEDULE_FIELDS.includes(field)) {
+    throw new Error(`${action}: unknown field '${field}'. Use one of: ${SCHEDULE_FIELDS.join(', ')}.`);
+  }
+  const date = dateParam(params, 'date', action, today);
+  const days = paramNum(params, 'days');
+  if ((date === undefined) === (days === undefined)) {
+    throw new Error(`${action} requires either 'date' (YYYY-MM-DD, today, tomorrow) or 'days' (a number of days to move the date by).`);
+  }
+
+  return rewriteTask(ctx, action, params, task => {
+    const current = task[field as 'due' | 'scheduled' | 'start'];
+    if (date !== undefined) return { text: setTaskField(task.text, field as TaskField, date) };
+    if (current === undefined) {
+      throw new OperationError(
+        `${action}: the task has no ${field} date to move by ${days} days. Pass 'date' to set one.`,
+        'NO_DATE',
+        { field }
+      );
+    }
+    return { text: setTaskField(task.text, field as TaskField, addDays(current, Math.trunc(days!))) };
+  });
+}
+
+/** Where a new task goes: before `line`, at the end of `heading`'s section, or at the end of the note. */
+function insertionIndex(lines: string[], params: Params, path: string): number {
+  const line = paramNum(params, 'line');
+  if (line !== undefined) {
+    if (!Number.isInteger(line) || line < 1 || line > lines.length + 1) {
+      throw new Error(`tasks.create: line ${line} is outside ${path} (1-${lines.length + 1}).`);
+    }
+    return line - 1;
+  }
+
+  const skipBlankTail = (from: number, floor: number) => {
+    let end = from;
+    while (end > floor && lines[end - 1].trim() === '') end--;
+    return end;
+  };
+
+  const heading = paramStr(params, 'heading');
+  if (heading === undefined) return skipBlankTail(lines.length, 0);
+
+  const wanted = heading.replace(/^#+\s*/, '').trim().toLowerCase();
+  const start = lines.findIndex(l => {
+    const match = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(l);
+    return match !== null && match[2].toLowerCase() === wanted;
+  });
+  if (start === -1) {
+    throw new OperationError(`tasks.create: ${path} has no heading "${heading}".`, 'HEADING_NOT_FOUND', { path, heading });
+  }
+  const level = /^#+/.exec(lines[start])![0].length;
+  let end = lines.findIndex((l, i) => i > start && /^(#{1,6})\s/.test(l) && /^#+/.exec(l)![0].length <= level);
+  if (end === -1) end = lines.length;
+  return skipBlankTail(end, start + 1);
+}
+
+async function createTask(ctx: RouterContext, params: Params): Promise<unknown> {
+  const action = 'tasks.create';
+  const path = requireParamStr(params, 'path', action);
+  const description = requireParamStr(params, 'description', action, "Pass the task text as 'description'; dates and priority go in their own params.");
+  const syntax = (paramStr(params, 'syntax') ?? 'tasks') as TaskSyntax;
+  if (syntax !== 'tasks' && syntax !== 'dataview') {
+    throw new Error(`${action}: unknown syntax '${String(syntax)}'. Use tasks (emoji) or dataview (inline fields).`);
+  }
+  const fields = fieldParams(params, action, localToday());
+  const present = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as Partial<Record<TaskField, string>>;
+  const text = composeTask(description, present, syntax);
+
+  return FileLockManager.getInstance().withLock(path, async () => {
+    let content: string | undefined;
+    try {
+      content = await readNote(ctx, path);
+    } catch (error) {
+      if (!(error instanceof Error && error.message.startsWith('File not found'))) throw error;
+    }
+
+    if (content === undefined) {
+      await ctx.api.createFile(path, `${text}\n`);
+      return { path, created: true, task: located(path, text, 1) };
+    }
+
+    await assertExpectedHash(ctx, path, params);
+    const lines = content.split('\n');
+    const index = insertionIndex(lines, params, path);
+    lines.splice(index, 0, text);
+    await ctx.api.updateFile(path, lines.join('\n'));
+    return { path, created: false, task: located(path, text, index + 1) };
+  });
+}
@@ -11,7 +11,12 @@ import { readFileWithFragments } from '../../utils/file-reader';
 import { ValidationException } from '../../validation/input-validator';
 import { SecurityError } from '../../security';
 import { RouterContext } from './router-context';
-import { Params, paramStr, paramNum, paramBool, requireParamStr } from './shared';
+import { executeHistory, executeUndo } from './journal';
+import { executeSemanticSearch, executeHybridFragments } from './semantic-search';
+import { assertExpectedHash } from './concurrency';
+import { prepareMove, applyMove, describeLinkUpdate } from './link-updates';
+import { isNaturalQuery, SearchQueryError } from '../../utils/search-query';
+import { Params, OperationError, paramStr, paramNum, paramBool, requireParamStr } from './shared';
 
 type FragmentStrategy = 'auto' | 'adaptive' | 'proximity' | 'semantic';
 
@@ -30,6 +35,21 @@ function resolveFragmentStrategy(strategy: string | undefined): FragmentStrategy
   return 'auto';
 }
 
+/**
+ * Destination of `vault.rename`: `newName` in the source's folder.
+ *
+ * Carries the source extension over when newName omits one, so renaming
+ * 'note.md' to 'renamed' yields 'renamed.md' rather than an extension-less
+ * file that drops out of markdown views (#253). An explicit extension in
+ * newName is honoured as-is, so no double extension is appended.
+ */
+export function resolveRenamePath(path: string, newName: string): string {
+  const lastSlash = path.lastIndexOf('/');
+  const dir = lastSlash >= 0 ? path.substring(0, lastSlash) : '';
+  const resolvedName = extensionOf(newName) ? newName : `${newName}${extensionOf(path)}`;
+  return dir ? `${dir}/${resolvedName}` : resolvedName;
+}
+
 /**
  * Extension of a vault path, including the leading dot ('' when there is none).
  * A leading dot is not an extension: '.gitignore' has none.
@@ -79,10 +99,16 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           page: paramNum(params, 'page'),
           query: paramStr(params, 'query'),
           strategy,
-          maxFragments: paramNum(params, 'maxFragments')
+          maxFragments: paramNum(params, 'maxFragments'),
+          expandEmbeds: paramBool(params, 'expandEmbeds'),
+          embedDepth: paramNum(params, 'embedDepth')
         });
       }
       case 'fragments': {
+        if (paramStr(params, 'strategy') === 'hybrid') {
+          return await executeHybridFragments(ctx, params);
+        }
+
         // Dedicated fragment search. When `path` is supplied it scopes the search to that
         // one file; previously it was only ever read as a fallback *query* string, so
         // naming a file returned passages from other files that the caller could easily
@@ -102,9 +128,16 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           };
         }
 
+        // The shared vault index (when the plugin attached one) outlives this request;
+        // otherwise fall back to the router's own per-request retriever.
+        const sharedIndex = ctx.fragmentIndex;
+        const exclude = (docPath: string) => !ctx.api.isReadable(docPath);
+
         try {
           const indexFile = async (filePath: string): Promise<void> => {
             if (!filePath || !filePath.endsWith('.md')) return;
+            // Vault events keep shared entries current, so an indexed file needs no re-read
+            if (sharedIndex?.has(filePath)) return;
             try {
               const fileResponse = await ctx.api.getFile(filePath);
               let content: string;
@@ -117,7 +150,12 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
                 return;
               }
 
-              ctx.fragmentRetriever.indexDocument(`file:${filePath}`, filePath, content);
+              if (sharedIndex) {
+                // mtime 0: any later modify event supersedes this on-demand entry
+                sharedIndex.upsert(filePath, 0, content);
+              } else {
+                ctx.fragmentRetriever.indexDocument(`file:${filePath}`, filePath, content);
+              }
             } catch (e) {
               // Skip files that can't be indexed
               Debug.log(`Skipping file during fragment indexing:`, e);
@@ -128,7 +166,7 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
             // Scoped to one file: index just that file. Searching the vault to decide what
             // to index would be wasted work, and could fail to index the very file named.
             await indexFile(fragmentPath);
-          } else {
+          } else if (!sharedIndex?.isReady()) {
             // Only index files that match the query to avoid indexing entire vault
             // This is a lazy indexing approach - index on demand
             const searchResults = await ctx.api.searchPaginated(fragmentQuery, 1, 20, 'combined', false);
@@ -141,10 +179,11 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           }
 
           // Search for fragments in indexed documents
-          const fragmentResponse = ctx.fragmentRetriever.retrieveFragments(fragmentQuery, {
+          const fragmentResponse = (sharedIndex ?? ctx.fragmentRetriever).retrieveFragments(fragmentQuery, {
             strategy: resolveFragmentStrategy(paramStr(params, 'strategy')),
             maxFragments: paramNum(params, 'maxFragments') || 5,
-            scopePath: fragmentPath
+            scopePath: fragmentPath,
+            exclude
           });
 
           return fragmentResponse;
@@ -160,6 +199,8 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           };
         }
       }
+      case 'semantic_search':
+        return await executeSemanticSearch(ctx, params);
       case 'create': {
         const path = requireParamStr(params, 'path', 'vault.create');
         // Empty content is a legitimate "touch" — only the path is required.
@@ -174,6 +215,7 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           'vault.update',
           "For partial replacement, use edit.patch with operation='replace', oldText, newText — or edit.window for fuzzy in-place edits.",
         );
+        await assertExpectedHash(ctx, path, params);
         return await ctx.api.updateFile(path, content);
       }
       case 'delete': {
@@ -206,6 +248,18 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           const strategy = (paramStr(params, 'searchStrategy') || paramStr(params, 'strategy') || 'combined') as 'filename' | 'content' | 'combined';
           const includeContent = params.includeContent !== false; // Default to true
 
+          // Plain keyword queries over content are answered from the shared index once it
+          // covers the whole vault, instead of reading every file again. Grammar queries
+          // (search-query.ts) and filename-only searches keep going through SearchFacade.
+          if (ctx.fragmentIndex?.isReady() && strategy !== 'filename' && isNaturalQuery(queryStr)) {
+            return searchFromIndex(ctx, queryStr, {
+              page,
+              pageSize,
+              strategy,
+              includeSnippets: params.includeSnippets !== undefined ? Boolean(params.includeSnippets) : includeContent,
+            });
+          }
+
           // Build search options from new parameters
           const searchOptions: {
             ranked?: boolean;
@@ -239,6 +293,10 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
 
           return searchResults;
         } catch (searchError) {
+          // A malformed query fails the same way on the fallback; say what is wrong with it
+          if (searchError instanceof SearchQueryError) {
+            throw new OperationError(searchError.message, 'INVALID_QUERY');
+          }
           Debug.error('Search failed:', searchError);
 
           // Try fallback with basic search strategy
@@ -308,18 +366,22 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
 
         // Directory creation is handled automatically by createFile
 
+        const pendingLinks = await prepareMove(ctx, path, params);
+
         // Route through the API layer, not app.fileManager directly, so the
         // security layer validates the destination as well as the source.
         {
           const abstractFile = ctx.app?.vault.getAbstractFileByPath(path);
           if (abstractFile && 'extension' in abstractFile) {
             await ctx.api.moveFile(path, destination);
+            const links = await applyMove(ctx, pendingLinks, destination);
             return {
               success: true,
               oldPath: path,
               newPath: destination,
+              links,
               workflow: {
-                message: `File moved successfully from ${path} to ${destination}`,
+                message: `File moved successfully from ${path} to ${destination}${describeLinkUpdate(links)}`,
                 suggested_next: [
                   {
                     description: 'View the moved file',
@@ -343,13 +405,15 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
         const content = sourceFileData.content;
         await ctx.api.createFile(destination, content);
         await ctx.api.deleteFile(path);
-        
+        const links = await applyMove(ctx, pendingLinks, destination);
+
         return { 
           success: true, 
           oldPath: path,
           newPath: destination,
+          links,
           workflow: {
-            message: `File moved successfully from ${path} to ${destination}`,
+            message: `File moved successfully from ${path} to ${destination}${describeLinkUpdate(links)}`,
             suggested_next: [
               {
                 description: 'View the moved file',
@@ -379,16 +443,7 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           throw new Error(`File not found: ${path}`);
         }
 
-        // Extract directory from current path
-        const lastSlash = path.lastIndexOf('/');
-        const dir = lastSlash >= 0 ? path.substring(0, lastSlash) : '';
-
-        // Carry the source extension over when newName omits one, so renaming
-        // 'note.md' to 'renamed' yields 'renamed.md' rather than an extension-less
-        // file that drops out of markdown views (#253). An explicit extension in
-        // newName is honoured as-is, so no double extension is appended.
-        const resolvedName = extensionOf(newName) ? newName : `${newName}${extensionOf(path)}`;
-        const newPath = dir ? `${dir}/${resolvedName}` : resolvedName;
+        const newPath = resolveRenamePath(path, newName);
 
         // Check if destination already exists
         try {
@@ -404,18 +459,22 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
           // Otherwise the file doesn't exist, which is what we want
         }
 
+        const pendingLinks = await prepareMove(ctx, path, params);
+
         // Route through the API layer, not app.fileManager directly, so the
         // security layer validates the new path as well as the source.
         {
           const abstractFile = ctx.app?.vault.getAbstractFileByPath(path);
           if (abstractFile && 'extension' in abstractFile) {
             await ctx.api.renameFile(path, newPath);
+            const links = await applyMove(ctx, pendingLinks, newPath);
             return {
               success: true,
               oldPath: path,
               newPath: newPath,
+              links,
               workflow: {
-                message: `File renamed successfully from ${path} to ${newPath}`,
+                message: `File renamed successfully from ${path} to ${newPath}${describeLinkUpdate(links)}`,
                 suggested_next: [
                   {
                     description: 'View the renamed file',
@@ -439,13 +498,15 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
         const content = sourceFileData.content;
         await ctx.api.createFile(newPath, content);
         await ctx.api.deleteFile(path);
-        
+        const links = await applyMove(ctx, pendingLinks, newPath);
+
         return { 
           success: true,
           oldPath: path,
           newPath: newPath,
+          links,
           workflow: {
-            message: `File renamed successfully from ${path} to ${newPath}`,
+            message: `File renamed successfully from ${path} to ${newPath}${describeLinkUpdate(links)}`,
             suggested_next: [
               {
                 description: 'View the renamed file',
@@ -720,6 +781,12 @@ export async function executeVaultOperation(ctx: RouterContext, action: string,
         });
       }
       
+      case 'history':
+        return executeHistory(ctx, params);
+
+      case 'undo':
+        return await executeUndo(ctx, params);
+
       default:
         throw new Error(`Unknown vault action: ${action}`);
     }
@@ -1029,3 +1096,51 @@ async function copyDirectoryRecursive(ctx: RouterContext, sourcePath: string, de
       }
     };
   }
+
+/**
+ * Answer vault.search from the shared vault index (BM25F over filename,
+ * aliases, headings, tags and body; no filename for 'content'), in the same
+ * paginated shape SearchFacade returns. Paths the session may not read
+ * (.mcpignore'd or outside its key's scope) are filtered before pagination.
+ */
+function searchFromIndex(
+  ctx: RouterContext,
+  query: string,
+  options: { page: number; pageSize: number; strategy: 'content' | 'combined'; includeSnippets: boolean }
+): unknown {
+  const index = ctx.fragmentIndex!;
+  const exclude = (path: string) => !ctx.api.isReadable(path);
+  const maxResults = 100; // same ceiling SearchFacade paginates over
+
+  // BM25F scores the filename as one field among others; a content-only search leaves it out
+  const boosts = ctx.api.getSearchBoosts();
+  if (options.strategy === 'content') boosts.filename = 0;
+
+  const ranked = index.rankDocuments(query, maxResults, exclude, boosts);
+  const totalResults = ranked.length;
+  const start = (options.page - 1) * options.pageSize;
+
+  return {
+    query,
+    page: options.page,
+    pageSize: options.pageSize,
+    totalResults,
+    totalPages: Math.ceil(totalResults / options.pageSize),
+    results: ranked.slice(start, start + options.pageSize).map(({ docPath: path, score, fragment }) => {
+      const info = index.getDocumentInfo(path);
+      return {
+        path,
+        title: (path.split('/').pop() ?? path).replace(/\.md$/, ''),
+        score,
+        snippet: options.includeSnippets && fragment ? {
+          content: fragment.content,
+          lineStart: fragment.lineStart,
+          lineEnd: fragment.lineEnd,
+          score: fragment.score,
+        } : undefined,
+        metadata: info ? { size: info.size, modified: info.mtime, extension: 'md' } : undefined,
+      };
+    }),
+    method: `vault-index-${options.strategy}`,
+  };
+}
@@ -9,11 +9,13 @@ import {
   EfficiencyRule
 } from '../types/semantic';
 import { ContentBufferManager } from '../utils/content-buffer';
-import { FileLockManager } from '../utils/file-lock';
+import { ContentVersionStore } from '../utils/content-version';
+import { READ_PAGE_CHARS, expandNoteEmbeds } from '../utils/file-reader';
 import { StateTokenManager } from './state-tokens';
 import { limitResponse } from '../utils/response-limiter';
 import { isImageFile } from '../types/obsidian';
 import { UniversalFragmentRetriever } from '../indexing/fragment-retriever';
+import { VaultFragmentIndex } from '../indexing/vault-fragment-index';
 import { GraphSearchTool, GraphSearchParams } from '../tools/graph-search';
 import { GraphSearchTool as GraphSearchTraversalTool } from '../tools/graph-search-tool';
 import { GraphTagTool } from '../tools/graph-tag-tool';
@@ -22,7 +24,19 @@ import { InputValidator } from '../validation/input-validator';
 import { BaseYAML } from '../types/bases-yaml';
 import { RouterContext } from './operations/router-context';
 import { executeVaultOperation } from './operations/vault';
-import { Params, SearchResultItem, paramStr, paramNum, paramBool, requireParamStr } from './operations/shared';
+import { executeEditOperation } from './operations/edit';
+import { executeEditBatch } from './operations/batch';
+import { executeDryRun } from './operations/dry-run';
+import { executeAudit } from './operations/audit';
+import { executeTasksOperation } from './operations/tasks';
+import { executePropertiesOperation } from './operations/properties';
+import { executeCanvasOperation } from './operations/canvas';
+import { executeBrokenLinksOperation } from './operations/broken-links';
+import { executeGraphExportOperation } from './operations/graph-export';
+import { executeLinkSuggestionsOperation } from './operations/link-suggestions';
+import { executeGraphHygieneOperation } from './operations/hygiene';
+import { RateLimitError } from '../security/rate-limiter';
+import { Params, SearchResultItem, OperationError, paramStr, paramNum, paramBool, requireParamStr } from './operations/shared';
 
 export class SemanticRouter implements RouterContext {
   private config!: WorkflowConfig;
@@ -32,6 +46,7 @@ export class SemanticRouter implements RouterContext {
   readonly api: ObsidianAPI;
   private tokenManager: StateTokenManager;
   readonly fragmentRetriever: UniversalFragmentRetriever;
+  readonly fragmentIndex?: VaultFragmentIndex;
   private graphSearchTool?: GraphSearchTool;
   private graphSearchTraversalTool?: GraphSearchTraversalTool;
   private graphTagTool?: GraphTagTool;
@@ -43,6 +58,8 @@ export class SemanticRouter implements RouterContext {
     this.app = app;
     this.tokenManager = new StateTokenManager();
     this.fragmentRetriever = new UniversalFragmentRetriever();
+    const sharedIndex = VaultFragmentIndex.getInstance();
+    this.fragmentIndex = sharedIndex.isAttached() ? sharedIndex : undefined;
     this.validator = new InputValidator();
     if (app) {
       this.graphSearchTool = new GraphSearchTool(api, app);
@@ -108,12 +125,19 @@ export class SemanticRouter implements RouterContext {
   }
   
   private async executeOperation(operation: string, action: string, params: Params): Promise<unknown> {
+    // A preview must never fall through to a real write (or be silently ignored)
+    if (paramBool(params, 'dryRun') === true) {
+      return executeDryRun(this, operation, action, params);
+    }
+
     // Map semantic operations to actual tool calls
     switch (operation) {
       case 'vault':
         return executeVaultOperation(this, action, params);
       case 'edit':
-        return this.executeEditOperation(action, params);
+        return action === 'batch'
+          ? executeEditBatch(this, params)
+          : executeEditOperation(this, action, params);
       case 'view':
         return this.executeViewOperation(action, params);
       case 'workflow':
@@ -124,125 +148,34 @@ export class SemanticRouter implements RouterContext {
         return this.executeGraphOperation(action, params);
       case 'bases':
         return this.executeBasesOperation(action, params);
+      case 'tasks':
+        return executeTasksOperation(this, action, params);
+      case 'properties':
+        return executePropertiesOperation(this, action, params);
+      case 'canvas':
+        return executeCanvasOperation(this, action, params);
       default:
         throw new Error(`Unknown operation: ${operation}`);
     }
   }
   
-  private async executeEditOperation(action: string, params: Params): Promise<unknown> {
-    const buffer = ContentBufferManager.getInstance();
-
-    // Serialize all edit actions targeting the same file so parallel
-    // edit.window/append/patch/at_line/from_buffer calls from a batched MCP
-    // client can no longer silently clobber each other (#139). Different
-    // files remain fully concurrent.
-    // Guard the lock key up-front so a missing path can't take a lock on
-    // the literal string "undefined" and serialize unrelated bad calls.
-    const lockPath = requireParamStr(params, 'path', `edit.${action}`);
-    return FileLockManager.getInstance().withLock(lockPath, async () => {
+  private async executeViewOperation(action: string, params: Params): Promise<unknown> {
     switch (action) {
-      case 'window': {
-        const oldText = requireParamStr(params, 'oldText', 'edit.window');
-        const newText = requireParamStr(params, 'newText', 'edit.window');
-        // Imported dynamically (only when needed) to avoid circular deps.
-        const { performWindowEdit } = await import('../tools/window-edit.js');
-        const result = await performWindowEdit(
-          this.api,
-          lockPath,
-          oldText,
-          newText,
-          paramNum(params, 'fuzzyThreshold')
-        );
-        if (result.isError) {
-          throw new Error(result.content[0].text);
+      case 'file': {
+        const file = await this.api.getFile(requireParamStr(params, 'path', 'view.file'));
+        if (isImageFile(file) || typeof file === 'string') {
+          return file;
         }
-        return result;
-      }
-      case 'append': {
-        const content = requireParamStr(
-          params,
-          'content',
-          'edit.append',
-          "Pass the text to append as 'content'.",
-        );
-        return await this.api.appendToFile(lockPath, content);
-      }
-      case 'patch':
-        return await this.api.patchVaultFile(lockPath, {
-          operation: paramStr(params, 'operation'),
-          targetType: paramStr(params, 'targetType'),
-          target: paramStr(params, 'target'),
-          content: paramStr(params, 'content'),
-          old_text: paramStr(params, 'oldText'),
-          new_text: paramStr(params, 'newText')
-        });
-      case 'at_line': {
-        // Get content to insert
-        let insertContent = paramStr(params, 'content');
-        if (!insertContent) {
-          const buffered = buffer.retrieve();
-          if (!buffered) {
-            throw new Error('No content provided and no buffered content found');
-          }
-          insertContent = buffered.content;
-        }
-
-        // Get file and perform line-based edit
-        const filePath = lockPath;
-        const file = await this.api.getFile(filePath);
-        if (isImageFile(file)) {
-          throw new Error('Cannot perform line-based edits on image files');
-        }
-        const content = typeof file === 'string' ? file : file.content;
-        const lines = content.split('\n');
-        const lineNumber = paramNum(params, 'lineNumber') ?? 1;
-
-        if (lineNumber < 1 || lineNumber > lines.length + 1) {
-          throw new Error(`Invalid line number ${lineNumber}. File has ${lines.length} lines.`);
-        }
-
-        const lineIndex = lineNumber - 1;
-        const mode = paramStr(params, 'mode') || 'replace';
-
-        switch (mode) {
-          case 'before':
-            lines.splice(lineIndex, 0, insertContent);
-            break;
-          case 'after':
-            lines.splice(lineIndex + 1, 0, insertContent);
-            break;
-          case 'replace':
-            lines[lineIndex] = insertContent;
-            break;
+        // Same hash as vault.read, for expectedHash on a following write.
+        const hash = ContentVersionStore.getInstance().stamp(file.content);
+        if (!paramBool(params, 'expandEmbeds')) {
+          return { ...file, hash };
         }
-
-        await this.api.updateFile(filePath, lines.join('\n'));
-        return { success: true, line: lineNumber, mode };
-      }
-      case 'from_buffer': {
-        const buffered = buffer.retrieve();
-        if (!buffered) {
-          throw new Error('No buffered content available');
-        }
-        const { performWindowEdit } = await import('../tools/window-edit.js');
-        return await performWindowEdit(
-          this.api,
-          lockPath,
-          paramStr(params, 'oldText') || buffered.searchText || '',
-          buffered.content,
-          paramNum(params, 'fuzzyThreshold')
+        const { content, embeds } = await expandNoteEmbeds(
+          this.api, file.path, file.content, READ_PAGE_CHARS, paramNum(params, 'embedDepth')
         );
+        return { ...file, content, embeds, hash, lineCount: file.content.split('\n').length };
       }
-      default:
-        throw new Error(`Unknown edit action: ${action}`);
-    }
-    });
-  }
-
-  private async executeViewOperation(action: string, params: Params): Promise<unknown> {
-    switch (action) {
-      case 'file':
-        return await this.api.getFile(requireParamStr(params, 'path', 'view.file'));
       case 'window': {
         // View a portion of a file
         const viewPath = requireParamStr(params, 'path', 'view.window');
@@ -329,12 +262,31 @@ export class SemanticRouter implements RouterContext {
         const { fetchTool } = await import('../tools/fetch.js');
         return await (fetchTool.handler as unknown as (api: unknown, args: Params) => Promise<unknown>)(this.api, params);
       }
+      case 'audit':
+        return executeAudit(params);
       default:
         throw new Error(`Unknown system action: ${action}`);
     }
   }
   
   private async executeGraphOperation(action: string, params: Params): Promise<unknown> {
+    // Link checks read the notes themselves and work without the app
+    if (action === 'broken_links' || action === 'repair_links') {
+      return executeBrokenLinksOperation(this, action, params);
+    }
+
+    if (action === 'suggest_links' || action === 'link_mentions') {
+      return executeLinkSuggestionsOperation(this, action, params);
+    }
+
+    if (action === 'export') {
+      return executeGraphExportOperation(this, params);
+    }
+
+    if (action === 'hygiene') {
+      return executeGraphHygieneOperation(this, params);
+    }
+
     // Handle graph search traversal operations
     if (action === 'search-traverse' || action === 'advanced-traverse') {
       if (!this.graphSearchTraversalTool) {
@@ -392,9 +344,14 @@ export class SemanticRouter implements RouterContext {
       followTags: paramBool(params, 'followTags'),
       fileFilter: paramStr(params, 'fileFilter'),
       tagFilter: params.tagFilter as string[] | undefined,
-      folderFilter: paramStr(params, 'folderFilter')
+      folderFilter: paramStr(params, 'folderFilter'),
+      limit: paramNum(params, 'limit'),
+      edgeTypes: params.edgeTypes as string[] | undefined,
+      edgeWeights: params.edgeWeights as Record<string, number> | undefined
     };
 
+    await this.graphSearchTool.refreshCanvasLinks();
+    await this.graphSearchTool.refreshFieldLinks(graphParams);
     return this.graphSearchTool.search(graphParams);
   }
   
@@ -692,9 +649,11 @@ export class SemanticRouter implements RouterContext {
 
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorCode = (error && typeof error === 'object' && 'code' in error) ? String((error as Record<string, unknown>).code) : undefined;
+    const errorDetails = error instanceof OperationError || error instanceof RateLimitError ? error.details : undefined;
     errorResponse.error = {
       code: errorCode || 'UNKNOWN_ERROR',
       message: errorMessage,
+      details: errorDetails,
       recovery_hints: errorResponse.workflow?.suggested_next
     };
     
@@ -0,0 +1,443 @@
+import * as vm from 'vm';
+
+/**
+ * DataviewJS execution for `dataview.query` with `format: 'js'`.
+ *
+ * The script runs in its own V8 context with nothing but the standard library,
+ * a `dv` object and a `console`: no `require`, `process`, `app` or `window`, so
+ * it can read vault data through Dataview but has no handle to write it.
+ *
+ * A context alone is not a boundary — any host object handed in leads back to
+ * the host's `Function` through `.constructor` or its prototype chain. Every
+ * host value the script can reach therefore passes through a membrane: a proxy
+ * over an empty shadow target that forwards reads, wraps whatever they return,
+ * refuses writes, hides `constructor`/`__proto__` and reports no prototype.
+ * Values going the other way are unwrapped (arrays and plain objects copied),
+ * so Dataview itself only ever sees its own objects; script functions handed
+ * to Dataview (`where`, `sort`) are called back through a trampoline in the
+ * context.
+ *
+ * The time limit is a deadline for the whole run: the script body, and every
+ * script function Dataview calls back, runs under a vm timeout for the time
+ * left. Scripts run synchronously, because code resuming after an `await`
+ * would run as a promise job, and V8 can only stop a promise job by
+ * terminating it, which corrupts Node's async context tracking (the operation
+ * journal's AsyncLocalStorage) and aborts the process. So `await` is refused
+ * when the script is compiled, Dataview's asynchronous calls are refused, and
+ * the context keeps its own microtask queue that is never run: every entry
+ * into the context ends by throwing, and V8 only runs that queue after an
+ * entry that returns. A promise callback the script sets up is simply never
+ * called.
+ *
+ * `dv.table`, `dv.list`, `dv.taskList`, `dv.paragraph`, `dv.header` and friends
+ * record structured outputs instead of rendering DOM, up to an output budget;
+ * past it the run carries on but further output is dropped and the result is
+ * marked truncated.
+ */
+
+export type DataviewJsOutput =
+  | { type: 'table'; headers: string[]; values: unknown[][] }
+  | { type: 'list'; values: unknown[] }
+  | { type: 'task'; values: unknown[] }
+  | { type: 'header'; level: number; text: string }
+  | { type: 'paragraph'; text: string };
+
+export interface DataviewJsResult {
+  outputs: DataviewJsOutput[];
+  logs: string[];
+  /** Output past the budget was dropped. */
+  truncated: boolean;
+}
+
+export interface DataviewJsOptions {
+  timeoutMs?: number;
+  /** Budget for outputs and logs together, in characters of JSON. */
+  maxOutputChars?: number;
+  /** The note `dv.current()` answers for. */
+  currentPath?: string;
+  /** Notes the script may see; `confineToReadable` hides the rest. */
+  isReadable?: (path: string) => boolean;
+}
+
+export class DataviewJsError extends Error {
+  constructor(message: string, public code: 'DATAVIEW_JS_TIMEOUT' | 'DATAVIEW_JS_ERROR') {
+    super(message);
+    this.name = 'DataviewJsError';
+  }
+}
+
+export const DEFAULT_DATAVIEW_JS_TIMEOUT_MS = 5000;
+export const DEFAULT_DATAVIEW_JS_OUTPUT_CHARS = 100_000;
+
+/** Read-only members of Dataview's API the script may call. */
+const DATA_MEMBERS = [
+  'pages', 'pagePaths', 'page', 'array', 'isArray', 'date', 'duration',
+  'fileLink', 'sectionLink', 'blockLink', 'compare', 'equal', 'clone', 'parse',
+  'evaluate', 'tryEvaluate', 'markdownTable', 'markdownList', 'markdownTaskList',
+  'luxon', 'value', 'widget',
+] as const;
+
+/** Members that run other code or touch the DOM. */
+const REFUSED_MEMBERS = ['execute', 'executeJs', 'view', 'el', 'container', 'app'] as const;
+
+/** Members that answer with a promise, which a synchronous script cannot wait for. */
+const ASYNC_MEMBERS = ['query', 'tryQuery', 'queryMarkdown', 'tryQueryMarkdown', 'io'] as const;
+
+/** Keys that lead from an object to its constructor or prototype. */
+const BLOCKED_KEYS = new Set<PropertyKey>([
+  'constructor', '__proto__', '__defineGetter__', '__defineSetter__',
+  '__lookupGetter__', '__lookupSetter__', 'caller', 'callee', 'arguments',
+]);
+
+/** Nesting depth past which captured values are cut off. */
+const MAX_PLAIN_DEPTH = 6;
+
+type AnyFunction = (...args: unknown[]) => unknown;
+
+function isObject(value: unknown): value is object {
+  return value !== null && (typeof value === 'object' || typeof value === 'function');
+}
+
+/**
+ * The two-way wrapper between host values and the script. `call` enters the
+ * context to run a script function and returns its result already converted
+ * for the host; the run supplies it.
+ */
+class Membrane {
+  private proxies = new WeakMap<object, object>();
+  private targets = new WeakMap<object, object>();
+  private callbacks = new WeakMap<object, AnyFunction>();
+  private readonly handler: ProxyHandler<object>;
+
+  constructor(private call: (fn: unknown, self: unknown, args: unknown[]) => unknown) {
+    const real = (shadow: object) => this.targets.get(shadow)!;
+    // Host getters and proxies can throw from any trap, and a host error leads back to the host's Function
+    const guard = <T>(trap: () => T): T => {
+      try {
+        return trap();
+      } catch (error) {
+        throw this.toSandbox(error);
+      }
+    };
+    this.handler = {
+      get: (shadow, key) => guard(() => {
+        if (BLOCKED_KEYS.has(key)) return undefined;
+        const target = real(shadow);
+        return this.toSandbox(Reflect.get(target, key, target));
+      }),
+      has: (shadow, key) => guard(() => !BLOCKED_KEYS.has(key) && Reflect.has(real(shadow), key)),
+      ownKeys: shadow => guard(() => Reflect.ownKeys(real(shadow)).filter(key => !BLOCKED_KEYS.has(key))),
+      getOwnPropertyDescriptor: (shadow, key) => guard(() => {
+        if (BLOCKED_KEYS.has(key)) return undefined;
+        const target = real(shadow);
+        const descriptor = Reflect.getOwnPropertyDescriptor(target, key);
+        if (!descriptor) return undefined;
+        const value = this.toSandbox(Reflect.get(target, key, target));
+        // A shadow's own non-configurable properties (an array's length) must be reported as such
+        const own = Reflect.getOwnPropertyDescriptor(shadow, key);
+        if (own && !own.configurable) return { ...own, value };
+        return { value, writable: false, enumerable: descriptor.enumerable, configurable: true };
+      }),
+      getPrototypeOf: () => null,
+      apply: (shadow, self, args) => guard(() => {
+        const result = Reflect.apply(real(shadow) as AnyFunction, this.toHost(self), args.map(arg => this.toHost(arg)));
+        return this.toSandbox(result);
+      }),
+      set: () => false,
+      defineProperty: () => false,
+      deleteProperty: () => false,
+      setPrototypeOf: () => false,
+      preventExtensions: () => false,
+    };
+  }
+
+  /** A host value as the script sees it. */
+  toSandbox(value: unknown): unknown {
+    if (!isObject(value)) return value;
+    if (this.targets.has(value)) return value;
+    const existing = this.proxies.get(value);
+    if (existing) return existing;
+
+    if (value instanceof Promise) {
+      // Thrown as a proxy too: a host error would lead the script back to the host's Function
+      value.catch(() => undefined);
+      throw this.toSandbox(new Error('DataviewJS queries run synchronously, and this Dataview call answers with a promise'));
+    }
+
+    // Invariants bind to the shadow, which owns nothing that could force the real value out
+    const shadow = typeof value === 'function' ? () => undefined : Array.isArray(value) ? [] : {};
+    const proxy = new Proxy(shadow, this.handler);
+    this.targets.set(shadow, value);
+    this.targets.set(proxy, value);
+    this.proxies.set(value, proxy);
+    return proxy;
+  }
+
+  /**
+   * A script value as host code receives it. Reading a script object can run
+   * script code (getters, proxies), so this is only ever called inside a timed
+   * entry into the context.
+   */
+  toHost(value: unknown, seen = new Map<object, unknown>()): unknown {
+    if (!isObject(value)) return value;
+    const target = this.targets.get(value);
+    if (target) return target;
+    if (seen.has(value)) return seen.get(value);
+
+    if (typeof value === 'function') {
+      let callback = this.callbacks.get(value);
+      if (!callback) {
+        const enter = this.call;
+        const toSandbox = (item: unknown) => this.toSandbox(item);
+        callback = function (this: unknown, ...args: unknown[]) {
+          return enter(value, toSandbox(this), args.map(toSandbox));
+        };
+        this.callbacks.set(value, callback);
+      }
+      return callback;
+    }
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      value.forEach(item => copy.push(this.toHost(item, seen)));
+      return copy;
+    }
+    const tag = Object.prototype.toString.call(value);
+    if (tag === '[object Date]') return new Date(Date.prototype.getTime.call(value));
+    if (tag === '[object Error]') {
+      const message: unknown = Object.getOwnPropertyDescriptor(value, 'message')?.value;
+      return new Error(typeof message === 'string' ? message : 'DataviewJS error');
+    }
+    // Anything else is copied as data, so host code never holds a script object
+    const copy: Record<string, unknown> = {};
+    seen.set(value, copy);
+    for (const [key, item] of Object.entries(value)) copy[key] = this.toHost(item, seen);
+    return copy;
+  }
+}
+
+/** A captured value as plain JSON-able data: Dataview arrays, dates and links flattened. */
+function toPlain(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value ?? null;
+  if (typeof value === 'bigint') return String(value);
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_PLAIN_DEPTH) return '…';
+
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.array === 'function') return (obj.array as () => unknown[])().map(v => toPlain(v, depth + 1));
+  if (Array.isArray(value)) return value.map(v => toPlain(v, depth + 1));
+  if (typeof obj.toISO === 'function') {
+    const iso = (obj.toISO as () => unknown)();
+    if (typeof iso === 'string') return iso;
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (typeof obj.path === 'string' && 'display' in obj) {
+    return { path: obj.path, display: typeof obj.display === 'string' ? obj.display : undefined };
+  }
+
+  const plain: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(obj)) {
+    if (key.startsWith('$')) continue;
+    const converted = toPlain(item, depth + 1);
+    if (converted !== undefined) plain[key] = converted;
+  }
+  return plain;
+}
+
+function toText(value: unknown): string {
+  const plain = toPlain(value);
+  return typeof plain === 'string' ? plain : JSON.stringify(plain) ?? '';
+}
+
+function toTask(value: unknown): unknown {
+  const task = toPlain(value);
+  if (!isObject(task)) return task;
+  const { text, completed, line, path } = task as Record<string, unknown>;
+  return { text, completed, line, path };
+}
+
+/** The part of Dataview's DataArray that `confineToReadable` filters with. */
+interface DataCollection {
+  where(predicate: (item: unknown) => unknown): DataCollection;
+  map(fn: (item: unknown) => unknown): DataCollection;
+}
+
+const isCollection = (value: unknown): value is DataCollection =>
+  isObject(value) && typeof (value as Partial<DataCollection>).where === 'function';
+
+/**
+ * Limit `dv` to the notes `readable` allows, so `.mcpignore` and a scoped key's
+ * paths hold inside a script too: `pages` and `pagePaths` leave the others
+ * out, `page` answers undefined for them, and a page's inlinks and outlinks
+ * drop links to them. `evaluate` is refused, since an expression reaches any
+ * note through a link (`[[Secret]].status`).
+ */
+function confineToReadable(dv: Record<string, unknown>, readable: (path: string) => boolean): void {
+  const readablePath = (path: unknown) => typeof path === 'string' && readable(path);
+  const links = (value: unknown) =>
+    isCollection(value) ? value.where(link => readablePath((link as { path?: unknown } | null)?.path)) : value;
+  const visible = (page: unknown): unknown => {
+    const file = (page as { file?: Record<string, unknown> } | null | undefined)?.file;
+    if (!file || !readablePath(file.path)) return undefined;
+    return { ...(page as object), file: { ...file, inlinks: links(file.inlinks), outlinks: links(file.outlinks) } };
+  };
+
+  const { pages, pagePaths, page } = dv as Record<string, AnyFunction | undefined>;
+  if (pages) dv.pages = (...args: unknown[]) => {
+    const all = pages(...args);
+    return isCollection(all) ? all.map(visible).where(p => p !== undefined) : all;
+  };
+  if (pagePaths) dv.pagePaths = (...args: unknown[]) => {
+    const all = pagePaths(...args);
+    return isCollection(all) ? all.where(readablePath) : all;
+  };
+  if (page) dv.page = (...args: unknown[]) => visible(page(...args));
+  for (const member of ['evaluate', 'tryEvaluate']) {
+    dv[member] = () => { throw new Error(`dv.${member} is not available to MCP DataviewJS queries: an expression can reach notes this session may not read`); };
+  }
+}
+
+/**
+ * Run a DataviewJS script against Dataview's API and return what it rendered.
+ * Rejects with `DataviewJsError` on a timeout or an error thrown by the script.
+ */
+export async function runDataviewJs(
+  source: string,
+  dataviewApi: Record<string, unknown>,
+  options: DataviewJsOptions = {}
+): Promise<DataviewJsResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_DATAVIEW_JS_TIMEOUT_MS;
+  const maxOutputChars = options.maxOutputChars ?? DEFAULT_DATAVIEW_JS_OUTPUT_CHARS;
+  const deadline = Date.now() + timeoutMs;
+  const remaining = () => deadline - Date.now();
+  const timeoutError = () => new DataviewJsError(`DataviewJS exceeded the ${timeoutMs} ms time limit`, 'DATAVIEW_JS_TIMEOUT');
+
+  const failure = (error: unknown): DataviewJsError => {
+    if (error instanceof DataviewJsError) return error;
+    if ((error as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return timeoutError();
+    const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'the script threw a non-error value';
+    return new DataviewJsError(`DataviewJS failed: ${message}`, 'DATAVIEW_JS_ERROR');
+  };
+
+  const result: DataviewJsResult = { outputs: [], logs: [], truncated: false };
+  let expired = false;
+  let used = 0;
+  const spend = (size: number): boolean => {
+    if (expired) return false;
+    if (result.truncated || used + size > maxOutputChars) {
+      result.truncated = true;
+      return false;
+    }
+    used += size;
+    return true;
+  };
+  const emit = (output: DataviewJsOutput): void => {
+    if (spend(JSON.stringify(output).length)) result.outputs.push(output);
+  };
+
+  // A null-prototype global: lookups that miss must not fall through to the host's Object.
+  // The context's own microtask queue is never run, since no entry into it returns.
+  const context = vm.createContext(Object.create(null) as object, {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  // Finalizer callbacks would run the script later, as tasks of their own
+  const slot = vm.runInContext('delete globalThis.FinalizationRegistry; globalThis.__dataviewJsCall = { stop: {} }', context) as Record<string, unknown>;
+  const stop = slot.stop;
+  const makeArray = vm.runInContext('(...items) => items', context) as (...items: unknown[]) => unknown[];
+  // Converts the result through the membrane while still inside the timed entry
+  const trampoline = new vm.Script('(() => { const c = globalThis.__dataviewJsCall; c.done(Reflect.apply(c.fn, c.self, c.args)); throw c.stop; })()');
+  let returned: unknown;
+  const call = (fn: unknown, self: unknown, args: unknown[]): unknown => {
+    if (expired || remaining() <= 0) {
+      expired = true;
+      throw timeoutError();
+    }
+    slot.fn = fn;
+    slot.self = self;
+    slot.args = makeArray(...args);
+    returned = undefined;
+    try {
+      trampoline.runInContext(context, { timeout: remaining() });
+    } catch (error) {
+      if (error === stop) return returned;
+      // A callback that runs out of time ends the run, wherever Dataview called it from
+      if ((error as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        expired = true;
+        throw timeoutError();
+      }
+      throw error;
+    }
+    throw new DataviewJsError('DataviewJS failed: a callback returned without finishing', 'DATAVIEW_JS_ERROR');
+  };
+  const membrane = new Membrane(call);
+  slot.done = membrane.toSandbox((value: unknown) => { returned = value; });
+
+  const dv: Record<string, unknown> = {};
+  for (const member of DATA_MEMBERS) {
+    const value = dataviewApi[member];
+    if (typeof value === 'function') dv[member] = (...args: unknown[]) => (value as AnyFunction).apply(dataviewApi, args);
+    else if (value !== undefined) dv[member] = value;
+  }
+  if (options.isReadable) confineToReadable(dv, options.isReadable);
+  for (const member of REFUSED_MEMBERS) {
+    dv[member] = () => { throw new Error(`dv.${member} is not available to MCP DataviewJS queries`); };
+  }
+  for (const member of ASYNC_MEMBERS) {
+    dv[member] = () => { throw new Error(`dv.${member} is asynchronous, and MCP DataviewJS queries run synchronously; use a DQL query instead`); };
+  }
+  Object.assign(dv, {
+    current: () => (options.currentPath ? (dv.page as AnyFunction | undefined)?.(options.currentPath) : undefined),
+    table: (headers: unknown, values: unknown) => emit({
+      type: 'table',
+      headers: ((toPlain(headers) ?? []) as unknown[]).map(h => String(h)),
+      values: ((toPlain(values) ?? []) as unknown[]).map(row => (Array.isArray(row) ? row as unknown[] : [row])),
+    }),
+    list: (values: unknown) => emit({ type: 'list', values: (toPlain(values) ?? []) as unknown[] }),
+    taskList: (tasks: unknown) => {
+      const plain = toPlain(tasks);
+      emit({ type: 'task', values: Array.isArray(plain) ? plain.map(toTask) : [] });
+    },
+    header: (level: unknown, text: unknown) => emit({ type: 'header', level: Number(level) || 1, text: toText(text) }),
+    paragraph: (text: unknown) => emit({ type: 'paragraph', text: toText(text) }),
+    span: (text: unknown) => emit({ type: 'paragraph', text: toText(text) }),
+  });
+  const log = (...args: unknown[]) => {
+    const line = args.map(toText).join(' ');
+    if (spend(line.length)) result.logs.push(line);
+  };
+
+  const globals = context as Record<string, unknown>;
+  globals.dv = membrane.toSandbox(dv);
+  globals.console = membrane.toSandbox({ log, info: log, warn: log, error: log });
+  let thrown: unknown;
+  globals.__dataviewJsFailed = membrane.toSandbox((error: unknown) => { thrown = error; });
+
+  // Ends by throwing, like the trampoline, so the context's microtasks never run
+  const script = `try {\n(() => {\n${source}\n})();\n} catch (e) {\n__dataviewJsFailed(e === undefined || e === null ? 'error' : e);\n}\nthrow __dataviewJsCall.stop;`;
+  try {
+    let compiled: vm.Script;
+    try {
+      compiled = new vm.Script(script, { filename: 'dataviewjs' });
+    } catch (error) {
+      const { name, message } = error as Error;
+      if (name === 'SyntaxError' && /\bawait\b/.test(message)) {
+        throw new DataviewJsError('DataviewJS failed: await is not supported, since MCP DataviewJS queries run synchronously', 'DATAVIEW_JS_ERROR');
+      }
+      throw error;
+    }
+    try {
+      compiled.runInContext(context, { timeout: Math.max(1, remaining()) });
+    } catch (error) {
+      if (error !== stop) throw error;
+    }
+    if (expired || remaining() <= 0) throw timeoutError();
+    if (thrown !== undefined) throw failure(thrown);
+    return result;
+  } catch (error) {
+    throw failure(error);
+  } finally {
+    expired = true;
+  }
+}
@@ -1,5 +1,7 @@
 import { ObsidianAPI } from '../utils/obsidian-api';
 import { PluginDetector } from '../utils/plugin-detector';
+import { OperationJournal } from '../utils/operation-journal';
+import { runDataviewJs } from './dataview-js-sandbox';
 
 /**
  * Dataview plugin API type definitions (not provided by Dataview's package)
@@ -233,15 +235,32 @@ export class DataviewTool {
   }
 
   /**
-   * Execute a Dataview query
+   * Execute a Dataview query. DataviewJS (`format: 'js'`) runs in the sandbox
+   * of `dataview-js-sandbox.ts`, which shows it only the notes this API may read;
+   * `currentPath` is the note `dv.current()` returns. Whether JS may run at all is the caller's check (the enableDataviewJs setting).
+   *
+   * DQL is refused to scoped API keys: a row of a GROUP BY or WITHOUT ID query
+   * does not say which notes it was computed from, so it cannot be filtered
+   * to the key's paths the way `listPages` is.
    */
-  async executeQuery(query: string, format: 'dql' | 'js' = 'dql'): Promise<unknown> {
+  async executeQuery(query: string, format: 'dql' | 'js' = 'dql', currentPath?: string): Promise<unknown> {
     if (!this.isAvailable()) {
       throw new Error('Dataview plugin is not available or not enabled');
     }
 
     const dataviewAPI = asDataviewAPI(this.detector.getDataviewAPI());
 
+    const keyName = OperationJournal.currentContext()?.keyName;
+    if (format === 'dql' && keyName !== undefined) {
+      return {
+        success: false,
+        query,
+        format,
+        error: `DQL queries are only available to the main API key (this session uses key "${keyName}"). ` +
+          'Use dataview.list or dataview.metadata, which return only the notes this key may read.'
+      };
+    }
+
     try {
       if (format === 'dql') {
         // Execute DQL query. Dataview returns {successful: false, error}
@@ -264,8 +283,17 @@ export class DataviewTool {
           hints: this.generateQueryHints(query)
         };
       } else {
-        // Execute JavaScript query (if needed in the future)
-        throw new Error('JavaScript queries not yet implemented');
+        const output = await runDataviewJs(query, dataviewAPI as unknown as Record<string, unknown>, {
+          currentPath,
+          isReadable: path => this.api.isReadable(path),
+        });
+        return {
+          success: true,
+          query,
+          format,
+          result: { type: 'js', ...output },
+          type: 'js'
+        };
       }
     } catch (error) {
       return {
@@ -278,7 +306,8 @@ export class DataviewTool {
   }
 
   /**
-   * List all pages with metadata
+   * List all pages with metadata. Pages the session may not read (`.mcpignore`,
+   * a scoped key's paths) are left out, count included.
    */
   listPages(source?: string): unknown {
     if (!this.isAvailable()) {
@@ -289,15 +318,15 @@ export class DataviewTool {
 
     try {
       // Get pages from source (folder, tag, etc.) or all pages
-      const pages: DataviewArray<DataviewPage> = source
-        ? dataviewAPI.pages(source)
-        : dataviewAPI.pages();
+      const pages = (source ? dataviewAPI.pages(source) : dataviewAPI.pages())
+        .array()
+        .filter(page => this.api.isReadable(page.file.path));
 
       return {
         success: true,
         source: source || 'all',
         count: pages.length,
-        pages: pages.array().slice(0, 50).map((page: DataviewPage) => ({
+        pages: pages.slice(0, 50).map((page: DataviewPage) => ({
           path: page.file.path,
           name: page.file.name,
           size: page.file.size,
@@ -320,7 +349,8 @@ export class DataviewTool {
   }
 
   /**
-   * Get metadata for a specific page
+   * Get metadata for a specific page. A page the session may not read is not
+   * found, and links to or from such pages are left out.
    */
   getPageMetadata(path: string): unknown {
     if (!this.isAvailable()) {
@@ -330,9 +360,9 @@ export class DataviewTool {
     const dataviewAPI = asDataviewAPI(this.detector.getDataviewAPI());
 
     try {
-      const page: DataviewPage | null = dataviewAPI.page(path);
+      const page: DataviewPage | null = this.api.isReadable(path) ? dataviewAPI.page(path) : null;
 
-      if (!page) {
+      if (!page || !this.api.isReadable(page.file.path)) {
         throw new Error(`Page not found: ${path}`);
       }
 
@@ -351,8 +381,8 @@ export class DataviewTool {
           },
           tags: page.file.tags?.array() ?? [],
           aliases: page.aliases?.array() ?? [],
-          outlinks: page.file.outlinks?.array() ?? [],
-          inlinks: page.file.inlinks?.array() ?? [],
+          outlinks: this.readableLinks(page.file.outlinks),
+          inlinks: this.readableLinks(page.file.inlinks),
           tasks: page.file.tasks?.array()?.length ?? 0,
           lists: page.file.lists?.array()?.length ?? 0,
           // Include all custom frontmatter fields
@@ -368,6 +398,10 @@ export class DataviewTool {
     }
   }
 
+  private readableLinks(links?: DataviewArray<DataviewLink>): DataviewLink[] {
+    return (links?.array() ?? []).filter(link => this.api.isReadable(link.path));
+  }
+
   /**
    * Validate a DQL query syntax
    */
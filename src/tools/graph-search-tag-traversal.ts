@@ -42,7 +42,7 @@ export class GraphSearchTagTraversal extends GraphSearchTraversal {
         // Search through all files to find ones with matching tags
         const allFiles = this.app.vault.getMarkdownFiles();
         for (const otherFile of allFiles) {
-            if (otherFile.path === file.path) continue;
+            if (otherFile.path === file.path || !this.api.isReadable(otherFile.path)) continue;
 
             const otherCache = this.app.metadataCache.getFileCache(otherFile);
             const otherTags = otherCache ? getAllTags(otherCache) || [] : [];
@@ -79,8 +79,8 @@ export class GraphSearchTagTraversal extends GraphSearchTraversal {
         while (queue.length > 0) {
             const [currentPath, depth, parentPath, connectionType] = queue.shift()!;
             
-            // Skip if already visited or exceeds max depth
-            if (visited.has(currentPath) || depth > maxDepth) continue;
+            // Skip if already visited, exceeds max depth or hidden from this session
+            if (visited.has(currentPath) || depth > maxDepth || !this.api.isReadable(currentPath)) continue;
             
             visited.add(currentPath);
             totalNodesVisited++;
@@ -159,7 +159,7 @@ export class GraphSearchTagTraversal extends GraphSearchTraversal {
         const file1 = this.app.vault.getAbstractFileByPath(path1);
         const file2 = this.app.vault.getAbstractFileByPath(path2);
         
-        if (!file1 || !file2 || !(file1 instanceof TFile) || !(file2 instanceof TFile)) {
+        if (!(file1 instanceof TFile) || !(file2 instanceof TFile) || !this.api.isReadable(path1) || !this.api.isReadable(path2)) {
             return [];
         }
         
@@ -57,8 +57,8 @@ export class GraphSearchTraversal {
         let initialPaths: [string, number, string | undefined][] = [];
 
         if (startPath === '/' || startPath === '') {
-            // Get all files in the vault
-            const allFiles = this.app.vault.getFiles();
+            // Get all files in the vault the session may read
+            const allFiles = this.app.vault.getFiles().filter(file => this.api.isReadable(file.path));
 
             // Sort by modification time to get most relevant files
             const sortedFiles = allFiles.sort((a, b) => b.stat.mtime - a.stat.mtime);
@@ -77,8 +77,8 @@ export class GraphSearchTraversal {
         while (queue.length > 0) {
             const [currentPath, depth, parentPath] = queue.shift()!;
             
-            // Skip if already visited or exceeds max depth
-            if (visited.has(currentPath) || depth > maxDepth) continue;
+            // Skip if already visited, exceeds max depth or hidden from this session
+            if (visited.has(currentPath) || depth > maxDepth || !this.api.isReadable(currentPath)) continue;
             
             visited.add(currentPath);
             totalNodesVisited++;
@@ -183,7 +183,7 @@ export class GraphSearchTraversal {
     }
 
     /**
-     * Get all linked paths from a file (both forward and backlinks)
+     * Get all linked paths from a file (both forward and backlinks) that the session may read
      */
     protected getLinkedPaths(file: TFile): string[] {
         const linkedPaths = new Set<string>();
@@ -193,7 +193,7 @@ export class GraphSearchTraversal {
         if (cache?.links) {
             for (const link of cache.links) {
                 const linkedFile = this.app.metadataCache.getFirstLinkpathDest(link.link, file.path);
-                if (linkedFile) {
+                if (linkedFile && this.api.isReadable(linkedFile.path)) {
                     linkedPaths.add(linkedFile.path);
                 }
             }
@@ -204,7 +204,7 @@ export class GraphSearchTraversal {
         if (resolvedLinks) {
             // Iterate through all files to find which ones link to this file
             for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
-                if (links && links[file.path]) {
+                if (links && links[file.path] && this.api.isReadable(sourcePath)) {
                     linkedPaths.add(sourcePath);
                 }
             }
@@ -1,5 +1,6 @@
 import { ObsidianAPI } from '../utils/obsidian-api';
-import { GraphTraversal, GraphTraversalOptions, GraphNode } from '../utils/graph-traversal';
+import { GraphTraversal, GraphTraversalOptions, GraphNode, namesRelation } from '../utils/graph-traversal';
+import { GraphAnalysisCache } from '../utils/graph-analytics';
 import { App, TFile } from 'obsidian';
 
 /**
@@ -13,7 +14,7 @@ export interface GraphSearchParams {
   targetPath?: string;
   
   // Type of graph operation
-  operation: 'traverse' | 'neighbors' | 'path' | 'statistics' | 'backlinks' | 'forwardlinks';
+  operation: 'traverse' | 'neighbors' | 'path' | 'statistics' | 'backlinks' | 'forwardlinks' | 'analyze';
   
   // Options for traversal
   maxDepth?: number;
@@ -22,11 +23,59 @@ export interface GraphSearchParams {
   followBacklinks?: boolean;
   followForwardLinks?: boolean;
   followTags?: boolean;
+
+  // Typed edges: link, canvas, tag, or the property a link is written in
+  edgeTypes?: string[];
+  edgeWeights?: Record<string, number>;
   
   // Filters
   fileFilter?: string; // regex pattern for file names
   tagFilter?: string[]; // only include files with these tags
   folderFilter?: string; // only include files in this folder
+
+  // How many notes/communities analyze lists
+  limit?: number;
+}
+
+/**
+ * A note's place in the graph, as graph.analyze reports it
+ */
+export interface NodeRanking {
+  path: string;
+  title: string;
+  pageRank: number;
+  betweenness: number;
+  /** Absent for a note with no links. */
+  community?: number;
+}
+
+/**
+ * graph.analyze: centrality and communities of the vault or a folder
+ */
+export interface GraphAnalysisResult {
+  scope: string;
+  notes: number;
+  links: number;
+  /** Reused from an earlier call; the links have not changed since. */
+  cached: boolean;
+  approximate: boolean;
+  modularity: number;
+  topPageRank: NodeRanking[];
+  topBetweenness: NodeRanking[];
+  communities: Array<{
+    id: number;
+    size: number;
+    /** Highest PageRank first, up to the limit. */
+    members: NodeRanking[];
+    externalLinks: number;
+    linkedCommunities: number[];
+    /** No links to any other community. */
+    isolated: boolean;
+  }>;
+  totalCommunities: number;
+  unlinked: number;
+  /** With sourcePath: that note, with its ranks among all notes. */
+  node?: NodeRanking & { pageRankRank: number; betweennessRank: number };
 }
 
 /**
@@ -50,8 +99,10 @@ export interface GraphSearchResult {
   edges?: Array<{
     source: string;
     target: string;
-    type: 'link' | 'embed' | 'tag';
+    type: 'link' | 'embed' | 'tag' | 'canvas' | 'property';
+    relation?: string;
     count: number;
+    weight?: number;
   }>;
   found?: boolean;
   paths?: Array<Array<{ path: string; title: string }>> | string[][];
@@ -71,6 +122,7 @@ export interface GraphSearchResult {
     largestComponentSize: number;
     isolatedClusters: number;
   };
+  analysis?: GraphAnalysisResult;
   graphStats?: {
     totalNodes: number;
     totalEdges: number;
@@ -95,7 +147,37 @@ export class GraphSearchTool {
   private graphTraversal: GraphTraversal;
   
   constructor(private api: ObsidianAPI, private app: App) {
-    this.graphTraversal = new GraphTraversal(app, api.getIgnoreManager());
+    this.graphTraversal = new GraphTraversal(app, api.getReadExclusions());
+  }
+
+  /** Pick up links in `.canvas` files changed since the last search. */
+  refreshCanvasLinks(): Promise<void> {
+    return this.graphTraversal.refreshCanvasLinks();
+  }
+
+  /**
+   * Pick up links in inline fields of notes changed since the last search,
+   * when the search's edgeTypes or edgeWeights name a relation; otherwise
+   * those links are plain link edges and no note needs reading.
+   */
+  async refreshFieldLinks(params: Pick<GraphSearchParams, 'edgeTypes' | 'edgeWeights'>): Promise<void> {
+    if (namesRelation(params)) await this.graphTraversal.refreshFieldLinks();
+  }
+
+  /** edgeTypes and edgeWeights, checked, as traversal options. */
+  private edgeOptions(params: GraphSearchParams): Pick<GraphTraversalOptions, 'edgeTypes' | 'edgeWeights'> {
+    const { edgeTypes, edgeWeights } = params;
+    if (edgeTypes !== undefined && (!Array.isArray(edgeTypes) || edgeTypes.some(type => typeof type !== 'string'))) {
+      throw new Error('edgeTypes must be an array of edge types or property names, e.g. ["parent"]');
+    }
+    if (edgeWeights !== undefined) {
+      const valid = typeof edgeWeights === 'object' && edgeWeights !== null && !Array.isArray(edgeWeights) &&
+        Object.values(edgeWeights).every(weight => typeof weight === 'number' && weight >= 0);
+      if (!valid) {
+        throw new Error('edgeWeights must map edge types or property names to numbers >= 0, e.g. {"parent": 2, "link": 1}');
+      }
+    }
+    return { edgeTypes, edgeWeights };
   }
 
   /** Throw "File not found" for an ignored query root ('/' and '' are the virtual root). */
@@ -132,6 +214,8 @@ export class GraphSearchTool {
         return this.getBacklinks(params);
       case 'forwardlinks':
         return this.getForwardLinks(params);
+      case 'analyze':
+        return this.analyze(params);
       default: {
         const exhaustiveCheck: never = operation;
         throw new Error(`Unknown graph operation: ${String(exhaustiveCheck)}`);
@@ -153,7 +237,8 @@ export class GraphSearchTool {
       includeUnresolved: params.includeUnresolved || false,
       followBacklinks: params.followBacklinks !== false,
       followForwardLinks: params.followForwardLinks !== false,
-      followTags: params.followTags || false
+      followTags: params.followTags || false,
+      ...this.edgeOptions(params)
     };
 
     // Add filters if specified
@@ -224,7 +309,11 @@ export class GraphSearchTool {
       throw new Error('Source path is required for neighbors operation');
     }
 
-    const { node, neighbors, edges } = this.graphTraversal.getLocalNeighborhood(params.sourcePath);
+    const { node, neighbors, edges } = this.graphTraversal.getLocalNeighborhood(params.sourcePath, {
+      followBacklinks: params.followBacklinks !== false,
+      followForwardLinks: params.followForwardLinks !== false,
+      ...this.edgeOptions(params)
+    });
     
     const nodes = [node, ...neighbors].map(n => ({
       path: n.path,
@@ -272,10 +361,15 @@ export class GraphSearchTool {
     }
 
     // First try shortest path
+    const edgeOptions = this.edgeOptions(params);
     const shortestPath = this.graphTraversal.findShortestPath(
       params.sourcePath,
       params.targetPath,
-      { followBacklinks: params.followBacklinks !== false }
+      {
+        followBacklinks: params.followBacklinks !== false,
+        followForwardLinks: params.followForwardLinks !== false,
+        ...edgeOptions
+      }
     );
 
     let rawPaths: string[][] = [];
@@ -287,7 +381,8 @@ export class GraphSearchTool {
         const allPaths = this.graphTraversal.findAllPaths(
           params.sourcePath,
           params.targetPath,
-          params.maxDepth
+          params.maxDepth,
+          edgeOptions
         );
         rawPaths = allPaths.slice(0, 10); // Limit to 10 paths
       }
@@ -515,4 +610,89 @@ export class GraphSearchTool {
       }
     };
   }
+
+  /**
+   * PageRank, betweenness and communities over the resolved links — the
+   * vault's, or within folderFilter. With sourcePath, only the community of
+   * that note is listed, with the note's own ranks.
+   */
+  private analyze(params: GraphSearchParams): GraphSearchResult {
+    const folder = params.folderFilter?.replace(/^\/+|\/+$/g, '') || undefined;
+    const scope = folder ?? 'vault';
+    const limit = params.limit && params.limit > 0 ? Math.floor(params.limit) : 10;
+    const graph = this.graphTraversal.getLinkGraph(folder);
+    if (params.sourcePath && !graph.nodes.includes(params.sourcePath)) {
+      throw new Error(`${params.sourcePath} is not a note in ${scope === 'vault' ? 'the vault' : scope}`);
+    }
+    const { analysis, cached } = GraphAnalysisCache.getInstance().analyze(scope, graph);
+
+    const ranking = (path: string): NodeRanking => ({
+      path,
+      title: this.graphTraversal.getNodeTitleForPath(path),
+      pageRank: analysis.pageRank.get(path) ?? 0,
+      betweenness: analysis.betweenness.get(path) ?? 0,
+      community: analysis.communityOf.get(path),
+    });
+    const top = (scores: Map<string, number>) => [...scores]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([path]) => path);
+    const byPageRank = top(analysis.pageRank);
+    const byBetweenness = top(analysis.betweenness);
+
+    const own = params.sourcePath ? analysis.communityOf.get(params.sourcePath) : undefined;
+    const communities = analysis.communities
+      .filter(c => !params.sourcePath || c.id === own)
+      .slice(0, limit)
+      .map(c => ({
+        id: c.id,
+        size: c.size,
+        members: c.members.slice(0, limit).map(ranking),
+        externalLinks: c.externalLinks,
+        linkedCommunities: c.linkedCommunities,
+        isolated: c.externalLinks === 0,
+      }));
+    const node = params.sourcePath
+      ? {
+          ...ranking(params.sourcePath),
+          pageRankRank: byPageRank.indexOf(params.sourcePath) + 1,
+          betweennessRank: byBetweenness.indexOf(params.sourcePath) + 1,
+        }
+      : undefined;
+    const isolated = analysis.communities.filter(c => c.externalLinks === 0).length;
+
+    return {
+      operation: 'analyze',
+      sourcePath: params.sourcePath,
+      analysis: {
+        scope,
+        notes: analysis.notes,
+        links: analysis.links,
+        cached,
+        approximate: analysis.approximate,
+        modularity: analysis.modularity,
+        topPageRank: byPageRank.slice(0, limit).map(ranking),
+        topBetweenness: byBetweenness.slice(0, limit).map(ranking),
+        communities,
+        totalCommunities: analysis.communities.length,
+        unlinked: analysis.unlinked.length,
+        node,
+      },
+      message: `${analysis.notes} notes in ${analysis.communities.length} communities (${isolated} isolated), ${analysis.unlinked.length} unlinked`,
+      workflow: {
+        message: 'Graph analyzed. Hubs rank high on PageRank; bridges between areas rank high on betweenness.',
+        suggested_next: [
+          {
+            description: 'Explore a hub',
+            command: 'graph:neighbors',
+            reason: 'To see what the highest-ranked notes connect'
+          },
+          {
+            description: 'Focus on one area',
+            command: 'graph:analyze',
+            reason: 'Pass sourcePath to list the community of a note, or folderFilter to analyze one folder'
+          }
+        ]
+      }
+    };
+  }
 }
@@ -24,6 +24,16 @@ interface TagTraversalNode extends TraversalNode {
 /** Result type from searchTraverseWithTags */
 type TagSearchResult = GraphSearchResult & { tagConnections: number; followTags?: boolean };
 
+/** Result of the tag-analysis action */
+export interface TagAnalysisResult {
+    file: string;
+    tags: string[];
+    /** For each of the file's tags, the other notes that carry it */
+    tagConnections: Record<string, string[]>;
+    summary: string;
+    strongestConnections: TagConnectionEntry[];
+}
+
 /** Tag connection strength entry */
 interface TagConnectionEntry {
     tag: string;
@@ -103,14 +113,14 @@ export class GraphTagTool {
         };
     }
 
-    private analyzeTagConnections(params: GraphTagToolParams) {
+    private analyzeTagConnections(params: GraphTagToolParams): TagAnalysisResult {
         if (!params.startPath) {
             throw new Error('startPath is required for tag-analysis action');
         }
 
         // Get the file and its tags
         const file = this.app.vault.getAbstractFileByPath(params.startPath);
-        if (!(file instanceof TFile)) {
+        if (!(file instanceof TFile) || !this.api.isReadable(file.path)) {
             throw new Error('File not found or not a valid file');
         }
 
@@ -126,7 +136,7 @@ export class GraphTagTool {
         const tagSet = new Set(tags);
         const allFiles = this.app.vault.getMarkdownFiles();
         for (const otherFile of allFiles) {
-            if (otherFile.path === params.startPath) continue;
+            if (otherFile.path === params.startPath || !this.api.isReadable(otherFile.path)) continue;
 
             const otherCache = this.app.metadataCache.getFileCache(otherFile);
             const otherTags = otherCache ? getAllTags(otherCache) || [] : [];
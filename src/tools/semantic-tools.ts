@@ -64,6 +64,7 @@ export type ToolVisibility = Record<string, boolean>;
 interface PluginWithSettings {
   settings?: {
     readOnlyMode?: boolean;
+    enableDataviewJs?: boolean;
   };
 }
 
@@ -87,7 +88,7 @@ interface DataviewResult {
  * Unified semantic tools that consolidate all operations into 5 main verbs
  */
 
-const createSemanticTool = (operation: string, visibility?: ToolVisibility, webFetchEnabled?: boolean): SemanticTool | null => {
+const createSemanticTool = (operation: string, visibility?: ToolVisibility, webFetchEnabled?: boolean, dataviewJsEnabled?: boolean): SemanticTool | null => {
   // Check operation-level toggle
   if (visibility && visibility[operation] === false) return null;
 
@@ -117,6 +118,14 @@ const createSemanticTool = (operation: string, visibility?: ToolVisibility, webF
     description = description.replace(/, fetch_web:[^,]*$/, '');
   }
 
+  // DataviewJS has its own toggle, like fetch_web, and fails closed the same
+  // way. Advertising it is presentation; the handler re-reads the setting.
+  const parameters = getParametersForOperation(operation);
+  if (operation === 'dataview' && dataviewJsEnabled === true) {
+    parameters.format = DATAVIEW_JS_FORMAT_PARAM;
+    description += ' format: "js" runs DataviewJS against the dv API in a sandbox (read-only, time-limited); dv.table/list/taskList/header/paragraph come back as structured outputs.';
+  }
+
   return {
   name: operation,
   description,
@@ -133,7 +142,7 @@ const createSemanticTool = (operation: string, visibility?: ToolVisibility, webF
         description: 'Return raw JSON instead of formatted markdown (use when you need complete metadata or structured data for processing)',
         default: false
       },
-      ...getParametersForOperation(operation)
+      ...parameters
     },
     required: ['action']
   },
@@ -198,7 +207,14 @@ const createSemanticTool = (operation: string, visibility?: ToolVisibility, webF
             };
           } else {
             const dvFormat = args.format === 'js' ? 'js' : 'dql';
-            const queryResult = await dataviewTool.executeQuery(args.query, dvFormat);
+            if (dvFormat === 'js' && plugin?.settings?.enableDataviewJs !== true) {
+              result = {
+                error: { code: 'DATAVIEW_JS_DISABLED', message: 'DataviewJS queries are not allowed. Enable "Allow DataviewJS queries" in the plugin settings, or use a DQL query.' },
+                context: { operation, action: args.action }
+              };
+              break;
+            }
+            const queryResult = await dataviewTool.executeQuery(args.query, dvFormat, dvFormat === 'js' ? args.path : undefined);
             result = {
               result: queryResult,
               context: { operation, action: args.action, query: args.query }
@@ -388,32 +404,46 @@ const createSemanticTool = (operation: string, visibility?: ToolVisibility, webF
 
 export function getOperationDescription(operation: string): string {
   const descriptions: Record<string, string> = {
-    vault: '📁 File operations - list, read, create, update, delete, search, fragments, move, rename, copy, split, combine, concatenate. Search supports: operators (file:, path:, content:, tag:), OR/AND, "quoted phrases", /regex/. Options: ranked=true for TF-IDF relevance scoring, searchStrategy (filename|content|combined|auto), includeSnippets for contextual extracts. Search matches words, not meaning — it will miss notes that cover a topic in different vocabulary, and its scores are term frequency, so a low-scoring hit is NOT necessarily unimportant (do not prune on score). Prefer a couple of BROAD scans over many narrow ones, then follow links from the hits with `graph.neighbors` to reach what search cannot rank.',
-    edit: '✏️ Edit files - window: find/replace with fuzzy matching, append: add to end, patch: modify headings/blocks/frontmatter, at_line: insert at line number, from_buffer: reuse previous window content',
-    view: '👁️ View content - file: entire document, window: ~20 lines around point, active: current editor file, open_in_obsidian: launch in app',
+    vault: '📁 File operations - list, read, create, update, delete, search, fragments, semantic_search, move, rename, copy, split, combine, concatenate, history, undo. Search supports: operators (file:, path:, content:, tag:), frontmatter properties with typed comparisons (status:active priority:>2 due:<=2026-10-01 priority:1..3), has:/missing: a property, created:/modified: dates (modified:>2026-09-01, modified:2026-09), -negation, AND/OR/NOT with (grouping), "quoted phrases", prefix* words, /regex/. Plain-word queries are ranked with BM25F: a match in the filename, aliases, headings or tags counts more than one in body text (weights are set in the plugin settings). Options: ranked=true to rank operator queries the same way on their free-text terms, searchStrategy (filename|content|combined|auto), includeSnippets for contextual extracts. Search matches words, not meaning — it will miss notes that cover a topic in different vocabulary, and its scores are term statistics, so a low-scoring hit is NOT necessarily unimportant (do not prune on score). Prefer a couple of BROAD scans over many narrow ones, then follow links from the hits with `graph.neighbors` to reach what search cannot rank. When embedding search is enabled in the plugin settings, semantic_search ranks passages by embedding similarity to the query (path scopes it to a note or folder): with an embedding model configured that is meaning, not words; with the built-in provider it is shared words and word pieces, so inflections match but synonyms do not, and fragments with strategy=hybrid blends that with keyword relevance (hybridWeight 0-1 is the keyword share, default 0.5); both fail with SEMANTIC_SEARCH_UNAVAILABLE when it is off. Every write is journaled: history lists recent changes (filter by path or sessionId), undo reverts one entry (id) or a whole session (sessionId) and refuses with CONFLICT if a file changed since, unless force=true. read returns a content hash; pass it to update as expectedHash to refuse the write with CONFLICT (and a diff) if the file changed since. dryRun=true on update/combine/split/move previews the change as a unified diff without writing. move and rename rewrite every link to the file — [[wikilinks]], ![[embeds]], [[note#heading]] and [[note#^block]] links, aliases, Markdown links and canvas file cards — whether or not Obsidian\'s automatic link updating is on, and list each rewritten file and line (updateLinks=false to skip). read with expandEmbeds=true inlines ![[note]], ![[note#heading]] and ![[note#^block]] embeds between <!-- embed: … --> markers, recursively up to embedDepth (default 3), leaving cycles, attachments and anything over the size budget as links.',
+    edit: '✏️ Edit files - window: find/replace with fuzzy matching, append: add to end, patch: modify headings/blocks/frontmatter (operation=rename with targetType=heading renames the heading and rewrites every [[note#heading]] link to it, listing each file and line), at_line: insert at line number, from_buffer: reuse previous window content, batch: apply an ordered list of edit/vault operations all-or-nothing (any failure rolls every earlier step back). Pass the hash from vault.read/view.file as expectedHash to window/patch/at_line to refuse the edit with CONFLICT (and a diff) if the file changed since it was read. dryRun=true on any action previews the change as a unified diff without writing.',
+    view: '👁️ View content - file: entire document (with a content hash for expectedHash; expandEmbeds=true inlines embedded notes, headings and blocks), window: ~20 lines around point, active: current editor file, open_in_obsidian: launch in app',
     workflow: '💡 Get contextual suggestions for next actions based on current state',
-    system: 'ℹ️ System operations - info: server details, commands: available actions, fetch_web: retrieve and process web content',
-    graph: '🕸️ Graph navigation — follow the vault\'s own links. Use this to EXPAND from a note you already found rather than running another search: search ranks by term frequency, so it cannot reach a note that covers the topic in different words, but a link to it usually exists. BLIND SPOT (the mirror of search\'s): traversal only reaches what someone actually linked. A note can be genuinely relevant and simply unlinked — no amount of traversal will find it. So the two are complements, not substitutes: scan broadly with `vault.search` to catch the unlinked, then follow links from the hits to catch the differently-worded. Trust neither alone. Actions — neighbors: immediate links of a note (start here); traverse: multi-hop exploration; search-traverse: scan-and-follow in one call, but it returns SNIPPETS per node and prunes on scoreThreshold, so use it to discover WHICH notes matter, then read them — do not treat its snippets as the whole argument; path: how two notes connect; backlinks/forwardlinks: directional links (backlinks are how you find what depends on a note — its own text does not know); statistics: link counts (call with no sourcePath for vault-wide density); tag-analysis/shared-tags: tag structure.',
+    system: 'ℹ️ System operations - info: server details, commands: available actions, audit: recent entries of the security audit log (tool calls and allow/block decisions with session, key, path and outcome) filtered by path, sessionId or outcome — main API key only, fetch_web: retrieve and process web content',
+    graph: '🕸️ Graph navigation — follow the vault\'s own links. Use this to EXPAND from a note you already found rather than running another search: search ranks by term frequency, so it cannot reach a note that covers the topic in different words, but a link to it usually exists. BLIND SPOT (the mirror of search\'s): traversal only reaches what someone actually linked. A note can be genuinely relevant and simply unlinked — no amount of traversal will find it. So the two are complements, not substitutes: scan broadly with `vault.search` to catch the unlinked, then follow links from the hits to catch the differently-worded. Trust neither alone. Actions — neighbors: immediate links of a note (start here); traverse: multi-hop exploration; search-traverse: scan-and-follow in one call, but it returns SNIPPETS per node and prunes on scoreThreshold, so use it to discover WHICH notes matter, then read them — do not treat its snippets as the whole argument; path: how two notes connect; backlinks/forwardlinks: directional links (backlinks are how you find what depends on a note — its own text does not know); statistics: link counts (call with no sourcePath for vault-wide density); tag-analysis/shared-tags: tag structure. Canvases count as notes too: a note on a .canvas file card, or linked from one of its text cards, is joined to the canvas by an edge of type canvas. Links written in a frontmatter property (parent: "[[X]]", related: ["[[Y]]"]) or a Dataview inline field (author:: [[Person]]) are typed edges (type property) whose relation is the property name — inline fields only when edgeTypes or edgeWeights name a relation, since telling them apart means reading each note; edgeTypes filters traverse, neighbors and path to some types ("follow only parent edges") and edgeWeights weights them. broken_links: every link in a note or folder (path; default the whole vault) that reaches nothing — missing_note, missing_heading, missing_block, or case_mismatch (resolves only by ignoring case, which Obsidian does and case-sensitive tools do not) — with its line and up to 3 suggested fixes (moved: the journal recorded the move or a same-named file lives elsewhere; case; fuzzy: a close file name, heading or block id, scored 0-1). repair_links: apply the best suggestion to every broken link whose best scores at least threshold (default 0.8) and beats the runner-up; the rest are listed as skipped. Use dryRun=true to preview the repair as a diff first; problems limits either action to some kinds. analyze: which notes are hubs and how the vault clusters — PageRank (notes many well-linked notes point to), betweenness (notes that bridge otherwise separate areas) and Louvain communities over the resolved links, each community with its top notes and whether it links to any other (isolated). folderFilter analyzes one folder; sourcePath lists just that note\'s community and its own ranks; limit caps each list (default 10). Results are cached until the links change. export: the graph as GraphML, Graphviz DOT, GEXF or JSON Graph Format for Gephi, networkx or Graphviz — every note and canvas (folderFilter for one folder), or with sourcePath the notes a traversal reaches (maxDepth, maxNodes). Edges are typed link, embed, canvas or tag (tag edges go to #tag nodes; includeTags=false drops them), weighted by how often the link is written; frontmatter becomes node attributes. outputPath writes the export to the vault (format inferred from .graphml/.dot/.gv/.gexf/.json; overwrite=true to replace); otherwise it is returned in pages (page). suggest_links: links sourcePath is missing — outgoing: unlinked mentions in it of other notes\' file names and aliases; incoming: unlinked mentions of it in other notes (the backlinks pane\'s "Unlinked mentions"); related: notes it does not link to yet, ranked by shared tags (rarer tags weigh more), co-citation (notes linking to both), whether they link to it, and whether it mentions them. Each mention has an id, its line and column, and a ready edit.at_line call (with expectedHash) that links it; each related note a ready edit. link_mentions: link the mentions whose ids are in mentions (default: all found; direction limits to outgoing or incoming) in one call, each file under its lock; dryRun=true previews the diff. hygiene: a maintenance report — orphans (no links in or out), dead ends (linked to, link nowhere), stale notes (not modified in staleMonths, default 6, yet linked from at least minBacklinks notes, default 3), empty and stub notes (body under stubSize characters, default 100, frontmatter aside), duplicate titles (one file name in several folders) and attachments no note links to or embeds. folderFilter limits it to one folder; findings come in pages (page, pageSize), or outputPath writes the whole report as a Markdown note (overwrite=true to replace).',
     dataview: '📊 Dataview operations - query: execute DQL queries (LIST FROM "folder", TABLE field FROM #tag WHERE condition), list: get pages with metadata and frontmatter, metadata: extract complete page metadata, validate: check DQL syntax, status: plugin availability. Supports LIST, TABLE, TASK, CALENDAR queries with WHERE filters, sorting, grouping.',
-    bases: '🗃️ Bases operations - list: show all .base files, read: get YAML config, create: new base with views/filters/formulas, query: execute filters on vault notes, view: get table/card view data, evaluate: test formulas, export: CSV/JSON/Markdown. Bases use YAML format with expression-based filters like status == "active" and file.hasTag("project")'
+    bases: '🗃️ Bases operations - list: show all .base files, read: get YAML config, create: new base with views/filters/formulas, query: execute filters on vault notes, view: get table/card view data, evaluate: test formulas, export: CSV/JSON/Markdown. Bases use YAML format with expression-based filters like status == "active" and file.hasTag("project")',
+    tasks: '☑️ Task management - checklist items (- [ ] ...) across the vault, with Tasks plugin emoji fields (📅 due, ⏳ scheduled, 🛫 start, 🔁 recurrence, ⏫ priority, ✅ done) or Dataview inline fields ([due:: 2026-10-20]). list: tasks in a note or folder (path) or the whole vault; query: filter by status (open by default), due/dueBefore/dueAfter, scheduledBefore/scheduledAfter, overdue, priority, tag, text, recurring, sorted by path, due or priority; toggle: check off or reopen — completing a recurring task adds its next occurrence above it, as the Tasks plugin does; create: add a task to a note (end, before line, or under heading; the note is created if missing); update: change description, status, dates, priority or recurrence (\'\' removes a field); reschedule: set a date or move it by days. Address a task by path + line (from list/query) or by blockId (the ^id at the end of its line). Dates are YYYY-MM-DD, today, tomorrow or yesterday. expectedHash and dryRun work as for edits.',
+    properties: '🏷️ Frontmatter properties across many notes - list: every property key with its count, value types (text, number, checkbox, date, datetime, list, object, empty) and example values, flagging keys used with mixed types; set: give a key a value (onlyMissing=true to leave notes that have it); remove: delete a key; rename: key to newKey, keeping value and position (notes that already have newKey are skipped unless overwrite=true); retype: convert values to text, number, checkbox, date or list ("a, b" becomes [a, b]; values that do not convert are skipped and reported). Choose notes with exactly one of: paths (array), glob ("Projects/**"), query (a vault.search query), dql (a Dataview query; TABLE rows count by their first column), base (a .base file, with viewName). list defaults to the whole vault; the others require a target — use glob "**" for every note. YAML comments, key order and quoting are kept, and notes an edit does not apply to are not written. dryRun=true previews the change as a unified diff.',
+    canvas: '🧩 Canvas files (.canvas, the JSON Canvas format) - list: canvases in the vault or a folder (path) with node and edge counts; read: every node and edge of one canvas, with any spec violations; validate: check it against the JSON Canvas spec; create: a new canvas, empty or from nodes/edges arrays; add_node: a text (text), file (file, optional subpath "#Heading"), link (url) or group (label) card — without x/y it is placed below the existing cards, and a group given around (node ids) is sized to enclose them; add_edge: join fromNode to toNode (fromSide/toSide top|right|bottom|left, fromEnd/toEnd none|arrow, label, color); move: a node to x/y or by dx/dy, and/or resize it (moving a group moves the cards inside it); remove: nodes or edges by id or ids (a node takes its edges with it); layout: place notes (paths, or a glob) as file cards in a grid below the existing content, skipping notes already there, and with connect (default true) turn links between them into edges. Positions and sizes are integer pixels; color is "1"-"6" or a hex color. Writes are refused if they would make the canvas invalid. expectedHash and dryRun=true work as on vault.update.'
   };
   return descriptions[operation] || 'Unknown operation';
 }
 
 export function getActionsForOperation(operation: string): string[] {
   const actions: Record<string, string[]> = {
-    vault: ['list', 'read', 'create', 'update', 'delete', 'search', 'fragments', 'move', 'rename', 'copy', 'split', 'combine', 'concatenate'],
-    edit: ['window', 'append', 'patch', 'at_line', 'from_buffer'],
+    vault: ['list', 'read', 'create', 'update', 'delete', 'search', 'fragments', 'semantic_search', 'move', 'rename', 'copy', 'split', 'combine', 'concatenate', 'history', 'undo'],
+    edit: ['window', 'append', 'patch', 'at_line', 'from_buffer', 'batch'],
     view: ['file', 'window', 'active', 'open_in_obsidian'],
     workflow: ['suggest'],
-    system: ['info', 'commands', 'fetch_web'],
-    graph: ['traverse', 'neighbors', 'path', 'statistics', 'backlinks', 'forwardlinks', 'search-traverse', 'advanced-traverse', 'tag-traverse', 'tag-analysis', 'shared-tags'],
+    system: ['info', 'commands', 'audit', 'fetch_web'],
+    graph: ['traverse', 'neighbors', 'path', 'statistics', 'backlinks', 'forwardlinks', 'search-traverse', 'advanced-traverse', 'tag-traverse', 'tag-analysis', 'shared-tags', 'broken_links', 'repair_links', 'analyze', 'export', 'suggest_links', 'link_mentions', 'hygiene'],
     dataview: ['query', 'list', 'metadata', 'validate', 'status'],
-    bases: ['list', 'read', 'create', 'query', 'view', 'export']
+    bases: ['list', 'read', 'create', 'query', 'view', 'export'],
+    tasks: ['list', 'query', 'toggle', 'create', 'update', 'reschedule'],
+    properties: ['list', 'set', 'remove', 'rename', 'retype'],
+    canvas: ['list', 'read', 'validate', 'create', 'add_node', 'add_edge', 'move', 'remove', 'layout']
   };
   return actions[operation] || [];
 }
 
+/** The dataview `format` parameter while DataviewJS is allowed. */
+const DATAVIEW_JS_FORMAT_PARAM = {
+  type: 'string',
+  enum: ['dql', 'js'],
+  description: 'Query format: dql (default) or js — a DataviewJS script using the dv API (pages, page, table, list, taskList, header, paragraph). Scripts run synchronously: await and dv.query are refused. path sets the note dv.current() returns.',
+  default: 'dql'
+};
+
 function getParametersForOperation(operation: string): Record<string, unknown> {
   // Common parameters across operations
   const pathParam = {
@@ -440,11 +470,11 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       },
       query: {
         type: 'string',
-        description: 'Search query - supports operators (file:, path:, content:, tag:), OR/AND, "quoted phrases", /regex/'
+        description: 'Search query - supports operators (file:, path:, content:, tag:), property comparisons (status:active priority:>2 priority:1..3), has:/missing:, created:/modified: dates (YYYY, YYYY-MM, YYYY-MM-DD, ranges a..b), -negation, AND/OR/NOT, (grouping), "quoted phrases", /regex/'
       },
       ranked: {
         type: 'boolean',
-        description: 'Use TF-IDF relevance scoring (default: auto-detected based on query type)'
+        description: 'Rank operator-query matches with BM25F on their free-text terms (plain-word queries are always ranked)'
       },
       searchStrategy: {
         type: 'string',
@@ -469,17 +499,29 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       },
       strategy: {
         type: 'string',
-        enum: ['auto', 'adaptive', 'proximity', 'structure', 'semantic'],
-        description: 'Fragment retrieval strategy (default: auto). None of these are embedding/vector search — all match words, not meaning. auto: pick per query. adaptive: term-frequency ranked passages. proximity: passages where the query terms appear close together. structure: passages cut on the document\'s own structure (headings, paragraphs) with surrounding context kept. "semantic" is a deprecated alias of "structure" — it never meant vector similarity, and is retained only for compatibility.'
+        enum: ['auto', 'adaptive', 'proximity', 'structure', 'semantic', 'hybrid'],
+        description: 'Fragment retrieval strategy (default: auto). Only hybrid uses embeddings — the others match words, not meaning. hybrid: blend of embedding similarity and keyword relevance (needs embedding search enabled; see hybridWeight). auto: pick per query. adaptive: term-frequency ranked passages. proximity: passages where the query terms appear close together. structure: passages cut on the document\'s own structure (headings, paragraphs) with surrounding context kept. "semantic" is a deprecated alias of "structure" — it never meant vector similarity, and is retained only for compatibility.'
       },
       maxFragments: {
         type: 'number',
         description: 'Maximum number of fragments to return (default: 5)'
       },
+      hybridWeight: {
+        type: 'number',
+        description: 'fragments with strategy=hybrid: share of the score from keyword relevance, 0-1 (default: 0.5); the rest is embedding similarity'
+      },
       returnFullFile: {
         type: 'boolean',
         description: 'read: force the ENTIRE file verbatim regardless of size (explicit large-context override). Default read already returns the whole file verbatim when it fits the size budget; large files return a verbatim page 1 with absolute line bookends (use page=N to continue, or query/strategy/maxFragments for fragments).'
       },
+      expandEmbeds: {
+        type: 'boolean',
+        description: 'read: inline embedded notes, headings and blocks, marked with <!-- embed: path --> comments, and list every embed met. The hash and line numbers still refer to the file itself (default: false)'
+      },
+      embedDepth: {
+        type: 'number',
+        description: 'read with expandEmbeds: levels of embeds within embeds to inline (default: 3)'
+      },
       includeContent: {
         type: 'boolean',
         description: 'Include file content in search results (slower but more thorough)'
@@ -564,6 +606,35 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
         enum: ['append', 'prepend', 'new'],
         description: 'Concatenation mode: append to path1, prepend to path1, or create new file'
       },
+      expectedHash: {
+        type: 'string',
+        description: 'update: the hash returned by vault.read/view.file. If the file has changed since, the write is refused with a CONFLICT error and a diff'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'update/combine/split/move: compute the change without writing and return a unified diff plus the affected files (default: false)'
+      },
+      updateLinks: {
+        type: 'boolean',
+        description: 'move/rename: rewrite links to the file across the vault and report each changed line (default: true)'
+      },
+      // Journal parameters
+      id: {
+        type: 'string',
+        description: 'undo: journal entry id to revert (from history)'
+      },
+      sessionId: {
+        type: 'string',
+        description: 'history: only this MCP session\'s changes. undo: revert every change this session made, newest first'
+      },
+      limit: {
+        type: 'number',
+        description: 'history: maximum entries to return, newest first (default: 50)'
+      },
+      force: {
+        type: 'boolean',
+        description: 'undo: revert even files that changed after the journaled operation (default: false)'
+      },
       ...contentParam
     },
     edit: {
@@ -586,6 +657,14 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
         type: 'number',
         description: 'Line number for at_line action'
       },
+      expectedHash: {
+        type: 'string',
+        description: 'window/patch/at_line: the hash returned by vault.read/view.file. If the file has changed since, the edit is refused with a CONFLICT error and a diff'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Any edit action (including batch): compute the edit without writing and return a unified diff plus the affected files (default: false)'
+      },
       mode: {
         type: 'string',
         enum: ['before', 'after', 'replace'],
@@ -593,8 +672,12 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       },
       operation: {
         type: 'string',
-        enum: ['append', 'prepend', 'replace'],
-        description: 'Patch operation: append (add after), prepend (add before), or replace'
+        enum: ['append', 'prepend', 'replace', 'rename'],
+        description: 'Patch operation: append (add after), prepend (add before), replace, or rename (heading only: content is the new heading text)'
+      },
+      updateLinks: {
+        type: 'boolean',
+        description: 'patch with operation=rename: rewrite links to the renamed heading across the vault (default: true)'
       },
       targetType: {
         type: 'string',
@@ -604,6 +687,19 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       target: {
         type: 'string',
         description: 'Target identifier (e.g., "Section::Subsection", "blockId", "status")'
+      },
+      operations: {
+        type: 'array',
+        description: 'batch: ordered steps, each {operation: "edit"|"vault", action, params}. Batchable: edit.window/append/patch/at_line, vault.create/update/delete/move/rename on files (not folders). All files involved are locked for the whole batch; if any step fails, completed steps are rolled back and the error names the failing step.',
+        items: {
+          type: 'object',
+          properties: {
+            operation: { type: 'string', enum: ['edit', 'vault'] },
+            action: { type: 'string' },
+            params: { type: 'object', description: 'The same params the action takes on its own (path, oldText, newText, content, destination, ...)' }
+          },
+          required: ['operation', 'action', 'params']
+        }
       }
     },
     view: {
@@ -620,6 +716,14 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
         type: 'number',
         description: 'Number of lines to show',
         default: 20
+      },
+      expandEmbeds: {
+        type: 'boolean',
+        description: 'file: inline embedded notes, headings and blocks, marked with <!-- embed: path --> comments, and list every embed met. The hash and line numbers still refer to the file itself (default: false)'
+      },
+      embedDepth: {
+        type: 'number',
+        description: 'file with expandEmbeds: levels of embeds within embeds to inline (default: 3)'
       }
     },
     workflow: {
@@ -632,6 +736,23 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       url: {
         type: 'string',
         description: 'URL to fetch and convert to markdown'
+      },
+      path: {
+        type: 'string',
+        description: 'audit: only entries for this file, or for anything below this folder'
+      },
+      sessionId: {
+        type: 'string',
+        description: 'audit: only entries from this MCP session'
+      },
+      outcome: {
+        type: 'string',
+        enum: ['success', 'error', 'rate_limited', 'allowed', 'blocked'],
+        description: 'audit: only entries with this outcome (tool calls: success/error/rate_limited; security decisions: allowed/blocked)'
+      },
+      limit: {
+        type: 'number',
+        description: 'audit: maximum entries to return, newest first (default: 50)'
       }
     },
     graph: {
@@ -649,7 +770,7 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       },
       maxNodes: {
         type: 'number',
-        description: 'Maximum number of nodes to return (default: 50)'
+        description: 'Maximum number of nodes to return (default: 50; export: 500)'
       },
       includeUnresolved: {
         type: 'boolean',
@@ -667,6 +788,16 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
         type: 'boolean',
         description: 'Follow tag connections during traversal'
       },
+      edgeTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'traverse/neighbors/path: follow only these edge types — link, canvas, tag, or a property links are written in, such as parent (frontmatter parent: "[[X]]") or author (inline field author:: [[Person]]). E.g. ["parent"] with followBacklinks=false climbs parent links to the root'
+      },
+      edgeWeights: {
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        description: 'traverse/neighbors/path: weight per edge type, e.g. {"parent": 3, "link": 1}; unlisted types weigh 1, 0 skips a type. traverse visits notes over heavy edges first, path returns the path of least total 1/weight, and neighbors lists heavy edges first; each edge reports its weight'
+      },
       fileFilter: {
         type: 'string',
         description: 'Regex pattern to filter file names'
@@ -678,7 +809,7 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       },
       folderFilter: {
         type: 'string',
-        description: 'Only include files in this folder'
+        description: 'Only include files in this folder (analyze: analyze only the links between notes in this folder; hygiene: report only on files in this folder)'
       },
       // Graph search traversal parameters
       startPath: {
@@ -723,6 +854,78 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
       tagWeight: {
         type: 'number',
         description: 'Weight factor for tag connections (0-1, default: 0.8)'
+      },
+      // Broken link parameters
+      path: {
+        type: 'string',
+        description: 'broken_links/repair_links: a note or folder to check (default: the whole vault)'
+      },
+      problems: {
+        type: 'array',
+        items: { type: 'string', enum: ['missing_note', 'missing_heading', 'missing_block', 'case_mismatch'] },
+        description: 'broken_links/repair_links: only these kinds of broken link (default: all)'
+      },
+      threshold: {
+        type: 'number',
+        description: 'broken_links: minimum score of a suggestion (0-1, default: 0.6). repair_links: minimum score of a fix to apply (default: 0.8)'
+      },
+      limit: {
+        type: 'number',
+        description: 'broken_links: maximum broken links to return (default: 200). analyze: notes per ranking and communities listed (default: 10). suggest_links: related notes listed (default: 10)'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'repair_links/link_mentions: compute the change without writing and return a unified diff plus the affected files (default: false)'
+      },
+      // Link suggestion parameters
+      mentions: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'link_mentions: ids of the mentions to link, from suggest_links (default: every mention found)'
+      },
+      direction: {
+        type: 'string',
+        enum: ['outgoing', 'incoming', 'both'],
+        description: 'link_mentions: outgoing links mentions in sourcePath, incoming links mentions of it elsewhere (default: both)'
+      },
+      // Export parameters
+      format: {
+        type: 'string',
+        enum: ['graphml', 'dot', 'gexf', 'json'],
+        description: 'export: file format (default: from the outputPath extension, else graphml). json is JSON Graph Format v2'
+      },
+      outputPath: {
+        type: 'string',
+        description: 'export: vault path to write the export to; without it the export is returned in pages. hygiene: vault path to write the report note to'
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'export/hygiene: replace outputPath if it exists (default: false)'
+      },
+      includeTags: {
+        type: 'boolean',
+        description: 'export: add #tag nodes and note-to-tag edges (default: true)'
+      },
+      page: {
+        type: 'number',
+        description: 'export: page of the returned export, when it is too large for one response. hygiene: page of findings (default: 1)'
+      },
+      // Hygiene parameters
+      staleMonths: {
+        type: 'number',
+        description: 'hygiene: months without a change after which a linked note is stale (default: 6)'
+      },
+      minBacklinks: {
+        type: 'number',
+        description: 'hygiene: backlinks a note needs to be reported as stale (default: 3)'
+      },
+      stubSize: {
+        type: 'number',
+        description: 'hygiene: characters below which a note body is a stub (default: 100)'
+      },
+      pageSize: {
+        type: 'number',
+        description: 'hygiene: findings per page (default: 50)'
       }
     },
     dataview: {
@@ -794,6 +997,312 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
         type: 'string',
         description: 'Date format for export (e.g., YYYY-MM-DD)'
       }
+    },
+    tasks: {
+      path: {
+        type: 'string',
+        description: 'list/query: a note or folder to look in (default: whole vault). toggle/update/reschedule: the note holding the task. create: the note to add the task to'
+      },
+      line: {
+        type: 'number',
+        description: 'toggle/update/reschedule: 1-based line of the task (from list/query). create: insert before this line'
+      },
+      blockId: {
+        type: 'string',
+        description: 'toggle/update/reschedule: address the task by its block ID (^id) instead of path + line'
+      },
+      description: {
+        type: 'string',
+        description: 'create/update: the task text, without dates or priority'
+      },
+      status: {
+        type: 'string',
+        enum: ['todo', 'in_progress', 'done', 'cancelled', 'open', 'any'],
+        description: 'list/query: only tasks with this status (open = todo or in_progress; query defaults to open). update: set the status (todo, in_progress, done, cancelled)'
+      },
+      due: {
+        type: 'string',
+        description: 'query: due on this date. create/update: set the due date (\'\' removes it)'
+      },
+      scheduled: {
+        type: 'string',
+        description: 'create/update: set the scheduled date (\'\' removes it)'
+      },
+      start: {
+        type: 'string',
+        description: 'create/update: set the start date (\'\' removes it)'
+      },
+      priority: {
+        type: 'string',
+        enum: ['highest', 'high', 'medium', 'low', 'lowest', 'none'],
+        description: 'query: only tasks with this priority. create/update: set it (none removes it)'
+      },
+      recurrence: {
+        type: 'string',
+        description: 'create/update: a Tasks recurrence rule, e.g. "every week on Monday", "every month on the 15th", "every 3 days when done" (\'\' removes it)'
+      },
+      dueBefore: {
+        type: 'string',
+        description: 'query: due before this date (exclusive)'
+      },
+      dueAfter: {
+        type: 'string',
+        description: 'query: due after this date (exclusive)'
+      },
+      scheduledBefore: {
+        type: 'string',
+        description: 'query: scheduled before this date (exclusive)'
+      },
+      scheduledAfter: {
+        type: 'string',
+        description: 'query: scheduled after this date (exclusive)'
+      },
+      overdue: {
+        type: 'boolean',
+        description: 'query: only open tasks due before today (false: only tasks that are not)'
+      },
+      recurring: {
+        type: 'boolean',
+        description: 'query: only tasks with (true) or without (false) a recurrence rule'
+      },
+      tag: {
+        type: 'string',
+        description: 'query: only tasks with this tag or a tag nested below it'
+      },
+      text: {
+        type: 'string',
+        description: 'query: only tasks whose description contains this text'
+      },
+      sortBy: {
+        type: 'string',
+        enum: ['path', 'due', 'priority'],
+        description: 'query: order of the results (default: path, i.e. vault order)'
+      },
+      limit: {
+        type: 'number',
+        description: 'list/query: maximum tasks to return (default: 100)'
+      },
+      heading: {
+        type: 'string',
+        description: 'create: add the task at the end of this heading\'s section'
+      },
+      syntax: {
+        type: 'string',
+        enum: ['tasks', 'dataview'],
+        description: 'create: write fields as Tasks emoji (default) or Dataview inline fields. Edits keep the syntax a task already uses'
+      },
+      date: {
+        type: 'string',
+        description: 'reschedule: the new date'
+      },
+      days: {
+        type: 'number',
+        description: 'reschedule: move the date by this many days (negative moves it earlier)'
+      },
+      field: {
+        type: 'string',
+        enum: ['due', 'scheduled', 'start'],
+        description: 'reschedule: which date to change (default: due)'
+      },
+      expectedHash: {
+        type: 'string',
+        description: 'toggle/create/update/reschedule: the hash returned by vault.read/view.file. If the note has changed since, the write is refused with a CONFLICT error and a diff'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'toggle/create/update/reschedule: compute the change without writing and return a unified diff (default: false)'
+      }
+    },
+    properties: {
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'The notes to work on'
+      },
+      glob: {
+        type: 'string',
+        description: 'Work on the notes whose path matches this glob, e.g. "Projects/**" or "**" for all'
+      },
+      query: {
+        type: 'string',
+        description: 'Work on the notes this vault.search query returns'
+      },
+      dql: {
+        type: 'string',
+        description: 'Work on the notes this Dataview query returns, e.g. LIST FROM #project WHERE !reviewed'
+      },
+      base: {
+        type: 'string',
+        description: 'Work on the notes this .base file returns'
+      },
+      viewName: {
+        type: 'string',
+        description: 'base: the view to take the notes from (default: the first)'
+      },
+      key: {
+        type: 'string',
+        description: 'set/remove/rename/retype: the property'
+      },
+      value: {
+        description: 'set: the value — string, number, boolean, array or null (empty)'
+      },
+      onlyMissing: {
+        type: 'boolean',
+        description: 'set: leave notes that already have the property (default: false)'
+      },
+      newKey: {
+        type: 'string',
+        description: 'rename: the new property name'
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'rename: replace newKey in notes that already have it instead of skipping them (default: false)'
+      },
+      type: {
+        type: 'string',
+        enum: ['text', 'number', 'checkbox', 'date', 'list'],
+        description: 'retype: the type to convert values to'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'set/remove/rename/retype: compute the change without writing and return a unified diff (default: false)'
+      }
+    },
+    canvas: {
+      path: {
+        type: 'string',
+        description: 'The .canvas file; for list, the folder to look in (default: the whole vault)'
+      },
+      type: {
+        type: 'string',
+        enum: ['text', 'file', 'link', 'group'],
+        description: 'add_node: the kind of card'
+      },
+      text: {
+        type: 'string',
+        description: 'add_node (text): the card\'s Markdown'
+      },
+      file: {
+        type: 'string',
+        description: 'add_node (file): vault path of the note or attachment shown'
+      },
+      subpath: {
+        type: 'string',
+        description: 'add_node (file): a heading or block to show, starting with #'
+      },
+      url: {
+        type: 'string',
+        description: 'add_node (link): the web page shown'
+      },
+      label: {
+        type: 'string',
+        description: 'add_node (group): the group title; add_edge: text on the edge'
+      },
+      color: {
+        type: 'string',
+        description: 'add_node/add_edge: "1" to "6" (red, orange, yellow, green, cyan, purple) or a hex color'
+      },
+      id: {
+        type: 'string',
+        description: 'move/remove: the node (or, for remove, edge) id; add_node/add_edge: an id for the new item (default: generated)'
+      },
+      ids: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'remove: several node or edge ids'
+      },
+      around: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'add_node (group): node ids the group is sized to enclose'
+      },
+      x: {
+        type: 'number',
+        description: 'add_node/move: left edge in pixels'
+      },
+      y: {
+        type: 'number',
+        description: 'add_node/move: top edge in pixels'
+      },
+      dx: {
+        type: 'number',
+        description: 'move: shift right by this many pixels'
+      },
+      dy: {
+        type: 'number',
+        description: 'move: shift down by this many pixels'
+      },
+      width: {
+        type: 'number',
+        description: 'add_node/move: width in pixels'
+      },
+      height: {
+        type: 'number',
+        description: 'add_node/move: height in pixels'
+      },
+      fromNode: {
+        type: 'string',
+        description: 'add_edge: the node the edge starts at'
+      },
+      toNode: {
+        type: 'string',
+        description: 'add_edge: the node the edge ends at'
+      },
+      fromSide: {
+        type: 'string',
+        enum: ['top', 'right', 'bottom', 'left'],
+        description: 'add_edge: side of fromNode'
+      },
+      toSide: {
+        type: 'string',
+        enum: ['top', 'right', 'bottom', 'left'],
+        description: 'add_edge: side of toNode'
+      },
+      fromEnd: {
+        type: 'string',
+        enum: ['none', 'arrow'],
+        description: 'add_edge: shape at the start (default: none)'
+      },
+      toEnd: {
+        type: 'string',
+        enum: ['none', 'arrow'],
+        description: 'add_edge: shape at the end (default: arrow)'
+      },
+      nodes: {
+        type: 'array',
+        items: { type: 'object' },
+        description: 'create: JSON Canvas nodes to start with'
+      },
+      edges: {
+        type: 'array',
+        items: { type: 'object' },
+        description: 'create: JSON Canvas edges to start with'
+      },
+      paths: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'layout: the notes to place'
+      },
+      glob: {
+        type: 'string',
+        description: 'layout: place the notes whose path matches this glob instead'
+      },
+      columns: {
+        type: 'number',
+        description: 'layout: cards per row (default: a square grid)'
+      },
+      connect: {
+        type: 'boolean',
+        description: 'layout: add an edge for each link between the placed notes (default: true)'
+      },
+      expectedHash: {
+        type: 'string',
+        description: 'Write actions: the hash returned by vault.read/view.file. If the canvas has changed since, the write is refused with a CONFLICT error and a diff'
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Write actions: compute the change without writing and return a unified diff (default: false)'
+      }
     }
   };
   
@@ -803,8 +1312,8 @@ function getParametersForOperation(operation: string): Record<string, unknown> {
 /**
  * Create semantic tools array with optional Dataview support
  */
-export function createSemanticTools(api?: ObsidianAPI, visibility?: ToolVisibility, webFetchEnabled?: boolean): SemanticTool[] {
-  const operations = ['vault', 'edit', 'view', 'workflow', 'system', 'graph', 'bases'];
+export function createSemanticTools(api?: ObsidianAPI, visibility?: ToolVisibility, webFetchEnabled?: boolean, dataviewJsEnabled?: boolean): SemanticTool[] {
+  const operations = ['vault', 'edit', 'view', 'workflow', 'system', 'graph', 'bases', 'tasks', 'properties', 'canvas'];
 
   // Add Dataview if available
   if (api && isDataviewToolAvailable(api)) {
@@ -813,12 +1322,12 @@ export function createSemanticTools(api?: ObsidianAPI, visibility?: ToolVisibili
 
   // Create tools, filtering by visibility (null = operation fully disabled)
   return operations
-    .map(op => createSemanticTool(op, visibility, webFetchEnabled))
+    .map(op => createSemanticTool(op, visibility, webFetchEnabled, dataviewJsEnabled))
     .filter((tool): tool is SemanticTool => tool !== null);
 }
 
 /** All operation group names (for UI enumeration) */
-export const ALL_OPERATIONS = ['vault', 'edit', 'view', 'workflow', 'system', 'graph', 'bases', 'dataview'] as const;
+export const ALL_OPERATIONS = ['vault', 'edit', 'view', 'workflow', 'system', 'graph', 'bases', 'tasks', 'properties', 'canvas', 'dataview'] as const;
 
 // Export the base semantic tools (for backward compatibility, no visibility filtering)
 // There is deliberately no exported module-level tool list.
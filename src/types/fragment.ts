@@ -2,6 +2,16 @@
  * Types for the fragment retrieval system
  */
 
+/**
+ * A whole document ranked for a query, with its best passage when one scored
+ */
+export interface DocumentMatch {
+  docId: string;
+  docPath: string;
+  score: number;
+  fragment?: Fragment;
+}
+
 export interface Fragment {
   id: string;
   docId: string;
@@ -111,6 +121,8 @@ export interface SearchOptions {
   maxFragments?: number;
   includeContext?: boolean;
   expandNeighbors?: boolean;
+  /** Only rank documents this accepts. */
+  accept?: (docPath: string) => boolean;
 }
 
 export interface ContextualFragment extends Fragment {
@@ -131,4 +143,10 @@ export interface RetrievalOptions {
    * and could attribute them to the file it asked about.
    */
   scopePath?: string;
+  /**
+   * Drop fragments whose document this returns true for (e.g. .mcpignore'd paths in a
+   * shared vault-wide index). Like `scopePath`, applied inside each index before it
+   * ranks, so excluded documents can't crowd readable ones out of the result.
+   */
+  exclude?: (docPath: string) => boolean;
 }
\ No newline at end of file
@@ -45,6 +45,7 @@ export interface SemanticResponse<T = unknown> {
   error?: {
     code: string;
     message: string;
+    details?: unknown;
     recovery_hints?: SuggestedAction[];
   };
 }
@@ -6,6 +6,7 @@ import {
   truncateContent,
   limitSearchResults,
   limitResponse,
+  paginateItems,
   DEFAULT_LIMITER_CONFIG
 } from '../response-limiter';
 
@@ -200,4 +201,27 @@ describe('Response Limiter', () => {
       expect(limited.length).toBeLessThan(1000);
     });
   });
-});
\ No newline at end of file
+
+  describe('paginateItems', () => {
+    it('should keep items whole and put each on exactly one page', () => {
+      const items = Array.from({ length: 25 }, (_, i) => ({ id: i }));
+
+      const pages = [1, 2, 3].map(page => paginateItems(items, page, 10));
+
+      expect(pages.map(p => p.items.length)).toEqual([10, 10, 5]);
+      expect(pages.flatMap(p => p.items)).toEqual(items);
+      expect(pages[0]).toMatchObject({ totalItems: 25, totalPages: 3, hasMore: true });
+      expect(pages[2].hasMore).toBe(false);
+      expect(paginateItems(items, 4, 10).items).toEqual([]);
+    });
+
+    it('should end a page early rather than pass the token limit', () => {
+      const items = Array.from({ length: 6 }, (_, i) => ({ id: i, data: 'x'.repeat(400) }));
+
+      const first = paginateItems(items, 1, 10, { ...DEFAULT_LIMITER_CONFIG, maxTokens: 250 });
+
+      expect(first.items).toHaveLength(2);
+      expect(first.totalPages).toBe(3);
+    });
+  });
+});
@@ -1,6 +1,18 @@
 import { Debug } from './debug';
 import { TFile, App } from 'obsidian';
 import { truncateContent } from './response-limiter';
+import {
+  CorpusStats,
+  DEFAULT_FIELD_BOOSTS,
+  FieldBoosts,
+  FieldTokens,
+  RankTerm,
+  collectCorpusStats,
+  fieldSourcesFromCache,
+  fieldTokens,
+  parseRankQuery,
+  scoreBm25f
+} from '../indexing/bm25f';
 
 export interface SearchResult {
   path: string;
@@ -24,13 +36,24 @@ export interface SearchOptions {
   maxResults?: number;
   snippetLength?: number;
   includeMetadata?: boolean;
+  /** Paths to leave out entirely: not read, and not part of the corpus statistics. */
+  exclude?: (path: string) => boolean;
 }
 
+/**
+ * Ranked natural-language search over every file, scored with BM25F
+ * (`indexing/bm25f.ts`): filename, aliases, headings, tags and body each
+ * count with their own boost. Used when the shared vault index is not ready;
+ * it reads the vault once per search and takes corpus statistics from that
+ * same scan.
+ */
 export class AdvancedSearchService {
   private app: App;
-  
-  constructor(app: App) {
+  private getBoosts: () => FieldBoosts;
+
+  constructor(app: App, getBoosts: () => FieldBoosts = () => DEFAULT_FIELD_BOOSTS) {
     this.app = app;
+    this.getBoosts = getBoosts;
   }
 
   /**
@@ -53,113 +76,53 @@ export class AdvancedSearchService {
       strategy = 'combined',
       maxResults = 50,
       snippetLength = 300,
-      includeMetadata = true
+      includeMetadata = true,
+      exclude
     } = options;
 
     if (!query || query.trim().length === 0) {
       return [];
     }
 
-    const normalizedQuery = this.normalizeQuery(query);
-    const queryTokens = this.tokenize(normalizedQuery);
-    
-    // Get all files in the vault
-    const files = this.app.vault.getFiles();
-    const results: SearchResult[] = [];
-    
-    for (const file of files) {
-      let result: SearchResult | null = null;
-      
-      switch (strategy) {
-        case 'filename':
-          result = this.searchFilename(file, queryTokens, includeMetadata);
-          break;
-        case 'content':
-          result = await this.searchContent(file, queryTokens, snippetLength, includeMetadata);
-          break;
-        case 'combined':
-          result = await this.searchCombined(file, queryTokens, snippetLength, includeMetadata);
-          break;
-      }
-      
-      if (result && result.score > 0) {
-        results.push(result);
-      }
+    const terms = parseRankQuery(query);
+    if (terms.length === 0) {
+      return [];
     }
-    
-    // Sort by score and limit results
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, maxResults);
-  }
 
-  /**
-   * Search based on filename only
-   */
-  private searchFilename(
-    file: TFile,
-    queryTokens: string[],
-    includeMetadata: boolean
-  ): SearchResult | null {
-    const filename = file.basename.toLowerCase();
-    const filenameTokens = this.tokenize(filename);
-    
-    const score = this.calculateTokenScore(filenameTokens, queryTokens);
-    
-    if (score === 0) {
-      return null;
+    // First pass: every file's fields, which are also the corpus the statistics describe
+    const documents: Array<{ file: TFile; fields: FieldTokens }> = [];
+    for (const file of this.app.vault.getFiles()) {
+      if (exclude?.(file.path)) continue;
+      const content = strategy !== 'filename' ? await this.readContent(file) : null;
+      const sources = fieldSourcesFromCache(file.path, this.app.metadataCache.getFileCache(file), content ?? '');
+      documents.push({
+        file,
+        fields: fieldTokens(strategy === 'filename' ? { filename: sources.filename } : sources)
+      });
     }
-    
-    const result: SearchResult = {
-      path: file.path,
-      title: file.basename,
-      score: score * 2 // Boost filename matches
-    };
-    
-    if (includeMetadata) {
-      result.metadata = {
-        size: file.stat.size,
-        modified: file.stat.mtime,
-        extension: file.extension
-      };
-    }
-    
-    return result;
-  }
 
-  /**
-   * Search based on file content with snippet extraction
-   */
-  private async searchContent(
-    file: TFile, 
-    queryTokens: string[], 
-    snippetLength: number,
-    includeMetadata: boolean
-  ): Promise<SearchResult | null> {
-    // Only attempt content search for text files
-    if (!this.isTextFile(file)) {
-      return null;
-    }
+    const stats = collectCorpusStats(documents.map(d => d.fields));
+    const boosts = this.boostsFor(strategy);
+    const ranked = documents
+      .map(({ file, fields }) => ({ file, score: scoreBm25f(fields, terms, stats, boosts) }))
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
 
-    try {
-      const content = await this.app.vault.read(file);
-      const contentTokens = this.tokenize(content.toLowerCase());
-      
-      const score = this.calculateTokenScore(contentTokens, queryTokens);
-      
-      if (score === 0) {
-        return null;
-      }
-      
-      const snippet = this.extractBestSnippet(content, queryTokens, snippetLength);
-      
+    // Second pass: snippets, only for the files that made the cut
+    const results: SearchResult[] = [];
+    for (const { file, score } of ranked) {
       const result: SearchResult = {
         path: file.path,
         title: file.basename,
-        score,
-        snippet
+        score
       };
-      
+
+      const content = strategy !== 'filename' ? await this.readContent(file) : null;
+      if (content !== null) {
+        result.snippet = this.extractBestSnippet(content, terms, stats, snippetLength);
+      }
+
       if (includeMetadata) {
         result.metadata = {
           size: file.stat.size,
@@ -167,64 +130,48 @@ export class AdvancedSearchService {
           extension: file.extension
         };
       }
-      
-      return result;
-    } catch (error) {
-      Debug.warn(`Error reading file ${file.path}:`, error);
-      return null;
+
+      results.push(result);
     }
+
+    return results;
   }
 
   /**
-   * Combined search strategy (filename + content)
+   * Field boosts for a strategy: 'filename' ranks on the name alone,
+   * 'content' on everything but the name.
    */
-  private async searchCombined(
-    file: TFile, 
-    queryTokens: string[], 
-    snippetLength: number,
-    includeMetadata: boolean
-  ): Promise<SearchResult | null> {
-    const filenameResult = this.searchFilename(file, queryTokens, false);
-    const contentResult = await this.searchContent(file, queryTokens, snippetLength, false);
-    
-    const filenameScore = filenameResult?.score || 0;
-    const contentScore = contentResult?.score || 0;
-    
-    if (filenameScore === 0 && contentScore === 0) {
-      return null;
+  private boostsFor(strategy: NonNullable<SearchOptions['strategy']>): FieldBoosts {
+    const boosts = this.getBoosts();
+    if (strategy === 'filename') {
+      return { ...boosts, aliases: 0, headings: 0, tags: 0, body: 0 };
     }
-    
-    // Combine scores with filename boost
-    const combinedScore = filenameScore * 1.5 + contentScore;
-    
-    const result: SearchResult = {
-      path: file.path,
-      title: file.basename,
-      score: combinedScore
-    };
-    
-    // Include snippet from content search if available
-    if (contentResult?.snippet) {
-      result.snippet = contentResult.snippet;
+    if (strategy === 'content') {
+      return { ...boosts, filename: 0 };
     }
-    
-    if (includeMetadata) {
-      result.metadata = {
-        size: file.stat.size,
-        modified: file.stat.mtime,
-        extension: file.extension
-      };
+    return boosts;
+  }
+
+  /** File text, or null for binary and unreadable files. */
+  private async readContent(file: TFile): Promise<string | null> {
+    if (!this.isTextFile(file)) {
+      return null;
+    }
+    try {
+      return await this.app.vault.read(file);
+    } catch (error) {
+      Debug.warn(`Error reading file ${file.path}:`, error);
+      return null;
     }
-    
-    return result;
   }
 
   /**
    * Extract the best snippet around query matches
    */
   private extractBestSnippet(
-    content: string, 
-    queryTokens: string[], 
+    content: string,
+    terms: RankTerm[],
+    stats: CorpusStats,
     maxLength: number
   ): { content: string; lineStart: number; lineEnd: number; score: number } | undefined {
     const lines = content.split('\n');
@@ -242,8 +189,8 @@ export class AdvancedSearchService {
         j++;
       }
       
-      const windowTokens = this.tokenize(window.toLowerCase());
-      const score = this.calculateTokenScore(windowTokens, queryTokens);
+      // Windows are scored as body text against the whole corpus's statistics
+      const score = scoreBm25f(fieldTokens({ filename: '', body: window }), terms, stats);
       
       if (score > 0) {
         windows.push({
@@ -276,67 +223,4 @@ export class AdvancedSearchService {
       score: bestWindow.score
     };
   }
-
-  /**
-   * Calculate token-based score using TF-IDF-like approach
-   */
-  private calculateTokenScore(tokens: string[], queryTokens: string[]): number {
-    if (queryTokens.length === 0) return 0;
-    
-    let score = 0;
-    const tokenFreq = new Map<string, number>();
-    
-    // Count token frequencies
-    for (const token of tokens) {
-      tokenFreq.set(token, (tokenFreq.get(token) || 0) + 1);
-    }
-    
-    // Score based on query token matches
-    for (const queryToken of queryTokens) {
-      const frequency = tokenFreq.get(queryToken) || 0;
-      if (frequency > 0) {
-        // TF-IDF inspired scoring: frequency with diminishing returns
-        score += Math.log(1 + frequency);
-      }
-    }
-    
-    // Normalize by query length and document length
-    return score / (queryTokens.length * Math.log(tokens.length + 1));
-  }
-
-  /**
-   * Tokenize text into searchable terms
-   */
-  private tokenize(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ') // Replace punctuation with spaces
-      .split(/\s+/)
-      .filter(token => token.length > 2) // Filter out very short tokens
-      .filter(token => !this.isStopWord(token));
-  }
-
-  /**
-   * Normalize query for better matching
-   */
-  private normalizeQuery(query: string): string {
-    return query
-      .trim()
-      .replace(/[^\w\s]/g, ' ') // Replace punctuation with spaces
-      .replace(/\s+/g, ' '); // Normalize whitespace
-  }
-
-  /**
-   * Check if a word is a stop word
-   */
-  private isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 
-      'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'be', 
-      'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 
-      'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 
-      'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they'
-    ]);
-    return stopWords.has(word.toLowerCase());
-  }
-}
\ No newline at end of file
+}
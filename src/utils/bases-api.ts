@@ -14,15 +14,19 @@ import { ExpressionEvaluator } from './expression-evaluator';
 import { FormulaEngine } from './formula-engine';
 
 /**
- * Bases API implementation that matches Obsidian's actual Bases behavior
+ * Bases API implementation that matches Obsidian's actual Bases behavior.
+ * `isReadable` is the owning ObsidianAPI's: bases and notes it refuses are
+ * neither listed, read nor returned as query rows.
  */
 export class BasesAPI {
   private app: App;
+  private isReadable: (path: string) => boolean;
   private expressionEvaluator: ExpressionEvaluator;
   private formulaEngine: FormulaEngine;
 
-  constructor(app: App) {
+  constructor(app: App, isReadable: (path: string) => boolean = () => true) {
     this.app = app;
+    this.isReadable = isReadable;
     this.expressionEvaluator = new ExpressionEvaluator(app);
     this.formulaEngine = new FormulaEngine(app);
   }
@@ -35,7 +39,7 @@ export class BasesAPI {
     const files = this.app.vault.getFiles();
 
     for (const file of files) {
-      if (file.extension === 'base') {
+      if (file.extension === 'base' && this.isReadable(file.path)) {
         try {
           const content = await this.app.vault.read(file);
           const baseConfig = parseYaml(content) as BaseYAML;
@@ -59,7 +63,7 @@ export class BasesAPI {
    */
   async readBase(path: string): Promise<BaseYAML> {
     const file = this.app.vault.getAbstractFileByPath(path);
-    if (!file || !(file instanceof TFile) || file.extension !== 'base') {
+    if (!file || !(file instanceof TFile) || file.extension !== 'base' || !this.isReadable(file.path)) {
       throw new Error(`Base file not found: ${path}`);
     }
 
@@ -105,8 +109,8 @@ export class BasesAPI {
       view = baseConfig.views[0];
     }
 
-    // Get all markdown files in the vault
-    const files = this.app.vault.getMarkdownFiles();
+    // Get all markdown files in the vault the caller may read
+    const files = this.app.vault.getMarkdownFiles().filter(file => this.isReadable(file.path));
     let notes: EvaluatedNote[] = [];
 
     // Process each file
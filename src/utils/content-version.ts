@@ -0,0 +1,63 @@
+/**
+ * Content hashes for optimistic concurrency.
+ *
+ * `vault.read` and `view.file` stamp their response with a hash of the file's
+ * full content; a later write can pass it back as `expectedHash` and is
+ * refused if the file no longer hashes the same — i.e. someone edited it in
+ * Obsidian (or another session wrote it) between the agent's read and write.
+ *
+ * Stamping also remembers the content under its hash for a while, so the
+ * `CONFLICT` error can show what changed since the caller's read rather than
+ * only that something did. Process-wide singleton (same pattern as
+ * `ContentBufferManager`), since each request gets a fresh router.
+ */
+import { createHash } from 'crypto';
+
+/** Versions remembered for conflict diffs; oldest are forgotten first. */
+const MAX_VERSIONS = 100;
+
+/** Larger contents are hashed but not remembered. */
+const MAX_REMEMBERED_CHARS = 1_000_000;
+
+export class ContentVersionStore {
+  private static instance: ContentVersionStore;
+
+  /** Insertion-ordered, so the first key is the least recently stamped. */
+  private versions: Map<string, string> = new Map();
+
+  private constructor() {}
+
+  static getInstance(): ContentVersionStore {
+    if (!ContentVersionStore.instance) {
+      ContentVersionStore.instance = new ContentVersionStore();
+    }
+    return ContentVersionStore.instance;
+  }
+
+  /** SHA-256 of `content`, hex-encoded. */
+  static hash(content: string): string {
+    return createHash('sha256').update(content, 'utf8').digest('hex');
+  }
+
+  /** Hash `content` and remember it so a later conflict can be diffed against it. */
+  stamp(content: string): string {
+    const hash = ContentVersionStore.hash(content);
+    if (content.length <= MAX_REMEMBERED_CHARS) {
+      this.versions.delete(hash);
+      this.versions.set(hash, content);
+      if (this.versions.size > MAX_VERSIONS) {
+        this.versions.delete(this.versions.keys().next().value as string);
+      }
+    }
+    return hash;
+  }
+
+  /** The content a hash was stamped from, if still remembered. */
+  recall(hash: string): string | undefined {
+    return this.versions.get(hash);
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Line-based unified diff, for showing a caller what changed in a note
+ * (e.g. the `CONFLICT` error of a write with a stale `expectedHash`).
+ *
+ * Common leading/trailing lines are trimmed first, so a local edit in a large
+ * note diffs only the changed region. The remaining middle is aligned with an
+ * LCS table; past MAX_LCS_CELLS the middle is reported as one replaced block
+ * rather than spending unbounded memory on a pathological input.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { kind: ' ' | '-' | '+'; line: string };
+
+function alignMiddle(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(line => ({ kind: '-' as const, line })),
+      ...b.map(line => ({ kind: '+' as const, line })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: '-', line: a[i++] });
+    } else {
+      ops.push({ kind: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: '-', line: a[i++] });
+  while (j < b.length) ops.push({ kind: '+', line: b[j++] });
+  return ops;
+}
+
+/** An empty text has no lines (not one empty line), so creations diff as pure additions. */
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  return [
+    ...a.slice(0, start).map(line => ({ kind: ' ' as const, line })),
+    ...alignMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(line => ({ kind: ' ' as const, line })),
+  ];
+}
+
+export interface UnifiedDiffOptions {
+  /** Label for the `---` header (default `a`). */
+  oldLabel?: string;
+  /** Label for the `+++` header (default `b`). */
+  newLabel?: string;
+  /** Unchanged lines shown around each change (default 3). */
+  context?: number;
+}
+
+/**
+ * Unified diff of `oldText` → `newText`, or `''` when they are identical.
+ */
+export function unifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  if (oldText === newText) return '';
+  const context = options.context ?? 3;
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Group changes into hunks, merging ones whose context would overlap.
+  const hunks: Array<{ from: number; to: number }> = [];
+  ops.forEach((op, idx) => {
+    if (op.kind === ' ') return;
+    const from = Math.max(0, idx - context);
+    const to = Math.min(ops.length, idx + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last.to) {
+      last.to = Math.max(last.to, to);
+    } else {
+      hunks.push({ from, to });
+    }
+  });
+
+  const out = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`];
+  // Line numbers before each op, in the old and new text respectively.
+  let oldLine = 1;
+  let newLine = 1;
+  let cursor = 0;
+  for (const hunk of hunks) {
+    for (; cursor < hunk.from; cursor++) {
+      if (ops[cursor].kind !== '+') oldLine++;
+      if (ops[cursor].kind !== '-') newLine++;
+    }
+    const body = ops.slice(hunk.from, hunk.to);
+    const oldCount = body.filter(op => op.kind !== '+').length;
+    const newCount = body.filter(op => op.kind !== '-').length;
+    out.push(`@@ -${oldCount ? oldLine : oldLine - 1},${oldCount} +${newCount ? newLine : newLine - 1},${newCount} @@`);
+    for (const op of body) {
+      out.push(`${op.kind}${op.line}`);
+    }
+    for (; cursor < hunk.to; cursor++) {
+      if (ops[cursor].kind !== '+') oldLine++;
+      if (ops[cursor].kind !== '-') newLine++;
+    }
+  }
+  return out.join('\n');
+}
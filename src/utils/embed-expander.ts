@@ -0,0 +1,225 @@
+/**
+ * Transclusion for `vault.read` and `view.file` with `expandEmbeds`.
+ *
+ * Each `![[Note]]`, `![[Note#Heading]]` and `![[Note#^block]]` (and the
+ * Markdown form `![](Note.md)`) is replaced by what Obsidian would show in
+ * its place, between `<!-- embed: … -->` and `<!-- /embed: … -->` markers
+ * so the reader can tell inlined text from the note's own. Embeds inside
+ * inlined text are expanded in turn, down to `maxDepth`; an embed of a note
+ * or section already being inlined above it is a cycle and is left as the
+ * link. Embeds of attachments, missing notes and anything over the budget
+ * are left as links too — every embed is reported with what happened to it.
+ * Prompt templates expand their embeds here as well, without the markers.
+ */
+import { stripFrontmatter } from './frontmatter';
+import { LinkResolver, findLinks, headingKey, rewriteLinks } from './link-rewriter';
+
+export type EmbedStatus = 'inlined' | 'missing' | 'not_text' | 'unreadable' | 'cycle' | 'depth_limit' | 'budget';
+
+export interface EmbedRecord {
+  /** The embed as written, e.g. `![[Note#Heading]]`. */
+  link: string;
+  /** The note the embed is written in, and its line there. */
+  from: string;
+  line: number;
+  /** The embedded note and subpath, once resolved: `Folder/Note.md#Heading`. */
+  target?: string;
+  /** 1 for the note's own embeds, 2 for embeds inside those, and so on. */
+  depth: number;
+  status: EmbedStatus;
+  /** Characters inlined, nested embeds included. */
+  chars?: number;
+}
+
+export interface EmbedExpansionOptions {
+  resolve: LinkResolver;
+  /** The text of a note; throws when it cannot be read. */
+  read: (path: string) => Promise<string>;
+  maxDepth: number;
+  /** Characters the expanded content may grow to in all; Infinity for no limit. */
+  budget: number;
+  /** Set inlined text between `<!-- embed: … -->` markers (default true). */
+  markers?: boolean;
+}
+
+export interface ExpandedContent {
+  content: string;
+  embeds: EmbedRecord[];
+}
+
+export const DEFAULT_EMBED_DEPTH = 3;
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^(#{1,6})\s+(.+)$/;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s/;
+
+const isNote = (path: string) => path.toLowerCase().endsWith('.md');
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/** For each line, whether it lies inside (or opens or closes) a fenced code block. */
+function fencedLines(lines: string[]): boolean[] {
+  let fence: string | undefined;
+  return lines.map(text => {
+    const marker = FENCE.exec(text)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+      return true;
+    }
+    if (marker) fence = marker;
+    return marker !== undefined;
+  });
+}
+
+/** From a heading line down to the next heading of the same or a higher level. */
+function headingSection(lines: string[], heading: string): string | undefined {
+  const fenced = fencedLines(lines);
+  const key = headingKey(heading);
+  let start = -1;
+  let level = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const match = fenced[i] ? null : HEADING.exec(lines[i]);
+    if (!match) continue;
+    if (start === -1) {
+      if (headingKey(match[2]) === key) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      return lines.slice(start, i).join('\n').trimEnd();
+    }
+  }
+  return start === -1 ? undefined : lines.slice(start).join('\n').trimEnd();
+}
+
+/**
+ * The block carrying `^id`, without the marker: a list item with its nested
+ * items, or the paragraph the marker ends. A marker on a line of its own
+ * names the block just above it.
+ */
+function blockSection(lines: string[], id: string): string | undefined {
+  const fenced = fencedLines(lines);
+  const marker = new RegExp(`(^|\\s)\\^${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*$`);
+  const at = lines.findIndex((text, i) => !fenced[i] && marker.test(text));
+  if (at === -1) return undefined;
+  const strip = (text: string) => text.replace(marker, '').trimEnd();
+  const paragraphStart = (end: number) => {
+    let start = end;
+    while (start > 0 && lines[start - 1].trim() !== '') start--;
+    return start;
+  };
+
+  if (lines[at].trim() === `^${id}`) {
+    let end = at - 1;
+    while (end >= 0 && lines[end].trim() === '') end--;
+    return end < 0 ? '' : lines.slice(paragraphStart(end), end + 1).join('\n');
+  }
+
+  const item = LIST_ITEM.exec(lines[at]);
+  if (item) {
+    const indent = item[1].length;
+    let end = at + 1;
+    while (end < lines.length && lines[end].trim() !== '' && /^\s*/.exec(lines[end])![0].length > indent) end++;
+    return [strip(lines[at]), ...lines.slice(at + 1, end)].join('\n');
+  }
+
+  return [...lines.slice(paragraphStart(at), at), strip(lines[at])].join('\n');
+}
+
+/**
+ * What an embed of `subpath` in a note shows: the whole note without its
+ * frontmatter, a heading's section, or a block. Undefined when the heading
+ * or block does not exist.
+ */
+export function embedSection(content: string, subpath: string): string | undefined {
+  if (subpath === '') return stripFrontmatter(content).trimEnd();
+  const lines = content.split('\n');
+  if (subpath.startsWith('#^')) return blockSection(lines, subpath.slice(2));
+  const parts = subpath.slice(1).split('#');
+  return headingSection(lines, parts[parts.length - 1]);
+}
+
+/** Inline the embeds in `content`, the text of the note at `path`. */
+export async function expandEmbeds(
+  content: string,
+  path: string,
+  options: EmbedExpansionOptions
+): Promise<ExpandedContent> {
+  const embeds: EmbedRecord[] = [];
+  const texts = new Map<string, Promise<string>>();
+  const budget = { remaining: options.budget - content.length };
+
+  const read = (target: string) => {
+    let text = texts.get(target);
+    if (!text) {
+      text = options.read(target);
+      texts.set(target, text);
+    }
+    return text;
+  };
+
+  const expand = async (text: string, from: string, depth: number, ancestors: string[]): Promise<string> => {
+    const lines = text.split('\n');
+    const inlined = new Map<string, string>();
+
+    for (const link of findLinks(text)) {
+      if (!link.embed) continue;
+      const record: EmbedRecord = { link: link.raw, from, line: link.line, depth, status: 'missing' };
+      embeds.push(record);
+
+      const resolved = options.resolve(link, from);
+      if (resolved === undefined) continue;
+      const subpath = link.kind === 'markdown' ? decode(link.subpath) : link.subpath;
+      const target = `${resolved}${subpath}`;
+      record.target = target;
+
+      if (!isNote(resolved)) {
+        record.status = 'not_text';
+        continue;
+      }
+      if (ancestors.includes(target)) {
+        record.status = 'cycle';
+        continue;
+      }
+      if (depth > options.maxDepth) {
+        record.status = 'depth_limit';
+        continue;
+      }
+      let section: string | undefined;
+      try {
+        section = embedSection(await read(resolved), subpath);
+      } catch {
+        record.status = 'unreadable';
+        continue;
+      }
+      if (section === undefined) continue;
+
+      // An embed that shares its line with other text is set on lines of its own
+      const ownLine = lines[link.line - 1].trim() === link.raw;
+      const markers = options.markers ?? true;
+      const open = markers ? `${ownLine ? '' : '\n'}<!-- embed: ${target} -->\n` : '';
+      const close = markers ? `\n<!-- /embed: ${target} -->${ownLine ? '' : '\n'}` : '';
+      const growth = open.length + section.length + close.length - link.raw.length;
+      if (growth > budget.remaining) {
+        record.status = 'budget';
+        continue;
+      }
+      budget.remaining -= growth;
+
+      const body = await expand(section, resolved, depth + 1, [...ancestors, target]);
+      inlined.set(`${link.line}:${link.start}`, `${open}${body}${close}`);
+      record.status = 'inlined';
+      record.chars = body.length;
+    }
+
+    return inlined.size === 0 ? text : rewriteLinks(text, link => inlined.get(`${link.line}:${link.start}`)).content;
+  };
+
+  return { content: await expand(content, path, 1, [path]), embeds };
+}
@@ -70,6 +70,19 @@ export class FileLockManager {
     return run;
   }
 
+  /**
+   * Run `fn` holding the locks for every path in `paths` at once (used by
+   * `edit.batch`). Locks are taken one at a time in sorted key order, so two
+   * batches over overlapping paths cannot each hold one lock while waiting
+   * on the other's.
+   */
+  async withLocks<T>(paths: string[], fn: () => Promise<T>): Promise<T> {
+    const keys = Array.from(new Set(paths.map(lockKey))).sort();
+    const acquire = (i: number): Promise<T> =>
+      i >= keys.length ? fn() : this.withLock(keys[i], () => acquire(i + 1));
+    return acquire(0);
+  }
+
   /** Test/diagnostic helper: number of paths with an in-flight chain. */
   activeLockCount(): number {
     return this.chains.size;
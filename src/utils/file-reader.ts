@@ -1,6 +1,9 @@
 import { ObsidianAPI } from './obsidian-api';
 import { isImageFile } from '../types/obsidian';
 import { UniversalFragmentRetriever } from '../indexing/fragment-retriever';
+import { ContentVersionStore } from './content-version';
+import { createLinkResolver } from './link-rewriter';
+import { DEFAULT_EMBED_DEPTH, EmbedRecord, ExpandedContent, expandEmbeds } from './embed-expander';
 
 /**
  * Character budget that decides whole-file vs. paginated reads (ADR-203).
@@ -22,6 +25,10 @@ interface FileReadOptions {
   query?: string;
   strategy?: 'auto' | 'adaptive' | 'proximity' | 'semantic';
   maxFragments?: number;
+  /** Inline embedded notes, headings and blocks (not with fragments). */
+  expandEmbeds?: boolean;
+  /** How many levels of embeds-within-embeds to inline; default 3. */
+  embedDepth?: number;
 }
 
 interface FileReadResult {
@@ -30,7 +37,14 @@ interface FileReadResult {
   metadata?: unknown;
   frontmatter?: unknown;
   tags?: unknown;
+  /** Hash of the whole file (not just this page/fragment), for `expectedHash` on writes. */
+  hash?: string;
   originalContentLength?: number;
+  /**
+   * With `expandEmbeds`: every embed met, inlined or not. Inlined text is not
+   * part of the file — `hash` and the line bookends still describe the file.
+   */
+  embeds?: EmbedRecord[];
   pagination?: {
     paginated: boolean;
     page: number;
@@ -61,7 +75,7 @@ interface FileReadResult {
  * 0-based) whose joined size stays within READ_PAGE_CHARS. A single line
  * larger than the budget is returned whole as its own page (never split).
  */
-function buildPage(lines: string[], startIdx: number): {
+export function buildPage(lines: string[], startIdx: number): {
   text: string;
   lineStart: number;
   lineEnd: number;
@@ -91,6 +105,30 @@ function buildPage(lines: string[], startIdx: number): {
   };
 }
 
+/**
+ * Inline the embeds in `content` — the note at `path`, or a page of it —
+ * letting the result grow to `budget` characters.
+ */
+export async function expandNoteEmbeds(
+  api: ObsidianAPI,
+  path: string,
+  content: string,
+  budget: number,
+  maxDepth: number = DEFAULT_EMBED_DEPTH
+): Promise<ExpandedContent> {
+  const resolve = createLinkResolver(await api.listFiles());
+  return expandEmbeds(content, path, {
+    resolve,
+    maxDepth,
+    budget,
+    read: async target => {
+      const file = await api.getFile(target);
+      if (isImageFile(file)) throw new Error(`${target} is not a text file`);
+      return typeof file === 'string' ? file : file.content;
+    },
+  });
+}
+
 /**
  * Shared file reading logic (ADR-203).
  *
@@ -109,7 +147,7 @@ export async function readFileWithFragments(
   fragmentRetriever: UniversalFragmentRetriever,
   options: FileReadOptions
 ): Promise<FileReadResult> {
-  const { path, returnFullFile, page, query, strategy, maxFragments } = options;
+  const { path, returnFullFile, page, query, strategy, maxFragments, embedDepth } = options;
 
   const fileResponse = await api.getFile(path);
 
@@ -145,6 +183,7 @@ export async function readFileWithFragments(
 
   const totalChars = fileContent.length;
   const lines = fileContent.split('\n');
+  const hash = ContentVersionStore.getInstance().stamp(fileContent);
   const totalLines = lines.length;
 
   // 1. Explicit fragment retrieval (unchanged behaviour)
@@ -163,6 +202,7 @@ export async function readFileWithFragments(
       ...metaNoBody,
       frontmatter,
       tags,
+      hash,
       content: fragmentResponse.result,
       originalContentLength: totalChars,
       fragmentMetadata: {
@@ -178,11 +218,16 @@ export async function readFileWithFragments(
   // 2. Whole file, one load — fits the budget OR explicit override
   if (returnFullFile || totalChars <= READ_PAGE_CHARS) {
     const overrideOnLarge = !!returnFullFile && totalChars > READ_PAGE_CHARS;
+    const expanded = options.expandEmbeds
+      ? await expandNoteEmbeds(api, path, fileContent, returnFullFile ? Infinity : READ_PAGE_CHARS, embedDepth)
+      : undefined;
     return {
       path,
-      content: fileContent, // verbatim, single contiguous string
+      content: expanded?.content ?? fileContent, // verbatim, single contiguous string
+      embeds: expanded?.embeds,
       frontmatter,
       tags,
+      hash,
       metadata: {
         ...metaNoBody,
         totalLines,
@@ -222,6 +267,7 @@ export async function readFileWithFragments(
       content: '',
       frontmatter,
       tags,
+      hash,
       metadata: { ...metaNoBody, totalLines, bytes: totalChars },
       pagination: {
         paginated: true,
@@ -240,11 +286,16 @@ export async function readFileWithFragments(
 
   const hasMore = built.nextIdx < lines.length;
   const nextPageNum = cur + 1;
+  const expanded = options.expandEmbeds
+    ? await expandNoteEmbeds(api, path, built.text, READ_PAGE_CHARS, embedDepth)
+    : undefined;
   return {
     path,
-    content: built.text, // contiguous verbatim block for this line range
+    content: expanded?.content ?? built.text, // contiguous verbatim block for this line range
+    embeds: expanded?.embeds,
     frontmatter,
     tags,
+    hash,
     metadata: { ...metaNoBody, totalLines, bytes: totalChars },
     pagination: {
       paginated: true,
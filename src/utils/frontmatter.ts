@@ -0,0 +1,205 @@
+/**
+ * Note frontmatter as editable YAML, for `properties.*`.
+ *
+ * Edits go through `yaml-bridge`'s document API, so a note keeps its
+ * comments, key order and quoting. An edited block is re-serialized, which
+ * normalizes spacing (`key:   value  # note` becomes `key: value # note`);
+ * a note no edit applies to is not rewritten at all.
+ *
+ * Property types follow Obsidian's property editor: text, number, checkbox,
+ * date, datetime and list, plus `empty` (a key with no value) and `object`
+ * (nested YAML, which Obsidian shows but cannot edit).
+ */
+import { Document, isMap, isPair, isScalar, Pair } from 'yaml';
+import { parseYamlDocument, stringifyYamlDocument } from './yaml-bridge';
+
+export type PropertyType = 'text' | 'number' | 'checkbox' | 'date' | 'datetime' | 'list' | 'object' | 'empty';
+
+/** Types a property can be converted to with `retypeProperty`. */
+export const RETYPE_TARGETS: readonly PropertyType[] = ['text', 'number', 'checkbox', 'date', 'list'];
+
+/** The outcome of one edit on one note: changed, nothing to do, or refused with a reason. */
+export type PropertyEdit = { changed: boolean } | { skipped: string };
+
+export interface NoteFrontmatter {
+  /** Undefined when the note has no frontmatter block. */
+  doc?: Document;
+  /** Everything after the closing `---` line. */
+  body: string;
+}
+
+const FRONTMATTER = /^---[ \t]*\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Split a note into its frontmatter document and body. Throws when the
+ * frontmatter is not valid YAML or not a mapping, since writing it back
+ * would lose what the user wrote.
+ */
+export function readFrontmatter(content: string): NoteFrontmatter {
+  const match = FRONTMATTER.exec(content);
+  if (!match) return { body: content };
+
+  const doc = parseYamlDocument(match[1] ?? '');
+  if (doc.errors.length > 0) {
+    throw new Error(`invalid frontmatter YAML: ${doc.errors[0].message.split('\n')[0]}`);
+  }
+  if (doc.contents !== null && !isMap(doc.contents)) {
+    throw new Error('frontmatter is not a list of properties');
+  }
+  return { doc, body: content.slice(match[0].length) };
+}
+
+/** A note's body without its frontmatter block, which is not parsed. */
+export function stripFrontmatter(content: string): string {
+  const match = FRONTMATTER.exec(content);
+  return match ? content.slice(match[0].length) : content;
+}
+
+/** Reassemble a note; frontmatter left with no properties is dropped. */
+export function writeFrontmatter(note: NoteFrontmatter): string {
+  const map = note.doc?.contents;
+  if (!note.doc || !isMap(map) || map.items.length === 0) return note.body;
+  return `---\n${stringifyYamlDocument(note.doc)}---\n${note.body}`;
+}
+
+/** Every property of a note as plain values. */
+export function propertiesOf(note: NoteFrontmatter): Record<string, unknown> {
+  const value: unknown = note.doc?.toJS();
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+export function propertyType(value: unknown): PropertyType {
+  if (value === null || value === undefined) return 'empty';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'boolean') return 'checkbox';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') {
+    if (DATE.test(value)) return 'date';
+    if (DATETIME.test(value)) return 'datetime';
+    return 'text';
+  }
+  return value instanceof Date ? 'datetime' : 'object';
+}
+
+function pairOf(doc: Document, key: string): Pair | undefined {
+  const map = doc.contents;
+  if (!isMap(map)) return undefined;
+  return map.items.find((item): item is Pair => isPair(item) && isScalar(item.key) && String(item.key.value) === key);
+}
+
+/**
+ * Replace a pair's value, keeping the comment that followed the old one: on
+ * the same line for a scalar, above the first item for a block list.
+ */
+function replaceValue(doc: Document, pair: Pair, value: unknown): void {
+  const old = pair.value as { comment?: string | null } | null;
+  const node = doc.createNode(value);
+  if (old?.comment) {
+    if (isScalar(node)) node.comment = old.comment;
+    else node.commentBefore = old.comment;
+  }
+  pair.value = node;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Set `key` to `value`, adding frontmatter when the note has none. */
+export function setProperty(note: NoteFrontmatter, key: string, value: unknown, onlyMissing = false): PropertyEdit {
+  if (!note.doc) note.doc = parseYamlDocument('');
+  const pair = pairOf(note.doc, key);
+  if (pair) {
+    if (onlyMissing) return { changed: false };
+    if (sameValue(propertiesOf(note)[key], value)) return { changed: false };
+    replaceValue(note.doc, pair, value);
+  } else {
+    note.doc.set(key, value);
+  }
+  return { changed: true };
+}
+
+export function removeProperty(note: NoteFrontmatter, key: string): PropertyEdit {
+  if (!note.doc || !pairOf(note.doc, key)) return { changed: false };
+  note.doc.delete(key);
+  return { changed: true };
+}
+
+/**
+ * Rename `key` in place, keeping its value, position and comments. A note
+ * that already has `newKey` is skipped unless `overwrite`, which drops the
+ * old `newKey` first.
+ */
+export function renameProperty(note: NoteFrontmatter, key: string, newKey: string, overwrite = false): PropertyEdit {
+  if (!note.doc || key === newKey) return { changed: false };
+  const pair = pairOf(note.doc, key);
+  if (!pair) return { changed: false };
+  if (pairOf(note.doc, newKey)) {
+    if (!overwrite) return { skipped: `already has "${newKey}"` };
+    note.doc.delete(newKey);
+  }
+  const oldKey = pair.key as { comment?: string | null; commentBefore?: string | null };
+  const renamed = note.doc.createNode(newKey);
+  renamed.comment = oldKey.comment;
+  renamed.commentBefore = oldKey.commentBefore;
+  pair.key = renamed;
+  return { changed: true };
+}
+
+/** `value` as `type`, or undefined when it does not convert. */
+export function convertValue(value: unknown, type: PropertyType): unknown {
+  switch (type) {
+    case 'list':
+      if (Array.isArray(value)) return value;
+      if (value === null || value === undefined) return [];
+      if (typeof value === 'string') return value.split(',').map(v => v.trim()).filter(v => v !== '');
+      return [value];
+    case 'text':
+      if (Array.isArray(value)) return value.map(v => String(v)).join(', ');
+      if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+      return undefined;
+    case 'number': {
+      if (typeof value === 'number') return value;
+      if (typeof value !== 'string' || value.trim() === '') return undefined;
+      const n = Number(value.trim());
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case 'checkbox': {
+      if (typeof value === 'boolean') return value;
+      const word = String(value).trim().toLowerCase();
+      if (['true', 'yes', 'y', '1', 'on'].includes(word)) return true;
+      if (['false', 'no', 'n', '0', 'off', ''].includes(word)) return false;
+      return undefined;
+    }
+    case 'date': {
+      if (typeof value !== 'string') return undefined;
+      const match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/.exec(value.trim());
+      if (!match) return undefined;
+      const date = `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+      const check = new Date(`${date}T00:00:00Z`);
+      return !isNaN(check.getTime()) && check.toISOString().startsWith(date) ? date : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** Convert `key`'s value to `type`; a value that does not convert is left alone and reported. */
+export function retypeProperty(note: NoteFrontmatter, key: string, type: PropertyType): PropertyEdit {
+  if (!note.doc) return { changed: false };
+  const pair = pairOf(note.doc, key);
+  if (!pair) return { changed: false };
+
+  const current = propertiesOf(note)[key];
+  const converted = convertValue(current, type);
+  if (converted === undefined) {
+    return { skipped: `${JSON.stringify(current)} is not convertible to ${type}` };
+  }
+  if (sameValue(current, converted) && propertyType(current) === propertyType(converted)) {
+    return { changed: false };
+  }
+  replaceValue(note.doc, pair, converted);
+  return { changed: true };
+}
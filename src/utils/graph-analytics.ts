@@ -0,0 +1,370 @@
+/**
+ * Whole-graph analytics for `graph.analyze`: PageRank, betweenness
+ * centrality and communities over the resolved links between notes.
+ *
+ * PageRank follows links in their direction, weighted by how often a note
+ * links to another. Betweenness and communities treat a link as a
+ * connection either way, as the graph view does: a note that bridges two
+ * areas does so whichever side wrote the link. Communities are found with
+ * Louvain modularity optimisation, visiting notes in path order so the
+ * same vault always splits the same way.
+ *
+ * Results are cached process-wide (the router is built per request) and
+ * keyed by a fingerprint of the graph itself, so they are recomputed as
+ * soon as the metadata cache resolves a link differently — or a note is
+ * added, removed or excluded — and never otherwise.
+ */
+import { createHash } from 'crypto';
+
+/** Notes and the links between them: `links[source][target]` is how often source links to target. */
+export interface LinkGraph {
+  nodes: string[];
+  links: Record<string, Record<string, number>>;
+}
+
+export interface Community {
+  /** 1 for the largest community, 2 for the next, and so on. */
+  id: number;
+  size: number;
+  /** Every note in the community, highest PageRank first. */
+  members: string[];
+  /** Links between this community's notes and notes outside it. */
+  externalLinks: number;
+  /** Ids of the communities it has links to. */
+  linkedCommunities: number[];
+}
+
+export interface GraphAnalysis {
+  notes: number;
+  links: number;
+  /** Sums to 1 over all notes. */
+  pageRank: Map<string, number>;
+  /** Normalised to 0–1: the share of shortest paths between other notes that pass through the note. */
+  betweenness: Map<string, number>;
+  /** Set when betweenness was estimated from a sample of start notes. */
+  approximate: boolean;
+  /** Community id of every note that has links; notes without links have none. */
+  communityOf: Map<string, number>;
+  /** Communities of two or more notes, largest first. */
+  communities: Community[];
+  /** Notes with no links to or from another note. */
+  unlinked: string[];
+  modularity: number;
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/** Above this many notes, betweenness is estimated from this many start notes. */
+const BETWEENNESS_SAMPLE = 1000;
+
+/** Scopes whose analysis is kept at once; the least recently used is dropped first. */
+const MAX_CACHED = 8;
+
+/** Undirected weighted adjacency by node index; only Louvain's merged nodes have self-loops. */
+type Adjacency = Array<Map<number, number>>;
+
+function undirected(graph: LinkGraph, index: Map<string, number>): Adjacency {
+  const adjacency: Adjacency = graph.nodes.map(() => new Map<number, number>());
+  for (const [source, targets] of Object.entries(graph.links)) {
+    const i = index.get(source);
+    if (i === undefined) continue;
+    for (const [target, count] of Object.entries(targets)) {
+      const j = index.get(target);
+      if (j === undefined || j === i) continue;
+      adjacency[i].set(j, (adjacency[i].get(j) ?? 0) + count);
+      adjacency[j].set(i, (adjacency[j].get(i) ?? 0) + count);
+    }
+  }
+  return adjacency;
+}
+
+/** PageRank by power iteration; a note without outgoing links shares its rank with every note. */
+export function pageRank(graph: LinkGraph): Map<string, number> {
+  const n = graph.nodes.length;
+  const index = new Map(graph.nodes.map((path, i) => [path, i]));
+  const out: Array<Array<[number, number]>> = graph.nodes.map(() => []);
+  const outWeight = new Float64Array(n);
+  for (const [source, targets] of Object.entries(graph.links)) {
+    const i = index.get(source);
+    if (i === undefined) continue;
+    for (const [target, count] of Object.entries(targets)) {
+      const j = index.get(target);
+      if (j === undefined || j === i) continue;
+      out[i].push([j, count]);
+      outWeight[i] += count;
+    }
+  }
+
+  let rank = new Float64Array(n).fill(1 / n);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = new Float64Array(n);
+    let dangling = 0;
+    for (let i = 0; i < n; i++) {
+      if (outWeight[i] === 0) {
+        dangling += rank[i];
+        continue;
+      }
+      for (const [j, weight] of out[i]) next[j] += DAMPING * rank[i] * weight / outWeight[i];
+    }
+    const base = (1 - DAMPING) / n + DAMPING * dangling / n;
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] += base;
+      change += Math.abs(next[i] - rank[i]);
+    }
+    rank = next;
+    if (change < TOLERANCE) break;
+  }
+
+  return new Map(graph.nodes.map((path, i) => [path, rank[i]]));
+}
+
+/**
+ * Brandes' betweenness over the undirected, unweighted graph, normalised
+ * to 0–1. Large graphs start from an evenly spread sample of notes.
+ */
+export function betweenness(graph: LinkGraph): { scores: Map<string, number>; approximate: boolean } {
+  const n = graph.nodes.length;
+  const index = new Map(graph.nodes.map((path, i) => [path, i]));
+  const neighbors = undirected(graph, index).map(adjacent => [...adjacent.keys()]);
+  const step = n > BETWEENNESS_SAMPLE ? n / BETWEENNESS_SAMPLE : 1;
+  const sources = step === 1 ? graph.nodes.map((_, i) => i) : Array.from({ length: BETWEENNESS_SAMPLE }, (_, k) => Math.floor(k * step));
+  const centrality = new Float64Array(n);
+
+  for (const s of sources) {
+    const order: number[] = [];
+    const predecessors: number[][] = graph.nodes.map(() => []);
+    const paths = new Float64Array(n);
+    const distance = new Int32Array(n).fill(-1);
+    paths[s] = 1;
+    distance[s] = 0;
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      order.push(v);
+      for (const w of neighbors[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          queue.push(w);
+        }
+        if (distance[w] === distance[v] + 1) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+    const dependency = new Float64Array(n);
+    while (order.length > 0) {
+      const w = order.pop()!;
+      for (const v of predecessors[w]) dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      if (w !== s) centrality[w] += dependency[w];
+    }
+  }
+
+  // Each pair is counted from both ends; a sample stands for all start notes
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  const scale = step / 2 / (pairs > 0 ? pairs : 1);
+  return {
+    scores: new Map(graph.nodes.map((path, i) => [path, centrality[i] * scale])),
+    approximate: step !== 1,
+  };
+}
+
+/** One Louvain pass: move each node to the neighbouring community that most improves modularity. */
+function moveNodes(adjacency: Adjacency): { community: number[]; improved: boolean } {
+  const degree = adjacency.map(adjacent => [...adjacent.values()].reduce((a, b) => a + b, 0));
+  const total = degree.reduce((a, b) => a + b, 0);
+  const community = adjacency.map((_, i) => i);
+  if (total === 0) return { community, improved: false };
+  const communityDegree = degree.slice();
+  let improved = false;
+  let moved = true;
+
+  while (moved) {
+    moved = false;
+    for (let i = 0; i < adjacency.length; i++) {
+      const own = community[i];
+      const toCommunity = new Map<number, number>();
+      for (const [j, weight] of adjacency[i]) {
+        if (j !== i) toCommunity.set(community[j], (toCommunity.get(community[j]) ?? 0) + weight);
+      }
+      communityDegree[own] -= degree[i];
+      let best = own;
+      let bestGain = (toCommunity.get(own) ?? 0) - (communityDegree[own] * degree[i]) / total;
+      for (const [candidate, weight] of toCommunity) {
+        const gain = weight - (communityDegree[candidate] * degree[i]) / total;
+        if (gain > bestGain + 1e-12) {
+          best = candidate;
+          bestGain = gain;
+        }
+      }
+      communityDegree[best] += degree[i];
+      community[i] = best;
+      if (best !== own) {
+        moved = true;
+        improved = true;
+      }
+    }
+  }
+
+  return { community, improved };
+}
+
+/** Louvain communities: the community index of each node, numbered from 0. */
+function louvain(adjacency: Adjacency): number[] {
+  let membership = adjacency.map((_, i) => i);
+  let current = adjacency;
+
+  for (;;) {
+    const { community, improved } = moveNodes(current);
+    if (!improved) return membership;
+    const renumbered = new Map<number, number>();
+    const mapped = community.map(c => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+      return renumbered.get(c)!;
+    });
+    membership = membership.map(node => mapped[node]);
+
+    // Each community becomes one node; links inside it become a self-loop
+    const next: Adjacency = Array.from({ length: renumbered.size }, () => new Map<number, number>());
+    current.forEach((adjacent, i) => {
+      for (const [j, weight] of adjacent) {
+        next[mapped[i]].set(mapped[j], (next[mapped[i]].get(mapped[j]) ?? 0) + weight);
+      }
+    });
+    current = next;
+  }
+}
+
+function modularity(adjacency: Adjacency, membership: number[]): number {
+  let total = 0;
+  const inside = new Map<number, number>();
+  const degree = new Map<number, number>();
+  adjacency.forEach((adjacent, i) => {
+    for (const [j, weight] of adjacent) {
+      total += weight;
+      degree.set(membership[i], (degree.get(membership[i]) ?? 0) + weight);
+      if (membership[i] === membership[j]) inside.set(membership[i], (inside.get(membership[i]) ?? 0) + weight);
+    }
+  });
+  if (total === 0) return 0;
+  let q = 0;
+  for (const [c, d] of degree) q += (inside.get(c) ?? 0) / total - (d / total) ** 2;
+  return q;
+}
+
+/** PageRank, betweenness and communities of `graph`. */
+export function analyzeGraph(graph: LinkGraph): GraphAnalysis {
+  const index = new Map(graph.nodes.map((path, i) => [path, i]));
+  const adjacency = undirected(graph, index);
+  const ranks = pageRank(graph);
+  const { scores, approximate } = betweenness(graph);
+  const membership = louvain(adjacency);
+  const byRank = (a: string, b: string) => ranks.get(b)! - ranks.get(a)! || a.localeCompare(b);
+
+  const groups = new Map<number, string[]>();
+  const unlinked: string[] = [];
+  graph.nodes.forEach((path, i) => {
+    if (adjacency[i].size === 0) {
+      unlinked.push(path);
+      return;
+    }
+    const group = groups.get(membership[i]) ?? [];
+    group.push(path);
+    groups.set(membership[i], group);
+  });
+
+  // Number communities largest first, then by their top note
+  const ordered = [...groups.values()]
+    .map(members => members.sort(byRank))
+    .sort((a, b) => b.length - a.length || byRank(a[0], b[0]));
+  const communityOf = new Map<string, number>();
+  ordered.forEach((members, k) => members.forEach(path => communityOf.set(path, k + 1)));
+
+  const communities: Community[] = ordered.map((members, k) => {
+    const id = k + 1;
+    let externalLinks = 0;
+    const linked = new Set<number>();
+    for (const path of members) {
+      for (const [j, weight] of adjacency[index.get(path)!]) {
+        const other = communityOf.get(graph.nodes[j])!;
+        if (other === id) continue;
+        externalLinks += weight;
+        linked.add(other);
+      }
+    }
+    return { id, size: members.length, members, externalLinks, linkedCommunities: [...linked].sort((a, b) => a - b) };
+  });
+
+  let links = 0;
+  for (const targets of Object.values(graph.links)) {
+    for (const count of Object.values(targets)) links += count;
+  }
+
+  return {
+    notes: graph.nodes.length,
+    links,
+    pageRank: ranks,
+    betweenness: scores,
+    approximate,
+    communityOf,
+    communities: communities.filter(c => c.size > 1),
+    unlinked,
+    modularity: modularity(adjacency, membership),
+  };
+}
+
+/** SHA-256 over the sorted notes and links: equal exactly when the graphs are. */
+export function graphFingerprint(graph: LinkGraph): string {
+  const hash = createHash('sha256');
+  for (const path of graph.nodes) hash.update(`${path}\n`);
+  for (const source of Object.keys(graph.links).sort()) {
+    const targets = graph.links[source];
+    for (const target of Object.keys(targets).sort()) hash.update(`${source}\t${target}\t${targets[target]}\n`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * The last analysis of each scope (the vault, or a folder), reused while
+ * the graph's fingerprint is unchanged. Process-wide singleton.
+ */
+export class GraphAnalysisCache {
+  private static instance: GraphAnalysisCache;
+
+  /** Insertion-ordered, so the first key is the least recently used. */
+  private entries = new Map<string, { fingerprint: string; analysis: GraphAnalysis }>();
+
+  private constructor() {}
+
+  static getInstance(): GraphAnalysisCache {
+    if (!GraphAnalysisCache.instance) {
+      GraphAnalysisCache.instance = new GraphAnalysisCache();
+    }
+    return GraphAnalysisCache.instance;
+  }
+
+  /** The analysis of `graph`, computed only if the scope's graph changed since the last call. */
+  analyze(scope: string, graph: LinkGraph): { analysis: GraphAnalysis; cached: boolean } {
+    const fingerprint = graphFingerprint(graph);
+    const entry = this.entries.get(scope);
+    this.entries.delete(scope);
+    if (entry && entry.fingerprint === fingerprint) {
+      this.entries.set(scope, entry);
+      return { analysis: entry.analysis, cached: true };
+    }
+
+    const analysis = analyzeGraph(graph);
+    this.entries.set(scope, { fingerprint, analysis });
+    if (this.entries.size > MAX_CACHED) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    return { analysis, cached: false };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
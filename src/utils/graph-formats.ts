@@ -0,0 +1,180 @@
+/**
+ * Serialise a vault graph for `graph.export`: GraphML (networkx, yEd,
+ * Gephi), Graphviz DOT, GEXF (Gephi) and JSON Graph Format (v2).
+ *
+ * Every format is written one element per line, so a large export can be
+ * paged on line boundaries and the pages concatenated back together.
+ * Attribute types are inferred across all nodes: a key whose values are all
+ * booleans is declared boolean, all numbers double, anything else string.
+ */
+
+export type GraphExportFormat = 'graphml' | 'dot' | 'gexf' | 'json';
+
+export const GRAPH_EXPORT_FORMATS: readonly GraphExportFormat[] = ['graphml', 'dot', 'gexf', 'json'];
+
+export type AttributeValue = string | number | boolean;
+
+export interface ExportNode {
+  /** Vault path, or `#tag` for a tag node. */
+  id: string;
+  label: string;
+  kind: 'note' | 'canvas' | 'file' | 'tag';
+  /** From frontmatter; lists are joined with `, `. */
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  /** link, embed, canvas, tag, or the property a typed link is written in (`parent`). */
+  type: string;
+  /** How many times the source links to the target this way. */
+  weight: number;
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+type AttributeType = 'boolean' | 'double' | 'string';
+
+/** Node attribute keys in first-seen order, each with the one type all its values fit. */
+function attributeTypes(nodes: ExportNode[]): Map<string, AttributeType> {
+  const types = new Map<string, AttributeType>();
+  for (const node of nodes) {
+    for (const [key, value] of Object.entries(node.attributes)) {
+      const type: AttributeType = typeof value === 'boolean' ? 'boolean' : typeof value === 'number' ? 'double' : 'string';
+      const seen = types.get(key);
+      types.set(key, seen === undefined || seen === type ? type : 'string');
+    }
+  }
+  return types;
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // eslint-disable-next-line no-control-regex -- Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function dot(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+function toGraphML(graph: ExportGraph): string {
+  const types = attributeTypes(graph.nodes);
+  const keys = new Map([...types.keys()].map((key, i) => [key, `d${i}`]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="kind" for="node" attr.name="kind" attr.type="string"/>',
+    ...[...types].map(([key, type]) => `  <key id="${keys.get(key)}" for="node" attr.name="${xml(key)}" attr.type="${type}"/>`),
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="vault" edgedefault="directed">',
+  ];
+  for (const node of graph.nodes) {
+    const data = [
+      `<data key="label">${xml(node.label)}</data>`,
+      `<data key="kind">${node.kind}</data>`,
+      ...Object.entries(node.attributes).map(([key, value]) => `<data key="${keys.get(key)}">${xml(String(value))}</data>`),
+    ];
+    lines.push(`    <node id="${xml(node.id)}">${data.join('')}</node>`);
+  }
+  graph.edges.forEach((edge, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${xml(edge.source)}" target="${xml(edge.target)}">` +
+      `<data key="type">${edge.type}</data><data key="weight">${edge.weight}</data></edge>`
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+function toDot(graph: ExportGraph): string {
+  const lines = ['digraph vault {'];
+  for (const node of graph.nodes) {
+    const attributes = [['label', node.label], ['kind', node.kind], ...Object.entries(node.attributes)]
+      .map(([key, value]) => `${dot(String(key))}=${dot(String(value))}`);
+    lines.push(`  ${dot(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${dot(edge.source)} -> ${dot(edge.target)} [type=${dot(edge.type)}, weight=${edge.weight}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function toGexf(graph: ExportGraph): string {
+  const types = attributeTypes(graph.nodes);
+  const ids = new Map([...types.keys()].map((key, i) => [key, String(i + 1)]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    '      <attribute id="0" title="kind" type="string"/>',
+    ...[...types].map(([key, type]) => `      <attribute id="${ids.get(key)}" title="${xml(key)}" type="${type}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="type" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+  for (const node of graph.nodes) {
+    const values = [
+      '<attvalue for="0" value="' + node.kind + '"/>',
+      ...Object.entries(node.attributes).map(([key, value]) => `<attvalue for="${ids.get(key)}" value="${xml(String(value))}"/>`),
+    ];
+    lines.push(`      <node id="${xml(node.id)}" label="${xml(node.label)}"><attvalues>${values.join('')}</attvalues></node>`);
+  }
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, i) => {
+    lines.push(
+      `      <edge id="${i}" source="${xml(edge.source)}" target="${xml(edge.target)}" label="${edge.type}" weight="${edge.weight}">` +
+      `<attvalues><attvalue for="0" value="${edge.type}"/></attvalues></edge>`
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+}
+
+function toJsonGraph(graph: ExportGraph): string {
+  const nodes: Record<string, unknown> = {};
+  for (const node of graph.nodes) {
+    nodes[node.id] = { label: node.label, metadata: { kind: node.kind, ...node.attributes } };
+  }
+  const edges = graph.edges.map(edge => ({
+    source: edge.source,
+    target: edge.target,
+    relation: edge.type,
+    metadata: { weight: edge.weight },
+  }));
+  return JSON.stringify({ graph: { id: 'vault', directed: true, nodes, edges } }, null, 2);
+}
+
+export function serializeGraph(graph: ExportGraph, format: GraphExportFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(graph);
+    case 'dot':
+      return toDot(graph);
+    case 'gexf':
+      return toGexf(graph);
+    case 'json':
+      return toJsonGraph(graph);
+  }
+}
+
+/** The format an output file's extension names, if any. */
+export function formatForPath(path: string): GraphExportFormat | undefined {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  if (extension === 'gv') return 'dot';
+  return GRAPH_EXPORT_FORMATS.find(format => format === extension);
+}
@@ -1,5 +1,8 @@
 import { App, TFile, CachedMetadata, getAllTags } from 'obsidian';
 import { MCPIgnoreManager } from '../security/mcp-ignore-manager';
+import { canvasReferences, parseCanvas } from './json-canvas';
+import { LinkGraph } from './graph-analytics';
+import { inlineFieldLinks } from './inline-fields';
 
 /**
  * Represents a node in the Obsidian vault graph
@@ -17,8 +20,21 @@ export interface GraphNode {
 export interface GraphEdge {
   source: string; // source file path
   target: string; // target file path
-  type: 'link' | 'embed' | 'tag';
+  type: 'link' | 'embed' | 'tag' | 'canvas' | 'property';
+  /** For a property edge: the frontmatter property or inline field the link is written in. */
+  relation?: string;
   count: number; // number of links/references
+  /** The weight of the edge's type, when the traversal was given edgeWeights. */
+  weight?: number;
+}
+
+/**
+ * The name edgeTypes and edgeWeights know an edge by: its relation for a
+ * property edge (`parent`, `author`), otherwise its type. Lowercased, so
+ * `Parent:` and `parent::` are one relation.
+ */
+export function edgeKind(edge: GraphEdge): string {
+  return (edge.relation ?? edge.type).toLowerCase();
 }
 
 /**
@@ -33,6 +49,14 @@ export interface GraphTraversalOptions {
   followTags?: boolean;
   nodeFilter?: (node: GraphNode) => boolean;
   edgeFilter?: (edge: GraphEdge) => boolean;
+  /** Follow only edges of these kinds (see edgeKind), e.g. ['parent']. */
+  edgeTypes?: string[];
+  /**
+   * Weight per edge kind; kinds left out weigh 1 and 0 drops a kind. A step
+   * along an edge costs 1/weight, so traversal reaches notes over heavy
+   * edges first and findShortestPath returns the cheapest path.
+   */
+  edgeWeights?: Record<string, number>;
 }
 
 /**
@@ -50,17 +74,71 @@ export interface GraphTraversalResult {
   };
 }
 
+/** Edge kinds that are not a relation; any other kind edgeTypes or edgeWeights name is one. */
+const PLAIN_EDGE_KINDS = new Set(['link', 'embed', 'tag', 'canvas']);
+
+/**
+ * Whether edgeTypes or edgeWeights name a relation (`parent`, `author`), so a
+ * traversal needs `refreshFieldLinks` to tell inline-field links apart.
+ */
+export function namesRelation(options: Pick<GraphTraversalOptions, 'edgeTypes' | 'edgeWeights'>): boolean {
+  const { edgeTypes, edgeWeights } = options;
+  const kinds = [
+    ...(Array.isArray(edgeTypes) ? edgeTypes : []),
+    ...(typeof edgeWeights === 'object' && edgeWeights !== null ? Object.keys(edgeWeights) : []),
+  ];
+  return kinds.some(kind => typeof kind === 'string' && !PLAIN_EDGE_KINDS.has(kind.toLowerCase()));
+}
+
+/** What a refresh read out of each file, by path, with the mtime it was read at. */
+type ReadCache<T> = Map<string, { mtime: number; links: T }>;
+
+/**
+ * Links out of each vault's canvases and inline fields, kept for the life of
+ * the process: a GraphTraversal is built per request, so a cache of its own
+ * would start empty every time.
+ */
+const canvasCaches = new WeakMap<App, ReadCache<Record<string, number>>>();
+const fieldCaches = new WeakMap<App, ReadCache<Array<{ key: string; link: string }>>>();
+
+function cacheFor<T>(caches: WeakMap<App, ReadCache<T>>, app: App): ReadCache<T> {
+  let cache = caches.get(app);
+  if (!cache) {
+    cache = new Map();
+    caches.set(app, cache);
+  }
+  return cache;
+}
+
+/** Insert into a queue kept in order of cost, after the entries that cost the same. */
+function enqueue<T extends { cost: number }>(queue: T[], entry: T): void {
+  let low = 0;
+  let high = queue.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (queue[mid].cost <= entry.cost) low = mid + 1;
+    else high = mid;
+  }
+  queue.splice(low, 0, entry);
+}
+
 /**
  * Utility class for traversing the Obsidian vault graph
  */
 export class GraphTraversal {
-  constructor(private app: App, private ignoreManager?: MCPIgnoreManager) {}
+  /** Links out of each `.canvas` file, as of the last `refreshCanvasLinks`. */
+  private canvasLinks: Record<string, Record<string, number>> = {};
+  /** Links in inline fields of each note, as of the last `refreshFieldLinks`. */
+  private fieldLinks: Record<string, Array<{ key: string; link: string }>> = {};
+
+  constructor(private app: App, private ignoreManager?: Pick<MCPIgnoreManager, 'isExcluded'>) {}
 
   /**
-   * Whether a path is excluded by the MCP ignore configuration.
+   * Whether a path is excluded by the MCP ignore configuration (or, when
+   * given `ObsidianAPI.getReadExclusions()`, by everything the session may not read).
    *
    * Graph traversal reads directly from metadataCache.resolvedLinks and
-   * vault.getFiles(), both unaware of .mcpignore. Excluded paths must be kept
+   * vault.getFiles(), both unaware of .mcpignore and the session's scope. Excluded paths must be kept
    * out of results on two fronts: the link primitives filter the far endpoint
    * (so an ignored note never appears as a neighbor/edge of a visible query),
    * and the file enumerations (getAllNodes, tag connections, root traversal,
@@ -110,6 +188,138 @@ export class GraphTraversal {
     }));
   }
 
+  /**
+   * Re-read the links in `.canvas` files: the notes on file cards and the
+   * links written in text cards. metadataCache.resolvedLinks does not cover
+   * canvases, so without this a note placed on a canvas has no edge to it.
+   * What was read is shared by every traversal of the vault, so a canvas is
+   * re-read only when its mtime changes. One that resolvedLinks already
+   * reports links for is left to it, so no link is counted twice.
+   */
+  async refreshCanvasLinks(): Promise<void> {
+    const cache = cacheFor(canvasCaches, this.app);
+    const links: Record<string, Record<string, number>> = {};
+    const seen = new Set<string>();
+
+    for (const file of this.app.vault.getFiles()) {
+      if (file.extension !== 'canvas') continue;
+      const indexed = this.app.metadataCache.resolvedLinks[file.path];
+      if (indexed && Object.keys(indexed).length > 0) continue;
+
+      seen.add(file.path);
+      let cached = cache.get(file.path);
+      if (!cached || cached.mtime !== file.stat.mtime) {
+        cached = { mtime: file.stat.mtime, links: await this.readCanvasLinks(file) };
+        cache.set(file.path, cached);
+      }
+      if (Object.keys(cached.links).length > 0) links[file.path] = cached.links;
+    }
+
+    for (const path of cache.keys()) {
+      if (!seen.has(path)) cache.delete(path);
+    }
+    this.canvasLinks = links;
+  }
+
+  private async readCanvasLinks(file: TFile): Promise<Record<string, number>> {
+    let references: { files: string[]; links: string[] };
+    try {
+      references = canvasReferences(parseCanvas(await this.app.vault.cachedRead(file)));
+    } catch {
+      // A canvas that is not valid JSON links nowhere
+      return {};
+    }
+
+    const links: Record<string, number> = {};
+    const add = (target: TFile | null) => {
+      if (target && target.path !== file.path) links[target.path] = (links[target.path] ?? 0) + 1;
+    };
+    for (const path of references.files) {
+      const target = this.app.vault.getAbstractFileByPath(path);
+      add(target instanceof TFile ? target : null);
+    }
+    for (const link of references.links) {
+      add(this.app.metadataCache.getFirstLinkpathDest(link, file.path));
+    }
+    return links;
+  }
+
+  /**
+   * Re-read the Dataview inline fields (`author:: [[Person]]`) of notes that
+   * have links, for the property edges relationsOf builds. The metadata
+   * cache reports those links without the field they are written in. What
+   * was read is shared by every traversal of the vault, so a note is re-read
+   * only when its mtime changes.
+   */
+  async refreshFieldLinks(): Promise<void> {
+    const cache = cacheFor(fieldCaches, this.app);
+    const links: Record<string, Array<{ key: string; link: string }>> = {};
+    const seen = new Set<string>();
+
+    for (const file of this.app.vault.getFiles()) {
+      if (file.extension !== 'md' || !this.app.metadataCache.getFileCache(file)?.links?.length) continue;
+      seen.add(file.path);
+      // Left in the cache for the sessions that may read it
+      if (this.isExcluded(file.path)) continue;
+
+      let cached = cache.get(file.path);
+      if (!cached || cached.mtime !== file.stat.mtime) {
+        cached = { mtime: file.stat.mtime, links: inlineFieldLinks(await this.app.vault.cachedRead(file)) };
+        cache.set(file.path, cached);
+      }
+      if (cached.links.length > 0) links[file.path] = cached.links;
+    }
+
+    for (const path of cache.keys()) {
+      if (!seen.has(path)) cache.delete(path);
+    }
+    this.fieldLinks = links;
+  }
+
+  /**
+   * The links of a note that carry a relation — frontmatter properties
+   * (`parent: "[[X]]"`, each item of `related: [...]`) and inline fields —
+   * counted per target and relation.
+   */
+  private relationsOf(sourcePath: string): Map<string, Map<string, number>> {
+    const relations = new Map<string, Map<string, number>>();
+    const file = this.app.vault.getAbstractFileByPath(sourcePath);
+    if (!(file instanceof TFile)) return relations;
+
+    const written = [
+      // List items are keyed `related.0`, `related.1`, …
+      ...(this.app.metadataCache.getFileCache(file)?.frontmatterLinks ?? [])
+        .map(ref => ({ key: ref.key.replace(/(\.\d+)+$/, ''), link: ref.link })),
+      ...(this.fieldLinks[sourcePath] ?? []),
+    ];
+    for (const { key, link } of written) {
+      const target = this.app.metadataCache.getFirstLinkpathDest(link.split(/[#^]/)[0], sourcePath);
+      if (!target) continue;
+      const byRelation = relations.get(target.path) ?? new Map<string, number>();
+      byRelation.set(key, (byRelation.get(key) ?? 0) + 1);
+      relations.set(target.path, byRelation);
+    }
+    return relations;
+  }
+
+  /**
+   * The resolved links from one note to another, as a property edge per
+   * relation they are written in and a link edge for the rest. Relations only
+   * divide the count resolvedLinks has, so the total is unchanged.
+   */
+  private linkEdges(source: string, target: string, count: number, relations: Map<string, Map<string, number>>): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    let rest = count;
+    for (const [relation, written] of relations.get(target) ?? []) {
+      const typed = Math.min(written, rest);
+      if (typed === 0) break;
+      edges.push({ source, target, type: 'property', relation, count: typed });
+      rest -= typed;
+    }
+    if (rest > 0) edges.push({ source, target, type: 'link', count: rest });
+    return edges;
+  }
+
   /**
    * Get backlinks (incoming links) for a file
    */
@@ -122,12 +332,15 @@ export class GraphTraversal {
       if (this.isExcluded(sourcePath)) continue;
       const links = resolvedLinks[sourcePath];
       if (links[filePath]) {
-        edges.push({
-          source: sourcePath,
-          target: filePath,
-          type: 'link',
-          count: links[filePath]
-        });
+        edges.push(...this.linkEdges(sourcePath, filePath, links[filePath], this.relationsOf(sourcePath)));
+      }
+    }
+
+    for (const sourcePath in this.canvasLinks) {
+      if (this.isExcluded(sourcePath)) continue;
+      const count = this.canvasLinks[sourcePath][filePath];
+      if (count) {
+        edges.push({ source: sourcePath, target: filePath, type: 'canvas', count });
       }
     }
 
@@ -142,17 +355,19 @@ export class GraphTraversal {
     const links = this.app.metadataCache.resolvedLinks[filePath];
 
     if (links) {
+      const relations = this.relationsOf(filePath);
       for (const targetPath in links) {
         if (this.isExcluded(targetPath)) continue;
-        edges.push({
-          source: filePath,
-          target: targetPath,
-          type: 'link',
-          count: links[targetPath]
-        });
+        edges.push(...this.linkEdges(filePath, targetPath, links[targetPath], relations));
       }
     }
 
+    const canvasLinks = this.canvasLinks[filePath] ?? {};
+    for (const targetPath in canvasLinks) {
+      if (this.isExcluded(targetPath)) continue;
+      edges.push({ source: filePath, target: targetPath, type: 'canvas', count: canvasLinks[targetPath] });
+    }
+
     return edges;
   }
 
@@ -216,7 +431,23 @@ export class GraphTraversal {
   }
 
   /**
-   * Perform breadth-first traversal from a starting node
+   * How edgeFilter, edgeTypes and edgeWeights rate an edge: the weight to
+   * follow it with, or 0 not to follow it.
+   */
+  private edgeRating(options: GraphTraversalOptions): (edge: GraphEdge) => number {
+    const types = options.edgeTypes?.map(type => type.toLowerCase());
+    const weights = new Map(Object.entries(options.edgeWeights ?? {}).map(([kind, weight]) => [kind.toLowerCase(), weight]));
+    return edge => {
+      if (options.edgeFilter && !options.edgeFilter(edge)) return 0;
+      const kind = edgeKind(edge);
+      if (types && !types.includes(kind)) return 0;
+      return Math.max(0, weights.get(kind) ?? 1);
+    };
+  }
+
+  /**
+   * Perform breadth-first traversal from a starting node. With edgeWeights
+   * the nodes are visited cheapest first instead, still within maxDepth hops.
    */
   breadthFirstTraversal(
     startPath: string,
@@ -230,8 +461,9 @@ export class GraphTraversal {
       followForwardLinks = true,
       followTags = false,
       nodeFilter,
-      edgeFilter
+      edgeWeights
     } = options;
+    const rate = this.edgeRating(options);
 
     const visited = new Map<string, GraphNode>();
     const edges: GraphEdge[] = [];
@@ -271,11 +503,11 @@ export class GraphTraversal {
       initialPaths = [{ path: startPath, depth: 0 }];
     }
 
-    const queue: Array<{ path: string; depth: number }> = [...initialPaths];
+    const queue: Array<{ path: string; depth: number; cost: number }> = initialPaths.map(entry => ({ ...entry, cost: 0 }));
     let maxDepthReached = 0;
 
     while (queue.length > 0 && visited.size < maxNodes) {
-      const { path, depth } = queue.shift()!;
+      const { path, depth, cost } = queue.shift()!;
       
       if (visited.has(path) || depth > maxDepth) continue;
       if (this.isExcluded(path)) continue;
@@ -296,40 +528,25 @@ export class GraphTraversal {
       maxDepthReached = Math.max(maxDepthReached, depth);
 
       // Get connected nodes
-      if (followForwardLinks) {
-        const forwardLinks = this.getForwardLinks(path);
-        for (const edge of forwardLinks) {
-          if (!edgeFilter || edgeFilter(edge)) {
-            edges.push(edge);
-            if (!visited.has(edge.target) && depth < maxDepth) {
-              queue.push({ path: edge.target, depth: depth + 1 });
-            }
-          }
+      const follow = (edge: GraphEdge, neighbor: string) => {
+        const weight = rate(edge);
+        if (weight <= 0) return;
+        edges.push(edgeWeights ? { ...edge, weight } : edge);
+        if (!visited.has(neighbor) && depth < maxDepth) {
+          enqueue(queue, { path: neighbor, depth: depth + 1, cost: cost + 1 / weight });
         }
+      };
+
+      if (followForwardLinks) {
+        for (const edge of this.getForwardLinks(path)) follow(edge, edge.target);
       }
 
       if (followBacklinks) {
-        const backlinks = this.getBacklinks(path);
-        for (const edge of backlinks) {
-          if (!edgeFilter || edgeFilter(edge)) {
-            edges.push(edge);
-            if (!visited.has(edge.source) && depth < maxDepth) {
-              queue.push({ path: edge.source, depth: depth + 1 });
-            }
-          }
-        }
+        for (const edge of this.getBacklinks(path)) follow(edge, edge.source);
       }
 
       if (followTags) {
-        const tagConnections = this.getTagConnections(path);
-        for (const edge of tagConnections) {
-          if (!edgeFilter || edgeFilter(edge)) {
-            edges.push(edge);
-            if (!visited.has(edge.target) && depth < maxDepth) {
-              queue.push({ path: edge.target, depth: depth + 1 });
-            }
-          }
-        }
+        for (const edge of this.getTagConnections(path)) follow(edge, edge.target);
       }
     }
 
@@ -346,20 +563,22 @@ export class GraphTraversal {
   }
 
   /**
-   * Find shortest path between two nodes using BFS
+   * Find shortest path between two nodes using BFS — or, with edgeWeights,
+   * the path whose steps cost least (1/weight each).
    */
   findShortestPath(
     sourcePath: string,
     targetPath: string,
     options: Omit<GraphTraversalOptions, 'maxNodes'> = {}
   ): string[] | null {
-    const queue: Array<{ path: string; pathSoFar: string[] }> = [
-      { path: sourcePath, pathSoFar: [sourcePath] }
+    const rate = this.edgeRating(options);
+    const queue: Array<{ path: string; pathSoFar: string[]; cost: number }> = [
+      { path: sourcePath, pathSoFar: [sourcePath], cost: 0 }
     ];
     const visited = new Set<string>();
 
     while (queue.length > 0) {
-      const { path, pathSoFar } = queue.shift()!;
+      const { path, pathSoFar, cost } = queue.shift()!;
       
       if (path === targetPath) {
         return pathSoFar;
@@ -368,19 +587,24 @@ export class GraphTraversal {
       if (visited.has(path)) continue;
       visited.add(path);
 
-      // Get neighbors
-      const forwardLinks = this.getForwardLinks(path);
+      // Get neighbors, each at the cheapest step to it
+      const forwardLinks = options.followForwardLinks !== false ? this.getForwardLinks(path) : [];
       const backlinks = options.followBacklinks !== false ? this.getBacklinks(path) : [];
       
-      const neighbors = new Set<string>();
-      forwardLinks.forEach(edge => neighbors.add(edge.target));
-      backlinks.forEach(edge => neighbors.add(edge.source));
+      const neighbors = new Map<string, number>();
+      const add = (neighbor: string, edge: GraphEdge) => {
+        const weight = rate(edge);
+        if (weight > 0) neighbors.set(neighbor, Math.min(neighbors.get(neighbor) ?? Infinity, 1 / weight));
+      };
+      forwardLinks.forEach(edge => add(edge.target, edge));
+      backlinks.forEach(edge => add(edge.source, edge));
 
-      for (const neighbor of neighbors) {
+      for (const [neighbor, step] of neighbors) {
         if (!visited.has(neighbor)) {
-          queue.push({
+          enqueue(queue, {
             path: neighbor,
-            pathSoFar: [...pathSoFar, neighbor]
+            pathSoFar: [...pathSoFar, neighbor],
+            cost: cost + step
           });
         }
       }
@@ -395,8 +619,10 @@ export class GraphTraversal {
   findAllPaths(
     sourcePath: string,
     targetPath: string,
-    maxDepth: number = 5
+    maxDepth: number = 5,
+    options: Pick<GraphTraversalOptions, 'edgeTypes' | 'edgeWeights' | 'edgeFilter'> = {}
   ): string[][] {
+    const rate = this.edgeRating(options);
     const paths: string[][] = [];
     const visited = new Set<string>();
 
@@ -411,7 +637,7 @@ export class GraphTraversal {
 
       const forwardLinks = this.getForwardLinks(currentNode);
       for (const edge of forwardLinks) {
-        if (!visited.has(edge.target)) {
+        if (!visited.has(edge.target) && rate(edge) > 0) {
           dfs([...currentPath, edge.target], edge.target, depth + 1);
         }
       }
@@ -424,9 +650,11 @@ export class GraphTraversal {
   }
 
   /**
-   * Get the local neighborhood of a node (all directly connected nodes)
+   * Get the local neighborhood of a node (all directly connected nodes).
+   * followForwardLinks, followBacklinks and the edge options narrow it; with
+   * edgeWeights each edge carries its weight and the heaviest come first.
    */
-  getLocalNeighborhood(filePath: string): {
+  getLocalNeighborhood(filePath: string, options: GraphTraversalOptions = {}): {
     node: GraphNode;
     neighbors: GraphNode[];
     edges: GraphEdge[];
@@ -480,13 +708,21 @@ export class GraphTraversal {
       metadata: this.app.metadataCache.getFileCache(file) || undefined
     };
 
-    const forwardLinks = this.getForwardLinks(filePath);
-    const backlinks = this.getBacklinks(filePath);
+    const rate = this.edgeRating(options);
+    const rated = (edges: GraphEdge[]) => edges.flatMap(edge => {
+      const weight = rate(edge);
+      if (weight <= 0) return [];
+      return [options.edgeWeights ? { ...edge, weight } : edge];
+    });
+    const forwardLinks = options.followForwardLinks !== false ? rated(this.getForwardLinks(filePath)) : [];
+    const backlinks = options.followBacklinks !== false ? rated(this.getBacklinks(filePath)) : [];
     const allEdges = [...forwardLinks, ...backlinks];
+    if (options.edgeWeights) {
+      allEdges.sort((a, b) => (b.weight ?? 1) - (a.weight ?? 1));
+    }
 
     const neighborPaths = new Set<string>();
-    forwardLinks.forEach(edge => neighborPaths.add(edge.target));
-    backlinks.forEach(edge => neighborPaths.add(edge.source));
+    allEdges.forEach(edge => neighborPaths.add(edge.source === filePath ? edge.target : edge.source));
 
     const neighbors: GraphNode[] = [];
     for (const path of neighborPaths) {
@@ -581,6 +817,31 @@ export class GraphTraversal {
     };
   }
 
+  /**
+   * The resolved links between notes as one graph, for whole-graph
+   * analytics: markdown notes only (as in getVaultStatistics), without
+   * excluded paths or self-links, optionally within one folder.
+   */
+  getLinkGraph(folder?: string): LinkGraph {
+    const prefix = folder ? `${folder.replace(/^\/+|\/+$/g, '')}/` : '';
+    const nodes = this.app.vault.getFiles()
+      .filter(f => f.extension === 'md' && !this.isExcluded(f.path) && f.path.startsWith(prefix))
+      .map(f => f.path)
+      .sort();
+    const inGraph = new Set(nodes);
+
+    const links: LinkGraph['links'] = {};
+    for (const [source, targets] of Object.entries(this.app.metadataCache.resolvedLinks ?? {})) {
+      if (!inGraph.has(source)) continue;
+      for (const [target, count] of Object.entries(targets)) {
+        if (target === source || !inGraph.has(target)) continue;
+        (links[source] ??= {})[target] = count;
+      }
+    }
+
+    return { nodes, links };
+  }
+
   /**
    * Calculate graph statistics for a file
    */
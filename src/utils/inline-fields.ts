@@ -0,0 +1,77 @@
+/**
+ * Links written in Dataview inline fields — `author:: [[Person]]` on a line
+ * of its own, or `[author:: [[Person]]]` and `(author:: [[Person]])` inside
+ * one — for the typed edges GraphTraversal builds from link properties.
+ *
+ * Frontmatter and fenced code are not searched. Both wikilinks and Markdown
+ * links to notes are taken; URLs are not.
+ */
+
+export interface FieldLink {
+  /** The field name as written. */
+  key: string;
+  /** The linkpath, without a heading, block or display text. */
+  link: string;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+/** A whole-line field, after any list marker, checkbox or quote. */
+const LINE_FIELD = /^\s*(?:>\s*)*(?:[-*+]\s+(?:\[.\]\s+)?|\d+[.)]\s+)?([^\s:[\]()*>#`][^:[\]()`]*?)::\s*(.*)$/u;
+/** A field inside a line, in brackets or parentheses. */
+const INLINE_FIELD = /\[([^[\]():]+?)::\s*((?:[^[\]]|\[\[[^\]]*\]\]|\[[^\]]*\]\([^)]*\))*?)\]|\(([^[\]():]+?)::\s*((?:[^()]|\([^)]*\))*?)\)/gu;
+const WIKILINK = /!?\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK = /!?\[[^\]]*\]\(<?([^)<>\s#]+)(?:#[^)>\s]*)?>?(?:\s+"[^"]*")?\)/g;
+
+function linksIn(value: string): string[] {
+  const links: string[] = [];
+  for (const match of value.matchAll(WIKILINK)) {
+    if (match[1].trim()) links.push(match[1].trim());
+  }
+  for (const match of value.matchAll(MARKDOWN_LINK)) {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(match[1])) continue;
+    try {
+      links.push(decodeURI(match[1]));
+    } catch {
+      links.push(match[1]);
+    }
+  }
+  return links;
+}
+
+/** Every link in an inline field of `content`, in order. */
+export function inlineFieldLinks(content: string): FieldLink[] {
+  const lines = content.split('\n');
+  let start = 0;
+  if (lines[0]?.trim() === '---') {
+    start = lines.findIndex((text, i) => i > 0 && text.trim() === '---') + 1;
+  }
+
+  const found: FieldLink[] = [];
+  let fence: string | undefined;
+  for (const text of lines.slice(start)) {
+    const marker = FENCE.exec(text)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      continue;
+    }
+    if (!text.includes('::')) continue;
+
+    const bracketed = [...text.matchAll(INLINE_FIELD)];
+    for (const match of bracketed) {
+      const key = (match[1] ?? match[3]).trim();
+      for (const link of linksIn(match[2] ?? match[4])) found.push({ key, link });
+    }
+    if (bracketed.length > 0) continue;
+
+    const whole = LINE_FIELD.exec(text);
+    if (whole) {
+      const key = whole[1].trim();
+      for (const link of linksIn(whole[2])) found.push({ key, link });
+    }
+  }
+  return found;
+}
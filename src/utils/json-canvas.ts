@@ -0,0 +1,280 @@
+/**
+ * JSON Canvas (https://jsoncanvas.org/spec/1.0/) — the format of Obsidian's
+ * `.canvas` files, for `canvas.*` and the canvas edges in `graph.*`.
+ *
+ * A canvas is `{ nodes, edges }`. Nodes are text, file, link or group cards
+ * positioned in pixels; array order is z-order, so groups come before the
+ * nodes they contain. Edges join two nodes by id, optionally from a given
+ * side, with an arrow at either end. Files are written the way Obsidian
+ * writes them: tab-indented JSON, unknown fields kept.
+ */
+
+export type CanvasNodeType = 'text' | 'file' | 'link' | 'group';
+export type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+export type CanvasEnd = 'none' | 'arrow';
+
+export const NODE_TYPES: readonly CanvasNodeType[] = ['text', 'file', 'link', 'group'];
+export const SIDES: readonly CanvasSide[] = ['top', 'right', 'bottom', 'left'];
+export const ENDS: readonly CanvasEnd[] = ['none', 'arrow'];
+const BACKGROUND_STYLES = ['cover', 'ratio', 'repeat'];
+
+export interface CanvasNode {
+  id: string;
+  type: CanvasNodeType;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** A preset `"1"`–`"6"` or a hex color like `"#FF0000"`. */
+  color?: string;
+  /** text: Markdown content. */
+  text?: string;
+  /** file: vault path of the note or attachment. */
+  file?: string;
+  /** file: a heading or block to show, starting with `#`. */
+  subpath?: string;
+  /** link: the web page shown. */
+  url?: string;
+  /** group: the title above the group. */
+  label?: string;
+  background?: string;
+  backgroundStyle?: string;
+  [extra: string]: unknown;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  fromSide?: CanvasSide;
+  /** Defaults to `none`. */
+  fromEnd?: CanvasEnd;
+  toNode: string;
+  toSide?: CanvasSide;
+  /** Defaults to `arrow`. */
+  toEnd?: CanvasEnd;
+  color?: string;
+  label?: string;
+  [extra: string]: unknown;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+  [extra: string]: unknown;
+}
+
+/** Card size Obsidian uses for a note dropped onto a canvas. */
+export const DEFAULT_NODE_SIZE = { width: 400, height: 400 };
+/** Space left between cards by `autoLayout`. */
+export const LAYOUT_GAP = 80;
+
+const COLOR = /^(?:[1-6]|#[0-9a-fA-F]{6}|#[0-9a-fA-F]{3})$/;
+
+/**
+ * Parse a `.canvas` file. An empty file is an empty canvas, as Obsidian
+ * treats it; anything else must be a JSON object. The result is not
+ * validated — see `validateCanvas`.
+ */
+export function parseCanvas(text: string): CanvasData {
+  if (text.trim() === '') return { nodes: [], edges: [] };
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('a canvas must be a JSON object with nodes and edges');
+  }
+  const canvas = data as Partial<CanvasData>;
+  return {
+    ...canvas,
+    nodes: Array.isArray(canvas.nodes) ? canvas.nodes : [],
+    edges: Array.isArray(canvas.edges) ? canvas.edges : [],
+  };
+}
+
+export function serializeCanvas(canvas: CanvasData): string {
+  return JSON.stringify(canvas, null, '\t');
+}
+
+/**
+ * Every way `canvas` departs from the spec, as `nodes[2].width: …` messages.
+ * An empty list means the canvas is valid.
+ */
+export function validateCanvas(canvas: CanvasData): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  const checkId = (where: string, id: unknown) => {
+    if (typeof id !== 'string' || id === '') {
+      issues.push(`${where}.id: must be a non-empty string`);
+    } else if (ids.has(id)) {
+      issues.push(`${where}.id: "${id}" is used more than once`);
+    } else {
+      ids.add(id);
+    }
+  };
+  const checkColor = (where: string, color: unknown) => {
+    if (color !== undefined && (typeof color !== 'string' || !COLOR.test(color))) {
+      issues.push(`${where}.color: must be "1" to "6" or a hex color`);
+    }
+  };
+  const checkString = (where: string, value: unknown, required: boolean) => {
+    if (value === undefined) {
+      if (required) issues.push(`${where}: required`);
+    } else if (typeof value !== 'string') {
+      issues.push(`${where}: must be a string`);
+    }
+  };
+
+  canvas.nodes.forEach((node, i) => {
+    const where = `nodes[${i}]`;
+    if (typeof node !== 'object' || node === null) {
+      issues.push(`${where}: must be an object`);
+      return;
+    }
+    checkId(where, node.id);
+    if (!NODE_TYPES.includes(node.type)) {
+      issues.push(`${where}.type: must be one of ${NODE_TYPES.join(', ')}`);
+    }
+    for (const key of ['x', 'y', 'width', 'height'] as const) {
+      if (!Number.isInteger(node[key])) issues.push(`${where}.${key}: must be an integer`);
+    }
+    checkColor(where, node.color);
+    switch (node.type) {
+      case 'text':
+        checkString(`${where}.text`, node.text, true);
+        break;
+      case 'file':
+        checkString(`${where}.file`, node.file, true);
+        if (node.subpath !== undefined && (typeof node.subpath !== 'string' || !node.subpath.startsWith('#'))) {
+          issues.push(`${where}.subpath: must start with #`);
+        }
+        break;
+      case 'link':
+        checkString(`${where}.url`, node.url, true);
+        break;
+      case 'group':
+        checkString(`${where}.label`, node.label, false);
+        checkString(`${where}.background`, node.background, false);
+        if (node.backgroundStyle !== undefined && !BACKGROUND_STYLES.includes(node.backgroundStyle)) {
+          issues.push(`${where}.backgroundStyle: must be one of ${BACKGROUND_STYLES.join(', ')}`);
+        }
+        break;
+    }
+  });
+
+  const nodeIds = new Set(canvas.nodes.map(n => n?.id));
+  canvas.edges.forEach((edge, i) => {
+    const where = `edges[${i}]`;
+    if (typeof edge !== 'object' || edge === null) {
+      issues.push(`${where}: must be an object`);
+      return;
+    }
+    checkId(where, edge.id);
+    for (const end of ['from', 'to'] as const) {
+      const nodeId = edge[`${end}Node`];
+      if (!nodeIds.has(nodeId)) issues.push(`${where}.${end}Node: no node "${String(nodeId)}"`);
+      const side = edge[`${end}Side`];
+      if (side !== undefined && !SIDES.includes(side)) {
+        issues.push(`${where}.${end}Side: must be one of ${SIDES.join(', ')}`);
+      }
+      const tip = edge[`${end}End`];
+      if (tip !== undefined && !ENDS.includes(tip)) {
+        issues.push(`${where}.${end}End: must be one of ${ENDS.join(', ')}`);
+      }
+    }
+    checkColor(where, edge.color);
+    checkString(`${where}.label`, edge.label, false);
+  });
+
+  return issues;
+}
+
+/** A 16-hex-digit id, the form Obsidian gives new nodes and edges, unused in `canvas`. */
+export function newCanvasId(canvas: CanvasData): string {
+  const used = new Set([...canvas.nodes.map(n => n.id), ...canvas.edges.map(e => e.id)]);
+  for (;;) {
+    let id = '';
+    for (let i = 0; i < 16; i++) id += Math.floor(Math.random() * 16).toString(16);
+    if (!used.has(id)) return id;
+  }
+}
+
+/** The smallest rectangle around `nodes`, or undefined for none. */
+export function boundingBox(nodes: CanvasNode[]): { x: number; y: number; width: number; height: number } | undefined {
+  if (nodes.length === 0) return undefined;
+  const left = Math.min(...nodes.map(n => n.x));
+  const top = Math.min(...nodes.map(n => n.y));
+  const right = Math.max(...nodes.map(n => n.x + n.width));
+  const bottom = Math.max(...nodes.map(n => n.y + n.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/** Whether `node` lies entirely inside `group` — what Obsidian moves along with a group. */
+export function isInside(node: CanvasNode, group: CanvasNode): boolean {
+  return node !== group &&
+    node.x >= group.x && node.y >= group.y &&
+    node.x + node.width <= group.x + group.width &&
+    node.y + node.height <= group.y + group.height;
+}
+
+/**
+ * Positions for `count` new cards of `size` in a grid of `columns` (square
+ * by default), left-aligned below whatever `existing` already holds so a
+ * layout never covers earlier work.
+ */
+export function autoLayout(
+  existing: CanvasNode[],
+  count: number,
+  options: { columns?: number; width?: number; height?: number } = {}
+): Array<{ x: number; y: number }> {
+  const width = options.width ?? DEFAULT_NODE_SIZE.width;
+  const height = options.height ?? DEFAULT_NODE_SIZE.height;
+  const columns = Math.max(1, Math.floor(options.columns ?? Math.ceil(Math.sqrt(count))));
+  const box = boundingBox(existing);
+  const originX = box ? box.x : 0;
+  const originY = box ? box.y + box.height + LAYOUT_GAP * 2 : 0;
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: originX + (i % columns) * (width + LAYOUT_GAP),
+    y: originY + Math.floor(i / columns) * (height + LAYOUT_GAP),
+  }));
+}
+
+/**
+ * Link targets written in Markdown text: `[[wikilinks]]` and `![[embeds]]`
+ * without their alias or heading, and relative Markdown links. Targets are
+ * returned as written; resolving them is the caller's job.
+ */
+export function linkTargets(text: string): string[] {
+  const targets: string[] = [];
+  for (const match of text.matchAll(/!?\[\[([^\]|#^]*)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g)) {
+    if (match[1].trim() !== '') targets.push(match[1].trim());
+  }
+  for (const match of text.matchAll(/!?\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g)) {
+    const target = match[1];
+    if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith('#')) continue;
+    try {
+      targets.push(decodeURIComponent(target.split('#')[0]));
+    } catch {
+      targets.push(target.split('#')[0]);
+    }
+  }
+  return targets;
+}
+
+/**
+ * What a canvas links to: the path of every file card, and the link targets
+ * written in text cards (unresolved — see `linkTargets`). Duplicates count.
+ */
+export function canvasReferences(canvas: CanvasData): { files: string[]; links: string[] } {
+  const files: string[] = [];
+  const links: string[] = [];
+  for (const node of canvas.nodes) {
+    if (node?.type === 'file' && typeof node.file === 'string') files.push(node.file);
+    if (node?.type === 'text' && typeof node.text === 'string') links.push(...linkTargets(node.text));
+  }
+  return { files, links };
+}
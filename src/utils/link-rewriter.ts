@@ -0,0 +1,351 @@
+/**
+ * Find, resolve and rewrite the internal links in a note, for link-aware
+ * `vault.move`/`vault.rename` and heading renames (`edit.patch`).
+ *
+ * Covers `[[wikilinks]]`, `![[embeds]]`, `[[note#heading]]`,
+ * `[[note#^block]]`, `[[note|alias]]` and Markdown links `[text](path.md)`,
+ * outside fenced code and inline code. Resolution follows Obsidian: a
+ * Markdown link is tried relative to the linking note first; otherwise a
+ * link matches a vault path exactly or by its trailing segments, preferring
+ * the linking note's own folder and then the shortest path.
+ *
+ * Rewritten links keep their form — alias, heading or block, embed marker,
+ * `.md` extension, `%20` encoding and relative or absolute path — and a
+ * wikilink written as a bare name stays a bare name while that still
+ * resolves to the same note.
+ */
+
+export interface NoteLink {
+  /** 1-based line number. */
+  line: number;
+  /** Offsets of `raw` within the line. */
+  start: number;
+  end: number;
+  raw: string;
+  kind: 'wikilink' | 'markdown';
+  embed: boolean;
+  /** The linked path as written, decoded; `''` for a link within the note. */
+  target: string;
+  /** `#Heading`, `#A#B` or `#^block` as written (still encoded in a Markdown link), or `''`. */
+  subpath: string;
+  /** Wikilink: `|alias` as written. Markdown: the link text. */
+  display: string;
+  /** Markdown: the ` "title"` part, and whether the destination was in `<…>`. */
+  title?: string;
+  angle?: boolean;
+}
+
+export interface LineChange {
+  line: number;
+  before: string;
+  after: string;
+}
+
+/** Resolve a link target written in `sourcePath` to a vault path. */
+export type LinkResolver = (link: Pick<NoteLink, 'kind' | 'target'>, sourcePath: string) => string | undefined;
+
+const WIKILINK = /(!?)\[\[([^[\]|]*?)(\|[^[\]]*)?\]\]/g;
+const MARKDOWN_LINK = /(!?)\[([^\]]*)\]\((<[^>]*>|[^)\s]+)((?:\s+"[^"]*")?)\)/g;
+const FENCE = /^\s*(```|~~~)/;
+const SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Blank out inline code spans so links inside them are not matched. */
+function maskInlineCode(line: string): string {
+  return line.replace(/(`+)[^`]*?\1/g, span => ' '.repeat(span.length));
+}
+
+function splitSubpath(reference: string): { target: string; subpath: string } {
+  const hash = reference.indexOf('#');
+  return hash === -1
+    ? { target: reference, subpath: '' }
+    : { target: reference.slice(0, hash), subpath: reference.slice(hash) };
+}
+
+/** Every internal link in `content`, in order. External URLs are skipped. */
+export function findLinks(content: string): NoteLink[] {
+  const links: NoteLink[] = [];
+  let fence: string | undefined;
+
+  content.split('\n').forEach((text, i) => {
+    const marker = FENCE.exec(text)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+      return;
+    }
+    if (marker) {
+      fence = marker;
+      return;
+    }
+    const line = maskInlineCode(text);
+
+    for (const match of line.matchAll(WIKILINK)) {
+      const { target, subpath } = splitSubpath(match[2]);
+      if (target.trim() === '' && subpath === '') continue;
+      links.push({
+        line: i + 1,
+        start: match.index,
+        end: match.index + match[0].length,
+        raw: match[0],
+        kind: 'wikilink',
+        embed: match[1] === '!',
+        target: target.trim(),
+        subpath,
+        display: match[3] ?? '',
+      });
+    }
+
+    for (const match of line.matchAll(MARKDOWN_LINK)) {
+      const angle = match[3].startsWith('<');
+      const destination = angle ? match[3].slice(1, -1) : match[3];
+      if (SCHEME.test(destination)) continue;
+      const { target, subpath } = splitSubpath(destination);
+      if (target === '' && subpath === '') continue;
+      links.push({
+        line: i + 1,
+        start: match.index,
+        end: match.index + match[0].length,
+        raw: match[0],
+        kind: 'markdown',
+        embed: match[1] === '!',
+        target: decode(target),
+        subpath,
+        display: match[2],
+        title: match[4],
+        angle,
+      });
+    }
+  });
+
+  return links.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+const folderOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+const withoutMd = (path: string) => path.replace(/\.md$/i, '');
+
+/** Join and normalize `a/b/../c` style paths; undefined if it climbs out of the vault. */
+function joinPath(folder: string, relative: string): string | undefined {
+  const parts: string[] = folder ? folder.split('/') : [];
+  for (const part of relative.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return undefined;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+}
+
+/** `to` relative to the folder `from`, as a Markdown link writes it. */
+function relativePath(from: string, to: string): string {
+  const fromParts = from ? from.split('/') : [];
+  const toParts = to.split('/');
+  let common = 0;
+  while (common < fromParts.length && common < toParts.length - 1 && fromParts[common] === toParts[common]) common++;
+  return [...Array<string>(fromParts.length - common).fill('..'), ...toParts.slice(common)].join('/');
+}
+
+/**
+ * A resolver over a fixed list of vault paths, as Obsidian's link resolution
+ * would see them. Obsidian ignores case; `caseSensitive` resolves only links
+ * written with their file's exact case, as case-sensitive tools would.
+ */
+export function createLinkResolver(paths: string[], options: { caseSensitive?: boolean } = {}): LinkResolver {
+  const fold = options.caseSensitive ? (text: string) => text : (text: string) => text.toLowerCase();
+  const exact = new Map<string, string>();
+  for (const path of paths) exact.set(fold(path), path);
+
+  const lookup = (candidate: string): string | undefined =>
+    exact.get(fold(candidate)) ?? exact.get(fold(`${candidate}.md`));
+
+  return (link, sourcePath) => {
+    const target = link.target.replace(/^\.\//, '');
+    if (target === '') return sourcePath;
+
+    if (link.kind === 'markdown' && !target.startsWith('/')) {
+      const relative = joinPath(folderOf(sourcePath), target);
+      const found = relative !== undefined ? lookup(relative) : undefined;
+      if (found) return found;
+    }
+    const absolute = lookup(target.replace(/^\/+/, ''));
+    if (absolute) return absolute;
+
+    // By trailing path segments: `Note` or `Folder/Note`
+    const suffix = `/${fold(target)}`;
+    const sourceFolder = folderOf(sourcePath);
+    const matches = paths.filter(path => {
+      const folded = fold(path);
+      return folded.endsWith(suffix) || withoutMd(folded).endsWith(suffix);
+    });
+    matches.sort((a, b) =>
+      Number(folderOf(b) === sourceFolder) - Number(folderOf(a) === sourceFolder) ||
+      a.length - b.length ||
+      a.localeCompare(b)
+    );
+    return matches[0];
+  };
+}
+
+/**
+ * `link` rewritten to point at `newPath` (and, when given, at `subpath`
+ * instead of its own), written from `sourcePath`. `resolve` must see the
+ * vault as it is after the move, so a bare name is kept only when it still
+ * reaches `newPath`.
+ */
+export function retargetLink(
+  link: NoteLink,
+  newPath: string,
+  sourcePath: string,
+  resolve: LinkResolver,
+  subpath = link.subpath
+): string {
+  const embed = link.embed ? '!' : '';
+
+  if (link.kind === 'wikilink') {
+    let target: string;
+    if (link.target === '' && newPath === sourcePath) {
+      target = '';
+    } else {
+      const keepExt = /\.md$/i.test(link.target);
+      const full = keepExt ? newPath : withoutMd(newPath);
+      const name = full.split('/').pop()!;
+      target = !link.target.includes('/') && resolve({ kind: 'wikilink', target: name }, sourcePath) === newPath
+        ? name
+        : full;
+    }
+    return `${embed}[[${target}${subpath}${link.display}]]`;
+  }
+
+  let target: string;
+  if (link.target === '' && newPath === sourcePath) {
+    target = '';
+  } else {
+    const path = /\.md$/i.test(link.target) || !/\.md$/i.test(newPath) ? newPath : withoutMd(newPath);
+    target = link.target.startsWith('/') ? `/${path}` : relativePath(folderOf(sourcePath), path);
+  }
+  const destination = link.angle ? `<${target}${subpath}>` : `${target.replace(/ /g, '%20')}${subpath}`;
+  return `${embed}[${link.display}](${destination}${link.title ?? ''})`;
+}
+
+/** `link` as written, with its subpath (`#Heading`, `#^block` or `''`) swapped for `subpath`. */
+export function replaceSubpath(link: NoteLink, subpath: string): string {
+  if (link.subpath === '') {
+    // Insert after the target: before `|alias]]`, `]]`, or the Markdown destination's end
+    const at = link.kind === 'wikilink'
+      ? link.raw.length - 2 - link.display.length
+      : link.raw.length - 1 - (link.title ?? '').length - (link.angle ? 1 : 0);
+    return link.raw.slice(0, at) + subpath + link.raw.slice(at);
+  }
+  const at = link.raw.indexOf(link.subpath, link.kind === 'markdown' ? link.raw.indexOf('](') : 0);
+  return link.raw.slice(0, at) + subpath + link.raw.slice(at + link.subpath.length);
+}
+
+/**
+ * Apply `rewrite` to every link in `content`; it returns the replacement
+ * text, or undefined to leave a link alone. Returns the new content and the
+ * lines that changed.
+ */
+export function rewriteLinks(
+  content: string,
+  rewrite: (link: NoteLink) => string | undefined
+): { content: string; changes: LineChange[] } {
+  const lines = content.split('\n');
+  const changes: LineChange[] = [];
+  const byLine = new Map<number, Array<{ link: NoteLink; text: string }>>();
+
+  for (const link of findLinks(content)) {
+    const text = rewrite(link);
+    if (text === undefined || text === link.raw) continue;
+    const entries = byLine.get(link.line) ?? [];
+    entries.push({ link, text });
+    byLine.set(link.line, entries);
+  }
+
+  for (const [line, entries] of byLine) {
+    const before = lines[line - 1];
+    let after = before;
+    for (const { link, text } of [...entries].sort((a, b) => b.link.start - a.link.start)) {
+      after = after.slice(0, link.start) + text + after.slice(link.end);
+    }
+    lines[line - 1] = after;
+    changes.push({ line, before, after });
+  }
+
+  return { content: lines.join('\n'), changes: changes.sort((a, b) => a.line - b.line) };
+}
+
+/** The headings and `^block` ids in `content` that a link can point at, outside fenced code. */
+export function noteAnchors(content: string): { headings: string[]; blocks: string[] } {
+  const headings: string[] = [];
+  const blocks: string[] = [];
+  let fence: string | undefined;
+
+  for (const text of content.split('\n')) {
+    const marker = FENCE.exec(text)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+      continue;
+    }
+    if (marker) {
+      fence = marker;
+      continue;
+    }
+    const heading = /^#{1,6}\s+(.+)$/.exec(text);
+    if (heading) headings.push(heading[1].trim());
+    const block = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/.exec(text);
+    if (block) blocks.push(block[1]);
+  }
+
+  return { headings, blocks };
+}
+
+/**
+ * Heading text as Obsidian compares it in a `#heading` link: case, runs of
+ * whitespace and the characters a link cannot carry are ignored.
+ */
+export function headingKey(heading: string): string {
+  return heading.replace(/[#^|[\]:%]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * `subpath` with its last heading renamed from `oldHeading` to `newHeading`,
+ * or undefined when it does not name that heading. A Markdown link's
+ * subpath is URL-encoded, so it is compared decoded and re-encoded.
+ */
+export function renameHeadingInSubpath(
+  subpath: string,
+  oldHeading: string,
+  newHeading: string,
+  kind: NoteLink['kind']
+): string | undefined {
+  if (subpath === '' || subpath.startsWith('#^')) return undefined;
+  const parts = subpath.slice(1).split('#');
+  const last = kind === 'markdown' ? decode(parts[parts.length - 1]) : parts[parts.length - 1];
+  if (headingKey(last) !== headingKey(oldHeading)) return undefined;
+  parts[parts.length - 1] = kind === 'markdown' ? newHeading.replace(/ /g, '%20') : newHeading;
+  return `#${parts.join('#')}`;
+}
+
+/**
+ * Lines that differ between two versions of a note. Only meaningful when
+ * the line count is unchanged, as it is for link rewrites; otherwise empty.
+ */
+export function changedLines(before: string, after: string): LineChange[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (a.length !== b.length) return [];
+  const changes: LineChange[] = [];
+  a.forEach((line, i) => {
+    if (line !== b[i]) changes.push({ line: i + 1, before: line, after: b[i] });
+  });
+  return changes;
+}
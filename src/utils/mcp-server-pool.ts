@@ -2,8 +2,13 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   type CallToolResult
 } from '@modelcontextprotocol/sdk/types.js';
 import { EventEmitter } from 'events';
@@ -13,6 +18,14 @@ import { SecureObsidianAPI } from '../security/secure-obsidian-api';
 import { createSemanticTools } from '../tools/semantic-tools';
 import { DataviewTool, isDataviewToolAvailable } from '../tools/dataview-tool';
 import { getVersion } from '../version';
+import { OperationJournal } from './operation-journal';
+import { getMimeType, isImageFile as isImagePath } from './image-handler';
+import { isImageFile } from '../types/obsidian';
+import { listPromptTemplates, renderPromptTemplate } from './prompt-templates';
+import { RateLimiter, RateLimitError, normalizeRateLimits, type RateLimitCost, type RateLimits } from '../security/rate-limiter';
+import { AuditLog, type AuditOutcome } from '../security/audit-log';
+import type { ApiKeyScope } from '../security/http-auth';
+import type { SecurityScope } from '../security/vault-security-manager';
 import type { SessionManager } from './session-manager';
 import type { ConnectionPool } from './connection-pool';
 
@@ -23,12 +36,16 @@ interface PluginWithSettings {
   settings?: {
     readOnlyMode?: boolean;
     enableWebFetch?: boolean;
+    enableDataviewJs?: boolean;
     // From SecurePluginRef (for SecureObsidianAPI)
     security?: Partial<import('../security/vault-security-manager').SecuritySettings>;
     // From ObsidianAPIPluginRef (for ObsidianAPI)
     validation?: Partial<import('../validation/input-validator').ValidationConfig>;
     httpPort?: number;
     toolVisibility?: Record<string, boolean>;
+    /** Vault folder whose notes are served as MCP prompts; empty disables. */
+    promptsFolder?: string;
+    scopedApiKeys?: ApiKeyScope[];
   };
   ignoreManager?: import('../security/mcp-ignore-manager').MCPIgnoreManager;
   mcpServer?: { isServerRunning(): boolean; getConnectionCount(): number };
@@ -41,6 +58,69 @@ interface PooledServer {
   createdAt: number;
   lastActivityAt: number;
   requestCount: number;
+  /** Resource URIs this session asked to be told about (`resources/subscribe`). */
+  subscriptions: Set<string>;
+  /** The session's own API, whose scope decides which notes it may hear about. */
+  api: ObsidianAPI;
+  /** Name of the scoped API key the session was opened with; undefined for the main key. */
+  keyName?: string;
+}
+
+/**
+ * What a session gets when its scoped key has been deleted or renamed since
+ * it connected: nothing. Revoking a key must not leave its sessions running.
+ */
+const REVOKED_SCOPE: SecurityScope = {
+  permissions: { read: false, create: false, update: false, delete: false, move: false, rename: false, execute: false }
+};
+
+/** Vault files are exposed as `obsidian://note/{path}` resources. */
+const NOTE_URI_PREFIX = 'obsidian://note/';
+const NOTE_URI_TEMPLATE = 'obsidian://note/{path}';
+/** Resources returned per `resources/list` page. */
+const RESOURCE_PAGE_SIZE = 100;
+
+/** Each path segment is encoded on its own so the `/` separators stay readable. */
+function noteUri(path: string): string {
+  return NOTE_URI_PREFIX + path.split('/').map(encodeURIComponent).join('/');
+}
+
+function notePathFromUri(uri: string): string | null {
+  if (!uri.startsWith(NOTE_URI_PREFIX)) return null;
+  try {
+    const path = uri.slice(NOTE_URI_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+    return path.length > 0 ? path : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Rate-limit subjects: a call counts against its session and its API key. */
+const MAIN_KEY_SUBJECT = 'key';
+function sessionSubject(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+function keySubject(keyName?: string): string {
+  return keyName === undefined ? MAIN_KEY_SUBJECT : `key:${keyName}`;
+}
+
+/** The `error.code` of a structured tool error result, when it has one. */
+function toolErrorCode(result: CallToolResult): string | undefined {
+  const first = result.content[0];
+  if (first?.type !== 'text') return undefined;
+  try {
+    const code = (JSON.parse(first.text) as { error?: { code?: unknown } }).error?.code;
+    return typeof code === 'string' ? code : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function noteMimeType(path: string): string {
+  if (isImagePath(path)) return getMimeType(path);
+  if (path.endsWith('.md')) return 'text/markdown';
+  if (path.endsWith('.canvas')) return 'application/json';
+  return 'text/plain';
 }
 
 export class MCPServerPool extends EventEmitter {
@@ -53,6 +133,7 @@ export class MCPServerPool extends EventEmitter {
   // ADR-107: agent-visible warning string injected into MCP initialize.instructions
   // when the network exposure verdict is 'jail'. Null otherwise (no field sent).
   private initializeInstructions: string | null = null;
+  private rateLimiter = new RateLimiter();
 
   constructor(obsidianAPI: ObsidianAPI | SecureObsidianAPI, maxServers: number = 32, plugin?: PluginWithSettings) {
     super();
@@ -82,18 +163,37 @@ export class MCPServerPool extends EventEmitter {
    * Build the currently-visible tool set from live plugin settings.
    *
    * Called per request rather than once per session so a settings toggle
-   * applies to sessions that already exist. `enableWebFetch` is passed
-   * explicitly as a boolean — `createSemanticTools` fails closed on an omitted
-   * flag, and this keeps the intent visible at the call site (ADR-109).
+   * applies to sessions that already exist. `enableWebFetch` and
+   * `enableDataviewJs` are passed explicitly as booleans — `createSemanticTools`
+   * fails closed on an omitted flag, and this keeps the intent visible at the
+   * call site (ADR-109).
    */
-  private buildTools() {
+  private buildTools(keyName?: string) {
     return createSemanticTools(
       this.obsidianAPI,
-      this.plugin?.settings?.toolVisibility,
-      this.plugin?.settings?.enableWebFetch === true
+      this.toolVisibilityFor(keyName),
+      this.plugin?.settings?.enableWebFetch === true,
+      this.plugin?.settings?.enableDataviewJs === true
     );
   }
 
+  /** Live scope of a scoped API key, looked up by name on every call. */
+  private findScope(keyName: string): ApiKeyScope | undefined {
+    return this.plugin?.settings?.scopedApiKeys?.find(scope => scope.name === keyName);
+  }
+
+  /**
+   * The global tool visibility, narrowed by the key's own. Only the key's
+   * `false` entries are applied, so a key cannot re-enable a hidden tool.
+   */
+  private toolVisibilityFor(keyName?: string): Record<string, boolean> | undefined {
+    const global = this.plugin?.settings?.toolVisibility;
+    if (keyName === undefined) return global;
+    const hidden = Object.entries(this.findScope(keyName)?.toolVisibility ?? {})
+      .filter(([, visible]) => visible === false);
+    return { ...global, ...Object.fromEntries(hidden) };
+  }
+
   /**
    * Tell every live session its tool list changed, so clients re-fetch instead
    * of holding the list they cached at connection time (#285).
@@ -116,11 +216,97 @@ export class MCPServerPool extends EventEmitter {
   }
 
   /**
-   * Get or create an MCP server for a session
+   * Tell sessions subscribed to a note that it changed, deleted or moved away
+   * (`notifications/resources/updated`). Called from the plugin's vault events,
+   * so it covers edits made in Obsidian as well as through MCP.
+   *
+   * Best-effort like notifyToolListChanged: a session whose transport is gone
+   * is logged and skipped.
+   */
+  notifyResourceUpdated(path: string): void {
+    const uri = noteUri(path);
+    for (const [sessionId, pooled] of this.servers) {
+      // The key's scope may have narrowed since the subscription was made
+      if (!pooled.subscriptions.has(uri) || !pooled.api.isReadable(path)) continue;
+      pooled.server.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        Debug.error(`[Session ${sessionId}] resources/updated notify failed:`, error);
+      });
+    }
+  }
+
+  /**
+   * Tell every live session the resource list changed (a note was created,
+   * deleted or renamed), so clients re-page `resources/list`.
+   */
+  notifyResourceListChanged(): void {
+    for (const [sessionId, pooled] of this.servers) {
+      try {
+        pooled.server.sendResourceListChanged();
+      } catch (error: unknown) {
+        Debug.error(`[Session ${sessionId}] resources/list_changed notify failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Tell every live session the prompt list changed (a template in the prompts
+   * folder was added, edited, removed, or the folder setting changed).
+   */
+  notifyPromptListChanged(): void {
+    for (const [sessionId, pooled] of this.servers) {
+      try {
+        pooled.server.sendPromptListChanged();
+      } catch (error: unknown) {
+        Debug.error(`[Session ${sessionId}] prompts/list_changed notify failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * The quotas in force, read from live settings per call; null while
+   * `security.rateLimitEnabled` is off.
    */
-  getOrCreateServer(sessionId: string): McpServer {
+  private activeRateLimits(): RateLimits | null {
+    const security = this.plugin?.settings?.security;
+    return security?.rateLimitEnabled === true ? normalizeRateLimits(security.rateLimits) : null;
+  }
+
+  /**
+   * Charge `cost` to the session and its key, or describe why it was refused.
+   * Nothing is charged, and null returned, while rate limiting is off.
+   */
+  private chargeRateLimits(sessionId: string, keyName: string | undefined, cost: RateLimitCost): RateLimitError | null {
+    const limits = this.activeRateLimits();
+    if (!limits) return null;
+    const decision = this.rateLimiter.consume([sessionSubject(sessionId), keySubject(keyName)], cost, limits);
+    if (decision.allowed) return null;
+
+    const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+    const scope = decision.subject === sessionSubject(sessionId) ? 'session' : 'apiKey';
+    Debug.log(`⏳ [Session ${sessionId}] Rate limited (${scope} ${decision.limit}), retry after ${retryAfter}s`);
+    return new RateLimitError(
+      `Rate limit exceeded for this ${scope === 'session' ? 'session' : 'API key'}: ${decision.limit} is ${decision.max}. Retry after ${retryAfter}s.`,
+      { scope, limit: decision.limit, max: decision.max, retryAfter }
+    );
+  }
+
+  /**
+   * Get or create an MCP server for a session.
+   *
+   * @param keyName - Scoped API key the request authenticated with. A pooled
+   *   server built for a different key is replaced rather than reused, so a
+   *   session id never carries one key's reach over to another.
+   */
+  getOrCreateServer(sessionId: string, keyName?: string): McpServer {
     // Check if server exists
     let pooledServer = this.servers.get(sessionId);
+
+    if (pooledServer && pooledServer.keyName !== keyName) {
+      Debug.log(`🔑 Session ${sessionId} re-opened with a different API key; replacing its server`);
+      this.servers.delete(sessionId);
+      this.rateLimiter.forget(sessionSubject(sessionId));
+      pooledServer = undefined;
+    }
     
     if (pooledServer) {
       // Update activity
@@ -137,14 +323,17 @@ export class MCPServerPool extends EventEmitter {
     }
 
     // Create new server
-    const server = this.createNewServer(sessionId);
+    const { server, api } = this.createNewServer(sessionId, keyName);
     
     pooledServer = {
       server,
       sessionId,
       createdAt: Date.now(),
       lastActivityAt: Date.now(),
-      requestCount: 1
+      requestCount: 1,
+      subscriptions: new Set(),
+      api,
+      keyName
     };
     
     this.servers.set(sessionId, pooledServer);
@@ -156,7 +345,7 @@ export class MCPServerPool extends EventEmitter {
   /**
    * Create a new MCP server instance with handlers
    */
-  private createNewServer(sessionId: string): McpServer {
+  private createNewServer(sessionId: string, keyName?: string): { server: McpServer; api: ObsidianAPI } {
       // Construct via McpServer (the non-deprecated class) and register our
       // raw JSON-Schema handlers on its underlying .server — the advanced
       // low-level handle it deliberately exposes — so the deprecated Server
@@ -173,7 +362,11 @@ export class MCPServerPool extends EventEmitter {
           // (settings toggles). Without the declaration a spec-compliant client
           // is entitled to ignore the notification.
           tools: { listChanged: true },
-          resources: {}
+          // Vault files are listed as obsidian://note/{path}; a subscribed note
+          // pushes notifications/resources/updated when it changes.
+          resources: { subscribe: true, listChanged: true },
+          // Prompt templates are notes in the prompts folder (prompt-templates.ts)
+          prompts: { listChanged: true }
         },
         // ADR-107: agent-visible network-exposure warning, only set when 🔴
         ...(this.initializeInstructions ? { instructions: this.initializeInstructions } : {})
@@ -198,14 +391,23 @@ export class MCPServerPool extends EventEmitter {
         );
       }
 
-      // Main API is SecureObsidianAPI - create matching secure instance
-      sessionAPI = new SecureObsidianAPI(
+      // Main API is SecureObsidianAPI - create matching secure instance. A
+      // scoped key's restrictions are resolved by name per operation, so
+      // editing or deleting the key reaches this session too.
+      const secureAPI = new SecureObsidianAPI(
         this.obsidianAPI.getApp(),
         undefined,
         this.plugin,
-        this.obsidianAPI.getSecuritySettings()
+        this.obsidianAPI.getSecuritySettings(),
+        keyName === undefined ? undefined : () => this.findScope(keyName) ?? REVOKED_SCOPE
       );
-      Debug.log(`🔐 Created secure session API for session ${sessionId}`);
+      // Writes and deletes are charged as they happen, not guessed from arguments
+      secureAPI.setWriteMeter(cost => {
+        const refusal = this.chargeRateLimits(sessionId, keyName, cost);
+        if (refusal) throw refusal;
+      });
+      sessionAPI = secureAPI;
+      Debug.log(`🔐 Created secure session API for session ${sessionId}${keyName ? ` (API key "${keyName}")` : ''}`);
     } else {
       // Previously this fell back to a plain ObsidianAPI and logged "(no
       // security)" — a session with NOTHING between it and vault writes: no
@@ -231,7 +433,7 @@ export class MCPServerPool extends EventEmitter {
     server.setRequestHandler(ListToolsRequestSchema, () => {
       Debug.log(`📋 [Session ${sessionId}] Listing available tools`);
       return {
-        tools: this.buildTools().map(tool => ({
+        tools: this.buildTools(keyName).map(tool => ({
           name: tool.name,
           description: tool.description,
           inputSchema: tool.inputSchema
@@ -243,9 +445,20 @@ export class MCPServerPool extends EventEmitter {
     server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
       const { name, arguments: args } = request.params;
       Debug.log(`🔧 [Session ${sessionId}] Executing tool: ${name}`, args);
+      const action = typeof args?.action === 'string' ? args.action : undefined;
+      const audit = (outcome: AuditOutcome, reason?: string) => AuditLog.getInstance().record({
+        event: 'tool_call',
+        sessionId,
+        keyName,
+        operation: action ? `${name}.${action}` : name,
+        path: typeof args?.path === 'string' ? args.path : undefined,
+        outcome,
+        reason
+      });
 
-      const tool = this.buildTools().find(t => t.name === name);
+      const tool = this.buildTools(keyName).find(t => t.name === name);
       if (!tool) {
+        audit('error', 'UNKNOWN_TOOL');
         return {
           content: [{
             type: 'text',
@@ -255,11 +468,40 @@ export class MCPServerPool extends EventEmitter {
         };
       }
 
+      // The call itself is charged on arrival, against both the session and the
+      // key it authenticated with; its writes are charged by the session API.
+      const refusal = this.chargeRateLimits(sessionId, keyName, { bytesWritten: 0, deletes: 0 });
+      if (refusal) {
+        audit('rate_limited', refusal.details.limit);
+        const { retryAfter, ...details } = refusal.details;
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: { code: refusal.code, message: refusal.message, retryAfter, details }
+            }, null, 2)
+          }],
+          isError: true
+        };
+      }
+
       try {
-        const result = await tool.handler(sessionAPI, args ?? {});
-        return result as CallToolResult;
+        // Journal entries written during this call carry the session and call.
+        // So do audit entries, including the security decisions made inside it.
+        const result = await OperationJournal.runInContext(
+          { sessionId, keyName, tool: name, action, args: args ?? {} },
+          () => tool.handler(sessionAPI, args ?? {})
+        ) as CallToolResult;
+        if (result.isError) {
+          const code = toolErrorCode(result);
+          audit(code === 'RATE_LIMITED' ? 'rate_limited' : 'error', code);
+        } else {
+          audit('success');
+        }
+        return result;
       } catch (error: unknown) {
         Debug.error(`[Session ${sessionId}] Tool execution error (${name}):`, error);
+        audit('error', error instanceof Error ? error.message : String(error));
         return {
           content: [{
             type: 'text',
@@ -270,6 +512,23 @@ export class MCPServerPool extends EventEmitter {
       }
     });
 
+    // Prompts are read per request from the folder named in live settings, so
+    // editing a template or changing the folder needs no reconnect.
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      Debug.log(`📋 [Session ${sessionId}] Listing prompt templates`);
+      const prompts = await listPromptTemplates(sessionAPI, this.plugin?.settings?.promptsFolder ?? '');
+      return { prompts };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: promptArgs } = request.params;
+      Debug.log(`💬 [Session ${sessionId}] Rendering prompt: ${name}`);
+      const { description, messages } = await renderPromptTemplate(
+        sessionAPI, this.plugin?.settings?.promptsFolder ?? '', name, promptArgs
+      );
+      return { description, messages };
+    });
+
     // Build resources list
     const resources = [
       {
@@ -300,17 +559,72 @@ export class MCPServerPool extends EventEmitter {
       });
     }
 
-    // List resources handler
-    server.setRequestHandler(ListResourcesRequestSchema, () => {
+    // List resources handler: the fixed resources, then every vault file the
+    // session may read (its key's path scope as well as .mcpignore), paged by
+    // an offset cursor.
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
       Debug.log(`📋 [Session ${sessionId}] Listing available resources`);
-      return { resources };
+      const cursor = request.params?.cursor;
+      const offset = cursor === undefined ? 0 : Number(cursor);
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+      }
+
+      // listFiles already leaves out what the session may not read
+      const readable = await sessionAPI.listFiles();
+      const notes = readable.map(path => ({
+        uri: noteUri(path),
+        name: path,
+        mimeType: noteMimeType(path)
+      }));
+      const all = [...resources, ...notes];
+      const end = offset + RESOURCE_PAGE_SIZE;
+      return {
+        resources: all.slice(offset, end),
+        ...(end < all.length ? { nextCursor: String(end) } : {})
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => ({
+      resourceTemplates: [{
+        uriTemplate: NOTE_URI_TEMPLATE,
+        name: 'Vault note',
+        description: 'Any file in the vault by its vault-relative path (segments URI-encoded)'
+      }]
+    }));
+
+    server.setRequestHandler(SubscribeRequestSchema, (request) => {
+      const { uri } = request.params;
+      const path = notePathFromUri(uri);
+      if (path === null || !sessionAPI.isReadable(path)) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+      this.servers.get(sessionId)?.subscriptions.add(uri);
+      Debug.log(`🔔 [Session ${sessionId}] Subscribed to ${uri}`);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      this.servers.get(sessionId)?.subscriptions.delete(request.params.uri);
+      return {};
     });
 
     // Read resource handler
-    server.setRequestHandler(ReadResourceRequestSchema, (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
       Debug.log(`📖 [Session ${sessionId}] Reading resource: ${uri}`);
 
+      const notePath = notePathFromUri(uri);
+      if (notePath !== null) {
+        // Through the session API, so permissions and .mcpignore apply.
+        const file = await sessionAPI.getFile(notePath);
+        return {
+          contents: [isImageFile(file)
+            ? { uri, mimeType: file.mimeType, blob: file.base64Data }
+            : { uri, mimeType: noteMimeType(notePath), text: file.content }]
+        };
+      }
+
       if (uri === 'obsidian://vault-info') {
         const app = this.obsidianAPI.getApp();
         const vaultName = app.vault.getName();
@@ -357,6 +671,7 @@ export class MCPServerPool extends EventEmitter {
         const sessionStats = this.sessionManager.getStats();
         const poolStats = this.connectionPool?.getStats();
         const serverPoolStats = this.getStats();
+        const rateLimits = this.activeRateLimits();
 
         interface SessionDataItem {
           sessionId: string;
@@ -412,6 +727,12 @@ export class MCPServerPool extends EventEmitter {
             poolUtilization: `${Math.round(poolStats.utilization * 100)}%`
           } : null,
           sessions: sessionData,
+          rateLimits: {
+            enabled: rateLimits !== null,
+            ...(rateLimits ? { limits: rateLimits } : {}),
+            session: this.rateLimiter.getUsage(sessionSubject(sessionId)),
+            apiKey: { name: keyName ?? null, ...this.rateLimiter.getUsage(keySubject(keyName)) }
+          },
           settings: {
             sessionTimeout: '1 hour',
             maxConcurrentConnections: this.maxServers
@@ -441,7 +762,7 @@ export class MCPServerPool extends EventEmitter {
       throw new Error(`Unknown resource: ${uri}`);
     });
 
-    return mcpServer;
+    return { server: mcpServer, api: sessionAPI };
   }
 
   /**
@@ -460,6 +781,7 @@ export class MCPServerPool extends EventEmitter {
 
     if (oldestSessionId) {
       this.servers.delete(oldestSessionId);
+      this.rateLimiter.forget(sessionSubject(oldestSessionId));
       Debug.log(`🗑️ Evicted oldest MCP server: ${oldestSessionId}`);
       this.emit('server-evicted', { sessionId: oldestSessionId });
     }
@@ -492,5 +814,6 @@ export class MCPServerPool extends EventEmitter {
   shutdown(): void {
     Debug.log(`🛑 Shutting down MCP server pool (${this.servers.size} servers)`);
     this.servers.clear();
+    this.rateLimiter = new RateLimiter();
   }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { isImageFile as checkIsImageFile, processImageResponse, IMAGE_PROCESSING
 import { getVersion } from '../version';
 import { SearchResult } from './advanced-search';
 import { SearchFacade } from './search-facade';
+import { FieldBoosts, normalizeFieldBoosts } from '../indexing/bm25f';
 import { MCPIgnoreManager } from '../security/mcp-ignore-manager';
 import { Debug } from './debug';
 import { BasesAPI } from './bases-api';
@@ -17,15 +18,20 @@ interface ObsidianAPIMCPServerInfo {
   getConnectionCount(): number;
 }
 
+/** The kinds of vault write `checkWrite` can vet, one per security permission. */
+export type WriteKind = 'create' | 'update' | 'delete' | 'move' | 'rename';
+
 /** Minimal plugin interface for ObsidianAPI dependency */
 export interface ObsidianAPIPluginRef {
   settings?: {
     validation?: Partial<ValidationConfig>;
     enableWebFetch?: boolean;
+    enableDataviewJs?: boolean;
     httpEnabled?: boolean;
     httpsEnabled?: boolean;
     httpPort?: number;
     httpsPort?: number;
+    searchBoosts?: Partial<FieldBoosts>;
   };
   ignoreManager?: MCPIgnoreManager;
   mcpServer?: ObsidianAPIMCPServerInfo;
@@ -86,8 +92,8 @@ export class ObsidianAPI {
     this.config = config || { apiKey: '', apiUrl: '' };
     this.plugin = plugin;
     this.ignoreManager = plugin?.ignoreManager;
-    this.basesAPI = new BasesAPI(app);
-    this.searchFacade = new SearchFacade(app);
+    this.basesAPI = new BasesAPI(app, path => this.isReadable(path));
+    this.searchFacade = new SearchFacade(app, () => this.getSearchBoosts());
 
     // Initialize input validator with plugin settings or defaults
     const validationSettings: Partial<ValidationConfig> = plugin?.settings?.validation ?? {};
@@ -106,6 +112,40 @@ export class ObsidianAPI {
     return this.ignoreManager;
   }
 
+  /**
+   * Whether this API would let `path` be read. The base API only hides
+   * .mcpignore'd paths; SecureObsidianAPI applies the session's permissions
+   * and path scope as well.
+   */
+  isReadable(path: string): boolean {
+    return !this.getIgnoreManager()?.isExcluded(path);
+  }
+
+  /**
+   * `isReadable` as an exclusion list, for code that walks the vault itself
+   * (graph traversal, index ranking) rather than reading through this API.
+   */
+  getReadExclusions(): Pick<MCPIgnoreManager, 'isExcluded'> {
+    return { isExcluded: (path: string) => !this.isReadable(path) };
+  }
+
+  /**
+   * Throw if a write of this kind to `path` would be refused, without making
+   * it — for `dryRun`, whose writes never reach these methods. The base API
+   * only refuses creating an excluded path; SecureObsidianAPI runs the same
+   * validation as its own write methods.
+   */
+  async checkWrite(type: WriteKind, path: string, targetPath?: string): Promise<void> {
+    if (type === 'create' && this.ignoreManager?.isExcluded(path)) {
+      throw new Error(`Access denied: ${path}`);
+    }
+  }
+
+  /** Search ranking field boosts, read from the settings on every search. */
+  getSearchBoosts(): FieldBoosts {
+    return normalizeFieldBoosts(this.plugin?.settings?.searchBoosts);
+  }
+
   // Server info
   getServerInfo() {
     const baseInfo = {
@@ -257,15 +297,13 @@ export class ObsidianAPI {
       files = vault.getAllLoadedFiles();
     }
 
-    // Return file paths, filtering out folders and excluded paths
+    // Return file paths, filtering out folders and paths this API may not read
     const filePaths = files
-      .filter(file => file instanceof TFile)
+      .filter(file => file instanceof TFile && this.isReadable(file.path))
       .map(file => file.path)
       .sort();
 
-    // Filter out excluded paths
-    const result = this.ignoreManager ? this.ignoreManager.filterPaths(filePaths) : filePaths;
-    return Promise.resolve(result);
+    return Promise.resolve(filePaths);
   }
 
   listFilesPaginated(
@@ -317,8 +355,8 @@ export class ObsidianAPI {
       files = vault.getAllLoadedFiles();
     }
 
-    // Create detailed file objects
-    const fileObjects: FileDetailObject[] = files.map(file => {
+    // Create detailed file objects, leaving out what this API may not read
+    const fileObjects: FileDetailObject[] = files.filter(file => this.isListable(file)).map(file => {
       const isFile = file instanceof TFile;
       const result: FileDetailObject = {
         path: file.path,
@@ -353,6 +391,16 @@ export class ObsidianAPI {
     return Promise.resolve(paginateFiles(fileObjects, page, pageSize, directory));
   }
 
+  /**
+   * A file is listed when it is readable; a folder when it is, or when it
+   * holds a readable file (so a key scoped to `Daily/*` still sees `Daily`).
+   */
+  private isListable(file: TAbstractFile): boolean {
+    if (this.isReadable(file.path)) return true;
+    if (!(file instanceof TFolder)) return false;
+    return file.children.some(child => this.isListable(child));
+  }
+
   async getFile(path: string): Promise<ObsidianFileResponse> {
     // Check if path is excluded
     if (this.ignoreManager && this.ignoreManager.isExcluded(path)) {
@@ -525,8 +573,16 @@ export class ObsidianAPI {
       throw new Error(`File not found: ${path}`);
     }
 
-    let content = await this.app.vault.read(file);
+    const content = this.applyPatch(await this.app.vault.read(file), params);
+    await this.app.vault.modify(file, content);
+    return { success: true, updated_content: content };
+  }
 
+  /**
+   * The content `patchVaultFile` would write for `params`, without writing.
+   * Shared with dry-run previews so a preview and the real patch cannot drift.
+   */
+  applyPatch(content: string, params: PatchParams): string {
     // Handle structured targeting (heading, block, frontmatter)
     if (params.targetType && params.target) {
       content = this.applyStructuredPatch(content, params);
@@ -546,8 +602,7 @@ export class ObsidianAPI {
       }
     }
 
-    await this.app.vault.modify(file, content);
-    return { success: true, updated_content: content };
+    return content;
   }
 
   private applyStructuredPatch(content: string, params: PatchParams): string {
@@ -655,6 +710,12 @@ export class ObsidianAPI {
         lines.splice(targetLineIndex + 1, sectionLines, '', patchContent);
         break;
       }
+      case 'rename': {
+        // Replace the heading text, keeping its level and the section
+        const hashes = lines[targetLineIndex].match(/^#{1,6}/)![0];
+        lines[targetLineIndex] = `${hashes} ${patchContent.trim()}`;
+        break;
+      }
     }
     
     return lines.join('\n');
@@ -814,14 +875,11 @@ export class ObsidianAPI {
       strategy: strategy as 'filename' | 'content' | 'combined' | 'auto',
       includeSnippets: options?.includeSnippets ?? includeContent,
       snippetLength: options?.snippetLength,
-      ranked: options?.ranked
+      ranked: options?.ranked,
+      // Unreadable paths are skipped before ranking, so they neither fill a page nor count
+      exclude: (path: string) => !this.isReadable(path)
     });
 
-    // Apply ignore filtering to results (security concern)
-    const filteredResults = this.ignoreManager
-      ? facadeResponse.results.filter(r => !this.ignoreManager!.isExcluded(r.path))
-      : facadeResponse.results;
-
     // Convert to SearchResult format and build response
     const response: {
       query: string;
@@ -845,7 +903,7 @@ export class ObsidianAPI {
       pageSize: facadeResponse.pageSize,
       totalResults: facadeResponse.totalResults,
       totalPages: facadeResponse.totalPages,
-      results: filteredResults.map(r => ({
+      results: facadeResponse.results.map(r => ({
         path: r.path,
         title: r.title,
         score: r.score,
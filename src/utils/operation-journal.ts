@@ -0,0 +1,243 @@
+/**
+ * Persistent journal of vault mutations made through the MCP surface.
+ *
+ * Every mutating method of `SecureObsidianAPI` records an entry here with
+ * the file's content before and after, the MCP session that made the change
+ * and the tool call it came from — so a bad `vault.update` or `vault.combine`
+ * can be reverted with `vault.undo` instead of by hand or from git.
+ *
+ * Process-wide singleton (same pattern as `FileLockManager`): the plugin
+ * attaches it to a JSONL file under the plugin directory at load. Until it
+ * is attached, `record` is a no-op, so tests and API instances built outside
+ * the plugin write nothing.
+ *
+ * The session and tool call are not parameters of the API methods, so they
+ * travel in an `AsyncLocalStorage` context that the server pool opens around
+ * each tool call. Concurrent calls in one session each see their own context.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Debug } from './debug';
+
+export type JournalOperationType =
+  | 'create'
+  | 'update'
+  | 'append'
+  | 'patch'
+  | 'delete'
+  | 'move'
+  | 'rename';
+
+/** Who made a change: the MCP session and the tool call, when known. */
+export interface JournalCallContext {
+  sessionId?: string;
+  /** Scoped API key of the session; undefined for the main key. */
+  keyName?: string;
+  tool?: string;
+  action?: string;
+  /** Tool arguments, long strings truncated. */
+  args?: Record<string, unknown>;
+  /** Set while `vault.undo` runs: the entry being reverted. */
+  undoes?: string;
+  /**
+   * Set while `edit.batch` rolls back its own steps: the restores are not
+   * charged to the session's rate limits, so a limit reached partway cannot
+   * leave the vault half-restored. `vault.undo` is charged.
+   */
+  unmetered?: boolean;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: number;
+  type: JournalOperationType;
+  path: string;
+  /** Destination for move/rename. */
+  targetPath?: string;
+  /** Set when `path` was a folder: its contents are not journaled, so deleting it cannot be undone. */
+  folder?: boolean;
+  /** Content before the change; `null` when the file did not exist (or is binary). */
+  before: string | null;
+  /** Content after the change; `null` when the file no longer exists (or is binary). */
+  after: string | null;
+  sessionId?: string;
+  tool?: string;
+  action?: string;
+  args?: Record<string, unknown>;
+  undoes?: string;
+}
+
+/** Minimal storage surface — Obsidian's `DataAdapter` satisfies it. */
+export interface JournalStore {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  write(path: string, data: string): Promise<void>;
+  append(path: string, data: string): Promise<void>;
+}
+
+/**
+ * Extensions whose content the journal records as text. Anything else — PDFs,
+ * audio, archives, images — is binary: read as text it would come back
+ * corrupted on restore, so its content is recorded as `null` and cannot be
+ * reverted.
+ */
+const TEXT_EXTENSIONS = new Set([
+  'md', 'canvas', 'base', 'txt', 'json', 'css', 'js', 'ts', 'html', 'xml', 'yaml', 'yml',
+  'csv', 'tsv', 'log', 'ini', 'conf', 'toml', 'tex', 'bib', 'org', 'rst', 'py', 'sh', 'sql',
+]);
+
+/** Whether the journal records `path`'s content (see TEXT_EXTENSIONS). */
+export function isJournaledText(path: string): boolean {
+  const name = path.split('/').pop() ?? path;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 && TEXT_EXTENSIONS.has(name.slice(dot + 1).toLowerCase());
+}
+
+/** Entries kept; older ones are dropped when the file is compacted. */
+export const MAX_JOURNAL_ENTRIES = 1000;
+
+/** Tool-argument strings longer than this are truncated in the journal. */
+const MAX_ARG_LENGTH = 200;
+
+function summarizeArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const summary: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    summary[key] = typeof value === 'string' && value.length > MAX_ARG_LENGTH
+      ? `${value.slice(0, MAX_ARG_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  return summary;
+}
+
+export class OperationJournal {
+  private static instance: OperationJournal;
+  private static callContext = new AsyncLocalStorage<JournalCallContext>();
+
+  private entries: JournalEntry[] = [];
+  private store?: JournalStore;
+  private storePath?: string;
+  /** Serializes appends and compactions so lines never interleave. */
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): OperationJournal {
+    if (!OperationJournal.instance) {
+      OperationJournal.instance = new OperationJournal();
+    }
+    return OperationJournal.instance;
+  }
+
+  /**
+   * Run `fn` with `context` as the current call context. Contexts nest: the
+   * inner one inherits anything it does not override (used by `vault.undo`
+   * to add `undoes` to the surrounding tool call).
+   */
+  static runInContext<T>(context: JournalCallContext, fn: () => T): T {
+    const outer = OperationJournal.callContext.getStore();
+    const merged: JournalCallContext = {
+      ...outer,
+      ...context,
+      args: context.args ? summarizeArgs(context.args) : outer?.args,
+    };
+    return OperationJournal.callContext.run(merged, fn);
+  }
+
+  static currentContext(): JournalCallContext | undefined {
+    return OperationJournal.callContext.getStore();
+  }
+
+  /**
+   * Bind the journal to its file and load existing entries. Unparseable
+   * lines (e.g. a torn write at shutdown) are skipped, not fatal.
+   */
+  async attach(store: JournalStore, storePath: string): Promise<void> {
+    this.store = store;
+    this.storePath = storePath;
+    this.entries = [];
+    try {
+      if (!(await store.exists(storePath))) return;
+      for (const line of (await store.read(storePath)).split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.entries.push(JSON.parse(line) as JournalEntry);
+        } catch {
+          Debug.warn('Skipping unreadable operation journal line');
+        }
+      }
+      this.entries = this.entries.slice(-MAX_JOURNAL_ENTRIES);
+      Debug.log(`Operation journal loaded ${this.entries.length} entries`);
+    } catch (error) {
+      Debug.warn('Operation journal unreadable, starting empty:', error);
+    }
+  }
+
+  async detach(): Promise<void> {
+    await this.writeChain;
+    this.store = undefined;
+    this.storePath = undefined;
+    this.entries = [];
+  }
+
+  isAttached(): boolean {
+    return this.store !== undefined;
+  }
+
+  /**
+   * Append an entry stamped with the current call context. Persisting is
+   * queued; the in-memory entry is visible immediately.
+   */
+  record(change: Pick<JournalEntry, 'type' | 'path' | 'targetPath' | 'folder' | 'before' | 'after'>): JournalEntry | undefined {
+    if (!this.store || !this.storePath) return undefined;
+
+    const context = OperationJournal.currentContext();
+    const entry: JournalEntry = {
+      id: randomUUID(),
+      timestamp: Date.now(),
+      ...change,
+      sessionId: context?.sessionId,
+      tool: context?.tool,
+      action: context?.action,
+      args: context?.args,
+      undoes: context?.undoes,
+    };
+    this.entries.push(entry);
+
+    const store = this.store;
+    const storePath = this.storePath;
+    const compact = this.entries.length > MAX_JOURNAL_ENTRIES * 1.5;
+    if (compact) {
+      this.entries = this.entries.slice(-MAX_JOURNAL_ENTRIES);
+    }
+    const snapshot = compact ? this.entries.map(e => JSON.stringify(e)).join('\n') + '\n' : undefined;
+    this.writeChain = this.writeChain
+      .then(() => snapshot !== undefined
+        ? store.write(storePath, snapshot)
+        : store.append(storePath, JSON.stringify(entry) + '\n'))
+      .catch(error => Debug.warn('Failed to persist operation journal entry:', error));
+
+    return entry;
+  }
+
+  /** Wait for queued writes to land (tests, unload). */
+  async flush(): Promise<void> {
+    await this.writeChain;
+  }
+
+  getEntry(id: string): JournalEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  /** Entries oldest-first, optionally limited to one session or one path. */
+  getEntries(filter: { sessionId?: string; path?: string } = {}): JournalEntry[] {
+    return this.entries.filter(e =>
+      (filter.sessionId === undefined || e.sessionId === filter.sessionId) &&
+      (filter.path === undefined || e.path === filter.path || e.targetPath === filter.path)
+    );
+  }
+
+  /** Ids of entries that a later `vault.undo` has reverted. */
+  getUndoneIds(): Set<string> {
+    return new Set(this.entries.flatMap(e => (e.undoes ? [e.undoes] : [])));
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * MCP prompts backed by markdown notes in a vault folder.
+ *
+ * Every `.md` file under the configured folder is one prompt, named by its path
+ * relative to the folder without the extension (`Weekly Review.md` →
+ * `Weekly Review`, `team/standup.md` → `team/standup`). Frontmatter declares
+ * the prompt:
+ *
+ *   ---
+ *   description: Review the past week
+ *   arguments:
+ *     - name: week
+ *       description: ISO week, e.g. 2026-W03
+ *       required: true
+ *     - project          # shorthand for an optional argument
+ *   ---
+ *
+ * The body is the prompt text. `{{name}}` is replaced by the argument value
+ * (unknown or omitted optional arguments become empty), and embeds are
+ * replaced by what they show, as `vault.read` with `expandEmbeds` resolves
+ * them: `![[Note]]` by the note without its frontmatter, `![[Note#Heading]]`
+ * by that section and `![[Note#^block]]` by that block. Embeds are expanded
+ * one level deep; a link that does not resolve, or to a note the session
+ * cannot read, is left as written.
+ *
+ * All reads go through the caller's API, so read permission and `.mcpignore`
+ * apply to templates and to the notes they embed.
+ */
+import { ObsidianAPI } from './obsidian-api';
+import { isImageFile } from '../types/obsidian';
+import { parseYaml } from './yaml-bridge';
+import { Debug } from './debug';
+import { createLinkResolver } from './link-rewriter';
+import { expandEmbeds } from './embed-expander';
+
+export interface PromptTemplateArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptTemplateInfo {
+  name: string;
+  description?: string;
+  arguments: PromptTemplateArgument[];
+}
+
+export interface RenderedPrompt {
+  description?: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+function splitFrontmatter(content: string): { frontmatter: Record<string, unknown>; body: string } {
+  const match = content.match(FRONTMATTER);
+  if (!match) return { frontmatter: {}, body: content };
+  let frontmatter: Record<string, unknown> = {};
+  try {
+    const parsed = parseYaml(match[1]);
+    if (typeof parsed === 'object' && parsed !== null) {
+      frontmatter = parsed as Record<string, unknown>;
+    }
+  } catch (error) {
+    Debug.log('Failed to parse prompt template frontmatter:', error);
+  }
+  return { frontmatter, body: content.slice(match[0].length) };
+}
+
+function parseArguments(value: unknown): PromptTemplateArgument[] {
+  if (!Array.isArray(value)) return [];
+  const args: PromptTemplateArgument[] = [];
+  for (const item of value) {
+    if (typeof item === 'string') {
+      args.push({ name: item });
+    } else if (typeof item === 'object' && item !== null && typeof (item as { name?: unknown }).name === 'string') {
+      const { name, description, required } = item as { name: string; description?: unknown; required?: unknown };
+      args.push({
+        name,
+        ...(typeof description === 'string' ? { description } : {}),
+        ...(required === true ? { required: true } : {})
+      });
+    }
+  }
+  return args;
+}
+
+function normalizeFolder(folder: string): string {
+  return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+async function readText(api: ObsidianAPI, path: string): Promise<string> {
+  const file = await api.getFile(path);
+  if (isImageFile(file)) throw new Error(`Not a text file: ${path}`);
+  return file.content;
+}
+
+/** Template paths under `folder`, keyed by prompt name. Empty when the folder is unset or missing. */
+async function templatePaths(api: ObsidianAPI, folder: string): Promise<Map<string, string>> {
+  const root = normalizeFolder(folder);
+  const byName = new Map<string, string>();
+  if (!root) return byName;
+
+  let paths: string[];
+  try {
+    paths = await api.listFiles(root);
+  } catch (error) {
+    Debug.log(`Prompt templates folder not readable (${root}):`, error);
+    return byName;
+  }
+  for (const path of paths) {
+    if (path.endsWith('.md') && path.startsWith(`${root}/`)) {
+      byName.set(path.slice(root.length + 1, -'.md'.length), path);
+    }
+  }
+  return byName;
+}
+
+/**
+ * Every prompt template under `folder`, sorted by name. A template that
+ * cannot be read is skipped rather than failing the whole list.
+ */
+export async function listPromptTemplates(api: ObsidianAPI, folder: string): Promise<PromptTemplateInfo[]> {
+  const prompts: PromptTemplateInfo[] = [];
+  for (const [name, path] of await templatePaths(api, folder)) {
+    try {
+      const { frontmatter } = splitFrontmatter(await readText(api, path));
+      prompts.push({
+        name,
+        ...(typeof frontmatter.description === 'string' ? { description: frontmatter.description } : {}),
+        arguments: parseArguments(frontmatter.arguments)
+      });
+    } catch (error) {
+      Debug.log(`Skipping prompt template ${path}:`, error);
+    }
+  }
+  return prompts.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Render the prompt `name` with `args`. Throws for an unknown prompt or a
+ * missing required argument.
+ */
+export async function renderPromptTemplate(
+  api: ObsidianAPI,
+  folder: string,
+  name: string,
+  args: Record<string, string> = {}
+): Promise<RenderedPrompt> {
+  const path = (await templatePaths(api, folder)).get(name);
+  if (!path) throw new Error(`Unknown prompt: ${name}`);
+
+  const { frontmatter, body } = splitFrontmatter(await readText(api, path));
+  const missing = parseArguments(frontmatter.arguments)
+    .filter(arg => arg.required && !args[arg.name]?.trim())
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt "${name}": ${missing.join(', ')}`);
+  }
+
+  // Substitute first, so an argument can name the note to embed
+  // (`![[{{project}}]]`) while embedded content is not itself templated.
+  const substituted = body.replace(PLACEHOLDER, (_, key: string) => args[key] ?? '');
+  const { content: text } = await expandEmbeds(substituted, path, {
+    resolve: createLinkResolver(await api.listFiles()),
+    read: target => readText(api, target),
+    maxDepth: 1,
+    budget: Infinity,
+    markers: false
+  });
+
+  return {
+    ...(typeof frontmatter.description === 'string' ? { description: frontmatter.description } : {}),
+    messages: [{ role: 'user', content: { type: 'text', text: text.trim() } }]
+  };
+}
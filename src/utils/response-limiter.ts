@@ -331,6 +331,55 @@ export function paginateResults<T>(
   };
 }
 
+/**
+ * Paginate a list of any items, kept whole: up to `pageSize` per page, and
+ * fewer where the page would pass `config.maxTokens`, so limitResponse never
+ * has to cut a page down after the fact. Pages are laid out from the start
+ * of the list, so every item is on exactly one page.
+ */
+export function paginateItems<T>(
+  items: T[],
+  page: number = 1,
+  pageSize: number = 50,
+  config: ResponseLimiterConfig = DEFAULT_LIMITER_CONFIG
+): {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  hasMore: boolean;
+} {
+  const starts: number[] = [];
+  let start = 0;
+  while (start < items.length) {
+    starts.push(start);
+    let end = start;
+    let tokens = 0;
+    while (end < items.length && end - start < pageSize) {
+      const itemTokens = estimateTokens(JSON.stringify(items[end]));
+      // An item over the budget on its own still gets a page
+      if (end > start && tokens + itemTokens > config.maxTokens) break;
+      tokens += itemTokens;
+      end++;
+    }
+    start = end;
+  }
+
+  const totalPages = starts.length;
+  const from = starts[page - 1] ?? items.length;
+  const to = starts[page] ?? items.length;
+
+  return {
+    items: items.slice(from, to),
+    page,
+    pageSize,
+    totalItems: items.length,
+    totalPages,
+    hasMore: page < totalPages
+  };
+}
+
 /**
  * Paginate file list with metadata
  */
@@ -1,6 +1,27 @@
 import { App, TFile, CachedMetadata, getAllTags } from 'obsidian';
 import { Debug } from './debug';
 import { AdvancedSearchService, SearchResult as AdvancedSearchResult } from './advanced-search';
+import {
+  QueryNode,
+  parseSearchQuery,
+  isNaturalQuery,
+  positiveTextTerms,
+  needsContent,
+  matchesDate,
+  matchesProperty,
+  hasPropertyValue,
+  SearchQueryError
+} from './search-query';
+import {
+  DEFAULT_FIELD_BOOSTS,
+  FieldBoosts,
+  FieldTokens,
+  collectCorpusStats,
+  fieldSourcesFromCache,
+  fieldTokens,
+  parseRankQuery,
+  scoreBm25f
+} from '../indexing/bm25f';
 
 /**
  * Unified search result format returned by SearchFacade
@@ -31,7 +52,7 @@ export interface UnifiedSearchResult {
  * Options for search facade
  */
 export interface SearchFacadeOptions {
-  /** Use TF-IDF scoring for relevance ranking (default: auto based on query type) */
+  /** Re-rank operator-query matches with BM25F on their free-text terms */
   ranked?: boolean;
 
   /** Include contextual snippets in results (default: true) */
@@ -49,6 +70,9 @@ export interface SearchFacadeOptions {
   /** Include file metadata in results (default: true) */
   includeMetadata?: boolean;
 
+  /** Paths the caller may not see; never read, ranked or counted */
+  exclude?: (path: string) => boolean;
+
   /** Page number for pagination (1-indexed, default: 1) */
   page?: number;
 
@@ -77,31 +101,42 @@ export interface PaginatedSearchResponse {
  */
 interface ParsedQuery {
   type: 'operator' | 'natural';
-  operator?: 'file' | 'path' | 'content' | 'tag';
+  /** Words the query looks for, for ranking; the whole query when natural. */
   term: string;
   originalQuery: string;
   isRegex?: boolean;
   regex?: RegExp;
-  isOr?: boolean;
-  orTerms?: string[];
-  isAnd?: boolean;
-  andTerms?: string[];
+  /** Set for grammar queries (see search-query.ts). */
+  tree?: QueryNode;
+}
+
+/** Per-file state while a query tree is evaluated against one file. */
+interface MatchState {
+  /** Read on first need; null for non-text files or when unreadable. */
+  content?: string | null;
+  /** Leaves matched outside any negation, for scoring. */
+  hits: number;
+  matches: NonNullable<UnifiedSearchResult['matches']>;
+  snippetTerm?: string;
 }
 
 /**
  * SearchFacade - Unified search interface composing multiple search strategies
  *
  * Routes queries intelligently:
- * - Operator queries (file:, tag:, etc.) → fast operator-based search
- * - Natural language queries → AdvancedSearchService with TF-IDF ranking
+ * - Grammar queries (fields, properties, dates, AND/OR, negation, grouping —
+ *   see search-query.ts) → evaluated per file against the metadata cache
+ * - Natural language queries → AdvancedSearchService with BM25F ranking
  */
 export class SearchFacade {
   private app: App;
   private advancedSearch: AdvancedSearchService;
+  private getBoosts: () => FieldBoosts;
 
-  constructor(app: App) {
+  constructor(app: App, getBoosts: () => FieldBoosts = () => DEFAULT_FIELD_BOOSTS) {
     this.app = app;
-    this.advancedSearch = new AdvancedSearchService(app);
+    this.getBoosts = getBoosts;
+    this.advancedSearch = new AdvancedSearchService(app, getBoosts);
   }
 
   /**
@@ -114,7 +149,8 @@ export class SearchFacade {
       snippetLength = 300,
       strategy = 'auto',
       maxResults = 50,
-      includeMetadata = true
+      includeMetadata = true,
+      exclude
     } = options;
 
     if (!query || query.trim().length === 0) {
@@ -131,12 +167,13 @@ export class SearchFacade {
       results = await this.operatorSearch(parsed, {
         includeSnippets,
         snippetLength,
-        includeMetadata
+        includeMetadata,
+        exclude
       });
 
       // Apply ranking as post-process if explicitly requested
       if (ranked === true) {
-        results = this.applyRanking(results, parsed.term);
+        results = await this.applyRanking(results, parsed.tree ? positiveTextTerms(parsed.tree) : []);
       }
     } else {
       // Use advanced search for natural language queries
@@ -145,7 +182,8 @@ export class SearchFacade {
         strategy: advancedStrategy,
         maxResults,
         snippetLength,
-        includeMetadata
+        includeMetadata,
+        exclude
       });
 
       results = this.normalizeAdvancedResults(advancedResults);
@@ -228,96 +266,32 @@ export class SearchFacade {
           regex
         };
       } catch (e) {
-        Debug.warn('Invalid regex pattern:', e);
-      }
-    }
-
-    // Check for operators
-    if (trimmed.startsWith('file:')) {
-      return { type: 'operator', operator: 'file', term: trimmed.substring(5).trim(), originalQuery: query };
-    }
-    if (trimmed.startsWith('path:')) {
-      return { type: 'operator', operator: 'path', term: trimmed.substring(5).trim(), originalQuery: query };
-    }
-    if (trimmed.startsWith('content:')) {
-      return { type: 'operator', operator: 'content', term: trimmed.substring(8).trim(), originalQuery: query };
-    }
-    if (trimmed.startsWith('tag:')) {
-      return { type: 'operator', operator: 'tag', term: trimmed.substring(4).trim(), originalQuery: query };
-    }
-
-    // Check for AND operator
-    if (trimmed.includes(' AND ')) {
-      const andTerms = this.splitPreservingQuotes(trimmed, ' AND ');
-      return {
-        type: 'operator',
-        term: trimmed,
-        originalQuery: query,
-        isAnd: true,
-        andTerms
-      };
-    }
-
-    // Check for OR operator
-    if (trimmed.includes(' OR ')) {
-      const orTerms = this.splitPreservingQuotes(trimmed, ' OR ');
-      return {
-        type: 'operator',
-        term: trimmed,
-        originalQuery: query,
-        isOr: true,
-        orTerms
-      };
-    }
-
-    // Natural language query - route to advanced search
-    return { type: 'natural', term: trimmed, originalQuery: query };
-  }
-
-  /**
-   * Split query on delimiter while preserving quoted phrases
-   */
-  private splitPreservingQuotes(query: string, delimiter: string): string[] {
-    const parts: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
-
-    while (i < query.length) {
-      if (query[i] === '"') {
-        inQuotes = !inQuotes;
-        current += query[i];
-        i++;
-      } else if (!inQuotes && query.substring(i, i + delimiter.length) === delimiter) {
-        if (current.trim()) {
-          parts.push(current.trim());
-        }
-        current = '';
-        i += delimiter.length;
-      } else {
-        current += query[i];
-        i++;
+        throw new SearchQueryError(`bad regex ${trimmed} (${e instanceof Error ? e.message : String(e)})`);
       }
     }
 
-    if (current.trim()) {
-      parts.push(current.trim());
+    if (isNaturalQuery(trimmed)) {
+      // Natural language query - route to advanced search
+      return { type: 'natural', term: trimmed, originalQuery: query };
     }
 
-    return parts;
+    // Throws SearchQueryError for a malformed query rather than guessing
+    const tree = parseSearchQuery(trimmed);
+    return { type: 'operator', term: positiveTextTerms(tree).join(' '), originalQuery: query, tree };
   }
 
   /**
-   * Operator-based search (file:, tag:, path:, content:, regex, OR, AND)
+   * Operator-based search (grammar queries and a whole-query regex)
    */
   private async operatorSearch(
     parsed: ParsedQuery,
-    options: { includeSnippets: boolean; snippetLength: number; includeMetadata: boolean }
+    options: { includeSnippets: boolean; snippetLength: number; includeMetadata: boolean; exclude?: (path: string) => boolean }
   ): Promise<UnifiedSearchResult[]> {
     const files = this.app.vault.getFiles();
     const results: UnifiedSearchResult[] = [];
 
     for (const file of files) {
+      if (options.exclude?.(file.path)) continue;
       const result = await this.matchFile(file, parsed, options);
       if (result) {
         results.push(result);
@@ -348,110 +322,45 @@ export class SearchFacade {
       return text.toLowerCase().includes(termLower);
     };
 
-    // Handle AND queries
-    if (parsed.isAnd && parsed.andTerms) {
-      const allMatch = await this.checkAndMatch(file, parsed.andTerms, options);
-      if (allMatch.matches) {
-        return {
-          path: file.path,
-          title: file.basename,
-          score: allMatch.score,
-          snippet: allMatch.snippet,
-          matches: allMatch.matchDetails,
-          metadata: options.includeMetadata ? this.getMetadata(file) : undefined
-        };
+    if (parsed.tree) {
+      const state: MatchState = { hits: 0, matches: {} };
+      if (!(await this.evaluate(file, parsed.tree, state, false))) {
+        return null;
       }
-      return null;
-    }
-
-    // Handle OR queries
-    if (parsed.isOr && parsed.orTerms) {
-      const anyMatch = await this.checkOrMatch(file, parsed.orTerms, options);
-      if (anyMatch.matches) {
-        return {
-          path: file.path,
-          title: file.basename,
-          score: anyMatch.score,
-          snippet: anyMatch.snippet,
-          matches: anyMatch.matchDetails,
-          metadata: options.includeMetadata ? this.getMetadata(file) : undefined
-        };
+      const positiveLeaves = countPositiveLeaves(parsed.tree, false);
+      if (options.includeSnippets && state.snippetTerm && state.content) {
+        snippet = this.extractSnippet(state.content, state.snippetTerm, options.snippetLength);
       }
-      return null;
+      return {
+        path: file.path,
+        title: file.basename,
+        // A query of only negations has nothing to count; every match is equal
+        score: positiveLeaves > 0 ? Math.max(state.hits, 1) / positiveLeaves : 1.0,
+        snippet,
+        matches: state.matches,
+        metadata: options.includeMetadata ? this.getMetadata(file) : undefined
+      };
     }
 
-    // Handle specific operators
-    switch (parsed.operator) {
-      case 'file':
-        if (textMatches(file.basename) || textMatches(file.name)) {
-          score = 1.0;
-          matches.filename = true;
-        }
-        break;
-
-      case 'path':
-        if (textMatches(file.path)) {
-          score = 1.0;
-          matches.filename = true;
-        }
-        break;
+    // Whole-query regex - check filename and content
+    if (textMatches(file.basename) || textMatches(file.name)) {
+      score = 1.5;
+      matches.filename = true;
+    }
 
-      case 'tag': {
-        const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
-        if (cache) {
-          const tags: string[] = getAllTags(cache) || [];
-          const target = termLower.startsWith('#') ? termLower : `#${termLower}`;
-          const matchedTags: string[] = tags.filter((t: string) => {
-            const tl = String(t).toLowerCase();
-            return tl === target || tl.startsWith(`${target}/`);
-          });
-          if (matchedTags.length > 0) {
-            score = 1.0;
-            matches.tags = matchedTags;
+    if (this.isTextFile(file)) {
+      try {
+        const content = await this.app.vault.read(file);
+        if (textMatches(content)) {
+          score = Math.max(score, 1.0);
+          matches.content = true;
+          if (options.includeSnippets) {
+            snippet = this.extractSnippet(content, parsed.term, options.snippetLength);
           }
         }
-        break;
+      } catch (e) {
+        Debug.warn(`Error reading file ${file.path}:`, e);
       }
-
-      case 'content':
-        if (this.isTextFile(file)) {
-          try {
-            const content = await this.app.vault.read(file);
-            if (textMatches(content)) {
-              score = 1.0;
-              matches.content = true;
-              if (options.includeSnippets) {
-                snippet = this.extractSnippet(content, parsed.term, options.snippetLength);
-              }
-            }
-          } catch (e) {
-            Debug.warn(`Error reading file ${file.path}:`, e);
-          }
-        }
-        break;
-
-      default:
-        // General search (regex or plain text) - check filename and content
-        if (textMatches(file.basename) || textMatches(file.name)) {
-          score = 1.5;
-          matches.filename = true;
-        }
-
-        if (this.isTextFile(file)) {
-          try {
-            const content = await this.app.vault.read(file);
-            if (textMatches(content)) {
-              score = Math.max(score, 1.0);
-              matches.content = true;
-              if (options.includeSnippets) {
-                snippet = this.extractSnippet(content, parsed.term, options.snippetLength);
-              }
-            }
-          } catch (e) {
-            Debug.warn(`Error reading file ${file.path}:`, e);
-          }
-        }
-        break;
     }
 
     if (score === 0) {
@@ -469,112 +378,131 @@ export class SearchFacade {
   }
 
   /**
-   * Check if ALL terms match (AND logic)
+   * Evaluate a query tree against one file. AND children that need the file's
+   * content run last, so a metadata condition that fails spares the read.
    */
-  private async checkAndMatch(
-    file: TFile,
-    terms: string[],
-    options: { includeSnippets: boolean; snippetLength: number }
-  ): Promise<{ matches: boolean; score: number; snippet?: UnifiedSearchResult['snippet']; matchDetails: UnifiedSearchResult['matches'] }> {
-    let content: string | null = null;
-    let matchCount = 0;
-    let snippet: UnifiedSearchResult['snippet'] | undefined;
-    const matchDetails: UnifiedSearchResult['matches'] = {};
-
-    for (const term of terms) {
-      const termLower = term.toLowerCase().replace(/^"|"$/g, ''); // Remove quotes
-      let termMatches = false;
-
-      // Check filename
-      if (file.basename.toLowerCase().includes(termLower)) {
-        termMatches = true;
-        matchDetails.filename = true;
-      }
-
-      // Check content
-      if (!termMatches && this.isTextFile(file)) {
-        if (content === null) {
-          try {
-            content = await this.app.vault.read(file);
-          } catch {
-            content = '';
-          }
+  private async evaluate(file: TFile, node: QueryNode, state: MatchState, negated: boolean): Promise<boolean> {
+    switch (node.kind) {
+      case 'and': {
+        const ordered = [...node.children].sort((a, b) => Number(needsContent(a)) - Number(needsContent(b)));
+        for (const child of ordered) {
+          if (!(await this.evaluate(file, child, state, negated))) return false;
         }
-        if (content.toLowerCase().includes(termLower)) {
-          termMatches = true;
-          matchDetails.content = true;
-          if (options.includeSnippets && !snippet) {
-            snippet = this.extractSnippet(content, term, options.snippetLength);
-          }
+        return true;
+      }
+      case 'or': {
+        // Every branch is evaluated so a file matching more of them scores higher
+        let any = false;
+        for (const child of node.children) {
+          if (await this.evaluate(file, child, state, negated)) any = true;
         }
+        return any;
       }
-
-      if (termMatches) {
-        matchCount++;
-      } else {
-        // AND requires ALL terms to match
-        return { matches: false, score: 0, matchDetails: {} };
+      case 'not':
+        return !(await this.evaluate(file, node.child, state, !negated));
+      default: {
+        const matched = await this.matchLeaf(file, node, state, negated);
+        if (matched && !negated) state.hits++;
+        return matched;
       }
     }
-
-    // All terms matched - score based on match count
-    const score = matchCount / terms.length;
-    return { matches: true, score, snippet, matchDetails };
   }
 
-  /**
-   * Check if ANY term matches (OR logic) with scoring for multiple matches
-   */
-  private async checkOrMatch(
-    file: TFile,
-    terms: string[],
-    options: { includeSnippets: boolean; snippetLength: number }
-  ): Promise<{ matches: boolean; score: number; snippet?: UnifiedSearchResult['snippet']; matchDetails: UnifiedSearchResult['matches'] }> {
-    let content: string | null = null;
-    let matchCount = 0;
-    let snippet: UnifiedSearchResult['snippet'] | undefined;
-    const matchDetails: UnifiedSearchResult['matches'] = {};
-
-    for (const term of terms) {
-      const termLower = term.toLowerCase().replace(/^"|"$/g, '');
-      let termMatches = false;
-
-      // Check filename
-      if (file.basename.toLowerCase().includes(termLower)) {
-        termMatches = true;
-        matchDetails.filename = true;
+  private async matchLeaf(file: TFile, node: QueryNode, state: MatchState, negated: boolean): Promise<boolean> {
+    const record = (key: 'filename' | 'content') => {
+      if (!negated) state.matches[key] = true;
+    };
+    const contentIncludes = async (term: string): Promise<boolean> => {
+      const content = await this.readForMatch(file, state);
+      if (content === null || !content.toLowerCase().includes(term.toLowerCase())) return false;
+      record('content');
+      if (!negated && !state.snippetTerm) state.snippetTerm = term;
+      return true;
+    };
+    const frontmatter = (): Record<string, unknown> | undefined =>
+      this.app.metadataCache.getFileCache(file)?.frontmatter;
+
+    switch (node.kind) {
+      case 'text': {
+        const term = node.value.toLowerCase();
+        if (file.basename.toLowerCase().includes(term) || file.name.toLowerCase().includes(term)) {
+          record('filename');
+          return true;
+        }
+        return contentIncludes(node.value);
       }
-
-      // Check content
-      if (this.isTextFile(file)) {
-        if (content === null) {
-          try {
-            content = await this.app.vault.read(file);
-          } catch {
-            content = '';
-          }
+      case 'regex': {
+        if (node.regex.test(file.basename) || node.regex.test(file.name)) {
+          record('filename');
+          return true;
         }
-        if (content.toLowerCase().includes(termLower)) {
-          termMatches = true;
-          matchDetails.content = true;
-          if (options.includeSnippets && !snippet) {
-            snippet = this.extractSnippet(content, term, options.snippetLength);
+        const content = await this.readForMatch(file, state);
+        if (content !== null && node.regex.test(content)) {
+          record('content');
+          return true;
+        }
+        return false;
+      }
+      case 'field': {
+        const term = node.value.toLowerCase();
+        switch (node.field) {
+          case 'file':
+            if (file.basename.toLowerCase().includes(term) || file.name.toLowerCase().includes(term)) {
+              record('filename');
+              return true;
+            }
+            return false;
+          case 'path':
+            if (file.path.toLowerCase().includes(term)) {
+              record('filename');
+              return true;
+            }
+            return false;
+          case 'content':
+            return contentIncludes(node.value);
+          case 'tag': {
+            const cache: CachedMetadata | null = this.app.metadataCache.getFileCache(file);
+            const tags: string[] = cache ? getAllTags(cache) || [] : [];
+            const target = term.startsWith('#') ? term : `#${term}`;
+            const matchedTags = tags.filter((t: string) => {
+              const tl = String(t).toLowerCase();
+              return tl === target || tl.startsWith(`${target}/`);
+            });
+            if (matchedTags.length === 0) return false;
+            if (!negated) state.matches.tags = [...(state.matches.tags ?? []), ...matchedTags];
+            return true;
           }
         }
+        return false;
       }
-
-      if (termMatches) {
-        matchCount++;
+      case 'date':
+        return matchesDate(node.field === 'created' ? file.stat.ctime : file.stat.mtime, node.comparison);
+      case 'has':
+        return hasPropertyValue(lookupProperty(frontmatter(), node.property));
+      case 'missing':
+        return !hasPropertyValue(lookupProperty(frontmatter(), node.property));
+      case 'property': {
+        const value = lookupProperty(frontmatter(), node.property);
+        return value !== undefined && matchesProperty(value, node.comparison);
       }
+      default:
+        return false;
     }
+  }
 
-    if (matchCount === 0) {
-      return { matches: false, score: 0, matchDetails: {} };
+  /** The file's content, read once per file; null when it is not text or unreadable. */
+  private async readForMatch(file: TFile, state: MatchState): Promise<string | null> {
+    if (state.content === undefined) {
+      state.content = null;
+      if (this.isTextFile(file)) {
+        try {
+          state.content = await this.app.vault.read(file);
+        } catch (e) {
+          Debug.warn(`Error reading file ${file.path}:`, e);
+        }
+      }
     }
-
-    // Score based on how many OR terms matched (more = better)
-    const score = matchCount / terms.length;
-    return { matches: true, score, snippet, matchDetails };
+    return state.content;
   }
 
   /**
@@ -628,27 +556,38 @@ export class SearchFacade {
   }
 
   /**
-   * Apply TF-IDF-like ranking to results
+   * Re-score matches with BM25F on the query's free-text terms. The matches
+   * are ranked against each other, so the statistics come from them alone.
+   * A query without free text (only properties, dates, tags) keeps its scores.
    */
-  private applyRanking(results: UnifiedSearchResult[], searchTerm: string): UnifiedSearchResult[] {
-    // Simple term frequency boost - more sophisticated ranking already in AdvancedSearchService
-    const termLower = searchTerm.toLowerCase();
-
-    return results.map(result => {
-      let boost = 1.0;
-
-      // Boost exact filename matches
-      if (result.title.toLowerCase() === termLower) {
-        boost = 2.0;
-      } else if (result.title.toLowerCase().includes(termLower)) {
-        boost = 1.5;
+  private async applyRanking(results: UnifiedSearchResult[], texts: string[]): Promise<UnifiedSearchResult[]> {
+    const terms = parseRankQuery(texts.map(t => (/\s/.test(t) ? `"${t}"` : t)).join(' '));
+    if (terms.length === 0) {
+      return results;
+    }
+
+    const files = new Map(this.app.vault.getFiles().map(f => [f.path, f]));
+    const documents: FieldTokens[] = [];
+    for (const result of results) {
+      const file = files.get(result.path);
+      let content = '';
+      if (file && this.isTextFile(file)) {
+        try {
+          content = await this.app.vault.read(file);
+        } catch (e) {
+          Debug.warn(`Error reading file ${file.path}:`, e);
+        }
       }
+      const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+      documents.push(fieldTokens(fieldSourcesFromCache(result.path, cache, content)));
+    }
 
-      return {
-        ...result,
-        score: result.score * boost
-      };
-    });
+    const stats = collectCorpusStats(documents);
+    const boosts = this.getBoosts();
+    return results.map((result, i) => ({
+      ...result,
+      score: scoreBm25f(documents[i], terms, stats, boosts)
+    }));
   }
 
   /**
@@ -695,3 +634,24 @@ export class SearchFacade {
     return textExtensions.has(file.extension.toLowerCase());
   }
 }
+
+/** Frontmatter keys are matched exactly first, then case-insensitively. */
+function lookupProperty(frontmatter: Record<string, unknown> | undefined, name: string): unknown {
+  if (!frontmatter) return undefined;
+  if (name in frontmatter) return frontmatter[name];
+  const key = Object.keys(frontmatter).find(k => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : frontmatter[key];
+}
+
+/** Leaves a file can match to score, i.e. those not under a negation. */
+function countPositiveLeaves(node: QueryNode, negated: boolean): number {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.reduce((sum, child) => sum + countPositiveLeaves(child, negated), 0);
+    case 'not':
+      return countPositiveLeaves(node.child, !negated);
+    default:
+      return negated ? 0 : 1;
+  }
+}
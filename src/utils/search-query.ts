@@ -0,0 +1,364 @@
+/**
+ * Query grammar for `vault.search` (SearchFacade operator queries).
+ *
+ *   query    := or
+ *   or       := and ( 'OR' and )*
+ *   and      := unary ( ['AND'] unary )*        juxtaposition is AND
+ *   unary    := ( '-' | 'NOT' ) unary | primary
+ *   primary  := '(' or ')' | term
+ *   term     := field ':' value | "quoted phrase" | /regex/flags | word
+ *
+ * Fields:
+ *   file: path: content: tag:   as before — substring of name/path/content,
+ *                                tag with its hierarchical children
+ *   created: modified:          file dates, compared with a date value
+ *   has:name  missing:name      frontmatter property present / absent
+ *   anything else               frontmatter property, typed comparison
+ *
+ * A value may carry a comparison (`priority:>2`, `due:<=2026-10-01`) or be a
+ * range (`priority:1..3`, `modified:2026-09-01..2026-09-30`). Dates are
+ * `YYYY`, `YYYY-MM` or `YYYY-MM-DD` in local time and stand for the whole
+ * year, month or day, so `modified:2026-09` is all of September and
+ * `modified:>2026-09` starts in October. Numbers compare numerically, dates as
+ * dates, `true`/`false` as booleans, anything else as a case-insensitive
+ * string; a list property matches when any element does.
+ *
+ * Pure: parsing and value comparison only. SearchFacade evaluates the tree
+ * against the vault.
+ */
+
+export type Comparison =
+  | { op: '=' | '>' | '>=' | '<' | '<='; value: string }
+  | { op: 'range'; from: string; to: string };
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  /** Bare word or quoted phrase: file name or content. */
+  | { kind: 'text'; value: string }
+  | { kind: 'regex'; regex: RegExp }
+  | { kind: 'field'; field: 'file' | 'path' | 'content' | 'tag'; value: string }
+  | { kind: 'date'; field: 'created' | 'modified'; comparison: Comparison }
+  | { kind: 'has' | 'missing'; property: string }
+  | { kind: 'property'; property: string; comparison: Comparison };
+
+/** A query the grammar rejects; the message says what to fix. */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(`Invalid search query: ${message}`);
+    this.name = 'SearchQueryError';
+  }
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'term'; value: string };
+
+const LEGACY_FIELDS = new Set(['file', 'path', 'content', 'tag']);
+const DATE_FIELDS = new Set(['created', 'modified']);
+/** `name:value` — the value must not start with `//`, so a URL stays a word. */
+const FIELD_TERM = /^([A-Za-z_][\w.-]*):(?!\/\/)(.+)$/;
+const REGEX_TERM = /^\/(.+)\/([a-z]*)$/;
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(') {
+      tokens.push({ type: 'lparen' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ type: 'rparen' });
+      i++;
+    } else if (ch === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      let value = '';
+      let inQuotes = false;
+      while (i < query.length) {
+        const c = query[i];
+        if (!inQuotes && (/\s/.test(c) || c === '(' || c === ')')) break;
+        if (c === '"') inQuotes = !inQuotes;
+        value += c;
+        i++;
+      }
+      if (inQuotes) throw new SearchQueryError(`unterminated quote in ${value}`);
+      if (value === 'AND') tokens.push({ type: 'and' });
+      else if (value === 'OR') tokens.push({ type: 'or' });
+      else if (value === 'NOT') tokens.push({ type: 'not' });
+      else tokens.push({ type: 'term', value });
+    }
+  }
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+function parseComparison(raw: string): Comparison {
+  const match = raw.match(/^(>=|<=|>|<|=)(.*)$/);
+  if (match) {
+    const value = unquote(match[2]);
+    if (!value) throw new SearchQueryError(`missing value after ${match[1]}`);
+    return { op: match[1] as '=' | '>' | '>=' | '<' | '<=', value };
+  }
+  const value = unquote(raw);
+  const range = value.split('..');
+  if (range.length === 2 && range[0] && range[1]) {
+    return { op: 'range', from: range[0], to: range[1] };
+  }
+  return { op: '=', value };
+}
+
+function parseTerm(raw: string): QueryNode {
+  if (raw.startsWith('"')) return { kind: 'text', value: unquote(raw) };
+
+  const regexMatch = raw.match(REGEX_TERM);
+  if (regexMatch) {
+    try {
+      return { kind: 'regex', regex: new RegExp(regexMatch[1], regexMatch[2]) };
+    } catch (error) {
+      throw new SearchQueryError(`bad regex ${raw} (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  const fieldMatch = raw.match(FIELD_TERM);
+  if (!fieldMatch) return { kind: 'text', value: raw };
+
+  const [, name, value] = fieldMatch;
+  const field = name.toLowerCase();
+  if (LEGACY_FIELDS.has(field)) {
+    return { kind: 'field', field: field as 'file' | 'path' | 'content' | 'tag', value: unquote(value) };
+  }
+  if (DATE_FIELDS.has(field)) {
+    const comparison = parseComparison(value);
+    const operands = comparison.op === 'range' ? [comparison.from, comparison.to] : [comparison.value];
+    for (const operand of operands) {
+      if (!dateInterval(operand)) {
+        throw new SearchQueryError(`${field}: expects a date (YYYY, YYYY-MM or YYYY-MM-DD), got '${operand}'`);
+      }
+    }
+    return { kind: 'date', field: field as 'created' | 'modified', comparison };
+  }
+  if (field === 'has' || field === 'missing') {
+    return { kind: field, property: unquote(value) };
+  }
+  return { kind: 'property', property: name, comparison: parseComparison(value) };
+}
+
+/** Parse `query` into a tree. Throws SearchQueryError on a malformed query. */
+export function parseSearchQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  let pos = 0;
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (tokens[pos]?.type === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (pos < tokens.length && tokens[pos].type !== 'or' && tokens[pos].type !== 'rparen') {
+      if (tokens[pos].type === 'and') pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (tokens[pos]?.type === 'not') {
+      pos++;
+      return { kind: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (!token) throw new SearchQueryError('unexpected end of query');
+    if (token.type === 'term') return parseTerm(token.value);
+    if (token.type === 'lparen') {
+      const node = parseOr();
+      if (tokens[pos]?.type !== 'rparen') throw new SearchQueryError('missing )');
+      pos++;
+      return node;
+    }
+    throw new SearchQueryError(`unexpected ${token.type === 'rparen' ? ')' : token.type.toUpperCase()}`);
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new SearchQueryError('unbalanced )');
+  return root;
+}
+
+/**
+ * True when the query is plain words or one quoted phrase — nothing the
+ * grammar gives meaning to. Such queries go to ranked natural-language
+ * search; everything else is parsed. A query the tokenizer cannot read
+ * (an unterminated quote) is treated as natural language too.
+ */
+export function isNaturalQuery(query: string): boolean {
+  const trimmed = query.trim();
+  if (trimmed.startsWith('/') && trimmed.lastIndexOf('/') > 0) return false;
+  let tokens: Token[];
+  try {
+    tokens = tokenize(trimmed);
+  } catch {
+    return true;
+  }
+  return tokens.every(token => {
+    if (token.type !== 'term') return false;
+    if (token.value.startsWith('"')) return true;
+    return !REGEX_TERM.test(token.value) && !FIELD_TERM.test(token.value);
+  });
+}
+
+/** Words and phrases the query asks to find (not under a negation), for ranking and snippets. */
+export function positiveTextTerms(node: QueryNode): string[] {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveTextTerms);
+    case 'text':
+      return [node.value];
+    case 'field':
+      return node.field === 'content' || node.field === 'file' ? [node.value] : [];
+    default:
+      return [];
+  }
+}
+
+/** Whether evaluating the node may need the file's content. */
+export function needsContent(node: QueryNode): boolean {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.some(needsContent);
+    case 'not':
+      return needsContent(node.child);
+    case 'text':
+    case 'regex':
+      return true;
+    case 'field':
+      return node.field === 'content';
+    default:
+      return false;
+  }
+}
+
+/** `[start, end)` in ms of the year, month or day a date names; null if it is not one. */
+export function dateInterval(text: string): [number, number] | null {
+  const match = text.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+  if (match) {
+    const year = Number(match[1]);
+    const month = match[2] ? Number(match[2]) - 1 : undefined;
+    const day = match[3] ? Number(match[3]) : undefined;
+    if (month !== undefined && (month < 0 || month > 11)) return null;
+    if (day !== undefined && (day < 1 || day > 31)) return null;
+    if (day !== undefined) return [new Date(year, month!, day).getTime(), new Date(year, month!, day + 1).getTime()];
+    if (month !== undefined) return [new Date(year, month, 1).getTime(), new Date(year, month + 1, 1).getTime()];
+    return [new Date(year, 0, 1).getTime(), new Date(year + 1, 0, 1).getTime()];
+  }
+  // Full timestamps (2026-09-01T10:30) name an instant
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/.test(text)) {
+    const time = Date.parse(text);
+    return isNaN(time) ? null : [time, time + 1];
+  }
+  return null;
+}
+
+function compareWithInterval(time: number, op: '=' | '>' | '>=' | '<' | '<=', [start, end]: [number, number]): boolean {
+  switch (op) {
+    case '=': return time >= start && time < end;
+    case '>': return time >= end;
+    case '>=': return time >= start;
+    case '<': return time < start;
+    case '<=': return time < end;
+  }
+}
+
+/** Compare a point in time (a file's ctime/mtime) with a date comparison. */
+export function matchesDate(time: number, comparison: Comparison): boolean {
+  if (comparison.op === 'range') {
+    const from = dateInterval(comparison.from);
+    const to = dateInterval(comparison.to);
+    return !!from && !!to && time >= from[0] && time < to[1];
+  }
+  const interval = dateInterval(comparison.value);
+  return !!interval && compareWithInterval(time, comparison.op, interval);
+}
+
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && NUMBER.test(value.trim())) return Number(value);
+  return null;
+}
+
+/** `[[Note]]` and `[[Note|alias]]` compare as `Note`. */
+function asText(value: unknown): string {
+  const text = String(value).trim();
+  const link = text.match(/^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/);
+  return (link ? link[1] : text).toLowerCase();
+}
+
+function compareScalar(value: unknown, op: '=' | '>' | '>=' | '<' | '<=', operand: string): boolean {
+  if (value === null || value === undefined || typeof value === 'object') return false;
+
+  const number = asNumber(value);
+  if (number !== null && NUMBER.test(operand)) {
+    const target = Number(operand);
+    switch (op) {
+      case '=': return number === target;
+      case '>': return number > target;
+      case '>=': return number >= target;
+      case '<': return number < target;
+      case '<=': return number <= target;
+    }
+  }
+
+  const valueInterval = typeof value === 'string' ? dateInterval(value.trim()) : null;
+  const operandInterval = dateInterval(operand);
+  if (valueInterval && operandInterval) {
+    return compareWithInterval(valueInterval[0], op, operandInterval);
+  }
+
+  if (typeof value === 'boolean') {
+    return op === '=' && (operand === 'true' || operand === 'false') && value === (operand === 'true');
+  }
+
+  const order = asText(value).localeCompare(asText(operand));
+  switch (op) {
+    case '=': return order === 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+  }
+}
+
+/** Compare a frontmatter value (a list matches when any element does). */
+export function matchesProperty(value: unknown, comparison: Comparison): boolean {
+  if (Array.isArray(value)) return value.some(item => matchesProperty(item, comparison));
+  if (comparison.op === 'range') {
+    return compareScalar(value, '>=', comparison.from) && compareScalar(value, '<=', comparison.to);
+  }
+  return compareScalar(value, comparison.op, comparison.value);
+}
+
+/** A property counts as present when it has a value: not null, '' or []. */
+export function hasPropertyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
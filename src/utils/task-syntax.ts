@@ -0,0 +1,525 @@
+/**
+ * Checklist items as the Tasks and Dataview plugins write them, and the Tasks
+ * plugin's recurrence rules.
+ *
+ * A task is a list item with a checkbox, `- [ ] Call the plumber 📅 2026-10-20`.
+ * Its fields can be written in either plugin's syntax, and one line may mix them:
+ *
+ *   Tasks     📅 due  ⏳ scheduled  🛫 start  ➕ created  ✅ done  ❌ cancelled
+ *             🔁 every week  🔺 ⏫ 🔼 🔽 ⏬ priority (highest … lowest)
+ *   Dataview  [due:: 2026-10-20]  (scheduled:: 2026-10-19)  [completion:: …]
+ *             [repeat:: every week]  [priority:: high]
+ *
+ * Edits rewrite only the field they touch, in the syntax the line already uses
+ * for it; a field the line does not have yet is added in the syntax of its
+ * other fields (Tasks emoji when it has none). A change made through the API
+ * therefore reads like one made by hand.
+ *
+ * Pure: text in, text out. Dates are `YYYY-MM-DD` strings and date arithmetic
+ * is calendar arithmetic, so no time zone is involved.
+ */
+
+export type TaskStatus = 'todo' | 'in_progress' | 'done' | 'cancelled' | 'other';
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+export type TaskDateField = 'due' | 'scheduled' | 'start' | 'created' | 'done' | 'cancelled';
+export type TaskField = TaskDateField | 'recurrence' | 'priority';
+export type TaskSyntax = 'tasks' | 'dataview';
+
+export interface Task {
+  /** 1-based line in the note. */
+  line: number;
+  status: TaskStatus;
+  /** The character between the brackets. */
+  statusSymbol: string;
+  /** The text with fields and block ID removed; tags stay. */
+  description: string;
+  due?: string;
+  scheduled?: string;
+  start?: string;
+  created?: string;
+  done?: string;
+  cancelled?: string;
+  /** The rule as written, e.g. `every week on Monday when done`. */
+  recurrence?: string;
+  priority?: TaskPriority;
+  tags: string[];
+  /** Without the caret. */
+  blockId?: string;
+  /** Dataview inline fields that are not task fields. */
+  fields: Record<string, string>;
+  /** The line as written. */
+  text: string;
+}
+
+export interface Recurrence {
+  unit: 'day' | 'week' | 'month' | 'year';
+  interval: number;
+  /** Weekly: days of the week, 0 (Sunday) to 6. */
+  weekdays?: number[];
+  /** Monthly: day of the month, or -1 for the last day. */
+  monthDay?: number;
+  /** The next occurrence counts from the completion date, not the task's own dates. */
+  whenDone: boolean;
+}
+
+export const TASK_DATE_FIELDS: readonly TaskDateField[] = ['due', 'scheduled', 'start', 'created', 'done', 'cancelled'];
+export const TASK_PRIORITIES: readonly TaskPriority[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+/** `  - [ ] text`, `1. [x] text`, `> - [/] text` (in a callout). */
+const TASK_LINE = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+\[)([^\]])\](?=\s|$)(.*)$/u;
+
+/** The emoji the Tasks plugin writes for each field, followed by the ones it also reads. */
+const DATE_EMOJI: Record<TaskDateField, string[]> = {
+  due: ['📅', '📆', '🗓'],
+  scheduled: ['⏳', '⌛'],
+  start: ['🛫'],
+  created: ['➕'],
+  done: ['✅'],
+  cancelled: ['❌'],
+};
+const PRIORITY_EMOJI: Record<TaskPriority, string> = {
+  highest: '🔺',
+  high: '⏫',
+  medium: '🔼',
+  low: '🔽',
+  lowest: '⏬',
+};
+const RECURRENCE_EMOJI = '🔁';
+
+/** Dataview's inline field key for each task field. */
+const INLINE_KEYS: Record<TaskField, string> = {
+  due: 'due',
+  scheduled: 'scheduled',
+  start: 'start',
+  created: 'created',
+  done: 'completion',
+  cancelled: 'cancelled',
+  recurrence: 'repeat',
+  priority: 'priority',
+};
+const FIELD_BY_INLINE_KEY = new Map(Object.entries(INLINE_KEYS).map(([field, key]) => [key, field as TaskField]));
+
+/** Anything that ends a recurrence rule written after 🔁. */
+const FIELD_BOUNDARY = /\s*(?:[📅📆🗓⏳⌛🛫➕✅❌🔺⏫🔼🔽⏬🆔⛔🔁]|\^[\w-]+\s*$|[[(][^\])]*::|$)/u;
+const EMOJI_DATE = /(📅|📆|🗓|⏳|⌛|🛫|➕|✅|❌)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+const EMOJI_PRIORITY = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/gu;
+const INLINE_FIELD = /\[([^[\]():]+?)::\s*([^\]]*?)\s*\]|\(([^[\]():]+?)::\s*([^)]*?)\s*\)/gu;
+const BLOCK_ID = /(^|\s)\^([\w-]+)\s*$/u;
+const TAG = /(?:^|\s)#([^\s#.,;:!?()[\]{}"'`]+)/gu;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** One field as written on a line: where, in which syntax, and its value. */
+interface FieldToken {
+  field?: TaskField;
+  /** For inline fields that are not task fields. */
+  key?: string;
+  start: number;
+  end: number;
+  value: string;
+  syntax: TaskSyntax;
+  /** Inline fields: the brackets used. */
+  brackets?: '[]' | '()';
+}
+
+/** Split a line into its checkbox head and body, or undefined for a non-task line. */
+function splitTaskLine(text: string): { head: string; symbol: string; body: string } | undefined {
+  const match = TASK_LINE.exec(text);
+  if (!match) return undefined;
+  return { head: match[1], symbol: match[2], body: match[3] };
+}
+
+function statusOf(symbol: string): TaskStatus {
+  switch (symbol) {
+    case ' ': return 'todo';
+    case 'x': case 'X': return 'done';
+    case '/': return 'in_progress';
+    case '-': return 'cancelled';
+    default: return 'other';
+  }
+}
+
+/** Every field on a task body, in line order. */
+function scanFields(body: string): FieldToken[] {
+  const tokens: FieldToken[] = [];
+  const taken = (start: number, end: number) => tokens.some(t => start < t.end && end > t.start);
+
+  for (const match of body.matchAll(INLINE_FIELD)) {
+    const square = match[1] !== undefined;
+    const key = (square ? match[1] : match[3]).trim();
+    const value = (square ? match[2] : match[4]) ?? '';
+    const field = FIELD_BY_INLINE_KEY.get(key.toLowerCase());
+    tokens.push({
+      field,
+      key: field ? undefined : key,
+      start: match.index,
+      end: match.index + match[0].length,
+      value,
+      syntax: 'dataview',
+      brackets: square ? '[]' : '()',
+    });
+  }
+  for (const match of body.matchAll(EMOJI_DATE)) {
+    const end = match.index + match[0].length;
+    if (taken(match.index, end)) continue;
+    const field = TASK_DATE_FIELDS.find(f => DATE_EMOJI[f].includes(match[1]))!;
+    tokens.push({ field, start: match.index, end, value: match[2], syntax: 'tasks' });
+  }
+  for (const match of body.matchAll(EMOJI_PRIORITY)) {
+    const end = match.index + match[0].length;
+    if (taken(match.index, end)) continue;
+    const priority = TASK_PRIORITIES.find(p => PRIORITY_EMOJI[p] === match[1])!;
+    tokens.push({ field: 'priority', start: match.index, end, value: priority, syntax: 'tasks' });
+  }
+  const recurrenceAt = body.indexOf(RECURRENCE_EMOJI);
+  if (recurrenceAt !== -1 && !taken(recurrenceAt, recurrenceAt + 1)) {
+    let valueStart = recurrenceAt + RECURRENCE_EMOJI.length;
+    if (body[valueStart] === '\uFE0F') valueStart++;
+    const rest = body.slice(valueStart);
+    const leading = rest.length - rest.trimStart().length;
+    const boundary = FIELD_BOUNDARY.exec(rest.slice(leading));
+    const length = boundary ? boundary.index : rest.length - leading;
+    tokens.push({
+      field: 'recurrence',
+      start: recurrenceAt,
+      end: valueStart + leading + length,
+      value: rest.slice(leading, leading + length).trim(),
+      syntax: 'tasks',
+    });
+  }
+  return tokens.sort((a, b) => a.start - b.start);
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Parse one line as a task; undefined when it is not a checklist item. */
+export function parseTask(text: string, line: number): Task | undefined {
+  const parts = splitTaskLine(text);
+  if (!parts) return undefined;
+
+  let body = parts.body;
+  let blockId: string | undefined;
+  const block = BLOCK_ID.exec(body);
+  if (block) {
+    blockId = block[2];
+    body = body.slice(0, block.index);
+  }
+
+  const task: Task = {
+    line,
+    status: statusOf(parts.symbol),
+    statusSymbol: parts.symbol,
+    description: '',
+    tags: [],
+    blockId,
+    fields: {},
+    text,
+  };
+
+  let description = '';
+  let cursor = 0;
+  for (const token of scanFields(body)) {
+    description += body.slice(cursor, token.start) + ' ';
+    cursor = token.end;
+    if (token.field === undefined) {
+      task.fields[token.key!] = token.value;
+    } else if (token.field === 'priority') {
+      const priority = token.value.toLowerCase() as TaskPriority;
+      if (TASK_PRIORITIES.includes(priority)) task.priority = priority;
+    } else if (token.field === 'recurrence') {
+      if (token.value) task.recurrence = token.value;
+    } else if (DATE.test(token.value)) {
+      task[token.field] = token.value;
+    }
+  }
+  description += body.slice(cursor);
+  task.description = collapse(description);
+
+  for (const match of task.description.matchAll(TAG)) {
+    task.tags.push(`#${match[1]}`);
+  }
+  return task;
+}
+
+/** Every task in a note, skipping frontmatter and fenced code. */
+export function parseTasks(content: string): Task[] {
+  const tasks: Task[] = [];
+  const lines = content.split('\n');
+  let fence: string | undefined;
+  let start = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === '---');
+    if (end !== -1) start = end + 1;
+  }
+  for (let i = start; i < lines.length; i++) {
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(lines[i]);
+    if (fenceMatch) {
+      if (fence === undefined) fence = fenceMatch[1][0];
+      else if (fenceMatch[1][0] === fence) fence = undefined;
+      continue;
+    }
+    if (fence !== undefined) continue;
+    const task = parseTask(lines[i], i + 1);
+    if (task) tasks.push(task);
+  }
+  return tasks;
+}
+
+/** Replace the character between the brackets. */
+export function setTaskStatusSymbol(text: string, symbol: string): string {
+  const parts = splitTaskLine(text);
+  if (!parts) return text;
+  return `${parts.head}${symbol}]${parts.body}`;
+}
+
+/** The syntax a line already uses for its fields; Tasks emoji when it has none. */
+function syntaxOf(body: string): TaskSyntax {
+  const tokens = scanFields(body).filter(t => t.field !== undefined);
+  return tokens.length > 0 && tokens.every(t => t.syntax === 'dataview') ? 'dataview' : 'tasks';
+}
+
+function renderToken(field: TaskField, value: string, syntax: TaskSyntax, brackets: '[]' | '()' = '[]'): string {
+  if (syntax === 'dataview') {
+    return `${brackets[0]}${INLINE_KEYS[field]}:: ${value}${brackets[1]}`;
+  }
+  if (field === 'priority') return PRIORITY_EMOJI[value as TaskPriority];
+  if (field === 'recurrence') return `${RECURRENCE_EMOJI} ${value}`;
+  return `${DATE_EMOJI[field][0]} ${value}`;
+}
+
+/**
+ * Set, replace or (with `undefined`) remove one field of a task line.
+ * `syntax` chooses how a field the line lacks is written; by default it
+ * follows the line's other fields.
+ */
+export function setTaskField(text: string, field: TaskField, value: string | undefined, syntax?: TaskSyntax): string {
+  const parts = splitTaskLine(text);
+  if (!parts) return text;
+
+  let body = parts.body;
+  let suffix = '';
+  const block = BLOCK_ID.exec(body);
+  if (block) {
+    suffix = body.slice(block.index);
+    body = body.slice(0, block.index);
+  }
+
+  const existing = scanFields(body).find(t => t.field === field);
+  if (existing) {
+    if (value === undefined) {
+      body = (body.slice(0, existing.start).replace(/\s+$/, '') + body.slice(existing.end)).replace(/\s+$/, '');
+      if (!suffix && body.trim() === '') body = '';
+    } else {
+      body = body.slice(0, existing.start) + renderToken(field, value, existing.syntax, existing.brackets) + body.slice(existing.end);
+    }
+  } else if (value !== undefined) {
+    const token = renderToken(field, value, syntax ?? syntaxOf(body));
+    const trimmed = body.replace(/\s+$/, '');
+    body = trimmed ? `${trimmed} ${token}` : ` ${token}`;
+  }
+  return `${parts.head}${parts.symbol}]${body}${suffix}`;
+}
+
+/** Replace the description, keeping every field and the block ID. */
+export function setTaskDescription(text: string, description: string): string {
+  const parts = splitTaskLine(text);
+  if (!parts) return text;
+
+  let body = parts.body;
+  let suffix = '';
+  const block = BLOCK_ID.exec(body);
+  if (block) {
+    suffix = body.slice(block.index);
+    body = body.slice(0, block.index);
+  }
+  const fields = scanFields(body).map(t => body.slice(t.start, t.end));
+  return `${parts.head}${parts.symbol}] ${[collapse(description), ...fields].filter(Boolean).join(' ')}${suffix}`;
+}
+
+/** Remove a trailing `^block-id`. */
+export function removeTaskBlockId(text: string): string {
+  return text.replace(BLOCK_ID, '');
+}
+
+/** A new task line: `- [ ] description` plus fields in the order the Tasks plugin writes them. */
+export function composeTask(
+  description: string,
+  fields: Partial<Record<TaskField, string>>,
+  syntax: TaskSyntax = 'tasks',
+  indent = ''
+): string {
+  let text = `${indent}- [ ] ${collapse(description)}`;
+  const order: TaskField[] = ['priority', 'recurrence', 'created', 'start', 'scheduled', 'due'];
+  for (const field of order) {
+    const value = fields[field];
+    if (value !== undefined) text = setTaskField(text, field, value, syntax);
+  }
+  return text;
+}
+
+// ---- Dates ------------------------------------------------------------------
+
+function toDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function fromDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** True for a real calendar date in `YYYY-MM-DD` form. */
+export function isTaskDate(value: string): boolean {
+  return DATE.test(value) && fromDate(toDate(value)) === value;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromDate(d);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toDate(to).getTime() - toDate(from).getTime()) / 86_400_000);
+}
+
+/** Today in local time, as the user's calendar shows it. */
+export function localToday(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Year/month/day, the day clamped to the month's length (Jan 31 + 1 month is Feb 28). */
+function clampedDate(year: number, month: number, day: number): string {
+  const y = year + Math.floor(month / 12);
+  const m = ((month % 12) + 12) % 12;
+  const last = lastDayOfMonth(y, m);
+  return fromDate(new Date(Date.UTC(y, m, day === -1 ? last : Math.min(day, last))));
+}
+
+// ---- Recurrence -------------------------------------------------------------
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+function parseWeekdays(text: string): number[] | undefined {
+  const names = text.split(/\s*(?:,|\band\b)\s*/).filter(Boolean);
+  const days = names.map(name => WEEKDAYS.findIndex(day => day.startsWith(name.replace(/s$/, '')) && name.length >= 3));
+  if (days.length === 0 || days.includes(-1)) return undefined;
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Parse a recurrence rule in the Tasks plugin's language: `every day`,
+ * `every 3 days`, `every other week`, `every weekday`, `every week on Monday,
+ * Thursday`, `every Tuesday`, `every month`, `every month on the 15th`,
+ * `every month on the last day`, `every 2 years`, each optionally followed by
+ * `when done`. Undefined for anything else.
+ */
+export function parseRecurrence(rule: string): Recurrence | undefined {
+  let text = collapse(rule.toLowerCase());
+  let whenDone = false;
+  if (text.endsWith(' when done')) {
+    whenDone = true;
+    text = text.slice(0, -' when done'.length);
+  }
+  if (!text.startsWith('every ')) return undefined;
+  text = text.slice('every '.length);
+
+  if (text === 'weekday') return { unit: 'week', interval: 1, weekdays: [1, 2, 3, 4, 5], whenDone };
+
+  const unitMatch = /^(?:(\d+|other)\s+)?(day|week|month|year)s?(?:\s+on\s+(.+))?$/.exec(text);
+  if (!unitMatch) {
+    const weekdays = parseWeekdays(text);
+    return weekdays ? { unit: 'week', interval: 1, weekdays, whenDone } : undefined;
+  }
+
+  const interval = unitMatch[1] === undefined ? 1 : unitMatch[1] === 'other' ? 2 : Number(unitMatch[1]);
+  if (!Number.isInteger(interval) || interval < 1) return undefined;
+  const unit = unitMatch[2] as Recurrence['unit'];
+  const on = unitMatch[3];
+  if (on === undefined) return { unit, interval, whenDone };
+
+  if (unit === 'week') {
+    const weekdays = parseWeekdays(on);
+    return weekdays ? { unit, interval, weekdays, whenDone } : undefined;
+  }
+  if (unit === 'month') {
+    if (/^the last(?: day)?$/.test(on)) return { unit, interval, monthDay: -1, whenDone };
+    const day = /^the (\d{1,2})(?:st|nd|rd|th)?$/.exec(on);
+    if (day && Number(day[1]) >= 1 && Number(day[1]) <= 31) return { unit, interval, monthDay: Number(day[1]), whenDone };
+  }
+  return undefined;
+}
+
+/** The first date after `from` that the rule falls on. */
+export function nextRecurrenceDate(rule: Recurrence, from: string): string {
+  const base = toDate(from);
+  const year = base.getUTCFullYear();
+  const month = base.getUTCMonth();
+  const day = base.getUTCDate();
+
+  switch (rule.unit) {
+    case 'day':
+      return addDays(from, rule.interval);
+    case 'week': {
+      if (!rule.weekdays) return addDays(from, 7 * rule.interval);
+      // Weeks start on Monday; only every interval-th week counts
+      const weekStart = (date: string) => addDays(date, -((toDate(date).getUTCDay() + 6) % 7));
+      const baseWeek = weekStart(from);
+      for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+        const candidate = addDays(from, offset);
+        const weeks = daysBetween(baseWeek, weekStart(candidate)) / 7;
+        if (weeks % rule.interval === 0 && rule.weekdays.includes(toDate(candidate).getUTCDay())) return candidate;
+      }
+      return addDays(from, 7 * rule.interval);
+    }
+    case 'month': {
+      if (rule.monthDay !== undefined) {
+        const thisMonth = clampedDate(year, month, rule.monthDay);
+        if (thisMonth > from) return thisMonth;
+        return clampedDate(year, month + rule.interval, rule.monthDay);
+      }
+      return clampedDate(year, month + rule.interval, day);
+    }
+    case 'year':
+      return clampedDate(year + rule.interval, month, day);
+  }
+}
+
+/**
+ * The next occurrence of a recurring task, as the Tasks plugin writes it when
+ * the task is completed on `today`: unchecked, without done/cancelled dates or
+ * block ID, and with its due, scheduled and start dates moved together. The
+ * reference date is due, else scheduled, else start; the rule advances it
+ * from itself, or from `today` for a `when done` rule, and the other dates
+ * keep their distance to it. A task that had a created date gets today's.
+ *
+ * Undefined when the task does not recur or its rule is not understood.
+ */
+export function nextOccurrence(text: string, today: string): string | undefined {
+  const task = parseTask(text, 0);
+  if (!task?.recurrence) return undefined;
+  const rule = parseRecurrence(task.recurrence);
+  if (!rule) return undefined;
+
+  let next = setTaskStatusSymbol(removeTaskBlockId(text), ' ');
+  next = setTaskField(next, 'done', undefined);
+  next = setTaskField(next, 'cancelled', undefined);
+  if (task.created) next = setTaskField(next, 'created', today);
+
+  const reference = task.due ?? task.scheduled ?? task.start;
+  if (reference) {
+    const nextReference = nextRecurrenceDate(rule, rule.whenDone ? today : reference);
+    const shift = daysBetween(reference, nextReference);
+    for (const field of ['due', 'scheduled', 'start'] as const) {
+      const date = task[field];
+      if (date) next = setTaskField(next, field, addDays(date, shift));
+    }
+  }
+  return next;
+}
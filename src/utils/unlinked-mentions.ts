@@ -0,0 +1,112 @@
+/**
+ * Unlinked mentions for `graph.suggest_links` and `graph.link_mentions`:
+ * plain text in a note that names another note, by file name or alias,
+ * without linking to it — what Obsidian lists under "Unlinked mentions" in
+ * the backlinks pane.
+ *
+ * Matching ignores case and takes whole words only, longest name first, so
+ * "Project Alpha" wins over "Alpha". Frontmatter, fenced and inline code,
+ * existing links, URLs and tags are not searched. Names shorter than
+ * MIN_NAME_LENGTH are skipped: they match too much ordinary text.
+ */
+
+export interface NoteName {
+  /** A file name without `.md`, or an alias. */
+  name: string;
+  /** The note it names. */
+  target: string;
+}
+
+export interface UnlinkedMention {
+  /** 1-based line number. */
+  line: number;
+  /** Offsets of `text` within the line. */
+  start: number;
+  end: number;
+  /** The mention as written. */
+  text: string;
+  target: string;
+}
+
+export const MIN_NAME_LENGTH = 3;
+
+const FENCE = /^\s*(```|~~~)/;
+/** Spans whose text is not prose: inline code, links, URLs and tags. */
+const NOT_PROSE = [
+  /(`+)[^`]*?\1/g,
+  /!?\[\[[^\]]*\]\]/g,
+  /!?\[[^\]]*\]\([^)]*\)/g,
+  /\b[a-z][a-z0-9+.-]*:\/\/\S+/gi,
+  /(^|\s)#[^\s#]+/g,
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Each line with the parts no mention can be in blanked out, keeping offsets. */
+function searchableLines(content: string): string[] {
+  const lines = content.split('\n');
+  let frontmatterEnd = -1;
+  if (lines[0]?.trim() === '---') {
+    frontmatterEnd = lines.findIndex((text, i) => i > 0 && text.trim() === '---');
+  }
+
+  let fence: string | undefined;
+  return lines.map((text, i) => {
+    if (i <= frontmatterEnd) return '';
+    const marker = FENCE.exec(text)?.[1];
+    if (fence) {
+      if (marker === fence) fence = undefined;
+      return '';
+    }
+    if (marker) {
+      fence = marker;
+      return '';
+    }
+    return NOT_PROSE.reduce((masked, pattern) => masked.replace(pattern, span => ' '.repeat(span.length)), text);
+  });
+}
+
+/**
+ * Every unlinked mention of `names` in `content`, in order. A name given for
+ * more than one note goes to the first; mentions of `self` are skipped.
+ */
+export function findUnlinkedMentions(content: string, names: NoteName[], self?: string): UnlinkedMention[] {
+  const targets = new Map<string, string>();
+  for (const { name, target } of names) {
+    const key = name.trim().toLowerCase();
+    if (key.length >= MIN_NAME_LENGTH && target !== self && !targets.has(key)) targets.set(key, target);
+  }
+  if (targets.size === 0) return [];
+
+  const alternatives = [...targets.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  const original = content.split('\n');
+  const mentions: UnlinkedMention[] = [];
+
+  searchableLines(content).forEach((masked, i) => {
+    for (const match of masked.matchAll(pattern)) {
+      const target = targets.get(match[0].toLowerCase());
+      if (target === undefined) continue;
+      const start = match.index ?? 0;
+      mentions.push({
+        line: i + 1,
+        start,
+        end: start + match[0].length,
+        text: original[i].slice(start, start + match[0].length),
+        target,
+      });
+    }
+  });
+  return mentions;
+}
+
+/** `line` with each mention on it replaced by the link text given for it. */
+export function linkMentionsInLine(line: string, mentions: Array<UnlinkedMention & { link: string }>): string {
+  let after = line;
+  for (const mention of [...mentions].sort((a, b) => b.start - a.start)) {
+    after = after.slice(0, mention.start) + mention.link + after.slice(mention.end);
+  }
+  return after;
+}
@@ -1,4 +1,4 @@
-import { parse, stringify } from 'yaml';
+import { parse, parseDocument, stringify, Document } from 'yaml';
 
 /**
  * Single seam for all YAML parsing/serialization in the Bases subsystem.
@@ -60,3 +60,30 @@ export function stringifyBaseConfig(config: unknown): string {
     singleQuote: false,
   });
 }
+
+/**
+ * Parse a YAML document for editing (note frontmatter in `properties.*`).
+ *
+ * Unlike `parseYaml` this keeps the source's comments, key order and scalar
+ * quoting, so a document edited through `Document.set`/`delete` and written
+ * back with `stringifyYamlDocument` differs from the original only where it
+ * was edited. Parse errors are collected on `doc.errors` rather than thrown.
+ *
+ * @param content - Raw YAML text.
+ */
+export function parseYamlDocument(content: string): Document {
+  return parseDocument(content);
+}
+
+/**
+ * Serialize a document from `parseYamlDocument`.
+ *
+ * - `lineWidth: 0`                 never fold long values
+ * - `flowCollectionPadding: false` `[a, b]` stays `[a, b]`, not `[ a, b ]`
+ *
+ * Block sequences come out indented under their key (`tags:\n  - a`), as
+ * Obsidian writes them.
+ */
+export function stringifyYamlDocument(doc: Document): string {
+  return doc.toString({ lineWidth: 0, flowCollectionPadding: false });
+}
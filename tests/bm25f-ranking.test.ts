@@ -0,0 +1,140 @@
+/**
+ * BM25F search ranking.
+ *
+ * Titles, aliases, headings and tags used to count the same as a word in passing:
+ * AdvancedSearchService scored token overlap and the facade multiplied by a flat
+ * filename bonus. Ranking is now BM25F with per-field boosts from the settings,
+ * understands "quoted phrases" and prefix* words, and the shared vault index
+ * answers from the term statistics AdaptiveTextIndex keeps.
+ */
+import { App, TFile } from 'obsidian';
+import {
+  DEFAULT_FIELD_BOOSTS,
+  collectCorpusStats,
+  fieldSourcesFromMarkdown,
+  fieldTokens,
+  normalizeFieldBoosts,
+  parseRankQuery,
+  scoreBm25f
+} from '../src/indexing/bm25f';
+import { AdaptiveTextIndex } from '../src/indexing/adaptive-index';
+import { VaultFragmentIndex, IndexStore } from '../src/indexing/vault-fragment-index';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+
+class MemoryStore implements IndexStore {
+  files = new Map<string, string>();
+  async exists(path: string): Promise<boolean> { return this.files.has(path); }
+  async read(path: string): Promise<string> { return this.files.get(path)!; }
+  async write(path: string, data: string): Promise<void> { this.files.set(path, data); }
+}
+
+const NOTES: Record<string, string> = {
+  'Kubernetes.md': 'Notes on running clusters.',
+  'ops/runbook.md': '---\naliases: [Cluster guide]\ntags: [infra]\n---\n# Upgrades\nWe mention kubernetes once while talking about deployment and many other things besides.',
+  'ops/migration.md': '# Database migration\nSteps for the schema migration plan.',
+  'ops/journal.md': 'Plan: migration of the database happens later; the schema stays.',
+};
+
+function makeApp(notes: Record<string, string>): App {
+  const files = Object.keys(notes).map(path => {
+    const f = Object.create(TFile.prototype);
+    const name = path.split('/').pop()!;
+    Object.assign(f, { path, name, basename: name.replace(/\.md$/, ''), extension: 'md', stat: { size: 1, mtime: 1, ctime: 1 } });
+    return f as TFile;
+  });
+  return {
+    vault: {
+      getFiles: () => files,
+      read: async (f: TFile) => notes[f.path],
+    },
+    // No cache entries: fields come from the note source
+    metadataCache: { getFileCache: () => null },
+  } as unknown as App;
+}
+
+describe('BM25F scoring', () => {
+  const docs = Object.entries(NOTES).map(([path, content]) => fieldTokens(fieldSourcesFromMarkdown(path, content)));
+  const stats = collectCorpusStats(docs);
+  const score = (path: string, query: string, boosts = DEFAULT_FIELD_BOOSTS) =>
+    scoreBm25f(docs[Object.keys(NOTES).indexOf(path)], parseRankQuery(query), stats, boosts);
+
+  it('should rank a filename match above a passing mention, unless its boost is 0', () => {
+    expect(score('Kubernetes.md', 'kubernetes')).toBeGreaterThan(score('ops/runbook.md', 'kubernetes'));
+    expect(score('Kubernetes.md', 'kubernetes', { ...DEFAULT_FIELD_BOOSTS, filename: 0 })).toBe(0);
+  });
+
+  it('should read aliases, tags and headings from frontmatter and the text', () => {
+    expect(fieldSourcesFromMarkdown('ops/runbook.md', NOTES['ops/runbook.md'])).toMatchObject({
+      filename: 'runbook', aliases: ['Cluster guide'], tags: ['infra'], headings: ['Upgrades'],
+    });
+    expect(score('ops/runbook.md', 'cluster')).toBeGreaterThan(score('Kubernetes.md', 'clusters'));
+  });
+
+  it('should match a quoted phrase only as consecutive words', () => {
+    expect(score('ops/migration.md', '"schema migration"')).toBeGreaterThan(0);
+    expect(score('ops/journal.md', '"schema migration"')).toBe(0);
+    expect(score('ops/journal.md', 'schema migration')).toBeGreaterThan(0);
+  });
+
+  it('should match prefix* words', () => {
+    expect(score('ops/runbook.md', 'deploy')).toBe(0);
+    expect(score('ops/runbook.md', 'deploy*')).toBeGreaterThan(0);
+  });
+
+  it('should fall back to the default for an invalid boost', () => {
+    expect(normalizeFieldBoosts({ filename: -1, headings: 5, tags: 'x' })).toEqual({ ...DEFAULT_FIELD_BOOSTS, headings: 5 });
+  });
+});
+
+describe('AdaptiveTextIndex corpus statistics', () => {
+  it('should count filename-only terms and forget removed documents', () => {
+    const index = new AdaptiveTextIndex();
+    index.indexDocument('file:Kubernetes.md', 'Kubernetes.md', 'Notes on running clusters.');
+    index.indexDocument('file:beta.md', 'beta.md', 'More about kubernetes here.');
+    index.indexDocument('file:gamma.md', 'gamma.md', 'Nothing related.');
+
+    const stats = index.getCorpusStats();
+    expect(stats.documentCount).toBe(3);
+    expect(stats.documentFrequency('kubernetes', false)).toBe(2);
+    expect(stats.documentFrequency('kube', true)).toBe(2);
+
+    index.removeDocument('file:Kubernetes.md');
+    expect(index.getCorpusStats().documentFrequency('kubernetes', false)).toBe(1);
+    expect(index.getCorpusStats().averageFieldLength('filename')).toBe(1);
+  });
+});
+
+describe('vault.search ranking', () => {
+  it('should rank natural-language results by field, with boosts from the settings', async () => {
+    const settings = { searchBoosts: { ...DEFAULT_FIELD_BOOSTS } };
+    const api = new ObsidianAPI(makeApp(NOTES), undefined, { settings });
+
+    const first = await api.searchPaginated('kubernetes', 1, 10);
+    expect(first.results.map(r => r.path)).toEqual(['Kubernetes.md', 'ops/runbook.md']);
+
+    settings.searchBoosts.filename = 0;
+    const content = await api.searchPaginated('kubernetes', 1, 10);
+    expect(content.results.map(r => r.path)).toEqual(['ops/runbook.md']);
+  });
+
+  it('should answer phrases and prefixes from the shared index', async () => {
+    const index = VaultFragmentIndex.getInstance();
+    await index.attach(new MemoryStore(), 'plugin/fragment-index.json');
+    await index.sync(Object.keys(NOTES).map(path => ({ path, mtime: 1 })), async path => NOTES[path]);
+    try {
+      const api = new ObsidianAPI({} as App);
+      const search = async (query: string) => {
+        const response = await new SemanticRouter(api).route({ operation: 'vault', action: 'search', params: { query } }) as any;
+        expect(response.result.method).toBe('vault-index-combined');
+        return response.result.results.map((r: any) => r.path);
+      };
+
+      expect(await search('"schema migration"')).toEqual(['ops/migration.md']);
+      expect(await search('migrat*')).toEqual(['ops/migration.md', 'ops/journal.md']);
+      expect(await search('kubernetes')).toEqual(['Kubernetes.md', 'ops/runbook.md']);
+    } finally {
+      await index.detach();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * graph.broken_links and graph.repair_links.
+ *
+ * Every kind of dead link must be found with its line, each must come with
+ * the fix a person would make, and a bulk repair must only apply the fixes
+ * that are clear — the rest are left for review, never guessed.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { OperationJournal, JournalStore } from '../src/utils/operation-journal';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+function vault(): MemoryAPI {
+  return new MemoryAPI({
+    'Projects/Alpha.md': '# Alpha\n\n## Goals\n\nShip it ^ship\n',
+    'Archive/Beta.md': '# Beta\n\nDone ^done\n',
+    'Notes/Idea.md': [
+      'See [[Alpa]] and [[Old/Beta]].',
+      'Goals: [[Alpha#Goal]], block [[Alpha#^done]].',
+      'Fine: [[Alpha#Goals]], [[Alpha#^ship]], ![[diagram.png]].',
+      'Case: [[alpha]] and [b](../archive/beta.md)',
+      '```',
+      '[[Nowhere]] in code',
+      '```',
+      'Gone: [[Completely Unrelated Title]]',
+    ].join('\n'),
+    'diagram.png': '',
+  });
+}
+
+async function route(api: ObsidianAPI, action: string, params: Record<string, unknown> = {}): Promise<any> {
+  return new SemanticRouter(api).route({ operation: 'graph', action, params });
+}
+
+const brief = (link: any) => [link.line, link.link, link.problem, link.suggestions[0]?.link];
+
+describe('graph.broken_links', () => {
+  it('should list every broken link with its line, problem and best suggestion', async () => {
+    const response = await route(vault(), 'broken_links');
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.broken.map(brief)).toEqual([
+      [1, '[[Alpa]]', 'missing_note', '[[Alpha]]'],
+      [1, '[[Old/Beta]]', 'missing_note', '[[Archive/Beta]]'],
+      [2, '[[Alpha#Goal]]', 'missing_heading', '[[Alpha#Goals]]'],
+      [2, '[[Alpha#^done]]', 'missing_block', '[[Beta#^done]]'],
+      [4, '[[alpha]]', 'case_mismatch', '[[Alpha]]'],
+      [4, '[b](../archive/beta.md)', 'case_mismatch', '[b](../Archive/Beta.md)'],
+      [8, '[[Completely Unrelated Title]]', 'missing_note', undefined],
+    ]);
+    expect(response.result.byProblem).toEqual({ missing_note: 3, missing_heading: 1, missing_block: 1, case_mismatch: 2 });
+    expect(response.result.broken[1].suggestions[0]).toMatchObject({ reason: 'moved', target: 'Archive/Beta.md' });
+  });
+
+  it('should narrow to a path and to some problems', async () => {
+    const api = vault();
+    api.files.set('Other/Note.md', '[[Missing]]');
+
+    const response = await route(api, 'broken_links', { path: 'Notes', problems: ['case_mismatch'] });
+
+    expect(response.result.notesChecked).toBe(1);
+    expect(response.result.broken.map((l: any) => l.problem)).toEqual(['case_mismatch', 'case_mismatch']);
+  });
+
+  it('should suggest where the journal says a note was renamed', async () => {
+    const store: JournalStore = {
+      exists: async () => false,
+      read: async () => '',
+      write: async () => {},
+      append: async () => {},
+    };
+    const journal = OperationJournal.getInstance();
+    await journal.attach(store, 'journal.jsonl');
+    try {
+      journal.record({ type: 'rename', path: 'Drafts/Plan.md', targetPath: 'Projects/Alpha.md', before: null, after: null });
+      const api = new MemoryAPI({ 'Projects/Alpha.md': '# Alpha', 'Notes/Ref.md': 'See [[Plan|the plan]].' });
+
+      const response = await route(api, 'broken_links');
+
+      expect(response.result.broken[0].suggestions[0]).toEqual({
+        link: '[[Alpha|the plan]]', target: 'Projects/Alpha.md', reason: 'moved', score: 1,
+      });
+    } finally {
+      await journal.detach();
+    }
+  });
+});
+
+describe('graph.repair_links', () => {
+  it('should apply clear fixes and leave the rest for review', async () => {
+    const api = vault();
+    const response = await route(api, 'repair_links');
+
+    expect(response.error).toBeUndefined();
+    expect(api.files.get('Notes/Idea.md')!.split('\n').slice(0, 4)).toEqual([
+      'See [[Alpha]] and [[Archive/Beta]].',
+      'Goals: [[Alpha#Goals]], block [[Beta#^done]].',
+      'Fine: [[Alpha#Goals]], [[Alpha#^ship]], ![[diagram.png]].',
+      'Case: [[Alpha]] and [b](../Archive/Beta.md)',
+    ]);
+    expect(response.result.files).toEqual(['Notes/Idea.md']);
+    expect(response.result.repaired).toHaveLength(6);
+    expect(response.result.skipped.map((l: any) => [l.link, l.reason])).toEqual([
+      ['[[Completely Unrelated Title]]', 'no suggestion'],
+    ]);
+  });
+
+  it('should skip a fix that ties with another or scores below the threshold', async () => {
+    const api = new MemoryAPI({
+      'A/Topic.md': '', 'B/Topic.md': '', 'Note.md': '[[Old/Topic]] and [[Topik]]',
+    });
+
+    const response = await route(api, 'repair_links', { threshold: 0.9 });
+
+    expect(api.files.get('Note.md')).toBe('[[Old/Topic]] and [[Topik]]');
+    expect(response.result.skipped.map((l: any) => l.reason)).toEqual([
+      'ambiguous: A/Topic.md or B/Topic.md',
+      'best suggestion scores 0.80, below the threshold',
+    ]);
+  });
+
+  it('should preview the repair as a diff with dryRun', async () => {
+    const api = vault();
+    const before = new Map(api.files);
+
+    const response = await route(api, 'repair_links', { dryRun: true });
+
+    expect(api.files).toEqual(before);
+    expect(response.result.files).toEqual([{ path: 'Notes/Idea.md', change: 'modified' }]);
+    expect(response.result.diff).toContain('+See [[Alpha]] and [[Archive/Beta]].');
+  });
+
+  it('should format repaired and skipped links', async () => {
+    const response = await route(vault(), 'repair_links');
+    const text = formatResponse('graph', 'repair_links', response.result);
+
+    expect(text).toContain('# Repaired 6 links in 1 files');
+    expect(text).toContain('- Notes/Idea.md:1 `[[Alpa]]` — missing note → `[[Alpha]]` (fuzzy)');
+    expect(text).toContain('## Left for review');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * The canvas operation, the JSON Canvas helpers behind it, and canvas edges
+ * in the graph.
+ *
+ * Edits must keep a canvas valid against the JSON Canvas spec and written the
+ * way Obsidian writes it, and the notes a canvas shows must count as links
+ * from it in `graph.backlinks` and `graph.traverse`.
+ */
+import { App, TFile } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { GraphSearchTool } from '../src/tools/graph-search';
+import { autoLayout, canvasReferences, parseCanvas, validateCanvas, CanvasData } from '../src/utils/json-canvas';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const BOARD: CanvasData = {
+  nodes: [
+    { id: 'g', type: 'group', label: 'Plan', x: -20, y: -20, width: 700, height: 500 },
+    { id: 'idea', type: 'text', text: 'See [[Alpha]]', x: 0, y: 0, width: 250, height: 60 },
+    { id: 'alpha', type: 'file', file: 'Projects/Alpha.md', x: 0, y: 100, width: 400, height: 300 },
+    { id: 'site', type: 'link', url: 'https://jsoncanvas.org', x: 900, y: 0, width: 400, height: 400 },
+  ],
+  edges: [{ id: 'e1', fromNode: 'idea', toNode: 'alpha', toEnd: 'arrow' }],
+};
+
+function vault(): MemoryAPI {
+  return new MemoryAPI({
+    'board.canvas': JSON.stringify(BOARD, null, '\t'),
+    'Projects/Alpha.md': '# Alpha\nDepends on [[Beta]].\n',
+    'Projects/Beta.md': '# Beta\nSee [Alpha](Alpha.md) and [[Nowhere]].\n',
+  });
+}
+
+async function route(api: ObsidianAPI, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation: 'canvas', action, params });
+}
+
+const canvasOf = (api: MemoryAPI, path = 'board.canvas') => parseCanvas(api.files.get(path)!);
+
+describe('JSON Canvas helpers', () => {
+  it('should report every departure from the spec', () => {
+    const canvas = parseCanvas(JSON.stringify({
+      nodes: [
+        { id: 'a', type: 'text', x: 0, y: 0, width: 10.5, height: 10 },
+        { id: 'a', type: 'file', file: 'x.md', subpath: 'Heading', x: 0, y: 0, width: 10, height: 10, color: 'red' },
+        { id: 'c', type: 'sticker', x: 0, y: 0, width: 10, height: 10 },
+      ],
+      edges: [{ id: 'e', fromNode: 'a', toNode: 'zz', toSide: 'middle' }],
+    }));
+
+    expect(validateCanvas(canvas)).toEqual([
+      'nodes[0].width: must be an integer',
+      'nodes[0].text: required',
+      'nodes[1].id: "a" is used more than once',
+      'nodes[1].color: must be "1" to "6" or a hex color',
+      'nodes[1].subpath: must start with #',
+      'nodes[2].type: must be one of text, file, link, group',
+      'edges[0].toNode: no node "zz"',
+      'edges[0].toSide: must be one of top, right, bottom, left',
+    ]);
+    expect(validateCanvas(BOARD)).toEqual([]);
+    expect(parseCanvas('')).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('should lay new cards out below existing content and find what a canvas links to', () => {
+    expect(autoLayout([], 3)).toEqual([{ x: 0, y: 0 }, { x: 480, y: 0 }, { x: 0, y: 480 }]);
+    expect(autoLayout(BOARD.nodes, 2, { columns: 1 })).toEqual([{ x: -20, y: 640 }, { x: -20, y: 1120 }]);
+
+    expect(canvasReferences(BOARD)).toEqual({ files: ['Projects/Alpha.md'], links: ['Alpha'] });
+  });
+});
+
+describe('canvas operation', () => {
+  it('should read nodes and edges and list canvases', async () => {
+    const api = vault();
+    const read = await route(api, 'read', { path: 'board.canvas' });
+    expect(read.result.nodes.map((n: any) => n.id)).toEqual(['g', 'idea', 'alpha', 'site']);
+    expect(read.result.issues).toEqual([]);
+
+    const listed = await route(api, 'list', {});
+    expect(listed.result.canvases).toEqual([{ path: 'board.canvas', nodes: 4, edges: 1 }]);
+
+    const notCanvas = await route(api, 'read', { path: 'Projects/Alpha.md' });
+    expect(notCanvas.error.message).toContain('must end in .canvas');
+  });
+
+  it('should add nodes and edges and write tab-indented JSON', async () => {
+    const api = vault();
+    const added = await route(api, 'add_node', { path: 'board.canvas', type: 'file', file: 'Projects/Beta.md', subpath: '#Beta' });
+    const beta = added.result.node;
+    expect(beta).toMatchObject({ type: 'file', x: -20, y: 640, width: 400, height: 400 });
+    expect(beta.id).toMatch(/^[0-9a-f]{16}$/);
+
+    const edge = await route(api, 'add_edge', { path: 'board.canvas', fromNode: 'alpha', toNode: beta.id, fromSide: 'bottom', label: 'depends on' });
+    expect(edge.result.edge).toMatchObject({ fromNode: 'alpha', toNode: beta.id, fromSide: 'bottom', label: 'depends on' });
+
+    const group = await route(api, 'add_node', { path: 'board.canvas', type: 'group', label: 'Links', around: ['site'] });
+    expect(group.result.node).toMatchObject({ x: 860, y: -40, width: 480, height: 480 });
+
+    const canvas = canvasOf(api);
+    expect(canvas.nodes[0].id).toBe(group.result.node.id); // groups sit beneath the cards
+    expect(canvas.edges).toHaveLength(2);
+    expect(api.files.get('board.canvas')).toContain('\n\t"nodes": [\n\t\t{');
+    expect(validateCanvas(canvas)).toEqual([]);
+  });
+
+  it('should move a group with the cards inside it, and remove a node with its edges', async () => {
+    const api = vault();
+    const moved = await route(api, 'move', { path: 'board.canvas', id: 'g', dx: 100, dy: 50 });
+    expect(moved.result.moved).toEqual(['g', 'idea', 'alpha']);
+    expect(canvasOf(api).nodes.map(n => [n.id, n.x, n.y])).toEqual([
+      ['g', 80, 30], ['idea', 100, 50], ['alpha', 100, 150], ['site', 900, 0],
+    ]);
+
+    const removed = await route(api, 'remove', { path: 'board.canvas', id: 'alpha' });
+    expect(removed.result).toMatchObject({ removedNodes: ['alpha'], removedEdges: ['e1'] });
+    expect(canvasOf(api).edges).toEqual([]);
+
+    const missing = await route(api, 'remove', { path: 'board.canvas', ids: ['nope'] });
+    expect(missing.error.code).toBe('NODE_NOT_FOUND');
+  });
+
+  it('should refuse an edit that would make the canvas invalid', async () => {
+    const api = vault();
+    const before = api.files.get('board.canvas');
+
+    const response = await route(api, 'add_node', { path: 'board.canvas', type: 'text', text: 'x', width: 12.5 });
+    expect(response.error.code).toBe('INVALID_CANVAS');
+    expect(response.error.message).toContain('width: must be an integer');
+
+    const duplicate = await route(api, 'add_edge', { path: 'board.canvas', id: 'alpha', fromNode: 'idea', toNode: 'site' });
+    expect(duplicate.error.code).toBe('INVALID_CANVAS');
+    expect(api.files.get('board.canvas')).toBe(before);
+  });
+
+  it('should lay notes out on a new canvas with edges for the links between them', async () => {
+    const api = vault();
+    const response = await route(api, 'layout', { path: 'Maps/projects.canvas', glob: 'Projects/**' });
+
+    expect(response.result).toMatchObject({ created: true, alreadyOnCanvas: [], edgesAdded: 2 });
+    const canvas = canvasOf(api, 'Maps/projects.canvas');
+    const idOf = (file: string) => canvas.nodes.find(n => n.file === file)!.id;
+    expect(canvas.nodes.map(n => [n.file, n.x, n.y])).toEqual([['Projects/Alpha.md', 0, 0], ['Projects/Beta.md', 480, 0]]);
+    expect(canvas.edges.map(e => [e.fromNode, e.toNode])).toEqual([
+      [idOf('Projects/Alpha.md'), idOf('Projects/Beta.md')],
+      [idOf('Projects/Beta.md'), idOf('Projects/Alpha.md')],
+    ]);
+
+    // Alpha is already on the board: only Beta is placed
+    const board = await route(api, 'layout', { path: 'board.canvas', paths: ['Projects/Alpha.md', 'Projects/Beta.md'] });
+    expect(board.result).toMatchObject({ created: false, alreadyOnCanvas: ['Projects/Alpha.md'], edgesAdded: 2 });
+    expect(board.result.added.map((a: any) => a.file)).toEqual(['Projects/Beta.md']);
+  });
+
+  it('should create a canvas only where none exists, and preview edits with dryRun', async () => {
+    const api = vault();
+    const exists = await route(api, 'create', { path: 'board.canvas' });
+    expect(exists.error.code).toBe('ALREADY_EXISTS');
+
+    const invalid = await route(api, 'create', { path: 'new.canvas', edges: [{ id: 'e', fromNode: 'x', toNode: 'y' }] });
+    expect(invalid.error.code).toBe('INVALID_CANVAS');
+
+    const before = api.files.get('board.canvas');
+    const preview = await route(api, 'move', { path: 'board.canvas', id: 'site', x: 1000, dryRun: true });
+    expect(preview.result.dryRun).toBe(true);
+    expect(preview.result.diff).toContain('+\t\t\t"x": 1000,');
+    expect(api.files.get('board.canvas')).toBe(before);
+  });
+
+  it('should format a canvas as nodes and edges', async () => {
+    const response = await route(vault(), 'read', { path: 'board.canvas' });
+    const text = formatResponse('canvas', 'read', response.result);
+    expect(text).toContain('- `idea` text: See [[Alpha]] — at 0,0, 250×60');
+    expect(text).toContain('- `e1` idea → alpha');
+  });
+});
+
+describe('canvas edges in the graph', () => {
+  function file(path: string, mtime = 1): TFile {
+    const f = new TFile();
+    f.path = path;
+    f.name = path.split('/').pop()!;
+    f.basename = f.name.replace(/\.[^.]+$/, '');
+    f.extension = path.slice(path.lastIndexOf('.') + 1);
+    f.stat = { mtime, ctime: 0, size: 0 };
+    return f;
+  }
+
+  it('should count file cards and text-card links as edges from the canvas', async () => {
+    const files = [file('board.canvas'), file('Projects/Alpha.md'), file('Projects/Beta.md')];
+    const byPath = new Map(files.map(f => [f.path, f]));
+    const cachedRead = jest.fn(async () => JSON.stringify(BOARD));
+    const app = new App();
+    Object.assign(app.vault, {
+      getFiles: () => files,
+      getAbstractFileByPath: (path: string) => byPath.get(path) ?? null,
+      cachedRead,
+    });
+    (app as any).metadataCache = {
+      resolvedLinks: { 'Projects/Alpha.md': { 'Projects/Beta.md': 1 } },
+      getFileCache: () => ({}),
+      getFirstLinkpathDest: (link: string) => byPath.get(`Projects/${link}.md`) ?? null,
+    };
+    const tool = new GraphSearchTool({ getReadExclusions: () => undefined } as unknown as ObsidianAPI, app);
+    await tool.refreshCanvasLinks();
+
+    const backlinks = tool.search({ operation: 'backlinks', sourcePath: 'Projects/Alpha.md' });
+    expect(backlinks.edges).toEqual([
+      { source: 'board.canvas', target: 'Projects/Alpha.md', type: 'canvas', count: 2 },
+    ]);
+
+    const traversal = tool.search({ operation: 'traverse', sourcePath: 'board.canvas', maxDepth: 2 });
+    expect(traversal.nodes!.map(n => n.path).sort()).toEqual(['Projects/Alpha.md', 'Projects/Beta.md', 'board.canvas']);
+
+    // An unchanged canvas is not read again, by this search or the next request's
+    await tool.refreshCanvasLinks();
+    const next = new GraphSearchTool({ getReadExclusions: () => undefined } as unknown as ObsidianAPI, app);
+    await next.refreshCanvasLinks();
+    expect(next.search({ operation: 'backlinks', sourcePath: 'Projects/Alpha.md' }).edges).toHaveLength(1);
+    expect(cachedRead).toHaveBeenCalledTimes(1);
+
+    // A changed one is
+    files[0] = file('board.canvas', 2);
+    byPath.set('board.canvas', files[0]);
+    await new GraphSearchTool({ getReadExclusions: () => undefined } as unknown as ObsidianAPI, app).refreshCanvasLinks();
+    expect(cachedRead).toHaveBeenCalledTimes(2);
+  });
+});
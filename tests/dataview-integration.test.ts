@@ -215,6 +215,10 @@ class MockObsidianAPI {
   getApp() {
     return this.app;
   }
+
+  isReadable() {
+    return true;
+  }
 }
 
 describe('Dataview Integration', () => {
@@ -0,0 +1,249 @@
+/**
+ * DataviewJS through dataview.query with format 'js'.
+ *
+ * executeQuery used to throw "JavaScript queries not yet implemented". Scripts
+ * now run in a vm context behind a membrane — no require, no app, nothing that
+ * leads back to the host — synchronously, under a time limit and an output budget, with
+ * dv.table / dv.list / dv.paragraph captured as structured outputs.
+ */
+import { runDataviewJs, DataviewJsError } from '../src/tools/dataview-js-sandbox';
+import { DataviewTool } from '../src/tools/dataview-tool';
+import { createSemanticTools } from '../src/tools/semantic-tools';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+
+/** Just enough of Dataview's DataArray: array(), where(), map(), iteration. */
+function dataArray<T>(items: T[]): any {
+  return {
+    length: items.length,
+    array: () => items.slice(),
+    where: (predicate: (item: T) => unknown) => dataArray(items.filter(item => predicate(item))),
+    map: <U>(fn: (item: T) => U) => dataArray(items.map(fn)),
+    sort: (key: (item: T) => any, direction?: string) => dataArray(items.slice().sort((a, b) =>
+      (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0) * (direction === 'desc' ? -1 : 1))),
+    [Symbol.iterator]: () => items[Symbol.iterator](),
+  };
+}
+
+const PAGES = [
+  { file: { path: 'Projects/Alpha.md', name: 'Alpha', link: { path: 'Projects/Alpha.md', display: 'Alpha' }, mtime: new Date('2026-10-01T00:00:00Z') }, status: 'active', priority: 2 },
+  { file: { path: 'Projects/Beta.md', name: 'Beta', link: { path: 'Projects/Beta.md', display: 'Beta' }, mtime: new Date('2026-09-01T00:00:00Z') }, status: 'done', priority: 1 },
+  { file: { path: 'Projects/Gamma.md', name: 'Gamma', link: { path: 'Projects/Gamma.md', display: 'Gamma' }, mtime: new Date('2026-08-01T00:00:00Z') }, status: 'active', priority: 3 },
+];
+
+function fakeDataviewApi(): Record<string, unknown> {
+  return {
+    pages: () => dataArray(PAGES),
+    page: (path: string) => PAGES.find(p => p.file.path === path),
+    query: async (dql: string) => ({ successful: true, value: { type: 'list', values: [dql] } }),
+    execute: () => { throw new Error('should not be reachable'); },
+  };
+}
+
+const run = (source: string, options = {}) => runDataviewJs(source, fakeDataviewApi(), options);
+
+describe('runDataviewJs', () => {
+  it('should capture tables, lists, headers and paragraphs as data', async () => {
+    const result = await run(`
+      const active = dv.pages().where(p => p.status === 'active').sort(p => p.priority, 'desc');
+      dv.header(2, 'Active projects');
+      dv.table(['Project', 'Priority', 'Modified'], active.map(p => [p.file.link, p.priority, p.file.mtime]));
+      dv.list(active.map(p => p.file.name));
+      dv.paragraph(\`\${active.length} of \${dv.pages().length} projects are active\`);
+    `);
+
+    expect(result.outputs).toEqual([
+      { type: 'header', level: 2, text: 'Active projects' },
+      {
+        type: 'table',
+        headers: ['Project', 'Priority', 'Modified'],
+        values: [
+          [{ path: 'Projects/Gamma.md', display: 'Gamma' }, 3, '2026-08-01T00:00:00.000Z'],
+          [{ path: 'Projects/Alpha.md', display: 'Alpha' }, 2, '2026-10-01T00:00:00.000Z'],
+        ],
+      },
+      { type: 'list', values: ['Gamma', 'Alpha'] },
+      { type: 'paragraph', text: '2 of 3 projects are active' },
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should answer dv.current() for the given note', async () => {
+    const result = await run(`console.log('current:', dv.current().file.name);`, { currentPath: 'Projects/Beta.md' });
+    expect(result.logs).toEqual(['current: Beta']);
+  });
+
+  it('should refuse asynchronous code, which the time limit could not stop', async () => {
+    await expect(run(`const answer = await dv.query('LIST');`)).rejects.toThrow(/await is not supported/);
+    await expect(run(`dv.query('LIST')`)).rejects.toThrow(/dv.query is asynchronous/);
+
+    // Promise callbacks never run, so nothing reaches the result after the script returns
+    const started = Date.now();
+    const result = await run(`
+      (async () => { await null; dv.paragraph('late'); })();
+      Promise.resolve().then(() => dv.paragraph('later'));
+      dv.paragraph('now');
+    `);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(result.outputs).toEqual([{ type: 'paragraph', text: 'now' }]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should give the script no way to reach the host', async () => {
+    const probe = await run(`
+      dv.list([
+        typeof require, typeof process, typeof app, typeof window, typeof module,
+        typeof dv.constructor, typeof dv.pages.constructor, Object.getPrototypeOf(dv) === null,
+        typeof this.constructor.constructor,
+      ]);
+    `);
+    expect((probe.outputs[0] as { values: unknown[] }).values).toEqual([
+      'undefined', 'undefined', 'undefined', 'undefined', 'undefined',
+      'undefined', 'undefined', true, 'function',
+    ]);
+
+    // The context's own Function cannot compile code, and Dataview objects cannot be written
+    await expect(run(`this.constructor.constructor('return process')()`)).rejects.toThrow(DataviewJsError);
+    await expect(run(`'use strict'; dv.pages().array()[0].status = 'x';`)).rejects.toThrow(/DataviewJS failed/);
+    expect(PAGES[0].status).toBe('active');
+
+    await expect(run(`dv.execute('LIST')`)).rejects.toThrow(/dv.execute is not available/);
+  });
+
+  it('should keep errors thrown by host getters and proxies inside the sandbox', async () => {
+    const hostile = new Proxy({}, {
+      get: () => { throw new Error('get'); },
+      has: () => { throw new Error('has'); },
+      ownKeys: () => { throw new Error('ownKeys'); },
+      getOwnPropertyDescriptor: () => { throw new Error('getOwnPropertyDescriptor'); },
+    });
+    const api = {
+      ...fakeDataviewApi(),
+      array: () => ({ get foo() { throw new Error('getter'); } }),
+      page: () => hostile,
+    };
+    const probe = await runDataviewJs(`
+      const caught = [];
+      const attempt = fn => { try { fn(); } catch (e) { caught.push(e); } };
+      attempt(() => dv.array([null]).foo);
+      attempt(() => dv.page('x').foo);
+      attempt(() => 'foo' in dv.page('x'));
+      attempt(() => Object.keys(dv.page('x')));
+      attempt(() => Object.getOwnPropertyDescriptor(dv.page('x'), 'foo'));
+      dv.list(caught.map(e => [e.message, typeof e.constructor, Object.getPrototypeOf(e) === null]));
+    `, api);
+    expect((probe.outputs[0] as { values: unknown[] }).values).toEqual([
+      ['getter', 'undefined', true],
+      ['get', 'undefined', true],
+      ['has', 'undefined', true],
+      ['ownKeys', 'undefined', true],
+      ['getOwnPropertyDescriptor', 'undefined', true],
+    ]);
+
+    await expect(runDataviewJs(`
+      let e; try { dv.array([null]).foo } catch (x) { e = x }
+      dv.paragraph(typeof e.constructor.constructor('return process')().pid)
+    `, api)).rejects.toThrow(DataviewJsError);
+  });
+
+  it('should stop a script that runs past the time limit, in its body or in a callback', async () => {
+    await expect(run('while (true) {}', { timeoutMs: 200 })).rejects.toMatchObject({ code: 'DATAVIEW_JS_TIMEOUT' });
+    await expect(run(`dv.pages().where(() => { while (true) {} })`, { timeoutMs: 200 })).rejects.toMatchObject({ code: 'DATAVIEW_JS_TIMEOUT' });
+    await expect(run(`try { dv.pages().where(() => { while (true) {} }) } catch {} dv.paragraph('after')`, { timeoutMs: 200 })).rejects.toMatchObject({ code: 'DATAVIEW_JS_TIMEOUT' });
+  });
+
+  it('should not let work after an await outlive the time limit', async () => {
+    const started = Date.now();
+    const late = `await null; const end = Date.now() + 3000; while (Date.now() < end) {} dv.paragraph("late")`;
+    await expect(run(late, { timeoutMs: 200 })).rejects.toThrow(/await is not supported/);
+    await expect(run(`(async () => { ${late} })()`, { timeoutMs: 200 })).resolves.toMatchObject({ outputs: [] });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should drop output past the budget and mark the result truncated', async () => {
+    const result = await run(`for (let i = 0; i < 100; i++) dv.paragraph('line ' + i);`, { maxOutputChars: 400 });
+    expect(result.truncated).toBe(true);
+    expect(result.outputs.length).toBeGreaterThan(0);
+    expect(result.outputs.length).toBeLessThan(100);
+  });
+
+  it('should report script errors with their message', async () => {
+    await expect(run(`throw new Error('no such field')`)).rejects.toThrow('DataviewJS failed: no such field');
+  });
+});
+
+describe('dataview.query with format js', () => {
+  function makeApi(enableDataviewJs: boolean, ignored?: string, dataview = fakeDataviewApi()): ObsidianAPI {
+    const app = {
+      plugins: {
+        enabledPlugins: new Set(['dataview']),
+        manifests: { dataview: { version: '0.5.67' } },
+        plugins: { dataview: { manifest: { version: '0.5.67' }, api: dataview } },
+      },
+    };
+    const ignoreManager = { getEnabled: () => ignored !== undefined, isExcluded: (path: string) => path === ignored };
+    return new ObsidianAPI(app as any, undefined, { settings: { enableDataviewJs }, ignoreManager } as any);
+  }
+
+  const callQuery = async (api: ObsidianAPI, enabled: boolean) => {
+    const tool = createSemanticTools(api, undefined, false, enabled).find(t => t.name === 'dataview')!;
+    const response = await tool.handler(api, { action: 'query', format: 'js', query: `dv.list(dv.pages().map(p => p.file.name))`, raw: true });
+    return { tool, response: JSON.parse((response.content[0] as { text: string }).text) };
+  };
+
+  it('should refuse while DataviewJS is not allowed, and not advertise it', async () => {
+    const { tool, response } = await callQuery(makeApi(false), false);
+    expect(response.error.code).toBe('DATAVIEW_JS_DISABLED');
+    expect((tool.inputSchema.properties as any).format.enum).toEqual(['dql']);
+  });
+
+  it('should run the script when allowed', async () => {
+    const { tool, response } = await callQuery(makeApi(true), true);
+    expect((tool.inputSchema.properties as any).format.enum).toEqual(['dql', 'js']);
+    expect(response.result).toMatchObject({
+      success: true,
+      format: 'js',
+      result: { type: 'js', outputs: [{ type: 'list', values: ['Alpha', 'Beta', 'Gamma'] }] },
+    });
+  });
+
+  it('should show the script only the notes the API may read', async () => {
+    // Alpha links to Beta, which .mcpignore hides
+    const beta = { path: 'Projects/Beta.md', display: 'Beta' };
+    const pages = PAGES.map(p => ({ ...p, file: { ...p.file, outlinks: dataArray(p === PAGES[0] ? [beta] : []) } }));
+    const dataview = {
+      ...fakeDataviewApi(),
+      pages: () => dataArray(pages),
+      pagePaths: () => dataArray(pages.map(p => p.file.path)),
+      page: (path: string) => pages.find(p => p.file.path === path),
+      evaluate: () => 'Beta was reached',
+    };
+    const api = makeApi(true, 'Projects/Beta.md', dataview);
+    const response = await new DataviewTool(api).executeQuery(`
+      dv.list(dv.pages().map(p => p.file.name));
+      dv.list(dv.pagePaths());
+      dv.paragraph(String(dv.page('Projects/Beta.md')));
+      dv.list(dv.page('Projects/Alpha.md').file.outlinks.map(l => l.path));
+      try { dv.evaluate('[[Beta]].status'); } catch (e) { dv.paragraph(e.message); }
+    `, 'js', 'Projects/Beta.md') as { result: { outputs: unknown[] } };
+
+    expect(response.result.outputs).toEqual([
+      { type: 'list', values: ['Alpha', 'Gamma'] },
+      { type: 'list', values: ['Projects/Alpha.md', 'Projects/Gamma.md'] },
+      { type: 'paragraph', text: 'undefined' },
+      { type: 'list', values: [] },
+      { type: 'paragraph', text: expect.stringMatching(/dv.evaluate is not available/) },
+    ]);
+    const current = await new DataviewTool(api).executeQuery(`dv.paragraph(String(dv.current()))`, 'js', 'Projects/Beta.md') as { result: { outputs: unknown[] } };
+    expect(current.result.outputs).toEqual([{ type: 'paragraph', text: 'undefined' }]);
+  });
+
+  it('should render captured outputs in the formatted response', async () => {
+    const api = makeApi(true);
+    const result = await new DataviewTool(api).executeQuery(`dv.header(3, 'Status'); dv.table(['Name'], [['Alpha']])`, 'js');
+    const { formatResponse } = await import('../src/formatters');
+    const text = formatResponse('dataview', 'query', result, false);
+    expect(text).toContain('Status');
+    expect(text).toContain('Alpha');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * dryRun — preview edits and vault writes as a unified diff, writing nothing.
+ *
+ * Reviewers want an agent to show the exact change and get sign-off before the
+ * vault is touched. The preview must come from the same code path as the real
+ * write (so it cannot promise a different result), must never write, and an
+ * action that cannot be previewed must refuse rather than write for real.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { SecureObsidianAPI } from '../src/security/secure-obsidian-api';
+import { App, TFile } from 'obsidian';
+import { MemoryAPI } from './fixtures/memory-api';
+
+/** A real security layer over a one-note vault, for checks a preview must not skip. */
+function secureAPI(options: { readOnly?: boolean; create?: boolean }): SecureObsidianAPI {
+  const file = new TFile();
+  file.path = 'todo.md';
+  file.name = 'todo.md';
+  file.extension = 'md';
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) => (p === 'todo.md' ? file : null),
+      read: async () => NOTE,
+    },
+    metadataCache: { getFileCache: () => null },
+  } as unknown as App;
+  return new SecureObsidianAPI(app, undefined, { settings: { readOnlyMode: options.readOnly } } as never, {
+    pathValidation: 'strict',
+    permissions: { read: true, create: options.create ?? true, update: true, delete: true, move: true, rename: true, execute: true },
+    blockedPaths: [],
+    logSecurityEvents: false,
+  });
+}
+
+const NOTE = '# Tasks\n\n- alpha\n- beta\n\n# Notes\n\nSome text.\n';
+
+async function route(api: ObsidianAPI, operation: string, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation, action, params: { ...params, dryRun: true } });
+}
+
+describe('dryRun', () => {
+  it('should preview edit.window as a diff without writing', async () => {
+    const api = new MemoryAPI({ 'todo.md': NOTE });
+    const response = await route(api, 'edit', 'window', { path: 'todo.md', oldText: '- beta', newText: '- beta (done)' });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.files).toEqual([{ path: 'todo.md', change: 'modified' }]);
+    expect(response.result.diff).toContain('--- a/todo.md\n+++ b/todo.md');
+    expect(response.result.diff).toContain('-- beta\n+- beta (done)');
+    expect(api.files.get('todo.md')).toBe(NOTE);
+    expect(api.writes).toEqual([]);
+  });
+
+  it('should preview edit.patch through the same patch code as the real write', async () => {
+    const api = new MemoryAPI({ 'todo.md': NOTE });
+    const response = await route(api, 'edit', 'patch', {
+      path: 'todo.md', targetType: 'heading', target: 'Tasks', operation: 'append', content: '- gamma',
+    });
+
+    expect(response.result.diff).toContain('+- gamma');
+    expect(api.writes).toEqual([]);
+  });
+
+  it('should list every file vault.split would create', async () => {
+    const api = new MemoryAPI({ 'todo.md': NOTE });
+    const response = await route(api, 'vault', 'split', { path: 'todo.md', splitBy: 'heading', level: 1 });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.files.length).toBeGreaterThan(1);
+    expect(response.result.files.every((f: any) => f.change === 'created')).toBe(true);
+    expect(response.result.diff).toContain('--- /dev/null');
+    expect([...api.files.keys()]).toEqual(['todo.md']);
+  });
+
+  it('should preview every step of an edit.batch together', async () => {
+    const api = new MemoryAPI({ 'a.md': 'alpha', 'b.md': 'bravo' });
+    const response = await route(api, 'edit', 'batch', {
+      operations: [
+        { operation: 'edit', action: 'append', params: { path: 'a.md', content: ' one' } },
+        { operation: 'vault', action: 'update', params: { path: 'b.md', content: 'BRAVO' } },
+      ],
+    });
+
+    expect(response.result.files.map((f: any) => f.path)).toEqual(['a.md', 'b.md']);
+    expect(Object.fromEntries(api.files)).toEqual({ 'a.md': 'alpha', 'b.md': 'bravo' });
+  });
+
+  it('should refuse a preview the real write would refuse', async () => {
+    const readOnly = await route(secureAPI({ readOnly: true }), 'edit', 'window', {
+      path: 'todo.md', oldText: '- beta', newText: '- beta (done)',
+    });
+    expect(readOnly.error.message).toContain("Operation 'update' is not permitted");
+
+    const noCreate = await route(secureAPI({ create: false }), 'vault', 'split', { path: 'todo.md', splitBy: 'heading', level: 1 });
+    expect(noCreate.error.message).toContain("Operation 'create' is not permitted");
+  });
+
+  it('should refuse dryRun on an action it cannot preview instead of writing', async () => {
+    const api = new MemoryAPI({ 'todo.md': NOTE });
+    const response = await route(api, 'vault', 'delete', { path: 'todo.md' });
+
+    expect(response.error.message).toContain('dryRun is not supported for vault.delete');
+    expect(api.files.has('todo.md')).toBe(true);
+  });
+});
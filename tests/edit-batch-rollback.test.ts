@@ -0,0 +1,146 @@
+/**
+ * edit.batch — ordered multi-file edits, all-or-nothing.
+ *
+ * The failure this guards against: a refactor across many notes that fails part way
+ * left the vault half-migrated, because every step committed on its own. A failing
+ * batch must leave every file exactly as it was (including undoing a move), and name
+ * the step that failed.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { FileLockManager } from '../src/utils/file-lock';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const INITIAL = {
+  'a.md': 'alpha',
+  'b.md': 'bravo',
+  'c.md': 'charlie',
+};
+
+describe('edit.batch', () => {
+  it('should apply every step and report them in order', async () => {
+    const api = new MemoryAPI(INITIAL);
+    const response = await new SemanticRouter(api).route({
+      operation: 'edit',
+      action: 'batch',
+      params: {
+        operations: [
+          { operation: 'edit', action: 'append', params: { path: 'a.md', content: ' one' } },
+          { operation: 'vault', action: 'update', params: { path: 'b.md', content: 'BRAVO' } },
+          { operation: 'vault', action: 'create', params: { path: 'd.md', content: 'delta' } },
+        ],
+      },
+    }) as any;
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.stepsApplied).toBe(3);
+    expect(response.result.results.map((r: any) => `${r.operation}.${r.action}`))
+      .toEqual(['edit.append', 'vault.update', 'vault.create']);
+    expect(api.files.get('a.md')).toBe('alpha one');
+    expect(api.files.get('b.md')).toBe('BRAVO');
+    expect(api.files.get('d.md')).toBe('delta');
+  });
+
+  it('should roll back every completed step when a later one fails', async () => {
+    const api = new MemoryAPI(INITIAL);
+    const response = await new SemanticRouter(api).route({
+      operation: 'edit',
+      action: 'batch',
+      params: {
+        operations: [
+          { operation: 'edit', action: 'append', params: { path: 'a.md', content: ' one' } },
+          { operation: 'vault', action: 'create', params: { path: 'd.md', content: 'delta' } },
+          { operation: 'vault', action: 'delete', params: { path: 'c.md' } },
+          { operation: 'vault', action: 'update', params: { path: 'missing.md', content: 'x' } },
+        ],
+      },
+    }) as any;
+
+    expect(response.error.code).toBe('BATCH_ROLLED_BACK');
+    expect(response.error.details.failedStep).toBe(4);
+    expect(response.error.details.rolledBackSteps).toBe(3);
+    expect(response.error.message).toContain('missing.md');
+    expect(Object.fromEntries(api.files)).toEqual(INITIAL);
+  });
+
+  it('should refuse a folder delete it could not undo, rolling back the steps before it', async () => {
+    const initial = { ...INITIAL, 'notes/one.md': 'one', 'notes/two.md': 'two' };
+    const api = new MemoryAPI(initial);
+    const response = await new SemanticRouter(api).route({
+      operation: 'edit',
+      action: 'batch',
+      params: {
+        operations: [
+          { operation: 'edit', action: 'append', params: { path: 'a.md', content: ' one' } },
+          { operation: 'vault', action: 'delete', params: { path: 'notes' } },
+          { operation: 'vault', action: 'update', params: { path: 'missing.md', content: 'x' } },
+        ],
+      },
+    }) as any;
+
+    expect(response.error.code).toBe('BATCH_ROLLED_BACK');
+    expect(response.error.details.failedStep).toBe(2);
+    expect(response.error.message).toContain('notes is a folder');
+    expect(Object.fromEntries(api.files)).toEqual(initial);
+  });
+
+  it('should move a file back when a step after the move fails', async () => {
+    const api = new MemoryAPI(INITIAL);
+    const response = await new SemanticRouter(api).route({
+      operation: 'edit',
+      action: 'batch',
+      params: {
+        operations: [
+          { operation: 'vault', action: 'move', params: { path: 'a.md', destination: 'archive/a.md' } },
+          { operation: 'edit', action: 'append', params: { path: 'archive/a.md', content: ' moved' } },
+          { operation: 'vault', action: 'update', params: { path: 'missing.md', content: 'x' } },
+        ],
+      },
+    }) as any;
+
+    expect(response.error.code).toBe('BATCH_ROLLED_BACK');
+    expect(Object.fromEntries(api.files)).toEqual(INITIAL);
+  });
+
+  it('should reject actions that cannot be rolled back before touching anything', async () => {
+    const api = new MemoryAPI(INITIAL);
+    const response = await new SemanticRouter(api).route({
+      operation: 'edit',
+      action: 'batch',
+      params: {
+        operations: [
+          { operation: 'edit', action: 'append', params: { path: 'a.md', content: ' one' } },
+          { operation: 'vault', action: 'split', params: { path: 'b.md' } },
+        ],
+      },
+    }) as any;
+
+    expect(response.error.message).toContain('batchable actions are');
+    expect(Object.fromEntries(api.files)).toEqual(INITIAL);
+  });
+});
+
+describe('FileLockManager.withLocks', () => {
+  const mgr = FileLockManager.getInstance();
+
+  it('should hold every path for the whole critical section', async () => {
+    const events: string[] = [];
+    const batch = mgr.withLocks(['b.md', 'a.md'], async () => {
+      events.push('batch:start');
+      await new Promise(r => setTimeout(r, 10));
+      events.push('batch:end');
+    });
+    const single = mgr.withLock('a.md', async () => { events.push('single'); });
+
+    await Promise.all([batch, single]);
+    expect(events).toEqual(['batch:start', 'batch:end', 'single']);
+  });
+
+  it('should not deadlock two batches over the same paths in opposite order', async () => {
+    const done: string[] = [];
+    await Promise.all([
+      mgr.withLocks(['x.md', 'y.md'], async () => { done.push('first'); }),
+      mgr.withLocks(['y.md', 'x.md'], async () => { done.push('second'); }),
+    ]);
+    expect(done.sort()).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * `expandEmbeds` on `vault.read` and `view.file`.
+ *
+ * An expanded read must show what Obsidian shows in place of each embed —
+ * a note, a heading's section or a block — say where every inlined span
+ * came from, and stop at cycles, the depth limit and the read budget rather
+ * than loop or blow the context.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { READ_PAGE_CHARS } from '../src/utils/file-reader';
+import { embedSection } from '../src/utils/embed-expander';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+function vault(): MemoryAPI {
+  return new MemoryAPI({
+    'Home.md': '# Home\n\n![[Alpha]]\nGoals: ![[Alpha#Goals]]\n![[Beta#^step]]\n![[diagram.png]] ![[Nowhere]]',
+    'Projects/Alpha.md': '---\nstatus: active\n---\n# Alpha\n\n## Goals\n\nShip it\n\n### Detail\n\nSoon\n\n## Later\n\nMaybe',
+    'Projects/Beta.md': '# Beta\n\n- Plan ^step\n  - first\n  - second\n- Other',
+    'diagram.png': '',
+  });
+}
+
+async function route(api: ObsidianAPI, operation: string, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation, action, params });
+}
+
+const brief = (embed: any) => [embed.link, embed.depth, embed.status];
+
+describe('embedSection', () => {
+  const note = '# A\n\nIntro\n\n## B\n\nText\n```\n# not a heading\n```\n\n# C\n\nOne\ntwo ^para\n\n> quote\n\n^quote';
+
+  it('should cut a heading down to the next heading of the same or a higher level', () => {
+    expect(embedSection(note, '#B')).toBe('## B\n\nText\n```\n# not a heading\n```');
+    expect(embedSection(note, '#A#b')).toBe(embedSection(note, '#B'));
+    expect(embedSection(note, '#Missing')).toBeUndefined();
+  });
+
+  it('should take the paragraph a block id ends, or the block above a standalone id', () => {
+    expect(embedSection(note, '#^para')).toBe('One\ntwo');
+    expect(embedSection(note, '#^quote')).toBe('> quote');
+    expect(embedSection(note, '#^none')).toBeUndefined();
+  });
+});
+
+describe('vault.read with expandEmbeds', () => {
+  it('should inline notes, headings and blocks between markers and report every embed', async () => {
+    const response = await route(vault(), 'vault', 'read', { path: 'Home.md', expandEmbeds: true });
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.content).toBe([
+      '# Home',
+      '',
+      '<!-- embed: Projects/Alpha.md -->',
+      '# Alpha\n\n## Goals\n\nShip it\n\n### Detail\n\nSoon\n\n## Later\n\nMaybe',
+      '<!-- /embed: Projects/Alpha.md -->',
+      'Goals: ',
+      '<!-- embed: Projects/Alpha.md#Goals -->',
+      '## Goals\n\nShip it\n\n### Detail\n\nSoon',
+      '<!-- /embed: Projects/Alpha.md#Goals -->',
+      '',
+      '<!-- embed: Projects/Beta.md#^step -->',
+      '- Plan\n  - first\n  - second',
+      '<!-- /embed: Projects/Beta.md#^step -->',
+      '![[diagram.png]] ![[Nowhere]]',
+    ].join('\n'));
+    expect(response.result.embeds.map(brief)).toEqual([
+      ['![[Alpha]]', 1, 'inlined'],
+      ['![[Alpha#Goals]]', 1, 'inlined'],
+      ['![[Beta#^step]]', 1, 'inlined'],
+      ['![[diagram.png]]', 1, 'not_text'],
+      ['![[Nowhere]]', 1, 'missing'],
+    ]);
+    // The hash is the file's own, so it still guards a following write
+    const plain = await route(vault(), 'vault', 'read', { path: 'Home.md' });
+    expect(response.result.hash).toBe(plain.result.hash);
+  });
+
+  it('should stop at cycles and at embedDepth', async () => {
+    const api = new MemoryAPI({
+      'A.md': 'A1 ![[B]]',
+      'B.md': 'B1 ![[A]] ![[C]]',
+      'C.md': 'C1 ![[D]]',
+      'D.md': 'D1',
+    });
+
+    const response = await route(api, 'vault', 'read', { path: 'A.md', expandEmbeds: true, embedDepth: 2 });
+
+    expect(response.result.embeds.map((e: any) => [e.from, ...brief(e)])).toEqual([
+      ['A.md', '![[B]]', 1, 'inlined'],
+      ['B.md', '![[A]]', 2, 'cycle'],
+      ['B.md', '![[C]]', 2, 'inlined'],
+      ['C.md', '![[D]]', 3, 'depth_limit'],
+    ]);
+    expect(response.result.content).toContain('C1 ![[D]]');
+    expect(response.result.content).not.toContain('D1');
+  });
+
+  it('should leave embeds as links once they would pass the read budget', async () => {
+    const api = vault();
+    api.files.set('Projects/Alpha.md', 'x'.repeat(READ_PAGE_CHARS));
+
+    const response = await route(api, 'vault', 'read', { path: 'Home.md', expandEmbeds: true });
+
+    expect(response.result.embeds.slice(0, 3).map(brief)).toEqual([
+      ['![[Alpha]]', 1, 'budget'],
+      ['![[Alpha#Goals]]', 1, 'missing'],
+      ['![[Beta#^step]]', 1, 'inlined'],
+    ]);
+    expect(response.result.content.length).toBeLessThanOrEqual(READ_PAGE_CHARS);
+
+    const full = await route(api, 'vault', 'read', { path: 'Home.md', expandEmbeds: true, returnFullFile: true });
+    expect(full.result.embeds[0].status).toBe('inlined');
+  });
+
+  it('should list the embeds in the formatted read', async () => {
+    const response = await route(vault(), 'vault', 'read', { path: 'Home.md', expandEmbeds: true });
+    const text = formatResponse('vault', 'read', response.result);
+
+    expect(text).toContain('## Embeds');
+    expect(text).toContain('- line 4 `![[Alpha#Goals]]` → inlined Projects/Alpha.md#Goals');
+    expect(text).toContain('- line 6 `![[Nowhere]]` → not found, left as a link');
+  });
+});
+
+describe('view.file with expandEmbeds', () => {
+  it('should inline embeds and keep the line count and hash of the file', async () => {
+    const api = vault();
+    const response = await route(api, 'view', 'file', { path: 'Home.md', expandEmbeds: true });
+    const plain = await route(api, 'view', 'file', { path: 'Home.md' });
+
+    expect(response.result.content).toContain('<!-- embed: Projects/Beta.md#^step -->\n- Plan');
+    expect(response.result.lineCount).toBe(6);
+    expect(response.result.hash).toBe(plain.result.hash);
+    expect(plain.result.embeds).toBeUndefined();
+    expect(formatResponse('view', 'file', response.result)).toContain('## Embeds');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Optimistic concurrency — content hashes on read, `expectedHash` on write.
+ *
+ * The failure this guards against: an agent reads a note, the user edits it in
+ * Obsidian, and the agent's `vault.update` silently overwrites the user's edit.
+ * With the hash from the read passed back as `expectedHash`, the write must be
+ * refused with CONFLICT and a diff showing what changed since the read.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { unifiedDiff } from '../src/utils/diff';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const NOTE = '# Plan\n\n- one\n- two\n- three\n';
+
+async function route(api: ObsidianAPI, operation: string, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation, action, params });
+}
+
+describe('expectedHash', () => {
+  it('should return the same hash from vault.read and view.file', async () => {
+    const api = new MemoryAPI({ 'plan.md': NOTE });
+    const read = await route(api, 'vault', 'read', { path: 'plan.md' });
+    const view = await route(api, 'view', 'file', { path: 'plan.md' });
+
+    expect(read.result.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(view.result.hash).toBe(read.result.hash);
+  });
+
+  it('should apply an update whose expectedHash still matches', async () => {
+    const api = new MemoryAPI({ 'plan.md': NOTE });
+    const { result: { hash } } = await route(api, 'vault', 'read', { path: 'plan.md' });
+
+    const response = await route(api, 'vault', 'update', { path: 'plan.md', content: 'new', expectedHash: hash });
+    expect(response.error).toBeUndefined();
+    expect(api.files.get('plan.md')).toBe('new');
+  });
+
+  it('should refuse a stale update with CONFLICT and a diff since the read', async () => {
+    const api = new MemoryAPI({ 'plan.md': NOTE });
+    const { result: { hash } } = await route(api, 'vault', 'read', { path: 'plan.md' });
+    api.files.set('plan.md', NOTE.replace('- two', '- two (edited in Obsidian)'));
+
+    const response = await route(api, 'vault', 'update', { path: 'plan.md', content: 'agent', expectedHash: hash });
+    expect(response.error.code).toBe('CONFLICT');
+    expect(response.error.details.expectedHash).toBe(hash);
+    expect(response.error.details.diff).toContain('-- two\n+- two (edited in Obsidian)');
+    expect(api.files.get('plan.md')).toContain('edited in Obsidian');
+  });
+
+  it('should refuse a stale edit.window before editing', async () => {
+    const api = new MemoryAPI({ 'plan.md': NOTE });
+    const { result: { hash } } = await route(api, 'view', 'file', { path: 'plan.md' });
+    api.files.set('plan.md', NOTE + '- four\n');
+
+    const response = await route(api, 'edit', 'window', {
+      path: 'plan.md', oldText: '- one', newText: '- ONE', expectedHash: hash,
+    });
+    expect(response.error.code).toBe('CONFLICT');
+    expect(api.files.get('plan.md')).toBe(NOTE + '- four\n');
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should return an empty string for identical input', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toBe('');
+  });
+
+  it('should emit one hunk with context and line ranges', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8'].join('\n');
+
+    expect(unifiedDiff(before, after, { oldLabel: 'old', newLabel: 'new' })).toBe(
+      ['--- old', '+++ new', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8'].join('\n')
+    );
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const hunks = unifiedDiff(before.join('\n'), after.join('\n')).split('\n').filter(l => l.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+});
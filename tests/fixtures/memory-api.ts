@@ -0,0 +1,100 @@
+/**
+ * An ObsidianAPI over an in-memory map of path → content.
+ *
+ * Shared by the operation tests that drive SemanticRouter against a small
+ * vault: reads, writes, moves and listings act on `files`, and every write
+ * records its path in `writes`. Paths the ignore manager excludes can be
+ * neither read nor listed, as with the real API.
+ */
+import { App } from 'obsidian';
+import { ObsidianAPI, PatchParams } from '../../src/utils/obsidian-api';
+import { MCPIgnoreManager } from '../../src/security/mcp-ignore-manager';
+
+export interface MemoryAPIOptions {
+  /** App handed to the base API (its metadata cache, for example). */
+  app?: object;
+  /** Stands in for `.mcpignore`. */
+  ignore?: Pick<MCPIgnoreManager, 'isExcluded'>;
+}
+
+export class MemoryAPI extends ObsidianAPI {
+  files: Map<string, string>;
+  /** Paths written, in order. */
+  writes: string[] = [];
+  private ignore?: Pick<MCPIgnoreManager, 'isExcluded'>;
+
+  constructor(initial: Record<string, string> = {}, options: MemoryAPIOptions = {}) {
+    super((options.app ?? {}) as App);
+    this.files = new Map(Object.entries(initial));
+    this.ignore = options.ignore;
+  }
+
+  getIgnoreManager(): MCPIgnoreManager | undefined {
+    return this.ignore as MCPIgnoreManager | undefined;
+  }
+
+  /** Every readable file, or those under `directory`; a directory with none is not found. */
+  async listFiles(directory?: string): Promise<string[]> {
+    if (!directory || directory === '.') {
+      return [...this.files.keys()].filter(path => this.isReadable(path)).sort();
+    }
+    const contents = this.folderContents(directory).filter(path => this.isReadable(path));
+    if (contents.length === 0) throw new Error(`Directory not found: ${directory}`);
+    return contents.sort();
+  }
+  async getFile(path: string): Promise<any> {
+    const content = this.files.get(path);
+    if (content === undefined || !this.isReadable(path)) throw new Error(`File not found: ${path}`);
+    return { path, content, tags: [], frontmatter: {} };
+  }
+  async createFile(path: string, content: string): Promise<any> {
+    if (this.files.has(path)) throw new Error(`File already exists: ${path}`);
+    this.write(path, content);
+    return { success: true, path };
+  }
+  async updateFile(path: string, content: string): Promise<any> {
+    if (!this.files.has(path)) throw new Error(`File not found: ${path}`);
+    this.write(path, content);
+    return { success: true, path };
+  }
+  async appendToFile(path: string, content: string): Promise<any> {
+    const current = this.files.get(path);
+    if (current === undefined) throw new Error(`File not found: ${path}`);
+    this.write(path, current + content);
+    return { success: true };
+  }
+  async patchVaultFile(path: string, params: PatchParams): Promise<any> {
+    const current = this.files.get(path);
+    if (current === undefined) throw new Error(`File not found: ${path}`);
+    const content = this.applyPatch(current, params);
+    this.write(path, content);
+    return { success: true, updated_content: content };
+  }
+  async deleteFile(path: string): Promise<any> {
+    this.writes.push(path);
+    this.files.delete(path);
+    for (const file of this.folderContents(path)) this.files.delete(file);
+    return { success: true, path };
+  }
+  async moveFile(path: string, newPath: string): Promise<any> {
+    const content = this.files.get(path);
+    if (content === undefined) throw new Error(`File not found: ${path}`);
+    this.writes.push(path);
+    this.files.delete(path);
+    this.files.set(newPath, content);
+    return { success: true };
+  }
+  async searchPaginated(query: string): Promise<any> {
+    const results = [...this.files.entries()].filter(([, c]) => c.includes(query)).map(([path]) => ({ path }));
+    return { query, page: 1, pageSize: 100, totalResults: results.length, totalPages: 1, results, method: 'test' };
+  }
+
+  private write(path: string, content: string): void {
+    this.files.set(path, content);
+    this.writes.push(path);
+  }
+
+  private folderContents(folder: string): string[] {
+    return [...this.files.keys()].filter(path => path.startsWith(`${folder}/`));
+  }
+}
@@ -105,4 +105,34 @@ describe('fragment retrieval scoping', () => {
 
     expect(response.result ?? []).toEqual([]);
   });
+
+  it('should rank readable documents as if the excluded ones were not indexed', () => {
+    const notes = (retriever: UniversalFragmentRetriever) => {
+      for (let i = 0; i < 5; i++) {
+        retriever.indexDocument(
+          `file:notes/${i}.md`,
+          `notes/${i}.md`,
+          `Meeting notes ${i}: we talked about the roadmap, hiring, the budget and, briefly, kanban.`
+        );
+      }
+    };
+    // Every top match is excluded: filtering the top candidates afterwards would leave nothing
+    const shared = new UniversalFragmentRetriever();
+    for (let i = 0; i < 120; i++) {
+      shared.indexDocument(`file:hidden/${i}.md`, `hidden/${i}.md`, `Kanban kanban kanban board ${i}.`);
+    }
+    notes(shared);
+    const readableOnly = new UniversalFragmentRetriever();
+    notes(readableOnly);
+
+    for (const strategy of ['adaptive', 'semantic'] as const) {
+      const options = { maxFragments: 5, strategy };
+      const excluded = shared.retrieveFragments('kanban', { ...options, exclude: path => path.startsWith('hidden/') });
+      const expected = readableOnly.retrieveFragments('kanban', options);
+
+      expect((excluded.result ?? []).length).toBeGreaterThan(0);
+      expect((excluded.result ?? []).map(f => f.docPath).sort())
+        .toEqual((expected.result ?? []).map(f => f.docPath).sort());
+    }
+  });
 });
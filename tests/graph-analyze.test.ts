@@ -0,0 +1,144 @@
+/**
+ * graph.analyze — PageRank, betweenness and communities.
+ *
+ * Two tightly linked areas joined through one note, a pair that links only
+ * to itself and an orphan: the analysis must rank the areas' hubs and the
+ * notes that bridge them, split the areas into communities, flag the pair
+ * as isolated, keep .mcpignore'd notes out, and recompute only when the
+ * links change.
+ */
+import { App, TFile } from 'obsidian';
+import { GraphSearchTool } from '../src/tools/graph-search';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { MCPIgnoreManager } from '../src/security/mcp-ignore-manager';
+import { GraphAnalysisCache, analyzeGraph } from '../src/utils/graph-analytics';
+import { formatResponse } from '../src/formatters';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() ?? path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.extension = 'md';
+  return file;
+}
+
+const clique = (paths: string[]) => Object.fromEntries(
+  paths.map(source => [source, Object.fromEntries(paths.filter(t => t !== source).map(t => [t, 1]))])
+);
+
+function resolvedLinks(): Record<string, Record<string, number>> {
+  const links: Record<string, Record<string, number>> = {
+    ...clique(['A/a1.md', 'A/a2.md', 'A/a3.md', 'A/a4.md']),
+    ...clique(['B/b1.md', 'B/b2.md', 'B/b3.md', 'B/b4.md']),
+    'p.md': { 'q.md': 1 },
+    'q.md': { 'p.md': 1 },
+    'x.md': { 'B/b1.md': 1 },
+    'hidden/h.md': { 'A/a1.md': 3 },
+  };
+  links['A/a1.md']['x.md'] = 1;
+  return links;
+}
+
+function buildTool(links = resolvedLinks()): { tool: GraphSearchTool; app: App } {
+  const paths = [...new Set([...Object.keys(links), ...Object.values(links).flatMap(t => Object.keys(t)), 'o.md'])];
+  const files = paths.map(makeFile);
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: links,
+    unresolvedLinks: {},
+    getFileCache: jest.fn().mockReturnValue({ tags: [] }),
+  };
+  app.vault.getFiles = jest.fn(() => files);
+  const byPath = new Map(files.map(f => [f.path, f]));
+  app.vault.getAbstractFileByPath = jest.fn((p: string) => byPath.get(p) ?? null);
+  const ignoreManager = { isExcluded: (path: string) => path.startsWith('hidden/') } as unknown as MCPIgnoreManager;
+  const api = { getReadExclusions: () => ignoreManager } as unknown as ObsidianAPI;
+  return { tool: new GraphSearchTool(api, app), app };
+}
+
+const paths = (nodes: Array<{ path: string }>) => nodes.map(n => n.path);
+
+describe('graph.analyze', () => {
+  beforeEach(() => GraphAnalysisCache.getInstance().clear());
+
+  it('should rank hubs and bridges and split the areas into communities', () => {
+    const { analysis } = buildTool().tool.search({ operation: 'analyze' });
+
+    expect(analysis!.notes).toBe(12);
+    expect(analysis!.unlinked).toBe(1);
+    // Rank flows from A through x into B and never back
+    expect(paths(analysis!.topPageRank)[0]).toBe('B/b1.md');
+    expect(paths(analysis!.topBetweenness).slice(0, 3)).toEqual(['x.md', 'A/a1.md', 'B/b1.md']);
+    expect(analysis!.communities.map(c => [c.size, c.isolated])).toEqual([[5, false], [4, false], [2, true]]);
+    // x links each way once; it joins A, which is visited first
+    const areas = analysis!.communities.slice(0, 2).map(c => paths(c.members).map(p => p[0]).sort().join(''));
+    expect(areas).toEqual(['AAAAx', 'BBBB']);
+    expect(paths(analysis!.communities[2].members)).toEqual(['p.md', 'q.md']);
+    expect(analysis!.modularity).toBeGreaterThan(0.4);
+  });
+
+  it('should keep excluded notes and their links out of the analysis', () => {
+    const { analysis } = buildTool().tool.search({ operation: 'analyze', limit: 100 });
+
+    const all = analysis!.communities.flatMap(c => paths(c.members));
+    expect(all).not.toContain('hidden/h.md');
+    expect(analysis!.links).toBe(12 + 12 + 2 + 2);
+  });
+
+  it('should analyze one folder, or the community of one note', () => {
+    const { tool } = buildTool();
+
+    const folder = tool.search({ operation: 'analyze', folderFilter: 'A/' });
+    expect(folder.analysis!.scope).toBe('A');
+    expect(folder.analysis!.notes).toBe(4);
+    expect(folder.analysis!.communities).toHaveLength(1);
+
+    const note = tool.search({ operation: 'analyze', sourcePath: 'p.md' });
+    expect(note.analysis!.node).toMatchObject({ path: 'p.md', community: 3 });
+    expect(note.analysis!.communities.map(c => c.id)).toEqual([3]);
+
+    expect(() => tool.search({ operation: 'analyze', sourcePath: 'hidden/h.md' })).toThrow('File not found');
+    expect(() => tool.search({ operation: 'analyze', sourcePath: 'B/b1.md', folderFilter: 'A' })).toThrow('not a note in A');
+  });
+
+  it('should reuse the analysis until the links change', () => {
+    const links = resolvedLinks();
+    const { tool } = buildTool(links);
+
+    expect(tool.search({ operation: 'analyze' }).analysis!.cached).toBe(false);
+    expect(tool.search({ operation: 'analyze' }).analysis!.cached).toBe(true);
+
+    links['o.md'] = { 'p.md': 1 };
+    const changed = tool.search({ operation: 'analyze' }).analysis!;
+    expect(changed.cached).toBe(false);
+    expect(changed.unlinked).toBe(0);
+  });
+
+  it('should format hubs, bridges and isolated communities', () => {
+    const response = buildTool().tool.search({ operation: 'analyze' });
+    const text = formatResponse('graph', 'analyze', response);
+
+    expect(text).toContain('# Graph analysis: vault');
+    expect(text).toContain('## Hubs (PageRank)');
+    expect(text).toContain('1. b1 — B/b1.md');
+    expect(text).toContain('1. x — x.md');
+    expect(text).toContain('### 3: 2 notes, isolated — no links to other communities');
+  });
+});
+
+describe('analyzeGraph', () => {
+  it('should give PageRank summing to 1, with the most linked-to note first', () => {
+    const analysis = analyzeGraph({
+      nodes: ['a', 'b', 'c', 'd'],
+      links: { b: { a: 1 }, c: { a: 1 }, d: { a: 2, b: 1 } },
+    });
+
+    const total = [...analysis.pageRank.values()].reduce((sum, r) => sum + r, 0);
+    expect(total).toBeCloseTo(1, 8);
+    expect([...analysis.pageRank].sort((x, y) => y[1] - x[1])[0][0]).toBe('a');
+    // A star: every path between leaves goes through the centre
+    expect(analysis.betweenness.get('a')).toBeCloseTo(2 / 3, 8);
+    expect(analysis.approximate).toBe(false);
+  });
+});
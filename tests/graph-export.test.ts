@@ -0,0 +1,184 @@
+/**
+ * graph.export — the vault graph as GraphML, DOT, GEXF and JSON Graph.
+ *
+ * A small vault whose home note both embeds and links a spec, a canvas that
+ * holds a card for another note, and an ignored note: the export must type
+ * and weight each edge, carry frontmatter as node attributes, keep the
+ * ignored note out, and be written to the vault or returned in pages that
+ * join back into the whole file.
+ */
+import { App, TFile } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() ?? path;
+  file.basename = file.name.replace(/\.[^.]*$/, '');
+  file.extension = file.name.slice(file.name.lastIndexOf('.') + 1);
+  return file;
+}
+
+interface Vault {
+  links: Record<string, Record<string, number>>;
+  caches: Record<string, unknown>;
+  canvases?: Record<string, string>;
+}
+
+function sample(): Vault {
+  return {
+    links: {
+      'Home.md': { 'Projects/Alpha.md': 2, 'Projects/Beta.md': 1 },
+      'Projects/Alpha.md': { 'Home.md': 1 },
+      'hidden/secret.md': { 'Home.md': 1 },
+    },
+    caches: {
+      'Home.md': {
+        frontmatter: { title: 'R&D "home" <draft>', rating: 4, published: true, position: { start: 0 } },
+        tags: [{ tag: '#project' }],
+        embeds: [{ link: 'Alpha#Goals' }],
+      },
+      'Projects/Alpha.md': { frontmatter: { kind: 'spec', aliases: ['A', 'Alpha one'], rating: 'high' } },
+      'Projects/Beta.md': { tags: [{ tag: '#project' }, { tag: '#later' }] },
+    },
+    canvases: {
+      'board.canvas': JSON.stringify({ nodes: [{ id: 'n', type: 'file', file: 'Projects/Beta.md', x: 0, y: 0, width: 1, height: 1 }], edges: [] }),
+    },
+  };
+}
+
+function setup(vault: Vault = sample()): { router: SemanticRouter; api: MemoryAPI } {
+  const paths = [
+    ...new Set([...Object.keys(vault.links), ...Object.keys(vault.caches), ...Object.keys(vault.canvases ?? {})]),
+  ];
+  const files = paths.map(makeFile);
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: vault.links,
+    unresolvedLinks: {},
+    getFileCache: (file: TFile) => vault.caches[file.path] ?? null,
+    getFirstLinkpathDest: (link: string) => files.find(f => f.basename === link || f.path === link) ?? null,
+  };
+  app.vault.getFiles = jest.fn(() => files);
+  app.vault.getAbstractFileByPath = jest.fn((p: string) => byPath.get(p) ?? null);
+  (app.vault as any).cachedRead = jest.fn(async (file: TFile) => vault.canvases?.[file.path] ?? '');
+  const api = new MemoryAPI({}, { ignore: { isExcluded: (path: string) => path.startsWith('hidden/') } });
+  return { router: new SemanticRouter(api, app), api };
+}
+
+async function exportGraph(router: SemanticRouter, params: Record<string, unknown>): Promise<any> {
+  const response = await router.route({ operation: 'graph', action: 'export', params });
+  if (response.error) throw new Error(response.error.message);
+  return response.result;
+}
+
+describe('graph.export', () => {
+  it('should type and weight edges and carry frontmatter as node attributes', async () => {
+    const result = await exportGraph(setup().router, { format: 'json' });
+    const { graph } = JSON.parse(result.content);
+
+    expect(Object.keys(graph.nodes)).toEqual([
+      'board.canvas', 'Home.md', 'Projects/Alpha.md', 'Projects/Beta.md', '#later', '#project',
+    ]);
+    expect(graph.edges.map((e: any) => [e.source, e.target, e.relation, e.metadata.weight])).toEqual([
+      ['board.canvas', 'Projects/Beta.md', 'canvas', 1],
+      ['Home.md', 'Projects/Alpha.md', 'embed', 1],
+      ['Home.md', 'Projects/Alpha.md', 'link', 1],
+      ['Home.md', 'Projects/Beta.md', 'link', 1],
+      ['Projects/Alpha.md', 'Home.md', 'link', 1],
+      ['Home.md', '#project', 'tag', 1],
+      ['Projects/Beta.md', '#project', 'tag', 1],
+      ['Projects/Beta.md', '#later', 'tag', 1],
+    ]);
+    expect(graph.nodes['Projects/Alpha.md']).toEqual({
+      label: 'Alpha',
+      metadata: { kind: 'note', folder: 'Projects', 'frontmatter.kind': 'spec', aliases: 'A, Alpha one', rating: 'high' },
+    });
+    expect(graph.nodes['Home.md'].metadata).not.toHaveProperty('position');
+    expect(result).toMatchObject({ scope: 'vault', nodes: 6, edges: 8, page: 1, totalPages: 1, hasMore: false });
+  });
+
+  it('should declare attribute types and escape text in GraphML, DOT and GEXF', async () => {
+    const { router } = setup();
+
+    const graphml = (await exportGraph(router, {})).content;
+    expect(graphml).toContain('<graph id="vault" edgedefault="directed">');
+    // rating is a number on one note and a string on another
+    expect(graphml).toMatch(/<key id="d\d" for="node" attr.name="rating" attr.type="string"\/>/);
+    expect(graphml).toMatch(/<key id="d\d" for="node" attr.name="published" attr.type="boolean"\/>/);
+    expect(graphml).toContain('R&amp;D &quot;home&quot; &lt;draft&gt;');
+
+    const dot = (await exportGraph(router, { format: 'dot' })).content;
+    expect(dot).toContain('"title"="R&D \\"home\\" <draft>"');
+    expect(dot).toContain('"Home.md" -> "Projects/Alpha.md" [type="embed", weight=1];');
+
+    const gexf = (await exportGraph(router, { format: 'gexf', includeTags: false })).content;
+    expect(gexf).toContain('<graph defaultedgetype="directed" mode="static">');
+    expect(gexf).toMatch(/<attribute id="\d" title="published" type="boolean"\/>/);
+    expect(gexf).not.toContain('#project');
+  });
+
+  it('should export the subgraph a traversal reaches from sourcePath', async () => {
+    const { router } = setup();
+
+    const result = await exportGraph(router, { sourcePath: 'Projects/Beta.md', maxDepth: 1, format: 'json', includeTags: false });
+
+    const { graph } = JSON.parse(result.content);
+    expect(Object.keys(graph.nodes).sort()).toEqual(['Home.md', 'Projects/Beta.md', 'board.canvas']);
+    expect(result.scope).toBe('Projects/Beta.md (depth 1)');
+    await expect(exportGraph(router, { sourcePath: 'hidden/secret.md' })).rejects.toThrow('File not found');
+  });
+
+  it('should write to outputPath in the format its extension names, and only overwrite on request', async () => {
+    const { router, api } = setup();
+
+    const written = await exportGraph(router, { outputPath: 'exports/vault.gexf' });
+    expect(written).toMatchObject({ format: 'gexf', outputPath: 'exports/vault.gexf', created: true });
+    expect(api.files.get('exports/vault.gexf')).toContain('<gexf xmlns="http://gexf.net/1.3" version="1.3">');
+    expect(written.content).toBeUndefined();
+
+    await expect(exportGraph(router, { outputPath: 'exports/vault.gexf' })).rejects.toThrow('Set overwrite=true');
+    const replaced = await exportGraph(router, { outputPath: 'exports/vault.gexf', format: 'dot', overwrite: true });
+    expect(replaced.created).toBe(false);
+    expect(api.files.get('exports/vault.gexf')).toMatch(/^digraph vault \{/);
+
+    await expect(exportGraph(router, { format: 'csv' })).rejects.toThrow('format must be one of graphml, dot, gexf, json');
+  });
+
+  it('should page a large export on line boundaries', async () => {
+    const names = Array.from({ length: 400 }, (_, i) => `Notes/${'long title '.repeat(10)}${i}.md`);
+    const vault: Vault = {
+      links: Object.fromEntries(names.map((name, i) => [name, { [names[(i + 1) % names.length]]: 1 }])),
+      caches: {},
+    };
+    const { router, api } = setup(vault);
+
+    const first = await exportGraph(router, { folderFilter: 'Notes' });
+    expect(first.totalPages).toBeGreaterThan(1);
+    expect(first.nextPage).toBe('graph.export(folderFilter="Notes", page=2)');
+
+    const pages = [first.content];
+    for (let page = 2; page <= first.totalPages; page++) {
+      pages.push((await exportGraph(router, { folderFilter: 'Notes', page })).content);
+    }
+    await exportGraph(router, { folderFilter: 'Notes', outputPath: 'all.graphml' });
+    expect(pages.join('\n')).toBe(api.files.get('all.graphml'));
+    expect(pages.join('\n')).toMatch(/^<\?xml[\s\S]*<\/graphml>$/);
+    await expect(exportGraph(router, { folderFilter: 'Notes', page: first.totalPages + 1 })).rejects.toThrow('past the end');
+  });
+
+  it('should format a written export and a returned page', async () => {
+    const { router } = setup();
+
+    const written = formatResponse('graph', 'export', await exportGraph(router, { outputPath: 'g.graphml' }));
+    expect(written).toContain('# Graph export: vault');
+    expect(written).toContain('Written to');
+
+    const paged = formatResponse('graph', 'export', await exportGraph(router, { format: 'dot' }));
+    expect(paged).toContain('## Content');
+    expect(paged).toContain('digraph vault {');
+  });
+});
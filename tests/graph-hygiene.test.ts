@@ -0,0 +1,179 @@
+/**
+ * graph.hygiene — the vault maintenance report.
+ *
+ * A small vault with one note of each kind the report looks for, an image
+ * that is embedded and one that is not, and an ignored note whose links must
+ * not count: each finding has to land in its category, the findings have to
+ * page, and the report note must not link the notes it lists.
+ */
+import { App, TFile } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const DAY = 24 * 60 * 60 * 1000;
+const LONG = 'A note with enough to say that it is well past any stub threshold. '.repeat(3);
+
+interface Entry {
+  content?: string;
+  /** Days since the last change (default: 1). */
+  age?: number;
+  size?: number;
+}
+
+const VAULT: Record<string, Entry> = {
+  'Home.md': { content: `${LONG}\n[[Hub]] [[Leaf]]\n![[diagram.png]]` },
+  'Hub.md': { content: `${LONG}\n[[Home]]`, age: 400 },
+  'Leaf.md': { content: LONG },
+  'Lonely.md': { content: LONG },
+  'Projects/Empty.md': { content: '---\ntags: [draft]\n---\n\n' },
+  'Projects/Stub.md': { content: 'TODO [[Hub]]' },
+  'Projects/Hub.md': { content: `${LONG}\n[[Home]]` },
+  'A.md': { content: `${LONG}\n[[Hub]]` },
+  'diagram.png': { size: 2048 },
+  'old-photo.jpg': { size: 4096 },
+  'hidden/Secret.md': { content: '[[Lonely]]' },
+};
+
+const LINKS: Record<string, Record<string, number>> = {
+  'Home.md': { 'Hub.md': 1, 'Leaf.md': 1, 'diagram.png': 1 },
+  'Hub.md': { 'Home.md': 1 },
+  'Projects/Stub.md': { 'Hub.md': 1 },
+  'Projects/Hub.md': { 'Home.md': 1 },
+  'A.md': { 'Hub.md': 1 },
+  'hidden/Secret.md': { 'Lonely.md': 1 },
+};
+
+const isHidden = (path: string) => path.startsWith('hidden/');
+
+function makeFile(path: string, entry: Entry): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() ?? path;
+  file.basename = file.name.replace(/\.[^.]*$/, '');
+  file.extension = file.name.slice(file.name.lastIndexOf('.') + 1);
+  file.stat = {
+    mtime: Date.now() - (entry.age ?? 1) * DAY,
+    ctime: 0,
+    size: entry.size ?? Buffer.byteLength(entry.content ?? ''),
+  };
+  return file;
+}
+
+function setup(vault: Record<string, Entry> = VAULT, links = LINKS): { router: SemanticRouter; api: MemoryAPI } {
+  const files = Object.entries(vault).map(([path, entry]) => makeFile(path, entry));
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: links,
+    unresolvedLinks: {},
+    getFileCache: (file: TFile) => file.path === 'Projects/Empty.md'
+      ? { frontmatterPosition: { start: { offset: 0 }, end: { offset: 22 } } }
+      : null,
+  };
+  app.vault.getFiles = jest.fn(() => files);
+  app.vault.getAbstractFileByPath = jest.fn((p: string) => byPath.get(p) ?? null);
+  const api = new MemoryAPI(
+    Object.fromEntries(Object.entries(VAULT).flatMap(([path, entry]) => entry.content !== undefined ? [[path, entry.content]] : [])),
+    { ignore: { isExcluded: isHidden } }
+  );
+  return { router: new SemanticRouter(api, app), api };
+}
+
+async function hygiene(router: SemanticRouter, params: Record<string, unknown> = {}): Promise<any> {
+  const response = await router.route({ operation: 'graph', action: 'hygiene', params });
+  if (response.error) throw new Error(response.error.message);
+  return response.result;
+}
+
+const brief = (finding: any) => [finding.category, finding.path];
+
+describe('graph.hygiene', () => {
+  it('should sort every note and attachment into its category', async () => {
+    const result = await hygiene(setup().router);
+
+    expect(result.findings.map(brief)).toEqual([
+      ['orphan', 'Lonely.md'],
+      ['orphan', 'Projects/Empty.md'],
+      ['dead_end', 'Leaf.md'],
+      ['stale', 'Hub.md'],
+      ['empty', 'Projects/Empty.md'],
+      ['stub', 'Projects/Stub.md'],
+      ['duplicate_title', 'Hub.md'],
+      ['unreferenced_attachment', 'old-photo.jpg'],
+    ]);
+    expect(result.findings[3]).toMatchObject({ backlinks: 3 });
+    expect(result.findings[3].modified).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(result.findings[5]).toMatchObject({ chars: 12 });
+    expect(result.findings[6]).toMatchObject({ title: 'Hub', paths: ['Hub.md', 'Projects/Hub.md'] });
+    expect(result.findings[7]).toMatchObject({ size: 4096 });
+    expect(result).toMatchObject({ scope: 'vault', checked: { notes: 8, attachments: 2 }, totalFindings: 8, totalPages: 1 });
+    // The ignored note's link does not rescue Lonely, and it is not reported itself
+    expect(result.findings.some((f: any) => isHidden(f.path))).toBe(false);
+  });
+
+  it('should apply the thresholds and the folder filter', async () => {
+    const { router } = setup();
+
+    const strict = await hygiene(router, { staleMonths: 24, stubSize: 5 });
+    expect(strict.counts).toMatchObject({ stale: 0, stub: 0, empty: 1 });
+    expect((await hygiene(router, { minBacklinks: 4 })).counts.stale).toBe(0);
+
+    const projects = await hygiene(router, { folderFilter: 'Projects/' });
+    expect(projects.scope).toBe('Projects');
+    expect(projects.findings.map(brief)).toEqual([
+      ['orphan', 'Projects/Empty.md'],
+      ['empty', 'Projects/Empty.md'],
+      ['stub', 'Projects/Stub.md'],
+    ]);
+
+    await expect(hygiene(router, { stubSize: 0 })).rejects.toThrow('stubSize must be a positive number');
+  });
+
+  it('should page the findings', async () => {
+    const vault = Object.fromEntries(Array.from({ length: 120 }, (_, i) => [`Orphans/Note ${i}.md`, { content: LONG }]));
+    const { router } = setup(vault, {});
+
+    const first = await hygiene(router, { pageSize: 50 });
+    expect(first).toMatchObject({ totalFindings: 120, page: 1, totalPages: 3, hasMore: true });
+    expect(first.findings).toHaveLength(50);
+    expect(first.nextPage).toBe('graph.hygiene(pageSize=50, page=2)');
+
+    const last = await hygiene(router, { pageSize: 50, page: 3 });
+    expect(last.findings).toHaveLength(20);
+    expect(last.hasMore).toBe(false);
+    await expect(hygiene(router, { page: 4, pageSize: 50 })).rejects.toThrow('past the end');
+  });
+
+  it('should write the report as a note that names files without linking them', async () => {
+    const { router, api } = setup();
+
+    const written = await hygiene(router, { outputPath: 'Reports/Hygiene.md' });
+    expect(written).toMatchObject({ outputPath: 'Reports/Hygiene.md', created: true, totalFindings: 8 });
+    expect(written.findings).toBeUndefined();
+
+    const report = api.files.get('Reports/Hygiene.md')!;
+    expect(report).toMatch(/^---\ngenerated: \d{4}-/);
+    expect(report).toContain('## Orphans (2)\n\nNo links in or out.\n\n- `Lonely.md`\n- `Projects/Empty.md`');
+    expect(report).toContain('- Hub: `Hub.md`, `Projects/Hub.md`');
+    expect(report).toContain('- `Hub.md` — 3 backlinks, last modified');
+    expect(report).not.toContain('[[');
+
+    await expect(hygiene(router, { outputPath: 'Reports/Hygiene.md' })).rejects.toThrow('Set overwrite=true');
+    const replaced = await hygiene(router, { outputPath: 'Reports/Hygiene.md', overwrite: true });
+    expect(replaced.created).toBe(false);
+  });
+
+  it('should format a page of findings and a written report', async () => {
+    const { router } = setup();
+
+    const page = formatResponse('graph', 'hygiene', await hygiene(router));
+    expect(page).toContain('# Vault hygiene: vault');
+    expect(page).toContain('## duplicate title');
+    expect(page).toContain('- Hub (Hub.md, Projects/Hub.md)');
+    expect(page).toContain('- old-photo.jpg (4096 bytes)');
+
+    const written = formatResponse('graph', 'hygiene', await hygiene(router, { outputPath: 'h.md' }));
+    expect(written).toContain('Written to');
+  });
+});
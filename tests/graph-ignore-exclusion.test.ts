@@ -120,7 +120,7 @@ describe('GraphSearchTool — rejects excluded query roots (no relationship disc
   let tool: GraphSearchTool;
   beforeEach(() => {
     const app = makeApp();
-    tool = new GraphSearchTool({ getIgnoreManager: () => ignoreManager } as unknown as ObsidianAPI, app);
+    tool = new GraphSearchTool({ getReadExclusions: () => ignoreManager } as unknown as ObsidianAPI, app);
   });
 
   for (const operation of ['backlinks', 'forwardlinks', 'neighbors', 'statistics'] as const) {
@@ -0,0 +1,215 @@
+/**
+ * Typed edges from link properties.
+ *
+ * A child note names its parent in frontmatter and its author in an inline
+ * field, and links both in prose too; the parent names its own parent and
+ * two related notes. GraphTraversal must split those links into property
+ * edges named after the property without changing the totals, and traverse,
+ * path and neighbors must filter and weight by edge type.
+ */
+import { App, TFile } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { GraphTraversal } from '../src/utils/graph-traversal';
+import { inlineFieldLinks } from '../src/utils/inline-fields';
+import { formatResponse } from '../src/formatters';
+
+const NOTES: Record<string, string> = {
+  'Child.md': '---\nparent: "[[Parent]]"\n---\n# Child\n\nauthor:: [[Person]]\nSee [[Sibling]] and [[Parent]].',
+  'Parent.md': '---\nparent: "[[Root]]"\nrelated: ["[[Sibling]]", "[[Other]]"]\n---\n# Parent',
+  'Root.md': '# Root',
+  'Sibling.md': 'Up to [[Root]].',
+  'Person.md': '# Person',
+  'Other.md': '# Other',
+};
+
+const LINKS: Record<string, Record<string, number>> = {
+  'Child.md': { 'Parent.md': 2, 'Person.md': 1, 'Sibling.md': 1 },
+  'Parent.md': { 'Root.md': 1, 'Sibling.md': 1, 'Other.md': 1 },
+  'Sibling.md': { 'Root.md': 1 },
+};
+
+const CACHES: Record<string, unknown> = {
+  'Child.md': {
+    frontmatterLinks: [{ key: 'parent', link: 'Parent', original: '[[Parent]]' }],
+    links: [{ link: 'Person' }, { link: 'Sibling' }, { link: 'Parent' }],
+  },
+  'Parent.md': {
+    frontmatterLinks: [
+      { key: 'parent', link: 'Root', original: '[[Root]]' },
+      { key: 'related.0', link: 'Sibling', original: '[[Sibling]]' },
+      { key: 'related.1', link: 'Other', original: '[[Other]]' },
+    ],
+  },
+  'Sibling.md': { links: [{ link: 'Root' }] },
+};
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() ?? path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.extension = 'md';
+  file.stat = { mtime: 1, ctime: 0, size: NOTES[path].length };
+  return file;
+}
+
+function setup(): { app: App; router: SemanticRouter; cachedRead: jest.Mock } {
+  const files = Object.keys(NOTES).map(makeFile);
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: LINKS,
+    unresolvedLinks: {},
+    getFileCache: (file: TFile) => CACHES[file.path] ?? null,
+    getFirstLinkpathDest: (link: string) => files.find(f => f.basename === link) ?? null,
+  };
+  const cachedRead = jest.fn(async (file: TFile) => NOTES[file.path]);
+  Object.assign(app.vault, {
+    getFiles: () => files,
+    getMarkdownFiles: () => files,
+    getAbstractFileByPath: (path: string) => byPath.get(path) ?? null,
+    cachedRead,
+  });
+  const api = new ObsidianAPI({} as App);
+  return { app, router: new SemanticRouter(api, app), cachedRead };
+}
+
+async function graph(router: SemanticRouter, action: string, params: Record<string, unknown>): Promise<any> {
+  const response = await router.route({ operation: 'graph', action, params });
+  if (response.error) throw new Error(response.error.message);
+  return response.result;
+}
+
+const brief = (edge: any) => [edge.source, edge.target, edge.relation ?? edge.type, edge.count];
+
+describe('inlineFieldLinks', () => {
+  it('should find links in whole-line and bracketed fields, outside frontmatter and code', () => {
+    const content = [
+      '---',
+      'up:: [[Not a field]]',
+      '---',
+      '- author:: [[Jane Doe|Jane]], [[Bob#Intro]]',
+      '- [ ] Call [owner:: [[Ann]]] (spec:: [Spec](Specs/Spec%20One.md)) [due:: 2026-10-20]',
+      '> source:: [Site](https://example.com)',
+      '```',
+      'code:: [[Code]]',
+      '```',
+      'Plain [[Link]], not: [[Field]]',
+    ].join('\n');
+
+    expect(inlineFieldLinks(content)).toEqual([
+      { key: 'author', link: 'Jane Doe' },
+      { key: 'author', link: 'Bob' },
+      { key: 'owner', link: 'Ann' },
+      { key: 'spec', link: 'Specs/Spec One.md' },
+    ]);
+  });
+});
+
+describe('typed edges', () => {
+  it('should split links into property edges named after the property, keeping the totals', async () => {
+    const { app, cachedRead } = setup();
+    const traversal = new GraphTraversal(app);
+    await traversal.refreshFieldLinks();
+
+    expect(traversal.getForwardLinks('Child.md').map(brief)).toEqual([
+      ['Child.md', 'Parent.md', 'parent', 1],
+      ['Child.md', 'Parent.md', 'link', 1],
+      ['Child.md', 'Person.md', 'author', 1],
+      ['Child.md', 'Sibling.md', 'link', 1],
+    ]);
+    expect(traversal.getForwardLinks('Parent.md').map(brief)).toEqual([
+      ['Parent.md', 'Root.md', 'parent', 1],
+      ['Parent.md', 'Sibling.md', 'related', 1],
+      ['Parent.md', 'Other.md', 'related', 1],
+    ]);
+    expect(traversal.getBacklinks('Root.md').map(brief)).toEqual([
+      ['Parent.md', 'Root.md', 'parent', 1],
+      ['Sibling.md', 'Root.md', 'link', 1],
+    ]);
+
+    // Only notes with links are read, and only again once they change
+    expect(cachedRead).toHaveBeenCalledTimes(2);
+    await traversal.refreshFieldLinks();
+    expect(cachedRead).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read inline fields only for a relation, and once per change across requests', async () => {
+    const { app, cachedRead } = setup();
+    // The server builds a router for every request
+    const neighbors = (params: Record<string, unknown>) =>
+      graph(new SemanticRouter(new ObsidianAPI({} as App), app), 'neighbors', { sourcePath: 'Child.md', ...params });
+
+    const plain = await neighbors({ edgeWeights: { link: 2 } });
+    expect(cachedRead).not.toHaveBeenCalled();
+    expect(plain.edges.some((e: any) => e.relation === 'author')).toBe(false);
+
+    const typed = await neighbors({ edgeTypes: ['author'] });
+    expect(typed.edges.map(brief)).toEqual([['Child.md', 'Person.md', 'author', 1]]);
+    expect(cachedRead).toHaveBeenCalledTimes(2);
+    await neighbors({ edgeWeights: { author: 2 } });
+    expect(cachedRead).toHaveBeenCalledTimes(2);
+  });
+
+  it('should follow only the given edge types, e.g. parent edges up to the root', async () => {
+    const { router } = setup();
+
+    const up = await graph(router, 'traverse', { sourcePath: 'Child.md', edgeTypes: ['parent'], followBacklinks: false });
+    expect(up.nodes.map((n: any) => n.path)).toEqual(['Child.md', 'Parent.md', 'Root.md']);
+    expect(up.edges.every((e: any) => e.relation === 'parent')).toBe(true);
+
+    const path = await graph(router, 'path', { sourcePath: 'Child.md', targetPath: 'Other.md', edgeTypes: ['Parent', 'related'] });
+    expect(path.paths[0].map((n: any) => n.path)).toEqual(['Child.md', 'Parent.md', 'Other.md']);
+    const none = await graph(router, 'path', { sourcePath: 'Person.md', targetPath: 'Root.md', edgeTypes: ['parent'] });
+    expect(none.found).toBe(false);
+  });
+
+  it('should weight edges by type in path, traverse and neighbors', async () => {
+    const { router } = setup();
+
+    // Unweighted, the first shortest path goes through the parent
+    const plain = await graph(router, 'path', { sourcePath: 'Child.md', targetPath: 'Root.md', followBacklinks: false });
+    expect(plain.paths[0].map((n: any) => n.path)).toEqual(['Child.md', 'Parent.md', 'Root.md']);
+    // A light parent edge makes the sibling route cheaper
+    const weighted = await graph(router, 'path', {
+      sourcePath: 'Child.md', targetPath: 'Root.md', followBacklinks: false, edgeWeights: { parent: 0.25 },
+    });
+    expect(weighted.paths[0].map((n: any) => n.path)).toEqual(['Child.md', 'Sibling.md', 'Root.md']);
+
+    // With room for three notes, heavy author edges are followed before links
+    const traverse = await graph(router, 'traverse', {
+      sourcePath: 'Child.md', maxNodes: 3, followBacklinks: false, edgeWeights: { author: 4, parent: 2, link: 0 },
+    });
+    expect(traverse.nodes.map((n: any) => n.path)).toEqual(['Child.md', 'Person.md', 'Parent.md']);
+    expect(traverse.edges.find((e: any) => e.relation === 'author').weight).toBe(4);
+
+    const neighbors = await graph(router, 'neighbors', { sourcePath: 'Parent.md', edgeWeights: { related: 2, link: 0 } });
+    expect(neighbors.edges.map(brief)).toEqual([
+      ['Parent.md', 'Sibling.md', 'related', 1],
+      ['Parent.md', 'Other.md', 'related', 1],
+      ['Parent.md', 'Root.md', 'parent', 1],
+      ['Child.md', 'Parent.md', 'parent', 1],
+    ]);
+    const text = formatResponse('graph', 'neighbors', neighbors);
+    expect(text).toContain('## Relations (4)');
+    expect(text).toContain('- related → Sibling.md (weight 2)');
+    expect(text).toContain('- parent ← Child.md (weight 1)');
+
+    await expect(graph(router, 'neighbors', { sourcePath: 'Parent.md', edgeWeights: { related: -1 } }))
+      .rejects.toThrow('edgeWeights must map edge types');
+  });
+
+  it('should export property edges typed by their property', async () => {
+    const { router } = setup();
+
+    const result = await graph(router, 'export', { format: 'json', includeTags: false });
+    const { edges } = JSON.parse(result.content).graph;
+    expect(edges.filter((e: any) => e.source === 'Child.md').map((e: any) => [e.target, e.relation])).toEqual([
+      ['Parent.md', 'parent'],
+      ['Parent.md', 'link'],
+      ['Person.md', 'author'],
+      ['Sibling.md', 'link'],
+    ]);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Link updates on `vault.move`, `vault.rename` and heading renames.
+ *
+ * The plugin rewrites links itself rather than relying on Obsidian's
+ * "Automatically update internal links" setting, so every link form has to
+ * survive a move — and keep the form it was written in.
+ */
+import { App } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { createLinkResolver, findLinks } from '../src/utils/link-rewriter';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+function vault(): MemoryAPI {
+  return new MemoryAPI({
+    'Projects/Alpha.md': '# Alpha\n\n## Goals\n\nSee [Beta](Beta.md) and [[Projects/Beta#Plan|the plan]].\n',
+    'Projects/Beta.md': '# Beta\n\n## Plan\n\nText ^step\n',
+    'Daily/Today.md': [
+      'Working on [[Alpha]] and [[Alpha#Goals|goals]].',
+      '![[Alpha]] then [[Alpha#^step]]',
+      'Markdown: [alpha](../Projects/Alpha.md#Goals) and [abs](/Projects/Alpha.md)',
+      '```',
+      '[[Alpha]] in a code block',
+      '```',
+      'Inline `[[Alpha]]` stays too.',
+    ].join('\n'),
+    'My Notes/Index.md': '- [Alpha](../Projects/Alpha.md)\n',
+    'board.canvas': JSON.stringify({
+      nodes: [{ id: 'a', type: 'file', file: 'Projects/Alpha.md', x: 0, y: 0, width: 400, height: 400 }],
+      edges: [],
+    }, null, '\t'),
+  });
+}
+
+async function route(api: ObsidianAPI, operation: string, action: string, params: Record<string, unknown>, app?: App): Promise<any> {
+  return new SemanticRouter(api, app).route({ operation, action, params });
+}
+
+/** An app whose link index knows every file of `vault()` but nothing added since. */
+function indexedApp(): App {
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: {
+      'Projects/Alpha.md': { 'Projects/Beta.md': 2 },
+      'Projects/Beta.md': {},
+      'Daily/Today.md': { 'Projects/Alpha.md': 5 },
+      'My Notes/Index.md': { 'Projects/Alpha.md': 1 },
+      'board.canvas': { 'Projects/Alpha.md': 1 },
+    },
+  };
+  return app;
+}
+
+const readPaths = (spy: jest.SpyInstance) => [...new Set(spy.mock.calls.map(([path]) => path as string))].sort();
+
+describe('link-rewriter', () => {
+  it('should find every link form outside code', () => {
+    const links = findLinks('[[A#H|x]] ![[B]] [c](C%20D.md#^b "t") `[[E]]` [w](https://x.y)\n```\n[[F]]\n```');
+
+    expect(links.map(l => [l.kind, l.embed, l.target, l.subpath, l.display])).toEqual([
+      ['wikilink', false, 'A', '#H', '|x'],
+      ['wikilink', true, 'B', '', ''],
+      ['markdown', false, 'C D.md', '#^b', 'c'],
+    ]);
+  });
+
+  it('should resolve like Obsidian: relative Markdown links, then exact path, then nearest name', () => {
+    const resolve = createLinkResolver(['a/Note.md', 'b/Note.md', 'b/c/Other.md', 'Top.md']);
+
+    expect(resolve({ kind: 'markdown', target: 'c/Other.md' }, 'b/x.md')).toBe('b/c/Other.md');
+    expect(resolve({ kind: 'wikilink', target: 'a/Note' }, 'x.md')).toBe('a/Note.md');
+    expect(resolve({ kind: 'wikilink', target: 'Note' }, 'b/x.md')).toBe('b/Note.md');
+    expect(resolve({ kind: 'wikilink', target: 'Note' }, 'z/x.md')).toBe('a/Note.md');
+    expect(resolve({ kind: 'markdown', target: 'Top.md' }, 'b/x.md')).toBe('Top.md');
+  });
+});
+
+describe('vault.move link updates', () => {
+  it('should rewrite wikilinks, embeds, subpaths, aliases, Markdown links and canvas cards', async () => {
+    const api = vault();
+    const response = await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Old Alpha.md' });
+
+    expect(response.error).toBeUndefined();
+    expect(api.files.get('Daily/Today.md')!.split('\n')).toEqual([
+      'Working on [[Old Alpha]] and [[Old Alpha#Goals|goals]].',
+      '![[Old Alpha]] then [[Old Alpha#^step]]',
+      'Markdown: [alpha](../Archive/Old%20Alpha.md#Goals) and [abs](/Archive/Old%20Alpha.md)',
+      '```',
+      '[[Alpha]] in a code block',
+      '```',
+      'Inline `[[Alpha]]` stays too.',
+    ]);
+    expect(api.files.get('My Notes/Index.md')).toBe('- [Alpha](../Archive/Old%20Alpha.md)\n');
+    expect(JSON.parse(api.files.get('board.canvas')!).nodes[0].file).toBe('Archive/Old Alpha.md');
+
+    const { links } = response.result;
+    expect(links.failed).toEqual([]);
+    expect(links.files.map((f: any) => f.path).sort()).toEqual([
+      'Archive/Old Alpha.md', 'Daily/Today.md', 'My Notes/Index.md', 'board.canvas',
+    ]);
+    expect(links.files.find((f: any) => f.path === 'Daily/Today.md').lines.map((l: any) => l.line)).toEqual([1, 2, 3]);
+  });
+
+  it("should fix the moved note's own relative links", async () => {
+    const api = vault();
+    await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Alpha.md' });
+
+    expect(api.files.get('Archive/Alpha.md')).toContain('See [Beta](../Projects/Beta.md) and [[Projects/Beta#Plan|the plan]].');
+  });
+
+  it('should keep a bare name only while it still resolves to the moved note', async () => {
+    const api = vault();
+    api.files.set('Archive/Gamma.md', '# Another Gamma');
+    api.files.set('Archive/Ref.md', 'See [[Gamma]] and [[Alpha]].');
+    api.files.set('Projects/Ref.md', 'See [[Alpha]].');
+
+    const response = await route(api, 'vault', 'rename', { path: 'Projects/Alpha.md', newName: 'Gamma.md' });
+
+    // From Archive, a bare [[Gamma]] reaches Archive/Gamma, so the path is spelled out
+    expect(api.files.get('Archive/Ref.md')).toBe('See [[Gamma]] and [[Projects/Gamma]].');
+    // From Daily both are equally near; Archive/Gamma sorts first
+    expect(api.files.get('Daily/Today.md')!.split('\n')[0]).toBe('Working on [[Projects/Gamma]] and [[Projects/Gamma#Goals|goals]].');
+    // From Projects the same folder wins, so the bare name is kept
+    expect(api.files.get('Projects/Ref.md')).toBe('See [[Gamma]].');
+    expect(response.result.newPath).toBe('Projects/Gamma.md');
+  });
+
+  it("should read only the files Obsidian's link index lists as linking to the note", async () => {
+    const api = vault();
+    api.files.set('Inbox/New.md', 'Not indexed yet: [[Alpha]]');
+    const getFile = jest.spyOn(api, 'getFile');
+
+    const response = await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Old Alpha.md' }, indexedApp());
+
+    expect(response.error).toBeUndefined();
+    expect(readPaths(getFile)).not.toContain('Projects/Beta.md');
+    expect(api.files.get('Inbox/New.md')).toBe('Not indexed yet: [[Old Alpha]]');
+    expect(response.result.links.files.map((f: any) => f.path).sort()).toEqual([
+      'Archive/Old Alpha.md', 'Daily/Today.md', 'Inbox/New.md', 'My Notes/Index.md', 'board.canvas',
+    ]);
+  });
+
+  it('should leave links alone with updateLinks: false', async () => {
+    const api = vault();
+    const before = api.files.get('Daily/Today.md');
+
+    const response = await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Alpha.md', updateLinks: false });
+
+    expect(api.files.get('Daily/Today.md')).toBe(before);
+    expect(response.result.links).toBeUndefined();
+  });
+
+  it('should preview the rewrites in a dry run without writing', async () => {
+    const api = vault();
+    const before = new Map(api.files);
+
+    const response = await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Alpha.md', dryRun: true });
+
+    expect(api.files).toEqual(before);
+    expect(response.result.files.map((f: any) => f.path)).toEqual(expect.arrayContaining(['Daily/Today.md', 'board.canvas']));
+  });
+
+  it('should list each rewritten file and line in the formatted response', async () => {
+    const api = vault();
+    const response = await route(api, 'vault', 'move', { path: 'Projects/Alpha.md', destination: 'Archive/Alpha.md' });
+    const text = formatResponse('vault', 'move', response.result);
+
+    expect(text).toContain('## Links updated');
+    expect(text).toContain('- My Notes/Index.md');
+    expect(text).toContain('line 1: - [Alpha](../Archive/Alpha.md)');
+  });
+});
+
+describe('edit.patch heading rename', () => {
+  it('should rename the heading and the #heading links to it, but not block links', async () => {
+    const api = vault();
+    api.files.set('Projects/Alpha.md', '# Alpha\n\n## Goals\n\nBack to [[#Goals]].\n');
+
+    const response = await route(api, 'edit', 'patch', {
+      path: 'Projects/Alpha.md', targetType: 'heading', target: 'Alpha::Goals', operation: 'rename', content: 'Aims',
+    });
+
+    expect(response.error).toBeUndefined();
+    expect(api.files.get('Projects/Alpha.md')).toBe('# Alpha\n\n## Aims\n\nBack to [[#Aims]].\n');
+    expect(api.files.get('Daily/Today.md')!.split('\n').slice(0, 3)).toEqual([
+      'Working on [[Alpha]] and [[Alpha#Aims|goals]].',
+      '![[Alpha]] then [[Alpha#^step]]',
+      'Markdown: [alpha](../Projects/Alpha.md#Aims) and [abs](/Projects/Alpha.md)',
+    ]);
+    expect(response.result.links.files.map((f: any) => f.path).sort()).toEqual(['Daily/Today.md', 'Projects/Alpha.md']);
+  });
+
+  it('should scan only the note and its backlinks for links to the heading', async () => {
+    const api = vault();
+    const getFile = jest.spyOn(api, 'getFile');
+
+    const response = await route(api, 'edit', 'patch', {
+      path: 'Projects/Alpha.md', targetType: 'heading', target: 'Alpha::Goals', operation: 'rename', content: 'Aims',
+    }, indexedApp());
+
+    expect(response.error).toBeUndefined();
+    expect(readPaths(getFile)).toEqual(['Daily/Today.md', 'My Notes/Index.md', 'Projects/Alpha.md']);
+    expect(api.files.get('Daily/Today.md')).toContain('[[Alpha#Aims|goals]]');
+  });
+});
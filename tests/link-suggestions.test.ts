@@ -0,0 +1,200 @@
+/**
+ * graph.suggest_links and graph.link_mentions.
+ *
+ * A home note that mentions two projects (one by alias) without linking
+ * them, is mentioned in turn by one of them, and shares tags and citing
+ * notes with others: the suggestions must find both kinds of mention with
+ * edits that link them, rank the related notes, and link chosen mentions in
+ * bulk — never inside code, links or frontmatter, and never in ignored notes.
+ */
+import { App, TFile } from 'obsidian';
+import { SemanticRouter } from '../src/semantic/router';
+import { findUnlinkedMentions } from '../src/utils/unlinked-mentions';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const HOME = [
+  '# Home',
+  '',
+  'Working on Project Alpha with the beta team.',
+  'See [[Gamma]] and `Beta` code.',
+  'alpha again',
+].join('\n');
+
+const NOTES: Record<string, string> = {
+  'Home.md': HOME,
+  'Projects/Alpha.md': '---\naliases: [Project Alpha]\n---\n# Alpha\n\nPart of the home effort.',
+  'Projects/Beta.md': 'Beta notes. Links [[Home]].',
+  'Gamma.md': 'Gamma links [[Projects/Beta]].',
+  'Delta.md': 'Delta stands alone.',
+  'Index.md': '[[Home]] and [[Delta]]',
+  'hidden/Secret.md': 'Home is where the secret is.',
+};
+
+const CACHES: Record<string, unknown> = {
+  'Home.md': { tags: [{ tag: '#work' }, { tag: '#rare' }] },
+  'Projects/Alpha.md': { frontmatter: { aliases: ['Project Alpha'] } },
+  'Projects/Beta.md': { tags: [{ tag: '#work' }] },
+  'Delta.md': { tags: [{ tag: '#work' }, { tag: '#rare' }] },
+};
+
+const LINKS: Record<string, Record<string, number>> = {
+  'Home.md': { 'Gamma.md': 1 },
+  'Projects/Beta.md': { 'Home.md': 1 },
+  'Gamma.md': { 'Projects/Beta.md': 1 },
+  'Index.md': { 'Home.md': 1, 'Delta.md': 1 },
+  'hidden/Secret.md': { 'Delta.md': 1 },
+};
+
+const isHidden = (path: string) => path.startsWith('hidden/');
+
+function makeFile(path: string): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() ?? path;
+  file.basename = file.name.replace(/\.md$/, '');
+  file.extension = 'md';
+  return file;
+}
+
+function setup(): { router: SemanticRouter; api: MemoryAPI } {
+  const files = Object.keys(NOTES).map(makeFile);
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const app = new App();
+  (app as any).metadataCache = {
+    resolvedLinks: LINKS,
+    unresolvedLinks: {},
+    getFileCache: (file: TFile) => CACHES[file.path] ?? null,
+    getFirstLinkpathDest: () => null,
+  };
+  app.vault.getFiles = jest.fn(() => files);
+  app.vault.getMarkdownFiles = jest.fn(() => files);
+  app.vault.getAbstractFileByPath = jest.fn((p: string) => byPath.get(p) ?? null);
+  const api = new MemoryAPI(NOTES, { ignore: { isExcluded: isHidden } });
+  return { router: new SemanticRouter(api, app), api };
+}
+
+async function route(router: SemanticRouter, operation: string, action: string, params: Record<string, unknown>): Promise<any> {
+  const response = await router.route({ operation, action, params });
+  if (response.error) throw new Error(response.error.message);
+  return response.result;
+}
+
+const brief = (mention: any) => [mention.id, mention.text, mention.link];
+
+describe('findUnlinkedMentions', () => {
+  it('should match whole names, longest first, outside code, links, URLs, tags and frontmatter', () => {
+    const content = [
+      '---',
+      'title: Alpha',
+      '---',
+      'Project Alpha, alphabet, ALPHA.',
+      '`Alpha` [[Alpha]] [Alpha](Alpha.md) https://x.io/Alpha #Alpha',
+      '```',
+      'Alpha',
+      '```',
+      'Me and Al',
+    ].join('\n');
+    const names = [
+      { name: 'Alpha', target: 'Alpha.md' },
+      { name: 'Project Alpha', target: 'Project Alpha.md' },
+      { name: 'Al', target: 'Al.md' },
+      { name: 'Me', target: 'Self.md' },
+    ];
+
+    const mentions = findUnlinkedMentions(content, names, 'Self.md');
+
+    expect(mentions.map(m => [m.line, m.start, m.text, m.target])).toEqual([
+      [4, 0, 'Project Alpha', 'Project Alpha.md'],
+      [4, 25, 'ALPHA', 'Alpha.md'],
+    ]);
+  });
+});
+
+describe('graph.suggest_links', () => {
+  it('should find unlinked mentions in the note and of the note, each with a working edit', async () => {
+    const { router, api } = setup();
+
+    const result = await route(router, 'graph', 'suggest_links', { sourcePath: 'Home.md' });
+
+    expect(result.outgoing.map(brief)).toEqual([
+      ['Home.md:3:12', 'Project Alpha', '[[Alpha|Project Alpha]]'],
+      ['Home.md:3:35', 'beta', '[[Beta|beta]]'],
+      ['Home.md:5:1', 'alpha', '[[Alpha|alpha]]'],
+    ]);
+    // The ignored note mentions Home too, but is never read
+    expect(result.incoming.map(brief)).toEqual([
+      ['Projects/Alpha.md:6:13', 'home', '[[Home|home]]'],
+    ]);
+    expect(result.totals).toEqual({ outgoing: 3, incoming: 1 });
+
+    const { operation, action, params } = result.outgoing[0].edit;
+    await route(router, operation, action, params);
+    expect(api.files.get('Home.md')!.split('\n')[2]).toBe('Working on [[Alpha|Project Alpha]] with the beta team.');
+
+    // The edit is pinned to the content it was computed from
+    await expect(route(router, operation, action, params)).rejects.toThrow('has changed since it was read');
+  });
+
+  it('should rank related notes by shared tags, co-citation, backlinks and mentions', async () => {
+    const result = await route(setup().router, 'graph', 'suggest_links', { sourcePath: 'Home.md' });
+
+    expect(result.related.map((r: any) => [r.path, r.score])).toEqual([
+      ['Projects/Beta.md', 2.5],
+      ['Delta.md', 2.131],
+      ['Index.md', 1],
+      ['Projects/Alpha.md', 1],
+    ]);
+    // Gamma is linked already
+    expect(result.related[1]).toMatchObject({ sharedTags: ['#work', '#rare'], coCitations: 1, linksHere: false });
+    expect(result.related[0].edit.action).toBe('at_line');
+    expect(result.related[1].edit).toMatchObject({ action: 'append', params: { path: 'Home.md', content: '- [[Delta]]' } });
+
+    await expect(route(setup().router, 'graph', 'suggest_links', { sourcePath: 'hidden/Secret.md' })).rejects.toThrow('File not found');
+  });
+});
+
+describe('graph.link_mentions', () => {
+  it('should link the chosen mentions, several on a line, and report ids no longer found', async () => {
+    const { router, api } = setup();
+
+    const result = await route(router, 'graph', 'link_mentions', {
+      sourcePath: 'Home.md',
+      mentions: ['Home.md:3:12', 'Home.md:3:35', 'Projects/Alpha.md:6:13', 'Home.md:9:1'],
+    });
+
+    expect(result.files).toEqual(['Home.md', 'Projects/Alpha.md']);
+    expect(result.missing).toEqual(['Home.md:9:1']);
+    expect(api.files.get('Home.md')!.split('\n').slice(2)).toEqual([
+      'Working on [[Alpha|Project Alpha]] with the [[Beta|beta]] team.',
+      'See [[Gamma]] and `Beta` code.',
+      'alpha again',
+    ]);
+    expect(api.files.get('Projects/Alpha.md')).toContain('Part of the [[Home|home]] effort.');
+  });
+
+  it('should preview with dryRun and link every mention in one direction by default', async () => {
+    const { router, api } = setup();
+
+    const preview = await route(router, 'graph', 'link_mentions', { sourcePath: 'Home.md', direction: 'outgoing', dryRun: true });
+    expect(preview.files.map((f: any) => f.path)).toEqual(['Home.md']);
+    expect(preview.diff).toContain('+[[Alpha|alpha]] again');
+    expect(api.files.get('Home.md')).toBe(HOME);
+
+    const applied = await route(router, 'graph', 'link_mentions', { sourcePath: 'Home.md', direction: 'outgoing' });
+    expect(applied.linked).toHaveLength(3);
+    expect(api.files.get('Projects/Alpha.md')).toBe(NOTES['Projects/Alpha.md']);
+  });
+
+  it('should format the suggestions and the links made', async () => {
+    const { router } = setup();
+
+    const suggestions = formatResponse('graph', 'suggest_links', await route(router, 'graph', 'suggest_links', { sourcePath: 'Home.md' }));
+    expect(suggestions).toContain('## Unlinked mentions in this note (3)');
+    expect(suggestions).toContain('- `Home.md:3:35` "beta" → `[[Beta|beta]]`');
+    expect(suggestions).toContain('2. Delta — Delta.md (2.13: tags #work, #rare; co-cited by 1)');
+
+    const linked = formatResponse('graph', 'link_mentions', await route(router, 'graph', 'link_mentions', { sourcePath: 'Home.md' }));
+    expect(linked).toContain('# Linked 4 mentions in 2 files');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Vault notes as MCP resources — `obsidian://note/{path}`.
+ *
+ * A client should be able to page through the vault with `resources/list`,
+ * read a note with `resources/read`, and subscribe to it so an edit made in
+ * Obsidian arrives as `notifications/resources/updated`. `.mcpignore`d files,
+ * and files outside a scoped API key's paths, must stay invisible on every one
+ * of those paths.
+ *
+ * Driven through the pool's registered handlers, as in tool-list-liveness.
+ */
+import { App, TFile } from 'obsidian';
+import { MCPServerPool } from '../src/utils/mcp-server-pool';
+import { SecureObsidianAPI } from '../src/security';
+import { BASELINE_SECURITY_SETTINGS } from '../src/mcp-server';
+
+jest.mock('obsidian');
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string };
+  w.path = path;
+  w.extension = path.slice(path.lastIndexOf('.') + 1);
+  w.name = path.split('/').pop()!;
+  return f;
+}
+
+const isExcluded = (path: string) => path.startsWith('private/');
+
+const SCOPED_KEY = {
+  name: 'journal',
+  key: 'k',
+  permissions: { read: true, create: false, update: false, delete: false, move: false, rename: false, execute: false },
+  blockedPaths: ['Work/*'],
+};
+
+function makePool(initial: Record<string, string>) {
+  const files = new Map(Object.entries(initial));
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) => (files.has(p) ? mkFile(p) : null),
+      getAllLoadedFiles: () => [...files.keys()].map(mkFile),
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => [...files.keys()].map(mkFile),
+      read: async (f: TFile) => files.get(f.path)!,
+    },
+    metadataCache: { getFileCache: () => null, resolvedLinks: {} },
+    workspace: { getActiveFile: () => null },
+  } as unknown as App;
+  const plugin = {
+    settings: { enableWebFetch: false, toolVisibility: {}, scopedApiKeys: [SCOPED_KEY] },
+    ignoreManager: {
+      isExcluded,
+      filterPaths: (paths: string[]) => paths.filter(p => !isExcluded(p)),
+      getEnabled: () => true,
+    },
+    manifest: { dir: '/test/vault/.obsidian/plugins/semantic-vault-mcp' },
+  };
+  const api = new SecureObsidianAPI(app, undefined, plugin as never, BASELINE_SECURITY_SETTINGS);
+  return { pool: new MCPServerPool(api, 8, plugin as never), plugin };
+}
+
+type Handler = (req: unknown, extra: unknown) => Promise<any>;
+
+async function call(
+  pool: MCPServerPool, sessionId: string, method: string, params: Record<string, unknown> = {}, keyName?: string
+): Promise<any> {
+  const server = pool.getOrCreateServer(sessionId, keyName);
+  const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get(method);
+  if (!handler) throw new Error(`${method} handler not registered`);
+  return handler({ method, params }, {});
+}
+
+describe('vault notes as MCP resources', () => {
+  it('should list vault files as note resources, excluding .mcpignore matches', async () => {
+    const { pool } = makePool({ 'a.md': 'A', 'Daily Notes/2026-01-01.md': 'D', 'private/secret.md': 'S' });
+    const { resources } = await call(pool, 's1', 'resources/list');
+    const uris = resources.map((r: { uri: string }) => r.uri);
+
+    expect(uris).toContain('obsidian://vault-info');
+    expect(uris).toContain('obsidian://note/a.md');
+    expect(uris).toContain('obsidian://note/Daily%20Notes/2026-01-01.md');
+    expect(uris.some((u: string) => u.includes('secret'))).toBe(false);
+  });
+
+  it('should page the list with a cursor', async () => {
+    const initial = Object.fromEntries(Array.from({ length: 150 }, (_, i) => [`n${String(i).padStart(3, '0')}.md`, '']));
+    const { pool } = makePool(initial);
+
+    const first = await call(pool, 's1', 'resources/list');
+    expect(first.resources).toHaveLength(100);
+    const second = await call(pool, 's1', 'resources/list', { cursor: first.nextCursor });
+    expect(second.nextCursor).toBeUndefined();
+
+    const notes = [...first.resources, ...second.resources].filter((r: { uri: string }) => r.uri.startsWith('obsidian://note/'));
+    expect(notes).toHaveLength(150);
+  });
+
+  it('should advertise the note resource template', async () => {
+    const { pool } = makePool({});
+    const { resourceTemplates } = await call(pool, 's1', 'resources/templates/list');
+    expect(resourceTemplates.map((t: { uriTemplate: string }) => t.uriTemplate)).toEqual(['obsidian://note/{path}']);
+  });
+
+  it('should read a note by URI and refuse an ignored one', async () => {
+    const { pool } = makePool({ 'Daily Notes/2026-01-01.md': '# Day', 'private/secret.md': 'S' });
+
+    const read = await call(pool, 's1', 'resources/read', { uri: 'obsidian://note/Daily%20Notes/2026-01-01.md' });
+    expect(read.contents).toEqual([{
+      uri: 'obsidian://note/Daily%20Notes/2026-01-01.md', mimeType: 'text/markdown', text: '# Day',
+    }]);
+    await expect(call(pool, 's1', 'resources/read', { uri: 'obsidian://note/private/secret.md' })).rejects.toThrow();
+  });
+
+  it('should notify only sessions subscribed to the changed note', async () => {
+    const { pool } = makePool({ 'a.md': 'A', 'b.md': 'B' });
+    const sent: Array<[string, string]> = [];
+    for (const id of ['watcher', 'other']) {
+      const server = pool.getOrCreateServer(id).server as unknown as { sendResourceUpdated: (p: { uri: string }) => Promise<void> };
+      server.sendResourceUpdated = async ({ uri }) => { sent.push([id, uri]); };
+    }
+
+    await call(pool, 'watcher', 'resources/subscribe', { uri: 'obsidian://note/a.md' });
+    await call(pool, 'other', 'resources/subscribe', { uri: 'obsidian://note/b.md' });
+    pool.notifyResourceUpdated('a.md');
+    expect(sent).toEqual([['watcher', 'obsidian://note/a.md']]);
+
+    await call(pool, 'watcher', 'resources/unsubscribe', { uri: 'obsidian://note/a.md' });
+    pool.notifyResourceUpdated('a.md');
+    expect(sent).toHaveLength(1);
+  });
+
+  it("should list, subscribe and notify only within a scoped key's paths", async () => {
+    const { pool, plugin } = makePool({ 'a.md': 'A', 'Work/plan.md': 'P' });
+    const listed = await call(pool, 'scoped', 'resources/list', {}, 'journal');
+    const uris = listed.resources.map((r: { uri: string }) => r.uri);
+    expect(uris).toContain('obsidian://note/a.md');
+    expect(uris).not.toContain('obsidian://note/Work/plan.md');
+    await expect(call(pool, 'scoped', 'resources/subscribe', { uri: 'obsidian://note/Work/plan.md' }, 'journal'))
+      .rejects.toThrow('Unknown resource');
+
+    const sent: string[] = [];
+    const server = pool.getOrCreateServer('scoped', 'journal').server as unknown as { sendResourceUpdated: (p: { uri: string }) => Promise<void> };
+    server.sendResourceUpdated = async ({ uri }) => { sent.push(uri); };
+    await call(pool, 'scoped', 'resources/subscribe', { uri: 'obsidian://note/a.md' }, 'journal');
+    pool.notifyResourceUpdated('a.md');
+    expect(sent).toEqual(['obsidian://note/a.md']);
+
+    // Narrowing the key reaches the existing subscription
+    plugin.settings.scopedApiKeys = [{ ...SCOPED_KEY, blockedPaths: ['Work/*', 'a.md'] }];
+    pool.notifyResourceUpdated('a.md');
+    expect(sent).toHaveLength(1);
+  });
+
+  it('should refuse a subscription to an ignored note', async () => {
+    const { pool } = makePool({ 'private/secret.md': 'S' });
+    await expect(call(pool, 's1', 'resources/subscribe', { uri: 'obsidian://note/private/secret.md' }))
+      .rejects.toThrow('Unknown resource');
+  });
+});
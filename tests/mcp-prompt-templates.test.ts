@@ -0,0 +1,139 @@
+/**
+ * MCP prompts from vault notes (`prompts/list`, `prompts/get`).
+ *
+ * Templates live as markdown notes in the configured prompts folder: the
+ * frontmatter declares description and arguments, `{{arg}}` placeholders are
+ * filled in, and `![[Note]]` embeds pull in other notes. The folder is read
+ * from live settings, so changing it needs no reconnect.
+ *
+ * Driven through the pool's registered handlers, as in tool-list-liveness.
+ */
+import { App, TFile, TFolder } from 'obsidian';
+import { MCPServerPool } from '../src/utils/mcp-server-pool';
+import { SecureObsidianAPI } from '../src/security';
+import { BASELINE_SECURITY_SETTINGS } from '../src/mcp-server';
+
+jest.mock('obsidian');
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string; basename: string };
+  w.path = path;
+  w.extension = path.slice(path.lastIndexOf('.') + 1);
+  w.name = path.split('/').pop()!;
+  w.basename = w.name.replace(/\.[^.]+$/, '');
+  return f;
+}
+
+/** A folder whose children are every file below it (flat is enough for listFiles). */
+function mkFolder(path: string, files: string[]): TFolder {
+  const folder = new TFolder();
+  (folder as unknown as { path: string }).path = path;
+  folder.children = files.filter(f => f.startsWith(`${path}/`)).map(mkFile);
+  return folder;
+}
+
+const WEEKLY = [
+  '---',
+  'description: Review the past week',
+  'arguments:',
+  '  - name: week',
+  '    description: ISO week',
+  '    required: true',
+  '  - project',
+  '---',
+  'Review week {{week}} for {{ project }}.',
+  '',
+  '![[Goals#This week]]',
+  '![[Goals#^later]]',
+  '![[Missing note]]',
+].join('\n');
+
+function makePool(settings: { promptsFolder: string }) {
+  const files = new Map(Object.entries({
+    'MCP Prompts/Weekly Review.md': WEEKLY,
+    'MCP Prompts/team/standup.md': 'What did you do yesterday?',
+    'MCP Prompts/diagram.png': '',
+    'Goals.md': '---\ntags: [goals]\n---\n# This week\n- Ship the release\n\n# Later\n- Plan Q4 ^later\n- Hire',
+  }));
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) => {
+        if (files.has(p)) return mkFile(p);
+        const below = [...files.keys()].filter(f => f.startsWith(`${p}/`));
+        return below.length > 0 ? mkFolder(p, below) : null;
+      },
+      getAllLoadedFiles: () => [...files.keys()].map(mkFile),
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => [...files.keys()].map(mkFile),
+      read: async (f: TFile) => files.get(f.path)!,
+    },
+    metadataCache: {
+      getFileCache: () => null,
+      resolvedLinks: {},
+      getFirstLinkpathDest: (link: string) => (files.has(`${link}.md`) ? mkFile(`${link}.md`) : null),
+    },
+    workspace: { getActiveFile: () => null },
+  } as unknown as App;
+  const plugin = { settings: { enableWebFetch: false, toolVisibility: {}, ...settings } as Record<string, unknown> };
+  const api = new SecureObsidianAPI(app, undefined, plugin as never, BASELINE_SECURITY_SETTINGS);
+  return { pool: new MCPServerPool(api, 8, plugin as never), settings: plugin.settings };
+}
+
+type Handler = (req: unknown, extra: unknown) => Promise<any>;
+
+async function call(pool: MCPServerPool, method: string, params: Record<string, unknown> = {}): Promise<any> {
+  const server = pool.getOrCreateServer('s1');
+  const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get(method);
+  if (!handler) throw new Error(`${method} handler not registered`);
+  return handler({ method, params }, {});
+}
+
+describe('MCP prompts from vault templates', () => {
+  it('should list every markdown note in the prompts folder with its declared arguments', async () => {
+    const { pool } = makePool({ promptsFolder: 'MCP Prompts' });
+    const { prompts } = await call(pool, 'prompts/list');
+
+    expect(prompts).toEqual([
+      {
+        name: 'team/standup',
+        arguments: [],
+      },
+      {
+        name: 'Weekly Review',
+        description: 'Review the past week',
+        arguments: [
+          { name: 'week', description: 'ISO week', required: true },
+          { name: 'project' },
+        ],
+      },
+    ]);
+  });
+
+  it('should fill in arguments and expand embeds, down to the embedded heading or block', async () => {
+    const { pool } = makePool({ promptsFolder: 'MCP Prompts' });
+    const result = await call(pool, 'prompts/get', { name: 'Weekly Review', arguments: { week: '2026-W03', project: 'Atlas' } });
+
+    expect(result.description).toBe('Review the past week');
+    expect(result.messages).toEqual([{
+      role: 'user',
+      content: { type: 'text', text: 'Review week 2026-W03 for Atlas.\n\n# This week\n- Ship the release\n- Plan Q4\n![[Missing note]]' },
+    }]);
+  });
+
+  it('should refuse a missing required argument and an unknown prompt', async () => {
+    const { pool } = makePool({ promptsFolder: 'MCP Prompts' });
+
+    await expect(call(pool, 'prompts/get', { name: 'Weekly Review', arguments: {} })).rejects.toThrow('week');
+    await expect(call(pool, 'prompts/get', { name: '../Goals' })).rejects.toThrow('Unknown prompt');
+  });
+
+  it('should follow a change of the folder setting without a new session', async () => {
+    const { pool, settings } = makePool({ promptsFolder: '' });
+    expect((await call(pool, 'prompts/list')).prompts).toEqual([]);
+
+    settings.promptsFolder = 'MCP Prompts/team';
+    expect((await call(pool, 'prompts/list')).prompts.map((p: { name: string }) => p.name)).toEqual(['standup']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Operation journal — vault.history / vault.undo.
+ *
+ * Every write through SecureObsidianAPI is journaled with its before/after
+ * content and the session that made it, so a bad edit can be reverted without
+ * git. Undo must refuse to overwrite a file that changed since the journaled
+ * operation (unless forced), and a denied write must never be journaled.
+ */
+import { App, TFile, TFolder } from 'obsidian';
+import { SecureObsidianAPI } from '../src/security/secure-obsidian-api';
+import { SemanticRouter } from '../src/semantic/router';
+import { OperationJournal, JournalStore } from '../src/utils/operation-journal';
+
+jest.mock('obsidian');
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string };
+  w.path = path;
+  w.extension = path.slice(path.lastIndexOf('.') + 1);
+  w.name = path.split('/').pop()!;
+  return f;
+}
+
+function mkFolder(path: string): TFolder {
+  const f = new TFolder();
+  f.path = path;
+  f.name = path.split('/').pop()!;
+  return f;
+}
+
+function makeVault(initial: Record<string, string>): { app: App; files: Map<string, string> } {
+  const files = new Map(Object.entries(initial));
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) =>
+        files.has(p) ? mkFile(p) : [...files.keys()].some(k => k.startsWith(`${p}/`)) ? mkFolder(p) : null,
+      read: async (f: TFile) => files.get(f.path)!,
+      cachedRead: async (f: TFile) => files.get(f.path)!,
+      modify: async (f: TFile, content: string) => { files.set(f.path, content); },
+      create: async (p: string, content: string) => { files.set(p, content); return mkFile(p); },
+      createFolder: async () => {},
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => [...files.keys()].map(mkFile),
+    },
+    fileManager: {
+      renameFile: async (f: TFile, newPath: string) => {
+        files.set(newPath, files.get(f.path)!);
+        files.delete(f.path);
+      },
+      trashFile: async (f: TFile) => {
+        for (const k of [...files.keys()]) if (k === f.path || k.startsWith(`${f.path}/`)) files.delete(k);
+      },
+    },
+    metadataCache: { getFileCache: () => null, resolvedLinks: {} },
+    workspace: { getActiveFile: () => null },
+  } as unknown as App;
+  return { app, files };
+}
+
+function memoryStore(): JournalStore & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    exists: async (p) => data.has(p),
+    read: async (p) => data.get(p) ?? '',
+    write: async (p, d) => { data.set(p, d); },
+    append: async (p, d) => { data.set(p, (data.get(p) ?? '') + d); },
+  };
+}
+
+const PERMISSIVE = {
+  pathValidation: 'strict' as const,
+  permissions: { read: true, create: true, update: true, delete: true, move: true, rename: true, execute: true },
+  blockedPaths: [],
+  logSecurityEvents: false,
+};
+
+function setup(initial: Record<string, string>, readOnly = false) {
+  const { app, files } = makeVault(initial);
+  const api = new SecureObsidianAPI(app, undefined, { settings: { readOnlyMode: readOnly } } as never, PERMISSIVE);
+  const route = (action: string, params: Record<string, unknown>, sessionId = 's1') =>
+    OperationJournal.runInContext({ sessionId, tool: 'vault', action, args: params }, () =>
+      new SemanticRouter(api, app).route({ operation: 'vault', action, params })
+    ) as Promise<any>;
+  // A session opened with a key scoped to Daily/
+  const scoped = new SecureObsidianAPI(app, undefined, { settings: {} } as never, PERMISSIVE, () => ({
+    permissions: PERMISSIVE.permissions,
+    allowedPaths: ['Daily/**'],
+  }));
+  const routeScoped = (action: string, params: Record<string, unknown>, sessionId = 'k1') =>
+    OperationJournal.runInContext({ sessionId, keyName: 'daily', tool: 'vault', action, args: params }, () =>
+      new SemanticRouter(scoped, app).route({ operation: 'vault', action, params })
+    ) as Promise<any>;
+  return { files, route, routeScoped };
+}
+
+describe('operation journal', () => {
+  const journal = OperationJournal.getInstance();
+  let store: ReturnType<typeof memoryStore>;
+
+  beforeEach(async () => {
+    store = memoryStore();
+    await journal.attach(store, 'journal.jsonl');
+  });
+
+  afterEach(() => journal.detach());
+
+  it('should record before/after content with the session and tool call', async () => {
+    const { route } = setup({ 'a.md': 'alpha' });
+    await route('update', { path: 'a.md', content: 'ALPHA' });
+
+    const [entry] = journal.getEntries();
+    expect(entry).toMatchObject({
+      type: 'update', path: 'a.md', before: 'alpha', after: 'ALPHA',
+      sessionId: 's1', tool: 'vault', action: 'update',
+    });
+    await journal.flush();
+    expect(JSON.parse(store.data.get('journal.jsonl')!.trim()).id).toBe(entry.id);
+  });
+
+  it('should not journal a write the security layer denied', async () => {
+    const { route } = setup({ 'a.md': 'alpha' }, true);
+    const response = await route('update', { path: 'a.md', content: 'ALPHA' });
+
+    expect(response.error).toBeDefined();
+    expect(journal.getEntries()).toEqual([]);
+  });
+
+  it('should undo a single entry and mark it undone in history', async () => {
+    const { files, route } = setup({ 'a.md': 'alpha', 'b.md': 'bravo' });
+    await route('update', { path: 'a.md', content: 'ALPHA' });
+    await route('delete', { path: 'b.md' });
+    const deleted = journal.getEntries({ path: 'b.md' })[0];
+
+    const response = await route('undo', { id: deleted.id });
+    expect(response.error).toBeUndefined();
+    expect(files.get('b.md')).toBe('bravo');
+    expect(files.get('a.md')).toBe('ALPHA');
+
+    const history = await route('history', { path: 'b.md' });
+    const original = history.result.entries.find((e: any) => e.id === deleted.id);
+    expect(original.undone).toBe(true);
+  });
+
+  it('should undo every operation of one session, newest first', async () => {
+    const { files, route } = setup({ 'a.md': 'alpha', 'b.md': 'bravo' });
+    await route('update', { path: 'a.md', content: 'one' });
+    await route('update', { path: 'a.md', content: 'two' });
+    await route('create', { path: 'c.md', content: 'charlie' });
+    await route('move', { path: 'b.md', destination: 'archive/b.md' });
+    await route('create', { path: 'd.md', content: 'other session' }, 's2');
+
+    const response = await route('undo', { sessionId: 's1' });
+    expect(response.error).toBeUndefined();
+    expect(response.result.reverted).toHaveLength(4);
+    expect(Object.fromEntries(files)).toEqual({ 'a.md': 'alpha', 'b.md': 'bravo', 'd.md': 'other session' });
+  });
+
+  it('should refuse with CONFLICT when the file changed since, and revert with force', async () => {
+    const { files, route } = setup({ 'a.md': 'alpha' });
+    await route('update', { path: 'a.md', content: 'ALPHA' });
+    const [entry] = journal.getEntries();
+    files.set('a.md', 'edited by hand');
+
+    const refused = await route('undo', { id: entry.id });
+    expect(refused.error.code).toBe('CONFLICT');
+    expect(refused.error.details.conflicts[0].path).toBe('a.md');
+    expect(files.get('a.md')).toBe('edited by hand');
+
+    const forced = await route('undo', { id: entry.id, force: true });
+    expect(forced.error).toBeUndefined();
+    expect(files.get('a.md')).toBe('alpha');
+  });
+
+  it('should refuse to undo a folder delete instead of recreating it as an empty file', async () => {
+    const { files, route } = setup({ 'notes/one.md': 'one', 'notes/two.md': 'two' });
+    await route('delete', { path: 'notes' });
+    const [entry] = journal.getEntries();
+    expect(entry).toMatchObject({ type: 'delete', path: 'notes', folder: true });
+
+    const response = await route('undo', { id: entry.id, force: true });
+    expect(response.error.code).toBe('UNDO_UNSUPPORTED');
+    expect(response.error.message).toContain('folder contents are not journaled');
+    expect(files.has('notes')).toBe(false);
+  });
+
+  it('should not journal binary content as text, and refuse to revert it', async () => {
+    const { files, route } = setup({ 'paper.pdf': '%PDF-1.7 \u0000\u00ff binary', 'board.canvas': '{"nodes":[]}' });
+    await route('delete', { path: 'paper.pdf' });
+    await route('update', { path: 'board.canvas', content: '{"nodes":[1]}' });
+    const [pdf, canvas] = journal.getEntries();
+    expect(pdf.before).toBeNull();
+    expect(canvas.before).toBe('{"nodes":[]}');
+
+    const response = await route('undo', { id: pdf.id, force: true });
+    expect(response.error.code).toBe('UNDO_UNSUPPORTED');
+    expect(files.has('paper.pdf')).toBe(false);
+  });
+
+  it('should list only entries a scoped session may read', async () => {
+    const { route, routeScoped } = setup({ 'Daily/today.md': 'today', 'secret.md': 'secret' });
+    await route('update', { path: 'secret.md', content: 'SECRET' });
+    await route('update', { path: 'Daily/today.md', content: 'TODAY' });
+    await route('move', { path: 'Daily/today.md', destination: 'private/today.md' });
+
+    const history = await routeScoped('history', {});
+    expect(history.error).toBeUndefined();
+    expect(history.result.total).toBe(1);
+    expect(history.result.entries.map((e: any) => e.path)).toEqual(['Daily/today.md']);
+
+    const main = await route('history', {});
+    expect(main.result.total).toBe(3);
+  });
+
+  it("should not let a scoped session undo another session's operations", async () => {
+    const { files, route, routeScoped } = setup({ 'Daily/today.md': 'today', 'secret.md': 'secret' });
+    await route('update', { path: 'Daily/today.md', content: 'TODAY' });
+    await route('update', { path: 'secret.md', content: 'SECRET' });
+    const [daily, secret] = journal.getEntries();
+
+    expect((await routeScoped('undo', { id: daily.id })).error.code).toBe('NOT_FOUND');
+    expect((await routeScoped('undo', { id: secret.id })).error.code).toBe('NOT_FOUND');
+    expect((await routeScoped('undo', { sessionId: 's1' })).error.code).toBe('NOT_FOUND');
+    expect(files.get('Daily/today.md')).toBe('TODAY');
+    expect(files.get('secret.md')).toBe('SECRET');
+
+    await routeScoped('update', { path: 'Daily/today.md', content: 'TODAY again' });
+    const own = await routeScoped('undo', { sessionId: 'k1' });
+    expect(own.error).toBeUndefined();
+    expect(files.get('Daily/today.md')).toBe('TODAY');
+  });
+
+  it('should reload entries from the journal file on attach', async () => {
+    const { route } = setup({ 'a.md': 'alpha' });
+    await route('update', { path: 'a.md', content: 'ALPHA' });
+    await journal.flush();
+    const id = journal.getEntries()[0].id;
+
+    await journal.detach();
+    await journal.attach(store, 'journal.jsonl');
+    expect(journal.getEntry(id)?.before).toBe('alpha');
+  });
+});
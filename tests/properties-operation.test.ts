@@ -0,0 +1,135 @@
+/**
+ * The properties operation: frontmatter edits across a set of notes.
+ *
+ * A bulk edit must change only the property it targets — comments, key order
+ * and quoting elsewhere in the frontmatter stay as the user wrote them, and a
+ * note the edit does not apply to is not rewritten at all.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { readFrontmatter, writeFrontmatter, renameProperty, retypeProperty, convertValue } from '../src/utils/frontmatter';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+const NOTES = {
+  'Projects/Alpha.md': '---\n# owner is set by the sync script\nowner: "Sam"\ntags: work, urgent   # legacy string\nstatus: active\n---\n# Alpha\n',
+  'Projects/Beta.md': '---\ntags:\n  - work\nstatus: done\npriority: "2"\n---\nBeta body\n',
+  'Inbox.md': 'No frontmatter, just text about Alpha.\n',
+  'Broken.md': '---\ntags: [unclosed\n---\n',
+};
+
+async function route(api: ObsidianAPI, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation: 'properties', action, params });
+}
+
+describe('frontmatter editing', () => {
+  it('should rename a key in place, keeping comments and quoting', () => {
+    const note = readFrontmatter(NOTES['Projects/Alpha.md']);
+    expect(renameProperty(note, 'owner', 'author')).toEqual({ changed: true });
+    expect(writeFrontmatter(note)).toBe(
+      '---\n# owner is set by the sync script\nauthor: "Sam"\ntags: work, urgent # legacy string\nstatus: active\n---\n# Alpha\n'
+    );
+  });
+
+  it('should convert values between property types, or report that it cannot', () => {
+    expect(convertValue('work, urgent', 'list')).toEqual(['work', 'urgent']);
+    expect(convertValue(['a', 'b'], 'text')).toBe('a, b');
+    expect(convertValue('2', 'number')).toBe(2);
+    expect(convertValue('yes', 'checkbox')).toBe(true);
+    expect(convertValue('2026/3/9', 'date')).toBe('2026-03-09');
+    expect(convertValue('2026-02-30', 'date')).toBeUndefined();
+    expect(convertValue('soon', 'number')).toBeUndefined();
+
+    const note = readFrontmatter('---\nrating: high\n---\n');
+    expect(retypeProperty(note, 'rating', 'number')).toEqual({ skipped: '"high" is not convertible to number' });
+  });
+});
+
+describe('properties operation', () => {
+  it('should list every key with its types and counts', async () => {
+    const response = await route(new MemoryAPI({ ...NOTES }), 'list', {});
+    const { result } = response;
+
+    expect(result.notes).toBe(4);
+    expect(result.withFrontmatter).toBe(2);
+    expect(result.properties.find((p: any) => p.key === 'tags')).toMatchObject({
+      count: 2, types: { text: 1, list: 1 }, mixed: true,
+    });
+    expect(result.properties.find((p: any) => p.key === 'status')).toMatchObject({ count: 2, mixed: false });
+    expect(result.skipped).toEqual([{ path: 'Broken.md', reason: expect.stringContaining('invalid frontmatter YAML') }]);
+  });
+
+  it('should retype string tags into lists across a glob and skip notes already right', async () => {
+    const api = new MemoryAPI({ ...NOTES });
+    const response = await route(api, 'retype', { glob: 'Projects/**', key: 'tags', type: 'list' });
+
+    expect(response.result).toMatchObject({ matched: 2, changed: ['Projects/Alpha.md'], unchanged: 1, skipped: [] });
+    expect(api.files.get('Projects/Alpha.md')).toBe(
+      '---\n# owner is set by the sync script\nowner: "Sam"\ntags:\n  # legacy string\n  - work\n  - urgent\nstatus: active\n---\n# Alpha\n'
+    );
+    expect(api.writes).toEqual(['Projects/Alpha.md']);
+  });
+
+  it('should set a property on the notes a search returns, adding frontmatter where missing', async () => {
+    const api = new MemoryAPI({ ...NOTES });
+    const response = await route(api, 'set', { query: 'Alpha', key: 'reviewed', value: true });
+
+    expect(response.result.changed.sort()).toEqual(['Inbox.md', 'Projects/Alpha.md']);
+    expect(api.files.get('Inbox.md')).toBe('---\nreviewed: true\n---\nNo frontmatter, just text about Alpha.\n');
+    expect(api.files.get('Projects/Alpha.md')).toContain('status: active\nreviewed: true\n---');
+  });
+
+  it('should take notes from a Dataview query', async () => {
+    const app = {
+      plugins: {
+        enabledPlugins: new Set(['dataview']),
+        plugins: {
+          dataview: {
+            manifest: { version: '0.5.67' },
+            api: {
+              query: async () => ({
+                successful: true,
+                value: { type: 'table', headers: ['File', 'status'], values: [[{ path: 'Projects/Beta.md' }, 'done']] },
+              }),
+            },
+          },
+        },
+      },
+    };
+    const api = new MemoryAPI({ ...NOTES }, { app });
+    const response = await route(api, 'remove', { dql: 'TABLE status FROM "Projects" WHERE status = "done"', key: 'status' });
+
+    expect(response.result.changed).toEqual(['Projects/Beta.md']);
+    expect(api.files.get('Projects/Beta.md')).toBe('---\ntags:\n  - work\npriority: "2"\n---\nBeta body\n');
+  });
+
+  it('should skip notes that already have the new key unless told to overwrite', async () => {
+    const api = new MemoryAPI({ 'a.md': '---\nstate: old\nstatus: new\n---\n', 'b.md': '---\nstatus: x\n---\n' });
+
+    const skipped = await route(api, 'rename', { paths: ['a.md', 'b.md'], key: 'status', newKey: 'state' });
+    expect(skipped.result.changed).toEqual(['b.md']);
+    expect(skipped.result.skipped).toEqual([{ path: 'a.md', reason: 'already has "state"' }]);
+
+    await route(api, 'rename', { paths: ['a.md'], key: 'status', newKey: 'state', overwrite: true });
+    expect(api.files.get('a.md')).toBe('---\nstate: new\n---\n');
+  });
+
+  it('should refuse a write without a target and preview with dryRun', async () => {
+    const api = new MemoryAPI({ ...NOTES });
+
+    const untargeted = await route(api, 'remove', { key: 'status' });
+    expect(untargeted.error.message).toContain("Use glob '**'");
+
+    const preview = await route(api, 'remove', { glob: '**', key: 'status', dryRun: true });
+    expect(preview.result.dryRun).toBe(true);
+    expect(preview.result.files.map((f: any) => f.path).sort()).toEqual(['Projects/Alpha.md', 'Projects/Beta.md']);
+    expect(preview.result.diff).toContain('-status: active');
+    expect(api.writes).toEqual([]);
+  });
+
+  it('should format the key listing', async () => {
+    const response = await route(new MemoryAPI({ ...NOTES }), 'list', {});
+    const text = formatResponse('properties', 'list', response.result);
+    expect(text).toContain('**tags** (2): text 1, list 1 ⚠️ mixed');
+  });
+});
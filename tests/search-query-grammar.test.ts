@@ -0,0 +1,97 @@
+/**
+ * Structured search grammar: frontmatter properties with typed comparisons,
+ * created:/modified: dates, has:/missing:, negation and grouping.
+ *
+ * Everything here is answered from the metadata cache and file stats; content
+ * is only read for the free-text terms of a query.
+ */
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import { App, TFile } from 'obsidian';
+import { parseSearchQuery, isNaturalQuery, SearchQueryError, dateInterval } from '../src/utils/search-query';
+
+function makeFile(path: string, mtime: number, ctime = mtime): TFile {
+  const f = Object.create(TFile.prototype);
+  Object.assign(f, {
+    path,
+    name: path.split('/').pop()!,
+    basename: path.split('/').pop()!.replace(/\.[^/.]+$/, ''),
+    extension: 'md',
+    stat: { size: 100, mtime, ctime }
+  });
+  return f as TFile;
+}
+
+interface Note { path: string; frontmatter?: Record<string, unknown>; content?: string; mtime: string; ctime?: string }
+
+function makeApi(notes: Note[]): ObsidianAPI {
+  const files = notes.map(n => makeFile(n.path, new Date(n.mtime).getTime(), new Date(n.ctime ?? n.mtime).getTime()));
+  const byPath = new Map(notes.map(n => [n.path, n]));
+  const app: any = {
+    vault: {
+      getFiles: jest.fn(() => files),
+      read: jest.fn(async (f: TFile) => byPath.get(f.path)?.content ?? ''),
+    },
+    metadataCache: {
+      getFileCache: jest.fn((f: TFile) => ({ frontmatter: byPath.get(f.path)?.frontmatter })),
+    },
+  };
+  return new ObsidianAPI(app as App);
+}
+
+const NOTES: Note[] = [
+  { path: 'projects/alpha.md', frontmatter: { status: 'active', priority: 3, due: '2026-10-01', tags: ['work'] }, content: 'roadmap draft', mtime: '2026-09-15T10:00:00', ctime: '2026-01-05T09:00:00' },
+  { path: 'projects/beta.md', frontmatter: { status: 'active', priority: 1, Owner: '[[Sam]]' }, content: 'budget', mtime: '2026-08-20T10:00:00' },
+  { path: 'projects/gamma.md', frontmatter: { status: 'done', priority: 5, tags: ['archive'] }, content: 'roadmap final', mtime: '2026-09-02T10:00:00' },
+  { path: 'inbox/loose.md', content: 'roadmap idea', mtime: '2025-12-31T23:00:00' },
+];
+
+async function paths(query: string): Promise<string[]> {
+  const res = await makeApi(NOTES).searchPaginated(query, 1, 50);
+  return res.results.map(r => r.path).sort();
+}
+
+describe('search query grammar', () => {
+  test('compares frontmatter values by type', async () => {
+    expect(await paths('status:active')).toEqual(['projects/alpha.md', 'projects/beta.md']);
+    expect(await paths('priority:>2')).toEqual(['projects/alpha.md', 'projects/gamma.md']);
+    expect(await paths('priority:1..3')).toEqual(['projects/alpha.md', 'projects/beta.md']);
+    expect(await paths('due:<=2026-10-01')).toEqual(['projects/alpha.md']);
+    expect(await paths('owner:sam')).toEqual(['projects/beta.md']);
+  });
+
+  test('filters on created and modified dates', async () => {
+    expect(await paths('modified:>2026-09-01')).toEqual(['projects/alpha.md', 'projects/gamma.md']);
+    expect(await paths('modified:2026-08')).toEqual(['projects/beta.md']);
+    expect(await paths('created:2026-01-05')).toEqual(['projects/alpha.md']);
+    expect(await paths('modified:2025')).toEqual(['inbox/loose.md']);
+  });
+
+  test('supports has:, missing:, negation and grouping', async () => {
+    expect(await paths('has:due')).toEqual(['projects/alpha.md']);
+    expect(await paths('missing:status')).toEqual(['inbox/loose.md']);
+    expect(await paths('roadmap -tag:archive')).toEqual(['inbox/loose.md', 'projects/alpha.md']);
+    expect(await paths('roadmap NOT status:done')).toEqual(['inbox/loose.md', 'projects/alpha.md']);
+    expect(await paths('(status:done OR priority:1) modified:>2026-08-01')).toEqual(['projects/beta.md', 'projects/gamma.md']);
+    expect(await paths('status:active priority:>2 modified:>2026-09-01 -tag:archive')).toEqual(['projects/alpha.md']);
+  });
+
+  test('rejects a malformed query with a readable error', async () => {
+    await expect(paths('status:active OR')).rejects.toThrow(SearchQueryError);
+    expect(() => parseSearchQuery('modified:>soon')).toThrow(/expects a date/);
+    expect(() => parseSearchQuery('(status:active')).toThrow(/Invalid search query: missing \)/);
+  });
+
+  test('keeps plain keyword queries on the natural-language path', () => {
+    expect(isNaturalQuery('quarterly roadmap "draft plan"')).toBe(true);
+    expect(isNaturalQuery('see https://example.com/page')).toBe(true);
+    expect(isNaturalQuery('status:active')).toBe(false);
+    expect(isNaturalQuery('roadmap -draft')).toBe(false);
+  });
+
+  test('reads partial dates as local intervals', () => {
+    const [start, end] = dateInterval('2026-09')!;
+    expect(new Date(start)).toEqual(new Date(2026, 8, 1));
+    expect(new Date(end)).toEqual(new Date(2026, 9, 1));
+    expect(dateInterval('next week')).toBeNull();
+  });
+});
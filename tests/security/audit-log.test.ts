@@ -0,0 +1,175 @@
+/**
+ * Security audit log — every tool call and security decision, persisted.
+ *
+ * `logSecurityEvents` used to reach only debug output, so there was no record
+ * of who was refused what once the console was closed. Entries now go to a
+ * rotating JSONL file, attributed to the session and API key from the call
+ * context, and the main key can query them with system.audit.
+ */
+import { App, TFile } from 'obsidian';
+import { MCPServerPool } from '../../src/utils/mcp-server-pool';
+import { SecureObsidianAPI } from '../../src/security';
+import { BASELINE_SECURITY_SETTINGS } from '../../src/mcp-server';
+import { AuditLog, AuditStore, MAX_AUDIT_FILES, customAuditLogPath } from '../../src/security/audit-log';
+
+jest.mock('obsidian');
+
+class MemoryStore implements AuditStore {
+  files = new Map<string, string>();
+  async exists(path: string) { return this.files.has(path) || [...this.files.keys()].some(f => f.startsWith(`${path}/`)); }
+  async read(path: string) { return this.files.get(path) ?? ''; }
+  async append(path: string, data: string) { this.files.set(path, (this.files.get(path) ?? '') + data); }
+  async rename(path: string, newPath: string) { this.files.set(newPath, this.files.get(path)!); this.files.delete(path); }
+  async remove(path: string) { this.files.delete(path); }
+  async stat(path: string) { return this.files.has(path) ? { size: this.files.get(path)!.length } : null; }
+  async mkdir() { /* folders are implicit */ }
+}
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string };
+  w.path = path;
+  w.extension = 'md';
+  w.name = path.split('/').pop()!;
+  return f;
+}
+
+function makePool() {
+  const files = new Map<string, string>([['Daily/today.md', 'day'], ['Notes/plan.md', 'plan']]);
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) => (files.has(p) ? mkFile(p) : null),
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => [...files.keys()].map(mkFile),
+      read: async (f: TFile) => files.get(f.path)!,
+      cachedRead: async (f: TFile) => files.get(f.path)!,
+      modify: async (f: TFile, content: string) => { files.set(f.path, content); },
+    },
+    metadataCache: { getFileCache: () => null, resolvedLinks: {} },
+    workspace: { getActiveFile: () => null },
+  } as unknown as App;
+  const plugin = {
+    settings: {
+      enableWebFetch: false,
+      toolVisibility: {},
+      scopedApiKeys: [{
+        name: 'calendar', key: 'calendar-key', allowedPaths: ['Daily/*'],
+        permissions: { ...BASELINE_SECURITY_SETTINGS.permissions },
+      }],
+    },
+  };
+  const api = new SecureObsidianAPI(app, undefined, plugin as never, BASELINE_SECURITY_SETTINGS);
+  return new MCPServerPool(api, 8, plugin as never);
+}
+
+type Handler = (req: unknown, extra: unknown) => Promise<any>;
+
+async function callTool(pool: MCPServerPool, sessionId: string, keyName: string | undefined, name: string, args: Record<string, unknown>): Promise<any> {
+  const server = pool.getOrCreateServer(sessionId, keyName);
+  const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get('tools/call')!;
+  return handler({ method: 'tools/call', params: { name, arguments: args } }, {});
+}
+
+const LOG = '.audit/audit.jsonl';
+
+describe('security audit log', () => {
+  let store: MemoryStore;
+
+  beforeEach(async () => {
+    store = new MemoryStore();
+    await AuditLog.getInstance().attach(store, LOG);
+  });
+
+  afterEach(async () => {
+    await AuditLog.getInstance().detach();
+  });
+
+  it('should record tool calls and security decisions with session and key', async () => {
+    const pool = makePool();
+    await callTool(pool, 'c1', 'calendar', 'vault', { action: 'read', path: 'Daily/today.md' });
+    await callTool(pool, 'c1', 'calendar', 'vault', { action: 'update', path: 'Notes/plan.md', content: 'x' });
+    await AuditLog.getInstance().flush();
+
+    const lines = store.files.get(LOG)!.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toContainEqual(expect.objectContaining({
+      event: 'security', sessionId: 'c1', keyName: 'calendar', operation: 'read', path: 'Daily/today.md', outcome: 'allowed',
+    }));
+    expect(lines).toContainEqual(expect.objectContaining({
+      event: 'security', sessionId: 'c1', keyName: 'calendar', path: 'Notes/plan.md', outcome: 'blocked', reason: 'PATH_NOT_ALLOWED',
+    }));
+    expect(lines).toContainEqual(expect.objectContaining({
+      event: 'tool_call', sessionId: 'c1', keyName: 'calendar', operation: 'vault.update', path: 'Notes/plan.md', outcome: 'error',
+    }));
+    expect(lines.every(e => typeof e.timestamp === 'number')).toBe(true);
+  });
+
+  it('should rotate the file and keep a bounded number of generations', async () => {
+    const log = AuditLog.getInstance();
+    await log.attach(store, LOG, 200);
+    for (let i = 0; i < 40; i++) {
+      log.record({ event: 'tool_call', operation: 'vault.read', path: `note-${i}.md`, outcome: 'success' });
+    }
+    await log.flush();
+
+    expect(store.files.has('.audit/audit.1.jsonl')).toBe(true);
+    expect(store.files.has(`.audit/audit.${MAX_AUDIT_FILES - 1}.jsonl`)).toBe(true);
+    expect(store.files.has(`.audit/audit.${MAX_AUDIT_FILES}.jsonl`)).toBe(false);
+    expect(store.files.get(LOG)!.length).toBeLessThanOrEqual(200);
+    expect(store.files.get(LOG)).toContain('note-39.md');
+  });
+
+  it('should reload recent entries on attach, skipping a torn line', async () => {
+    store.files.set(LOG, [
+      JSON.stringify({ timestamp: 1, event: 'security', operation: 'delete', path: 'a.md', outcome: 'blocked' }),
+      '{"timestamp": 2, "event": "sec',
+    ].join('\n'));
+    await AuditLog.getInstance().attach(store, LOG);
+
+    expect(AuditLog.getInstance().query().entries).toEqual([
+      expect.objectContaining({ path: 'a.md', outcome: 'blocked' }),
+    ]);
+  });
+
+  it('should let the main key query by path, session and outcome', async () => {
+    const pool = makePool();
+    await callTool(pool, 'c1', 'calendar', 'vault', { action: 'update', path: 'Notes/plan.md', content: 'x' });
+    await callTool(pool, 'm1', undefined, 'vault', { action: 'read', path: 'Daily/today.md' });
+
+    const blocked = await callTool(pool, 'm1', undefined, 'system', { action: 'audit', outcome: 'blocked', raw: true });
+    const { entries } = JSON.parse(blocked.content[0].text).result;
+    expect(entries).toEqual([expect.objectContaining({ sessionId: 'c1', path: 'Notes/plan.md', outcome: 'blocked' })]);
+
+    const daily = await callTool(pool, 'm1', undefined, 'system', { action: 'audit', path: 'Daily', sessionId: 'm1', raw: true });
+    const dailyEntries = JSON.parse(daily.content[0].text).result.entries;
+    expect(dailyEntries.length).toBeGreaterThan(0);
+    expect(dailyEntries.every((e: { path: string; sessionId: string }) => e.path === 'Daily/today.md' && e.sessionId === 'm1')).toBe(true);
+  });
+
+  it('should refuse system.audit to a scoped key, and say so when the log is off', async () => {
+    const pool = makePool();
+    const scoped = await callTool(pool, 'c1', 'calendar', 'system', { action: 'audit' });
+    expect(scoped.content[0].text).toContain('ADMIN_ONLY');
+
+    await AuditLog.getInstance().detach();
+    const off = await callTool(pool, 'm1', undefined, 'system', { action: 'audit' });
+    expect(off.content[0].text).toContain('AUDIT_UNAVAILABLE');
+  });
+});
+
+describe('customAuditLogPath', () => {
+  it('should accept a path inside a hidden folder, normalizing its slashes', () => {
+    expect(customAuditLogPath(' /.audit//mcp.jsonl/ ')).toBe('.audit/mcp.jsonl');
+    expect(customAuditLogPath('logs\\.private\\mcp.jsonl')).toBe('logs/.private/mcp.jsonl');
+  });
+
+  it('should refuse visible folders and any . or .. segment', () => {
+    expect(customAuditLogPath('')).toBeUndefined();
+    expect(customAuditLogPath('Notes/audit.jsonl')).toBeUndefined();
+    expect(customAuditLogPath('.audit')).toBeUndefined();
+    expect(customAuditLogPath('.audit/../Notes/audit.md')).toBeUndefined();
+    expect(customAuditLogPath('../../outside/.x/audit.jsonl')).toBeUndefined();
+    expect(customAuditLogPath('./.audit/audit.jsonl')).toBeUndefined();
+    expect(customAuditLogPath('.audit\\..\\Notes\\audit.md')).toBeUndefined();
+  });
+});
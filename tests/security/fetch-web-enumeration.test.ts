@@ -20,14 +20,14 @@ const actionsOf = (tool: ReturnType<typeof systemTool>): string[] =>
 describe('fetch_web enumeration', () => {
   it('advertises fetch_web when enabled', () => {
     const tool = systemTool(true);
-    expect(actionsOf(tool)).toEqual(['info', 'commands', 'fetch_web']);
+    expect(actionsOf(tool)).toEqual(['info', 'commands', 'audit', 'fetch_web']);
     expect(tool?.description).toContain('fetch_web');
   });
 
   it('hides fetch_web when disabled, keeping the rest of the system tool', () => {
     const tool = systemTool(false);
     expect(tool).toBeDefined();
-    expect(actionsOf(tool)).toEqual(['info', 'commands']);
+    expect(actionsOf(tool)).toEqual(['info', 'commands', 'audit']);
   });
 
   it('strips fetch_web from the advertised description when disabled', () => {
@@ -49,6 +49,6 @@ describe('fetch_web enumeration', () => {
   it('hides fetch_web when the flag is omitted entirely (fail closed)', () => {
     // A caller that forgets to thread the setting must not accidentally
     // advertise the capability — the same fail-closed posture the handler has.
-    expect(actionsOf(systemTool(undefined))).toEqual(['info', 'commands']);
+    expect(actionsOf(systemTool(undefined))).toEqual(['info', 'commands', 'audit']);
   });
 });
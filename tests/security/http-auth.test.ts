@@ -8,7 +8,7 @@
  * including the two fail-open paths, which are asserted so they stay recorded
  * decisions rather than quietly becoming accidents.
  */
-import { authorizeRequest } from '../../src/security/http-auth';
+import { authorizeRequest, normalizeScopedKeys } from '../../src/security/http-auth';
 
 const KEY = 'super-secret-key-1234';
 
@@ -191,4 +191,63 @@ describe('authorizeRequest', () => {
       })).not.toThrow();
     });
   });
+
+  describe('scoped API keys', () => {
+    const CALENDAR = {
+      name: 'calendar',
+      key: 'calendar-key',
+      permissions: { read: true, create: true, update: true, delete: false, move: false, rename: false, execute: false },
+      allowedPaths: ['Daily', 'Daily/*'],
+    };
+
+    it('authenticates a scoped key and returns its scope', () => {
+      const d = authorizeRequest({ method: 'POST', authHeader: 'Bearer calendar-key', apiKey: KEY, scopedKeys: [CALENDAR] });
+      expect(d).toEqual({ allow: true, reason: 'scoped-key', scope: CALENDAR });
+    });
+
+    it('still authenticates the main key as unscoped', () => {
+      expect(authorizeRequest({ method: 'POST', authHeader: `Bearer ${KEY}`, apiKey: KEY, scopedKeys: [CALENDAR] }))
+        .toEqual({ allow: true, reason: 'authenticated' });
+    });
+
+    it('requires a key when only scoped keys are configured', () => {
+      // The no-key fail-open is for vaults with no key at all; configuring a
+      // scoped key must not leave the main door open.
+      expect(authorizeRequest({ method: 'POST', scopedKeys: [CALENDAR] }))
+        .toMatchObject({ allow: false, reason: 'missing-header' });
+      expect(authorizeRequest({ method: 'POST', authHeader: 'Bearer nope', scopedKeys: [CALENDAR] }))
+        .toMatchObject({ allow: false, reason: 'bad-key' });
+    });
+
+    it('never matches a scoped key with an empty secret', () => {
+      const blank = { ...CALENDAR, key: '' };
+      expect(authorizeRequest({ method: 'POST', authHeader: 'Bearer ', apiKey: KEY, scopedKeys: [blank] }).allow)
+        .toBe(false);
+    });
+  });
+});
+
+describe('normalizeScopedKeys', () => {
+  it('grants a permission only for a literal true and keeps only hidden tools', () => {
+    const [scope] = normalizeScopedKeys([{
+      name: 'bot', key: 'k',
+      permissions: { read: true, delete: 'true' },
+      readOnly: 'yes',
+      allowedPaths: ['Daily/*', 3],
+      toolVisibility: { vault: false, system: true },
+    }]);
+    expect(scope.permissions).toEqual({
+      read: true, create: false, update: false, delete: false, move: false, rename: false, execute: false,
+    });
+    expect(scope.readOnly).toBe(false);
+    expect(scope.allowedPaths).toEqual(['Daily/*']);
+    expect(scope.toolVisibility).toEqual({ vault: false });
+  });
+
+  it('drops entries without a name or key, and repeated names', () => {
+    const keys = normalizeScopedKeys([
+      { name: 'a', key: 'k1' }, { name: 'a', key: 'k2' }, { name: '', key: 'k3' }, { name: 'b' }, 'junk',
+    ]);
+    expect(keys.map(k => k.key)).toEqual(['k1']);
+  });
 });
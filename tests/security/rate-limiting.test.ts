@@ -0,0 +1,220 @@
+/**
+ * Tool-call quotas behind `security.rateLimitEnabled`.
+ *
+ * The flag existed on SecuritySettings long before anything enforced it. The
+ * pool's tools/call handler now charges each call to its session and its API
+ * key, refuses one over budget with a structured RATE_LIMITED error carrying
+ * retryAfter, and reports the counters in obsidian://session-info.
+ *
+ * The limiter's windows are tested with an injected clock; the wiring is
+ * driven through the pool's registered handlers, as a client would.
+ */
+import { App, TFile } from 'obsidian';
+import { MCPServerPool } from '../../src/utils/mcp-server-pool';
+import { SecureObsidianAPI } from '../../src/security';
+import { BASELINE_SECURITY_SETTINGS } from '../../src/mcp-server';
+import { RateLimiter, DEFAULT_RATE_LIMITS, RateLimits } from '../../src/security/rate-limiter';
+import { OperationJournal } from '../../src/utils/operation-journal';
+
+jest.mock('obsidian');
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string };
+  w.path = path;
+  w.extension = 'md';
+  w.name = path.split('/').pop()!;
+  return f;
+}
+
+function makePool(rateLimits: Partial<RateLimits>, rateLimitEnabled = true) {
+  const files = new Map<string, string>([['a.md', 'A'], ['b.md', 'B'], ['c.md', 'C']]);
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) => (files.has(p) ? mkFile(p) : null),
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => [...files.keys()].map(mkFile),
+      read: async (f: TFile) => files.get(f.path)!,
+      cachedRead: async (f: TFile) => files.get(f.path)!,
+      modify: async (f: TFile, content: string) => { files.set(f.path, content); },
+      create: async (p: string, content: string) => { files.set(p, content); return mkFile(p); },
+      createFolder: async () => undefined,
+    },
+    fileManager: { trashFile: async (f: TFile) => { files.delete(f.path); } },
+    metadataCache: { getFileCache: () => null, resolvedLinks: {} },
+    workspace: { getActiveFile: () => null },
+  } as unknown as App;
+  const plugin = {
+    settings: {
+      enableWebFetch: false,
+      toolVisibility: {},
+      scopedApiKeys: [{ name: 'bot', key: 'bot-key', permissions: { ...BASELINE_SECURITY_SETTINGS.permissions } }],
+      security: { rateLimitEnabled, rateLimits: { ...DEFAULT_RATE_LIMITS, ...rateLimits } },
+    },
+  };
+  const api = new SecureObsidianAPI(app, undefined, plugin as never, BASELINE_SECURITY_SETTINGS);
+  const pool = new MCPServerPool(api, 8, plugin as never);
+  pool.setContexts(
+    { getAllSessions: () => [], getStats: () => ({ activeSessions: 1, maxSessions: 8, totalRequests: 0, oldestSessionAge: 0, newestSessionAge: 0 }) } as never,
+    { getStats: () => undefined } as never
+  );
+  return { pool, files, settings: plugin.settings };
+}
+
+type Handler = (req: unknown, extra: unknown) => Promise<any>;
+
+async function call(pool: MCPServerPool, sessionId: string, method: string, params: Record<string, unknown>, keyName?: string): Promise<any> {
+  const server = pool.getOrCreateServer(sessionId, keyName);
+  const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get(method)!;
+  return handler({ method, params }, {});
+}
+
+const callTool = (pool: MCPServerPool, sessionId: string, args: Record<string, unknown>, keyName?: string) =>
+  call(pool, sessionId, 'tools/call', { name: 'vault', arguments: args }, keyName);
+
+function rateLimitError(result: any): any {
+  return result.isError ? JSON.parse(result.content[0].text).error : undefined;
+}
+
+describe('RateLimiter', () => {
+  it('should slide each window and report when the call would fit again', () => {
+    let now = 0;
+    const limiter = new RateLimiter(() => now);
+    const limits = { ...DEFAULT_RATE_LIMITS, callsPerMinute: 2 };
+
+    expect(limiter.consume(['s'], { bytesWritten: 0, deletes: 0 }, limits).allowed).toBe(true);
+    now = 10_000;
+    expect(limiter.consume(['s'], { bytesWritten: 0, deletes: 0 }, limits).allowed).toBe(true);
+    now = 20_000;
+    expect(limiter.consume(['s'], { bytesWritten: 0, deletes: 0 }, limits)).toEqual({
+      allowed: false, subject: 's', limit: 'callsPerMinute', max: 2, retryAfterMs: 40_000,
+    });
+
+    now = 60_001;
+    expect(limiter.consume(['s'], { bytesWritten: 0, deletes: 0 }, limits).allowed).toBe(true);
+    expect(limiter.getUsage('s').callsLastMinute).toBe(2);
+  });
+
+  it('should not charge a refused call to any subject', () => {
+    const limiter = new RateLimiter(() => 0);
+    const limits = { ...DEFAULT_RATE_LIMITS, bytesWrittenPerHour: 10 };
+
+    expect(limiter.consume(['s1', 'key'], { bytesWritten: 8, deletes: 0 }, limits).allowed).toBe(true);
+    expect(limiter.consume(['s2', 'key'], { bytesWritten: 8, deletes: 0 }, limits)).toMatchObject({ allowed: false, subject: 'key' });
+    expect(limiter.getUsage('s2')).toEqual({ callsLastMinute: 0, bytesWrittenLastHour: 0, deletesLastHour: 0 });
+  });
+});
+
+describe('rate limiting in tools/call', () => {
+  it('should refuse a call over the per-minute budget with RATE_LIMITED and retryAfter', async () => {
+    const { pool } = makePool({ callsPerMinute: 2 });
+    await callTool(pool, 's1', { action: 'read', path: 'a.md' });
+    await callTool(pool, 's1', { action: 'read', path: 'a.md' });
+
+    const error = rateLimitError(await callTool(pool, 's1', { action: 'read', path: 'a.md' }));
+    expect(error.code).toBe('RATE_LIMITED');
+    expect(error.retryAfter).toBeGreaterThan(0);
+    expect(error.details).toEqual({ scope: 'session', limit: 'callsPerMinute', max: 2 });
+  });
+
+  it('should share one budget across every session of an API key', async () => {
+    const { pool } = makePool({ callsPerMinute: 2 });
+    await callTool(pool, 's1', { action: 'read', path: 'a.md' }, 'bot');
+    await callTool(pool, 's2', { action: 'read', path: 'a.md' }, 'bot');
+
+    const error = rateLimitError(await callTool(pool, 's3', { action: 'read', path: 'a.md' }, 'bot'));
+    expect(error.details.scope).toBe('apiKey');
+    expect(rateLimitError(await callTool(pool, 's4', { action: 'read', path: 'a.md' }))).toBeUndefined();
+  });
+
+  it('should count deletes and written bytes, and not perform a refused write', async () => {
+    const { pool, files } = makePool({ deletesPerHour: 1, bytesWrittenPerHour: 10 });
+
+    await callTool(pool, 's1', { action: 'delete', path: 'a.md' });
+    expect(rateLimitError(await callTool(pool, 's1', { action: 'delete', path: 'b.md' })).details.limit).toBe('deletesPerHour');
+    expect(files.has('b.md')).toBe(true);
+
+    await callTool(pool, 's1', { action: 'update', path: 'c.md', content: '12345678' });
+    expect(rateLimitError(await callTool(pool, 's1', { action: 'update', path: 'c.md', content: 'too much' })).details.limit)
+      .toBe('bytesWrittenPerHour');
+    expect(files.get('c.md')).toBe('12345678');
+  });
+
+  it('should charge the bytes a write actually writes, whatever the arguments are called', async () => {
+    const { pool, files } = makePool({ bytesWrittenPerHour: 10 });
+
+    await callTool(pool, 's1', { action: 'update', path: 'c.md', content: '12345678' });
+    // A copy names no content, but writes the source's 8 bytes again
+    const error = rateLimitError(await callTool(pool, 's1', { action: 'copy', path: 'c.md', destination: 'd.md' }));
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', details: { scope: 'session', limit: 'bytesWrittenPerHour', max: 10 } });
+    expect(files.has('d.md')).toBe(false);
+
+    // A preview writes nothing and is not charged
+    expect(rateLimitError(await callTool(pool, 's1', { action: 'update', path: 'c.md', content: 'xx', dryRun: true }))).toBeUndefined();
+    await callTool(pool, 's1', { action: 'update', path: 'c.md', content: 'xx' });
+    expect(files.get('c.md')).toBe('xx');
+  });
+
+  it('should not charge an edit.batch rollback, so a limit hit partway still restores everything', async () => {
+    const { pool, files } = makePool({ deletesPerHour: 1 });
+    const before = Object.fromEntries(files);
+
+    const result = await call(pool, 's1', 'tools/call', {
+      name: 'edit',
+      arguments: {
+        action: 'batch',
+        operations: [
+          { operation: 'vault', action: 'create', params: { path: 'd.md', content: 'D' } },
+          { operation: 'vault', action: 'delete', params: { path: 'a.md' } },
+          { operation: 'vault', action: 'delete', params: { path: 'b.md' } },
+        ],
+      },
+    });
+    const error = rateLimitError(result);
+    expect(error.code).toBe('BATCH_ROLLED_BACK');
+    expect(error.details.reasonCode).toBe('RATE_LIMITED');
+    expect(Object.fromEntries(files)).toEqual(before);
+  });
+
+  it('should charge vault.undo like any other write, so undoing a create is a metered delete', async () => {
+    const journal = OperationJournal.getInstance();
+    await journal.attach({ exists: async () => false, read: async () => '', write: async () => {}, append: async () => {} }, 'journal.jsonl');
+    try {
+      const { pool, files } = makePool({ deletesPerHour: 1 });
+      await callTool(pool, 's1', { action: 'create', path: 'd.md', content: 'D' });
+      await callTool(pool, 's1', { action: 'delete', path: 'a.md' });
+      const created = journal.getEntries().find(e => e.type === 'create' && e.path === 'd.md')!;
+
+      // The delete spent the hour's budget; reverting the create would be a second one
+      const error = rateLimitError(await callTool(pool, 's1', { action: 'undo', id: created.id }));
+      expect(error.code).toBe('UNDO_FAILED');
+      expect(error.details.reasonCode).toBe('RATE_LIMITED');
+      expect(files.get('d.md')).toBe('D');
+    } finally {
+      journal.detach();
+    }
+  });
+
+  it('should enforce nothing while the setting is off, and follow it when switched on', async () => {
+    const { pool, settings } = makePool({ callsPerMinute: 1 }, false);
+    await callTool(pool, 's1', { action: 'read', path: 'a.md' });
+    expect(rateLimitError(await callTool(pool, 's1', { action: 'read', path: 'a.md' }))).toBeUndefined();
+
+    settings.security.rateLimitEnabled = true;
+    await callTool(pool, 's1', { action: 'read', path: 'a.md' });
+    expect(rateLimitError(await callTool(pool, 's1', { action: 'read', path: 'a.md' }))?.code).toBe('RATE_LIMITED');
+  });
+
+  it('should report the counters in obsidian://session-info', async () => {
+    const { pool } = makePool({ callsPerMinute: 50 });
+    await callTool(pool, 's1', { action: 'update', path: 'a.md', content: 'four' }, 'bot');
+
+    const read = await call(pool, 's1', 'resources/read', { uri: 'obsidian://session-info' }, 'bot');
+    const { rateLimits } = JSON.parse(read.contents[0].text);
+    expect(rateLimits.enabled).toBe(true);
+    expect(rateLimits.limits.callsPerMinute).toBe(50);
+    expect(rateLimits.session).toEqual({ callsLastMinute: 1, bytesWrittenLastHour: 4, deletesLastHour: 0 });
+    expect(rateLimits.apiKey).toMatchObject({ name: 'bot', callsLastMinute: 1 });
+  });
+});
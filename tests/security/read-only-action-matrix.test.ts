@@ -22,6 +22,7 @@
 import { SecureObsidianAPI, VaultSecurityManager } from '../../src/security';
 import { createSemanticTools, getActionsForOperation, ALL_OPERATIONS } from '../../src/tools/semantic-tools';
 import { ContentBufferManager } from '../../src/utils/content-buffer';
+import { OperationJournal, JournalStore } from '../../src/utils/operation-journal';
 import { App, TFile } from 'obsidian';
 
 jest.mock('obsidian');
@@ -51,6 +52,7 @@ const ACTION_KIND: Record<string, 'read' | 'write' | 'execute'> = {
   'vault.read': 'read',
   'vault.search': 'read',
   'vault.fragments': 'read',
+  'vault.semantic_search': 'read',
   'vault.create': 'write',
   'vault.update': 'write',
   'vault.delete': 'write',
@@ -60,12 +62,15 @@ const ACTION_KIND: Record<string, 'read' | 'write' | 'execute'> = {
   'vault.split': 'write',
   'vault.combine': 'write',
   'vault.concatenate': 'write',
+  'vault.history': 'read',
+  'vault.undo': 'write',
   // edit — every action mutates a note
   'edit.window': 'write',
   'edit.append': 'write',
   'edit.patch': 'write',
   'edit.at_line': 'write',
   'edit.from_buffer': 'write',
+  'edit.batch': 'write',
   // view
   'view.file': 'read',
   'view.window': 'read',
@@ -76,6 +81,7 @@ const ACTION_KIND: Record<string, 'read' | 'write' | 'execute'> = {
   'system.info': 'read',
   'system.commands': 'read',
   'system.fetch_web': 'read',
+  'system.audit': 'read',
   // graph — all analysis
   'graph.traverse': 'read',
   'graph.neighbors': 'read',
@@ -88,8 +94,15 @@ const ACTION_KIND: Record<string, 'read' | 'write' | 'execute'> = {
   'graph.tag-traverse': 'read',
   'graph.tag-analysis': 'read',
   'graph.shared-tags': 'read',
-  // dataview — all query/inspection. dataview-tool.ts rejects format 'js', so
-  // there is no execution vector here.
+  'graph.broken_links': 'read',
+  'graph.repair_links': 'write',
+  'graph.analyze': 'read',
+  'graph.export': 'write',
+  'graph.suggest_links': 'read',
+  'graph.link_mentions': 'write',
+  'graph.hygiene': 'write',
+  // dataview — all query/inspection. format 'js' runs DataviewJS in a sandbox
+  // that holds no write handle (dataview-js-sandbox.ts), so it stays a read.
   'dataview.query': 'read',
   'dataview.list': 'read',
   'dataview.metadata': 'read',
@@ -102,8 +115,47 @@ const ACTION_KIND: Record<string, 'read' | 'write' | 'execute'> = {
   'bases.view': 'read',
   'bases.export': 'read',
   'bases.create': 'write',
+  // tasks
+  'tasks.list': 'read',
+  'tasks.query': 'read',
+  'tasks.toggle': 'write',
+  'tasks.create': 'write',
+  'tasks.update': 'write',
+  'tasks.reschedule': 'write',
+  // properties
+  'properties.list': 'read',
+  'properties.set': 'write',
+  'properties.remove': 'write',
+  'properties.rename': 'write',
+  'properties.retype': 'write',
+  // canvas
+  'canvas.list': 'read',
+  'canvas.read': 'read',
+  'canvas.validate': 'read',
+  'canvas.create': 'write',
+  'canvas.add_node': 'write',
+  'canvas.add_edge': 'write',
+  'canvas.move': 'write',
+  'canvas.remove': 'write',
+  'canvas.layout': 'write',
 };
 
+/**
+ * What every existing note in the mock vault reads as: properties, a heading,
+ * a line, a task, a link to other.md in the wrong case for repair_links, and
+ * an unlinked mention of it for link_mentions.
+ */
+const NOTE = '---\nstatus: draft\ntopics: a, b\n---\n# Heading\nbody\n- [ ] task ^t1\nSee [[Other]].\nOther notes agree.\n';
+
+/** What `board.canvas` reads as: a text card linked to a card for note.md. */
+const CANVAS = JSON.stringify({
+  nodes: [
+    { id: 'a', type: 'text', text: 'x', x: 0, y: 0, width: 250, height: 60 },
+    { id: 'b', type: 'file', file: 'note.md', x: 0, y: 200, width: 400, height: 400 },
+  ],
+  edges: [{ id: 'e', fromNode: 'a', toNode: 'b' }],
+});
+
 /** Params sufficient for each write action to actually attempt a vault write. */
 const WRITE_PARAMS: Record<string, Record<string, unknown>> = {
   'vault.create': { path: 'new.md', content: 'x' },
@@ -115,6 +167,7 @@ const WRITE_PARAMS: Record<string, Record<string, unknown>> = {
   'vault.split': { path: 'note.md', splitBy: 'heading', level: 1 },
   'vault.combine': { paths: ['note.md', 'other.md'], destination: 'combined.md' },
   'vault.concatenate': { path1: 'note.md', path2: 'other.md', mode: 'new', destination: 'cat.md' },
+  'vault.undo': { sessionId: 'matrix' },
   'edit.window': { path: 'note.md', oldText: 'body', newText: 'changed' },
   'edit.append': { path: 'note.md', content: 'x' },
   'edit.patch': {
@@ -122,7 +175,31 @@ const WRITE_PARAMS: Record<string, Record<string, unknown>> = {
   },
   'edit.at_line': { path: 'note.md', lineNumber: 1, mode: 'replace', content: 'x' },
   'edit.from_buffer': { path: 'note.md' },
+  'edit.batch': {
+    operations: [
+      { operation: 'edit', action: 'append', params: { path: 'note.md', content: 'x' } },
+      { operation: 'vault', action: 'update', params: { path: 'other.md', content: 'x' } },
+    ],
+  },
   'bases.create': { path: 'new.base', config: { views: [{ type: 'table', name: 'v' }] } },
+  'tasks.toggle': { path: 'note.md', line: 7 },
+  'tasks.create': { path: 'note.md', description: 'x' },
+  'tasks.update': { path: 'note.md', line: 7, due: '2026-10-20' },
+  'tasks.reschedule': { path: 'note.md', blockId: 't1', date: 'tomorrow' },
+  'properties.set': { paths: ['note.md', 'other.md'], key: 'reviewed', value: true },
+  'properties.remove': { paths: ['note.md'], key: 'status' },
+  'properties.rename': { paths: ['note.md'], key: 'status', newKey: 'state' },
+  'properties.retype': { paths: ['note.md'], key: 'topics', type: 'list' },
+  'canvas.create': { path: 'new.canvas' },
+  'canvas.add_node': { path: 'board.canvas', type: 'text', text: 'x' },
+  'canvas.add_edge': { path: 'board.canvas', fromNode: 'b', toNode: 'a' },
+  'canvas.move': { path: 'board.canvas', id: 'a', dx: 10 },
+  'canvas.remove': { path: 'board.canvas', id: 'e' },
+  'canvas.layout': { path: 'board.canvas', paths: ['other.md'] },
+  'graph.repair_links': { path: 'note.md' },
+  'graph.export': { outputPath: 'graph.graphml' },
+  'graph.link_mentions': { sourcePath: 'note.md' },
+  'graph.hygiene': { outputPath: 'hygiene.md' },
 };
 
 /**
@@ -138,6 +215,20 @@ const SETUP: Record<string, () => void> = {
   'edit.from_buffer': () => {
     ContentBufferManager.getInstance().store('changed', undefined, { searchText: 'body' });
   },
+  // undo needs a journaled change whose `after` matches what the mock vault reads.
+  'vault.undo': () => {
+    const store: JournalStore = {
+      exists: async () => false,
+      read: async () => '',
+      write: async () => {},
+      append: async () => {},
+    };
+    const journal = OperationJournal.getInstance();
+    void journal.attach(store, 'journal.jsonl');
+    OperationJournal.runInContext({ sessionId: 'matrix' }, () => journal.record({
+      type: 'update', path: 'note.md', before: 'old', after: NOTE,
+    }));
+  },
 };
 
 type Write = { op: string; path: string };
@@ -152,14 +243,15 @@ const PERMISSIVE = {
   logSecurityEvents: false,
 };
 
-const EXISTING = ['note.md', 'other.md'];
+const EXISTING = ['note.md', 'other.md', 'board.canvas'];
 
 function mkFile(p: string): TFile {
   const f = new TFile();
-  const w = f as unknown as { path: string; extension: string; name: string };
+  const w = f as unknown as { path: string; extension: string; name: string; basename: string };
   w.path = p;
   w.extension = p.includes('.') ? p.slice(p.lastIndexOf('.') + 1) : '';
   w.name = p;
+  w.basename = p.replace(/\.[^.]*$/, '');
   return f;
 }
 
@@ -168,13 +260,14 @@ function makeApp(writes: Write[]): App {
     vault: {
       adapter: { basePath: '/test/vault' },
       getAbstractFileByPath: (p: string) => (EXISTING.includes(p) ? mkFile(p) : null),
-      read: async () => '# Heading\nbody\n',
-      cachedRead: async () => '# Heading\nbody\n',
+      read: async (f: TFile) => (f.path.endsWith('.canvas') ? CANVAS : NOTE),
+      cachedRead: async (f: TFile) => (f.path.endsWith('.canvas') ? CANVAS : NOTE),
       modify: async (f: TFile) => { writes.push({ op: 'modify', path: f.path }); },
       create: async (p: string) => { writes.push({ op: 'create', path: p }); return mkFile(p); },
       createFolder: async (p: string) => { writes.push({ op: 'mkdir', path: p }); },
       getFiles: () => EXISTING.map(mkFile),
       getMarkdownFiles: () => EXISTING.map(mkFile),
+      getAllLoadedFiles: () => EXISTING.map(mkFile),
     },
     fileManager: {
       renameFile: async (_f: TFile, newPath: string) => { writes.push({ op: 'rename', path: newPath }); },
@@ -234,6 +327,8 @@ async function invoke(
 }
 
 describe('read-only enforcement — exhaustive action matrix', () => {
+  afterAll(() => OperationJournal.getInstance().detach());
+
   const allActions = OPERATIONS.flatMap(op =>
     getActionsForOperation(op).map(action => ({ op, action, key: `${op}.${action}` })),
   );
@@ -0,0 +1,226 @@
+/**
+ * Scoped API keys — a session opened with a named key gets that key's reach.
+ *
+ * Enforcement goes through VaultSecurityManager for the session's API, the same
+ * layer as read-only, and the scope is looked up by name on every call: editing
+ * or deleting a key has to reach sessions that are already connected, or a
+ * revoked bot keeps its access until it happens to reconnect (the stale
+ * snapshot ADR-108 removed for read-only).
+ *
+ * Driven through the pool's registered tools/call handler, as a client would.
+ */
+import { App, TFile, TFolder } from 'obsidian';
+import { MCPServerPool } from '../../src/utils/mcp-server-pool';
+import { SecureObsidianAPI } from '../../src/security';
+import { BASELINE_SECURITY_SETTINGS } from '../../src/mcp-server';
+import type { ApiKeyScope } from '../../src/security/http-auth';
+
+jest.mock('obsidian');
+
+function mkFile(path: string): TFile {
+  const f = new TFile();
+  const w = f as unknown as { path: string; extension: string; name: string; basename: string };
+  w.path = path;
+  w.name = path.split('/').pop()!;
+  w.extension = w.name.split('.').pop()!;
+  w.basename = w.name.replace(/\.[^.]+$/, '');
+  return f;
+}
+
+function mkFolder(path: string, files: string[]): TFolder {
+  const folder = new TFolder();
+  folder.path = path;
+  folder.name = path.split('/').pop()!;
+  folder.children = files.filter(p => p.startsWith(`${path}/`)).map(mkFile);
+  return folder;
+}
+
+/** Dataview's page for `path`, with a link to the other note. */
+function dataviewPage(path: string, linksTo: string) {
+  const array = <T>(items: T[]) => ({ length: items.length, array: () => items.slice() });
+  const link = { path: linksTo, display: linksTo };
+  return {
+    file: { path, name: path.split('/').pop()!, size: 3, outlinks: array([link]), inlinks: array([link]), tasks: array([]), lists: array([]) },
+  };
+}
+
+const ALL = { read: true, create: true, update: true, delete: true, move: true, rename: true, execute: true };
+
+/** `ignored` is a folder `.mcpignore` excludes. */
+function makePool(scopedApiKeys: ApiKeyScope[], ignored?: string) {
+  const files = new Map<string, string>([
+    ['Daily/2026-01-01.md', 'day'],
+    ['Notes/plan.md', 'plan'],
+    ['Daily/all.base', 'views:\n  - type: table\n    name: All\n'],
+  ]);
+  const notes = () => [...files.keys()].filter(p => p.endsWith('.md'));
+  const pages = () => notes().map(p => dataviewPage(p, notes().find(other => other !== p)!));
+  const dataview = {
+    pages: () => ({ length: pages().length, array: () => pages() }),
+    page: (p: string) => pages().find(page => page.file.path === p) ?? null,
+    query: async () => ({ successful: true, value: { type: 'list', values: notes().map(p => ({ path: p, display: p })) } }),
+  };
+  const app = {
+    vault: {
+      adapter: { basePath: '/test/vault' },
+      getAbstractFileByPath: (p: string) =>
+        files.has(p) ? mkFile(p) : [...files.keys()].some(k => k.startsWith(`${p}/`)) ? mkFolder(p, [...files.keys()]) : null,
+      getFiles: () => [...files.keys()].map(mkFile),
+      getMarkdownFiles: () => notes().map(mkFile),
+      getAllLoadedFiles: () => [...files.keys()].map(mkFile),
+      read: async (f: TFile) => files.get(f.path)!,
+      cachedRead: async (f: TFile) => files.get(f.path)!,
+      modify: async (f: TFile, content: string) => { files.set(f.path, content); },
+      create: async (p: string, content: string) => { files.set(p, content); return mkFile(p); },
+      createFolder: async () => undefined,
+    },
+    fileManager: { trashFile: async (f: TFile) => { files.delete(f.path); } },
+    metadataCache: { getFileCache: () => null, resolvedLinks: {}, trigger: () => undefined },
+    workspace: { getActiveFile: () => null },
+    plugins: {
+      enabledPlugins: new Set(['dataview']),
+      manifests: { dataview: { id: 'dataview', version: '0.5.0' } },
+      plugins: { dataview: { manifest: { version: '0.5.0' }, api: dataview } },
+    },
+  } as unknown as App;
+  const ignoreManager = ignored === undefined ? undefined : {
+    getEnabled: () => true,
+    isExcluded: (p: string) => p === ignored || p.startsWith(`${ignored}/`),
+  };
+  const plugin = { settings: { enableWebFetch: false, toolVisibility: {}, scopedApiKeys }, ignoreManager };
+  const api = new SecureObsidianAPI(app, undefined, plugin as never, BASELINE_SECURITY_SETTINGS);
+  return { pool: new MCPServerPool(api, 8, plugin as never), files, settings: plugin.settings };
+}
+
+type Handler = (req: unknown, extra: unknown) => Promise<any>;
+
+async function callTool(pool: MCPServerPool, sessionId: string, keyName: string | undefined, name: string, args: Record<string, unknown>): Promise<string> {
+  const server = pool.getOrCreateServer(sessionId, keyName);
+  const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get('tools/call')!;
+  const result = await handler({ method: 'tools/call', params: { name, arguments: args } }, {});
+  return JSON.stringify(result);
+}
+
+const calendar = (): ApiKeyScope => ({
+  name: 'calendar',
+  key: 'calendar-key',
+  permissions: { ...ALL, execute: false },
+  allowedPaths: ['Daily', 'Daily/*'],
+});
+
+const research = (): ApiKeyScope => ({
+  name: 'research',
+  key: 'research-key',
+  permissions: { ...ALL, delete: false },
+});
+
+describe('scoped API keys', () => {
+  it('confines a key to its allowed paths', async () => {
+    const { pool, files } = makePool([calendar()]);
+
+    await callTool(pool, 's1', 'calendar', 'vault', { action: 'update', path: 'Daily/2026-01-01.md', content: 'new day' });
+    expect(files.get('Daily/2026-01-01.md')).toBe('new day');
+
+    const denied = await callTool(pool, 's1', 'calendar', 'vault', { action: 'update', path: 'Notes/plan.md', content: 'x' });
+    expect(denied).toMatch(/PATH_NOT_ALLOWED|not allowed/);
+    expect(files.get('Notes/plan.md')).toBe('plan');
+  });
+
+  it('lists and searches the whole vault, keeping only what the key may read', async () => {
+    const { pool } = makePool([calendar()]);
+
+    const listed = await callTool(pool, 's1', 'calendar', 'vault', { action: 'list' });
+    expect(listed).toContain('Daily/2026-01-01.md');
+    expect(listed).not.toContain('Notes/plan.md');
+    expect(listed).not.toMatch(/PATH_NOT_ALLOWED|not allowed/);
+
+    expect(await callTool(pool, 's1', 'calendar', 'vault', { action: 'search', query: 'day' })).toContain('Daily/2026-01-01.md');
+    const hidden = await callTool(pool, 's1', 'calendar', 'vault', { action: 'search', query: 'plan' });
+    expect(hidden).not.toContain('Notes/plan.md');
+    expect(hidden).toContain('No results found');
+
+    // The main key still finds it
+    expect(await callTool(pool, 'main', undefined, 'vault', { action: 'search', query: 'plan' })).toContain('Notes/plan.md');
+  });
+
+  it('refuses to list a folder outside the key or ignored, rather than listing it empty', async () => {
+    const { pool } = makePool([calendar()]);
+    expect(await callTool(pool, 's1', 'calendar', 'vault', { action: 'list', directory: 'Daily' })).toContain('Daily/2026-01-01.md');
+    expect(await callTool(pool, 's1', 'calendar', 'vault', { action: 'list', directory: 'Notes' })).toMatch(/PATH_NOT_ALLOWED|not allowed/);
+    expect(await callTool(pool, 's1', 'calendar', 'vault', { action: 'list', directory: 'Notes', page: 1 })).toMatch(/PATH_NOT_ALLOWED|not allowed/);
+
+    const ignoring = makePool([], 'Notes').pool;
+    const ignored = await callTool(ignoring, 'main', undefined, 'vault', { action: 'list', directory: 'Notes' });
+    expect(ignored).toMatch(/blocked|not allowed/i);
+    expect(ignored).not.toContain('Notes/plan.md');
+    expect(await callTool(ignoring, 'main', undefined, 'vault', { action: 'list' })).not.toContain('Notes/plan.md');
+  });
+
+  it('keeps notes outside the key out of Dataview and Bases results', async () => {
+    const { pool } = makePool([calendar()]);
+    const asCalendar = (name: string, args: Record<string, unknown>) => callTool(pool, 's1', 'calendar', name, args);
+
+    const listed = await asCalendar('dataview', { action: 'list' });
+    expect(listed).toContain('Daily/2026-01-01.md');
+    expect(listed).not.toContain('Notes/plan.md');
+
+    const metadata = await asCalendar('dataview', { action: 'metadata', path: 'Daily/2026-01-01.md' });
+    expect(metadata).toContain('Daily/2026-01-01.md');
+    expect(metadata).not.toContain('Notes/plan.md');
+    expect(await asCalendar('dataview', { action: 'metadata', path: 'Notes/plan.md' })).toContain('Page not found');
+
+    // DQL rows cannot be traced to the notes they came from, so scoped keys may not run it
+    const query = await asCalendar('dataview', { action: 'query', query: 'LIST' });
+    expect(query).not.toContain('Notes/plan.md');
+    expect(query).toContain('only available to the main API key');
+    expect(await callTool(pool, 'main', undefined, 'dataview', { action: 'query', query: 'LIST' })).toContain('Notes/plan.md');
+
+    const base = await asCalendar('bases', { action: 'query', path: 'Daily/all.base', raw: true });
+    expect(base).toContain('Daily/2026-01-01.md');
+    expect(base).not.toContain('Notes/plan.md');
+    expect(await callTool(pool, 'main', undefined, 'bases', { action: 'query', path: 'Daily/all.base', raw: true })).toContain('Notes/plan.md');
+  });
+
+  it('denies an operation the key does not permit, while the main key still may', async () => {
+    const { pool, files } = makePool([research()]);
+
+    const denied = await callTool(pool, 'r1', 'research', 'vault', { action: 'delete', path: 'Notes/plan.md' });
+    expect(denied).toMatch(/PERMISSION_DENIED|not permitted/);
+    expect(files.has('Notes/plan.md')).toBe(true);
+
+    await callTool(pool, 'main', undefined, 'vault', { action: 'delete', path: 'Notes/plan.md' });
+    expect(files.has('Notes/plan.md')).toBe(false);
+  });
+
+  it('applies a key edit and a revocation to a session that is already open', async () => {
+    const { pool, files, settings } = makePool([research()]);
+    await callTool(pool, 'r1', 'research', 'vault', { action: 'update', path: 'Notes/plan.md', content: 'v2' });
+    expect(files.get('Notes/plan.md')).toBe('v2');
+
+    settings.scopedApiKeys[0].readOnly = true;
+    await callTool(pool, 'r1', 'research', 'vault', { action: 'update', path: 'Notes/plan.md', content: 'v3' });
+    expect(files.get('Notes/plan.md')).toBe('v2');
+
+    settings.scopedApiKeys = [];
+    const revoked = await callTool(pool, 'r1', 'research', 'vault', { action: 'read', path: 'Notes/plan.md' });
+    expect(revoked).toMatch(/PERMISSION_DENIED|not permitted/);
+  });
+
+  it('hides the tools the key hides, on top of the global visibility', async () => {
+    const { pool } = makePool([{ ...research(), toolVisibility: { system: false } }]);
+    const list = async (keyName?: string) => {
+      const server = pool.getOrCreateServer(keyName ?? 'main', keyName);
+      const handler = (server.server as unknown as { _requestHandlers: Map<string, Handler> })._requestHandlers.get('tools/list')!;
+      return (await handler({ method: 'tools/list', params: {} }, {})).tools.map((t: { name: string }) => t.name);
+    };
+
+    expect(await list('research')).not.toContain('system');
+    expect(await list()).toContain('system');
+  });
+
+  it('does not reuse a session built for one key when another key presents its id', async () => {
+    const { pool } = makePool([calendar(), research()]);
+    const first = pool.getOrCreateServer('shared', 'calendar');
+    expect(pool.getOrCreateServer('shared', 'research')).not.toBe(first);
+  });
+});
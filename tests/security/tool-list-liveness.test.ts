@@ -69,15 +69,15 @@ describe('tool list liveness', () => {
   it('reflects an enableWebFetch change on an EXISTING session, with no reconnect', async () => {
     const { pool, settings } = makePool({ enableWebFetch: false, toolVisibility: {} });
 
-    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands']);
+    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands', 'audit']);
 
     // The settings tab mutates the same object the plugin holds.
     settings.enableWebFetch = true;
 
-    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands', 'fetch_web']);
+    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands', 'audit', 'fetch_web']);
 
     settings.enableWebFetch = false;
-    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands']);
+    expect(await systemActions(pool, 'session-a')).toEqual(['info', 'commands', 'audit']);
   });
 
   it('reflects a tool-visibility change on an existing session', async () => {
@@ -0,0 +1,270 @@
+/**
+ * Embedding-based semantic search.
+ *
+ * Every fragment strategy matched words, so a note about automobiles was
+ * invisible to a query about cars. Chunks of the shared fragment index are now
+ * embedded by a pluggable provider into a persisted vector store, searched by
+ * vault.semantic_search and blended with BM25 by the `hybrid` fragment strategy.
+ */
+import { App } from 'obsidian';
+import {
+  EmbeddingError, EmbeddingProvider, HashedNgramEmbeddings, OpenAICompatibleEmbeddings, createEmbeddingProvider, normalizeEmbeddingSettings,
+} from '../src/indexing/embeddings';
+import { LshVectorStore, VectorRecord, cosineSimilarity } from '../src/indexing/vector-store';
+import { VaultEmbeddingIndex } from '../src/indexing/vault-embedding-index';
+import { VaultFragmentIndex, IndexStore } from '../src/indexing/vault-fragment-index';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+
+class MemoryStore implements IndexStore {
+  files = new Map<string, string>();
+  async exists(path: string): Promise<boolean> { return this.files.has(path); }
+  async read(path: string): Promise<string> { return this.files.get(path)!; }
+  async write(path: string, data: string): Promise<void> { this.files.set(path, data); }
+}
+
+/** Words of one concept share a dimension, so synonyms embed close together. */
+const CONCEPTS: Record<string, number> = {
+  car: 0, cars: 0, automobile: 0, automobiles: 0, vehicle: 0, engine: 0,
+  bread: 1, baking: 1, oven: 1, dough: 1,
+  garden: 2, tomatoes: 2, soil: 2,
+};
+
+class ConceptEmbeddings implements EmbeddingProvider {
+  texts: string[] = [];
+  constructor(readonly id = 'test:concepts') {}
+  async embed(texts: string[]): Promise<number[][]> {
+    this.texts.push(...texts);
+    return texts.map(text => {
+      const vector = [0, 0, 0, 0.01];
+      for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+        if (word in CONCEPTS) vector[CONCEPTS[word]] += 1;
+      }
+      return vector;
+    });
+  }
+}
+
+const NOTES: Record<string, string> = {
+  'garage/maintenance.md': '# Maintenance\nChanging the oil keeps an automobile engine healthy.',
+  'kitchen/sourdough.md': '# Sourdough\nThe dough rests overnight before baking in a hot oven.',
+  'kitchen/planner.md': '# Planner\nGarden soil for tomatoes; also park the car by the kitchen.',
+};
+
+async function attachVaultIndex(store = new MemoryStore()): Promise<VaultFragmentIndex> {
+  const index = VaultFragmentIndex.getInstance();
+  await index.attach(store, 'plugin/fragment-index.json');
+  await index.sync(Object.keys(NOTES).map(path => ({ path, mtime: 1 })), async path => NOTES[path]);
+  return index;
+}
+
+describe('LshVectorStore', () => {
+  it('should return the same neighbours as an exact scan, also after a snapshot round trip', () => {
+    let seed = 7;
+    const random = () => { seed = (seed * 16807) % 2147483647; return seed / 2147483647 - 0.5; };
+    const store = new LshVectorStore(16);
+    const records: VectorRecord[] = [];
+    for (let i = 0; i < 120; i++) {
+      const record = { path: `n${i % 30}.md`, content: `chunk ${i}`, lineStart: i, lineEnd: i, vector: Array.from({ length: 16 }, random) };
+      records.push(record);
+    }
+    for (let n = 0; n < 30; n++) store.setDocument(`n${n}.md`, records.filter(r => r.path === `n${n}.md`));
+
+    const query = Array.from({ length: 16 }, random);
+    const exact = records
+      .map(r => ({ content: r.content, score: cosineSimilarity(query, r.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5)
+      .map(r => r.content);
+
+    expect(store.search(query, 5).map(hit => hit.record.content)).toEqual(exact);
+    expect(LshVectorStore.deserialize(store.serialize()).search(query, 5).map(hit => hit.record.content)).toEqual(exact);
+
+    store.removeDocument('n0.md');
+    expect(store.size()).toBe(116);
+    expect(store.search(query, 200, path => path === 'n1.md').some(hit => hit.record.path === 'n1.md')).toBe(false);
+  });
+});
+
+describe('VaultEmbeddingIndex', () => {
+  const embeddings = VaultEmbeddingIndex.getInstance();
+  const source = (mtimes: Record<string, number>) => ({
+    getPaths: () => Object.keys(mtimes),
+    getDocumentInfo: (path: string) => (path in mtimes ? { mtime: mtimes[path] } : undefined),
+    getChunks: (path: string) => [{ content: `${path} about cars`, lineStart: 1, lineEnd: 1 }],
+  });
+
+  afterEach(async () => {
+    await embeddings.detach();
+  });
+
+  it('should embed only new and changed notes, and reuse a snapshot from the same model', async () => {
+    const store = new MemoryStore();
+    const provider = new ConceptEmbeddings();
+    await embeddings.attach(store, 'plugin/vector-index.json', provider);
+    await embeddings.sync(source({ 'a.md': 1, 'b.md': 1 }));
+    expect(provider.texts).toHaveLength(2);
+    await embeddings.detach();
+
+    const reloaded = new ConceptEmbeddings();
+    await embeddings.attach(store, 'plugin/vector-index.json', reloaded);
+    await embeddings.sync(source({ 'a.md': 1, 'b.md': 2 }));
+    expect(reloaded.texts).toEqual(['b.md about cars']);
+    expect(embeddings.getDocumentVectors('a.md')).toHaveLength(1);
+
+    await embeddings.sync(source({ 'b.md': 2 }));
+    expect(embeddings.getDocumentVectors('a.md')).toHaveLength(0);
+    expect(embeddings.getCoverage(source({ 'b.md': 2, 'c.md': 1 }))).toMatchObject({ embedded: 1, total: 2 });
+  });
+
+  it('should discard vectors made by another model', async () => {
+    const store = new MemoryStore();
+    await embeddings.attach(store, 'plugin/vector-index.json', new ConceptEmbeddings('test:one'));
+    await embeddings.sync(source({ 'a.md': 1 }));
+    await embeddings.detach();
+
+    const other = new ConceptEmbeddings('test:two');
+    await embeddings.attach(store, 'plugin/vector-index.json', other);
+    expect(embeddings.getDocumentVectors('a.md')).toHaveLength(0);
+    await embeddings.sync(source({ 'a.md': 1 }));
+    expect(other.texts).toHaveLength(1);
+  });
+
+  it('should never embed ignored notes, and drop their vectors when the rules change', async () => {
+    const store = new MemoryStore();
+    const ignored = new Set(['secret.md']);
+    const provider = new ConceptEmbeddings();
+    await embeddings.attach(store, 'plugin/vector-index.json', provider, path => ignored.has(path));
+    await embeddings.sync(source({ 'a.md': 1, 'secret.md': 1 }));
+    expect(provider.texts).toEqual(['a.md about cars']);
+    expect(embeddings.getCoverage(source({ 'a.md': 1, 'secret.md': 1 }))).toMatchObject({ embedded: 1, total: 1 });
+
+    ignored.add('a.md');
+    embeddings.exclusionsChanged(source({ 'a.md': 1, 'secret.md': 1 }));
+    expect(embeddings.getDocumentVectors('a.md')).toHaveLength(0);
+    await embeddings.flush();
+    expect(store.files.get('plugin/vector-index.json')).not.toContain('a.md');
+  });
+
+  it('should report a failing provider and retry on the next sync', async () => {
+    let fail = true;
+    const flaky: EmbeddingProvider = {
+      id: 'test:flaky',
+      embed: async texts => {
+        if (fail) throw new EmbeddingError('connection refused');
+        return texts.map(() => [1, 0]);
+      },
+    };
+    await embeddings.attach(new MemoryStore(), 'plugin/vector-index.json', flaky);
+    await embeddings.sync(source({ 'a.md': 1 }));
+    expect(embeddings.getCoverage(source({ 'a.md': 1 }))).toEqual({ embedded: 0, total: 1, lastError: 'connection refused' });
+
+    fail = false;
+    await embeddings.sync(source({ 'a.md': 1 }));
+    expect(embeddings.getCoverage(source({ 'a.md': 1 }))).toEqual({ embedded: 1, total: 1, lastError: undefined });
+  });
+});
+
+describe('vault.semantic_search and hybrid fragments', () => {
+  const route = (action: string, params: Record<string, unknown>) =>
+    new SemanticRouter(new ObsidianAPI({} as App)).route({ operation: 'vault', action, params }) as Promise<any>;
+
+  afterEach(async () => {
+    await VaultEmbeddingIndex.getInstance().detach();
+    await VaultFragmentIndex.getInstance().detach();
+  });
+
+  it('should refuse with SEMANTIC_SEARCH_UNAVAILABLE while embeddings are off', async () => {
+    await attachVaultIndex();
+    const response = await route('semantic_search', { query: 'cars' });
+    expect(response.error.code).toBe('SEMANTIC_SEARCH_UNAVAILABLE');
+    const hybrid = await route('fragments', { query: 'cars', strategy: 'hybrid' });
+    expect(hybrid.error.code).toBe('SEMANTIC_SEARCH_UNAVAILABLE');
+  });
+
+  it('should find passages by meaning, scoped to a folder on request', async () => {
+    const fragmentIndex = await attachVaultIndex();
+    const embeddings = VaultEmbeddingIndex.getInstance();
+    await embeddings.attach(new MemoryStore(), 'plugin/vector-index.json', new ConceptEmbeddings());
+    await embeddings.sync(fragmentIndex);
+
+    // No note says "cars": the match is on meaning
+    const response = await route('semantic_search', { query: 'cars', maxFragments: 2 });
+    expect(response.result.result.map((f: any) => f.docPath)).toEqual(['garage/maintenance.md', 'kitchen/planner.md']);
+    expect(response.result.result[0].lineStart).toBe(1);
+    expect(response.result.context).toMatchObject({ embedded_notes: 3, total_notes: 3 });
+
+    const scoped = await route('semantic_search', { query: 'cars', maxFragments: 2, path: 'kitchen' });
+    expect(scoped.result.result.map((f: any) => f.docPath)).toEqual(['kitchen/planner.md', 'kitchen/sourdough.md']);
+  });
+
+  it('should blend keyword and embedding scores by hybridWeight', async () => {
+    const fragmentIndex = await attachVaultIndex();
+    const embeddings = VaultEmbeddingIndex.getInstance();
+    await embeddings.attach(new MemoryStore(), 'plugin/vector-index.json', new ConceptEmbeddings());
+    await embeddings.sync(fragmentIndex);
+
+    const top = async (hybridWeight: number) => {
+      const response = await route('fragments', { query: 'park the car by the kitchen', strategy: 'hybrid', hybridWeight, maxFragments: 1 });
+      return response.result.result[0].docPath;
+    };
+    // The planner has every word; the maintenance note is the one about cars
+    expect(await top(1)).toBe('kitchen/planner.md');
+    expect(await top(0)).toBe('garage/maintenance.md');
+  });
+});
+
+describe('HashedNgramEmbeddings', () => {
+  const provider = new HashedNgramEmbeddings();
+  const similarity = async (a: string, b: string) => {
+    const [x, y] = await provider.embed([a, b]);
+    return cosineSimilarity(x, y);
+  };
+
+  it('should give unit vectors that are the same for the same text', async () => {
+    const [a, b] = await provider.embed(['Indexing the vault', 'Indexing the vault']);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+  });
+
+  it('should rank shared words and word pieces, but not synonyms', async () => {
+    const query = 'rebuild the search index';
+    expect(await similarity(query, 'The index is rebuilt nightly')).toBeGreaterThan(await similarity(query, 'Sourdough rests before baking'));
+    expect(await similarity('indexing', 'index')).toBeGreaterThan(0.25);
+    expect(await similarity('car', 'automobile')).toBeLessThan(0.2);
+  });
+
+  it('should be the default provider, with no endpoint needed', () => {
+    const settings = normalizeEmbeddingSettings({ enabled: true, provider: 'hashed', endpoint: '' });
+    expect(createEmbeddingProvider(settings)).toBeInstanceOf(HashedNgramEmbeddings);
+    expect(normalizeEmbeddingSettings(undefined).provider).toBe('hashed');
+    // Saved before the choice existed: keep using the configured endpoint
+    expect(normalizeEmbeddingSettings({ enabled: true, endpoint: 'http://localhost:1/v1', model: 'm' }).provider).toBe('openai');
+  });
+});
+
+describe('OpenAICompatibleEmbeddings', () => {
+  it('should post the model and inputs and return vectors in input order', async () => {
+    const requests: Array<{ url: string; body: any; headers: Record<string, string> }> = [];
+    const provider = new OpenAICompatibleEmbeddings('http://localhost:11434/v1/', 'nomic-embed-text', 'secret', async (url, body, headers) => {
+      requests.push({ url, body: JSON.parse(body), headers });
+      return { status: 200, body: JSON.stringify({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] }) };
+    });
+
+    expect(await provider.embed(['first', 'second'])).toEqual([[1, 0], [0, 1]]);
+    expect(requests).toEqual([{
+      url: 'http://localhost:11434/v1/embeddings',
+      body: { model: 'nomic-embed-text', input: ['first', 'second'] },
+      headers: { Authorization: 'Bearer secret' },
+    }]);
+    expect(provider.id).toBe('openai:nomic-embed-text@http://localhost:11434/v1/embeddings');
+  });
+
+  it('should reject an error status or a short answer', async () => {
+    const failing = new OpenAICompatibleEmbeddings('http://localhost:1/v1', 'm', '', async () => ({ status: 404, body: 'model not found' }));
+    await expect(failing.embed(['x'])).rejects.toThrow(/HTTP 404: model not found/);
+
+    const short = new OpenAICompatibleEmbeddings('http://localhost:1/v1', 'm', '', async () => ({ status: 200, body: '{"data":[]}' }));
+    await expect(short.embed(['x'])).rejects.toThrow(EmbeddingError);
+  });
+});
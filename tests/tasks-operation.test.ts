@@ -0,0 +1,213 @@
+/**
+ * The tasks operation and the task syntax it reads and writes.
+ *
+ * Tasks are plain checklist lines; their dates, priority and recurrence are
+ * written either as Tasks plugin emoji or as Dataview inline fields. Edits
+ * must touch only the field they change, in the syntax the line already uses,
+ * and completing a recurring task must produce the next occurrence the way
+ * the Tasks plugin does.
+ */
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+import {
+  parseTask,
+  parseTasks,
+  setTaskField,
+  parseRecurrence,
+  nextRecurrenceDate,
+  nextOccurrence,
+  addDays,
+  localToday,
+} from '../src/utils/task-syntax';
+import { formatResponse } from '../src/formatters';
+import { MemoryAPI } from './fixtures/memory-api';
+
+async function route(api: ObsidianAPI, action: string, params: Record<string, unknown>): Promise<any> {
+  return new SemanticRouter(api).route({ operation: 'tasks', action, params });
+}
+
+const today = localToday();
+
+describe('task syntax', () => {
+  it('should read Tasks emoji and Dataview inline fields', () => {
+    const emoji = parseTask('- [ ] Pay rent #home ⏫ 🔁 every month 📅 2026-11-01 ⏳ 2026-10-28 ^rent', 4)!;
+    expect(emoji).toMatchObject({
+      line: 4,
+      status: 'todo',
+      description: 'Pay rent #home',
+      due: '2026-11-01',
+      scheduled: '2026-10-28',
+      recurrence: 'every month',
+      priority: 'high',
+      tags: ['#home'],
+      blockId: 'rent',
+    });
+
+    const inline = parseTask('  * [x] Send report [due:: 2026-10-20] (completion:: 2026-10-19) [owner:: Sam]', 1)!;
+    expect(inline).toMatchObject({
+      status: 'done',
+      description: 'Send report',
+      due: '2026-10-20',
+      done: '2026-10-19',
+      fields: { owner: 'Sam' },
+    });
+
+    expect(parseTask('- plain item', 1)).toBeUndefined();
+    expect(parseTask('[ ] not a list item', 1)).toBeUndefined();
+  });
+
+  it('should skip frontmatter and fenced code', () => {
+    const content = '---\ntodo: "- [ ] not a task"\n---\n- [ ] one\n```\n- [ ] example\n```\n- [/] two';
+    expect(parseTasks(content).map(t => [t.line, t.description, t.status])).toEqual([
+      [4, 'one', 'todo'],
+      [8, 'two', 'in_progress'],
+    ]);
+  });
+
+  it('should change one field in the syntax the line already uses', () => {
+    expect(setTaskField('- [ ] a 📅 2026-10-20 ^id', 'due', '2026-10-21')).toBe('- [ ] a 📅 2026-10-21 ^id');
+    expect(setTaskField('- [ ] a [due:: 2026-10-20]', 'scheduled', '2026-10-19')).toBe('- [ ] a [due:: 2026-10-20] [scheduled:: 2026-10-19]');
+    expect(setTaskField('- [ ] a 🔼 📅 2026-10-20', 'priority', undefined)).toBe('- [ ] a 📅 2026-10-20');
+  });
+
+  it('should advance recurrence rules like the Tasks plugin', () => {
+    const next = (rule: string, from: string) => nextRecurrenceDate(parseRecurrence(rule)!, from);
+
+    expect(next('every day', '2026-10-18')).toBe('2026-10-19');
+    expect(next('every 3 days', '2026-10-18')).toBe('2026-10-21');
+    expect(next('every weekday', '2026-10-16')).toBe('2026-10-19'); // Friday to Monday
+    expect(next('every week on Monday, Thursday', '2026-10-19')).toBe('2026-10-22');
+    expect(next('every month', '2026-01-31')).toBe('2026-02-28');
+    expect(next('every month on the last day', '2026-02-28')).toBe('2026-03-31');
+    expect(next('every year', '2028-02-29')).toBe('2029-02-28');
+    expect(parseRecurrence('whenever I feel like it')).toBeUndefined();
+  });
+
+  it('should move every date of the next occurrence together', () => {
+    const task = '- [ ] Review ➕ 2026-10-01 🔁 every week ⏳ 2026-10-18 📅 2026-10-20 ^review';
+    expect(nextOccurrence(task, '2026-10-21')).toBe('- [ ] Review ➕ 2026-10-21 🔁 every week ⏳ 2026-10-25 📅 2026-10-27');
+
+    // "when done" counts from the completion date instead
+    const whenDone = '- [ ] Water plants 🔁 every 3 days when done 📅 2026-10-10';
+    expect(nextOccurrence(whenDone, '2026-10-18')).toBe('- [ ] Water plants 🔁 every 3 days when done 📅 2026-10-21');
+  });
+});
+
+describe('tasks operation', () => {
+  const yesterday = addDays(today, -1);
+  const nextWeek = addDays(today, 7);
+
+  function vault(): MemoryAPI {
+    return new MemoryAPI({
+      'Projects/Alpha.md': `# Alpha\n\n- [ ] Draft spec #work 📅 ${yesterday}\n- [x] Kickoff ✅ ${yesterday}\n- [ ] Ship ⏫ 📅 ${nextWeek} ^ship\n`,
+      'Home.md': `- [ ] Pay rent #home 🔁 every month 📅 ${today}\n- [ ] Call plumber [priority:: low]\n`,
+    });
+  }
+
+  it('should list tasks in a folder and filter them with query', async () => {
+    const api = vault();
+
+    const listed = await route(api, 'list', { path: 'Projects' });
+    expect(listed.result.total).toBe(3);
+    expect(listed.result.tasks.map((t: any) => [t.path, t.line])).toEqual([
+      ['Projects/Alpha.md', 3], ['Projects/Alpha.md', 4], ['Projects/Alpha.md', 5],
+    ]);
+
+    const overdue = await route(api, 'query', { overdue: true });
+    expect(overdue.result.tasks.map((t: any) => t.description)).toEqual(['Draft spec #work']);
+
+    const byDue = await route(api, 'query', { sortBy: 'due' });
+    expect(byDue.result.tasks.map((t: any) => t.description)).toEqual([
+      'Draft spec #work', 'Pay rent #home', 'Ship', 'Call plumber',
+    ]);
+
+    const tagged = await route(api, 'query', { tag: '#home', status: 'any' });
+    expect(tagged.result.tasks).toHaveLength(1);
+
+    const bad = await route(api, 'query', { dueBefore: 'next tuesday' });
+    expect(bad.error.code).toBe('INVALID_DATE');
+  });
+
+  it('should complete a recurring task and write the next occurrence above it', async () => {
+    const api = vault();
+    const response = await route(api, 'toggle', { path: 'Home.md', line: 1 });
+
+    const nextDue = nextRecurrenceDate(parseRecurrence('every month')!, today);
+    expect(api.files.get('Home.md')).toBe(
+      `- [ ] Pay rent #home 🔁 every month 📅 ${nextDue}\n` +
+      `- [x] Pay rent #home 🔁 every month 📅 ${today} ✅ ${today}\n` +
+      '- [ ] Call plumber [priority:: low]\n'
+    );
+    expect(response.result.task).toMatchObject({ line: 2, status: 'done' });
+    expect(response.result.next).toMatchObject({ line: 1, due: nextDue });
+
+    // Toggling it again reopens it without touching the next occurrence
+    await route(api, 'toggle', { path: 'Home.md', line: 2 });
+    expect(api.files.get('Home.md')!.split('\n')[1]).toBe(`- [ ] Pay rent #home 🔁 every month 📅 ${today}`);
+  });
+
+  it('should find a task by block ID anywhere in the vault', async () => {
+    const api = vault();
+    const response = await route(api, 'reschedule', { blockId: '^ship', days: 2 });
+
+    expect(response.result.path).toBe('Projects/Alpha.md');
+    expect(api.files.get('Projects/Alpha.md')).toContain(`- [ ] Ship ⏫ 📅 ${addDays(nextWeek, 2)} ^ship`);
+
+    const missing = await route(api, 'toggle', { blockId: 'nope' });
+    expect(missing.error.code).toBe('TASK_NOT_FOUND');
+  });
+
+  it('should refuse to address a line that is not a task', async () => {
+    const api = vault();
+    const response = await route(api, 'toggle', { path: 'Projects/Alpha.md', line: 1 });
+    expect(response.error.code).toBe('TASK_NOT_FOUND');
+    expect(api.files.get('Projects/Alpha.md')).toBe(vault().files.get('Projects/Alpha.md'));
+  });
+
+  it('should update fields in the syntax the task already uses', async () => {
+    const api = vault();
+    await route(api, 'update', { path: 'Home.md', line: 2, priority: 'high', due: 'tomorrow', description: 'Call the plumber' });
+    expect(api.files.get('Home.md')!.split('\n')[1]).toBe(
+      `- [ ] Call the plumber [priority:: high] [due:: ${addDays(today, 1)}]`
+    );
+
+    await route(api, 'update', { path: 'Home.md', line: 2, priority: '', status: 'in_progress' });
+    expect(api.files.get('Home.md')!.split('\n')[1]).toBe(`- [/] Call the plumber [due:: ${addDays(today, 1)}]`);
+
+    const invalid = await route(api, 'update', { path: 'Home.md', line: 2, recurrence: 'now and then' });
+    expect(invalid.error.code).toBe('INVALID_RECURRENCE');
+  });
+
+  it('should create tasks under a heading, or in a new note', async () => {
+    const api = new MemoryAPI({ 'Plan.md': '# Today\n- [ ] one\n\n# Later\n- [ ] two\n' });
+
+    const created = await route(api, 'create', {
+      path: 'Plan.md', heading: 'Today', description: 'Book flights', due: '2026-11-02', priority: 'medium',
+    });
+    expect(api.files.get('Plan.md')).toBe('# Today\n- [ ] one\n- [ ] Book flights 🔼 📅 2026-11-02\n\n# Later\n- [ ] two\n');
+    expect(created.result.task.line).toBe(3);
+
+    await route(api, 'create', { path: 'Inbox.md', description: 'Triage', syntax: 'dataview', scheduled: '2026-11-01' });
+    expect(api.files.get('Inbox.md')).toBe('- [ ] Triage [scheduled:: 2026-11-01]\n');
+
+    const missing = await route(api, 'create', { path: 'Plan.md', heading: 'Someday', description: 'x' });
+    expect(missing.error.code).toBe('HEADING_NOT_FOUND');
+  });
+
+  it('should preview a toggle with dryRun without writing', async () => {
+    const api = vault();
+    const before = api.files.get('Home.md');
+    const response = await route(api, 'toggle', { path: 'Home.md', line: 1, dryRun: true });
+
+    expect(response.result.dryRun).toBe(true);
+    expect(response.result.diff).toContain(`+- [x] Pay rent #home 🔁 every month 📅 ${today} ✅ ${today}`);
+    expect(api.files.get('Home.md')).toBe(before);
+  });
+
+  it('should format results grouped by note', async () => {
+    const response = await route(vault(), 'list', {});
+    const text = formatResponse('tasks', 'list', response.result);
+    expect(text).toContain('## Home.md');
+    expect(text).toContain(`[ ] Ship · due ${nextWeek} · high · ^ship (line 5)`);
+  });
+});
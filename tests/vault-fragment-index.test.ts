@@ -0,0 +1,220 @@
+/**
+ * Shared vault fragment index.
+ *
+ * The router is built per request, so a per-router retriever re-read and re-tokenized the
+ * same files on every vault.fragments call. The shared index must (a) forget content a
+ * file no longer has, (b) survive a restart via its snapshot, (c) only re-read files whose
+ * mtime moved, and (d) let vault.fragments / vault.search answer without reading files.
+ */
+import { App } from 'obsidian';
+import { VaultFragmentIndex, IndexStore } from '../src/indexing/vault-fragment-index';
+import { UniversalFragmentRetriever } from '../src/indexing/fragment-retriever';
+import { SemanticRouter } from '../src/semantic/router';
+import { ObsidianAPI } from '../src/utils/obsidian-api';
+
+class MemoryStore implements IndexStore {
+  files = new Map<string, string>();
+  async exists(path: string): Promise<boolean> { return this.files.has(path); }
+  async read(path: string): Promise<string> { return this.files.get(path)!; }
+  async write(path: string, data: string): Promise<void> { this.files.set(path, data); }
+}
+
+class CountingAPI extends ObsidianAPI {
+  reads: string[] = [];
+  constructor(private files: Record<string, string>) {
+    super({} as App);
+  }
+  async getFile(path: string): Promise<any> {
+    this.reads.push(path);
+    const content = this.files[path];
+    if (content === undefined) throw new Error(`File not found: ${path}`);
+    return { path, content, tags: [], frontmatter: {} };
+  }
+  async searchPaginated(): Promise<any> {
+    throw new Error('vault-wide search should not run when the shared index is ready');
+  }
+}
+
+const STORE_PATH = 'plugin/fragment-index.json';
+
+describe('UniversalFragmentRetriever.removeDocument', () => {
+  it('should stop matching content a re-indexed document no longer has', () => {
+    const retriever = new UniversalFragmentRetriever();
+    retriever.indexDocument('file:a.md', 'a.md', 'The zeppelin landed on the roof.');
+    retriever.indexDocument('file:a.md', 'a.md', 'Nothing to see here any more.');
+
+    for (const strategy of ['adaptive', 'proximity', 'semantic'] as const) {
+      const response = retriever.retrieveFragments('zeppelin', { strategy });
+      expect(response.result).toEqual([]);
+    }
+    expect(retriever.getIndexedDocumentCount()).toBe(1);
+  });
+
+  it('should forget a removed document entirely', () => {
+    const retriever = new UniversalFragmentRetriever();
+    retriever.indexDocument('file:a.md', 'a.md', 'The zeppelin landed on the roof.');
+    expect(retriever.removeDocument('file:a.md')).toBe(true);
+
+    expect(retriever.retrieveFragments('zeppelin', { strategy: 'adaptive' }).result).toEqual([]);
+    expect(retriever.hasDocument('file:a.md')).toBe(false);
+  });
+});
+
+describe('VaultFragmentIndex', () => {
+  const index = VaultFragmentIndex.getInstance();
+
+  afterEach(async () => {
+    await index.detach();
+  });
+
+  it('should restore documents from its snapshot after a restart', async () => {
+    const store = new MemoryStore();
+    await index.attach(store, STORE_PATH);
+    index.upsert('notes/airship.md', 100, 'The zeppelin landed on the roof.');
+    await index.flush();
+
+    await index.detach();
+    expect(index.has('notes/airship.md')).toBe(false);
+
+    await index.attach(store, STORE_PATH);
+    expect(index.has('notes/airship.md')).toBe(true);
+    const paths = index.retrieveFragments('zeppelin', { strategy: 'adaptive' }).result.map(f => f.docPath);
+    expect(paths).toEqual(['notes/airship.md']);
+  });
+
+  it('should rewrite only the shard holding a changed document', async () => {
+    const store = new MemoryStore();
+    await index.attach(store, STORE_PATH);
+    for (let i = 0; i < 40; i++) index.upsert(`notes/${i}.md`, 1, `note number ${i}`);
+    await index.flush();
+    expect(JSON.parse(store.files.get(STORE_PATH)!)).toEqual({ version: 2, shards: 16 });
+
+    const writes: string[] = [];
+    const write = store.write.bind(store);
+    store.write = async (path, data) => { writes.push(path); return write(path, data); };
+    index.upsert('notes/7.md', 2, 'edited zeppelin');
+    await index.flush();
+
+    expect(writes).toEqual([`plugin/fragment-index.${VaultFragmentIndex.shardOf('notes/7.md')}.json`]);
+    expect(JSON.parse(store.files.get(writes[0])!).documents.length).toBeLessThan(40);
+  });
+
+  it('should keep ignored notes searchable but never write them to disk', async () => {
+    const store = new MemoryStore();
+    let ignored = (path: string) => path.startsWith('private/');
+    await index.attach(store, STORE_PATH, (path) => ignored(path));
+    index.upsert('private/diary.md', 1, 'The secret zeppelin plan.');
+    index.upsert('public/note.md', 1, 'An ordinary zeppelin.');
+    await index.flush();
+
+    expect(index.retrieveFragments('zeppelin', { strategy: 'adaptive' }).result).toHaveLength(2);
+    const persisted = () => Array.from(store.files.values()).join('\n');
+    expect(persisted()).not.toContain('secret');
+    expect(persisted()).toContain('ordinary');
+
+    // Ignoring the public note too drops it from disk on the next save
+    ignored = () => true;
+    index.exclusionsChanged();
+    await index.flush();
+    expect(persisted()).not.toContain('ordinary');
+
+    await index.detach();
+    await index.attach(store, STORE_PATH, ignored);
+    expect(index.getDocumentCount()).toBe(0);
+  });
+
+  it('should drop notes ignored since the last save when loading the snapshot', async () => {
+    const store = new MemoryStore();
+    await index.attach(store, STORE_PATH);
+    index.upsert('private/diary.md', 1, 'The secret zeppelin plan.');
+    await index.flush();
+    await index.detach();
+
+    await index.attach(store, STORE_PATH, (path) => path.startsWith('private/'));
+    expect(index.has('private/diary.md')).toBe(false);
+    await index.flush();
+    expect(Array.from(store.files.values()).join('\n')).not.toContain('secret');
+  });
+
+  it('should only re-read files whose mtime changed, and drop deleted ones', async () => {
+    const store = new MemoryStore();
+    await index.attach(store, STORE_PATH);
+    index.upsert('a.md', 1, 'alpha');
+    index.upsert('b.md', 1, 'bravo');
+    index.upsert('gone.md', 1, 'deleted while closed');
+
+    const reads: string[] = [];
+    await index.sync(
+      [{ path: 'a.md', mtime: 1 }, { path: 'b.md', mtime: 2 }, { path: 'c.md', mtime: 1 }],
+      async (path) => { reads.push(path); return `fresh ${path}`; }
+    );
+
+    expect(reads.sort()).toEqual(['b.md', 'c.md']);
+    expect(index.has('gone.md')).toBe(false);
+    expect(index.isReady()).toBe(true);
+  });
+
+  it('should ignore an older write racing a newer one', async () => {
+    await index.attach(new MemoryStore(), STORE_PATH);
+    index.upsert('a.md', 5, 'newer zeppelin');
+    index.upsert('a.md', 3, 'older blimp');
+
+    expect(index.retrieveFragments('zeppelin', { strategy: 'adaptive' }).result).toHaveLength(1);
+    expect(index.retrieveFragments('blimp', { strategy: 'adaptive' }).result).toEqual([]);
+  });
+
+  it('should carry content across a rename', async () => {
+    await index.attach(new MemoryStore(), STORE_PATH);
+    index.upsert('old/name.md', 1, 'The zeppelin landed on the roof.');
+    index.rename('old/name.md', 'new/name.md');
+
+    const paths = index.retrieveFragments('zeppelin', { strategy: 'adaptive' }).result.map(f => f.docPath);
+    expect(paths).toEqual(['new/name.md']);
+  });
+});
+
+describe('router with the shared index attached', () => {
+  const index = VaultFragmentIndex.getInstance();
+  const files = {
+    'airship.md': 'The zeppelin landed on the roof of the hangar.',
+    'boats.md': 'Sailing boats drift slowly across the bay.',
+  };
+
+  beforeEach(async () => {
+    await index.attach(new MemoryStore(), STORE_PATH);
+    await index.sync(
+      Object.keys(files).map(path => ({ path, mtime: 1 })),
+      async (path) => files[path as keyof typeof files]
+    );
+  });
+
+  afterEach(async () => {
+    await index.detach();
+  });
+
+  it('should answer vault.fragments without reading files', async () => {
+    const api = new CountingAPI(files);
+    const response = await new SemanticRouter(api).route({
+      operation: 'vault',
+      action: 'fragments',
+      params: { query: 'zeppelin', strategy: 'adaptive' },
+    }) as any;
+
+    expect(response.result.result.map((f: any) => f.docPath)).toEqual(['airship.md']);
+    expect(api.reads).toEqual([]);
+  });
+
+  it('should answer plain vault.search queries from the index', async () => {
+    const api = new CountingAPI(files);
+    const response = await new SemanticRouter(api).route({
+      operation: 'vault',
+      action: 'search',
+      params: { query: 'zeppelin' },
+    }) as any;
+
+    expect(response.result.method).toBe('vault-index-combined');
+    expect(response.result.results.map((r: any) => r.path)).toEqual(['airship.md']);
+    expect(response.result.results[0].snippet.content).toContain('zeppelin');
+    expect(api.reads).toEqual([]);
+  });
+});